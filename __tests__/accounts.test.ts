@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { RegisterUserRequest } from '../src/domain/usecases/RegisterUserUseCase';
+import { Actor } from '../src/domain/entities/User';
+import { silenceConsole } from './helpers/fixtures';
+
+const ownerRequest: RegisterUserRequest = {
+  displayName: ' Ann Smith ',
+  role: 'owner',
+  credentialType: 'pin',
+  secret: '2468',
+  phone: '555-0100'
+};
+
+let container: AppContainer;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+  jest.restoreAllMocks();
+});
+
+describe('registration', () => {
+  test('creates an owner account with a new owner profile and a salted hash', async () => {
+    const result = await container.registerUserUseCase.execute(ownerRequest, null);
+
+    expect(result.success).toBe(true);
+    expect(result.user).toMatchObject({ displayName: 'Ann Smith', role: 'owner', credentialType: 'pin' });
+    expect(result.user?.credentialHash).not.toContain('2468');
+    expect(await container.ownerRepository.getOwnerById(result.user!.ownerId!))
+      .toMatchObject({ name: 'Ann Smith', phone: '555-0100', preferredContactChannel: 'phone' });
+  });
+
+  test('checks the name and the PIN or passphrase', async () => {
+    const { registerUserUseCase } = container;
+
+    expect(await registerUserUseCase.execute({ ...ownerRequest, displayName: '  ' }, null))
+      .toEqual({ success: false, error: 'Name is required' });
+    expect(await registerUserUseCase.execute({ ...ownerRequest, secret: '12' }, null))
+      .toEqual({ success: false, error: 'PIN must be 4 to 8 digits' });
+    expect(await registerUserUseCase.execute({ ...ownerRequest, credentialType: 'passphrase', secret: 'short' }, null))
+      .toEqual({ success: false, error: 'Passphrase must be at least 8 characters' });
+  });
+
+  test('lets only the first admin register themselves; later staff accounts need an admin', async () => {
+    const { registerUserUseCase } = container;
+    const [doctor] = await container.appointmentRepository.getDoctors();
+    const doctorRequest: RegisterUserRequest = { ...ownerRequest, role: 'doctor', doctorId: doctor.id };
+
+    expect(await registerUserUseCase.execute(doctorRequest, null))
+      .toEqual({ success: false, error: 'Not authorized to create this type of account' });
+
+    const admin = await registerUserUseCase.execute({ ...ownerRequest, role: 'clinic_admin' }, null);
+    expect(admin.success).toBe(true);
+    expect(await registerUserUseCase.execute({ ...ownerRequest, role: 'clinic_admin' }, null))
+      .toEqual({ success: false, error: 'Not authorized to create this type of account' });
+
+    const adminActor: Actor = { userId: admin.user!.id, role: 'clinic_admin' };
+    expect((await registerUserUseCase.execute(doctorRequest, adminActor)).user).toMatchObject({ doctorId: doctor.id });
+    expect(await registerUserUseCase.execute(doctorRequest, adminActor))
+      .toEqual({ success: false, error: 'This doctor already has an account' });
+  });
+
+  test('links an owner profile to one account only', async () => {
+    silenceConsole('error');
+
+    const [owner] = await container.ownerRepository.getOwners();
+    const request = { ...ownerRequest, ownerId: owner.id };
+
+    expect((await container.registerUserUseCase.execute(request, null)).user?.ownerId).toBe(owner.id);
+    expect(await container.registerUserUseCase.execute(request, null))
+      .toEqual({ success: false, error: 'This owner profile already has an account' });
+  });
+});
+
+describe('sign-in', () => {
+  test('starts a session with the right PIN', async () => {
+    const { user } = await container.registerUserUseCase.execute(ownerRequest, null);
+
+    const result = await container.signInUseCase.execute(user!.id, '2468');
+
+    expect(result.success).toBe(true);
+    expect(await container.userRepository.getSessionUserId()).toBe(user!.id);
+  });
+
+  test('locks the account for five minutes after five wrong PINs', async () => {
+    jest.useFakeTimers({ now: new Date('2030-01-07T09:00:00.000Z'), doNotFake: ['nextTick', 'setImmediate'] });
+    const { signInUseCase } = container;
+    const { user } = await container.registerUserUseCase.execute(ownerRequest, null);
+
+    for (let attempt = 1; attempt <= 4; attempt++) {
+      expect(await signInUseCase.execute(user!.id, '0000')).toEqual({ success: false, error: 'Incorrect PIN' });
+    }
+    expect((await container.userRepository.getUserById(user!.id))?.failedSignInAttempts).toBe(4);
+
+    await signInUseCase.execute(user!.id, '0000');
+    const locked = { success: false, error: 'Too many failed attempts. Please try again in a few minutes.' };
+    expect(await signInUseCase.execute(user!.id, '2468')).toEqual(locked);
+
+    jest.setSystemTime(new Date('2030-01-07T09:04:59.000Z'));
+    expect(await signInUseCase.execute(user!.id, '2468')).toEqual(locked);
+
+    jest.setSystemTime(new Date('2030-01-07T09:05:01.000Z'));
+    expect((await signInUseCase.execute(user!.id, '2468')).user)
+      .toMatchObject({ failedSignInAttempts: 0, lockedUntil: undefined });
+  });
+
+  test('refuses unknown accounts', async () => {
+    expect(await container.signInUseCase.execute('nobody', '2468')).toEqual({ success: false, error: 'Account not found' });
+  });
+});
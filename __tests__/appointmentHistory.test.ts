@@ -0,0 +1,114 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Appointment } from '../src/domain/entities/Appointment';
+import { Doctor, TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let container: AppContainer;
+let doctor: Doctor;
+let ownerActor: Actor;
+let slot: TimeSlot;
+let appointment: Appointment;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+
+  [doctor] = await container.appointmentRepository.getDoctors();
+  const [owner] = await container.ownerRepository.getOwners();
+  const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  ownerActor = { userId: 'user-owner', role: 'owner', ownerId: owner.id };
+
+  // Far enough ahead for the owner to move it under the clinic's notice rules
+  const twoDaysAhead = new Date(Date.now() + 2 * DAY_MS).toISOString();
+  const nineDaysAhead = new Date(Date.now() + 9 * DAY_MS).toISOString();
+  [slot] = await container.getAvailableSlotsUseCase.execute(doctor.id, twoDaysAhead, nineDaysAhead);
+
+  const booking = await container.bookAppointmentUseCase.execute({
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO,
+    notes: 'First visit'
+  }, ownerActor);
+  appointment = booking.appointment!;
+});
+
+describe('appointment history', () => {
+  test('records the booking and each move with the old and new times', async () => {
+    expect(appointment.history).toEqual([
+      expect.objectContaining({ type: 'created', changedBy: 'user-owner', changedByRole: 'owner' })
+    ]);
+
+    const weekLater = new Date(new Date(slot.startISO).getTime() + 7 * DAY_MS).toISOString();
+    const [later] = (await container.getAvailableSlotsUseCase.execute(doctor.id, slot.endISO, weekLater, {
+      visitTypeId: slot.visitTypeId
+    })).filter(available => available.startISO >= slot.endISO);
+
+    const moved = await container.bookAppointmentUseCase.reschedule(appointment.id, later.startISO, later.endISO, ownerActor);
+    expect(moved.success).toBe(true);
+    expect(moved.appointment?.history?.[1]).toMatchObject({
+      type: 'rescheduled',
+      fromStartISO: slot.startISO,
+      fromEndISO: slot.endISO,
+      toStartISO: later.startISO,
+      toEndISO: later.endISO,
+      changedBy: 'user-owner'
+    });
+
+    // Moving it to the slot it is already in changes nothing
+    const again = await container.bookAppointmentUseCase.reschedule(appointment.id, later.startISO, later.endISO, ownerActor);
+    expect(again.appointment?.history).toHaveLength(2);
+  });
+
+  test('keeps the cancellation reason in its own field instead of the notes', async () => {
+    const result = await container.cancelAppointmentUseCase.execute(appointment.id, ownerActor, 'Feeling better');
+
+    expect(result.appointment).toMatchObject({
+      status: 'cancelled',
+      notes: 'First visit',
+      cancellationReason: 'Feeling better'
+    });
+    expect(result.appointment?.history?.[1]).toMatchObject({
+      type: 'statusChanged',
+      from: 'requested',
+      to: 'cancelled',
+      reason: 'Feeling better'
+    });
+  });
+
+  test('records notes edits with the previous notes', async () => {
+    const doctorActor: Actor = { userId: 'user-doctor', role: 'doctor', doctorId: doctor.id };
+    const { updateAppointmentNotesUseCase } = container;
+
+    const edited = await updateAppointmentNotesUseCase.execute(appointment.id, '  Bring X-rays ', doctorActor);
+    expect(edited.appointment?.notes).toBe('Bring X-rays');
+
+    // Saving the same notes again adds nothing; blank notes clear them
+    await updateAppointmentNotesUseCase.execute(appointment.id, 'Bring X-rays', doctorActor);
+    const cleared = await updateAppointmentNotesUseCase.execute(appointment.id, '', doctorActor);
+
+    expect(cleared.appointment?.notes).toBeUndefined();
+    expect(cleared.appointment?.history?.slice(1)).toEqual([
+      expect.objectContaining({ type: 'notesChanged', from: 'First visit', to: 'Bring X-rays', changedBy: 'user-doctor' }),
+      expect.objectContaining({ type: 'notesChanged', from: 'Bring X-rays', changedBy: 'user-doctor' })
+    ]);
+
+    const stranger: Actor = { userId: 'user-stranger', role: 'owner', ownerId: 'someone-else' };
+    expect(await updateAppointmentNotesUseCase.execute(appointment.id, 'Hi', stranger)).toEqual({
+      success: false,
+      error: 'Not authorized to edit this appointment'
+    });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Appointment } from '../src/domain/entities/Appointment';
+import { Doctor, TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+
+let container: AppContainer;
+let doctor: Doctor;
+let doctorActor: Actor;
+let ownerActor: Actor;
+let slot: TimeSlot;
+let appointment: Appointment;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+
+  [doctor] = await container.appointmentRepository.getDoctors();
+  const [owner] = await container.ownerRepository.getOwners();
+  const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  doctorActor = { userId: 'user-doctor', role: 'doctor', doctorId: doctor.id };
+  ownerActor = { userId: 'user-owner', role: 'owner', ownerId: owner.id };
+  slot = (await container.getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id))!;
+
+  const booking = await container.bookAppointmentUseCase.execute({
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO
+  }, ownerActor);
+  appointment = booking.appointment!;
+});
+
+describe('ChangeAppointmentStatusUseCase', () => {
+  test('moves a booking through the visit and records each change', async () => {
+    const { changeAppointmentStatusUseCase } = container;
+    expect(appointment.status).toBe('requested');
+
+    for (const status of ['confirmed', 'checked_in', 'in_progress', 'completed'] as const) {
+      const result = await changeAppointmentStatusUseCase.execute(appointment.id, status, doctorActor);
+      expect(result.success).toBe(true);
+      expect(result.appointment?.status).toBe(status);
+    }
+
+    const saved = await container.appointmentRepository.getAppointmentById(appointment.id);
+    const statusChanges = saved?.history?.flatMap(entry =>
+      entry.type === 'statusChanged' ? [[entry.from, entry.to, entry.changedBy]] : []
+    );
+    expect(statusChanges).toEqual([
+      ['requested', 'confirmed', 'user-doctor'],
+      ['confirmed', 'checked_in', 'user-doctor'],
+      ['checked_in', 'in_progress', 'user-doctor'],
+      ['in_progress', 'completed', 'user-doctor']
+    ]);
+
+    const cancelled = await container.cancelAppointmentUseCase.execute(appointment.id, doctorActor);
+    expect(cancelled).toEqual({ success: false, error: 'Completed appointments cannot be cancelled' });
+  });
+
+  test('rejects illegal transitions, and changes by owners and other doctors', async () => {
+    const { changeAppointmentStatusUseCase } = container;
+    const [, otherDoctor] = await container.appointmentRepository.getDoctors();
+
+    expect(await changeAppointmentStatusUseCase.execute(appointment.id, 'completed', doctorActor)).toEqual({
+      success: false,
+      error: 'Cannot move an appointment from Requested to Completed'
+    });
+    expect(await changeAppointmentStatusUseCase.execute(appointment.id, 'confirmed', ownerActor)).toEqual({
+      success: false,
+      error: "Not authorized to change this appointment's status"
+    });
+    expect(await changeAppointmentStatusUseCase.execute(appointment.id, 'confirmed', {
+      userId: 'user-other',
+      role: 'doctor',
+      doctorId: otherDoctor.id
+    })).toMatchObject({ success: false });
+
+    // Owners still cancel their own bookings, and the reason is kept with the change
+    const cancelled = await changeAppointmentStatusUseCase.execute(appointment.id, 'cancelled', ownerActor, 'Moved away');
+    expect(cancelled.appointment?.history?.[1]).toMatchObject({
+      type: 'statusChanged',
+      from: 'requested',
+      to: 'cancelled',
+      changedBy: 'user-owner',
+      reason: 'Moved away'
+    });
+  });
+
+  test('marks no-shows only once the appointment has started', async () => {
+    const { changeAppointmentStatusUseCase } = container;
+    await changeAppointmentStatusUseCase.execute(appointment.id, 'confirmed', doctorActor);
+
+    expect(await changeAppointmentStatusUseCase.execute(appointment.id, 'no_show', doctorActor)).toEqual({
+      success: false,
+      error: 'An appointment can only be marked as a no-show once it has started'
+    });
+
+    const started = await container.appointmentRepository.getAppointmentById(appointment.id);
+    await container.appointmentRepository.updateAppointment({
+      ...started!,
+      startDateISO: new Date(Date.now() - 60 * 60 * 1000).toISOString(),
+      endDateISO: new Date(Date.now() - 30 * 60 * 1000).toISOString()
+    });
+
+    const result = await changeAppointmentStatusUseCase.execute(appointment.id, 'no_show', doctorActor);
+    expect(result.appointment?.status).toBe('no_show');
+  });
+
+  test('replays status changes once, and keeps started appointments from being rescheduled', async () => {
+    const { managePendingCommandsUseCase } = container;
+    const command = { id: 'command-1', type: 'changeStatus' as const, appointmentId: appointment.id, actor: doctorActor };
+
+    expect((await managePendingCommandsUseCase.execute({ ...command, status: 'confirmed' })).success).toBe(true);
+    expect((await managePendingCommandsUseCase.execute({ ...command, status: 'confirmed' })).success).toBe(true);
+    await managePendingCommandsUseCase.execute({ ...command, id: 'command-2', status: 'checked_in' });
+
+    const saved = await container.appointmentRepository.getAppointmentById(appointment.id);
+    expect(saved?.history?.filter(entry => entry.type === 'statusChanged')).toHaveLength(2);
+
+    const moved = await container.bookAppointmentUseCase.reschedule(appointment.id, slot.startISO, slot.endISO, doctorActor);
+    expect(moved).toEqual({ success: false, error: 'Checked In appointments cannot be rescheduled' });
+  });
+});
@@ -0,0 +1,87 @@
+/**
+ * @format
+ */
+
+import { Appointment } from '../src/domain/entities/Appointment';
+import { Actor } from '../src/domain/entities/User';
+import { WaitlistEntry } from '../src/domain/entities/Waitlist';
+import {
+  canAccessDoctorPortal,
+  canAccessOwnerPortal,
+  canBookForOwner,
+  canChangeAppointmentStatus,
+  canCreateAccount,
+  canManageAppointment,
+  canManageDoctorSchedule,
+  canManageWaitlistEntry
+} from '../src/domain/policies/authorization';
+
+const ADMIN: Actor = { userId: 'user-admin', role: 'clinic_admin' };
+const OWNER: Actor = { userId: 'user-owner', role: 'owner', ownerId: 'owner-1' };
+const OTHER_OWNER: Actor = { userId: 'user-other-owner', role: 'owner', ownerId: 'owner-2' };
+const UNLINKED_OWNER: Actor = { userId: 'user-unlinked', role: 'owner' };
+const DOCTOR: Actor = { userId: 'user-doctor', role: 'doctor', doctorId: 'doctor-1' };
+const OTHER_DOCTOR: Actor = { userId: 'user-other-doctor', role: 'doctor', doctorId: 'doctor-2' };
+
+// Only the fields the rules look at
+const appointment = { ownerId: 'owner-1', doctorId: 'doctor-1' } as Appointment;
+const entry = { ownerId: 'owner-1', doctorId: 'doctor-1' } as WaitlistEntry;
+
+describe('authorization rules', () => {
+  test.each([
+    [ADMIN, true],
+    [OWNER, true],
+    [OTHER_OWNER, false],
+    [UNLINKED_OWNER, false],
+    [DOCTOR, false]
+  ])('canBookForOwner(%o) is %s', (actor, allowed) => {
+    expect(canBookForOwner(actor, 'owner-1')).toBe(allowed);
+  });
+
+  test.each([
+    [ADMIN, true],
+    [OWNER, true],
+    [OTHER_OWNER, false],
+    [UNLINKED_OWNER, false],
+    [DOCTOR, true],
+    [OTHER_DOCTOR, false]
+  ])('canManageAppointment and canManageWaitlistEntry(%o) are %s', (actor, allowed) => {
+    expect(canManageAppointment(actor, appointment)).toBe(allowed);
+    expect(canManageWaitlistEntry(actor, entry)).toBe(allowed);
+  });
+
+  test.each([
+    [ADMIN, true],
+    [DOCTOR, true],
+    [OTHER_DOCTOR, false],
+    [OWNER, false]
+  ])('canChangeAppointmentStatus and canManageDoctorSchedule(%o) are %s', (actor, allowed) => {
+    expect(canChangeAppointmentStatus(actor, appointment)).toBe(allowed);
+    expect(canManageDoctorSchedule(actor, 'doctor-1')).toBe(allowed);
+  });
+
+  test('a doctor account without a linked doctor manages nothing', () => {
+    const unlinkedDoctor: Actor = { userId: 'user-unlinked-doctor', role: 'doctor' };
+    const unassigned = { ownerId: 'owner-1' } as Appointment;
+
+    expect(canManageAppointment(unlinkedDoctor, unassigned)).toBe(false);
+    expect(canChangeAppointmentStatus(unlinkedDoctor, unassigned)).toBe(false);
+  });
+
+  test('anyone may become an owner; staff accounts need an admin, except the first admin', () => {
+    expect(canCreateAccount(null, 'owner', true)).toBe(true);
+    expect(canCreateAccount(null, 'clinic_admin', false)).toBe(true);
+    expect(canCreateAccount(null, 'clinic_admin', true)).toBe(false);
+    expect(canCreateAccount(null, 'doctor', false)).toBe(false);
+    expect(canCreateAccount(DOCTOR, 'doctor', true)).toBe(false);
+    expect(canCreateAccount(ADMIN, 'doctor', true)).toBe(true);
+    expect(canCreateAccount(ADMIN, 'clinic_admin', true)).toBe(true);
+  });
+
+  test('only owners see the owner portal; doctors and admins see the doctor portal', () => {
+    expect([canAccessOwnerPortal('owner'), canAccessOwnerPortal('doctor'), canAccessOwnerPortal('clinic_admin')])
+      .toEqual([true, false, false]);
+    expect([canAccessDoctorPortal('owner'), canAccessDoctorPortal('doctor'), canAccessDoctorPortal('clinic_admin')])
+      .toEqual([false, true, true]);
+  });
+});
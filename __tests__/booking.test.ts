@@ -0,0 +1,133 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Appointment, AppointmentCreate } from '../src/domain/entities/Appointment';
+import { Actor } from '../src/domain/entities/User';
+import { ConcurrencyConflictError } from '../src/domain/errors/ConcurrencyConflictError';
+import { silenceConsole } from './helpers/fixtures';
+
+const APPOINTMENT_ID = 'appointment-from-outbox';
+
+let container: AppContainer;
+let ownerActor: Actor;
+let otherOwnerActor: Actor;
+let request: AppointmentCreate;
+let otherOwnerRequest: AppointmentCreate;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+
+  const [doctor] = await container.appointmentRepository.getDoctors();
+  const [owner] = await container.ownerRepository.getOwners();
+  const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  const slot = (await container.getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id))!;
+  ownerActor = { userId: 'user-owner', role: 'owner', ownerId: owner.id };
+  otherOwnerActor = { userId: 'user-other-owner', role: 'owner', ownerId: 'owner-other' };
+
+  request = {
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO
+  };
+  otherOwnerRequest = { ...request, ownerId: 'owner-other', ownerName: 'Bo Lee', petId: 'pet-other', petName: 'Tom' };
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const bookWithId = (booking: AppointmentCreate, actor: Actor) =>
+  container.bookAppointmentUseCase.execute(booking, actor, { appointmentId: APPOINTMENT_ID });
+
+describe('replayed bookings', () => {
+  test('return the first booking instead of booking again', async () => {
+    const first = await bookWithId(request, ownerActor);
+    const replay = await bookWithId(request, ownerActor);
+
+    expect(first).toMatchObject({ success: true, appointment: { id: APPOINTMENT_ID } });
+    expect(replay).toEqual({ success: true, appointment: first.appointment });
+    expect((await container.appointmentRepository.getAppointments())
+      .filter(appointment => appointment.startDateISO === request.startDateISO)).toEqual([first.appointment]);
+  });
+
+  test('still find a booking that was rescheduled since', async () => {
+    await bookWithId(request, ownerActor);
+    const [, later] = await container.getAvailableSlotsUseCase.getNextAvailableSlots(request.doctorId, 2);
+    const moved = await container.bookAppointmentUseCase.reschedule(APPOINTMENT_ID, later.startISO, later.endISO, ownerActor);
+
+    expect(await bookWithId(request, ownerActor)).toEqual({ success: true, appointment: moved.appointment });
+  });
+
+  test('refuse to return another booking made with the same ID', async () => {
+    await bookWithId(request, ownerActor);
+    const refused = { success: false, error: 'This appointment ID is already used by another booking' };
+
+    expect(await bookWithId(otherOwnerRequest, otherOwnerActor)).toEqual(refused);
+    expect(await bookWithId({ ...request, petId: 'pet-other' }, ownerActor)).toEqual(refused);
+    const hourLater = (iso: string) => new Date(new Date(iso).getTime() + 60 * 60 * 1000).toISOString();
+    expect(await bookWithId({ ...request, startDateISO: hourLater(request.startDateISO), endDateISO: hourLater(request.endDateISO) }, ownerActor))
+      .toEqual(refused);
+    expect(await bookWithId({ ...request, visitTypeId: 'surgery' }, ownerActor)).toEqual(refused);
+  });
+
+  test('are refused to someone who may not book for the owner', async () => {
+    await bookWithId(request, ownerActor);
+
+    expect(await bookWithId(request, otherOwnerActor)).toEqual({
+      success: false,
+      error: 'Not authorized to book appointments for this owner'
+    });
+  });
+});
+
+describe('versioned appointment writes', () => {
+  let appointment: Appointment;
+
+  beforeEach(async () => {
+    appointment = (await bookWithId(request, ownerActor)).appointment!;
+  });
+
+  test('refuse to create an appointment whose ID is taken', async () => {
+    const { appointmentRepository } = container;
+
+    await expect(appointmentRepository.createAppointment({ ...appointment, notes: 'Second device' }))
+      .rejects.toMatchObject({ name: 'ConcurrencyConflictError', expectedVersion: 0, actualVersion: 1 });
+    expect(await appointmentRepository.getAppointmentById(appointment.id)).toEqual(appointment);
+  });
+
+  test('refuse to update from a stale copy and keep the newer change', async () => {
+    const { appointmentRepository } = container;
+    const saved = await appointmentRepository.updateAppointment({ ...appointment, notes: 'Limping' });
+
+    const stale = appointmentRepository.updateAppointment({ ...appointment, notes: 'Stale' });
+
+    await expect(stale).rejects.toBeInstanceOf(ConcurrencyConflictError);
+    await expect(stale).rejects.toMatchObject({ entityType: 'Appointment', expectedVersion: 1, actualVersion: 2 });
+    expect(await appointmentRepository.getAppointmentById(appointment.id)).toEqual(saved);
+  });
+
+  test('surface a conflict through the use case as an error result', async () => {
+    silenceConsole('error');
+
+    const saved = await container.appointmentRepository.updateAppointment({ ...appointment, notes: 'Limping' });
+    jest.spyOn(container.appointmentRepository, 'getAppointmentById').mockResolvedValueOnce(appointment);
+
+    const result = await container.updateAppointmentNotesUseCase.execute(appointment.id, 'Stale', ownerActor);
+
+    expect(result).toEqual({
+      success: false,
+      error: 'This appointment was changed by someone else. Please reload and try again.'
+    });
+    expect(await container.appointmentRepository.getAppointmentById(appointment.id)).toEqual(saved);
+  });
+});
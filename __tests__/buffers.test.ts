@@ -0,0 +1,103 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Doctor } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { getVisitBuffers } from '../src/shared/utils/visitTypes';
+import { createDoctor } from './helpers/fixtures';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+// 2030-01-07 is a Monday; the doctor works 09:00-13:00 UTC on Mondays
+const MONDAY = { from: '2030-01-07T00:00:00.000Z', to: '2030-01-07T23:59:59.000Z' };
+
+const SURGEON: Partial<Doctor> = {
+  specialties: ['Surgery'],
+  weeklyAvailability: [{ id: 'mon', weekday: 1, startTime: '09:00', endTime: '13:00' }],
+  visitTypes: [
+    { id: 'vaccination', name: 'Vaccination', durationMinutes: 15, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+    { id: 'surgery', name: 'Surgery', durationMinutes: 60, bufferBeforeMinutes: 0, bufferAfterMinutes: 30 }
+  ]
+};
+
+let container: AppContainer;
+
+/**
+ * Starts with a fresh store holding only the given doctor
+ */
+const setUp = async (doctor: Doctor) => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.createDoctor(doctor);
+};
+
+beforeEach(async () => {
+  await setUp(createDoctor(SURGEON));
+});
+
+const startTimes = async (visitTypeId: string) =>
+  (await container.getAvailableSlotsUseCase.execute('doctor-1', MONDAY.from, MONDAY.to, { visitTypeId }))
+    .map(slot => slot.startISO.slice(11, 16));
+
+const book = (visitTypeId: string, start: string, end: string) =>
+  container.bookAppointmentUseCase.execute({
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: 'owner-1',
+    ownerName: 'Ann Smith',
+    petId: 'pet-1',
+    petName: 'Rex',
+    visitTypeId,
+    startDateISO: `2030-01-07T${start}:00.000Z`,
+    endDateISO: `2030-01-07T${end}:00.000Z`
+  }, ADMIN);
+
+describe('buffers', () => {
+  test('keep the clean-up time after a booked visit free', async () => {
+    await book('surgery', '09:00', '10:00');
+
+    expect((await startTimes('vaccination')).slice(0, 2)).toEqual(['10:30', '10:45']);
+    expect(await book('vaccination', '10:15', '10:30')).toMatchObject({
+      success: false,
+      error: 'Slot is too close to another appointment'
+    });
+    expect((await book('vaccination', '10:30', '10:45')).success).toBe(true);
+  });
+
+  test("keep the new visit's own buffer clear of the next appointment", async () => {
+    await book('vaccination', '12:00', '12:15');
+
+    // A surgery and its 30 minutes of clean-up must end by 12:00
+    expect(await startTimes('surgery')).toEqual(['09:00', '09:15', '09:30', '09:45', '10:00', '10:15', '10:30']);
+    expect(await book('surgery', '10:45', '11:45')).toMatchObject({
+      success: false,
+      error: 'Slot is too close to another appointment'
+    });
+  });
+
+  test("apply the doctor's buffers to every visit type", async () => {
+    await setUp(createDoctor({ ...SURGEON, bufferBeforeMinutes: 15 }));
+    await book('vaccination', '09:00', '09:15');
+
+    expect((await startTimes('vaccination'))[0]).toBe('09:30');
+    expect((await book('vaccination', '09:15', '09:30')).success).toBe(false);
+  });
+
+  test("take the longer of the doctor's and the visit type's buffers", () => {
+    const [, surgery] = createDoctor(SURGEON).visitTypes!;
+
+    expect(getVisitBuffers(createDoctor({ ...SURGEON, bufferBeforeMinutes: 10, bufferAfterMinutes: 15 }), surgery))
+      .toEqual({ bufferBeforeMinutes: 10, bufferAfterMinutes: 30 });
+    expect(getVisitBuffers(createDoctor({ ...SURGEON, bufferAfterMinutes: 45 }), surgery))
+      .toEqual({ bufferBeforeMinutes: 0, bufferAfterMinutes: 45 });
+  });
+
+  test('ignore cancelled appointments', async () => {
+    const { appointment } = await book('surgery', '09:00', '10:00');
+    await container.cancelAppointmentUseCase.execute(appointment!.id, ADMIN);
+
+    expect((await startTimes('vaccination'))[0]).toBe('09:00');
+  });
+});
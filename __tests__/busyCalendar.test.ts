@@ -0,0 +1,160 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Doctor, TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { importIcsToBusyPeriods } from '../src/shared/utils/icalHelpers';
+
+const NEW_YORK = 'America/New_York';
+
+let container: AppContainer;
+let doctor: Doctor;
+let actor: Actor;
+let slot: TimeSlot;
+
+function calendar(...lines: string[]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...lines, 'END:VCALENDAR'].join('\r\n');
+}
+
+function utc(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
+
+function busyEvent(uid: string, start: Date, end: Date, ...extra: string[]): string[] {
+  return ['BEGIN:VEVENT', `UID:${uid}`, 'SUMMARY:Dentist', `DTSTART:${utc(start)}`, `DTEND:${utc(end)}`, ...extra, 'END:VEVENT'];
+}
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+
+  [doctor] = await container.appointmentRepository.getDoctors();
+  actor = { userId: 'user-doctor', role: 'doctor', doctorId: doctor.id };
+  slot = (await container.getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id))!;
+});
+
+describe('importIcsToBusyPeriods', () => {
+  test('expands recurring events in their timezone, without excluded and changed occurrences', () => {
+    const ics = calendar(
+      'X-WR-CALNAME:Personal',
+      'BEGIN:VEVENT',
+      'UID:gym',
+      'SUMMARY:Gym',
+      `DTSTART;TZID=${NEW_YORK}:20301028T070000`,
+      `DTEND;TZID=${NEW_YORK}:20301028T080000`,
+      'RRULE:FREQ=WEEKLY;COUNT=4',
+      `EXDATE;TZID=${NEW_YORK}:20301111T070000`,
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:gym',
+      `RECURRENCE-ID;TZID=${NEW_YORK}:20301104T070000`,
+      'SUMMARY:Gym',
+      `DTSTART;TZID=${NEW_YORK}:20301104T180000`,
+      `DTEND;TZID=${NEW_YORK}:20301104T190000`,
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:lunch',
+      'DTSTART:20301029T160000Z',
+      'DTEND:20301029T170000Z',
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:trip',
+      'STATUS:CANCELLED',
+      'DTSTART;VALUE=DATE:20301030',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:broken',
+      'END:VEVENT'
+    );
+
+    const imported = importIcsToBusyPeriods(ics, {
+      timeZone: NEW_YORK,
+      fromISO: '2030-10-01T00:00:00.000Z',
+      toISO: '2030-12-31T00:00:00.000Z'
+    });
+
+    expect(imported.calendarName).toBe('Personal');
+    expect(imported.uids).toEqual(['gym', 'lunch', 'trip']);
+    expect(imported.errors).toEqual(['Event 5: The event has no start']);
+    // 07:00 is 11:00 UTC before clocks fall back on 2030-11-03 and 12:00 after
+    expect(imported.periods.map(period => [period.startISO, period.endISO])).toEqual([
+      ['2030-10-28T11:00:00.000Z', '2030-10-28T12:00:00.000Z'],
+      ['2030-11-04T23:00:00.000Z', '2030-11-05T00:00:00.000Z'],
+      ['2030-11-18T12:00:00.000Z', '2030-11-18T13:00:00.000Z']
+    ]);
+  });
+});
+
+describe('ImportBusyCalendarUseCase', () => {
+  test('takes imported busy time out of the slots, and re-imports replace it by UID', async () => {
+    const start = new Date(slot.startISO);
+    const end = new Date(slot.endISO);
+    const ics = calendar('X-WR-CALNAME:Personal', ...busyEvent('dentist', start, end));
+
+    const result = await container.importBusyCalendarUseCase.execute(doctor.id, ics, actor);
+
+    expect(result).toMatchObject({ success: true, source: 'Personal', removedCount: 0, warnings: [] });
+    expect(result.blocks).toHaveLength(1);
+    expect(await container.getAvailableSlotsUseCase.checkSlot(doctor.id, slot.startISO, {
+      visitTypeId: slot.visitTypeId
+    })).toEqual({ available: false, reason: 'busy' });
+    const slots = await container.getAvailableSlotsUseCase.execute(doctor.id, slot.startISO, slot.endISO, {
+      visitTypeId: slot.visitTypeId
+    });
+    expect(slots.map(available => available.startISO)).not.toContain(slot.startISO);
+
+    // The event was cancelled in the source calendar
+    const cancelled = calendar(...busyEvent('dentist', start, end, 'STATUS:CANCELLED'));
+    const again = await container.importBusyCalendarUseCase.execute(doctor.id, cancelled, actor, { source: 'Other' });
+
+    expect(again).toMatchObject({ success: true, source: 'Other', removedCount: 1, blocks: [] });
+    expect(await container.getAvailableSlotsUseCase.checkSlot(doctor.id, slot.startISO, {
+      visitTypeId: slot.visitTypeId
+    })).toEqual({ available: true });
+  });
+
+  test('reports bookings inside the busy time and lists calendars', async () => {
+    const owner = (await container.ownerRepository.getOwners())[0];
+    const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+    const booking = await container.bookAppointmentUseCase.execute({
+      doctorId: doctor.id,
+      doctorName: doctor.name,
+      ownerId: owner.id,
+      ownerName: owner.name,
+      petId: pet.id,
+      petName: pet.name,
+      disease: 'Check-up',
+      visitTypeId: slot.visitTypeId,
+      startDateISO: slot.startISO,
+      endDateISO: slot.endISO,
+      location: doctor.location
+    }, { userId: 'user-owner', role: 'owner', ownerId: owner.id });
+    expect(booking.success).toBe(true);
+
+    const ics = calendar(...busyEvent('surgery', new Date(slot.startISO), new Date(slot.endISO)));
+    const result = await container.importBusyCalendarUseCase.execute(doctor.id, ics, actor);
+
+    expect(result.source).toBe('Imported calendar');
+    expect(result.overlappingAppointments?.map(appointment => appointment.id)).toEqual([booking.appointment!.id]);
+
+    const [summary] = await container.importBusyCalendarUseCase.getCalendars(doctor.id);
+    expect(summary).toMatchObject({ source: 'Imported calendar', blockCount: 1 });
+
+    const removed = await container.importBusyCalendarUseCase.removeCalendar(doctor.id, summary.source, actor);
+    expect(removed).toEqual({ success: true, removedCount: 1 });
+    expect(await container.importBusyCalendarUseCase.getCalendars(doctor.id)).toEqual([]);
+  });
+
+  test("does not let a doctor import into another doctor's schedule", async () => {
+    const [, otherDoctor] = await container.appointmentRepository.getDoctors();
+    const ics = calendar(...busyEvent('x', new Date(slot.startISO), new Date(slot.endISO)));
+
+    const result = await container.importBusyCalendarUseCase.execute(otherDoctor.id, ics, actor);
+
+    expect(result).toEqual({ success: false, error: "Not authorized to change this doctor's schedule" });
+  });
+});
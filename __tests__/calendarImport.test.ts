@@ -0,0 +1,146 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Doctor, TimeSlot } from '../src/domain/entities/Doctor';
+import { Owner } from '../src/domain/entities/Owner';
+import { Pet } from '../src/domain/entities/Pet';
+import { Actor } from '../src/domain/entities/User';
+import { importIcsToAppointments } from '../src/shared/utils/icalHelpers';
+import {
+  addDaysToDateString,
+  getDoctorTimeZone,
+  getZonedDateParts,
+  toZonedDateString,
+  zonedTimeToDate
+} from '../src/shared/utils/timezone';
+
+let container: AppContainer;
+let doctor: Doctor;
+let owner: Owner;
+let pet: Pet;
+let slot: TimeSlot;
+
+/**
+ * Formats an instant as a floating iCal time in the doctor's timezone
+ */
+function localICalTime(date: Date): string {
+  const parts = getZonedDateParts(date, getDoctorTimeZone(doctor));
+  const pad = (value: number) => String(value).padStart(2, '0');
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}00`;
+}
+
+function calendar(...events: string[][]): string {
+  return ['BEGIN:VCALENDAR', 'VERSION:2.0', ...events.flat(), 'END:VCALENDAR'].join('\r\n');
+}
+
+function event(uid: string, summary: string, start: Date, end: Date, organizer = doctor.name): string[] {
+  return [
+    'BEGIN:VEVENT',
+    `UID:${uid}`,
+    `SUMMARY:${summary}`,
+    `DTSTART:${localICalTime(start)}`,
+    `DTEND:${localICalTime(end)}`,
+    `ORGANIZER;CN="${organizer.toUpperCase()}":mailto:vet@example.com`,
+    'END:VEVENT'
+  ];
+}
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+
+  [doctor] = await container.appointmentRepository.getDoctors();
+  [owner] = await container.ownerRepository.getOwners();
+  [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  slot = (await container.getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id))!;
+});
+
+describe('importIcsToAppointments', () => {
+  test('reads every event, with TZID, all-day, duration and folded lines', () => {
+    const ics = [
+      'BEGIN:VCALENDAR',
+      'BEGIN:VEVENT',
+      'UID:first',
+      'SUMMARY:Dental clean',
+      'DTSTART;TZID=America/New_York:20301104T090000',
+      'DURATION:PT45M',
+      'DESCRIPTION:Pet: Rex\\nNotes: a very long note that was folded',
+      '  across two lines',
+      'BEGIN:VALARM',
+      'DESCRIPTION:Reminder',
+      'END:VALARM',
+      'END:VEVENT',
+      'BEGIN:VEVENT',
+      'UID:second',
+      'SUMMARY:Clinic closed',
+      'DTSTART;VALUE=DATE:20301105',
+      'END:VEVENT',
+      'END:VCALENDAR'
+    ].join('\r\n');
+
+    const [first, second] = importIcsToAppointments(ics, { timeZoneFor: () => 'Europe/London' });
+
+    expect(first.errors).toEqual([]);
+    expect(first.appointment).toMatchObject({
+      petName: 'Rex',
+      notes: 'a very long note that was folded across two lines',
+      startDateISO: '2030-11-04T14:00:00.000Z',
+      endDateISO: '2030-11-04T14:45:00.000Z'
+    });
+    expect(second).toMatchObject({ summary: 'Clinic closed', allDay: true, errors: [] });
+    expect(second.appointment).toMatchObject({
+      startDateISO: '2030-11-05T00:00:00.000Z',
+      endDateISO: '2030-11-06T00:00:00.000Z'
+    });
+  });
+});
+
+describe('PreviewCalendarImportUseCase', () => {
+  test('previews each event and books the ready ones through BookAppointmentUseCase', async () => {
+    const start = new Date(slot.startISO);
+    const end = new Date(slot.endISO);
+    const tz = getDoctorTimeZone(doctor);
+    // The night after the slot, so it is never in the past
+    const night = zonedTimeToDate(addDaysToDateString(toZonedDateString(start, tz), 1), '03:00', tz);
+
+    const ics = calendar(
+      event('vet-1', 'Check-up', start, end),
+      event('vet-2', 'Same time', start, end),
+      event('vet-3', 'Night visit', night, new Date(night.getTime() + end.getTime() - start.getTime())),
+      event('vet-4', 'Other clinic', start, end, 'Dr. Nobody')
+    );
+
+    const items = await container.previewCalendarImportUseCase.execute(ics, owner, [pet], { defaultPetId: pet.id });
+
+    expect(items.map(item => item.status)).toEqual(['ready', 'conflict', 'conflict', 'invalid']);
+    expect(items[0].appointment).toMatchObject({
+      doctorId: doctor.id,
+      ownerId: owner.id,
+      petId: pet.id,
+      startDateISO: slot.startISO,
+      endDateISO: slot.endISO
+    });
+    expect(items[1].problems).toEqual(['Overlaps another event in this calendar']);
+    expect(items[2].problems).toEqual(['Doctor is not available at this time']);
+    expect(items[3].problems).toEqual(['No doctor named "DR. NOBODY" works at the clinic']);
+
+    const actor: Actor = { userId: 'user-1', role: 'owner', ownerId: owner.id };
+    const result = await container.bookAppointmentUseCase.execute(items[0].appointment!, actor);
+    expect(result.success).toBe(true);
+
+    const again = await container.previewCalendarImportUseCase.execute(ics, owner, [pet], { defaultPetId: pet.id });
+    expect(again.map(item => item.status)).toEqual(['duplicate', 'duplicate', 'conflict', 'invalid']);
+  });
+
+  test('asks for a pet when an event does not name one', async () => {
+    const ics = calendar(event('vet-1', 'Check-up', new Date(slot.startISO), new Date(slot.endISO)));
+
+    const [item] = await container.previewCalendarImportUseCase.execute(ics, owner, [pet]);
+
+    expect(item.status).toBe('invalid');
+    expect(item.problems).toEqual(['Choose a pet for this event']);
+  });
+});
@@ -0,0 +1,199 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Appointment } from '../src/domain/entities/Appointment';
+import { ClinicPolicy } from '../src/domain/entities/ClinicPolicy';
+import { Doctor, TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { DEFAULT_CLINIC_POLICY } from '../src/domain/policies/clinicPolicy';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+let dataSource: InMemoryDataSource;
+let container: AppContainer;
+let doctor: Doctor;
+let doctorActor: Actor;
+let ownerActor: Actor;
+let slots: TimeSlot[];
+
+/**
+ * Sets up a container, saves the given policy if any and finds slots the owner may still move
+ */
+const setUp = async (clinicPolicy?: ClinicPolicy) => {
+  dataSource = new InMemoryDataSource();
+  container = createContainer(dataSource);
+  await container.appointmentRepository.seedInitialData();
+  if (clinicPolicy) {
+    await container.manageClinicPolicyUseCase.updatePolicy(clinicPolicy, ADMIN);
+  }
+
+  [doctor] = await container.appointmentRepository.getDoctors();
+  const [owner] = await container.ownerRepository.getOwners();
+  doctorActor = { userId: 'user-doctor', role: 'doctor', doctorId: doctor.id };
+  ownerActor = { userId: 'user-owner', role: 'owner', ownerId: owner.id };
+
+  const twoDaysAhead = new Date(Date.now() + 2 * DAY_MS).toISOString();
+  const nineDaysAhead = new Date(Date.now() + 9 * DAY_MS).toISOString();
+  slots = await container.getAvailableSlotsUseCase.execute(doctor.id, twoDaysAhead, nineDaysAhead);
+};
+
+/**
+ * Books the owner's first pet into a slot
+ */
+const book = async (slot: TimeSlot): Promise<Appointment> => {
+  const [owner] = await container.ownerRepository.getOwners();
+  const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  const result = await container.bookAppointmentUseCase.execute({
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO
+  }, ownerActor);
+  return result.appointment!;
+};
+
+/**
+ * Moves an appointment to start in a few hours, past the owner's notice period
+ */
+const bringForward = async (appointment: Appointment): Promise<Appointment> => {
+  const length = new Date(appointment.endDateISO).getTime() - new Date(appointment.startDateISO).getTime();
+  const start = Date.now() + 2 * 60 * 60 * 1000;
+  return await container.appointmentRepository.updateAppointment({
+    ...appointment,
+    startDateISO: new Date(start).toISOString(),
+    endDateISO: new Date(start + length).toISOString()
+  });
+};
+
+describe('clinic cancellation policy', () => {
+  test('flags late cancellations by owners and counts them toward the no-show score', async () => {
+    await setUp();
+    const early = await book(slots[0]);
+    const late = await bringForward(await book(slots.find(slot => slot.startISO >= early.endDateISO)!));
+
+    const onTime = await container.cancelAppointmentUseCase.execute(early.id, ownerActor);
+    const lateResult = await container.cancelAppointmentUseCase.execute(late.id, ownerActor);
+
+    expect(onTime.appointment?.lateCancellation).toBeUndefined();
+    expect(lateResult.appointment).toMatchObject({ status: 'cancelled', lateCancellation: true });
+    expect(await container.manageClinicPolicyUseCase.getNoShowScores([ownerActor.ownerId!], doctorActor))
+      .toEqual({ [ownerActor.ownerId!]: 0.5 });
+  });
+
+  test('lets doctors cancel at short notice without flagging the owner', async () => {
+    await setUp();
+    const appointment = await bringForward(await book(slots[0]));
+
+    const result = await container.cancelAppointmentUseCase.execute(appointment.id, doctorActor, 'Doctor is ill');
+    expect(result.success).toBe(true);
+    expect(result.appointment?.lateCancellation).toBeUndefined();
+  });
+
+  test('refuses late cancellations when the clinic blocks them', async () => {
+    await setUp({
+      ...DEFAULT_CLINIC_POLICY,
+      rules: {
+        ...DEFAULT_CLINIC_POLICY.rules,
+        owner: { ...DEFAULT_CLINIC_POLICY.rules.owner, cancellationNoticeHours: 48, lateCancellation: 'block' }
+      }
+    });
+    const appointment = await bringForward(await book(slots[0]));
+
+    expect(await container.cancelAppointmentUseCase.execute(appointment.id, ownerActor)).toEqual({
+      success: false,
+      error: 'Appointments must be cancelled at least 2 days before they start. Please call the clinic to cancel this one.'
+    });
+  });
+});
+
+describe('clinic rescheduling policy', () => {
+  test('limits how often and how late owners may move an appointment', async () => {
+    await setUp();
+    const { bookAppointmentUseCase } = container;
+    const appointment = await book(slots[0]);
+
+    for (const slot of [slots[1], slots[2]]) {
+      const moved = await bookAppointmentUseCase.reschedule(appointment.id, slot.startISO, slot.endISO, ownerActor);
+      expect(moved.success).toBe(true);
+    }
+
+    expect(await bookAppointmentUseCase.reschedule(appointment.id, slots[3].startISO, slots[3].endISO, ownerActor))
+      .toEqual({
+        success: false,
+        error: 'This appointment has already been rescheduled 2 times, the most the clinic allows. Please call the clinic to move it again.'
+      });
+
+    // The clinic can still move it
+    const byDoctor = await bookAppointmentUseCase.reschedule(appointment.id, slots[3].startISO, slots[3].endISO, doctorActor);
+    expect(byDoctor.success).toBe(true);
+
+    const soon = await bringForward(await book(slots.find(slot => slot.startISO >= slots[3].endISO)!));
+    expect(await bookAppointmentUseCase.reschedule(soon.id, slots[0].startISO, slots[0].endISO, ownerActor)).toEqual({
+      success: false,
+      error: 'Appointments can only be rescheduled up to 1 day before they start. Please call the clinic to move this one.'
+    });
+  });
+});
+
+describe('stored clinic policy', () => {
+  const strictPolicy: ClinicPolicy = {
+    ...DEFAULT_CLINIC_POLICY,
+    rules: {
+      ...DEFAULT_CLINIC_POLICY.rules,
+      owner: { ...DEFAULT_CLINIC_POLICY.rules.owner, maxReschedules: 0 }
+    },
+    lateCancellationWeight: 1
+  };
+
+  test('lets clinic admins save a valid policy that later sessions apply', async () => {
+    await setUp();
+    const { manageClinicPolicyUseCase } = container;
+
+    expect(await manageClinicPolicyUseCase.getPolicy()).toEqual(DEFAULT_CLINIC_POLICY);
+    expect(await manageClinicPolicyUseCase.updatePolicy(strictPolicy, doctorActor))
+      .toEqual({ success: false, error: "Not authorized to change the clinic's policy" });
+    expect(await manageClinicPolicyUseCase.updatePolicy({
+      ...strictPolicy,
+      rules: { ...strictPolicy.rules, doctor: { ...strictPolicy.rules.doctor, cancellationNoticeHours: -1, maxReschedules: 1.5 } }
+    }, ADMIN)).toEqual({
+      success: false,
+      error: 'Invalid clinic policy: rules.doctor.cancellationNoticeHours must be a number of at least 0; ' +
+        'rules.doctor.maxReschedules must be a whole number of at least 0, or null for no limit'
+    });
+    expect(await manageClinicPolicyUseCase.updatePolicy(strictPolicy, ADMIN)).toEqual({ success: true, policy: strictPolicy });
+
+    // A new session on the same store reads the saved policy
+    container = createContainer(dataSource);
+    const appointment = await book(slots[0]);
+    expect(await container.manageClinicPolicyUseCase.getPolicy()).toEqual(strictPolicy);
+    expect(await container.bookAppointmentUseCase.reschedule(appointment.id, slots[1].startISO, slots[1].endISO, ownerActor))
+      .toEqual({
+        success: false,
+        error: 'Appointments cannot be rescheduled online. Please call the clinic to move this one.'
+      });
+  });
+
+  test('scores owners over all of their stored appointments, weighted by the saved policy', async () => {
+    await setUp(strictPolicy);
+    const ownerId = ownerActor.ownerId!;
+    const noShow = await book(slots[0]);
+    await container.appointmentRepository.updateAppointment({ ...noShow, status: 'no_show' });
+    const late = await bringForward(await book(slots.find(slot => slot.startISO >= noShow.endDateISO)!));
+    await container.cancelAppointmentUseCase.execute(late.id, ownerActor);
+
+    const otherDoctor: Actor = { userId: 'user-other-doctor', role: 'doctor', doctorId: 'doctor-other' };
+    expect(await container.manageClinicPolicyUseCase.getNoShowScores([ownerId, ownerId], otherDoctor)).toEqual({ [ownerId]: 2 });
+    expect(await container.manageClinicPolicyUseCase.getNoShowScores([ownerId], ownerActor)).toEqual({ [ownerId]: 2 });
+    expect(await container.manageClinicPolicyUseCase.getNoShowScores([ownerId], { ...ownerActor, ownerId: 'owner-other' }))
+      .toEqual({});
+  });
+});
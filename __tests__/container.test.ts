@@ -0,0 +1,74 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Actor } from '../src/domain/entities/User';
+import { silenceConsole } from './helpers/fixtures';
+
+// No AsyncStorage mock: nothing here may touch AsyncStorage
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+let container: AppContainer;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('createContainer with an InMemoryDataSource', () => {
+  test('books an appointment and rejects a second booking of the slot', async () => {
+    const [doctor] = await container.appointmentRepository.getDoctors();
+    const [owner] = await container.ownerRepository.getOwners();
+    const [pet] = await container.petRepository.getPets();
+    const slot = await container.getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id);
+    expect(slot).not.toBeNull();
+
+    const request = {
+      doctorId: doctor.id,
+      doctorName: doctor.name,
+      ownerId: owner.id,
+      ownerName: owner.name,
+      petId: pet.id,
+      petName: pet.name,
+      visitTypeId: slot!.visitTypeId,
+      startDateISO: slot!.startISO,
+      endDateISO: slot!.endISO
+    };
+
+    const first = await container.bookAppointmentUseCase.execute(request, ADMIN);
+    const second = await container.bookAppointmentUseCase.execute(request, ADMIN);
+
+    expect(first.success).toBe(true);
+    expect(second.success).toBe(false);
+    expect(await container.appointmentRepository.getAppointmentById(first.appointment!.id))
+      .toMatchObject({ startDateISO: slot!.startISO, version: 1 });
+  });
+
+  test('leaves invalid doctors out of reads and quarantines them', async () => {
+    silenceConsole('warn');
+
+    const doctors = await container.appointmentRepository.getDoctors();
+    await container.dataSource.saveDoctors([
+      ...doctors,
+      { ...doctors[0], id: 'broken', weeklyAvailability: [{ id: 'a', weekday: 9, startTime: '9am', endTime: '17:00' }] }
+    ]);
+
+    const readDoctors = await container.appointmentRepository.getDoctors();
+    const quarantined = await container.quarantineRepository.getQuarantinedRecords();
+
+    expect(readDoctors.map(doctor => doctor.id)).not.toContain('broken');
+    expect(readDoctors).toHaveLength(doctors.length);
+    expect(quarantined).toHaveLength(1);
+    expect(quarantined[0]).toMatchObject({ source: 'doctors', recordId: 'broken' });
+    expect(quarantined[0].errors).toEqual([
+      'weeklyAvailability[0].weekday must be a whole number from 0 (Sunday) to 6 (Saturday)',
+      'weeklyAvailability[0].startTime must be in HH:MM format'
+    ]);
+  });
+});
@@ -0,0 +1,52 @@
+/**
+ * @format
+ */
+
+import { createHash } from 'crypto';
+import { generateSalt, hashCredential, sha256, verifyCredential } from '../src/shared/utils/hash';
+
+const nodeSha256 = (message: string) => createHash('sha256').update(message, 'utf8').digest('hex');
+
+describe('sha256', () => {
+  test('matches the published test vectors', () => {
+    expect(sha256('')).toBe('e3b0c44298fc1c149afbf4c8996fb92427ae41e4649b934ca495991b7852b855');
+    expect(sha256('abc')).toBe('ba7816bf8f01cfea414140de5dae2223b00361a396177a9cb410ff61f20015ad');
+    expect(sha256('abcdbcdecdefdefgefghfghighijhijkijkljklmklmnlmnomnopnopq'))
+      .toBe('248d6a61d20638b8e5c026930c3e6039a33ce45964ff2167f6ecedd419db06c1');
+  });
+
+  test('matches a reference implementation across block boundaries and for non-ASCII text', () => {
+    // 55, 56 and 64 bytes are where the padding spills into another block
+    const messages = ['a'.repeat(55), 'a'.repeat(56), 'a'.repeat(64), 'a'.repeat(1000), 'Zoë 🐾 ñandú', '1234'];
+    messages.forEach(message => {
+      expect(sha256(message)).toBe(nodeSha256(message));
+    });
+  });
+});
+
+describe('credentials', () => {
+  test('hashes with the salt, so the same PIN gives different hashes', () => {
+    const salt = generateSalt();
+    expect(salt).toMatch(/^[0-9a-f]{32}$/);
+
+    const hash = hashCredential('1234', salt, 3);
+    expect(hash).toBe(hashCredential('1234', salt, 3));
+    expect(hash).not.toBe(hashCredential('1234', generateSalt(), 3));
+    expect(hash).not.toBe(hashCredential('1234', salt, 4));
+  });
+
+  test('repeats the digest for each round', () => {
+    const once = nodeSha256('salt:1234');
+    expect(hashCredential('1234', 'salt', 1)).toBe(once);
+    expect(hashCredential('1234', 'salt', 2)).toBe(nodeSha256(`salt:${once}`));
+  });
+
+  test('verifies only the matching secret', () => {
+    const salt = generateSalt();
+    const hash = hashCredential('correct horse', salt);
+
+    expect(verifyCredential('correct horse', salt, hash)).toBe(true);
+    expect(verifyCredential('correct horsе', salt, hash)).toBe(false); // Cyrillic е
+    expect(verifyCredential('correct horse', generateSalt(), hash)).toBe(false);
+  });
+});
@@ -0,0 +1,32 @@
+/**
+ * @format
+ */
+
+import { Doctor } from '../../src/domain/entities/Doctor';
+
+/**
+ * Creates the test doctor: a general practitioner working 09:00-10:00 UTC on Mondays
+ * @param overrides - The fields a suite needs to differ
+ */
+export function createDoctor(overrides: Partial<Doctor> = {}): Doctor {
+  return {
+    id: 'doctor-1',
+    name: 'Dr. Jane Test, DVM',
+    specialties: ['General'],
+    weeklyAvailability: [{ id: 'mon', weekday: 1, startTime: '09:00', endTime: '10:00' }],
+    timeZone: 'UTC',
+    rating: 4.5,
+    location: 'Main St. Clinic',
+    ...overrides
+  };
+}
+
+/**
+ * Silences a console method for a test that expects it to be called,
+ * e.g. by a use case logging the error it returns
+ * @param method - The console method the test expects
+ * @returns The spy; jest.restoreAllMocks() puts the method back
+ */
+export function silenceConsole(method: 'error' | 'warn'): jest.SpyInstance {
+  return jest.spyOn(console, method).mockImplementation(() => {});
+}
@@ -0,0 +1,290 @@
+/**
+ * @format
+ */
+
+import { Appointment, AppointmentHistoryEntry } from '../src/domain/entities/Appointment';
+import {
+  exportAppointmentToIcs,
+  exportAvailabilityToIcs,
+  exportFreeBusyToIcs,
+  exportMultipleAppointmentsToIcs,
+  foldLine,
+  importIcsToAppointment,
+  isValidICalString
+} from '../src/shared/utils/icalHelpers';
+import { createDoctor } from './helpers/fixtures';
+
+// US clocks fall back on 2030-11-03
+const NEW_YORK = 'America/New_York';
+
+// Booked, moved once and confirmed, with a notes edit in between
+const HISTORY: AppointmentHistoryEntry[] = [
+  { id: 'h1', type: 'created', changedAt: '2030-10-01T10:00:00.000Z', changedBy: 'user-owner' },
+  {
+    id: 'h2',
+    type: 'rescheduled',
+    changedAt: '2030-10-02T10:00:00.000Z',
+    changedBy: 'user-owner',
+    fromStartISO: '2030-11-01T12:00:00.000Z',
+    fromEndISO: '2030-11-01T12:30:00.000Z',
+    toStartISO: '2030-11-01T13:00:00.000Z',
+    toEndISO: '2030-11-01T13:30:00.000Z'
+  },
+  { id: 'h3', type: 'notesChanged', changedAt: '2030-10-03T10:00:00.000Z', changedBy: 'user-owner', to: 'Bring records' },
+  { id: 'h4', type: 'statusChanged', changedAt: '2030-10-05T12:30:00.000Z', changedBy: 'user-doctor', from: 'requested', to: 'confirmed' }
+];
+
+function createAppointment(overrides: Partial<Appointment> = {}): Appointment {
+  return {
+    id: 'appointment-1',
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: 'owner-1',
+    ownerName: 'Ann Smith',
+    petId: 'pet-1',
+    petName: 'Rex',
+    disease: 'Limp; left paw',
+    visitTypeName: 'Check-up',
+    startDateISO: '2030-11-01T13:00:00.000Z',
+    endDateISO: '2030-11-01T13:30:00.000Z',
+    status: 'confirmed',
+    location: 'Main St. Clinic, Room 2',
+    notes: 'Bring records\nNo food after 8pm, please',
+    createdAt: '2030-10-01T10:00:00.000Z',
+    updatedAt: '2030-10-05T12:30:00.000Z',
+    history: HISTORY,
+    version: 5,
+    ...overrides
+  };
+}
+
+// Mondays, every other Wednesday, a vacation and an extra weekend in New York
+const DOCTOR = createDoctor({
+  weeklyAvailability: [
+    { id: 'mon', weekday: 1, startTime: '09:00', endTime: '12:00' },
+    {
+      id: 'alt-wed',
+      weekday: 3,
+      startTime: '13:00',
+      endTime: '17:00',
+      rrule: 'DTSTART:20300102T000000Z\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE'
+    }
+  ],
+  availabilityExceptions: [
+    { id: 'vacation', type: 'block', startDate: '2030-11-04', endDate: '2030-11-06', reason: 'Vacation' },
+    { id: 'late', type: 'extra', startDate: '2030-11-09', endDate: '2030-11-10', startTime: '10:00', endTime: '14:00' }
+  ],
+  timeZone: NEW_YORK
+});
+
+function octets(line: string): number {
+  return Buffer.byteLength(line, 'utf8');
+}
+
+describe('iCal export', () => {
+  it('folds long lines at 75 octets without splitting characters', () => {
+    const line = `DESCRIPTION:${'Ünïcödé 🐶 '.repeat(20)}`;
+    const folded = foldLine(line);
+    const physicalLines = folded.split('\r\n');
+
+    expect(physicalLines.length).toBeGreaterThan(1);
+    physicalLines.forEach(physicalLine => expect(octets(physicalLine)).toBeLessThanOrEqual(75));
+    physicalLines.slice(1).forEach(physicalLine => expect(physicalLine.startsWith(' ')).toBe(true));
+    expect(folded.replace(/\r\n /g, '')).toBe(line);
+  });
+
+  it('writes valid properties for an event', () => {
+    const ics = exportAppointmentToIcs(createAppointment({ status: 'requested' }), {
+      attendeeEmail: 'ann@example.com',
+      reminderMinutes: [1440, 60]
+    });
+    const lines = ics.replace(/\r\n[ \t]/g, '').split('\r\n');
+
+    expect(ics.endsWith('\r\n')).toBe(true);
+    expect(lines).toContain('METHOD:PUBLISH');
+    expect(lines).toContain('STATUS:TENTATIVE');
+    expect(lines).toContain('SEQUENCE:2');
+    expect(lines).toContain('LAST-MODIFIED:20301005T123000Z');
+    expect(lines).toContain('ORGANIZER;CN="Dr. Jane Test, DVM":mailto:appointments@petslot.app');
+    expect(lines.some(line => line.startsWith('ATTENDEE'))).toBe(false);
+    expect(lines.filter(line => line === 'BEGIN:VALARM')).toHaveLength(2);
+    expect(lines).toContain('TRIGGER:-PT1440M');
+    ics.split('\r\n').forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+  });
+
+  it('counts only moves and status changes in SEQUENCE', () => {
+    const notesEdited = createAppointment({
+      history: [...HISTORY, { id: 'h5', type: 'notesChanged', changedAt: '2030-10-06T09:00:00.000Z', changedBy: 'user-doctor', to: 'Fasted' }],
+      version: 9
+    });
+
+    expect(exportAppointmentToIcs(notesEdited)).toContain('SEQUENCE:2\r\n');
+    expect(exportAppointmentToIcs(createAppointment({ history: undefined }))).toContain('SEQUENCE:0\r\n');
+  });
+
+  it('cancels cancelled appointments', () => {
+    const cancelled = createAppointment({
+      status: 'cancelled',
+      history: [
+        ...HISTORY,
+        { id: 'h5', type: 'statusChanged', changedAt: '2030-10-06T09:00:00.000Z', changedBy: 'user-owner', from: 'confirmed', to: 'cancelled' }
+      ]
+    });
+    const ics = exportAppointmentToIcs(cancelled, { attendeeEmail: 'ann@example.com' });
+
+    expect(ics).toContain('METHOD:CANCEL\r\n');
+    expect(ics).toContain('ATTENDEE;CN=Ann Smith;ROLE=REQ-PARTICIPANT:mailto:ann@example.com\r\n');
+    expect(ics).toContain('STATUS:CANCELLED\r\n');
+    expect(ics).toContain('SEQUENCE:3\r\n');
+    expect(ics).not.toContain('BEGIN:VALARM');
+
+    // CANCEL needs an attendee, so without one the cancellation is published
+    const unaddressed = exportAppointmentToIcs(cancelled);
+    expect(unaddressed).toContain('METHOD:PUBLISH\r\n');
+    expect(unaddressed).toContain('STATUS:CANCELLED\r\n');
+    expect(unaddressed).not.toContain('ATTENDEE');
+
+    const mixed = exportMultipleAppointmentsToIcs([
+      createAppointment({ status: 'cancelled' }),
+      createAppointment({ id: 'appointment-2' })
+    ], { attendeeEmail: 'ann@example.com' });
+    expect(mixed).toContain('METHOD:PUBLISH\r\n');
+    expect(mixed).not.toContain('ATTENDEE');
+  });
+
+  it('writes local times with a VTIMEZONE covering every transition', () => {
+    const ics = exportMultipleAppointmentsToIcs([
+      createAppointment(),
+      createAppointment({
+        id: 'appointment-2',
+        startDateISO: '2030-11-05T14:00:00.000Z',
+        endDateISO: '2030-11-05T14:30:00.000Z'
+      })
+    ], { timeZone: NEW_YORK });
+
+    expect(ics).toContain(`TZID:${NEW_YORK}\r\n`);
+    expect(ics).toContain(`DTSTART;TZID=${NEW_YORK}:20301101T090000\r\n`);
+    expect(ics).toContain(`DTSTART;TZID=${NEW_YORK}:20301105T090000\r\n`);
+    // Clocks fall back at 02:00 EDT, 06:00 UTC
+    expect(ics).toContain('BEGIN:STANDARD\r\nDTSTART:20301103T020000\r\nTZOFFSETFROM:-0400\r\nTZOFFSETTO:-0500\r\n');
+    expect(ics.indexOf('END:VTIMEZONE')).toBeLessThan(ics.indexOf('BEGIN:VEVENT'));
+  });
+});
+
+describe('iCal round trip', () => {
+  it.each([
+    ['UTC', {}],
+    ['a timezone', { timeZone: NEW_YORK, attendeeEmail: 'ann@example.com' }]
+  ])('imports what it exported in %s', (_, options) => {
+    const appointment = createAppointment();
+    const ics = exportAppointmentToIcs(appointment, options);
+
+    expect(isValidICalString(ics)).toBe(true);
+
+    const { appointment: imported, errors } = importIcsToAppointment(ics);
+    expect(errors).toEqual([]);
+    expect(imported).toEqual({
+      id: appointment.id,
+      doctorName: appointment.doctorName,
+      ownerName: appointment.ownerName,
+      petName: appointment.petName,
+      disease: appointment.disease,
+      visitTypeName: appointment.visitTypeName,
+      startDateISO: appointment.startDateISO,
+      endDateISO: appointment.endDateISO,
+      status: appointment.status,
+      location: appointment.location,
+      notes: appointment.notes
+    });
+  });
+
+  it('keeps statuses VEVENT cannot express', () => {
+    const ics = exportAppointmentToIcs(createAppointment({ status: 'completed' }));
+
+    expect(ics).toContain('STATUS:CONFIRMED\r\n');
+    expect(importIcsToAppointment(ics).appointment?.status).toBe('completed');
+    expect(importIcsToAppointment(ics.replace('X-PETSLOT-STATUS:completed\r\n', '')).appointment?.status)
+      .toBe('confirmed');
+  });
+
+  it('keeps the cancellation reason apart from the notes', () => {
+    const ics = exportAppointmentToIcs(createAppointment({ status: 'cancelled', cancellationReason: 'Feeling better' }));
+
+    expect(importIcsToAppointment(ics).appointment).toMatchObject({
+      status: 'cancelled',
+      cancellationReason: 'Feeling better',
+      notes: 'Bring records\nNo food after 8pm, please'
+    });
+  });
+
+  it('reports an unknown timezone', () => {
+    const ics = exportAppointmentToIcs(createAppointment(), { timeZone: NEW_YORK })
+      .replace(/TZID=America\/New_York/g, 'TZID=Mars/Olympus_Mons');
+
+    const { appointment, errors } = importIcsToAppointment(ics);
+    expect(appointment).toBeNull();
+    expect(errors[0]).toContain('Mars/Olympus_Mons');
+  });
+});
+
+describe('availability export', () => {
+  const now = new Date('2030-10-01T12:00:00.000Z');
+
+  it('writes weekly availability as recurring events in the doctor\'s timezone', () => {
+    const ics = exportAvailabilityToIcs(DOCTOR, { now });
+    const lines = ics.replace(/\r\n[ \t]/g, '').split('\r\n');
+
+    expect(isValidICalString(ics)).toBe(true);
+    expect(lines).toContain('X-WR-CALNAME:Dr. Jane Test\\, DVM availability');
+    // Both changes of the year, as rules that keep working in later years
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU');
+    expect(lines).toContain('RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU');
+
+    expect(lines).toContain('UID:availability-mon@petslot.app');
+    expect(lines).toContain(`DTSTART;TZID=${NEW_YORK}:20240101T090000`);
+    expect(lines).toContain(`DTEND;TZID=${NEW_YORK}:20240101T120000`);
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO');
+    expect(lines).toContain(`EXDATE;TZID=${NEW_YORK}:20301104T090000`);
+
+    expect(lines).toContain(`DTSTART;TZID=${NEW_YORK}:20300102T130000`);
+    expect(lines).toContain('RRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=WE');
+    expect(lines.filter(line => line === 'TRANSP:TRANSPARENT')).toHaveLength(3);
+    ics.split('\r\n').forEach(line => expect(octets(line)).toBeLessThanOrEqual(75));
+  });
+
+  it('writes days off and extra hours as events of their own', () => {
+    const ics = exportAvailabilityToIcs(DOCTOR, { now });
+
+    expect(ics).toContain(
+      'UID:exception-vacation@petslot.app\r\nDTSTAMP:20301001T120000Z\r\n' +
+      'DTSTART;VALUE=DATE:20301104\r\nDTEND;VALUE=DATE:20301107\r\n'
+    );
+    expect(ics).toContain('TRANSP:OPAQUE\r\n');
+    expect(ics).toContain(`DTSTART;TZID=${NEW_YORK}:20301109T100000\r\nDTEND;TZID=${NEW_YORK}:20301109T140000\r\n`);
+    expect(ics).toContain('RRULE:FREQ=DAILY;COUNT=2\r\n');
+  });
+});
+
+describe('free/busy export', () => {
+  it('writes merged periods by type, clipped to the range', () => {
+    const ics = exportFreeBusyToIcs({
+      doctor: DOCTOR,
+      fromISO: '2030-11-01T00:00:00.000Z',
+      toISO: '2030-11-08T00:00:00.000Z',
+      busy: [
+        { startISO: '2030-11-01T14:30:00.000Z', endISO: '2030-11-01T15:00:00.000Z' },
+        { startISO: '2030-11-01T14:00:00.000Z', endISO: '2030-11-01T14:30:00.000Z' }
+      ],
+      unavailable: [{ startISO: '2030-10-30T00:00:00.000Z', endISO: '2030-11-01T04:00:00.000Z' }],
+      free: [{ startISO: '2030-11-01T15:00:00.000Z', endISO: '2030-11-01T15:30:00.000Z' }],
+      now: new Date('2030-10-01T12:00:00.000Z')
+    });
+
+    expect(ics).toContain('BEGIN:VFREEBUSY\r\nUID:freebusy-doctor-1-20301101T000000Z@petslot.app\r\n');
+    expect(ics).toContain('DTSTART:20301101T000000Z\r\nDTEND:20301108T000000Z\r\n');
+    expect(ics).toContain('FREEBUSY;FBTYPE=BUSY:20301101T140000Z/20301101T150000Z\r\n');
+    expect(ics).toContain('FREEBUSY;FBTYPE=BUSY-UNAVAILABLE:20301101T000000Z/20301101T040000Z\r\n');
+    expect(ics).toContain('FREEBUSY;FBTYPE=FREE:20301101T150000Z/20301101T153000Z\r\n');
+    expect(ics).not.toContain('BEGIN:VEVENT');
+  });
+});
@@ -0,0 +1,210 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { AppContainer, createContainer } from '../src/di/container';
+import { LocalStorageDataSource } from '../src/data/datasources/LocalStorageDataSource';
+import { Appointment, AppointmentCreate } from '../src/domain/entities/Appointment';
+import { TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { appointmentKey, appointmentsByDayKey, STORAGE_KEYS } from '../src/shared/storageKeys';
+import { silenceConsole } from './helpers/fixtures';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+let container: AppContainer;
+let first: Appointment;
+let second: Appointment;
+let firstRequest: AppointmentCreate;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+
+  container = createContainer(new LocalStorageDataSource());
+  await container.appointmentRepository.seedInitialData();
+
+  // Two appointments on the same day, so they share a day index
+  const [doctor] = await container.appointmentRepository.getDoctors();
+  const [owner] = await container.ownerRepository.getOwners();
+  const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  const from = new Date(Date.now() + 2 * DAY_MS).toISOString();
+  const to = new Date(Date.now() + 9 * DAY_MS).toISOString();
+  const slots = await container.getAvailableSlotsUseCase.execute(doctor.id, from, to);
+  const sameDay = slots.filter(slot =>
+    slot.startISO.slice(0, 10) === slots[0].startISO.slice(0, 10) && slot.startISO >= slots[0].endISO
+  );
+
+  const request = (slot: TimeSlot): AppointmentCreate => ({
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO
+  });
+
+  firstRequest = request(slots[0]);
+  first = (await container.bookAppointmentUseCase.execute(firstRequest, ADMIN)).appointment!;
+  second = (await container.bookAppointmentUseCase.execute(request(sameDay[0]), ADMIN)).appointment!;
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('LocalStorageDataSource with damaged storage', () => {
+  // Reading damaged storage logs what could not be read and what was set aside
+  beforeEach(() => {
+    silenceConsole('error');
+    silenceConsole('warn');
+  });
+
+  test('keeps reading the other appointments when one record is unreadable', async () => {
+    const storedIds = (await container.appointmentRepository.getAppointments()).map(appointment => appointment.id);
+    await AsyncStorage.setItem(appointmentKey(second.id), '{"id":');
+
+    const appointments = await container.appointmentRepository.getAppointments();
+    expect(appointments.map(appointment => appointment.id)).toEqual(storedIds.filter(id => id !== second.id));
+
+    const dayAppointments = await container.appointmentRepository.getAppointmentsByDoctorAndDateRange(
+      first.doctorId,
+      first.startDateISO,
+      first.endDateISO
+    );
+    expect(dayAppointments.map(appointment => appointment.id)).toEqual([first.id]);
+
+    // The readable appointment still blocks its slot
+    const rebooked = await container.bookAppointmentUseCase.execute(firstRequest, ADMIN);
+    expect(rebooked.success).toBe(false);
+  });
+
+  test('rebuilds an unreadable index from the appointment records', async () => {
+    const storedIds = (await container.appointmentRepository.getAppointments()).map(appointment => appointment.id);
+    const dayKey = appointmentsByDayKey(first.startDateISO.slice(0, 10));
+    await AsyncStorage.setItem(dayKey, 'not json');
+    await AsyncStorage.setItem(STORAGE_KEYS.APPOINTMENT_IDS, '{}');
+
+    const appointments = await container.appointmentRepository.getAppointments();
+    expect(appointments.map(appointment => appointment.id).sort()).toEqual([...storedIds].sort());
+
+    const rebooked = await container.bookAppointmentUseCase.execute(firstRequest, ADMIN);
+    expect(rebooked.success).toBe(false);
+
+    // Saving rewrites the index in full
+    await container.cancelAppointmentUseCase.execute(first.id, ADMIN);
+    expect(JSON.parse((await AsyncStorage.getItem(dayKey))!)).toEqual(expect.arrayContaining([first.id, second.id]));
+  });
+});
+
+describe('quarantine of damaged records', () => {
+  // Reading damaged storage logs what could not be read and what was set aside
+  beforeEach(() => {
+    silenceConsole('error');
+    silenceConsole('warn');
+  });
+
+  test('sets aside an appointment that is not valid JSON, keeping the stored text', async () => {
+    await AsyncStorage.setItem(appointmentKey(second.id), '{"id":');
+
+    await container.appointmentRepository.getAppointments();
+
+    expect(await container.quarantineRepository.getQuarantinedRecords()).toEqual([expect.objectContaining({
+      id: `appointments:${second.id}`,
+      source: 'appointments',
+      recordId: second.id,
+      data: '{"id":',
+      errors: [expect.stringMatching(/^Not valid JSON/)]
+    })]);
+  });
+
+  test('sets aside an appointment that fails validation', async () => {
+    await AsyncStorage.setItem(appointmentKey(second.id), JSON.stringify({ ...second, status: 'lost' }));
+
+    const appointments = await container.appointmentRepository.getAppointments();
+    expect(appointments.map(appointment => appointment.id)).not.toContain(second.id);
+
+    const [record] = await container.quarantineRepository.getQuarantinedRecords();
+    expect(record).toMatchObject({ source: 'appointments', recordId: second.id });
+    expect(JSON.parse(record.data)).toMatchObject({ id: second.id, status: 'lost' });
+    expect(record.errors).toEqual([expect.stringMatching(/^status must be one of/)]);
+  });
+
+  test('reports the same damaged record once', async () => {
+    await AsyncStorage.setItem(appointmentKey(second.id), 'garbage');
+
+    await container.appointmentRepository.getAppointments();
+    await container.appointmentRepository.getAppointmentById(second.id);
+
+    expect(await container.quarantineRepository.getQuarantinedRecords()).toHaveLength(1);
+  });
+
+  test('quarantines an unreadable waitlist before writing over it', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.WAITLIST, '[{"id":"entry-1",');
+
+    expect(await container.waitlistRepository.getWaitlistEntries()).toEqual([]);
+    await container.waitlistRepository.createWaitlistEntry({
+      id: 'entry-2',
+      doctorId: first.doctorId,
+      doctorName: first.doctorName,
+      ownerId: first.ownerId,
+      ownerName: first.ownerName,
+      petId: first.petId,
+      petName: first.petName,
+      visitTypeId: first.visitTypeId!,
+      fromDate: first.startDateISO.slice(0, 10),
+      toDate: first.startDateISO.slice(0, 10),
+      status: 'waiting',
+      createdAt: new Date().toISOString()
+    });
+
+    expect(await container.quarantineRepository.getQuarantinedRecords()).toEqual([expect.objectContaining({
+      source: 'waitlist',
+      data: '[{"id":"entry-1",'
+    })]);
+    expect((await container.waitlistRepository.getWaitlistEntries()).map(entry => entry.id)).toEqual(['entry-2']);
+  });
+
+  test('lets only clinic admins see and dismiss quarantined records', async () => {
+    const owner: Actor = { userId: 'user-ann', role: 'owner', ownerId: first.ownerId };
+    await AsyncStorage.setItem(appointmentKey(second.id), 'garbage');
+    await container.appointmentRepository.getAppointments();
+    const { manageQuarantineUseCase } = container;
+
+    expect(await manageQuarantineUseCase.getRecords(owner)).toEqual([]);
+    expect(await manageQuarantineUseCase.dismissRecord(`appointments:${second.id}`, owner))
+      .toEqual({ success: false, error: 'Not authorized to dismiss invalid records' });
+    expect(await manageQuarantineUseCase.getRecords(ADMIN)).toHaveLength(1);
+
+    expect(await manageQuarantineUseCase.dismissRecord(`appointments:${second.id}`, ADMIN)).toEqual({ success: true });
+    expect(await manageQuarantineUseCase.getRecords(ADMIN)).toEqual([]);
+  });
+
+  test('keeps an unreadable account list when someone registers', async () => {
+    const damagedUsers = '[{"id":"admin-1","role":"clinic_admin",';
+    await AsyncStorage.setItem(STORAGE_KEYS.USERS, damagedUsers);
+
+    const result = await container.registerUserUseCase.execute({
+      displayName: 'Ann Smith',
+      role: 'owner',
+      credentialType: 'pin',
+      secret: '2468'
+    }, null);
+
+    expect(result.success).toBe(true);
+    expect(await container.quarantineRepository.getQuarantinedRecords()).toEqual([expect.objectContaining({
+      source: 'users',
+      data: damagedUsers,
+      errors: [expect.stringMatching(/^Not valid JSON/)]
+    })]);
+    expect((await container.userRepository.getUsers()).map(user => user.id)).toEqual([result.user!.id]);
+  });
+});
@@ -0,0 +1,251 @@
+/**
+ * @format
+ */
+
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { LocalStorageDataSource } from '../src/data/datasources/LocalStorageDataSource';
+import { readableRecords } from '../src/data/datasources/DataSource';
+import { Appointment } from '../src/domain/entities/Appointment';
+import { Migration } from '../src/data/migrations/Migration';
+import { MigrationError } from '../src/data/migrations/MigrationError';
+import { MigrationRunner } from '../src/data/migrations/MigrationRunner';
+import { LATEST_SCHEMA_VERSION } from '../src/data/migrations/migrations';
+import { migrationBackupKey, STORAGE_KEYS } from '../src/shared/storageKeys';
+import { silenceConsole } from './helpers/fixtures';
+
+jest.mock('@react-native-async-storage/async-storage', () =>
+  require('@react-native-async-storage/async-storage/jest/async-storage-mock')
+);
+
+// An appointment as saved before owners, pets and per-record storage existed
+const LEGACY_APPOINTMENT = {
+  id: 'appointment-1',
+  doctorId: 'doctor-1',
+  doctorName: 'Dr. Test',
+  ownerName: 'Ann Smith',
+  petName: 'Rex',
+  startDateISO: '2030-01-07T09:00:00.000Z',
+  endDateISO: '2030-01-07T09:30:00.000Z',
+  status: 'scheduled'
+};
+
+async function readStorage(): Promise<Record<string, string | null>> {
+  const keys = await AsyncStorage.getAllKeys();
+  const entries = await AsyncStorage.multiGet(keys);
+  return Object.fromEntries(entries);
+}
+
+function createStep(version: number, overrides: Partial<Migration> = {}): Migration {
+  return {
+    version,
+    description: `Step ${version}`,
+    migrate: async () => {
+      await AsyncStorage.setItem(`@PetSlot:step${version}`, 'done');
+    },
+    ...overrides
+  };
+}
+
+let dataSource: LocalStorageDataSource;
+
+beforeEach(async () => {
+  await AsyncStorage.clear();
+  dataSource = new LocalStorageDataSource();
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe('MigrationRunner', () => {
+  test('stamps a fresh install with the latest schema version', async () => {
+    const report = await new MigrationRunner(dataSource).run();
+
+    expect(report.fromVersion).toBe(0);
+    expect(report.toVersion).toBe(LATEST_SCHEMA_VERSION);
+    expect(await dataSource.getSchemaVersion()).toBe(LATEST_SCHEMA_VERSION);
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.MIGRATION_BACKUP)).toBeNull();
+  });
+
+  test('migrates data saved before schema versioning', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.LEGACY_APPOINTMENTS, JSON.stringify([LEGACY_APPOINTMENT]));
+
+    await new MigrationRunner(dataSource).run();
+
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.LEGACY_APPOINTMENTS)).toBeNull();
+
+    const appointment = await dataSource.getAppointmentById(LEGACY_APPOINTMENT.id);
+    const owners = readableRecords(await dataSource.getOwners());
+    const pets = readableRecords(await dataSource.getPets());
+
+    expect(owners).toHaveLength(1);
+    expect(owners[0].name).toBe('Ann Smith');
+    expect(pets).toHaveLength(1);
+    expect(pets[0]).toMatchObject({ name: 'Rex', ownerId: owners[0].id });
+    expect(appointment).toMatchObject({ ownerId: owners[0].id, petId: pets[0].id, status: 'requested' });
+    expect(await dataSource.getAppointmentsByDoctor('doctor-1')).toHaveLength(1);
+  });
+
+  test('links legacy owner names to owners by the whole name', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.LEGACY_APPOINTMENTS, JSON.stringify([
+      { ...LEGACY_APPOINTMENT, id: 'appointment-1', ownerName: 'Ann' },
+      { ...LEGACY_APPOINTMENT, id: 'appointment-2', ownerName: 'Joanne' },
+      { ...LEGACY_APPOINTMENT, id: 'appointment-3', ownerName: ' ANN ' }
+    ]));
+
+    await new MigrationRunner(dataSource).run();
+
+    const owners = readableRecords(await dataSource.getOwners());
+    const ownerIdOf = async (id: string) => ((await dataSource.getAppointmentById(id)) as Appointment).ownerId;
+
+    expect(owners.map(owner => owner.name).sort()).toEqual(['Ann', 'Joanne']);
+    expect(await ownerIdOf('appointment-3')).toBe(await ownerIdOf('appointment-1'));
+    expect(await ownerIdOf('appointment-2')).not.toBe(await ownerIdOf('appointment-1'));
+  });
+
+  test('moves status changes and cancellation reasons into the appointment history', async () => {
+    const changedAt = '2030-01-06T10:00:00.000Z';
+    await dataSource.saveAppointments([{
+      ...LEGACY_APPOINTMENT,
+      ownerId: 'owner-1',
+      petId: 'pet-1',
+      status: 'cancelled',
+      notes: 'Limping\nCancellation reason: Feeling better',
+      statusHistory: [{ from: 'requested', to: 'cancelled', changedAt, changedBy: 'user-1', reason: 'Feeling better' }]
+    } as never]);
+    await dataSource.setSchemaVersion(4);
+
+    await new MigrationRunner(dataSource).run();
+
+    const appointment = (await dataSource.getAppointmentById(LEGACY_APPOINTMENT.id)) as Appointment;
+    expect(appointment).not.toHaveProperty('statusHistory');
+    expect(appointment).toMatchObject({ notes: 'Limping', cancellationReason: 'Feeling better' });
+    expect(appointment.history).toEqual([expect.objectContaining({
+      type: 'statusChanged',
+      from: 'requested',
+      to: 'cancelled',
+      reason: 'Feeling better',
+      changedAt,
+      changedBy: 'user-1'
+    })]);
+  });
+
+  test('runs only the steps newer than the stored version, in order', async () => {
+    const order: number[] = [];
+    const track = (version: number) => createStep(version, {
+      migrate: async () => {
+        order.push(version);
+      }
+    });
+
+    await dataSource.setSchemaVersion(1);
+    const report = await new MigrationRunner(dataSource, [track(3), track(1), track(2)]).run();
+
+    expect(order).toEqual([2, 3]);
+    expect(report).toEqual({ fromVersion: 1, toVersion: 3, appliedVersions: [2, 3] });
+    expect(await dataSource.getSchemaVersion()).toBe(3);
+
+    const secondReport = await new MigrationRunner(dataSource, [track(3), track(1), track(2)]).run();
+    expect(secondReport.appliedVersions).toEqual([]);
+    expect(order).toEqual([2, 3]);
+  });
+
+  test('restores the data and keeps the version when a step throws', async () => {
+    silenceConsole('error');
+
+    await dataSource.saveDoctors([{ id: 'doctor-1' } as never]);
+    const failingStep = createStep(2, {
+      migrate: async () => {
+        await AsyncStorage.setItem(STORAGE_KEYS.DOCTORS, '[]');
+        await AsyncStorage.setItem('@PetSlot:partial', 'half written');
+        throw new Error('disk full');
+      }
+    });
+
+    const runner = new MigrationRunner(dataSource, [createStep(1), failingStep, createStep(3)]);
+    const before = await readStorage();
+
+    const error = await runner.run().catch(e => e);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.version).toBe(2);
+    expect(error.message).toContain('disk full');
+
+    // Step 1 stays applied; step 2's changes are rolled back and step 3 never runs
+    const after = await readStorage();
+    expect(after[STORAGE_KEYS.DOCTORS]).toBe(before[STORAGE_KEYS.DOCTORS]);
+    expect(after['@PetSlot:partial']).toBeUndefined();
+    expect(after['@PetSlot:step1']).toBe('done');
+    expect(after['@PetSlot:step3']).toBeUndefined();
+    expect(await dataSource.getSchemaVersion()).toBe(1);
+    expect(after[STORAGE_KEYS.MIGRATION_BACKUP]).toBeUndefined();
+    expect(Object.keys(after).filter(key => key.startsWith(STORAGE_KEYS.MIGRATION_BACKUP_PREFIX))).toEqual([]);
+  });
+
+  test('backs up each stored value under its own key', async () => {
+    await AsyncStorage.setItem(STORAGE_KEYS.DOCTORS, '["before"]');
+    let during: Record<string, string | null> = {};
+
+    const step = createStep(1, {
+      migrate: async () => {
+        during = await readStorage();
+      }
+    });
+
+    await new MigrationRunner(dataSource, [step]).run();
+
+    expect(during[migrationBackupKey(STORAGE_KEYS.DOCTORS)]).toBe('["before"]');
+    expect(during[STORAGE_KEYS.MIGRATION_BACKUP]).toBe('1');
+    expect(await AsyncStorage.getAllKeys()).not.toContain(migrationBackupKey(STORAGE_KEYS.DOCTORS));
+  });
+
+  test('rolls back a step whose validation fails', async () => {
+    silenceConsole('error');
+
+    const step = createStep(1, {
+      validate: async () => 'Appointment appointment-1 is not linked to an owner'
+    });
+
+    const error = await new MigrationRunner(dataSource, [step]).run().catch(e => e);
+
+    expect(error).toBeInstanceOf(MigrationError);
+    expect(error.message).toContain('not linked to an owner');
+    expect(await AsyncStorage.getItem('@PetSlot:step1')).toBeNull();
+    expect(await dataSource.getSchemaVersion()).toBe(0);
+  });
+
+  test('restores the backup of a step that was interrupted', async () => {
+    silenceConsole('warn');
+
+    // The app was killed after backing up and half-running step 1
+    await AsyncStorage.setItem(STORAGE_KEYS.DOCTORS, '["before"]');
+    await dataSource.saveMigrationBackup(await dataSource.exportSnapshot());
+    await AsyncStorage.setItem(STORAGE_KEYS.DOCTORS, '["half migrated"]');
+
+    const step = createStep(1, {
+      migrate: async () => {
+        const doctors = JSON.parse((await AsyncStorage.getItem(STORAGE_KEYS.DOCTORS))!);
+        await AsyncStorage.setItem(STORAGE_KEYS.DOCTORS, JSON.stringify([...doctors, 'migrated']));
+      }
+    });
+
+    await new MigrationRunner(dataSource, [step]).run();
+
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.DOCTORS)).toBe('["before","migrated"]');
+    expect(await dataSource.getMigrationBackup()).toBeNull();
+    expect(await dataSource.getSchemaVersion()).toBe(1);
+  });
+
+  test('ignores a backup that was cut short before the step began', async () => {
+    // The app was killed while writing the backup, before the count was saved
+    await AsyncStorage.setItem(STORAGE_KEYS.DOCTORS, '["current"]');
+    await AsyncStorage.setItem(migrationBackupKey(STORAGE_KEYS.PETS), '["stale"]');
+
+    await new MigrationRunner(dataSource, [createStep(1)]).run();
+
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.DOCTORS)).toBe('["current"]');
+    expect(await AsyncStorage.getItem(STORAGE_KEYS.PETS)).toBeNull();
+    expect(await AsyncStorage.getItem(migrationBackupKey(STORAGE_KEYS.PETS))).toBeNull();
+    expect(await dataSource.getSchemaVersion()).toBe(1);
+  });
+});
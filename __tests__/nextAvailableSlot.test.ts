@@ -0,0 +1,82 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Doctor } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { createBiWeeklyRRule } from '../src/shared/utils/rruleHelpers';
+import { createDoctor } from './helpers/fixtures';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+// A Sunday; the doctor works every other Thursday from 2030-01-17, so not on the 10th
+const NOW = new Date('2030-01-06T12:00:00.000Z');
+
+const EVERY_OTHER_THURSDAY: Partial<Doctor> = {
+  weeklyAvailability: [
+    { id: 'thu', weekday: 4, startTime: '09:00', endTime: '10:00', rrule: createBiWeeklyRRule(4, '2030-01-17', 'UTC') }
+  ]
+};
+
+let container: AppContainer;
+
+/**
+ * Starts with a fresh store holding only the given doctor
+ */
+const setUp = async (doctor: Doctor) => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.createDoctor(doctor);
+};
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+
+  await setUp(createDoctor(EVERY_OTHER_THURSDAY));
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const nextStart = async () =>
+  (await container.getAvailableSlotsUseCase.getNextAvailableSlot('doctor-1'))?.startISO ?? null;
+
+describe('getNextAvailableSlot', () => {
+  test('skips the weeks a bi-weekly rule leaves out', async () => {
+    expect(await nextStart()).toBe('2030-01-17T09:00:00.000Z');
+  });
+
+  test('skips booked slots and days off', async () => {
+    await container.bookAppointmentUseCase.execute({
+      doctorId: 'doctor-1',
+      doctorName: 'Dr. Jane Test, DVM',
+      ownerId: 'owner-1',
+      ownerName: 'Ann Smith',
+      petId: 'pet-1',
+      petName: 'Rex',
+      startDateISO: '2030-01-17T09:00:00.000Z',
+      endDateISO: '2030-01-17T09:30:00.000Z'
+    }, ADMIN);
+    expect(await nextStart()).toBe('2030-01-17T09:30:00.000Z');
+
+    await setUp(createDoctor({
+      ...EVERY_OTHER_THURSDAY,
+      availabilityExceptions: [{ id: 'off', type: 'block', startDate: '2030-01-17', endDate: '2030-01-17' }]
+    }));
+    expect(await nextStart()).toBe('2030-01-31T09:00:00.000Z');
+  });
+
+  test('finds nothing beyond the 30 days it looks ahead', async () => {
+    await setUp(createDoctor({
+      weeklyAvailability: [
+        { id: 'thu', weekday: 4, startTime: '09:00', endTime: '10:00', rrule: createBiWeeklyRRule(4, '2030-02-14', 'UTC') }
+      ]
+    }));
+
+    expect(await nextStart()).toBeNull();
+    expect((await container.getAvailableSlotsUseCase.getNextAvailableSlot('doctor-1', {}, 60))?.startISO)
+      .toBe('2030-02-14T09:00:00.000Z');
+  });
+});
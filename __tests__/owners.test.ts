@@ -0,0 +1,111 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Owner } from '../src/domain/entities/Owner';
+import { Pet } from '../src/domain/entities/Pet';
+import { Actor } from '../src/domain/entities/User';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+const ANN_ACTOR: Actor = { userId: 'user-ann', role: 'owner', ownerId: 'owner-ann' };
+const DOCTOR: Actor = { userId: 'user-doctor', role: 'doctor', doctorId: 'doctor-1' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const ANN: Owner = { id: 'owner-ann', name: 'Ann', preferredContactChannel: 'sms' };
+const JOANNE: Owner = { id: 'owner-joanne', name: 'Joanne', preferredContactChannel: 'email' };
+const REX: Pet = { id: 'pet-rex', name: 'Rex', species: 'dog', sex: 'male', ownerId: ANN.id };
+const TOM: Pet = { id: 'pet-tom', name: 'Tom', species: 'cat', sex: 'male', ownerId: JOANNE.id };
+
+let container: AppContainer;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.seedInitialData();
+  await container.ownerRepository.createOwner(ANN);
+  await container.ownerRepository.createOwner(JOANNE);
+  await container.petRepository.createPet(REX);
+  await container.petRepository.createPet(TOM);
+});
+
+/**
+ * Books a pet into the doctor's first free slot from two days ahead
+ */
+const book = async (owner: Owner, pet: Pet) => {
+  const [doctor] = await container.appointmentRepository.getDoctors();
+  const from = new Date(Date.now() + 2 * DAY_MS).toISOString();
+  const to = new Date(Date.now() + 9 * DAY_MS).toISOString();
+  const [slot] = await container.getAvailableSlotsUseCase.execute(doctor.id, from, to);
+
+  const result = await container.bookAppointmentUseCase.execute({
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO
+  }, ADMIN);
+  return result.appointment!;
+};
+
+describe('owner queries', () => {
+  test('find appointments by owner ID, so a name inside another name does not match', async () => {
+    const annsVisit = await book(ANN, REX);
+    const joannesVisit = await book(JOANNE, TOM);
+
+    expect(await container.appointmentRepository.getAppointmentsByOwner(ANN.id)).toEqual([annsVisit]);
+    expect(await container.appointmentRepository.getAppointmentsByOwner(JOANNE.id)).toEqual([joannesVisit]);
+  });
+
+  test('find pets by owner ID', async () => {
+    expect(await container.petRepository.getPetsByOwner(ANN.id)).toEqual([REX]);
+    expect(await container.petRepository.getPetsByOwner('owner-unknown')).toEqual([]);
+  });
+
+  test('update owner profiles in place and refuse unknown owners', async () => {
+    const { ownerRepository } = container;
+
+    await ownerRepository.updateOwner({ ...ANN, phone: '555-0199', preferredContactChannel: 'phone' });
+
+    expect(await ownerRepository.getOwnerById(ANN.id)).toEqual({ ...ANN, phone: '555-0199', preferredContactChannel: 'phone' });
+    expect(await ownerRepository.getOwnerById(JOANNE.id)).toEqual(JOANNE);
+    await expect(ownerRepository.updateOwner({ ...ANN, id: 'owner-unknown' }))
+      .rejects.toThrow('Owner with ID owner-unknown not found');
+  });
+});
+
+describe('owner profiles', () => {
+  test('let owners save only their own profile, and clinic admins any', async () => {
+    const { updateOwnerProfileUseCase, ownerRepository } = container;
+    const annProfile: Owner = { ...ANN, phone: '555-0199' };
+
+    const saved = await updateOwnerProfileUseCase.execute(annProfile, ANN_ACTOR);
+    expect(saved).toMatchObject({ success: true, owner: annProfile });
+    expect(await ownerRepository.getOwnerById(ANN.id)).toEqual(saved.owner);
+
+    expect(await updateOwnerProfileUseCase.execute({ ...JOANNE, email: 'jo@example.com' }, ANN_ACTOR))
+      .toEqual({ success: false, error: 'Not authorized to edit this owner profile' });
+    expect(await updateOwnerProfileUseCase.execute({ ...annProfile, id: 'owner-new' }, DOCTOR))
+      .toEqual({ success: false, error: 'Not authorized to edit this owner profile' });
+    expect(await ownerRepository.getOwnerById('owner-new')).toBeNull();
+
+    expect((await updateOwnerProfileUseCase.execute({ ...JOANNE, email: 'jo@example.com' }, ADMIN)).success).toBe(true);
+    expect(await ownerRepository.getOwnerById(JOANNE.id)).toMatchObject({ email: 'jo@example.com' });
+  });
+
+  test('refuse profiles that cannot be used to reach the owner', async () => {
+    const { updateOwnerProfileUseCase, ownerRepository } = container;
+
+    expect(await updateOwnerProfileUseCase.execute({ ...ANN, name: ' ', phone: '555-0199' }, ANN_ACTOR))
+      .toEqual({ success: false, error: 'Invalid owner profile: name is required' });
+    expect(await updateOwnerProfileUseCase.execute(ANN, ANN_ACTOR))
+      .toEqual({ success: false, error: 'Invalid owner profile: phone is required to be contacted by phone or SMS' });
+    expect(await updateOwnerProfileUseCase.execute({ ...ANN, preferredContactChannel: 'email', email: 'ann@' }, ANN_ACTOR))
+      .toEqual({ success: false, error: 'Invalid owner profile: email must be an email address' });
+    expect(await ownerRepository.getOwnerById(ANN.id)).toEqual(ANN);
+  });
+});
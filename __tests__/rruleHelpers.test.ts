@@ -0,0 +1,172 @@
+/**
+ * @format
+ */
+
+import { Availability } from '../src/domain/entities/Doctor';
+import {
+  buildRRule,
+  createBiWeeklyRRule,
+  describeAvailability,
+  describeRecurrence,
+  expandAvailabilityToDates,
+  parseRRule,
+  RecurrenceOptions,
+  validateRecurrence
+} from '../src/shared/utils/rruleHelpers';
+import { zonedTimeToDate } from '../src/shared/utils/timezone';
+
+// UTC+14 and UTC-8: the end of a clinic day falls on different UTC dates
+const KIRITIMATI = 'Pacific/Kiritimati';
+const LOS_ANGELES = 'America/Los_Angeles';
+
+function createAvailability(rrule: string): Availability {
+  return { id: 'availability-1', weekday: 5, startTime: '09:00', endTime: '17:00', rrule };
+}
+
+/**
+ * Lists the clinic days a rule applies on in the first months of 2030
+ */
+function expand(rrule: string, timeZone: string): string[] {
+  return expandAvailabilityToDates(
+    createAvailability(rrule),
+    zonedTimeToDate('2030-01-01', '00:00', timeZone),
+    zonedTimeToDate('2030-06-30', '23:59', timeZone),
+    timeZone
+  );
+}
+
+describe('buildRRule and parseRRule', () => {
+  test('round-trip a weekly rule on several weekdays', () => {
+    const options: RecurrenceOptions = { frequency: 'weekly', interval: 2, weekdays: [5, 1, 3, 1], startDate: '2030-01-07' };
+
+    const rrule = buildRRule(options);
+
+    expect(rrule).toBe('DTSTART:20300107T000000\nRRULE:FREQ=WEEKLY;INTERVAL=2;BYDAY=MO,WE,FR');
+    expect(parseRRule(rrule)).toEqual({ ...options, weekdays: [1, 3, 5], endDate: undefined, count: undefined });
+  });
+
+  test('round-trip a monthly rule on the Nth weekday', () => {
+    const options: RecurrenceOptions = {
+      frequency: 'monthly',
+      interval: 2,
+      weekdays: [5],
+      monthlyPosition: -1,
+      startDate: '2030-01-01'
+    };
+
+    const rrule = buildRRule(options);
+
+    expect(rrule).toBe('DTSTART:20300101T000000\nRRULE:FREQ=MONTHLY;INTERVAL=2;BYDAY=-1FR');
+    expect(parseRRule(rrule)).toEqual({ ...options, endDate: undefined, count: undefined });
+    expect(expand(rrule, LOS_ANGELES)).toEqual(['2030-01-25', '2030-03-29', '2030-05-31']);
+    expect(parseRRule('FREQ=MONTHLY;BYDAY=TU;BYSETPOS=2')).toMatchObject({ weekdays: [2], monthlyPosition: 2 });
+  });
+
+  test('round-trip an end date and a number of occurrences', () => {
+    const untilOptions: RecurrenceOptions = { frequency: 'weekly', interval: 1, weekdays: [5], endDate: '2030-03-01' };
+    const countOptions: RecurrenceOptions = { frequency: 'weekly', interval: 1, weekdays: [1, 3], startDate: '2030-01-07', count: 3 };
+
+    const untilRule = buildRRule(untilOptions);
+    const countRule = buildRRule(countOptions);
+
+    expect(untilRule).toBe('FREQ=WEEKLY;INTERVAL=1;BYDAY=FR;UNTIL=20300301T235959Z');
+    expect(parseRRule(untilRule)).toEqual({ ...untilOptions, startDate: undefined, count: undefined });
+    expect(expand(untilRule, LOS_ANGELES).slice(-2)).toEqual(['2030-02-22', '2030-03-01']);
+
+    expect(countRule).toBe('DTSTART:20300107T000000\nRRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=MO,WE;COUNT=3');
+    expect(parseRRule(countRule)).toEqual({ ...countOptions, endDate: undefined });
+    expect(expand(countRule, LOS_ANGELES)).toEqual(['2030-01-07', '2030-01-09', '2030-01-14']);
+  });
+
+  test.each([
+    [KIRITIMATI, 'UNTIL=20300301T095959Z'],
+    [LOS_ANGELES, 'UNTIL=20300302T075959Z']
+  ])('round-trip start and end dates in %s', (timeZone, until) => {
+    const options: RecurrenceOptions = {
+      frequency: 'weekly',
+      interval: 1,
+      weekdays: [5],
+      startDate: '2030-02-01',
+      endDate: '2030-03-01'
+    };
+
+    const rrule = buildRRule(options, timeZone);
+
+    expect(rrule).toBe(`DTSTART;TZID=${timeZone}:20300201T000000\nRRULE:FREQ=WEEKLY;INTERVAL=1;BYDAY=FR;${until}`);
+    expect(parseRRule(rrule)).toEqual({ ...options, count: undefined });
+    expect(expand(rrule, timeZone)).toEqual(['2030-02-01', '2030-02-08', '2030-02-15', '2030-02-22', '2030-03-01']);
+  });
+
+  test('reads a UTC end from another calendar as the day it falls on in the TZID', () => {
+    // 07:59:59 UTC on 2 March is still 1 March in Los Angeles
+    const rrule = `DTSTART;TZID=${LOS_ANGELES}:20300201T090000\nRRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20300302T075959Z`;
+
+    expect(parseRRule(rrule)).toMatchObject({ startDate: '2030-02-01', endDate: '2030-03-01' });
+    expect(expand(rrule, LOS_ANGELES).slice(-1)).toEqual(['2030-03-01']);
+  });
+
+  test('keeps the end date of rules saved with an end-of-day UNTIL', () => {
+    const rrule = `DTSTART;TZID=${KIRITIMATI}:20300201T000000\nRRULE:FREQ=WEEKLY;BYDAY=FR;UNTIL=20300301T235959Z`;
+
+    expect(parseRRule(rrule)).toMatchObject({ endDate: '2030-03-01' });
+    expect(expand(rrule, KIRITIMATI).slice(-1)).toEqual(['2030-03-01']);
+  });
+});
+
+describe('validateRecurrence', () => {
+  const weekly: RecurrenceOptions = { frequency: 'weekly', interval: 1, weekdays: [1], startDate: '2030-01-07' };
+
+  test('accepts an end date or a number of occurrences', () => {
+    expect(validateRecurrence({ ...weekly, endDate: '2030-03-01' })).toBeNull();
+    expect(validateRecurrence({ ...weekly, count: 5 })).toBeNull();
+  });
+
+  test('needs a start date to count occurrences from', () => {
+    expect(validateRecurrence({ ...weekly, startDate: undefined, count: 5 }))
+      .toBe('Choose a start date for a recurrence that ends after a number of occurrences');
+  });
+
+  test('rejects inconsistent options', () => {
+    expect(validateRecurrence({ ...weekly, interval: 0 })).toBe('Repeat interval must be a whole number of at least 1');
+    expect(validateRecurrence({ ...weekly, weekdays: [] })).toBe('Choose at least one day of the week');
+    expect(validateRecurrence({ ...weekly, frequency: 'monthly', monthlyPosition: 5 }))
+      .toBe('Choose which week of the month to repeat on');
+    expect(validateRecurrence({ ...weekly, endDate: '2030-01-01' })).toBe('Recurrence must not end before it starts');
+    expect(validateRecurrence({ ...weekly, endDate: '2030-03-01', count: 5 }))
+      .toBe('A recurrence ends either on a date or after a number of occurrences, not both');
+  });
+});
+
+describe('describing recurrences', () => {
+  const TODAY = '2030-06-01';
+
+  test('names the pattern for each interval', () => {
+    expect(describeRecurrence({ frequency: 'weekly', interval: 1, weekdays: [1] })).toBe('Every Monday');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 2, weekdays: [2, 4] })).toBe('Every other Tuesday and Thursday');
+    expect(describeRecurrence({ frequency: 'weekly', interval: 3, weekdays: [1, 3, 5] }))
+      .toBe('Every 3 weeks on Monday, Wednesday and Friday');
+    expect(describeRecurrence({ frequency: 'monthly', interval: 1, weekdays: [1], monthlyPosition: 1 }))
+      .toBe('First Monday of every month');
+    expect(describeRecurrence({ frequency: 'monthly', interval: 3, weekdays: [5], monthlyPosition: -1 }))
+      .toBe('Last Friday of every 3 months');
+  });
+
+  test('adds start and end limits, with the year only when it is not this one', () => {
+    const weekly: RecurrenceOptions = { frequency: 'weekly', interval: 2, weekdays: [4] };
+
+    expect(describeRecurrence({ ...weekly, endDate: '2030-12-31' }, TODAY)).toBe('Every other Thursday, until Dec 31');
+    expect(describeRecurrence({ ...weekly, startDate: '2031-01-09', count: 1 }, TODAY))
+      .toBe('Every other Thursday, from Jan 9, 2031, 1 time');
+    expect(describeRecurrence({ ...weekly, startDate: '2030-01-02', count: 10 }, TODAY)).toBe('Every other Thursday, 10 times');
+  });
+
+  test('puts the hours of an availability next to its days', () => {
+    const availability: Availability = { id: 'a', weekday: 4, startTime: '08:00', endTime: '16:00' };
+
+    expect(describeAvailability(availability)).toBe('Every Thursday, 08:00\u201316:00');
+    expect(describeAvailability({ ...availability, rrule: `${createBiWeeklyRRule(4)};UNTIL=20301231T235959Z` }, TODAY))
+      .toBe('Every other Thursday, 08:00\u201316:00, until Dec 31');
+    expect(describeAvailability({ ...availability, rrule: 'FREQ=DAILY;INTERVAL=2' }))
+      .toBe('Every 2 days, 08:00\u201316:00');
+  });
+});
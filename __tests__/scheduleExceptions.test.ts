@@ -0,0 +1,120 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { AvailabilityException } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { createDoctor } from './helpers/fixtures';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+// Mondays 2030-01-07 and 2030-01-14, 09:00-11:00 UTC; 30 minute visits start every 15 minutes
+const WEEKS = { from: '2030-01-06T00:00:00.000Z', to: '2030-01-14T23:59:59.000Z' };
+
+let container: AppContainer;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.createDoctor(createDoctor({
+    weeklyAvailability: [{ id: 'mon', weekday: 1, startTime: '09:00', endTime: '11:00' }]
+  }));
+});
+
+const slotTimes = async () =>
+  (await container.getAvailableSlotsUseCase.execute('doctor-1', WEEKS.from, WEEKS.to))
+    .map(slot => `${slot.startISO.slice(0, 10)} ${slot.startISO.slice(11, 16)}`);
+
+const setExceptions = (availabilityExceptions: AvailabilityException[], cancelAffectedAppointments = false) =>
+  container.updateDoctorScheduleUseCase.execute('doctor-1', { availabilityExceptions }, ADMIN, { cancelAffectedAppointments });
+
+const book = async (startISO: string, endISO: string) =>
+  (await container.bookAppointmentUseCase.execute({
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: 'owner-1',
+    ownerName: 'Ann Smith',
+    petId: 'pet-1',
+    petName: 'Rex',
+    startDateISO: startISO,
+    endDateISO: endISO
+  }, ADMIN)).appointment!;
+
+describe('availability exceptions', () => {
+  test('leave out days off and the hours of partial-day blocks', async () => {
+    await setExceptions([
+      { id: 'vacation', type: 'block', startDate: '2030-01-07', endDate: '2030-01-07', reason: 'Vacation' },
+      { id: 'meeting', type: 'block', startDate: '2030-01-14', endDate: '2030-01-14', startTime: '09:45', endTime: '10:15' }
+    ]);
+
+    expect(await slotTimes()).toEqual(['2030-01-14 09:00', '2030-01-14 09:15', '2030-01-14 10:15', '2030-01-14 10:30']);
+  });
+
+  test('add one-off extra hours', async () => {
+    await setExceptions([
+      { id: 'clinic', type: 'extra', startDate: '2030-01-12', endDate: '2030-01-12', startTime: '14:00', endTime: '15:00' }
+    ]);
+
+    expect((await slotTimes()).filter(slot => slot.startsWith('2030-01-12'))).toEqual(['2030-01-12 14:00', '2030-01-12 14:15', '2030-01-12 14:30']);
+  });
+
+  test('reject extra hours without times and ranges that end before they start', async () => {
+    expect(await setExceptions([{ id: 'x', type: 'extra', startDate: '2030-01-12', endDate: '2030-01-12' }]))
+      .toEqual({ success: false, error: 'Extra hours need a start and end time' });
+    expect(await setExceptions([{ id: 'x', type: 'block', startDate: '2030-01-12', endDate: '2030-01-10' }]))
+      .toEqual({ success: false, error: 'Exception end date must not be before its start date' });
+  });
+
+  test('report bookings that fall into new time off and keep them unless asked', async () => {
+    const inBlock = await book('2030-01-07T09:00:00.000Z', '2030-01-07T09:30:00.000Z');
+    await book('2030-01-14T09:00:00.000Z', '2030-01-14T09:30:00.000Z');
+
+    const result = await setExceptions([{ id: 'vacation', type: 'block', startDate: '2030-01-07', endDate: '2030-01-07' }]);
+
+    expect(result.affectedAppointments!.map(appointment => appointment.id)).toEqual([inBlock.id]);
+    expect(result.cancelledAppointments).toEqual([]);
+    expect(await container.appointmentRepository.getAppointmentById(inBlock.id)).toMatchObject({ status: 'requested' });
+  });
+
+  test('cancel bookings in new time off when asked, with the reason', async () => {
+    const inBlock = await book('2030-01-07T10:00:00.000Z', '2030-01-07T10:30:00.000Z');
+    const beforeBlock = await book('2030-01-07T09:00:00.000Z', '2030-01-07T09:30:00.000Z');
+
+    const result = await setExceptions([{
+      id: 'surgery-day',
+      type: 'block',
+      startDate: '2030-01-07',
+      endDate: '2030-01-07',
+      startTime: '10:00',
+      endTime: '11:00',
+      reason: 'Emergency surgery'
+    }], true);
+
+    expect(result.cancelledAppointments!.map(appointment => appointment.id)).toEqual([inBlock.id]);
+    expect(await container.appointmentRepository.getAppointmentById(inBlock.id))
+      .toMatchObject({ status: 'cancelled', cancellationReason: 'Doctor unavailable: Emergency surgery' });
+    expect(await container.appointmentRepository.getAppointmentById(beforeBlock.id)).toMatchObject({ status: 'requested' });
+  });
+
+  test('only act on blocks that are new', async () => {
+    const vacation: AvailabilityException = { id: 'vacation', type: 'block', startDate: '2030-01-07', endDate: '2030-01-07' };
+    await setExceptions([vacation]);
+    await container.appointmentRepository.createAppointment({
+      id: 'booked-anyway',
+      doctorId: 'doctor-1',
+      doctorName: 'Dr. Jane Test, DVM',
+      ownerId: 'owner-1',
+      ownerName: 'Ann Smith',
+      petId: 'pet-1',
+      petName: 'Rex',
+      startDateISO: '2030-01-07T09:00:00.000Z',
+      endDateISO: '2030-01-07T09:30:00.000Z',
+      status: 'confirmed'
+    });
+
+    const result = await setExceptions([vacation], true);
+
+    expect(result).toMatchObject({ success: true, affectedAppointments: [], cancelledAppointments: [] });
+  });
+});
@@ -0,0 +1,132 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { createDoctor } from './helpers/fixtures';
+
+const ANN: Actor = { userId: 'user-ann', role: 'owner', ownerId: 'owner-ann' };
+const BO: Actor = { userId: 'user-bo', role: 'owner', ownerId: 'owner-bo' };
+
+// A Sunday; the doctor works 09:00-10:00 UTC on Mondays
+const NOW = new Date('2030-01-06T12:00:00.000Z');
+const MONDAY = { from: '2030-01-07T00:00:00.000Z', to: '2030-01-07T23:59:59.000Z' };
+
+const SLOT: TimeSlot = {
+  doctorId: 'doctor-1',
+  visitTypeId: 'standard',
+  startISO: '2030-01-07T09:00:00.000Z',
+  endISO: '2030-01-07T09:30:00.000Z'
+};
+
+let container: AppContainer;
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.createDoctor(createDoctor());
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+const hold = async (actor: Actor) => (await container.manageSlotHoldsUseCase.holdSlot(SLOT, actor)).hold!;
+
+const book = (actor: Actor, holdId?: string) =>
+  container.bookAppointmentUseCase.execute({
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: actor.ownerId!,
+    ownerName: actor.userId,
+    petId: `pet-${actor.userId}`,
+    petName: 'Rex',
+    startDateISO: SLOT.startISO,
+    endDateISO: SLOT.endISO
+  }, actor, { holdId });
+
+const startTimes = async (holdId?: string) =>
+  (await container.getAvailableSlotsUseCase.execute('doctor-1', MONDAY.from, MONDAY.to, { holdId }))
+    .map(slot => slot.startISO.slice(11, 16));
+
+describe('slot holds', () => {
+  test('hide a held slot from everyone but the holder', async () => {
+    const annHold = await hold(ANN);
+
+    expect(annHold).toMatchObject({ userId: 'user-ann', ownerId: 'owner-ann', purpose: 'booking', expiresAt: '2030-01-06T12:10:00.000Z' });
+    expect(await startTimes()).toEqual(['09:30']);
+    expect(await startTimes(annHold.id)).toEqual(['09:00', '09:15', '09:30']);
+    expect(await container.manageSlotHoldsUseCase.holdSlot(SLOT, BO))
+      .toEqual({ success: false, error: 'Someone else is booking this time right now' });
+    expect(await book(BO)).toMatchObject({ success: false, error: 'Slot is being held for another owner' });
+  });
+
+  test('let the holder book the held slot, which clears the hold', async () => {
+    const annHold = await hold(ANN);
+
+    expect(await book(ANN, annHold.id)).toMatchObject({ success: true, appointment: { ownerId: 'owner-ann' } });
+    expect(await container.slotHoldRepository.getHoldById(annHold.id)).toBeNull();
+  });
+
+  test('ignore a hold claimed by someone else', async () => {
+    const annHold = await hold(ANN);
+
+    expect(await book(BO, annHold.id)).toMatchObject({ success: false, error: 'Slot is being held for another owner' });
+    expect(await container.slotHoldRepository.getHoldById(annHold.id)).not.toBeNull();
+  });
+
+  test('stop hiding the slot once the hold expires, and sweep it', async () => {
+    const annHold = await hold(ANN);
+
+    jest.setSystemTime(new Date('2030-01-06T12:09:00.000Z'));
+    expect(await startTimes()).toEqual(['09:30']);
+    expect(await container.manageSlotHoldsUseCase.sweepExpiredHolds()).toBe(0);
+
+    jest.setSystemTime(new Date('2030-01-06T12:10:00.000Z'));
+    expect(await startTimes()).toEqual(['09:00', '09:15', '09:30']);
+    expect(await container.manageSlotHoldsUseCase.sweepExpiredHolds()).toBe(1);
+    expect(await container.slotHoldRepository.getHoldById(annHold.id)).toBeNull();
+    expect((await book(BO)).success).toBe(true);
+  });
+
+  test('give a slot to only one of two owners holding it at the same time', async () => {
+    const results = await Promise.all([
+      container.manageSlotHoldsUseCase.holdSlot(SLOT, ANN),
+      container.manageSlotHoldsUseCase.holdSlot(SLOT, BO)
+    ]);
+
+    expect(results.map(result => result.success)).toEqual([true, false]);
+    expect(results[1].error).toBe('Someone else is booking this time right now');
+    expect(await container.slotHoldRepository.getActiveHoldsByDoctor('doctor-1', NOW)).toHaveLength(1);
+  });
+
+  test('keep a hold placed while expired holds are being swept', async () => {
+    const annHold = await hold(ANN);
+    jest.setSystemTime(new Date('2030-01-06T12:10:00.000Z'));
+    const boHold = { ...annHold, id: 'hold-bo', userId: 'user-bo', ownerId: 'owner-bo', expiresAt: '2030-01-06T12:20:00.000Z' };
+
+    await Promise.all([
+      container.manageSlotHoldsUseCase.sweepExpiredHolds(),
+      container.slotHoldRepository.createHold(boHold)
+    ]);
+
+    expect(await container.slotHoldRepository.getHoldById(annHold.id)).toBeNull();
+    expect(await container.slotHoldRepository.getHoldById('hold-bo')).toEqual(boHold);
+  });
+
+  test('only let the holder release a hold or hold slots for their own pets', async () => {
+    const annHold = await hold(ANN);
+
+    expect(await container.manageSlotHoldsUseCase.releaseHold(annHold.id, BO))
+      .toEqual({ success: false, error: 'Not authorized to release this hold' });
+    expect((await container.manageSlotHoldsUseCase.releaseHold(annHold.id, ANN)).success).toBe(true);
+    expect(await startTimes()).toEqual(['09:00', '09:15', '09:30']);
+
+    expect(await container.manageSlotHoldsUseCase.holdSlot(SLOT, BO, 'owner-ann'))
+      .toEqual({ success: false, error: 'Not authorized to hold slots for this owner' });
+  });
+});
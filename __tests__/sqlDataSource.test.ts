@@ -0,0 +1,304 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { DataSource } from '../src/data/datasources/DataSource';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { SqlDatabase, SqlDataSource, SqlRow, SqlValue } from '../src/data/datasources/SqlDataSource';
+import { Appointment } from '../src/domain/entities/Appointment';
+import { TimeSlot } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { ConcurrencyConflictError } from '../src/domain/errors/ConcurrencyConflictError';
+import { silenceConsole } from './helpers/fixtures';
+
+// No AsyncStorage mock: nothing here may touch AsyncStorage
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+interface Table {
+  primaryKey: string;
+  rows: SqlRow[];
+}
+
+/**
+ * Runs the statements SqlDataSource sends, on tables kept in memory
+ * Understands just that subset of SQLite: CREATE TABLE, INSERT [OR REPLACE],
+ * DELETE and SELECT with ANDed "column op ?" conditions and one ORDER BY
+ * column, and transactions.
+ */
+class FakeSqlDatabase implements SqlDatabase {
+  tables = new Map<string, Table>();
+  failOn: RegExp | null = null; // Statements matching this fail, like a full disk
+  private committed: Map<string, Table> | null = null;
+
+  async execute(sql: string, params: SqlValue[] = []): Promise<SqlRow[]> {
+    const statement = sql.replace(/\s+/g, ' ').trim();
+    if (this.failOn?.test(statement)) {
+      throw new Error('database or disk is full');
+    }
+
+    let match: RegExpExecArray | null;
+
+    if ((match = /^CREATE TABLE IF NOT EXISTS (\w+) \( ?(\w+) TEXT PRIMARY KEY/.exec(statement))) {
+      if (!this.tables.has(match[1])) {
+        this.tables.set(match[1], { primaryKey: match[2], rows: [] });
+      }
+      return [];
+    }
+
+    if (/^CREATE INDEX /.test(statement)) {
+      return [];
+    }
+
+    if (statement === 'BEGIN TRANSACTION') {
+      this.committed = new Map([...this.tables].map(([name, table]) => [name, { ...table, rows: [...table.rows] }]));
+      return [];
+    }
+
+    if (statement === 'COMMIT' || statement === 'ROLLBACK') {
+      if (statement === 'ROLLBACK') {
+        this.tables = this.committed!;
+      }
+      this.committed = null;
+      return [];
+    }
+
+    if ((match = /^INSERT (OR REPLACE )?INTO (\w+) \(([^)]+)\) VALUES/.exec(statement))) {
+      const table = this.getTable(match[2]);
+      const columns = match[3].split(', ');
+      const row: SqlRow = Object.fromEntries(columns.map((column, index) => [column, params[index]]));
+      const index = table.rows.findIndex(existing => existing[table.primaryKey] === row[table.primaryKey]);
+
+      if (index === -1) {
+        table.rows.push(row);
+      } else if (match[1]) {
+        table.rows[index] = row;
+      } else {
+        throw new Error(`UNIQUE constraint failed: ${match[2]}.${table.primaryKey}`);
+      }
+      return [];
+    }
+
+    if ((match = /^DELETE FROM (\w+)(?: WHERE (.+))?$/.exec(statement))) {
+      const table = this.getTable(match[1]);
+      const matches = this.where(match[2], params);
+      table.rows = table.rows.filter(row => !matches(row));
+      return [];
+    }
+
+    if ((match = /^SELECT (.+?) FROM (\w+)(?: WHERE (.+?))?(?: ORDER BY (\w+))?$/.exec(statement))) {
+      const columns = match[1].split(', ');
+      const orderBy = match[4];
+      const rows = this.getTable(match[2]).rows.filter(this.where(match[3], params));
+
+      if (orderBy) {
+        rows.sort((a, b) => (a[orderBy]! < b[orderBy]! ? -1 : a[orderBy]! > b[orderBy]! ? 1 : 0));
+      }
+      return rows.map(row => Object.fromEntries(columns.map(column => [column, row[column]])));
+    }
+
+    throw new Error(`Unsupported statement: ${statement}`);
+  }
+
+  private getTable(name: string): Table {
+    const table = this.tables.get(name);
+    if (!table) {
+      throw new Error(`no such table: ${name}`);
+    }
+    return table;
+  }
+
+  private where(clause: string | undefined, params: SqlValue[]): (row: SqlRow) => boolean {
+    if (!clause) {
+      return () => true;
+    }
+
+    const conditions = clause.split(' AND ').map((condition, index) => {
+      const match = /^(\w+) (=|<=|>=) \?$/.exec(condition);
+      if (!match) {
+        throw new Error(`Unsupported condition: ${condition}`);
+      }
+
+      const [, column, operator] = match;
+      const value = params[index]!;
+      return (row: SqlRow) => {
+        const cell = row[column]!;
+        return operator === '=' ? cell === value : operator === '<=' ? cell <= value : cell >= value;
+      };
+    });
+
+    return row => conditions.every(matches => matches(row));
+  }
+}
+
+let container: AppContainer;
+
+/**
+ * Finds the doctor's free slots between two and nine days ahead
+ */
+const getSlots = async (): Promise<TimeSlot[]> => {
+  const [doctor] = await container.appointmentRepository.getDoctors();
+  const from = new Date(Date.now() + 2 * DAY_MS).toISOString();
+  const to = new Date(Date.now() + 9 * DAY_MS).toISOString();
+  return await container.getAvailableSlotsUseCase.execute(doctor.id, from, to);
+};
+
+/**
+ * Books the first owner's first pet into a slot
+ */
+const book = async (slot: TimeSlot): Promise<Appointment> => {
+  const [doctor] = await container.appointmentRepository.getDoctors();
+  const [owner] = await container.ownerRepository.getOwners();
+  const [pet] = await container.petRepository.getPetsByOwner(owner.id);
+  const result = await container.bookAppointmentUseCase.execute({
+    doctorId: doctor.id,
+    doctorName: doctor.name,
+    ownerId: owner.id,
+    ownerName: owner.name,
+    petId: pet.id,
+    petName: pet.name,
+    visitTypeId: slot.visitTypeId,
+    startDateISO: slot.startISO,
+    endDateISO: slot.endISO
+  }, ADMIN);
+  return result.appointment!;
+};
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+describe.each([
+  ['InMemoryDataSource', (): DataSource => new InMemoryDataSource()],
+  ['SqlDataSource', (): DataSource => new SqlDataSource(new FakeSqlDatabase())]
+])('data source contract: %s', (_name, createDataSource) => {
+  beforeEach(async () => {
+    container = createContainer(createDataSource());
+    await container.appointmentRepository.seedInitialData();
+  });
+
+  test('seeds the sample data once', async () => {
+    const doctors = await container.appointmentRepository.getDoctors();
+    expect(doctors.length).toBeGreaterThan(0);
+    expect(await container.dataSource.isInitialized()).toBe(true);
+
+    await container.appointmentRepository.seedInitialData();
+    expect(await container.appointmentRepository.getDoctors()).toHaveLength(doctors.length);
+  });
+
+  test('books an appointment and rejects a second booking of the slot', async () => {
+    const [slot] = await getSlots();
+
+    const first = await book(slot);
+    expect(await book(slot)).toBeUndefined();
+    expect(await container.appointmentRepository.getAppointmentById(first.id))
+      .toMatchObject({ startDateISO: slot.startISO, version: 1 });
+  });
+
+  test('finds appointments by doctor and by time range', async () => {
+    const slots = await getSlots();
+    const first = await book(slots[0]);
+    const later = await book(slots.find(slot => slot.startISO.slice(0, 10) > slots[0].startISO.slice(0, 10))!);
+
+    const firstDay = await container.appointmentRepository.getAppointmentsByDoctorAndDateRange(
+      first.doctorId,
+      first.startDateISO,
+      first.endDateISO
+    );
+    expect(firstDay.map(appointment => appointment.id)).toEqual([first.id]);
+
+    const both = await container.appointmentRepository.getAppointmentsByDateRange(first.startDateISO, later.endDateISO);
+    expect(both.map(appointment => appointment.id)).toEqual(expect.arrayContaining([first.id, later.id]));
+
+    const byDoctor = await container.appointmentRepository.getAppointmentsByDoctorId(first.doctorId);
+    expect(byDoctor.map(appointment => appointment.id)).toEqual(expect.arrayContaining([first.id, later.id]));
+  });
+
+  test('bumps the version on update and refuses stale writes', async () => {
+    const [slot] = await getSlots();
+    const appointment = await book(slot);
+
+    const updated = await container.appointmentRepository.updateAppointment({ ...appointment, notes: 'Limping' });
+    expect(updated.version).toBe(2);
+    expect(await container.appointmentRepository.getAppointmentById(appointment.id)).toMatchObject({ notes: 'Limping' });
+
+    await expect(container.appointmentRepository.updateAppointment({ ...appointment, notes: 'Stale' }))
+      .rejects.toBeInstanceOf(ConcurrencyConflictError);
+  });
+
+  test('deletes appointments and clears all data', async () => {
+    const [slot] = await getSlots();
+    const appointment = await book(slot);
+
+    await container.appointmentRepository.deleteAppointment(appointment.id);
+    expect(await container.appointmentRepository.getAppointmentById(appointment.id)).toBeNull();
+
+    await container.userRepository.setSessionUserId('user-1');
+    expect(await container.userRepository.getSessionUserId()).toBe('user-1');
+
+    await container.appointmentRepository.clearAllData();
+    expect(await container.appointmentRepository.getDoctors()).toEqual([]);
+    expect(await container.appointmentRepository.getAppointments()).toEqual([]);
+    expect(await container.userRepository.getSessionUserId()).toBeNull();
+    expect(await container.dataSource.isInitialized()).toBe(false);
+  });
+
+  test('leaves invalid doctors out of reads and quarantines them', async () => {
+    silenceConsole('warn');
+
+    const doctors = await container.appointmentRepository.getDoctors();
+    await container.dataSource.saveDoctors([
+      ...doctors,
+      { ...doctors[0], id: 'broken', weeklyAvailability: [{ id: 'a', weekday: 9, startTime: '9am', endTime: '17:00' }] }
+    ]);
+
+    const readDoctors = await container.appointmentRepository.getDoctors();
+
+    expect(readDoctors.map(doctor => doctor.id)).not.toContain('broken');
+    expect(await container.quarantineRepository.getQuarantinedRecords())
+      .toEqual([expect.objectContaining({ source: 'doctors', recordId: 'broken' })]);
+  });
+});
+
+describe('SqlDataSource', () => {
+  let database: FakeSqlDatabase;
+
+  beforeEach(async () => {
+    database = new FakeSqlDatabase();
+    container = createContainer(new SqlDataSource(database));
+    await container.appointmentRepository.seedInitialData();
+  });
+
+  test('rolls back a save that fails part way', async () => {
+    silenceConsole('error');
+
+    const doctors = await container.appointmentRepository.getDoctors();
+    database.failOn = /^INSERT INTO doctors .*/;
+
+    await expect(container.dataSource.saveDoctors(doctors.slice(1))).rejects.toThrow('database or disk is full');
+
+    database.failOn = null;
+    expect(await container.appointmentRepository.getDoctors()).toEqual(doctors);
+  });
+
+  test('quarantines a row that is not valid JSON and keeps reading the others', async () => {
+    silenceConsole('error');
+    silenceConsole('warn');
+
+    const slots = await getSlots();
+    const first = await book(slots[0]);
+    const second = await book(slots.find(slot => slot.startISO >= first.endDateISO)!);
+    database.tables.get('appointments')!.rows.find(row => row.id === second.id)!.data = '{"id":';
+
+    const appointments = await container.appointmentRepository.getAppointments();
+
+    expect(appointments.map(appointment => appointment.id)).toContain(first.id);
+    expect(appointments.map(appointment => appointment.id)).not.toContain(second.id);
+    expect(await container.quarantineRepository.getQuarantinedRecords()).toEqual([expect.objectContaining({
+      source: 'appointments',
+      recordId: second.id,
+      data: '{"id":'
+    })]);
+  });
+});
@@ -0,0 +1,256 @@
+/**
+ * @format
+ */
+
+import { AddressInfo } from 'net';
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { HttpSyncTransport } from '../src/data/sync/SyncApi';
+import { MergeStrategy } from '../src/data/sync/merge';
+import { Appointment, AppointmentCreate } from '../src/domain/entities/Appointment';
+import { Actor } from '../src/domain/entities/User';
+import { createMockClinicServer } from '../server/mockClinicServer';
+import { silenceConsole } from './helpers/fixtures';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+let server: ReturnType<typeof createMockClinicServer>;
+let serverUrl: string;
+
+const createClient = (
+  mergeStrategy: MergeStrategy = 'fieldLevel',
+  url = serverUrl,
+  storage = new InMemoryDataSource()
+): AppContainer =>
+  createContainer(storage, {
+    syncTransport: new HttpSyncTransport(url, 2000),
+    mergeStrategy
+  });
+
+const getAppointment = async (client: AppContainer, id: string): Promise<Appointment> =>
+  (await client.appointmentRepository.getAppointmentById(id))!;
+
+/**
+ * Seeds one client, syncs it and brings a second client up from the server
+ */
+const createClinic = async (mergeStrategy: MergeStrategy = 'fieldLevel') => {
+  const first = createClient(mergeStrategy);
+  await first.syncEngine!.sync();
+  await first.appointmentRepository.seedInitialData();
+  await first.syncEngine!.sync();
+
+  const second = createClient(mergeStrategy);
+  await second.syncEngine!.sync();
+  await second.appointmentRepository.seedInitialData();
+
+  return { first, second };
+};
+
+beforeEach(async () => {
+  server = createMockClinicServer();
+  await new Promise<void>(resolve => server.listen(0, resolve));
+  serverUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterEach(async () => {
+  jest.restoreAllMocks();
+  await new Promise(resolve => server.close(resolve));
+});
+
+describe('sync through the mock clinic server', () => {
+  test('a new device takes the clinic data instead of seeding samples', async () => {
+    const { first, second } = await createClinic();
+
+    const firstAppointments = await first.appointmentRepository.getAppointments();
+    const secondAppointments = await second.appointmentRepository.getAppointments();
+
+    expect(secondAppointments.map(appointment => appointment.id).sort())
+      .toEqual(firstAppointments.map(appointment => appointment.id).sort());
+    expect(await second.appointmentRepository.getDoctors()).toHaveLength(
+      (await first.appointmentRepository.getDoctors()).length
+    );
+    expect(await second.syncEngine!.getStatus()).toMatchObject({ pendingChanges: 0 });
+  });
+
+  test('merges edits of different fields made on two devices', async () => {
+    const { first, second } = await createClinic();
+    const [original] = await first.appointmentRepository.getAppointments();
+
+    await first.appointmentRepository.updateAppointment({
+      ...(await getAppointment(first, original.id)),
+      disease: 'Limping'
+    });
+    await second.appointmentRepository.updateAppointment({
+      ...(await getAppointment(second, original.id)),
+      notes: 'Bring previous X-rays'
+    });
+
+    await first.syncEngine!.sync();
+    await second.syncEngine!.sync();
+    await first.syncEngine!.sync();
+
+    for (const client of [first, second]) {
+      expect(await getAppointment(client, original.id))
+        .toMatchObject({ disease: 'Limping', notes: 'Bring previous X-rays' });
+      expect(await client.syncEngine!.getStatus()).toMatchObject({ pendingChanges: 0 });
+    }
+  });
+
+  test('keeps the history entries added on both devices', async () => {
+    const { first, second } = await createClinic();
+    const [original] = await first.appointmentRepository.getAppointments();
+
+    await first.updateAppointmentNotesUseCase.execute(original.id, 'Bring previous X-rays', ADMIN);
+    await second.changeAppointmentStatusUseCase.execute(original.id, 'confirmed', ADMIN);
+
+    await first.syncEngine!.sync();
+    await second.syncEngine!.sync();
+    await first.syncEngine!.sync();
+
+    for (const client of [first, second]) {
+      const appointment = await getAppointment(client, original.id);
+      expect(appointment).toMatchObject({ status: 'confirmed', notes: 'Bring previous X-rays' });
+      expect(appointment.history?.map(entry => entry.type).sort()).toEqual(['notesChanged', 'statusChanged']);
+    }
+  });
+
+  test('keeps only the later edit with last-write-wins', async () => {
+    const { first, second } = await createClinic('lastWriteWins');
+    const [original] = await first.appointmentRepository.getAppointments();
+
+    await first.appointmentRepository.updateAppointment({
+      ...(await getAppointment(first, original.id)),
+      disease: 'Limping'
+    });
+    await new Promise(resolve => setTimeout(resolve, 5));
+    await second.appointmentRepository.updateAppointment({
+      ...(await getAppointment(second, original.id)),
+      notes: 'Bring previous X-rays'
+    });
+
+    await first.syncEngine!.sync();
+    await second.syncEngine!.sync();
+    await first.syncEngine!.sync();
+
+    for (const client of [first, second]) {
+      const appointment = await getAppointment(client, original.id);
+      expect(appointment.notes).toBe('Bring previous X-rays');
+      expect(appointment.disease).toBe(original.disease);
+    }
+  });
+
+  test('keeps changes in the outbox while offline and pushes them later', async () => {
+    silenceConsole('error');
+
+    const storage = new InMemoryDataSource();
+    const offline = createClient('fieldLevel', 'http://127.0.0.1:1', storage);
+    await offline.appointmentRepository.seedInitialData();
+
+    const status = await offline.syncEngine!.sync();
+    const pending = (await offline.appointmentRepository.getAppointments()).length +
+      (await offline.appointmentRepository.getDoctors()).length;
+
+    expect(status.phase).toBe('offline');
+    expect(status.pendingChanges).toBe(pending);
+
+    // The same device once the server is reachable
+    const online = createClient('fieldLevel', serverUrl, storage);
+    expect(await online.syncEngine!.sync()).toMatchObject({ phase: 'idle', pendingChanges: 0 });
+
+    const other = createClient();
+    await other.syncEngine!.sync();
+    expect(await other.appointmentRepository.getAppointments()).toHaveLength(
+      (await offline.appointmentRepository.getAppointments()).length
+    );
+  });
+});
+
+describe('pending commands', () => {
+  /**
+   * A booking request for the first doctor's next free slot, as seen by a client
+   */
+  const nextBookingRequest = async (client: AppContainer): Promise<AppointmentCreate> => {
+    const [doctor] = await client.appointmentRepository.getDoctors();
+    const [owner] = await client.ownerRepository.getOwners();
+    const [pet] = await client.petRepository.getPets();
+    const slot = (await client.getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id))!;
+
+    return {
+      doctorId: doctor.id,
+      doctorName: doctor.name,
+      ownerId: owner.id,
+      ownerName: owner.name,
+      petId: pet.id,
+      petName: pet.name,
+      visitTypeId: slot.visitTypeId,
+      startDateISO: slot.startISO,
+      endDateISO: slot.endISO
+    };
+  };
+
+  test('a booking made offline conflicts with one made meanwhile and offers alternatives', async () => {
+    silenceConsole('error');
+
+    const { first } = await createClinic();
+    const storage = new InMemoryDataSource();
+    const offline = createClient('fieldLevel', 'http://127.0.0.1:1', storage);
+    await createClient('fieldLevel', serverUrl, storage).syncEngine!.sync();
+
+    // Owners and pets are not synced, so the request is built on the first device
+    const request = await nextBookingRequest(first);
+    const command = await offline.managePendingCommandsUseCase.enqueue({ type: 'book', appointment: request }, ADMIN);
+    expect((await offline.syncEngine!.sync()).phase).toBe('offline');
+
+    const booked = await first.bookAppointmentUseCase.execute(request, ADMIN);
+    expect(booked.success).toBe(true);
+    await first.syncEngine!.sync();
+
+    // Back online: pull, replay, push
+    const online = createClient('fieldLevel', serverUrl, storage);
+    await online.syncEngine!.sync();
+    const [outcome] = await online.managePendingCommandsUseCase.replay();
+
+    expect(outcome.command.id).toBe(command.id);
+    expect(outcome.conflict).toMatchObject({ error: 'Slot already booked' });
+    expect(outcome.conflict!.nextAvailableSlots!.length).toBeGreaterThan(0);
+    expect(await online.appointmentRepository.getAppointmentById(command.id)).toBeNull();
+    expect(await online.managePendingCommandsUseCase.getPendingCommands(ADMIN)).toEqual([]);
+    expect(await online.managePendingCommandsUseCase.getConflicts(ADMIN)).toHaveLength(1);
+
+    // Retrying at an alternative queues a new booking there
+    const [alternative] = outcome.conflict!.nextAvailableSlots!;
+    const retry = await online.managePendingCommandsUseCase.resolveConflict(outcome.conflict!.id, ADMIN, alternative);
+
+    expect(retry).toMatchObject({
+      type: 'book',
+      appointment: { startDateISO: alternative.startISO, endDateISO: alternative.endISO }
+    });
+
+    // The conflict is kept until the retry goes through, so a failed retry does not lose the booking
+    expect(await online.managePendingCommandsUseCase.getConflicts(ADMIN)).toHaveLength(1);
+    await online.managePendingCommandsUseCase.resolveConflict(outcome.conflict!.id, ADMIN);
+    expect(await online.managePendingCommandsUseCase.getConflicts(ADMIN)).toEqual([]);
+  });
+
+  test('replaying a command again does not repeat it', async () => {
+    const { first } = await createClinic();
+    const request = await nextBookingRequest(first);
+    const command = await first.managePendingCommandsUseCase.enqueue({ type: 'book', appointment: request }, ADMIN);
+
+    const firstRun = await first.managePendingCommandsUseCase.execute(command);
+    const secondRun = await first.managePendingCommandsUseCase.execute(command);
+    const bookings = (await first.appointmentRepository.getAppointments())
+      .filter(appointment => appointment.startDateISO === request.startDateISO && appointment.doctorId === request.doctorId);
+
+    expect(firstRun).toMatchObject({ success: true, appointment: { id: command.id } });
+    expect(secondRun).toMatchObject({ success: true, appointment: { id: command.id } });
+    expect(bookings).toHaveLength(1);
+
+    const cancel = await first.managePendingCommandsUseCase.enqueue(
+      { type: 'cancel', appointmentId: command.id },
+      ADMIN
+    );
+    expect((await first.managePendingCommandsUseCase.execute(cancel)).success).toBe(true);
+    expect((await first.managePendingCommandsUseCase.execute(cancel)).success).toBe(true);
+  });
+});
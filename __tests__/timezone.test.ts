@@ -0,0 +1,175 @@
+/**
+ * @format
+ */
+
+import { Doctor } from '../src/domain/entities/Doctor';
+import { VisitType } from '../src/domain/entities/VisitType';
+import { IAppointmentRepository } from '../src/domain/repositories/IAppointmentRepository';
+import { GetAvailableSlotsUseCase } from '../src/domain/usecases/GetAvailableSlotsUseCase';
+import {
+  createBiWeeklyRRule,
+  expandAvailabilityToDates,
+  expandExceptionsToIntervals
+} from '../src/shared/utils/rruleHelpers';
+import { toZonedDateString, zonedTimeToDate } from '../src/shared/utils/timezone';
+import { createDoctor } from './helpers/fixtures';
+
+// US clocks spring forward on 2030-03-10 and fall back on 2030-11-03;
+// UK clocks spring forward on 2030-03-31
+const NEW_YORK = 'America/New_York';
+const LONDON = 'Europe/London';
+
+const HOUR_VISITS: VisitType[] = [
+  { id: 'hour', name: 'Hour', durationMinutes: 60, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 }
+];
+
+function createSlotsUseCase(doctor: Doctor): GetAvailableSlotsUseCase {
+  const repository = {
+    getDoctorById: async (id: string) => (id === doctor.id ? doctor : null),
+    getAppointmentsByDoctorAndDateRange: async () => []
+  } as unknown as IAppointmentRepository;
+
+  return new GetAvailableSlotsUseCase(repository);
+}
+
+describe('zonedTimeToDate', () => {
+  it('keeps clinic wall-clock times across the spring forward transition', () => {
+    expect(zonedTimeToDate('2030-03-09', '09:00', NEW_YORK).toISOString()).toBe('2030-03-09T14:00:00.000Z');
+    expect(zonedTimeToDate('2030-03-10', '09:00', NEW_YORK).toISOString()).toBe('2030-03-10T13:00:00.000Z');
+    expect(zonedTimeToDate('2030-03-31', '09:00', LONDON).toISOString()).toBe('2030-03-31T08:00:00.000Z');
+  });
+
+  it('keeps clinic wall-clock times across the fall back transition', () => {
+    expect(zonedTimeToDate('2030-11-02', '09:00', NEW_YORK).toISOString()).toBe('2030-11-02T13:00:00.000Z');
+    expect(zonedTimeToDate('2030-11-03', '09:00', NEW_YORK).toISOString()).toBe('2030-11-03T14:00:00.000Z');
+  });
+
+  it('moves times skipped by the clocks forward by the gap', () => {
+    // 02:30 does not exist on 2030-03-10 in New York; 03:30 EDT does
+    expect(zonedTimeToDate('2030-03-10', '02:30', NEW_YORK).toISOString()).toBe('2030-03-10T07:30:00.000Z');
+  });
+
+  it('resolves repeated times to their first occurrence', () => {
+    // 01:30 happens twice on 2030-11-03 in New York; the first is still EDT
+    expect(zonedTimeToDate('2030-11-03', '01:30', NEW_YORK).toISOString()).toBe('2030-11-03T05:30:00.000Z');
+  });
+
+  it('round-trips calendar dates through the zone', () => {
+    const instant = zonedTimeToDate('2030-03-10', '23:30', NEW_YORK);
+    expect(toZonedDateString(instant, NEW_YORK)).toBe('2030-03-10');
+    expect(toZonedDateString(instant, 'UTC')).toBe('2030-03-11');
+  });
+});
+
+describe('expandAvailabilityToDates', () => {
+  it('expands weekdays on the clinic calendar', () => {
+    const dates = expandAvailabilityToDates(
+      { id: 'a', weekday: 0, startTime: '09:00', endTime: '12:00' },
+      zonedTimeToDate('2030-03-08', '00:00', NEW_YORK),
+      zonedTimeToDate('2030-03-12', '00:00', NEW_YORK),
+      NEW_YORK
+    );
+
+    expect(dates).toEqual(['2030-03-10']);
+  });
+
+  it('keeps bi-weekly rules on the weeks counted from their anchor', () => {
+    const availability = {
+      id: 'a',
+      weekday: 4,
+      startTime: '09:00',
+      endTime: '12:00',
+      rrule: createBiWeeklyRRule(4, '2030-03-04', NEW_YORK)
+    };
+
+    const fromMarch = expandAvailabilityToDates(
+      availability,
+      zonedTimeToDate('2030-03-01', '00:00', NEW_YORK),
+      zonedTimeToDate('2030-04-01', '00:00', NEW_YORK),
+      NEW_YORK
+    );
+    const fromMidMarch = expandAvailabilityToDates(
+      availability,
+      zonedTimeToDate('2030-03-15', '00:00', NEW_YORK),
+      zonedTimeToDate('2030-04-01', '00:00', NEW_YORK),
+      NEW_YORK
+    );
+
+    expect(fromMarch).toEqual(['2030-03-07', '2030-03-21']);
+    expect(fromMidMarch).toEqual(['2030-03-21']);
+  });
+});
+
+describe('expandExceptionsToIntervals', () => {
+  it('covers a whole clinic day when the clocks spring forward', () => {
+    const [interval] = expandExceptionsToIntervals(
+      [{ id: 'e', type: 'block', startDate: '2030-03-10', endDate: '2030-03-10' }],
+      'block',
+      new Date('2030-03-01T00:00:00.000Z'),
+      new Date('2030-03-20T00:00:00.000Z'),
+      NEW_YORK
+    );
+
+    expect(interval.start.toISOString()).toBe('2030-03-10T05:00:00.000Z');
+    expect(interval.end.toISOString()).toBe('2030-03-11T04:00:00.000Z');
+  });
+});
+
+describe('GetAvailableSlotsUseCase across DST', () => {
+  const doctor = createDoctor({
+    timeZone: NEW_YORK,
+    visitTypes: HOUR_VISITS,
+    weeklyAvailability: [{ id: 'sun', weekday: 0, startTime: '09:00', endTime: '11:00' }]
+  });
+
+  it('generates slots at the same clinic time before and after the transition', async () => {
+    const useCase = createSlotsUseCase(doctor);
+
+    const before = await useCase.execute('doctor-1', '2030-03-03T00:00:00.000Z', '2030-03-04T12:00:00.000Z', {
+      startIntervalMinutes: 60
+    });
+    const after = await useCase.execute('doctor-1', '2030-03-10T00:00:00.000Z', '2030-03-11T12:00:00.000Z', {
+      startIntervalMinutes: 60
+    });
+
+    expect(before.map(slot => slot.startISO)).toEqual([
+      '2030-03-03T14:00:00.000Z',
+      '2030-03-03T15:00:00.000Z'
+    ]);
+    expect(after.map(slot => slot.startISO)).toEqual([
+      '2030-03-10T13:00:00.000Z',
+      '2030-03-10T14:00:00.000Z'
+    ]);
+  });
+
+  it('only offers the real hours of a block that spans the skipped hour', async () => {
+    const overnight = createDoctor({
+      timeZone: NEW_YORK,
+      visitTypes: HOUR_VISITS,
+      weeklyAvailability: [{ id: 'sun', weekday: 0, startTime: '01:00', endTime: '04:00' }]
+    });
+
+    const slots = await createSlotsUseCase(overnight).execute(
+      'doctor-1',
+      '2030-03-10T00:00:00.000Z',
+      '2030-03-11T00:00:00.000Z',
+      { startIntervalMinutes: 60 }
+    );
+
+    // 01:00 EST and 03:00 EDT; 02:00 does not exist that night
+    expect(slots.map(slot => slot.startISO)).toEqual([
+      '2030-03-10T06:00:00.000Z',
+      '2030-03-10T07:00:00.000Z'
+    ]);
+  });
+
+  it('confirms slots against the clinic schedule', async () => {
+    const useCase = createSlotsUseCase(doctor);
+
+    await expect(useCase.checkSlot('doctor-1', '2030-03-10T13:00:00.000Z')).resolves.toEqual({ available: true });
+    await expect(useCase.checkSlot('doctor-1', '2030-03-10T14:30:00.000Z')).resolves.toEqual({
+      available: false,
+      reason: 'outside_availability'
+    });
+  });
+});
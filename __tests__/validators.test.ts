@@ -0,0 +1,151 @@
+/**
+ * @format
+ */
+
+import { Appointment } from '../src/domain/entities/Appointment';
+import {
+  isValidDateString,
+  isValidISODateTime,
+  isValidTime,
+  validateAppointment,
+  validateAppointmentCreate,
+  validateAvailability,
+  validateDoctor,
+  validateImportedAppointment
+} from '../src/domain/validation/validators';
+import { createDoctor } from './helpers/fixtures';
+
+const STATUSES = 'requested, confirmed, checked_in, in_progress, completed, no_show, cancelled';
+
+function createAppointment(overrides: Partial<Appointment> = {}): Appointment {
+  return {
+    id: 'appointment-1',
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: 'owner-1',
+    ownerName: 'Ann Smith',
+    petId: 'pet-1',
+    petName: 'Rex',
+    startDateISO: '2030-11-01T13:00:00.000Z',
+    endDateISO: '2030-11-01T13:30:00.000Z',
+    status: 'confirmed',
+    ...overrides
+  };
+}
+
+describe('field checks', () => {
+  test('accepts 24-hour times only', () => {
+    expect(['00:00', '09:30', '23:59'].every(isValidTime)).toBe(true);
+    expect(['24:00', '9:30', '09:60', '9am', 930, undefined].some(isValidTime)).toBe(false);
+  });
+
+  test('requires a timezone on date-times', () => {
+    expect(isValidISODateTime('2030-01-07T09:00:00.000Z')).toBe(true);
+    expect(isValidISODateTime('2030-01-07T09:00+02:00')).toBe(true);
+    expect(isValidISODateTime('2030-01-07T09:00:00')).toBe(false);
+    expect(isValidISODateTime('2030-13-07T09:00:00Z')).toBe(false);
+  });
+
+  test('rejects calendar dates that roll over', () => {
+    expect(isValidDateString('2032-02-29')).toBe(true);
+    expect(isValidDateString('2030-02-29')).toBe(false);
+    expect(isValidDateString('2030-2-01')).toBe(false);
+  });
+});
+
+describe('validateDoctor', () => {
+  test('accepts a complete doctor', () => {
+    expect(validateDoctor(createDoctor({
+      visitTypes: [{ id: 'checkup', name: 'Check-up', durationMinutes: 30, bufferBeforeMinutes: 0, bufferAfterMinutes: 5 }],
+      availabilityExceptions: [{ id: 'holiday', type: 'block', startDate: '2030-12-24', endDate: '2030-12-26' }],
+      timeZone: 'Europe/Berlin'
+    }))).toEqual([]);
+  });
+
+  test('reports every problem with its path', () => {
+    expect(validateDoctor(createDoctor({
+      name: ' ',
+      specialties: ['Surgery', ''],
+      weeklyAvailability: [{ id: 'a', weekday: 7, startTime: '17:00', endTime: '09:00' }],
+      visitTypes: [{ id: 'checkup', name: 'Check-up', durationMinutes: 0, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 }],
+      availabilityExceptions: [{ id: 'extra', type: 'extra', startDate: '2030-12-26', endDate: '2030-12-24' }],
+      bufferAfterMinutes: -5,
+      timeZone: 'Mars/Olympus_Mons'
+    }))).toEqual([
+      'name is required',
+      'specialties must be a list of names',
+      'weeklyAvailability[0].weekday must be a whole number from 0 (Sunday) to 6 (Saturday)',
+      'weeklyAvailability[0].endTime must be after startTime',
+      'visitTypes[0].durationMinutes must be a number above 0',
+      'availabilityExceptions[0].endDate must not be before startDate',
+      'availabilityExceptions[0].startTime must be in HH:MM format',
+      'availabilityExceptions[0].endTime must be in HH:MM format',
+      'bufferAfterMinutes must be a number of at least 0',
+      'timeZone must be an IANA timezone, e.g. "America/New_York"'
+    ]);
+  });
+
+  test('rejects values that are not doctors', () => {
+    expect(validateDoctor(null)).toEqual(['doctor must be an object']);
+    expect(validateDoctor(createDoctor({ weeklyAvailability: 'Mondays' as never }))).toEqual([
+      'weeklyAvailability must be a list'
+    ]);
+  });
+
+  test('checks recurrence rules on availability', () => {
+    const block = { id: 'a', weekday: 1, startTime: '09:00', endTime: '17:00' };
+    expect(validateAvailability({ ...block, rrule: 'FREQ=WEEKLY;BYDAY=MO' })).toEqual([]);
+    expect(validateAvailability({ ...block, rrule: 'every monday' })).toEqual(['rrule is not a valid recurrence rule']);
+  });
+});
+
+describe('validateAppointment', () => {
+  test('accepts a complete appointment', () => {
+    expect(validateAppointment(createAppointment({
+      history: [{ id: 'h1', type: 'created', changedAt: '2030-10-01T10:00:00.000Z', changedBy: 'owner-1' }],
+      version: 2
+    }))).toEqual([]);
+  });
+
+  test('reports missing links, bad times and an unknown status', () => {
+    expect(validateAppointment(createAppointment({
+      petId: '',
+      endDateISO: '2030-11-01T12:00:00.000Z',
+      status: 'scheduled' as never
+    }))).toEqual([
+      'petId is required',
+      'endDateISO must be after startDateISO',
+      `status must be one of ${STATUSES}`
+    ]);
+  });
+
+  test('checks each history entry by its type', () => {
+    expect(validateAppointment(createAppointment({
+      history: [
+        { id: 'h1', type: 'statusChanged', changedAt: '2030-10-01T10:00:00.000Z', changedBy: 'owner-1', from: 'requested', to: 'gone' as never },
+        { id: 'h2', type: 'moved' as never, changedAt: 'yesterday', changedBy: 'owner-1' }
+      ]
+    }))).toEqual([
+      `history[0].to must be one of ${STATUSES}`,
+      'history[1].changedAt must be an ISO 8601 date and time',
+      'history[1].type must be one of created, rescheduled, statusChanged, notesChanged'
+    ]);
+  });
+
+  test('only checks the fields a booking or a calendar event carries', () => {
+    const booking: Partial<Appointment> = createAppointment();
+    delete booking.id;
+    delete booking.status;
+    expect(validateAppointmentCreate(booking)).toEqual([]);
+    expect(validateAppointment(booking)).toEqual([
+      'id is required',
+      `status must be one of ${STATUSES}`
+    ]);
+
+    expect(validateImportedAppointment({
+      startDateISO: booking.startDateISO,
+      endDateISO: booking.endDateISO,
+      petName: 'Rex'
+    })).toEqual([]);
+  });
+});
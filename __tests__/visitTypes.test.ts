@@ -0,0 +1,119 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Doctor } from '../src/domain/entities/Doctor';
+import { Actor } from '../src/domain/entities/User';
+import { STANDARD_VISIT_TYPE } from '../src/domain/entities/VisitType';
+import { findDoctorVisitType, getDoctorVisitTypes } from '../src/shared/utils/visitTypes';
+import { createDoctor, silenceConsole } from './helpers/fixtures';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+
+// 2030-01-07 is a Monday; the doctor works 09:00-12:00 UTC on Mondays
+const MONDAY = { from: '2030-01-07T00:00:00.000Z', to: '2030-01-07T23:59:59.000Z' };
+
+const SURGEON: Partial<Doctor> = {
+  specialties: ['Surgery'],
+  weeklyAvailability: [{ id: 'mon', weekday: 1, startTime: '09:00', endTime: '12:00' }],
+  visitTypes: [
+    { id: 'vaccination', name: 'Vaccination', durationMinutes: 15, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+    {
+      id: 'surgery',
+      name: 'Surgery Consult',
+      durationMinutes: 60,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
+      requiredSpecialty: 'Surgery'
+    },
+    {
+      id: 'dental',
+      name: 'Dental Cleaning',
+      durationMinutes: 45,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0,
+      requiredSpecialty: 'Dentistry'
+    }
+  ]
+};
+
+let container: AppContainer;
+
+beforeEach(async () => {
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.createDoctor(createDoctor(SURGEON));
+});
+
+afterEach(() => {
+  jest.restoreAllMocks();
+});
+
+const startTimes = async (visitTypeId: string) =>
+  (await container.getAvailableSlotsUseCase.execute('doctor-1', MONDAY.from, MONDAY.to, { visitTypeId }))
+    .map(slot => `${slot.startISO.slice(11, 16)}-${slot.endISO.slice(11, 16)}`);
+
+const book = (visitTypeId: string | undefined, startISO: string, endISO: string) =>
+  container.bookAppointmentUseCase.execute({
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: 'owner-1',
+    ownerName: 'Ann Smith',
+    petId: 'pet-1',
+    petName: 'Rex',
+    visitTypeId,
+    startDateISO: startISO,
+    endDateISO: endISO
+  }, ADMIN);
+
+describe('visit types', () => {
+  test('leave out visit types needing a specialty the doctor lacks', () => {
+    const doctor = createDoctor(SURGEON);
+
+    expect(getDoctorVisitTypes(doctor).map(visitType => visitType.id)).toEqual(['vaccination', 'surgery']);
+    expect(findDoctorVisitType(doctor, 'dental')).toBeNull();
+    expect(findDoctorVisitType(doctor)?.id).toBe('vaccination');
+    expect(getDoctorVisitTypes(createDoctor({ ...SURGEON, visitTypes: undefined }))).toEqual([STANDARD_VISIT_TYPE]);
+  });
+
+  test('size slots by the visit type and start them every 15 minutes', async () => {
+    silenceConsole('error');
+
+    const vaccinations = await startTimes('vaccination');
+    const surgeries = await startTimes('surgery');
+
+    expect(vaccinations).toHaveLength(12);
+    expect(vaccinations.slice(0, 2)).toEqual(['09:00-09:15', '09:15-09:30']);
+    expect(vaccinations[vaccinations.length - 1]).toBe('11:45-12:00');
+    expect(surgeries).toEqual([
+      '09:00-10:00', '09:15-10:15', '09:30-10:30', '09:45-10:45',
+      '10:00-11:00', '10:15-11:15', '10:30-11:30', '10:45-11:45', '11:00-12:00'
+    ]);
+    await expect(startTimes('dental')).rejects.toThrow('Visit type dental is not offered by Dr. Jane Test, DVM');
+  });
+
+  test('check the booked length against the visit type', async () => {
+    expect(await book('surgery', '2030-01-07T09:00:00.000Z', '2030-01-07T09:30:00.000Z')).toEqual({
+      success: false,
+      error: 'Surgery Consult appointments must be 60 minutes long'
+    });
+    expect(await book('dental', '2030-01-07T09:00:00.000Z', '2030-01-07T09:45:00.000Z')).toEqual({
+      success: false,
+      error: 'This visit type is not offered by Dr. Jane Test, DVM'
+    });
+
+    const booked = await book('surgery', '2030-01-07T09:00:00.000Z', '2030-01-07T10:00:00.000Z');
+    expect(booked.appointment).toMatchObject({ visitTypeId: 'surgery', visitTypeName: 'Surgery Consult' });
+    expect(await book(undefined, '2030-01-07T10:00:00.000Z', '2030-01-07T10:15:00.000Z'))
+      .toMatchObject({ success: true, appointment: { visitTypeId: 'vaccination' } });
+  });
+
+  test('keep a shorter visit out of a longer booked one', async () => {
+    await book('surgery', '2030-01-07T09:00:00.000Z', '2030-01-07T10:00:00.000Z');
+
+    expect((await startTimes('vaccination'))[0]).toBe('10:00-10:15');
+    expect(await book('vaccination', '2030-01-07T09:30:00.000Z', '2030-01-07T09:45:00.000Z'))
+      .toMatchObject({ success: false, error: 'Slot already booked' });
+  });
+});
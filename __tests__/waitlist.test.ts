@@ -0,0 +1,195 @@
+/**
+ * @format
+ */
+
+import { AppContainer, createContainer } from '../src/di/container';
+import { InMemoryDataSource } from '../src/data/datasources/InMemoryDataSource';
+import { Actor } from '../src/domain/entities/User';
+import { createDoctor } from './helpers/fixtures';
+
+const ADMIN: Actor = { userId: 'admin-1', role: 'clinic_admin' };
+const ANN: Actor = { userId: 'user-ann', role: 'owner', ownerId: 'owner-ann' };
+const BO: Actor = { userId: 'user-bo', role: 'owner', ownerId: 'owner-bo' };
+
+// A Sunday; the doctor works 09:00-10:00 UTC on Mondays and is fully booked on 2030-01-07
+const NOW = new Date('2030-01-06T12:00:00.000Z');
+const MONDAY = { from: '2030-01-07T00:00:00.000Z', to: '2030-01-07T23:59:59.000Z' };
+
+let container: AppContainer;
+let freedAppointmentId: string;
+
+const book = async (start: string, end: string) =>
+  (await container.bookAppointmentUseCase.execute({
+    doctorId: 'doctor-1',
+    doctorName: 'Dr. Jane Test, DVM',
+    ownerId: 'owner-other',
+    ownerName: 'Cy Other',
+    petId: 'pet-other',
+    petName: 'Max',
+    startDateISO: `2030-01-07T${start}:00.000Z`,
+    endDateISO: `2030-01-07T${end}:00.000Z`
+  }, ADMIN)).appointment!;
+
+/**
+ * Puts an owner on the waitlist a minute after the previous one
+ */
+const join = async (actor: Actor, ownerName: string, petName: string, fromDate = '2030-01-07') => {
+  jest.setSystemTime(Date.now() + 60 * 1000);
+  return (await container.manageWaitlistUseCase.join({
+    doctorId: 'doctor-1',
+    ownerId: actor.ownerId!,
+    ownerName,
+    petId: `pet-${petName.toLowerCase()}`,
+    petName,
+    visitTypeId: 'standard',
+    fromDate,
+    toDate: '2030-01-11'
+  }, actor)).entry!;
+};
+
+const getEntry = async (id: string) => (await container.waitlistRepository.getWaitlistEntryById(id))!;
+
+const startTimes = async (holdId?: string) =>
+  (await container.getAvailableSlotsUseCase.execute('doctor-1', MONDAY.from, MONDAY.to, { holdId }))
+    .map(slot => slot.startISO.slice(11, 16));
+
+beforeEach(async () => {
+  jest.useFakeTimers({ now: NOW, doNotFake: ['nextTick', 'setImmediate'] });
+
+  container = createContainer(new InMemoryDataSource());
+  await container.appointmentRepository.createDoctor(createDoctor());
+  freedAppointmentId = (await book('09:00', '09:30')).id;
+  await book('09:30', '10:00');
+});
+
+afterEach(() => {
+  jest.useRealTimers();
+});
+
+describe('waitlist', () => {
+  test('offers a cancelled slot to the first owner in line and holds it for them', async () => {
+    const annEntry = await join(ANN, 'Ann Smith', 'Rex');
+    const boEntry = await join(BO, 'Bo Jones', 'Bella');
+
+    await container.cancelAppointmentUseCase.execute(freedAppointmentId, ADMIN);
+
+    const offered = await getEntry(annEntry.id);
+    expect(offered).toMatchObject({
+      status: 'offered',
+      offer: {
+        startISO: '2030-01-07T09:00:00.000Z',
+        endISO: '2030-01-07T09:30:00.000Z',
+        expiresAt: '2030-01-06T13:02:00.000Z'
+      }
+    });
+    expect(await getEntry(boEntry.id)).toMatchObject({ status: 'waiting' });
+    expect(await container.slotHoldRepository.getHoldById(offered.offer!.holdId))
+      .toMatchObject({ ownerId: 'owner-ann', purpose: 'waitlist', waitlistEntryId: annEntry.id });
+    expect(await container.notificationRepository.getNotificationsByOwner('owner-ann'))
+      .toEqual([expect.objectContaining({ type: 'waitlist_offer', title: 'A slot opened up', waitlistEntryId: annEntry.id })]);
+
+    expect(await startTimes()).toEqual([]);
+    expect(await startTimes(offered.offer!.holdId)).toEqual(['09:00']);
+  });
+
+  test('books the held slot when the owner accepts', async () => {
+    const annEntry = await join(ANN, 'Ann Smith', 'Rex');
+    await container.cancelAppointmentUseCase.execute(freedAppointmentId, ADMIN);
+    const { offer } = await getEntry(annEntry.id);
+
+    expect(await container.manageWaitlistUseCase.acceptOffer(annEntry.id, BO))
+      .toEqual({ success: false, error: 'Not authorized to manage this waitlist entry' });
+
+    const result = await container.manageWaitlistUseCase.acceptOffer(annEntry.id, ANN);
+
+    expect(result.appointment).toMatchObject({ ownerId: 'owner-ann', startDateISO: '2030-01-07T09:00:00.000Z' });
+    expect(await getEntry(annEntry.id)).toMatchObject({ status: 'booked', appointmentId: result.appointment!.id });
+    expect(await container.slotHoldRepository.getHoldById(offer!.holdId)).toBeNull();
+    expect(await container.manageWaitlistUseCase.acceptOffer(annEntry.id, ANN))
+      .toEqual({ success: false, error: 'There is no open offer for this waitlist entry' });
+  });
+
+  test('passes a declined slot to the next owner in line', async () => {
+    const annEntry = await join(ANN, 'Ann Smith', 'Rex');
+    const boEntry = await join(BO, 'Bo Jones', 'Bella');
+    await container.cancelAppointmentUseCase.execute(freedAppointmentId, ADMIN);
+
+    expect((await container.manageWaitlistUseCase.declineOffer(annEntry.id, ANN)).success).toBe(true);
+
+    const declined = await getEntry(annEntry.id);
+    expect(declined.status).toBe('waiting');
+    expect(declined.offer).toBeUndefined();
+    expect(await getEntry(boEntry.id))
+      .toMatchObject({ status: 'offered', offer: { startISO: '2030-01-07T09:00:00.000Z' } });
+  });
+
+  test('passes the slot on when an offer is not confirmed in time', async () => {
+    const annEntry = await join(ANN, 'Ann Smith', 'Rex');
+    const boEntry = await join(BO, 'Bo Jones', 'Bella');
+    await container.cancelAppointmentUseCase.execute(freedAppointmentId, ADMIN);
+
+    jest.setSystemTime(new Date('2030-01-06T13:01:00.000Z'));
+    expect(await container.manageWaitlistUseCase.expireOffers()).toBe(0);
+
+    jest.setSystemTime(new Date('2030-01-06T13:02:00.000Z'));
+    expect(await container.manageWaitlistUseCase.expireOffers()).toBe(1);
+
+    expect(await getEntry(annEntry.id)).toMatchObject({ status: 'expired' });
+    expect((await container.notificationRepository.getNotificationsByOwner('owner-ann')).map(notification => notification.type))
+      .toContain('waitlist_offer_expired');
+    expect(await getEntry(boEntry.id)).toMatchObject({ status: 'offered' });
+    expect(await container.manageWaitlistUseCase.acceptOffer(annEntry.id, ANN))
+      .toEqual({ success: false, error: 'This offer has expired' });
+  });
+
+  test('skips owners whose dates do not include the freed slot', async () => {
+    const lateEntry = await join(ANN, 'Ann Smith', 'Rex', '2030-01-08');
+    const boEntry = await join(BO, 'Bo Jones', 'Bella');
+
+    await container.cancelAppointmentUseCase.execute(freedAppointmentId, ADMIN);
+
+    expect(await getEntry(lateEntry.id)).toMatchObject({ status: 'waiting' });
+    expect(await getEntry(boEntry.id)).toMatchObject({ status: 'offered' });
+  });
+
+  test('keeps every change when entries and notifications are written at the same time', async () => {
+    const annEntry = await join(ANN, 'Ann Smith', 'Rex');
+    const boEntry = await join(BO, 'Bo Jones', 'Bella');
+
+    await Promise.all([
+      container.waitlistRepository.updateWaitlistEntry({ ...annEntry, status: 'cancelled' }),
+      container.waitlistRepository.updateWaitlistEntry({ ...boEntry, status: 'cancelled' })
+    ]);
+    expect(await getEntry(annEntry.id)).toMatchObject({ status: 'cancelled' });
+    expect(await getEntry(boEntry.id)).toMatchObject({ status: 'cancelled' });
+
+    const notification = {
+      ownerId: 'owner-ann',
+      type: 'waitlist_offer' as const,
+      title: 'A slot opened up',
+      message: 'Rex can be seen on Monday',
+      read: false,
+      createdAt: new Date().toISOString()
+    };
+    await Promise.all([
+      container.notificationRepository.createNotification({ ...notification, id: 'notification-1' }),
+      container.notificationRepository.createNotification({ ...notification, id: 'notification-2' }),
+      container.notificationRepository.markNotificationsRead('owner-ann')
+    ]);
+    expect((await container.notificationRepository.getNotificationsByOwner('owner-ann')).map(({ id }) => id).sort())
+      .toEqual(['notification-1', 'notification-2']);
+  });
+
+  test('only lets owners join for themselves', async () => {
+    expect(await container.manageWaitlistUseCase.join({
+      doctorId: 'doctor-1',
+      ownerId: 'owner-ann',
+      ownerName: 'Ann Smith',
+      petId: 'pet-rex',
+      petName: 'Rex',
+      visitTypeId: 'standard',
+      fromDate: '2030-01-07',
+      toDate: '2030-01-11'
+    }, BO)).toEqual({ success: false, error: 'Not authorized to join the waitlist for this owner' });
+  });
+});
@@ -1,5 +1,6 @@
 module.exports = {
   preset: 'react-native',
+  testPathIgnorePatterns: ['/node_modules/', '<rootDir>/__tests__/helpers/'],
   transformIgnorePatterns: [
     'node_modules/(?!(react-native|@react-native|@react-navigation|uuid)/)',
   ],
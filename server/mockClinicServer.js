@@ -0,0 +1,102 @@
+/**
+ * Mock clinic sync server for development and tests
+ * Implements the REST contract in src/data/sync/SyncApi.ts and keeps
+ * everything in memory. Run with `npm run sync-server`; PORT defaults to 4000.
+ *
+ * @format
+ */
+
+const http = require('http');
+
+const keyOf = change => `${change.collection}:${change.id}`;
+
+const sendJson = (response, status, body) => {
+  response.writeHead(status, { 'Content-Type': 'application/json' });
+  response.end(JSON.stringify(body));
+};
+
+const readJson = request =>
+  new Promise((resolve, reject) => {
+    let body = '';
+    request.on('data', chunk => {
+      body += chunk;
+    });
+    request.on('end', () => {
+      try {
+        resolve(body ? JSON.parse(body) : {});
+      } catch (error) {
+        reject(error);
+      }
+    });
+    request.on('error', reject);
+  });
+
+/**
+ * Creates a server holding the latest accepted change of each record
+ * @returns http.Server - Not yet listening
+ */
+function createMockClinicServer() {
+  const latest = new Map(); // Record key -> { seq, change }
+  let seq = 0;
+
+  const pull = since =>
+    Array.from(latest.values())
+      .filter(entry => entry.seq > since)
+      .sort((a, b) => a.seq - b.seq)
+      .map(entry => entry.change);
+
+  const push = changes =>
+    changes.map(change => {
+      const stored = latest.get(keyOf(change));
+      const result = { collection: change.collection, id: change.id };
+
+      // Last write wins; the client merges when told its write is stale
+      if (stored && stored.change.updatedAt > change.updatedAt) {
+        return { ...result, status: 'stale', current: stored.change };
+      }
+
+      seq += 1;
+      latest.set(keyOf(change), { seq, change });
+      return { ...result, status: 'applied' };
+    });
+
+  return http.createServer(async (request, response) => {
+    const url = new URL(request.url, 'http://localhost');
+
+    if (url.pathname !== '/sync/changes') {
+      sendJson(response, 404, { error: 'Not found' });
+      return;
+    }
+
+    if (request.method === 'GET') {
+      const since = Number(url.searchParams.get('since') || 0);
+      sendJson(response, 200, { changes: pull(since), cursor: seq });
+      return;
+    }
+
+    if (request.method === 'POST') {
+      try {
+        const body = await readJson(request);
+        if (!Array.isArray(body.changes)) {
+          sendJson(response, 400, { error: 'Expected { changes: [] }' });
+          return;
+        }
+        sendJson(response, 200, { results: push(body.changes) });
+      } catch (error) {
+        sendJson(response, 400, { error: 'Invalid JSON' });
+      }
+      return;
+    }
+
+    sendJson(response, 405, { error: 'Method not allowed' });
+  });
+}
+
+module.exports = { createMockClinicServer };
+
+if (require.main === module) {
+  const port = Number(process.env.PORT || 4000);
+  createMockClinicServer().listen(port, () => {
+    console.log(`Mock clinic sync server listening on http://localhost:${port}`);
+  });
+}
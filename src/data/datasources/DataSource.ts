@@ -0,0 +1,119 @@
+import { Doctor } from '../../domain/entities/Doctor';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { UserAccount } from '../../domain/entities/User';
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { AppNotification } from '../../domain/entities/Notification';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { BusyBlock } from '../../domain/entities/BusyBlock';
+import { QuarantinedRecord } from '../../domain/entities/QuarantinedRecord';
+import { CommandConflict, PendingCommand } from '../../domain/entities/PendingCommand';
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import { SyncState } from '../sync/SyncState';
+
+/**
+ * Stands in for a stored record that could not be parsed
+ * Readers return it in the record's place, so the repositories can quarantine
+ * the stored text instead of the record silently disappearing.
+ */
+export interface UnreadableRecord {
+  unreadable: true;
+  key: string; // Where the data is stored
+  recordId?: string; // ID of the record, when the storage location names it
+  data: string; // The stored text
+  error: string; // Why it could not be read
+}
+
+export type StoredRecord<T> = T | UnreadableRecord;
+
+export const isUnreadableRecord = (value: unknown): value is UnreadableRecord =>
+  typeof value === 'object' && value !== null && (value as { unreadable?: unknown }).unreadable === true;
+
+/**
+ * Leaves out the records that could not be read
+ */
+export const readableRecords = <T>(records: Array<StoredRecord<T>>): T[] =>
+  records.filter((record): record is T => !isUnreadableRecord(record));
+
+/**
+ * Storage the repositories read and write through
+ * Implementations: LocalStorageDataSource (AsyncStorage, the app's default),
+ * InMemoryDataSource (tests and demos) and SqlDataSource (SQLite-style
+ * databases, for larger datasets).
+ */
+export interface DataSource {
+  // Write coordination
+  /**
+   * Runs a read-modify-write task once every previously queued task has finished
+   * A task must not queue another task, or it waits on itself forever.
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T>;
+
+  // Doctor operations
+  // Collection readers return an UnreadableRecord for each record that could
+  // not be parsed, or one for a whole list
+  getDoctors(): Promise<Array<StoredRecord<Doctor>>>;
+  saveDoctors(doctors: Doctor[]): Promise<void>;
+
+  // Appointment operations
+  getAppointments(): Promise<Array<StoredRecord<Appointment>>>;
+  getAppointmentById(id: string): Promise<StoredRecord<Appointment> | null>;
+  getAppointmentsByDoctor(doctorId: string): Promise<Array<StoredRecord<Appointment>>>;
+  /**
+   * Appointments that may touch a time range, optionally only one doctor's
+   * The result can include appointments just outside the range; callers filter exactly.
+   */
+  getAppointmentsInRange(
+    startISO: string,
+    endISO: string,
+    doctorId?: string
+  ): Promise<Array<StoredRecord<Appointment>>>;
+  saveAppointments(appointments: Appointment[]): Promise<void>; // Creates or replaces each appointment
+  saveAppointment(appointment: Appointment): Promise<void>;
+  deleteAppointment(id: string): Promise<void>;
+
+  // Pet, owner and account operations
+  getPets(): Promise<Array<StoredRecord<Pet>>>;
+  savePets(pets: Pet[]): Promise<void>;
+  getOwners(): Promise<Array<StoredRecord<Owner>>>;
+  saveOwners(owners: Owner[]): Promise<void>;
+  getUsers(): Promise<Array<StoredRecord<UserAccount>>>;
+  saveUsers(users: UserAccount[]): Promise<void>;
+
+  // Waitlist, notification, slot hold and busy block operations
+  getWaitlist(): Promise<Array<StoredRecord<WaitlistEntry>>>;
+  saveWaitlist(entries: WaitlistEntry[]): Promise<void>;
+  getNotifications(): Promise<Array<StoredRecord<AppNotification>>>;
+  saveNotifications(notifications: AppNotification[]): Promise<void>;
+  getSlotHolds(): Promise<Array<StoredRecord<SlotHold>>>;
+  saveSlotHolds(holds: SlotHold[]): Promise<void>;
+  getBusyBlocks(): Promise<Array<StoredRecord<BusyBlock>>>;
+  saveBusyBlocks(blocks: BusyBlock[]): Promise<void>;
+
+  // Quarantine operations
+  getQuarantinedRecords(): Promise<QuarantinedRecord[]>;
+  saveQuarantinedRecords(records: QuarantinedRecord[]): Promise<void>;
+
+  // Sync operations
+  getSyncState(): Promise<SyncState | null>; // Null until the first sync
+  saveSyncState(state: SyncState): Promise<void>;
+  getPendingCommands(): Promise<PendingCommand[]>;
+  savePendingCommands(commands: PendingCommand[]): Promise<void>;
+  getCommandConflicts(): Promise<CommandConflict[]>;
+  saveCommandConflicts(conflicts: CommandConflict[]): Promise<void>;
+
+  // Clinic settings
+  getClinicPolicy(): Promise<ClinicPolicy | null>; // Null until a clinic admin saves one
+  saveClinicPolicy(policy: ClinicPolicy): Promise<void>;
+
+  // Session operations
+  getSessionUserId(): Promise<string | null>;
+  setSessionUserId(userId: string | null): Promise<void>;
+
+  // Utility operations
+  isInitialized(): Promise<boolean>;
+  setInitialized(): Promise<void>;
+  seedInitialData(): Promise<void>; // Seeds the sample data once per store
+  clearAllData(): Promise<void>;
+}
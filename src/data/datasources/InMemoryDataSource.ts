@@ -0,0 +1,251 @@
+import { Doctor } from '../../domain/entities/Doctor';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { UserAccount } from '../../domain/entities/User';
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { AppNotification } from '../../domain/entities/Notification';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { BusyBlock } from '../../domain/entities/BusyBlock';
+import { QuarantinedRecord } from '../../domain/entities/QuarantinedRecord';
+import { CommandConflict, PendingCommand } from '../../domain/entities/PendingCommand';
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import { SyncState } from '../sync/SyncState';
+import { DataSource } from './DataSource';
+import { seedSampleData } from './sampleData';
+
+/**
+ * Copies a record through JSON, like a round trip through storage would
+ * Callers can change what they read or saved without changing the stored copy.
+ */
+const copy = <T>(value: T): T => JSON.parse(JSON.stringify(value));
+
+/**
+ * Data source that keeps everything in memory, for tests and demos
+ * Nothing survives a reload. Records are copied on the way in and out, so it
+ * behaves like persisted storage rather than shared objects.
+ */
+export class InMemoryDataSource implements DataSource {
+  // Tail of the queue of read-modify-write tasks; see runExclusive
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  private doctors: Doctor[] = [];
+  private appointments = new Map<string, Appointment>();
+  private pets: Pet[] = [];
+  private owners: Owner[] = [];
+  private users: UserAccount[] = [];
+  private waitlist: WaitlistEntry[] = [];
+  private notifications: AppNotification[] = [];
+  private slotHolds: SlotHold[] = [];
+  private busyBlocks: BusyBlock[] = [];
+  private quarantinedRecords: QuarantinedRecord[] = [];
+  private syncState: SyncState | null = null;
+  private pendingCommands: PendingCommand[] = [];
+  private commandConflicts: CommandConflict[] = [];
+  private clinicPolicy: ClinicPolicy | null = null;
+  private sessionUserId: string | null = null;
+  private initialized = false;
+
+  // Write coordination
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  // Doctor operations
+  async getDoctors(): Promise<Doctor[]> {
+    return copy(this.doctors);
+  }
+
+  async saveDoctors(doctors: Doctor[]): Promise<void> {
+    this.doctors = copy(doctors);
+  }
+
+  // Appointment operations
+  async getAppointments(): Promise<Appointment[]> {
+    return copy(Array.from(this.appointments.values()));
+  }
+
+  async getAppointmentById(id: string): Promise<Appointment | null> {
+    const appointment = this.appointments.get(id);
+    return appointment ? copy(appointment) : null;
+  }
+
+  async getAppointmentsByDoctor(doctorId: string): Promise<Appointment[]> {
+    const appointments = Array.from(this.appointments.values());
+    return copy(appointments.filter(appointment => appointment.doctorId === doctorId));
+  }
+
+  async getAppointmentsInRange(startISO: string, endISO: string, doctorId?: string): Promise<Appointment[]> {
+    const start = new Date(startISO).getTime();
+    const end = new Date(endISO).getTime();
+    const appointments = Array.from(this.appointments.values());
+
+    return copy(appointments.filter(appointment =>
+      (!doctorId || appointment.doctorId === doctorId) &&
+      new Date(appointment.startDateISO).getTime() <= end &&
+      new Date(appointment.endDateISO).getTime() >= start
+    ));
+  }
+
+  async saveAppointments(appointments: Appointment[]): Promise<void> {
+    appointments.forEach(appointment => this.appointments.set(appointment.id, copy(appointment)));
+  }
+
+  async saveAppointment(appointment: Appointment): Promise<void> {
+    await this.saveAppointments([appointment]);
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    this.appointments.delete(id);
+  }
+
+  // Pet operations
+  async getPets(): Promise<Pet[]> {
+    return copy(this.pets);
+  }
+
+  async savePets(pets: Pet[]): Promise<void> {
+    this.pets = copy(pets);
+  }
+
+  // Owner operations
+  async getOwners(): Promise<Owner[]> {
+    return copy(this.owners);
+  }
+
+  async saveOwners(owners: Owner[]): Promise<void> {
+    this.owners = copy(owners);
+  }
+
+  // User account operations
+  async getUsers(): Promise<UserAccount[]> {
+    return copy(this.users);
+  }
+
+  async saveUsers(users: UserAccount[]): Promise<void> {
+    this.users = copy(users);
+  }
+
+  // Waitlist operations
+  async getWaitlist(): Promise<WaitlistEntry[]> {
+    return copy(this.waitlist);
+  }
+
+  async saveWaitlist(entries: WaitlistEntry[]): Promise<void> {
+    this.waitlist = copy(entries);
+  }
+
+  // Notification operations
+  async getNotifications(): Promise<AppNotification[]> {
+    return copy(this.notifications);
+  }
+
+  async saveNotifications(notifications: AppNotification[]): Promise<void> {
+    this.notifications = copy(notifications);
+  }
+
+  // Slot hold operations
+  async getSlotHolds(): Promise<SlotHold[]> {
+    return copy(this.slotHolds);
+  }
+
+  async saveSlotHolds(holds: SlotHold[]): Promise<void> {
+    this.slotHolds = copy(holds);
+  }
+
+  // Busy block operations
+  async getBusyBlocks(): Promise<BusyBlock[]> {
+    return copy(this.busyBlocks);
+  }
+
+  async saveBusyBlocks(blocks: BusyBlock[]): Promise<void> {
+    this.busyBlocks = copy(blocks);
+  }
+
+  // Quarantine operations
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    return copy(this.quarantinedRecords);
+  }
+
+  async saveQuarantinedRecords(records: QuarantinedRecord[]): Promise<void> {
+    this.quarantinedRecords = copy(records);
+  }
+
+  // Sync operations
+  async getSyncState(): Promise<SyncState | null> {
+    return this.syncState ? copy(this.syncState) : null;
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    this.syncState = copy(state);
+  }
+
+  async getPendingCommands(): Promise<PendingCommand[]> {
+    return copy(this.pendingCommands);
+  }
+
+  async savePendingCommands(commands: PendingCommand[]): Promise<void> {
+    this.pendingCommands = copy(commands);
+  }
+
+  async getCommandConflicts(): Promise<CommandConflict[]> {
+    return copy(this.commandConflicts);
+  }
+
+  async saveCommandConflicts(conflicts: CommandConflict[]): Promise<void> {
+    this.commandConflicts = copy(conflicts);
+  }
+
+  // Clinic settings
+  async getClinicPolicy(): Promise<ClinicPolicy | null> {
+    return this.clinicPolicy ? copy(this.clinicPolicy) : null;
+  }
+
+  async saveClinicPolicy(policy: ClinicPolicy): Promise<void> {
+    this.clinicPolicy = copy(policy);
+  }
+
+  // Session operations
+  async getSessionUserId(): Promise<string | null> {
+    return this.sessionUserId;
+  }
+
+  async setSessionUserId(userId: string | null): Promise<void> {
+    this.sessionUserId = userId;
+  }
+
+  // Initialization check
+  async isInitialized(): Promise<boolean> {
+    return this.initialized;
+  }
+
+  async setInitialized(): Promise<void> {
+    this.initialized = true;
+  }
+
+  // Utility operations
+  async seedInitialData(): Promise<void> {
+    await seedSampleData(this);
+  }
+
+  async clearAllData(): Promise<void> {
+    this.doctors = [];
+    this.appointments.clear();
+    this.pets = [];
+    this.owners = [];
+    this.users = [];
+    this.waitlist = [];
+    this.notifications = [];
+    this.slotHolds = [];
+    this.busyBlocks = [];
+    this.quarantinedRecords = [];
+    this.syncState = null;
+    this.pendingCommands = [];
+    this.commandConflicts = [];
+    this.clinicPolicy = null;
+    this.sessionUserId = null;
+    this.initialized = false;
+  }
+}
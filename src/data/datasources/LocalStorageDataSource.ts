@@ -1,27 +1,159 @@
 import AsyncStorage from '@react-native-async-storage/async-storage';
-// Use a simple UUID generator for React Native compatibility
-const generateUUID = () => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
 import { Doctor } from '../../domain/entities/Doctor';
-import { Appointment } from '../../domain/entities/Appointment';
-import { STORAGE_KEYS } from '../../shared/storageKeys';
-import { createWeeklyRRule, createBiWeeklyRRule } from '../../shared/utils/rruleHelpers';
+import { Appointment, AppointmentHistoryEntry, AppointmentStatus } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { UserAccount } from '../../domain/entities/User';
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { AppNotification } from '../../domain/entities/Notification';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { BusyBlock } from '../../domain/entities/BusyBlock';
+import { QuarantinedRecord } from '../../domain/entities/QuarantinedRecord';
+import { CommandConflict, PendingCommand } from '../../domain/entities/PendingCommand';
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import { SyncState } from '../sync/SyncState';
+import {
+  STORAGE_KEYS,
+  STORAGE_KEY_PREFIX,
+  appointmentKey,
+  appointmentsByDayKey,
+  appointmentsByDoctorKey,
+  migrationBackupKey
+} from '../../shared/storageKeys';
+import { DataSource, isUnreadableRecord, readableRecords, StoredRecord } from './DataSource';
+import { seedSampleData } from './sampleData';
+import { generateUUID } from '../../shared/utils/uuid';
+
+// Longest range looked up through the day index; longer ranges read the doctor index
+const MAX_INDEXED_RANGE_DAYS = 62;
+
+// How cancellations used to record their reason, at the end of the notes
+const LEGACY_CANCELLATION_REASON = /(?:^|\n)Cancellation reason: ([^\n]*)$/;
+
+// A status change as stored before appointments had a general history
+interface LegacyStatusChange {
+  from: AppointmentStatus;
+  to: AppointmentStatus;
+  changedAt: string;
+  changedBy: string;
+  reason?: string;
+}
+
+/**
+ * UTC calendar days (YYYY-MM-DD) touched by a time range, including the day of its end
+ */
+const getUtcDays = (startISO: string, endISO: string): string[] => {
+  const start = new Date(startISO);
+  const end = new Date(endISO);
+  const days: string[] = [];
+
+  const day = new Date(Date.UTC(start.getUTCFullYear(), start.getUTCMonth(), start.getUTCDate()));
+  while (day <= end) {
+    days.push(day.toISOString().slice(0, 10));
+    day.setUTCDate(day.getUTCDate() + 1);
+  }
+
+  return days;
+};
+
+/**
+ * Parses one stored value
+ * A value that is not valid JSON comes back as an UnreadableRecord, so it
+ * cannot hide the records read in the same batch and can be quarantined.
+ * @param key - Where the value is stored
+ * @param data - The stored text
+ * @param recordId - ID of the record stored there, when the key names it
+ */
+const parseStoredValue = <T>(key: string, data: string, recordId?: string): StoredRecord<T> => {
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    console.error(`Unreadable value stored under ${key}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return { unreadable: true, key, recordId, data, error: `Not valid JSON: ${reason}` };
+  }
+};
+
+/**
+ * Parses a list stored whole under one key
+ * A list that cannot be read comes back as a single UnreadableRecord.
+ */
+const parseStoredList = <T>(key: string, data: string | null): Array<StoredRecord<T>> => {
+  if (!data) {
+    return [];
+  }
+
+  const records = parseStoredValue<T[]>(key, data);
+  if (isUnreadableRecord(records)) {
+    return [records];
+  }
+
+  return Array.isArray(records) ? records : [{ unreadable: true, key, data, error: 'Not a list of records' }];
+};
+
+/**
+ * Returns a list a migration rewrites, or throws if any of it cannot be read
+ * Saving only the readable part would write over the rest; throwing lets the
+ * migration roll back instead.
+ */
+const requireReadable = <T>(records: Array<StoredRecord<T>>): T[] => {
+  const unreadable = records.find(isUnreadableRecord);
+  if (unreadable) {
+    throw new Error(`Cannot migrate ${unreadable.key}: ${unreadable.error}`);
+  }
+
+  return records as T[];
+};
+
+/**
+ * Parses a stored ID list, or returns null if it is not a list of IDs
+ */
+const parseIdList = (key: string, data: string): string[] | null => {
+  const ids = parseStoredValue<unknown>(key, data);
+  return Array.isArray(ids) && ids.every(id => typeof id === 'string') ? ids : null;
+};
+
+/**
+ * Whether a key holds app data, as opposed to the migration backup of it
+ */
+const isSnapshotKey = (key: string): boolean =>
+  key.startsWith(STORAGE_KEY_PREFIX) &&
+  key !== STORAGE_KEYS.MIGRATION_BACKUP &&
+  !key.startsWith(STORAGE_KEYS.MIGRATION_BACKUP_PREFIX);
+
+/**
+ * Index keys an appointment is listed under
+ */
+const getAppointmentIndexKeys = (appointment: Appointment): string[] => [
+  STORAGE_KEYS.APPOINTMENT_IDS,
+  appointmentsByDoctorKey(appointment.doctorId),
+  ...getUtcDays(appointment.startDateISO, appointment.endDateISO).map(appointmentsByDayKey)
+];
 
 /**
  * Local storage data source using AsyncStorage
  */
-export class LocalStorageDataSource {
+export class LocalStorageDataSource implements DataSource {
+  // Tail of the queue of read-modify-write tasks; see runExclusive
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  // Write coordination
+  /**
+   * Runs a read-modify-write task once every previously queued task has finished
+   * AsyncStorage has no transactions, so tasks that read a list, change it and save
+   * it back must be queued here or concurrent writers overwrite each other.
+   * A task must not queue another task, or it waits on itself forever.
+   */
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
   
   // Doctor operations
-  async getDoctors(): Promise<Doctor[]> {
+  async getDoctors(): Promise<Array<StoredRecord<Doctor>>> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.DOCTORS);
-      return data ? JSON.parse(data) : [];
+      return parseStoredList(STORAGE_KEYS.DOCTORS, await AsyncStorage.getItem(STORAGE_KEYS.DOCTORS));
     } catch (error) {
       console.error('Error getting doctors:', error);
       return [];
@@ -38,25 +170,496 @@ export class LocalStorageDataSource {
   }
 
   // Appointment operations
-  async getAppointments(): Promise<Appointment[]> {
+  // Each appointment is stored under its own key. ID lists index them by doctor
+  // and by every UTC day they touch, so lookups only read the records they need.
+  async getAppointments(): Promise<Array<StoredRecord<Appointment>>> {
+    const ids = await this.getIdList(STORAGE_KEYS.APPOINTMENT_IDS);
+    return await this.getAppointmentsByIds(ids);
+  }
+
+  async getAppointmentById(id: string): Promise<StoredRecord<Appointment> | null> {
     try {
-      const data = await AsyncStorage.getItem(STORAGE_KEYS.APPOINTMENTS);
-      return data ? JSON.parse(data) : [];
+      const key = appointmentKey(id);
+      const data = await AsyncStorage.getItem(key);
+      return data ? parseStoredValue<Appointment>(key, data, id) : null;
     } catch (error) {
-      console.error('Error getting appointments:', error);
+      console.error('Error getting appointment:', error);
+      return null;
+    }
+  }
+
+  async getAppointmentsByIds(ids: string[]): Promise<Array<StoredRecord<Appointment>>> {
+    if (ids.length === 0) {
       return [];
     }
+
+    try {
+      const entries = await AsyncStorage.multiGet(ids.map(appointmentKey));
+      return entries.flatMap(([key, data], index) =>
+        data ? [parseStoredValue<Appointment>(key, data, ids[index])] : []
+      );
+    } catch (error) {
+      // An empty result would look like a free calendar and let slots be booked twice
+      console.error('Error getting appointments:', error);
+      throw error;
+    }
   }
 
+  async getAppointmentsByDoctor(doctorId: string): Promise<Array<StoredRecord<Appointment>>> {
+    const ids = await this.getIdList(appointmentsByDoctorKey(doctorId));
+    return await this.getAppointmentsByIds(ids);
+  }
+
+  /**
+   * Gets appointments that may overlap a time range, optionally for one doctor
+   * Reads the day index for short ranges; callers still filter by exact times.
+   * @param startISO - Start of the range
+   * @param endISO - End of the range
+   * @param doctorId - Only return this doctor's appointments
+   */
+  async getAppointmentsInRange(
+    startISO: string,
+    endISO: string,
+    doctorId?: string
+  ): Promise<Array<StoredRecord<Appointment>>> {
+    // Scanning a long range day by day costs more than reading the wider index
+    const rangeMs = new Date(endISO).getTime() - new Date(startISO).getTime();
+    if (!(rangeMs <= MAX_INDEXED_RANGE_DAYS * 24 * 60 * 60 * 1000)) {
+      return doctorId ? await this.getAppointmentsByDoctor(doctorId) : readableRecords(await this.getAppointments());
+    }
+
+    const days = getUtcDays(startISO, endISO);
+    const dayEntries = await this.getIdLists(days.map(appointmentsByDayKey));
+    let ids = Array.from(new Set(dayEntries.flat()));
+
+    if (doctorId) {
+      const doctorIds = new Set(await this.getIdList(appointmentsByDoctorKey(doctorId)));
+      ids = ids.filter(id => doctorIds.has(id));
+    }
+
+    return await this.getAppointmentsByIds(ids);
+  }
+
+  /**
+   * Creates or replaces appointments and keeps the indexes in step
+   * Records and indexes are written in one multiSet.
+   */
   async saveAppointments(appointments: Appointment[]): Promise<void> {
+    if (appointments.length === 0) {
+      return;
+    }
+
     try {
-      await AsyncStorage.setItem(STORAGE_KEYS.APPOINTMENTS, JSON.stringify(appointments));
+      // An unreadable record's index entries cannot be found; readers skip the stale IDs
+      const previous = readableRecords(
+        await this.getAppointmentsByIds(appointments.map(appointment => appointment.id))
+      );
+      const previousById = new Map(previous.map(appointment => [appointment.id, appointment]));
+      const changes = new Map<string, { add: string[]; remove: string[] }>();
+
+      const change = (key: string) => {
+        let entry = changes.get(key);
+        if (!entry) {
+          entry = { add: [], remove: [] };
+          changes.set(key, entry);
+        }
+        return entry;
+      };
+
+      for (const appointment of appointments) {
+        const newKeys = getAppointmentIndexKeys(appointment);
+        const oldAppointment = previousById.get(appointment.id);
+        const oldKeys = oldAppointment ? getAppointmentIndexKeys(oldAppointment) : [];
+
+        oldKeys.filter(key => !newKeys.includes(key)).forEach(key => change(key).remove.push(appointment.id));
+        newKeys.forEach(key => change(key).add.push(appointment.id));
+      }
+
+      const indexPairs = await this.applyIdListChanges(changes);
+      const recordPairs: Array<[string, string]> = appointments.map(appointment => [
+        appointmentKey(appointment.id),
+        JSON.stringify(appointment)
+      ]);
+
+      await AsyncStorage.multiSet([...recordPairs, ...indexPairs]);
     } catch (error) {
       console.error('Error saving appointments:', error);
       throw error;
     }
   }
 
+  async saveAppointment(appointment: Appointment): Promise<void> {
+    await this.saveAppointments([appointment]);
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    try {
+      const appointment = await this.getAppointmentById(id);
+      if (!appointment) {
+        return;
+      }
+
+      if (isUnreadableRecord(appointment)) {
+        await AsyncStorage.removeItem(appointmentKey(id));
+        return;
+      }
+
+      const changes = new Map(getAppointmentIndexKeys(appointment).map(key => [
+        key,
+        { add: [] as string[], remove: [id] }
+      ]));
+
+      const indexPairs = await this.applyIdListChanges(changes);
+      await AsyncStorage.multiSet(indexPairs);
+      await AsyncStorage.removeItem(appointmentKey(id));
+    } catch (error) {
+      console.error('Error deleting appointment:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Moves appointments from the single JSON array they used to be stored in
+   * to per-record keys and indexes. Safe to re-run if interrupted: the old
+   * array is only removed once every record has been written.
+   * @returns Number of appointments that were migrated
+   */
+  async migrateAppointmentsToRecords(): Promise<number> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.LEGACY_APPOINTMENTS);
+      if (!data) {
+        return 0;
+      }
+
+      const appointments: Appointment[] = JSON.parse(data);
+      await this.saveAppointments(appointments);
+      await AsyncStorage.removeItem(STORAGE_KEYS.LEGACY_APPOINTMENTS);
+
+      console.log(`Migrated ${appointments.length} appointments to per-record storage`);
+      return appointments.length;
+    } catch (error) {
+      console.error('Error migrating appointments to per-record storage:', error);
+      throw error;
+    }
+  }
+
+  private async getIdList(key: string): Promise<string[]> {
+    const [ids] = await this.getIdLists([key]);
+    return ids;
+  }
+
+  /**
+   * Reads ID lists
+   * A list that cannot be read is rebuilt from the appointment records instead
+   * of being read as empty, which would hide the appointments it lists.
+   */
+  private async getIdLists(keys: string[]): Promise<string[][]> {
+    const entries = await AsyncStorage.multiGet(keys);
+    const lists = entries.map(([key, data]) => (data ? parseIdList(key, data) : []));
+
+    const unreadableKeys = keys.filter((_, index) => lists[index] === null);
+    if (unreadableKeys.length === 0) {
+      return lists as string[][];
+    }
+
+    const rebuilt = await this.rebuildIdLists(unreadableKeys);
+    return lists.map((ids, index) => ids ?? rebuilt.get(keys[index])!);
+  }
+
+  /**
+   * Works out from the stored appointments which IDs belong in each index
+   */
+  private async rebuildIdLists(keys: string[]): Promise<Map<string, string[]>> {
+    console.warn(`Rebuilding unreadable appointment indexes: ${keys.join(', ')}`);
+
+    const ids = (await AsyncStorage.getAllKeys())
+      .filter(key => key.startsWith(STORAGE_KEYS.APPOINTMENT_PREFIX))
+      .map(key => key.slice(STORAGE_KEYS.APPOINTMENT_PREFIX.length));
+    const appointments = readableRecords(await this.getAppointmentsByIds(ids));
+
+    return new Map(keys.map(key => [
+      key,
+      // Unreadable records stay in the full list, so reading it quarantines them
+      key === STORAGE_KEYS.APPOINTMENT_IDS
+        ? ids
+        : appointments
+          .filter(appointment => getAppointmentIndexKeys(appointment).includes(key))
+          .map(appointment => appointment.id)
+    ]));
+  }
+
+  /**
+   * Reads the given ID lists, applies additions and removals, and returns the pairs to save
+   */
+  private async applyIdListChanges(
+    changes: Map<string, { add: string[]; remove: string[] }>
+  ): Promise<Array<[string, string]>> {
+    const keys = Array.from(changes.keys());
+    const lists = await this.getIdLists(keys);
+
+    return keys.map((key, index) => {
+      const { add, remove } = changes.get(key)!;
+      const ids = new Set(lists[index]);
+      remove.forEach(id => ids.delete(id));
+      add.forEach(id => ids.add(id));
+      return [key, JSON.stringify(Array.from(ids))];
+    });
+  }
+
+  // Pet operations
+  async getPets(): Promise<Array<StoredRecord<Pet>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.PETS, await AsyncStorage.getItem(STORAGE_KEYS.PETS));
+    } catch (error) {
+      console.error('Error getting pets:', error);
+      return [];
+    }
+  }
+
+  async savePets(pets: Pet[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.PETS, JSON.stringify(pets));
+    } catch (error) {
+      console.error('Error saving pets:', error);
+      throw error;
+    }
+  }
+
+  // Owner operations
+  async getOwners(): Promise<Array<StoredRecord<Owner>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.OWNERS, await AsyncStorage.getItem(STORAGE_KEYS.OWNERS));
+    } catch (error) {
+      console.error('Error getting owners:', error);
+      return [];
+    }
+  }
+
+  async saveOwners(owners: Owner[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.OWNERS, JSON.stringify(owners));
+    } catch (error) {
+      console.error('Error saving owners:', error);
+      throw error;
+    }
+  }
+
+  // User operations
+  async getUsers(): Promise<Array<StoredRecord<UserAccount>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.USERS, await AsyncStorage.getItem(STORAGE_KEYS.USERS));
+    } catch (error) {
+      console.error('Error getting users:', error);
+      return [];
+    }
+  }
+
+  async saveUsers(users: UserAccount[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.USERS, JSON.stringify(users));
+    } catch (error) {
+      console.error('Error saving users:', error);
+      throw error;
+    }
+  }
+
+  // Waitlist operations
+  async getWaitlist(): Promise<Array<StoredRecord<WaitlistEntry>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.WAITLIST, await AsyncStorage.getItem(STORAGE_KEYS.WAITLIST));
+    } catch (error) {
+      console.error('Error getting waitlist:', error);
+      return [];
+    }
+  }
+
+  async saveWaitlist(entries: WaitlistEntry[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.WAITLIST, JSON.stringify(entries));
+    } catch (error) {
+      console.error('Error saving waitlist:', error);
+      throw error;
+    }
+  }
+
+  // Notification operations
+  async getNotifications(): Promise<Array<StoredRecord<AppNotification>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.NOTIFICATIONS, await AsyncStorage.getItem(STORAGE_KEYS.NOTIFICATIONS));
+    } catch (error) {
+      console.error('Error getting notifications:', error);
+      return [];
+    }
+  }
+
+  async saveNotifications(notifications: AppNotification[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.NOTIFICATIONS, JSON.stringify(notifications));
+    } catch (error) {
+      console.error('Error saving notifications:', error);
+      throw error;
+    }
+  }
+
+  // Slot hold operations
+  async getSlotHolds(): Promise<Array<StoredRecord<SlotHold>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.SLOT_HOLDS, await AsyncStorage.getItem(STORAGE_KEYS.SLOT_HOLDS));
+    } catch (error) {
+      console.error('Error getting slot holds:', error);
+      return [];
+    }
+  }
+
+  async saveSlotHolds(holds: SlotHold[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SLOT_HOLDS, JSON.stringify(holds));
+    } catch (error) {
+      console.error('Error saving slot holds:', error);
+      throw error;
+    }
+  }
+
+  // Busy block operations
+  async getBusyBlocks(): Promise<Array<StoredRecord<BusyBlock>>> {
+    try {
+      return parseStoredList(STORAGE_KEYS.BUSY_BLOCKS, await AsyncStorage.getItem(STORAGE_KEYS.BUSY_BLOCKS));
+    } catch (error) {
+      console.error('Error getting busy blocks:', error);
+      return [];
+    }
+  }
+
+  async saveBusyBlocks(blocks: BusyBlock[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.BUSY_BLOCKS, JSON.stringify(blocks));
+    } catch (error) {
+      console.error('Error saving busy blocks:', error);
+      throw error;
+    }
+  }
+
+  // Quarantine operations
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.QUARANTINE);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting quarantined records:', error);
+      return [];
+    }
+  }
+
+  async saveQuarantinedRecords(records: QuarantinedRecord[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.QUARANTINE, JSON.stringify(records));
+    } catch (error) {
+      console.error('Error saving quarantined records:', error);
+      throw error;
+    }
+  }
+
+  // Sync operations
+  async getSyncState(): Promise<SyncState | null> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.SYNC_STATE);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting sync state:', error);
+      return null;
+    }
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SYNC_STATE, JSON.stringify(state));
+    } catch (error) {
+      console.error('Error saving sync state:', error);
+      throw error;
+    }
+  }
+
+  async getPendingCommands(): Promise<PendingCommand[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.PENDING_COMMANDS);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting pending commands:', error);
+      return [];
+    }
+  }
+
+  async savePendingCommands(commands: PendingCommand[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.PENDING_COMMANDS, JSON.stringify(commands));
+    } catch (error) {
+      console.error('Error saving pending commands:', error);
+      throw error;
+    }
+  }
+
+  async getCommandConflicts(): Promise<CommandConflict[]> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.COMMAND_CONFLICTS);
+      return data ? JSON.parse(data) : [];
+    } catch (error) {
+      console.error('Error getting command conflicts:', error);
+      return [];
+    }
+  }
+
+  async saveCommandConflicts(conflicts: CommandConflict[]): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.COMMAND_CONFLICTS, JSON.stringify(conflicts));
+    } catch (error) {
+      console.error('Error saving command conflicts:', error);
+      throw error;
+    }
+  }
+
+  // Clinic settings
+  async getClinicPolicy(): Promise<ClinicPolicy | null> {
+    try {
+      const data = await AsyncStorage.getItem(STORAGE_KEYS.CLINIC_POLICY);
+      return data ? JSON.parse(data) : null;
+    } catch (error) {
+      console.error('Error getting clinic policy:', error);
+      return null;
+    }
+  }
+
+  async saveClinicPolicy(policy: ClinicPolicy): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.CLINIC_POLICY, JSON.stringify(policy));
+    } catch (error) {
+      console.error('Error saving clinic policy:', error);
+      throw error;
+    }
+  }
+
+  // Session operations
+  async getSessionUserId(): Promise<string | null> {
+    try {
+      return await AsyncStorage.getItem(STORAGE_KEYS.SESSION);
+    } catch (error) {
+      console.error('Error getting session:', error);
+      return null;
+    }
+  }
+
+  async setSessionUserId(userId: string | null): Promise<void> {
+    try {
+      if (userId) {
+        await AsyncStorage.setItem(STORAGE_KEYS.SESSION, userId);
+      } else {
+        await AsyncStorage.removeItem(STORAGE_KEYS.SESSION);
+      }
+    } catch (error) {
+      console.error('Error setting session:', error);
+      throw error;
+    }
+  }
+
   // Initialization check
   async isInitialized(): Promise<boolean> {
     try {
@@ -77,13 +680,143 @@ export class LocalStorageDataSource {
     }
   }
 
+  // Schema operations
+  async getSchemaVersion(): Promise<number> {
+    try {
+      const version = await AsyncStorage.getItem(STORAGE_KEYS.SCHEMA_VERSION);
+      return version ? Number(version) : 0;
+    } catch (error) {
+      console.error('Error getting schema version:', error);
+      throw error;
+    }
+  }
+
+  async setSchemaVersion(version: number): Promise<void> {
+    try {
+      await AsyncStorage.setItem(STORAGE_KEYS.SCHEMA_VERSION, String(version));
+    } catch (error) {
+      console.error('Error setting schema version:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Copies every stored key and value, except the migration backup itself
+   */
+  async exportSnapshot(): Promise<Array<[string, string]>> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(isSnapshotKey);
+      const entries = await AsyncStorage.multiGet(keys);
+      return entries.filter((entry): entry is [string, string] => entry[1] !== null);
+    } catch (error) {
+      console.error('Error exporting snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Replaces everything stored (except the migration backup) with a snapshot
+   */
+  async restoreSnapshot(snapshot: Array<[string, string]>): Promise<void> {
+    try {
+      const keys = (await AsyncStorage.getAllKeys()).filter(isSnapshotKey);
+      await AsyncStorage.multiRemove(keys);
+      if (snapshot.length > 0) {
+        await AsyncStorage.multiSet(snapshot);
+      }
+    } catch (error) {
+      console.error('Error restoring snapshot:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Reads the backup of the migration in progress, or null if there is no complete one
+   */
+  async getMigrationBackup(): Promise<Array<[string, string]> | null> {
+    try {
+      const count = await AsyncStorage.getItem(STORAGE_KEYS.MIGRATION_BACKUP);
+      if (count === null) {
+        return null;
+      }
+
+      const backupKeys = (await AsyncStorage.getAllKeys())
+        .filter(key => key.startsWith(STORAGE_KEYS.MIGRATION_BACKUP_PREFIX));
+      const entries = await AsyncStorage.multiGet(backupKeys);
+      const snapshot = entries
+        .filter((entry): entry is [string, string] => entry[1] !== null)
+        .map(([key, value]): [string, string] => [
+          `${STORAGE_KEY_PREFIX}${key.slice(STORAGE_KEYS.MIGRATION_BACKUP_PREFIX.length)}`,
+          value
+        ]);
+
+      if (snapshot.length !== Number(count)) {
+        throw new Error(`Migration backup has ${snapshot.length} of its ${count} values`);
+      }
+
+      return snapshot;
+    } catch (error) {
+      console.error('Error getting migration backup:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Backs up a snapshot one value per key, or removes the backup when given null
+   * Values have a size limit, so the snapshot is not saved as one. The count is
+   * written last and removed first, so a backup cut short is never restored.
+   */
+  async saveMigrationBackup(snapshot: Array<[string, string]> | null): Promise<void> {
+    try {
+      const staleKeys = (await AsyncStorage.getAllKeys())
+        .filter(key => key.startsWith(STORAGE_KEYS.MIGRATION_BACKUP_PREFIX));
+      await AsyncStorage.removeItem(STORAGE_KEYS.MIGRATION_BACKUP);
+      await AsyncStorage.multiRemove(staleKeys);
+
+      if (snapshot) {
+        if (snapshot.length > 0) {
+          await AsyncStorage.multiSet(snapshot.map(([key, value]) => [migrationBackupKey(key), value]));
+        }
+        await AsyncStorage.setItem(STORAGE_KEYS.MIGRATION_BACKUP, String(snapshot.length));
+      }
+    } catch (error) {
+      console.error('Error saving migration backup:', error);
+      throw error;
+    }
+  }
+
   // Clear all data
   async clearAllData(): Promise<void> {
     try {
+      const allKeys = await AsyncStorage.getAllKeys();
+      const prefixedKeys = allKeys.filter(key =>
+        key.startsWith(STORAGE_KEYS.APPOINTMENT_PREFIX) ||
+        key.startsWith(STORAGE_KEYS.APPOINTMENTS_BY_DOCTOR_PREFIX) ||
+        key.startsWith(STORAGE_KEYS.APPOINTMENTS_BY_DAY_PREFIX) ||
+        key.startsWith(STORAGE_KEYS.MIGRATION_BACKUP_PREFIX)
+      );
+
       await AsyncStorage.multiRemove([
+        ...prefixedKeys,
         STORAGE_KEYS.DOCTORS,
-        STORAGE_KEYS.APPOINTMENTS,
+        STORAGE_KEYS.LEGACY_APPOINTMENTS,
+        STORAGE_KEYS.APPOINTMENT_IDS,
+        STORAGE_KEYS.PETS,
+        STORAGE_KEYS.OWNERS,
+        STORAGE_KEYS.USERS,
+        STORAGE_KEYS.WAITLIST,
+        STORAGE_KEYS.NOTIFICATIONS,
+        STORAGE_KEYS.SLOT_HOLDS,
+        STORAGE_KEYS.BUSY_BLOCKS,
+        STORAGE_KEYS.QUARANTINE,
+        STORAGE_KEYS.SYNC_STATE,
+        STORAGE_KEYS.PENDING_COMMANDS,
+        STORAGE_KEYS.COMMAND_CONFLICTS,
+        STORAGE_KEYS.CLINIC_POLICY,
+        STORAGE_KEYS.SESSION,
         STORAGE_KEYS.APP_INITIALIZED,
+        STORAGE_KEYS.SCHEMA_VERSION,
+        STORAGE_KEYS.MIGRATION_BACKUP,
         STORAGE_KEYS.USER_PREFERENCES
       ]);
     } catch (error) {
@@ -97,138 +830,205 @@ export class LocalStorageDataSource {
    */
   async seedInitialData(): Promise<void> {
     try {
-      const initialized = await this.isInitialized();
-      if (initialized) {
-        return;
+      await seedSampleData(this);
+    } catch (error) {
+      console.error('Error seeding initial data:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Links appointments and pets that only carry a free-text owner name to
+   * Owner records. Names are matched exactly (ignoring case and surrounding
+   * whitespace), so "Ann" and "Joanne" become two different owners.
+   * @returns Number of owners that were created
+   */
+  async migrateAppointmentsToOwners(): Promise<number> {
+    try {
+      const appointments = readableRecords(await this.getAppointments());
+      const pets: Array<Pet & { ownerName?: string }> = requireReadable(await this.getPets());
+      const legacyAppointments = appointments.filter(appointment => !appointment.ownerId);
+      const legacyPets = pets.filter(pet => !pet.ownerId);
+
+      if (legacyAppointments.length === 0 && legacyPets.length === 0) {
+        return 0;
       }
 
-      // Create sample doctors with different specialties and availability patterns
-      const sampleDoctors: Doctor[] = [
-        {
-          id: generateUUID(),
-          name: 'Dr. Sarah Johnson',
-          specialties: ['dental', 'general'],
-          rating: 4.8,
-          location: 'Downtown Clinic',
-          weeklyAvailability: [
-            {
-              id: generateUUID(),
-              weekday: 1, // Monday
-              startTime: '09:00',
-              endTime: '12:00',
-              // Simple weekly recurrence
-            },
-            {
-              id: generateUUID(),
-              weekday: 3, // Wednesday
-              startTime: '14:00',
-              endTime: '17:00',
-            },
-            {
-              id: generateUUID(),
-              weekday: 5, // Friday
-              startTime: '10:00',
-              endTime: '15:00',
-            }
-          ]
-        },
-        {
-          id: generateUUID(),
-          name: 'Dr. Michael Chen',
-          specialties: ['surgery', 'emergency'],
-          rating: 4.9,
-          location: 'Emergency Pet Hospital',
-          weeklyAvailability: [
-            {
-              id: generateUUID(),
-              weekday: 2, // Tuesday
-              startTime: '08:00',
-              endTime: '16:00',
-              rrule: createWeeklyRRule(2), // Every Tuesday
-            },
-            {
-              id: generateUUID(),
-              weekday: 4, // Thursday
-              startTime: '08:00',
-              endTime: '16:00',
-              rrule: createBiWeeklyRRule(4), // Every other Thursday
-            }
-          ]
-        },
-        {
-          id: generateUUID(),
-          name: 'Dr. Emily Rodriguez',
-          specialties: ['dermatology', 'general'],
-          rating: 4.7,
-          location: 'Westside Animal Care',
-          weeklyAvailability: [
-            {
-              id: generateUUID(),
-              weekday: 1, // Monday
-              startTime: '13:00',
-              endTime: '18:00',
-            },
-            {
-              id: generateUUID(),
-              weekday: 2, // Tuesday
-              startTime: '09:00',
-              endTime: '14:00',
-            },
-            {
-              id: generateUUID(),
-              weekday: 4, // Thursday
-              startTime: '10:00',
-              endTime: '16:00',
-              rrule: createWeeklyRRule(4), // Every Thursday
-            }
-          ]
+      const owners = requireReadable(await this.getOwners());
+      const ownersByName = new Map(owners.map(owner => [owner.name.trim().toLowerCase(), owner]));
+      let createdCount = 0;
+
+      const resolveOwner = (name: string | undefined): Owner => {
+        const ownerName = name?.trim() || 'Unknown Owner';
+        let owner = ownersByName.get(ownerName.toLowerCase());
+
+        if (!owner) {
+          owner = {
+            id: generateUUID(),
+            name: ownerName,
+            preferredContactChannel: 'phone',
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+          };
+          owners.push(owner);
+          ownersByName.set(ownerName.toLowerCase(), owner);
+          createdCount++;
         }
-      ];
 
-      // Save sample doctors
-      await this.saveDoctors(sampleDoctors);
+        return owner;
+      };
 
-      // Create some sample appointments for demonstration
-      const sampleAppointments: Appointment[] = [
-        {
-          id: generateUUID(),
-          doctorId: sampleDoctors[0].id,
-          doctorName: sampleDoctors[0].name,
-          ownerName: 'John Smith',
-          petName: 'Buddy',
-          disease: 'dental cleaning',
-          startDateISO: this.getNextMondayAt('09:00').toISOString(),
-          endDateISO: this.getNextMondayAt('09:30').toISOString(),
-          status: 'scheduled',
-          location: sampleDoctors[0].location,
-          createdAt: new Date().toISOString(),
-          updatedAt: new Date().toISOString()
+      for (const appointment of legacyAppointments) {
+        appointment.ownerId = resolveOwner(appointment.ownerName).id;
+      }
+
+      for (const pet of legacyPets) {
+        pet.ownerId = resolveOwner(pet.ownerName).id;
+        delete pet.ownerName;
+      }
+
+      await this.saveOwners(owners);
+      await this.savePets(pets);
+      await this.saveAppointments(legacyAppointments);
+
+      console.log(`Migrated appointments and pets to ${createdCount} owner records`);
+      return createdCount;
+    } catch (error) {
+      console.error('Error migrating appointments to owners:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Links appointments created before pets were first-class records to Pet
+   * entries. One pet is created per distinct owner/pet name pair, so repeated
+   * bookings for the same animal end up sharing a single record.
+   * Expects owners to have been migrated first.
+   * @returns Number of appointments that were migrated
+   */
+  async migrateAppointmentsToPets(): Promise<number> {
+    try {
+      const appointments = readableRecords(await this.getAppointments());
+      const legacyAppointments = appointments.filter(appointment => !appointment.petId);
+
+      if (legacyAppointments.length === 0) {
+        return 0;
+      }
+
+      const pets = requireReadable(await this.getPets());
+      const toKey = (ownerId: string, petName: string) =>
+        `${ownerId}|${petName.trim().toLowerCase()}`;
+      const petsByKey = new Map(pets.map(pet => [toKey(pet.ownerId, pet.name), pet]));
+
+      for (const appointment of legacyAppointments) {
+        const key = toKey(appointment.ownerId, appointment.petName);
+        let pet = petsByKey.get(key);
+
+        if (!pet) {
+          pet = {
+            id: generateUUID(),
+            name: appointment.petName.trim(),
+            species: 'unknown',
+            sex: 'unknown',
+            ownerId: appointment.ownerId,
+            createdAt: new Date().toISOString(),
+            updatedAt: new Date().toISOString()
+          };
+          pets.push(pet);
+          petsByKey.set(key, pet);
         }
-      ];
 
-      await this.saveAppointments(sampleAppointments);
-      await this.setInitialized();
+        appointment.petId = pet.id;
+      }
+
+      await this.savePets(pets);
+      await this.saveAppointments(legacyAppointments);
 
-      console.log('Initial data seeded successfully');
+      console.log(`Migrated ${legacyAppointments.length} appointments to pet records`);
+      return legacyAppointments.length;
     } catch (error) {
-      console.error('Error seeding initial data:', error);
+      console.error('Error migrating appointments to pets:', error);
+      throw error;
+    }
+  }
+
+  /**
+   * Renames the 'scheduled' status, from before the appointment lifecycle,
+   * to 'requested'. Other statuses kept their names.
+   * @returns Number of appointments that were migrated
+   */
+  async migrateAppointmentStatuses(): Promise<number> {
+    try {
+      const appointments: Array<Omit<Appointment, 'status'> & { status: string }> = readableRecords(await this.getAppointments());
+      const legacyAppointments = appointments
+        .filter(appointment => appointment.status === 'scheduled')
+        .map(appointment => ({ ...appointment, status: 'requested' } as Appointment));
+
+      if (legacyAppointments.length === 0) {
+        return 0;
+      }
+
+      await this.saveAppointments(legacyAppointments);
+
+      console.log(`Migrated ${legacyAppointments.length} appointments to the requested status`);
+      return legacyAppointments.length;
+    } catch (error) {
+      console.error('Error migrating appointment statuses:', error);
       throw error;
     }
   }
 
   /**
-   * Helper method to get next Monday at a specific time
+   * Moves each appointment's status history into its general history, and
+   * cancellation reasons that were appended to the notes into their own field
+   * @returns Number of appointments that were migrated
    */
-  private getNextMondayAt(time: string): Date {
-    const [hours, minutes] = time.split(':').map(Number);
-    const now = new Date();
-    const nextMonday = new Date();
-    
-    // Find next Monday
-    const daysUntilMonday = (1 - now.getDay() + 7) % 7 || 7;
-    nextMonday.setDate(now.getDate() + daysUntilMonday);
-    nextMonday.setHours(hours, minutes, 0, 0);
-    
-    return nextMonday;
+  async migrateAppointmentHistory(): Promise<number> {
+    try {
+      const appointments: Array<Appointment & { statusHistory?: LegacyStatusChange[] }> = readableRecords(await this.getAppointments());
+      const migrated: Appointment[] = [];
+
+      for (const { statusHistory, ...appointment } of appointments) {
+        const reasonMatch = appointment.status === 'cancelled' && appointment.notes
+          ? appointment.notes.match(LEGACY_CANCELLATION_REASON)
+          : null;
+
+        if (!statusHistory && !reasonMatch) {
+          continue;
+        }
+
+        const history: AppointmentHistoryEntry[] = (statusHistory || []).map(change => ({
+          id: generateUUID(),
+          type: 'statusChanged',
+          from: change.from,
+          to: change.to,
+          ...(change.reason ? { reason: change.reason } : {}),
+          changedAt: change.changedAt,
+          changedBy: change.changedBy
+        }));
+
+        migrated.push({
+          ...appointment,
+          history: [...history, ...(appointment.history || [])]
+            .sort((a, b) => a.changedAt.localeCompare(b.changedAt)),
+          ...(reasonMatch ? {
+            cancellationReason: reasonMatch[1].trim(),
+            notes: appointment.notes!.slice(0, reasonMatch.index).trim() || undefined
+          } : {})
+        });
+      }
+
+      if (migrated.length === 0) {
+        return 0;
+      }
+
+      await this.saveAppointments(migrated);
+
+      console.log(`Migrated the history of ${migrated.length} appointments`);
+      return migrated.length;
+    } catch (error) {
+      console.error('Error migrating appointment history:', error);
+      throw error;
+    }
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,453 @@
+import { Doctor } from '../../domain/entities/Doctor';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { UserAccount } from '../../domain/entities/User';
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { AppNotification } from '../../domain/entities/Notification';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { BusyBlock } from '../../domain/entities/BusyBlock';
+import { QuarantinedRecord } from '../../domain/entities/QuarantinedRecord';
+import { CommandConflict, PendingCommand } from '../../domain/entities/PendingCommand';
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import { SyncState } from '../sync/SyncState';
+import { DataSource, readableRecords, StoredRecord } from './DataSource';
+import { seedSampleData } from './sampleData';
+
+export type SqlValue = string | number | null;
+export type SqlRow = Record<string, SqlValue>;
+
+/**
+ * The part of a SQLite driver the data source needs
+ * Wrap react-native-sqlite-storage, expo-sqlite or op-sqlite in this to use
+ * them; every statement runs on the same connection.
+ */
+export interface SqlDatabase {
+  execute(sql: string, params?: SqlValue[]): Promise<SqlRow[]>;
+}
+
+type Statement = [string, SqlValue[]];
+
+// Lists stored whole, one row per record, in the order they were saved
+const COLLECTION_TABLES = {
+  doctors: 'doctors',
+  pets: 'pets',
+  owners: 'owners',
+  users: 'users',
+  waitlist: 'waitlist_entries',
+  notifications: 'notifications',
+  slotHolds: 'slot_holds',
+  busyBlocks: 'busy_blocks',
+  quarantine: 'quarantined_records',
+  pendingCommands: 'pending_commands',
+  commandConflicts: 'command_conflicts'
+} as const;
+
+type CollectionTable = typeof COLLECTION_TABLES[keyof typeof COLLECTION_TABLES];
+
+const SESSION_SETTING = 'session_user_id';
+const INITIALIZED_SETTING = 'initialized';
+const SYNC_STATE_SETTING = 'sync_state';
+const CLINIC_POLICY_SETTING = 'clinic_policy';
+
+const SCHEMA: string[] = [
+  ...Object.values(COLLECTION_TABLES).map(table =>
+    `CREATE TABLE IF NOT EXISTS ${table} (
+      id TEXT PRIMARY KEY NOT NULL,
+      position INTEGER NOT NULL,
+      data TEXT NOT NULL
+    )`
+  ),
+  // Appointments are the one table that grows with use, so they are queried
+  // by column instead of being read whole
+  `CREATE TABLE IF NOT EXISTS appointments (
+    id TEXT PRIMARY KEY NOT NULL,
+    doctor_id TEXT NOT NULL,
+    start_ms INTEGER NOT NULL,
+    end_ms INTEGER NOT NULL,
+    data TEXT NOT NULL
+  )`,
+  'CREATE INDEX IF NOT EXISTS appointments_by_doctor ON appointments (doctor_id, start_ms)',
+  'CREATE INDEX IF NOT EXISTS appointments_by_start ON appointments (start_ms)',
+  `CREATE TABLE IF NOT EXISTS settings (
+    key TEXT PRIMARY KEY NOT NULL,
+    value TEXT NOT NULL
+  )`
+];
+
+/**
+ * Parses a row's stored record
+ * A record that is not valid JSON comes back as an UnreadableRecord, so it
+ * cannot hide the other rows and can be quarantined.
+ */
+const parseRow = <T>(table: string, row: SqlRow): StoredRecord<T> => {
+  const data = row.data as string;
+  try {
+    return JSON.parse(data);
+  } catch (error) {
+    const recordId = row.id as string;
+    console.error(`Unreadable record ${recordId} in ${table}:`, error);
+    const reason = error instanceof Error ? error.message : String(error);
+    return { unreadable: true, key: `${table}:${recordId}`, recordId, data, error: `Not valid JSON: ${reason}` };
+  }
+};
+
+const toAppointments = (rows: SqlRow[]): Array<StoredRecord<Appointment>> =>
+  rows.map(row => parseRow<Appointment>('appointments', row));
+
+/**
+ * Data source for SQLite-style databases, for installs with more data than
+ * AsyncStorage handles well
+ * Appointments get a table with indexed doctor and time columns, so lookups by
+ * ID, doctor and date range are answered by queries. The smaller lists are
+ * stored one record per row and replaced in a transaction when saved.
+ */
+export class SqlDataSource implements DataSource {
+  // Tail of the queue of read-modify-write tasks; see runExclusive
+  private writeQueue: Promise<void> = Promise.resolve();
+  // Tail of the queue of statements; a transaction must not interleave with other statements
+  private statementQueue: Promise<void> = Promise.resolve();
+  private schemaReady: Promise<void> | null = null;
+
+  constructor(private database: SqlDatabase) {}
+
+  // Write coordination
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+
+  // Doctor operations
+  async getDoctors(): Promise<Array<StoredRecord<Doctor>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.doctors);
+  }
+
+  async saveDoctors(doctors: Doctor[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.doctors, doctors);
+  }
+
+  // Appointment operations
+  async getAppointments(): Promise<Array<StoredRecord<Appointment>>> {
+    return toAppointments(await this.query('SELECT id, data FROM appointments ORDER BY start_ms'));
+  }
+
+  async getAppointmentById(id: string): Promise<StoredRecord<Appointment> | null> {
+    const rows = await this.query('SELECT id, data FROM appointments WHERE id = ?', [id]);
+    return toAppointments(rows)[0] || null;
+  }
+
+  async getAppointmentsByDoctor(doctorId: string): Promise<Array<StoredRecord<Appointment>>> {
+    const rows = await this.query(
+      'SELECT id, data FROM appointments WHERE doctor_id = ? ORDER BY start_ms',
+      [doctorId]
+    );
+    return toAppointments(rows);
+  }
+
+  async getAppointmentsInRange(
+    startISO: string,
+    endISO: string,
+    doctorId?: string
+  ): Promise<Array<StoredRecord<Appointment>>> {
+    const start = new Date(startISO).getTime();
+    const end = new Date(endISO).getTime();
+
+    const rows = doctorId
+      ? await this.query(
+        `SELECT id, data FROM appointments
+          WHERE doctor_id = ? AND start_ms <= ? AND end_ms >= ?
+          ORDER BY start_ms`,
+        [doctorId, end, start]
+      )
+      : await this.query(
+        `SELECT id, data FROM appointments
+          WHERE start_ms <= ? AND end_ms >= ?
+          ORDER BY start_ms`,
+        [end, start]
+      );
+
+    return toAppointments(rows);
+  }
+
+  async saveAppointments(appointments: Appointment[]): Promise<void> {
+    if (appointments.length === 0) {
+      return;
+    }
+
+    try {
+      await this.transaction(appointments.map(appointment => [
+        'INSERT OR REPLACE INTO appointments (id, doctor_id, start_ms, end_ms, data) VALUES (?, ?, ?, ?, ?)',
+        [
+          appointment.id,
+          appointment.doctorId,
+          new Date(appointment.startDateISO).getTime(),
+          new Date(appointment.endDateISO).getTime(),
+          JSON.stringify(appointment)
+        ]
+      ]));
+    } catch (error) {
+      console.error('Error saving appointments:', error);
+      throw error;
+    }
+  }
+
+  async saveAppointment(appointment: Appointment): Promise<void> {
+    await this.saveAppointments([appointment]);
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    try {
+      await this.transaction([['DELETE FROM appointments WHERE id = ?', [id]]]);
+    } catch (error) {
+      console.error('Error deleting appointment:', error);
+      throw error;
+    }
+  }
+
+  // Pet operations
+  async getPets(): Promise<Array<StoredRecord<Pet>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.pets);
+  }
+
+  async savePets(pets: Pet[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.pets, pets);
+  }
+
+  // Owner operations
+  async getOwners(): Promise<Array<StoredRecord<Owner>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.owners);
+  }
+
+  async saveOwners(owners: Owner[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.owners, owners);
+  }
+
+  // User account operations
+  async getUsers(): Promise<Array<StoredRecord<UserAccount>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.users);
+  }
+
+  async saveUsers(users: UserAccount[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.users, users);
+  }
+
+  // Waitlist operations
+  async getWaitlist(): Promise<Array<StoredRecord<WaitlistEntry>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.waitlist);
+  }
+
+  async saveWaitlist(entries: WaitlistEntry[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.waitlist, entries);
+  }
+
+  // Notification operations
+  async getNotifications(): Promise<Array<StoredRecord<AppNotification>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.notifications);
+  }
+
+  async saveNotifications(notifications: AppNotification[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.notifications, notifications);
+  }
+
+  // Slot hold operations
+  async getSlotHolds(): Promise<Array<StoredRecord<SlotHold>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.slotHolds);
+  }
+
+  async saveSlotHolds(holds: SlotHold[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.slotHolds, holds);
+  }
+
+  // Busy block operations
+  async getBusyBlocks(): Promise<Array<StoredRecord<BusyBlock>>> {
+    return await this.getStoredCollection(COLLECTION_TABLES.busyBlocks);
+  }
+
+  async saveBusyBlocks(blocks: BusyBlock[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.busyBlocks, blocks);
+  }
+
+  // Quarantine operations
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    return await this.getCollection(COLLECTION_TABLES.quarantine);
+  }
+
+  async saveQuarantinedRecords(records: QuarantinedRecord[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.quarantine, records);
+  }
+
+  // Sync operations
+  async getSyncState(): Promise<SyncState | null> {
+    const data = await this.getSetting(SYNC_STATE_SETTING);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    await this.setSetting(SYNC_STATE_SETTING, JSON.stringify(state));
+  }
+
+  async getPendingCommands(): Promise<PendingCommand[]> {
+    return await this.getCollection(COLLECTION_TABLES.pendingCommands);
+  }
+
+  async savePendingCommands(commands: PendingCommand[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.pendingCommands, commands);
+  }
+
+  async getCommandConflicts(): Promise<CommandConflict[]> {
+    return await this.getCollection(COLLECTION_TABLES.commandConflicts);
+  }
+
+  async saveCommandConflicts(conflicts: CommandConflict[]): Promise<void> {
+    await this.saveCollection(COLLECTION_TABLES.commandConflicts, conflicts);
+  }
+
+  // Clinic settings
+  async getClinicPolicy(): Promise<ClinicPolicy | null> {
+    const data = await this.getSetting(CLINIC_POLICY_SETTING);
+    return data ? JSON.parse(data) : null;
+  }
+
+  async saveClinicPolicy(policy: ClinicPolicy): Promise<void> {
+    await this.setSetting(CLINIC_POLICY_SETTING, JSON.stringify(policy));
+  }
+
+  // Session operations
+  async getSessionUserId(): Promise<string | null> {
+    return await this.getSetting(SESSION_SETTING);
+  }
+
+  async setSessionUserId(userId: string | null): Promise<void> {
+    await this.setSetting(SESSION_SETTING, userId);
+  }
+
+  // Initialization check
+  async isInitialized(): Promise<boolean> {
+    return (await this.getSetting(INITIALIZED_SETTING)) === 'true';
+  }
+
+  async setInitialized(): Promise<void> {
+    await this.setSetting(INITIALIZED_SETTING, 'true');
+  }
+
+  // Utility operations
+  async seedInitialData(): Promise<void> {
+    try {
+      await seedSampleData(this);
+    } catch (error) {
+      console.error('Error seeding initial data:', error);
+      throw error;
+    }
+  }
+
+  async clearAllData(): Promise<void> {
+    try {
+      await this.transaction([
+        ...Object.values(COLLECTION_TABLES).map((table): Statement => [`DELETE FROM ${table}`, []]),
+        ['DELETE FROM appointments', []],
+        ['DELETE FROM settings', []]
+      ]);
+    } catch (error) {
+      console.error('Error clearing data:', error);
+      throw error;
+    }
+  }
+
+  private async getCollection<T>(table: CollectionTable): Promise<T[]> {
+    return readableRecords(await this.getStoredCollection<T>(table));
+  }
+
+  private async getStoredCollection<T>(table: CollectionTable): Promise<Array<StoredRecord<T>>> {
+    try {
+      const rows = await this.query(`SELECT id, data FROM ${table} ORDER BY position`);
+      return rows.map(row => parseRow<T>(table, row));
+    } catch (error) {
+      console.error(`Error getting ${table}:`, error);
+      return [];
+    }
+  }
+
+  private async saveCollection<T extends { id: string }>(table: CollectionTable, records: T[]): Promise<void> {
+    try {
+      await this.transaction([
+        [`DELETE FROM ${table}`, []],
+        ...records.map((record, position): Statement => [
+          `INSERT INTO ${table} (id, position, data) VALUES (?, ?, ?)`,
+          [record.id, position, JSON.stringify(record)]
+        ])
+      ]);
+    } catch (error) {
+      console.error(`Error saving ${table}:`, error);
+      throw error;
+    }
+  }
+
+  private async getSetting(key: string): Promise<string | null> {
+    try {
+      const rows = await this.query('SELECT value FROM settings WHERE key = ?', [key]);
+      return rows.length > 0 ? (rows[0].value as string) : null;
+    } catch (error) {
+      console.error(`Error getting setting ${key}:`, error);
+      return null;
+    }
+  }
+
+  private async setSetting(key: string, value: string | null): Promise<void> {
+    try {
+      await this.transaction([
+        value === null
+          ? ['DELETE FROM settings WHERE key = ?', [key]]
+          : ['INSERT OR REPLACE INTO settings (key, value) VALUES (?, ?)', [key, value]]
+      ]);
+    } catch (error) {
+      console.error(`Error setting ${key}:`, error);
+      throw error;
+    }
+  }
+
+  private async query(sql: string, params: SqlValue[] = []): Promise<SqlRow[]> {
+    await this.ensureSchema();
+    return await this.enqueue(() => this.database.execute(sql, params));
+  }
+
+  /**
+   * Runs statements as one transaction, rolling all of them back if one fails
+   */
+  private async transaction(statements: Statement[]): Promise<void> {
+    await this.ensureSchema();
+    await this.enqueue(async () => {
+      await this.database.execute('BEGIN TRANSACTION');
+      try {
+        for (const [sql, params] of statements) {
+          await this.database.execute(sql, params);
+        }
+        await this.database.execute('COMMIT');
+      } catch (error) {
+        await this.database.execute('ROLLBACK');
+        throw error;
+      }
+    });
+  }
+
+  private ensureSchema(): Promise<void> {
+    if (!this.schemaReady) {
+      this.schemaReady = this.enqueue(async () => {
+        for (const statement of SCHEMA) {
+          await this.database.execute(statement);
+        }
+      });
+      // Let a later call try again rather than failing forever
+      this.schemaReady.catch(() => {
+        this.schemaReady = null;
+      });
+    }
+    return this.schemaReady;
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.statementQueue.then(task);
+    this.statementQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
@@ -0,0 +1,200 @@
+import { Doctor } from '../../domain/entities/Doctor';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { createWeeklyRRule, createBiWeeklyRRule } from '../../shared/utils/rruleHelpers';
+import { getDeviceTimeZone, toZonedDateString } from '../../shared/utils/timezone';
+import { DataSource } from './DataSource';
+import { generateUUID } from '../../shared/utils/uuid';
+
+/**
+ * Gets next Monday at a specific time
+ */
+function getNextMondayAt(time: string): Date {
+  const [hours, minutes] = time.split(':').map(Number);
+  const now = new Date();
+  const nextMonday = new Date();
+  
+  // Find next Monday
+  const daysUntilMonday = (1 - now.getDay() + 7) % 7 || 7;
+  nextMonday.setDate(now.getDate() + daysUntilMonday);
+  nextMonday.setHours(hours, minutes, 0, 0);
+  
+  return nextMonday;
+}
+
+/**
+ * Seeds the sample doctors, owner, pet and appointment if the data source
+ * has not been initialized yet
+ * Shared by every data source so demos look the same whatever stores the data.
+ * @param dataSource - The data source to seed
+ */
+export async function seedSampleData(dataSource: DataSource): Promise<void> {
+  const initialized = await dataSource.isInitialized();
+  if (initialized) {
+    return;
+  }
+
+  // Create sample doctors with different specialties and availability patterns
+  // Sample clinics share the device's timezone; bi-weekly rules count from today
+  const clinicTimeZone = getDeviceTimeZone();
+  const today = toZonedDateString(new Date(), clinicTimeZone);
+
+  const sampleDoctors: Doctor[] = [
+    {
+      id: generateUUID(),
+      name: 'Dr. Sarah Johnson',
+      specialties: ['dental', 'general'],
+      visitTypes: [
+        { id: generateUUID(), name: 'Checkup', durationMinutes: 30, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+        { id: generateUUID(), name: 'Vaccination', durationMinutes: 15, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+        { id: generateUUID(), name: 'Dental Cleaning', durationMinutes: 60, bufferBeforeMinutes: 15, bufferAfterMinutes: 15, requiredSpecialty: 'dental' }
+      ],
+      rating: 4.8,
+      location: 'Downtown Clinic',
+      timeZone: clinicTimeZone,
+      weeklyAvailability: [
+        {
+          id: generateUUID(),
+          weekday: 1, // Monday
+          startTime: '09:00',
+          endTime: '12:00',
+          // Simple weekly recurrence
+        },
+        {
+          id: generateUUID(),
+          weekday: 3, // Wednesday
+          startTime: '14:00',
+          endTime: '17:00',
+        },
+        {
+          id: generateUUID(),
+          weekday: 5, // Friday
+          startTime: '10:00',
+          endTime: '15:00',
+        }
+      ]
+    },
+    {
+      id: generateUUID(),
+      name: 'Dr. Michael Chen',
+      specialties: ['surgery', 'emergency'],
+      visitTypes: [
+        { id: generateUUID(), name: 'Surgery Consult', durationMinutes: 45, bufferBeforeMinutes: 0, bufferAfterMinutes: 15, requiredSpecialty: 'surgery' },
+        { id: generateUUID(), name: 'Emergency Visit', durationMinutes: 30, bufferBeforeMinutes: 0, bufferAfterMinutes: 10, requiredSpecialty: 'emergency' }
+      ],
+      rating: 4.9,
+      location: 'Emergency Pet Hospital',
+      timeZone: clinicTimeZone,
+      weeklyAvailability: [
+        {
+          id: generateUUID(),
+          weekday: 2, // Tuesday
+          startTime: '08:00',
+          endTime: '16:00',
+          rrule: createWeeklyRRule(2), // Every Tuesday
+        },
+        {
+          id: generateUUID(),
+          weekday: 4, // Thursday
+          startTime: '08:00',
+          endTime: '16:00',
+          rrule: createBiWeeklyRRule(4, today, clinicTimeZone), // Every other Thursday
+        }
+      ]
+    },
+    {
+      id: generateUUID(),
+      name: 'Dr. Emily Rodriguez',
+      specialties: ['dermatology', 'general'],
+      visitTypes: [
+        { id: generateUUID(), name: 'Checkup', durationMinutes: 30, bufferBeforeMinutes: 0, bufferAfterMinutes: 0 },
+        { id: generateUUID(), name: 'Skin Consultation', durationMinutes: 45, bufferBeforeMinutes: 0, bufferAfterMinutes: 10, requiredSpecialty: 'dermatology' }
+      ],
+      rating: 4.7,
+      location: 'Westside Animal Care',
+      timeZone: clinicTimeZone,
+      weeklyAvailability: [
+        {
+          id: generateUUID(),
+          weekday: 1, // Monday
+          startTime: '13:00',
+          endTime: '18:00',
+        },
+        {
+          id: generateUUID(),
+          weekday: 2, // Tuesday
+          startTime: '09:00',
+          endTime: '14:00',
+        },
+        {
+          id: generateUUID(),
+          weekday: 4, // Thursday
+          startTime: '10:00',
+          endTime: '16:00',
+          rrule: createWeeklyRRule(4), // Every Thursday
+        }
+      ]
+    }
+  ];
+
+  // Save sample doctors
+  await dataSource.saveDoctors(sampleDoctors);
+
+  // Create a sample owner and pet so the demo appointment references real records
+  const sampleOwners: Owner[] = [
+    {
+      id: generateUUID(),
+      name: 'John Smith',
+      phone: '555-0100',
+      email: 'john.smith@example.com',
+      preferredContactChannel: 'phone',
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+  ];
+
+  await dataSource.saveOwners(sampleOwners);
+
+  const samplePets: Pet[] = [
+    {
+      id: generateUUID(),
+      name: 'Buddy',
+      species: 'dog',
+      breed: 'Golden Retriever',
+      sex: 'male',
+      ownerId: sampleOwners[0].id,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+  ];
+
+  await dataSource.savePets(samplePets);
+
+  // Create some sample appointments for demonstration
+  const sampleAppointments: Appointment[] = [
+    {
+      id: generateUUID(),
+      doctorId: sampleDoctors[0].id,
+      doctorName: sampleDoctors[0].name,
+      ownerId: sampleOwners[0].id,
+      ownerName: sampleOwners[0].name,
+      petId: samplePets[0].id,
+      petName: samplePets[0].name,
+      disease: 'dental cleaning',
+      visitTypeId: sampleDoctors[0].visitTypes![2].id,
+      visitTypeName: sampleDoctors[0].visitTypes![2].name,
+      startDateISO: getNextMondayAt('09:00').toISOString(),
+      endDateISO: getNextMondayAt('10:00').toISOString(),
+      status: 'requested',
+      location: sampleDoctors[0].location,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    }
+  ];
+
+  await dataSource.saveAppointments(sampleAppointments);
+  await dataSource.setInitialized();
+
+  console.log('Initial data seeded successfully');
+}
@@ -0,0 +1,12 @@
+import { LocalStorageDataSource } from '../datasources/LocalStorageDataSource';
+
+/**
+ * One step in the history of the persisted data's shape
+ * Steps run in version order, each once per install.
+ */
+export interface Migration {
+  version: number; // Schema version the data is at once this step has run
+  description: string;
+  migrate(dataSource: LocalStorageDataSource): Promise<void>;
+  validate?(dataSource: LocalStorageDataSource): Promise<string | null>; // Why the migrated data is invalid, or null
+}
@@ -0,0 +1,16 @@
+/**
+ * Thrown when a migration step fails or leaves invalid data
+ * The data has been restored to how it was before the step.
+ */
+export class MigrationError extends Error {
+  constructor(
+    public readonly version: number,
+    message: string,
+    public readonly originalError?: unknown
+  ) {
+    super(`Migration to schema version ${version} failed: ${message}`);
+    this.name = 'MigrationError';
+    // Keep instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, MigrationError.prototype);
+  }
+}
@@ -0,0 +1,101 @@
+import { LocalStorageDataSource } from '../datasources/LocalStorageDataSource';
+import { Migration } from './Migration';
+import { MigrationError } from './MigrationError';
+import { MIGRATIONS } from './migrations';
+
+export interface MigrationReport {
+  fromVersion: number;
+  toVersion: number;
+  appliedVersions: number[];
+}
+
+/**
+ * Brings stored data up to the latest schema version
+ * Before each step the data is backed up to storage. If the step throws or
+ * its validation fails, the backup is restored and a MigrationError is thrown;
+ * if the app is killed mid-step, the backup is restored on the next run.
+ */
+export class MigrationRunner {
+  constructor(
+    private dataSource: LocalStorageDataSource,
+    private migrations: Migration[] = MIGRATIONS
+  ) {}
+
+  /**
+   * Runs every step newer than the stored schema version, in order
+   * @returns Promise<MigrationReport> - The versions before and after, and the steps that ran
+   */
+  async run(): Promise<MigrationReport> {
+    return await this.dataSource.runExclusive(async () => {
+      await this.recoverInterruptedMigration();
+
+      const fromVersion = await this.dataSource.getSchemaVersion();
+      const steps = [...this.migrations]
+        .sort((a, b) => a.version - b.version)
+        .filter(migration => migration.version > fromVersion);
+      const appliedVersions: number[] = [];
+
+      for (const step of steps) {
+        await this.runStep(step);
+        appliedVersions.push(step.version);
+      }
+
+      const toVersion = appliedVersions.length > 0
+        ? appliedVersions[appliedVersions.length - 1]
+        : fromVersion;
+
+      if (appliedVersions.length > 0) {
+        console.log(`Migrated data from schema version ${fromVersion} to ${toVersion}`);
+      }
+
+      return {
+        fromVersion,
+        toVersion,
+        appliedVersions
+      };
+    });
+  }
+
+  /**
+   * Runs one step between a backup and either a version bump or a rollback
+   */
+  private async runStep(step: Migration): Promise<void> {
+    const backup = await this.dataSource.exportSnapshot();
+    await this.dataSource.saveMigrationBackup(backup);
+
+    let failure: string | null = null;
+    let originalError: unknown;
+
+    try {
+      await step.migrate(this.dataSource);
+      failure = step.validate ? await step.validate(this.dataSource) : null;
+    } catch (error) {
+      failure = error instanceof Error ? error.message : 'Unknown error occurred';
+      originalError = error;
+    }
+
+    if (failure) {
+      console.error(`Migration to schema version ${step.version} failed, restoring backup:`, failure);
+      await this.dataSource.restoreSnapshot(backup);
+      await this.dataSource.saveMigrationBackup(null);
+      throw new MigrationError(step.version, failure, originalError);
+    }
+
+    await this.dataSource.setSchemaVersion(step.version);
+    await this.dataSource.saveMigrationBackup(null);
+  }
+
+  /**
+   * Restores the backup left behind by a step that never finished
+   */
+  private async recoverInterruptedMigration(): Promise<void> {
+    const backup = await this.dataSource.getMigrationBackup();
+    if (!backup) {
+      return;
+    }
+
+    console.warn('Found the backup of an interrupted migration, restoring it');
+    await this.dataSource.restoreSnapshot(backup);
+    await this.dataSource.saveMigrationBackup(null);
+  }
+}
@@ -0,0 +1,81 @@
+import AsyncStorage from '@react-native-async-storage/async-storage';
+import { STORAGE_KEYS } from '../../shared/storageKeys';
+import { Migration } from './Migration';
+import { readableRecords } from '../datasources/DataSource';
+
+/**
+ * Every schema change, oldest first
+ * Append new steps with the next version number; never edit or reorder
+ * steps that have shipped. Installs from before versioning start at 0.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Move appointments from one JSON array to per-record keys and indexes',
+    migrate: async (dataSource) => {
+      await dataSource.migrateAppointmentsToRecords();
+    },
+    validate: async (dataSource) => {
+      if (await AsyncStorage.getItem(STORAGE_KEYS.LEGACY_APPOINTMENTS)) {
+        return 'Appointments are still stored in the old array';
+      }
+
+      const appointments = readableRecords(await dataSource.getAppointments());
+      const invalid = appointments.find(appointment =>
+        !appointment.id || !appointment.doctorId || !appointment.startDateISO || !appointment.endDateISO
+      );
+      return invalid ? `Appointment ${invalid.id || '(no ID)'} is missing required fields` : null;
+    }
+  },
+  {
+    version: 2,
+    description: 'Link appointments and pets with free-text owner names to owner records',
+    migrate: async (dataSource) => {
+      await dataSource.migrateAppointmentsToOwners();
+    },
+    validate: async (dataSource) => {
+      const appointment = readableRecords(await dataSource.getAppointments()).find(a => !a.ownerId);
+      if (appointment) {
+        return `Appointment ${appointment.id} is not linked to an owner`;
+      }
+
+      const pet = readableRecords(await dataSource.getPets()).find(p => !p.ownerId);
+      return pet ? `Pet ${pet.id} is not linked to an owner` : null;
+    }
+  },
+  {
+    version: 3,
+    description: 'Link appointments with free-text pet names to pet records',
+    migrate: async (dataSource) => {
+      await dataSource.migrateAppointmentsToPets();
+    },
+    validate: async (dataSource) => {
+      const appointment = readableRecords(await dataSource.getAppointments()).find(a => !a.petId);
+      return appointment ? `Appointment ${appointment.id} is not linked to a pet` : null;
+    }
+  },
+  {
+    version: 4,
+    description: 'Rename the scheduled appointment status to requested',
+    migrate: async (dataSource) => {
+      await dataSource.migrateAppointmentStatuses();
+    },
+    validate: async (dataSource) => {
+      const appointment = readableRecords(await dataSource.getAppointments()).find(a => (a.status as string) === 'scheduled');
+      return appointment ? `Appointment ${appointment.id} still has the scheduled status` : null;
+    }
+  },
+  {
+    version: 5,
+    description: 'Move status changes and cancellation reasons into the appointment history',
+    migrate: async (dataSource) => {
+      await dataSource.migrateAppointmentHistory();
+    },
+    validate: async (dataSource) => {
+      const appointment = readableRecords(await dataSource.getAppointments()).find(a => 'statusHistory' in a);
+      return appointment ? `Appointment ${appointment.id} still has a separate status history` : null;
+    }
+  }
+];
+
+export const LATEST_SCHEMA_VERSION = Math.max(0, ...MIGRATIONS.map(migration => migration.version));
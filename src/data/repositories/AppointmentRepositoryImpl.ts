@@ -1,44 +1,72 @@
 import { Appointment } from '../../domain/entities/Appointment';
 import { Doctor } from '../../domain/entities/Doctor';
-import { IAppointmentRepository } from '../../domain/repositories/IAppointmentRepository';
-import { LocalStorageDataSource } from '../datasources/LocalStorageDataSource';
+import { IAppointmentRepository, WritePrecondition } from '../../domain/repositories/IAppointmentRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { ConcurrencyConflictError, VersionedEntityType } from '../../domain/errors/ConcurrencyConflictError';
+import { validateAppointment, validateDoctor } from '../../domain/validation/validators';
+import { DataSource, StoredRecord } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
 
 /**
- * Implementation of the appointment repository using local storage
+ * Implementation of the appointment repository on top of a data source
+ * Every read-modify-write runs through the data source's write queue, and
+ * saved records are checked and bumped by version. Records that cannot be read
+ * or fail validation are left out of every read and quarantined.
  */
 export class AppointmentRepositoryImpl implements IAppointmentRepository {
-  constructor(private dataSource: LocalStorageDataSource) {}
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
 
   // Doctor operations
   async getDoctors(): Promise<Doctor[]> {
-    return await this.dataSource.getDoctors();
+    return await withoutInvalid(this.quarantineRepository, 'doctors', await this.dataSource.getDoctors(), validateDoctor);
   }
 
   async getDoctorById(id: string): Promise<Doctor | null> {
-    const doctors = await this.dataSource.getDoctors();
+    const doctors = await this.getDoctors();
     return doctors.find(doctor => doctor.id === id) || null;
   }
 
-  async createDoctor(doctor: Doctor): Promise<void> {
-    const doctors = await this.dataSource.getDoctors();
-    doctors.push(doctor);
-    await this.dataSource.saveDoctors(doctors);
+  async createDoctor(doctor: Doctor): Promise<Doctor> {
+    return await this.dataSource.runExclusive(async () => {
+      const doctors = await this.getStoredDoctors();
+      const existing = doctors.find(d => d.id === doctor.id);
+
+      if (existing) {
+        throw new ConcurrencyConflictError('Doctor', doctor.id, 0, existing.version || 0);
+      }
+
+      const savedDoctor: Doctor = { ...doctor, version: 1 };
+      doctors.push(savedDoctor);
+      await this.dataSource.saveDoctors(doctors);
+      return savedDoctor;
+    });
   }
 
-  async updateDoctor(doctor: Doctor): Promise<void> {
-    const doctors = await this.dataSource.getDoctors();
-    const index = doctors.findIndex(d => d.id === doctor.id);
-    
-    if (index === -1) {
-      throw new Error(`Doctor with ID ${doctor.id} not found`);
-    }
-    
-    doctors[index] = doctor;
-    await this.dataSource.saveDoctors(doctors);
+  async updateDoctor(doctor: Doctor): Promise<Doctor> {
+    return await this.dataSource.runExclusive(async () => {
+      const doctors = await this.getStoredDoctors();
+      const index = doctors.findIndex(d => d.id === doctor.id);
+      
+      if (index === -1) {
+        throw new Error(`Doctor with ID ${doctor.id} not found`);
+      }
+
+      const savedDoctor: Doctor = {
+        ...doctor,
+        version: this.nextVersion('Doctor', doctor, doctors[index])
+      };
+      
+      doctors[index] = savedDoctor;
+      await this.dataSource.saveDoctors(doctors);
+      return savedDoctor;
+    });
   }
 
   async getDoctorsBySpecialty(specialty: string): Promise<Doctor[]> {
-    const doctors = await this.dataSource.getDoctors();
+    const doctors = await this.getDoctors();
     return doctors.filter(doctor => 
       doctor.specialties.some(s => 
         s.toLowerCase().includes(specialty.toLowerCase())
@@ -48,54 +76,74 @@ export class AppointmentRepositoryImpl implements IAppointmentRepository {
 
   // Appointment operations
   async getAppointments(): Promise<Appointment[]> {
-    return await this.dataSource.getAppointments();
+    return await this.withoutInvalidAppointments(await this.dataSource.getAppointments());
   }
 
   async getAppointmentById(id: string): Promise<Appointment | null> {
-    const appointments = await this.dataSource.getAppointments();
-    return appointments.find(appointment => appointment.id === id) || null;
+    const [appointment] = await this.withoutInvalidAppointments(
+      this.asList(await this.dataSource.getAppointmentById(id))
+    );
+    return appointment || null;
   }
 
-  async createAppointment(appointment: Appointment): Promise<void> {
-    const appointments = await this.dataSource.getAppointments();
-    appointments.push(appointment);
-    await this.dataSource.saveAppointments(appointments);
+  async createAppointment(appointment: Appointment, precondition?: WritePrecondition): Promise<Appointment> {
+    return await this.dataSource.runExclusive(async () => {
+      if (precondition) {
+        await precondition();
+      }
+
+      const existing = await this.getStoredAppointment(appointment.id);
+
+      if (existing) {
+        throw new ConcurrencyConflictError('Appointment', appointment.id, 0, existing.version || 0);
+      }
+
+      const savedAppointment: Appointment = { ...appointment, version: 1 };
+      await this.dataSource.saveAppointment(savedAppointment);
+      return savedAppointment;
+    });
   }
 
-  async updateAppointment(appointment: Appointment): Promise<void> {
-    const appointments = await this.dataSource.getAppointments();
-    const index = appointments.findIndex(a => a.id === appointment.id);
-    
-    if (index === -1) {
-      throw new Error(`Appointment with ID ${appointment.id} not found`);
-    }
-    
-    appointments[index] = appointment;
-    await this.dataSource.saveAppointments(appointments);
+  async updateAppointment(appointment: Appointment, precondition?: WritePrecondition): Promise<Appointment> {
+    return await this.dataSource.runExclusive(async () => {
+      const existing = await this.getStoredAppointment(appointment.id);
+      
+      if (!existing) {
+        throw new Error(`Appointment with ID ${appointment.id} not found`);
+      }
+
+      const version = this.nextVersion('Appointment', appointment, existing);
+
+      if (precondition) {
+        await precondition();
+      }
+
+      const savedAppointment: Appointment = { ...appointment, version };
+      await this.dataSource.saveAppointment(savedAppointment);
+      return savedAppointment;
+    });
   }
 
   async deleteAppointment(id: string): Promise<void> {
-    const appointments = await this.dataSource.getAppointments();
-    const filteredAppointments = appointments.filter(a => a.id !== id);
-    
-    if (filteredAppointments.length === appointments.length) {
-      throw new Error(`Appointment with ID ${id} not found`);
-    }
-    
-    await this.dataSource.saveAppointments(filteredAppointments);
+    await this.dataSource.runExclusive(async () => {
+      const existing = await this.getStoredAppointment(id);
+      
+      if (!existing) {
+        throw new Error(`Appointment with ID ${id} not found`);
+      }
+      
+      await this.dataSource.deleteAppointment(id);
+    });
   }
 
   // Query operations
   async getAppointmentsByDoctorId(doctorId: string): Promise<Appointment[]> {
-    const appointments = await this.dataSource.getAppointments();
-    return appointments.filter(appointment => appointment.doctorId === doctorId);
+    return await this.withoutInvalidAppointments(await this.dataSource.getAppointmentsByDoctor(doctorId));
   }
 
-  async getAppointmentsByOwner(ownerName: string): Promise<Appointment[]> {
-    const appointments = await this.dataSource.getAppointments();
-    return appointments.filter(appointment => 
-      appointment.ownerName.toLowerCase().includes(ownerName.toLowerCase())
-    );
+  async getAppointmentsByOwner(ownerId: string): Promise<Appointment[]> {
+    const appointments = await this.getAppointments();
+    return appointments.filter(appointment => appointment.ownerId === ownerId);
   }
 
   async getAppointmentsByDoctorAndDateRange(
@@ -103,7 +151,10 @@ export class AppointmentRepositoryImpl implements IAppointmentRepository {
     startDate: string,
     endDate: string
   ): Promise<Appointment[]> {
-    const appointments = await this.dataSource.getAppointments();
+    // The indexes narrow the candidates down to the doctor's appointments on the range's days
+    const appointments = await this.withoutInvalidAppointments(
+      await this.dataSource.getAppointmentsInRange(startDate, endDate, doctorId)
+    );
     const start = new Date(startDate);
     const end = new Date(endDate);
     
@@ -128,7 +179,9 @@ export class AppointmentRepositoryImpl implements IAppointmentRepository {
     startDate: string,
     endDate: string
   ): Promise<Appointment[]> {
-    const appointments = await this.dataSource.getAppointments();
+    const appointments = await this.withoutInvalidAppointments(
+      await this.dataSource.getAppointmentsInRange(startDate, endDate)
+    );
     const start = new Date(startDate);
     const end = new Date(endDate);
     
@@ -153,4 +206,53 @@ export class AppointmentRepositoryImpl implements IAppointmentRepository {
   async clearAllData(): Promise<void> {
     await this.dataSource.clearAllData();
   }
+
+  private async withoutInvalidAppointments(appointments: Array<StoredRecord<Appointment>>): Promise<Appointment[]> {
+    return await withoutInvalid(this.quarantineRepository, 'appointments', appointments, validateAppointment);
+  }
+
+  /**
+   * Reads the doctors to change and save back
+   * A list that cannot be read is quarantined before it is written over.
+   */
+  private async getStoredDoctors(): Promise<Doctor[]> {
+    return await withoutInvalid(this.quarantineRepository, 'doctors', await this.dataSource.getDoctors());
+  }
+
+  /**
+   * Reads an appointment to check a write against
+   * A record that cannot be read is quarantined and counts as missing, so it
+   * can be written over.
+   */
+  private async getStoredAppointment(id: string): Promise<Appointment | null> {
+    const [appointment] = await withoutInvalid(
+      this.quarantineRepository,
+      'appointments',
+      this.asList(await this.dataSource.getAppointmentById(id))
+    );
+    return appointment || null;
+  }
+
+  private asList<T>(record: T | null): T[] {
+    return record ? [record] : [];
+  }
+
+  /**
+   * Checks that a record is saved from its latest stored version and returns the version to save
+   * Records stored before versioning count as version 0.
+   */
+  private nextVersion(
+    entityType: VersionedEntityType,
+    record: Appointment | Doctor,
+    stored: Appointment | Doctor
+  ): number {
+    const expectedVersion = record.version || 0;
+    const actualVersion = stored.version || 0;
+
+    if (expectedVersion !== actualVersion) {
+      throw new ConcurrencyConflictError(entityType, record.id, expectedVersion, actualVersion);
+    }
+
+    return actualVersion + 1;
+  }
 }
\ No newline at end of file
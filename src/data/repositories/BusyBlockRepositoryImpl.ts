@@ -0,0 +1,60 @@
+import { BusyBlock } from '../../domain/entities/BusyBlock';
+import { IBusyBlockRepository } from '../../domain/repositories/IBusyBlockRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the busy block repository on top of a data source
+ */
+export class BusyBlockRepositoryImpl implements IBusyBlockRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // Query operations
+  async getBusyBlocksByDoctor(doctorId: string): Promise<BusyBlock[]> {
+    const blocks = await this.getStoredBlocks();
+    return blocks.filter(block => block.doctorId === doctorId);
+  }
+
+  // Import operations
+  async replaceBusyBlocks(
+    doctorId: string,
+    source: string,
+    uids: string[],
+    newBlocks: BusyBlock[]
+  ): Promise<BusyBlock[]> {
+    return await this.dataSource.runExclusive(async () => {
+      const replacedUids = new Set(uids);
+      const blocks = await this.getStoredBlocks();
+      const isReplaced = (block: BusyBlock) =>
+        block.doctorId === doctorId && (block.source === source || replacedUids.has(block.uid));
+
+      await this.dataSource.saveBusyBlocks([...blocks.filter(block => !isReplaced(block)), ...newBlocks]);
+      return blocks.filter(isReplaced);
+    });
+  }
+
+  async deleteBusyBlocksBySource(doctorId: string, source: string): Promise<BusyBlock[]> {
+    return await this.dataSource.runExclusive(async () => {
+      const blocks = await this.getStoredBlocks();
+      const isRemoved = (block: BusyBlock) => block.doctorId === doctorId && block.source === source;
+      const removedBlocks = blocks.filter(isRemoved);
+
+      if (removedBlocks.length > 0) {
+        await this.dataSource.saveBusyBlocks(blocks.filter(block => !isRemoved(block)));
+      }
+
+      return removedBlocks;
+    });
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredBlocks(): Promise<BusyBlock[]> {
+    return await withoutInvalid(this.quarantineRepository, 'busyBlocks', await this.dataSource.getBusyBlocks());
+  }
+}
@@ -0,0 +1,20 @@
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import { IClinicPolicyRepository } from '../../domain/repositories/IClinicPolicyRepository';
+import { DEFAULT_CLINIC_POLICY } from '../../domain/policies/clinicPolicy';
+import { DataSource } from '../datasources/DataSource';
+
+/**
+ * Implementation of the clinic policy repository on top of a data source
+ */
+export class ClinicPolicyRepositoryImpl implements IClinicPolicyRepository {
+  constructor(private dataSource: DataSource) {}
+
+  // Policy operations
+  async getClinicPolicy(): Promise<ClinicPolicy> {
+    return (await this.dataSource.getClinicPolicy()) || DEFAULT_CLINIC_POLICY;
+  }
+
+  async saveClinicPolicy(policy: ClinicPolicy): Promise<void> {
+    await this.dataSource.saveClinicPolicy(policy);
+  }
+}
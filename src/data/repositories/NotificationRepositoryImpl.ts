@@ -0,0 +1,49 @@
+import { AppNotification } from '../../domain/entities/Notification';
+import { INotificationRepository } from '../../domain/repositories/INotificationRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the notification repository on top of a data source
+ */
+export class NotificationRepositoryImpl implements INotificationRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // Notification operations
+  async getNotificationsByOwner(ownerId: string): Promise<AppNotification[]> {
+    const notifications = await this.getStoredNotifications();
+    return notifications
+      .filter(notification => notification.ownerId === ownerId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+  }
+
+  async createNotification(notification: AppNotification): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const notifications = await this.getStoredNotifications();
+      notifications.push(notification);
+      await this.dataSource.saveNotifications(notifications);
+    });
+  }
+
+  async markNotificationsRead(ownerId: string): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const notifications = await this.getStoredNotifications();
+      await this.dataSource.saveNotifications(
+        notifications.map(notification =>
+          notification.ownerId === ownerId ? { ...notification, read: true } : notification
+        )
+      );
+    });
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredNotifications(): Promise<AppNotification[]> {
+    return await withoutInvalid(this.quarantineRepository, 'notifications', await this.dataSource.getNotifications());
+  }
+}
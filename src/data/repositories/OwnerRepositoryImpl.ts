@@ -0,0 +1,50 @@
+import { Owner } from '../../domain/entities/Owner';
+import { IOwnerRepository } from '../../domain/repositories/IOwnerRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the owner repository on top of a data source
+ */
+export class OwnerRepositoryImpl implements IOwnerRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // Owner operations
+  async getOwners(): Promise<Owner[]> {
+    return await this.getStoredOwners();
+  }
+
+  async getOwnerById(id: string): Promise<Owner | null> {
+    const owners = await this.getStoredOwners();
+    return owners.find(owner => owner.id === id) || null;
+  }
+
+  async createOwner(owner: Owner): Promise<void> {
+    const owners = await this.getStoredOwners();
+    owners.push(owner);
+    await this.dataSource.saveOwners(owners);
+  }
+
+  async updateOwner(owner: Owner): Promise<void> {
+    const owners = await this.getStoredOwners();
+    const index = owners.findIndex(o => o.id === owner.id);
+
+    if (index === -1) {
+      throw new Error(`Owner with ID ${owner.id} not found`);
+    }
+
+    owners[index] = owner;
+    await this.dataSource.saveOwners(owners);
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredOwners(): Promise<Owner[]> {
+    return await withoutInvalid(this.quarantineRepository, 'owners', await this.dataSource.getOwners());
+  }
+}
@@ -0,0 +1,72 @@
+import { CommandConflict, PendingCommand } from '../../domain/entities/PendingCommand';
+import { IPendingCommandRepository } from '../../domain/repositories/IPendingCommandRepository';
+import { DataSource } from '../datasources/DataSource';
+
+/**
+ * Implementation of the pending command repository on top of a data source
+ */
+export class PendingCommandRepositoryImpl implements IPendingCommandRepository {
+  constructor(private dataSource: DataSource) {}
+
+  // Pending command operations
+  async getPendingCommands(): Promise<PendingCommand[]> {
+    return await this.dataSource.getPendingCommands();
+  }
+
+  async addPendingCommand(command: PendingCommand): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const commands = await this.dataSource.getPendingCommands();
+      commands.push(command);
+      await this.dataSource.savePendingCommands(commands);
+    });
+  }
+
+  async updatePendingCommand(command: PendingCommand): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const commands = await this.dataSource.getPendingCommands();
+      const index = commands.findIndex(existing => existing.id === command.id);
+
+      if (index === -1) {
+        throw new Error(`Pending command with ID ${command.id} not found`);
+      }
+
+      commands[index] = command;
+      await this.dataSource.savePendingCommands(commands);
+    });
+  }
+
+  async deletePendingCommand(id: string): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const commands = await this.dataSource.getPendingCommands();
+      const remainingCommands = commands.filter(command => command.id !== id);
+
+      if (remainingCommands.length !== commands.length) {
+        await this.dataSource.savePendingCommands(remainingCommands);
+      }
+    });
+  }
+
+  // Conflict operations
+  async getConflicts(): Promise<CommandConflict[]> {
+    return await this.dataSource.getCommandConflicts();
+  }
+
+  async addConflict(conflict: CommandConflict): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const conflicts = await this.dataSource.getCommandConflicts();
+      conflicts.push(conflict);
+      await this.dataSource.saveCommandConflicts(conflicts);
+    });
+  }
+
+  async deleteConflict(id: string): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const conflicts = await this.dataSource.getCommandConflicts();
+      const remainingConflicts = conflicts.filter(conflict => conflict.id !== id);
+
+      if (remainingConflicts.length !== conflicts.length) {
+        await this.dataSource.saveCommandConflicts(remainingConflicts);
+      }
+    });
+  }
+}
@@ -0,0 +1,67 @@
+import { Pet } from '../../domain/entities/Pet';
+import { IPetRepository } from '../../domain/repositories/IPetRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the pet repository on top of a data source
+ */
+export class PetRepositoryImpl implements IPetRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // Pet operations
+  async getPets(): Promise<Pet[]> {
+    return await this.getStoredPets();
+  }
+
+  async getPetById(id: string): Promise<Pet | null> {
+    const pets = await this.getStoredPets();
+    return pets.find(pet => pet.id === id) || null;
+  }
+
+  async createPet(pet: Pet): Promise<void> {
+    const pets = await this.getStoredPets();
+    pets.push(pet);
+    await this.dataSource.savePets(pets);
+  }
+
+  async updatePet(pet: Pet): Promise<void> {
+    const pets = await this.getStoredPets();
+    const index = pets.findIndex(p => p.id === pet.id);
+
+    if (index === -1) {
+      throw new Error(`Pet with ID ${pet.id} not found`);
+    }
+
+    pets[index] = pet;
+    await this.dataSource.savePets(pets);
+  }
+
+  async deletePet(id: string): Promise<void> {
+    const pets = await this.getStoredPets();
+    const filteredPets = pets.filter(p => p.id !== id);
+
+    if (filteredPets.length === pets.length) {
+      throw new Error(`Pet with ID ${id} not found`);
+    }
+
+    await this.dataSource.savePets(filteredPets);
+  }
+
+  // Query operations
+  async getPetsByOwner(ownerId: string): Promise<Pet[]> {
+    const pets = await this.getStoredPets();
+    return pets.filter(pet => pet.ownerId === ownerId);
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredPets(): Promise<Pet[]> {
+    return await withoutInvalid(this.quarantineRepository, 'pets', await this.dataSource.getPets());
+  }
+}
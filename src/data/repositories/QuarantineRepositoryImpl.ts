@@ -0,0 +1,81 @@
+import { QuarantinedRecord, QuarantineSource } from '../../domain/entities/QuarantinedRecord';
+import { InvalidRecord, IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+
+/**
+ * Implementation of the quarantine repository on top of a data source
+ * Records are quarantined while other data is being read, often inside the
+ * data source's write queue, so quarantine writes are serialized on their own
+ * queue instead of joining that one.
+ */
+export class QuarantineRepositoryImpl implements IQuarantineRepository {
+  private writeQueue: Promise<unknown> = Promise.resolve();
+
+  constructor(private dataSource: DataSource) {}
+
+  // Quarantine operations
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    return await this.dataSource.getQuarantinedRecords();
+  }
+
+  async quarantineRecords(source: QuarantineSource, records: InvalidRecord[]): Promise<void> {
+    if (records.length === 0) {
+      return;
+    }
+
+    await this.enqueue(async () => {
+      const quarantined = await this.dataSource.getQuarantinedRecords();
+      const byId = new Map(quarantined.map(record => [record.id, record]));
+      let changed = false;
+
+      records.forEach(invalid => {
+        const { record, errors } = invalid;
+        const recordId = invalid.recordId ?? this.getRecordId(record);
+        const data = invalid.data ?? JSON.stringify(record) ?? String(record);
+        const id = `${source}:${recordId ?? data}`;
+        const existing = byId.get(id);
+
+        // Bad records are found again on every read; only report new problems
+        if (existing && existing.data === data) {
+          return;
+        }
+
+        console.warn(`Quarantined invalid ${source} record ${recordId ?? '(no ID)'}:`, errors.join('; '));
+        byId.set(id, {
+          id,
+          source,
+          recordId,
+          data,
+          errors,
+          quarantinedAt: new Date().toISOString()
+        });
+        changed = true;
+      });
+
+      if (changed) {
+        await this.dataSource.saveQuarantinedRecords([...byId.values()]);
+      }
+    });
+  }
+
+  async deleteQuarantinedRecord(id: string): Promise<void> {
+    await this.enqueue(async () => {
+      const quarantined = await this.dataSource.getQuarantinedRecords();
+      await this.dataSource.saveQuarantinedRecords(quarantined.filter(record => record.id !== id));
+    });
+  }
+
+  private getRecordId(record: unknown): string | undefined {
+    if (typeof record === 'object' && record !== null && 'id' in record) {
+      const { id } = record as { id: unknown };
+      return typeof id === 'string' && id ? id : undefined;
+    }
+    return undefined;
+  }
+
+  private enqueue(task: () => Promise<void>): Promise<void> {
+    const result = this.writeQueue.then(task);
+    this.writeQueue = result.then(() => undefined, () => undefined);
+    return result;
+  }
+}
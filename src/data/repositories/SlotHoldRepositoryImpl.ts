@@ -0,0 +1,73 @@
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { ISlotHoldRepository } from '../../domain/repositories/ISlotHoldRepository';
+import { WritePrecondition } from '../../domain/repositories/IAppointmentRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the slot hold repository on top of a data source
+ */
+export class SlotHoldRepositoryImpl implements ISlotHoldRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // Hold operations
+  async getHoldById(id: string): Promise<SlotHold | null> {
+    const holds = await this.getStoredHolds();
+    return holds.find(hold => hold.id === id) || null;
+  }
+
+  async createHold(hold: SlotHold, precondition?: WritePrecondition): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      if (precondition) {
+        await precondition();
+      }
+
+      const holds = await this.getStoredHolds();
+      holds.push(hold);
+      await this.dataSource.saveSlotHolds(holds);
+    });
+  }
+
+  async deleteHold(id: string): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const holds = await this.getStoredHolds();
+      const remainingHolds = holds.filter(hold => hold.id !== id);
+
+      // Releasing a hold that was already swept or booked is not an error
+      if (remainingHolds.length !== holds.length) {
+        await this.dataSource.saveSlotHolds(remainingHolds);
+      }
+    });
+  }
+
+  // Query operations
+  async getActiveHoldsByDoctor(doctorId: string, now: Date): Promise<SlotHold[]> {
+    const holds = await this.getStoredHolds();
+    return holds.filter(hold => hold.doctorId === doctorId && new Date(hold.expiresAt) > now);
+  }
+
+  // Utility operations
+  async deleteExpiredHolds(now: Date): Promise<SlotHold[]> {
+    return await this.dataSource.runExclusive(async () => {
+      const holds = await this.getStoredHolds();
+      const expiredHolds = holds.filter(hold => new Date(hold.expiresAt) <= now);
+
+      if (expiredHolds.length > 0) {
+        await this.dataSource.saveSlotHolds(holds.filter(hold => new Date(hold.expiresAt) > now));
+      }
+
+      return expiredHolds;
+    });
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredHolds(): Promise<SlotHold[]> {
+    return await withoutInvalid(this.quarantineRepository, 'slotHolds', await this.dataSource.getSlotHolds());
+  }
+}
@@ -0,0 +1,59 @@
+import { UserAccount } from '../../domain/entities/User';
+import { IUserRepository } from '../../domain/repositories/IUserRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the user repository on top of a data source
+ */
+export class UserRepositoryImpl implements IUserRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // User operations
+  async getUsers(): Promise<UserAccount[]> {
+    return await this.getStoredUsers();
+  }
+
+  async getUserById(id: string): Promise<UserAccount | null> {
+    const users = await this.getStoredUsers();
+    return users.find(user => user.id === id) || null;
+  }
+
+  async createUser(user: UserAccount): Promise<void> {
+    const users = await this.getStoredUsers();
+    users.push(user);
+    await this.dataSource.saveUsers(users);
+  }
+
+  async updateUser(user: UserAccount): Promise<void> {
+    const users = await this.getStoredUsers();
+    const index = users.findIndex(u => u.id === user.id);
+
+    if (index === -1) {
+      throw new Error(`User with ID ${user.id} not found`);
+    }
+
+    users[index] = user;
+    await this.dataSource.saveUsers(users);
+  }
+
+  // Session operations
+  async getSessionUserId(): Promise<string | null> {
+    return await this.dataSource.getSessionUserId();
+  }
+
+  async setSessionUserId(userId: string | null): Promise<void> {
+    await this.dataSource.setSessionUserId(userId);
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredUsers(): Promise<UserAccount[]> {
+    return await withoutInvalid(this.quarantineRepository, 'users', await this.dataSource.getUsers());
+  }
+}
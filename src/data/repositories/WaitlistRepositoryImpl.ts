@@ -0,0 +1,65 @@
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { IWaitlistRepository } from '../../domain/repositories/IWaitlistRepository';
+import { IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { DataSource } from '../datasources/DataSource';
+import { withoutInvalid } from './withoutInvalid';
+
+/**
+ * Implementation of the waitlist repository on top of a data source
+ */
+export class WaitlistRepositoryImpl implements IWaitlistRepository {
+  constructor(
+    private dataSource: DataSource,
+    private quarantineRepository: IQuarantineRepository
+  ) {}
+
+  // Waitlist operations
+  async getWaitlistEntries(): Promise<WaitlistEntry[]> {
+    return await this.getStoredEntries();
+  }
+
+  async getWaitlistEntryById(id: string): Promise<WaitlistEntry | null> {
+    const entries = await this.getStoredEntries();
+    return entries.find(entry => entry.id === id) || null;
+  }
+
+  async createWaitlistEntry(entry: WaitlistEntry): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const entries = await this.getStoredEntries();
+      entries.push(entry);
+      await this.dataSource.saveWaitlist(entries);
+    });
+  }
+
+  async updateWaitlistEntry(entry: WaitlistEntry): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      const entries = await this.getStoredEntries();
+      const index = entries.findIndex(e => e.id === entry.id);
+
+      if (index === -1) {
+        throw new Error(`Waitlist entry with ID ${entry.id} not found`);
+      }
+
+      entries[index] = entry;
+      await this.dataSource.saveWaitlist(entries);
+    });
+  }
+
+  // Query operations
+  async getWaitlistEntriesByDoctor(doctorId: string): Promise<WaitlistEntry[]> {
+    const entries = await this.getStoredEntries();
+    return entries.filter(entry => entry.doctorId === doctorId);
+  }
+
+  async getWaitlistEntriesByOwner(ownerId: string): Promise<WaitlistEntry[]> {
+    const entries = await this.getStoredEntries();
+    return entries.filter(entry => entry.ownerId === ownerId);
+  }
+
+  /**
+   * Reads the stored list, quarantining it if it cannot be read
+   */
+  private async getStoredEntries(): Promise<WaitlistEntry[]> {
+    return await withoutInvalid(this.quarantineRepository, 'waitlist', await this.dataSource.getWaitlist());
+  }
+}
@@ -0,0 +1,47 @@
+import { QuarantineSource } from '../../domain/entities/QuarantinedRecord';
+import { InvalidRecord, IQuarantineRepository } from '../../domain/repositories/IQuarantineRepository';
+import { isUnreadableRecord, StoredRecord } from '../datasources/DataSource';
+
+/**
+ * Leaves the records that could not be read or fail validation out of a read
+ * and quarantines them
+ * A failure to quarantine is logged rather than failing the read.
+ * @param quarantineRepository - Where to set the bad records aside
+ * @param source - The collection the records were read from
+ * @param records - The records as the data source returned them
+ * @param validate - Returns what is wrong with a record (default: only unreadable records are set aside)
+ * @returns Promise<T[]> - The good records, in their stored order
+ */
+export async function withoutInvalid<T>(
+  quarantineRepository: IQuarantineRepository,
+  source: QuarantineSource,
+  records: Array<StoredRecord<T>>,
+  validate: (record: unknown) => string[] = () => []
+): Promise<T[]> {
+  const validRecords: T[] = [];
+  const invalidRecords: InvalidRecord[] = [];
+
+  records.forEach(record => {
+    if (isUnreadableRecord(record)) {
+      invalidRecords.push({ record: undefined, data: record.data, recordId: record.recordId, errors: [record.error] });
+      return;
+    }
+
+    const errors = validate(record);
+    if (errors.length > 0) {
+      invalidRecords.push({ record, errors });
+    } else {
+      validRecords.push(record);
+    }
+  });
+
+  if (invalidRecords.length > 0) {
+    try {
+      await quarantineRepository.quarantineRecords(source, invalidRecords);
+    } catch (error) {
+      console.error(`Error quarantining invalid ${source}:`, error);
+    }
+  }
+
+  return validRecords;
+}
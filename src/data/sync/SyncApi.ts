@@ -0,0 +1,93 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { Doctor } from '../../domain/entities/Doctor';
+import { SyncNetworkError } from './SyncNetworkError';
+
+/**
+ * REST contract with the clinic sync server
+ *
+ * GET  /sync/changes?since=<cursor>  -> PullResponse
+ *   Every change the server accepted after the cursor, oldest first
+ * POST /sync/changes  { changes: SyncChange[] }  -> PushResponse
+ *   Applies each change unless the server holds a newer write of the record
+ *
+ * Records travel without their local `version`; versions are per device.
+ */
+
+export type SyncCollection = 'appointments' | 'doctors';
+
+export type SyncRecord = Appointment | Doctor;
+
+export interface SyncChange {
+  collection: SyncCollection;
+  id: string;
+  record: SyncRecord | null; // Null when the record was deleted
+  updatedAt: string; // ISO date of the write; the later write wins a conflict
+}
+
+export interface PullResponse {
+  changes: SyncChange[];
+  cursor: number; // Pass as `since` on the next pull
+}
+
+export interface PushResult {
+  collection: SyncCollection;
+  id: string;
+  status: 'applied' | 'stale'; // Stale: the server already holds a newer write
+  current?: SyncChange; // The server's write, when stale
+}
+
+export interface PushResponse {
+  results: PushResult[];
+}
+
+/**
+ * Moves changes between the device and the sync server
+ */
+export interface SyncTransport {
+  pull(since: number): Promise<PullResponse>;
+  push(changes: SyncChange[]): Promise<PushResponse>;
+}
+
+const REQUEST_TIMEOUT_MS = 10000;
+
+/**
+ * Sync transport over HTTP using fetch
+ */
+export class HttpSyncTransport implements SyncTransport {
+  constructor(
+    private baseUrl: string,
+    private timeoutMs: number = REQUEST_TIMEOUT_MS
+  ) {}
+
+  async pull(since: number): Promise<PullResponse> {
+    return await this.request<PullResponse>(`/sync/changes?since=${since}`);
+  }
+
+  async push(changes: SyncChange[]): Promise<PushResponse> {
+    return await this.request<PushResponse>('/sync/changes', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ changes })
+    });
+  }
+
+  private async request<T>(path: string, init: RequestInit = {}): Promise<T> {
+    const controller = new AbortController();
+    const timeout = setTimeout(() => controller.abort(), this.timeoutMs);
+    let response: Response;
+
+    try {
+      response = await fetch(`${this.baseUrl}${path}`, { ...init, signal: controller.signal });
+    } catch (error) {
+      throw new SyncNetworkError(error instanceof Error ? error.message : 'Request failed', error);
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (!response.ok) {
+      throw new Error(`Sync server responded with status ${response.status}`);
+    }
+
+    return await response.json() as T;
+  }
+}
@@ -0,0 +1,251 @@
+import { Appointment } from '../../domain/entities/Appointment';
+import { Doctor } from '../../domain/entities/Doctor';
+import { DataSource, isUnreadableRecord, readableRecords } from '../datasources/DataSource';
+import { PushResult, SyncChange, SyncTransport } from './SyncApi';
+import { INITIAL_SYNC_STATE, OutboxEntry, SyncState } from './SyncState';
+import { SyncNetworkError } from './SyncNetworkError';
+import { MergeStrategy, isSameRecord, mergeChanges, withoutVersion } from './merge';
+
+export type SyncPhase = 'idle' | 'syncing' | 'offline' | 'error';
+
+export interface SyncStatus {
+  phase: SyncPhase;
+  pendingChanges: number; // Local changes not yet on the server
+  lastSyncedAt?: string; // ISO date of the last sync that reached the server
+  error?: string;
+}
+
+const isSameTarget = (change: SyncChange, target: { collection: string; id: string }) =>
+  change.collection === target.collection && change.id === target.id;
+
+/**
+ * Pushes the outbox to the sync server and pulls the changes other devices made
+ * Network calls run outside the data source's write queue so local bookings are
+ * not held up; their results are applied inside it. Local edits made while a
+ * sync is in flight stay in the outbox for the next one.
+ */
+export class SyncEngine {
+  private runningSync: Promise<SyncStatus> | null = null;
+
+  constructor(
+    private dataSource: DataSource, // The unwrapped data source, so applied remote changes are not pushed back
+    private transport: SyncTransport,
+    private mergeStrategy: MergeStrategy = 'fieldLevel'
+  ) {}
+
+  /**
+   * Gets the sync status without contacting the server
+   * @returns Promise<SyncStatus> - Idle status with the number of pending changes
+   */
+  async getStatus(): Promise<SyncStatus> {
+    const state = await this.getState();
+    return {
+      phase: 'idle',
+      pendingChanges: state.outbox.length,
+      lastSyncedAt: state.lastSyncedAt
+    };
+  }
+
+  /**
+   * Pushes local changes and pulls remote ones; calls made while a sync is
+   * running share its result
+   * Never throws: an unreachable server is reported as offline.
+   * @returns Promise<SyncStatus> - The status after the sync
+   */
+  sync(): Promise<SyncStatus> {
+    if (!this.runningSync) {
+      this.runningSync = this.runSync().finally(() => {
+        this.runningSync = null;
+      });
+    }
+    return this.runningSync;
+  }
+
+  private async runSync(): Promise<SyncStatus> {
+    try {
+      await this.startTracking();
+      // Pull first: the server keeps the later write of a whole record, so
+      // local edits are merged with remote ones before they are pushed
+      await this.pullChanges();
+      await this.pushOutbox();
+
+      const state = await this.dataSource.runExclusive(async () => {
+        const latest = await this.getState();
+        latest.lastSyncedAt = new Date().toISOString();
+        await this.dataSource.saveSyncState(latest);
+        return latest;
+      });
+
+      return {
+        phase: 'idle',
+        pendingChanges: state.outbox.length,
+        lastSyncedAt: state.lastSyncedAt
+      };
+    } catch (error) {
+      const status = await this.getStatus();
+      console.error('Error syncing:', error);
+      return {
+        ...status,
+        phase: error instanceof SyncNetworkError ? 'offline' : 'error',
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Queues everything already on the device the first time it syncs
+   */
+  private async startTracking(): Promise<void> {
+    await this.dataSource.runExclusive(async () => {
+      if (await this.dataSource.getSyncState()) {
+        return;
+      }
+
+      const queuedAt = new Date().toISOString();
+      const toEntry = (collection: 'appointments' | 'doctors', record: Appointment | Doctor): OutboxEntry => ({
+        change: { collection, id: record.id, record: withoutVersion(record), updatedAt: queuedAt },
+        base: null
+      });
+
+      const appointments = readableRecords(await this.dataSource.getAppointments());
+      const doctors = readableRecords(await this.dataSource.getDoctors());
+
+      await this.dataSource.saveSyncState({
+        ...INITIAL_SYNC_STATE,
+        outbox: [
+          ...doctors.map(doctor => toEntry('doctors', doctor)),
+          ...appointments.map(appointment => toEntry('appointments', appointment))
+        ]
+      });
+    });
+  }
+
+  private async pushOutbox(): Promise<void> {
+    const pushed = (await this.getState()).outbox;
+    if (pushed.length === 0) {
+      return;
+    }
+
+    const { results } = await this.transport.push(pushed.map(entry => entry.change));
+
+    await this.dataSource.runExclusive(async () => {
+      const state = await this.getState();
+
+      for (const result of results) {
+        await this.applyPushResult(state, pushed, result);
+      }
+
+      await this.dataSource.saveSyncState(state);
+    });
+  }
+
+  private async applyPushResult(state: SyncState, pushed: OutboxEntry[], result: PushResult): Promise<void> {
+    const pushedEntry = pushed.find(entry => isSameTarget(entry.change, result));
+    const index = state.outbox.findIndex(entry => isSameTarget(entry.change, result));
+    if (!pushedEntry || index === -1) {
+      return;
+    }
+
+    const entry = state.outbox[index];
+    const editedSincePush = entry.change.updatedAt !== pushedEntry.change.updatedAt;
+
+    if (result.status === 'stale' && result.current) {
+      await this.resolveConflict(state, index, result.current);
+    } else if (editedSincePush) {
+      // The server has the pushed write; the newer edit still needs pushing
+      state.outbox[index] = { ...entry, base: pushedEntry.change.record };
+    } else {
+      state.outbox.splice(index, 1);
+    }
+  }
+
+  private async pullChanges(): Promise<void> {
+    const since = (await this.getState()).cursor;
+    const { changes, cursor } = await this.transport.pull(since);
+
+    await this.dataSource.runExclusive(async () => {
+      const state = await this.getState();
+
+      for (const change of changes) {
+        const index = state.outbox.findIndex(entry => isSameTarget(entry.change, change));
+        if (index === -1) {
+          await this.applyLocally(change);
+        } else {
+          await this.resolveConflict(state, index, change);
+        }
+      }
+
+      // A device joining a clinic that already has data takes it instead of seeding samples
+      if (since === 0 && changes.length > 0) {
+        await this.dataSource.setInitialized();
+      }
+
+      state.cursor = cursor;
+      await this.dataSource.saveSyncState(state);
+    });
+  }
+
+  /**
+   * Merges a remote change into the outbox entry for the same record and
+   * saves the result locally; a result the server lacks is queued again
+   */
+  private async resolveConflict(state: SyncState, index: number, remote: SyncChange): Promise<void> {
+    const entry = state.outbox[index];
+    const merged = mergeChanges(entry, remote, this.mergeStrategy);
+    await this.applyLocally(merged);
+
+    if (isSameRecord(merged.record, remote.record)) {
+      state.outbox.splice(index, 1);
+    } else {
+      // Keeps the time of the write that won, which is never older than the
+      // server's copy, so the order of edits across devices is kept
+      state.outbox[index] = { change: merged, base: remote.record };
+    }
+  }
+
+  /**
+   * Saves a change to the device, bumping the local version so stale copies
+   * open on screen cannot overwrite it
+   */
+  private async applyLocally(change: SyncChange): Promise<void> {
+    if (change.collection === 'appointments') {
+      // The server's copy replaces, or its deletion removes, a local record that cannot be read
+      const stored = await this.dataSource.getAppointmentById(change.id);
+      const existing = isUnreadableRecord(stored) ? null : stored;
+
+      if (!change.record) {
+        if (stored) {
+          await this.dataSource.deleteAppointment(change.id);
+        }
+      } else if (!isSameRecord(existing, change.record)) {
+        await this.dataSource.saveAppointment({
+          ...(change.record as Appointment),
+          version: (existing?.version || 0) + 1
+        });
+      }
+      return;
+    }
+
+    const doctors = readableRecords(await this.dataSource.getDoctors());
+    const index = doctors.findIndex(doctor => doctor.id === change.id);
+    const existing = index === -1 ? null : doctors[index];
+
+    if (!change.record) {
+      if (existing) {
+        await this.dataSource.saveDoctors(doctors.filter(doctor => doctor.id !== change.id));
+      }
+    } else if (!isSameRecord(existing, change.record)) {
+      const doctor: Doctor = { ...(change.record as Doctor), version: (existing?.version || 0) + 1 };
+      if (index === -1) {
+        doctors.push(doctor);
+      } else {
+        doctors[index] = doctor;
+      }
+      await this.dataSource.saveDoctors(doctors);
+    }
+  }
+
+  private async getState(): Promise<SyncState> {
+    return (await this.dataSource.getSyncState()) || { ...INITIAL_SYNC_STATE, outbox: [] };
+  }
+}
@@ -0,0 +1,15 @@
+/**
+ * Thrown when the sync server cannot be reached
+ * Local changes stay in the outbox until a later sync gets through.
+ */
+export class SyncNetworkError extends Error {
+  constructor(
+    message: string,
+    public readonly originalError?: unknown
+  ) {
+    super(`Sync server unreachable: ${message}`);
+    this.name = 'SyncNetworkError';
+    // Keep instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, SyncNetworkError.prototype);
+  }
+}
@@ -0,0 +1,24 @@
+import { SyncChange, SyncRecord } from './SyncApi';
+
+/**
+ * A local change waiting to be pushed
+ * Several edits of one record before a push collapse into one entry.
+ */
+export interface OutboxEntry {
+  change: SyncChange; // The latest local write
+  base: SyncRecord | null; // The record before the first unpushed edit; null if created locally
+}
+
+/**
+ * Sync progress stored alongside the data
+ */
+export interface SyncState {
+  cursor: number; // Server cursor of the last pull
+  outbox: OutboxEntry[]; // Oldest first
+  lastSyncedAt?: string; // ISO date of the last sync that reached the server
+}
+
+export const INITIAL_SYNC_STATE: SyncState = {
+  cursor: 0,
+  outbox: []
+};
@@ -0,0 +1,275 @@
+import { Doctor } from '../../domain/entities/Doctor';
+import { Appointment } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { UserAccount } from '../../domain/entities/User';
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { AppNotification } from '../../domain/entities/Notification';
+import { SlotHold } from '../../domain/entities/SlotHold';
+import { BusyBlock } from '../../domain/entities/BusyBlock';
+import { QuarantinedRecord } from '../../domain/entities/QuarantinedRecord';
+import { CommandConflict, PendingCommand } from '../../domain/entities/PendingCommand';
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import { DataSource, isUnreadableRecord, readableRecords, StoredRecord } from '../datasources/DataSource';
+import { seedSampleData } from '../datasources/sampleData';
+import { SyncCollection, SyncRecord } from './SyncApi';
+import { INITIAL_SYNC_STATE, SyncState } from './SyncState';
+import { isSameRecord, withoutVersion } from './merge';
+
+interface LocalWrite {
+  collection: SyncCollection;
+  id: string;
+  record: SyncRecord | null; // Null when deleted
+  previous: SyncRecord | null; // Null when created
+}
+
+/**
+ * Wraps a data source and records every local write of an appointment or a
+ * doctor in the sync outbox
+ * The repositories write through this; the sync engine applies remote changes
+ * to the wrapped data source directly, so they are not pushed back.
+ */
+export class SyncingDataSource implements DataSource {
+  constructor(private dataSource: DataSource) {}
+
+  // Write coordination
+  runExclusive<T>(task: () => Promise<T>): Promise<T> {
+    return this.dataSource.runExclusive(task);
+  }
+
+  // Doctor operations
+  async getDoctors(): Promise<Array<StoredRecord<Doctor>>> {
+    return await this.dataSource.getDoctors();
+  }
+
+  async saveDoctors(doctors: Doctor[]): Promise<void> {
+    const previous = readableRecords(await this.dataSource.getDoctors());
+    const previousById = new Map(previous.map(doctor => [doctor.id, doctor]));
+    const savedIds = new Set(doctors.map(doctor => doctor.id));
+
+    await this.dataSource.saveDoctors(doctors);
+    await this.recordWrites([
+      ...doctors.map((doctor): LocalWrite => ({
+        collection: 'doctors',
+        id: doctor.id,
+        record: doctor,
+        previous: previousById.get(doctor.id) || null
+      })),
+      ...previous
+        .filter(doctor => !savedIds.has(doctor.id))
+        .map((doctor): LocalWrite => ({ collection: 'doctors', id: doctor.id, record: null, previous: doctor }))
+    ]);
+  }
+
+  // Appointment operations
+  async getAppointments(): Promise<Array<StoredRecord<Appointment>>> {
+    return await this.dataSource.getAppointments();
+  }
+
+  async getAppointmentById(id: string): Promise<StoredRecord<Appointment> | null> {
+    return await this.dataSource.getAppointmentById(id);
+  }
+
+  async getAppointmentsByDoctor(doctorId: string): Promise<Array<StoredRecord<Appointment>>> {
+    return await this.dataSource.getAppointmentsByDoctor(doctorId);
+  }
+
+  async getAppointmentsInRange(
+    startISO: string,
+    endISO: string,
+    doctorId?: string
+  ): Promise<Array<StoredRecord<Appointment>>> {
+    return await this.dataSource.getAppointmentsInRange(startISO, endISO, doctorId);
+  }
+
+  async saveAppointments(appointments: Appointment[]): Promise<void> {
+    const previous = await Promise.all(
+      appointments.map(appointment => this.getReadableAppointment(appointment.id))
+    );
+
+    await this.dataSource.saveAppointments(appointments);
+    await this.recordWrites(appointments.map((appointment, index) => ({
+      collection: 'appointments',
+      id: appointment.id,
+      record: appointment,
+      previous: previous[index]
+    })));
+  }
+
+  async saveAppointment(appointment: Appointment): Promise<void> {
+    await this.saveAppointments([appointment]);
+  }
+
+  async deleteAppointment(id: string): Promise<void> {
+    const previous = await this.getReadableAppointment(id);
+
+    await this.dataSource.deleteAppointment(id);
+    if (previous) {
+      await this.recordWrites([{ collection: 'appointments', id, record: null, previous }]);
+    }
+  }
+
+  // Pet, owner and account operations
+  async getPets(): Promise<Array<StoredRecord<Pet>>> {
+    return await this.dataSource.getPets();
+  }
+
+  async savePets(pets: Pet[]): Promise<void> {
+    await this.dataSource.savePets(pets);
+  }
+
+  async getOwners(): Promise<Array<StoredRecord<Owner>>> {
+    return await this.dataSource.getOwners();
+  }
+
+  async saveOwners(owners: Owner[]): Promise<void> {
+    await this.dataSource.saveOwners(owners);
+  }
+
+  async getUsers(): Promise<Array<StoredRecord<UserAccount>>> {
+    return await this.dataSource.getUsers();
+  }
+
+  async saveUsers(users: UserAccount[]): Promise<void> {
+    await this.dataSource.saveUsers(users);
+  }
+
+  // Waitlist, notification, slot hold and busy block operations
+  async getWaitlist(): Promise<Array<StoredRecord<WaitlistEntry>>> {
+    return await this.dataSource.getWaitlist();
+  }
+
+  async saveWaitlist(entries: WaitlistEntry[]): Promise<void> {
+    await this.dataSource.saveWaitlist(entries);
+  }
+
+  async getNotifications(): Promise<Array<StoredRecord<AppNotification>>> {
+    return await this.dataSource.getNotifications();
+  }
+
+  async saveNotifications(notifications: AppNotification[]): Promise<void> {
+    await this.dataSource.saveNotifications(notifications);
+  }
+
+  async getSlotHolds(): Promise<Array<StoredRecord<SlotHold>>> {
+    return await this.dataSource.getSlotHolds();
+  }
+
+  async saveSlotHolds(holds: SlotHold[]): Promise<void> {
+    await this.dataSource.saveSlotHolds(holds);
+  }
+
+  async getBusyBlocks(): Promise<Array<StoredRecord<BusyBlock>>> {
+    return await this.dataSource.getBusyBlocks();
+  }
+
+  async saveBusyBlocks(blocks: BusyBlock[]): Promise<void> {
+    await this.dataSource.saveBusyBlocks(blocks);
+  }
+
+  // Quarantine operations
+  async getQuarantinedRecords(): Promise<QuarantinedRecord[]> {
+    return await this.dataSource.getQuarantinedRecords();
+  }
+
+  async saveQuarantinedRecords(records: QuarantinedRecord[]): Promise<void> {
+    await this.dataSource.saveQuarantinedRecords(records);
+  }
+
+  // Sync operations
+  async getSyncState(): Promise<SyncState | null> {
+    return await this.dataSource.getSyncState();
+  }
+
+  async saveSyncState(state: SyncState): Promise<void> {
+    await this.dataSource.saveSyncState(state);
+  }
+
+  async getPendingCommands(): Promise<PendingCommand[]> {
+    return await this.dataSource.getPendingCommands();
+  }
+
+  async savePendingCommands(commands: PendingCommand[]): Promise<void> {
+    await this.dataSource.savePendingCommands(commands);
+  }
+
+  async getCommandConflicts(): Promise<CommandConflict[]> {
+    return await this.dataSource.getCommandConflicts();
+  }
+
+  async saveCommandConflicts(conflicts: CommandConflict[]): Promise<void> {
+    await this.dataSource.saveCommandConflicts(conflicts);
+  }
+
+  // Clinic settings
+  async getClinicPolicy(): Promise<ClinicPolicy | null> {
+    return await this.dataSource.getClinicPolicy();
+  }
+
+  async saveClinicPolicy(policy: ClinicPolicy): Promise<void> {
+    await this.dataSource.saveClinicPolicy(policy);
+  }
+
+  // Session operations
+  async getSessionUserId(): Promise<string | null> {
+    return await this.dataSource.getSessionUserId();
+  }
+
+  async setSessionUserId(userId: string | null): Promise<void> {
+    await this.dataSource.setSessionUserId(userId);
+  }
+
+  // Utility operations
+  async isInitialized(): Promise<boolean> {
+    return await this.dataSource.isInitialized();
+  }
+
+  async setInitialized(): Promise<void> {
+    await this.dataSource.setInitialized();
+  }
+
+  async seedInitialData(): Promise<void> {
+    // Seed through this wrapper so the sample data is pushed like any other write
+    await seedSampleData(this);
+  }
+
+  async clearAllData(): Promise<void> {
+    await this.dataSource.clearAllData();
+  }
+
+  /**
+   * Adds writes to the outbox; a record already waiting keeps its place and its base
+   */
+  private async recordWrites(writes: LocalWrite[]): Promise<void> {
+    const changedWrites = writes.filter(write => !isSameRecord(write.record, write.previous));
+    if (changedWrites.length === 0) {
+      return;
+    }
+
+    const state = (await this.dataSource.getSyncState()) || { ...INITIAL_SYNC_STATE, outbox: [] };
+    const updatedAt = new Date().toISOString();
+
+    changedWrites.forEach(({ collection, id, record, previous }) => {
+      const change = { collection, id, record: withoutVersion(record), updatedAt };
+      const index = state.outbox.findIndex(entry =>
+        entry.change.collection === collection && entry.change.id === id
+      );
+
+      if (index === -1) {
+        state.outbox.push({ change, base: withoutVersion(previous) });
+      } else {
+        state.outbox[index] = { ...state.outbox[index], change };
+      }
+    });
+
+    await this.dataSource.saveSyncState(state);
+  }
+
+  /**
+   * Reads an appointment's state before a write; one that cannot be read counts as absent
+   */
+  private async getReadableAppointment(id: string): Promise<Appointment | null> {
+    const appointment = await this.dataSource.getAppointmentById(id);
+    return isUnreadableRecord(appointment) ? null : appointment;
+  }
+}
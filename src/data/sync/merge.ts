@@ -0,0 +1,113 @@
+import { AppointmentHistoryEntry } from '../../domain/entities/Appointment';
+import { mergeHistories } from '../../domain/policies/appointmentHistory';
+import { SyncChange, SyncRecord } from './SyncApi';
+import { OutboxEntry } from './SyncState';
+
+/**
+ * How an unpushed local change and a remote change to the same record combine
+ * - lastWriteWins: the later write replaces the record
+ * - fieldLevel: fields changed on only one side are kept from that side; a
+ *   field changed on both sides goes to the later write, except the
+ *   append-only history, which keeps the entries from both. Applies to
+ *   appointment updates; doctors, creations and deletions fall back to
+ *   lastWriteWins.
+ */
+export type MergeStrategy = 'lastWriteWins' | 'fieldLevel';
+
+// Bookkeeping fields that say nothing about what the user changed
+const IGNORED_FIELDS = new Set(['version', 'updatedAt']);
+
+const sameValue = (a: unknown, b: unknown): boolean => JSON.stringify(a) === JSON.stringify(b);
+
+const fieldsOf = (record: SyncRecord): Record<string, unknown> => record as unknown as Record<string, unknown>;
+
+/**
+ * Drops the per-device version from a record before it is compared or sent
+ */
+export function withoutVersion<T extends SyncRecord | null>(record: T): T {
+  if (!record) {
+    return record;
+  }
+
+  const fields = { ...fieldsOf(record) };
+  delete fields.version;
+  return fields as unknown as T;
+}
+
+/**
+ * Checks whether two records hold the same data, ignoring bookkeeping fields
+ */
+export function isSameRecord(a: SyncRecord | null, b: SyncRecord | null): boolean {
+  if (!a || !b) {
+    return a === b;
+  }
+
+  const aFields = fieldsOf(a);
+  const bFields = fieldsOf(b);
+  const keys = new Set([...Object.keys(aFields), ...Object.keys(bFields)]);
+  return Array.from(keys).every(key => IGNORED_FIELDS.has(key) || sameValue(aFields[key], bFields[key]));
+}
+
+/**
+ * Combines an unpushed local change with a remote change to the same record
+ * Ties go to the remote change, since the server has already accepted it.
+ * @param local - The outbox entry holding the local change and the record it started from
+ * @param remote - The change from the server
+ * @param strategy - How to combine them
+ * @returns SyncChange - The change both sides should end up with
+ */
+export function mergeChanges(local: OutboxEntry, remote: SyncChange, strategy: MergeStrategy): SyncChange {
+  const localWins = local.change.updatedAt > remote.updatedAt;
+  const latest = localWins ? local.change : remote;
+  const updatedAt = latest.updatedAt;
+
+  if (
+    strategy === 'lastWriteWins' ||
+    remote.collection !== 'appointments' ||
+    !local.base ||
+    !local.change.record ||
+    !remote.record
+  ) {
+    return latest;
+  }
+
+  const base = fieldsOf(local.base);
+  const localRecord = fieldsOf(local.change.record);
+  const remoteRecord = fieldsOf(remote.record);
+  const merged: Record<string, unknown> = {};
+  const keys = new Set([...Object.keys(base), ...Object.keys(localRecord), ...Object.keys(remoteRecord)]);
+
+  keys.forEach(key => {
+    if (IGNORED_FIELDS.has(key)) {
+      return;
+    }
+
+    const baseValue = base[key];
+    const localValue = localRecord[key];
+    const remoteValue = remoteRecord[key];
+    const changedLocally = !sameValue(localValue, baseValue);
+    const changedRemotely = !sameValue(remoteValue, baseValue);
+
+    let value: unknown;
+    if (changedLocally && changedRemotely && key === 'history') {
+      value = mergeHistories(localValue as AppointmentHistoryEntry[], remoteValue as AppointmentHistoryEntry[]);
+    } else if (changedLocally && changedRemotely) {
+      value = localWins ? localValue : remoteValue;
+    } else {
+      value = changedLocally ? localValue : remoteValue;
+    }
+
+    if (value !== undefined) {
+      merged[key] = value;
+    }
+  });
+
+  merged.updatedAt = updatedAt;
+
+  return {
+    collection: remote.collection,
+    id: remote.id,
+    record: merged as unknown as SyncRecord,
+    updatedAt
+  };
+}
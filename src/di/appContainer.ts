@@ -0,0 +1,38 @@
+import { LocalStorageDataSource } from '../data/datasources/LocalStorageDataSource';
+import { MigrationRunner } from '../data/migrations/MigrationRunner';
+import { HttpSyncTransport } from '../data/sync/SyncApi';
+import { AppContainer, createContainer } from './container';
+
+// Clinic sync server, e.g. 'http://10.0.2.2:4000' for the mock server from an
+// Android emulator; null keeps all data on the device
+const SYNC_SERVER_URL: string | null = null;
+
+let appContainer: AppContainer | null = null;
+
+/**
+ * Replaces the container the app runs on, e.g. with one on an
+ * InMemoryDataSource for a demo or on a SqlDataSource
+ * useAppState reads the container when it is first imported, so this must run
+ * before that.
+ * @param container - The container to use
+ */
+export function setAppContainer(container: AppContainer): void {
+  appContainer = container;
+}
+
+/**
+ * Gets the container the app runs on, creating the default one on
+ * AsyncStorage the first time if none was set
+ * @returns AppContainer - The app's container
+ */
+export function getAppContainer(): AppContainer {
+  if (!appContainer) {
+    const dataSource = new LocalStorageDataSource();
+    appContainer = createContainer(dataSource, {
+      migrationRunner: new MigrationRunner(dataSource),
+      syncTransport: SYNC_SERVER_URL ? new HttpSyncTransport(SYNC_SERVER_URL) : null
+    });
+  }
+
+  return appContainer;
+}
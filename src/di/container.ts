@@ -0,0 +1,201 @@
+import { DataSource } from '../data/datasources/DataSource';
+import { MigrationRunner } from '../data/migrations/MigrationRunner';
+import { SyncTransport } from '../data/sync/SyncApi';
+import { SyncEngine } from '../data/sync/SyncEngine';
+import { SyncingDataSource } from '../data/sync/SyncingDataSource';
+import { MergeStrategy } from '../data/sync/merge';
+import { AppointmentRepositoryImpl } from '../data/repositories/AppointmentRepositoryImpl';
+import { PetRepositoryImpl } from '../data/repositories/PetRepositoryImpl';
+import { OwnerRepositoryImpl } from '../data/repositories/OwnerRepositoryImpl';
+import { UserRepositoryImpl } from '../data/repositories/UserRepositoryImpl';
+import { WaitlistRepositoryImpl } from '../data/repositories/WaitlistRepositoryImpl';
+import { NotificationRepositoryImpl } from '../data/repositories/NotificationRepositoryImpl';
+import { SlotHoldRepositoryImpl } from '../data/repositories/SlotHoldRepositoryImpl';
+import { QuarantineRepositoryImpl } from '../data/repositories/QuarantineRepositoryImpl';
+import { PendingCommandRepositoryImpl } from '../data/repositories/PendingCommandRepositoryImpl';
+import { BusyBlockRepositoryImpl } from '../data/repositories/BusyBlockRepositoryImpl';
+import { ClinicPolicyRepositoryImpl } from '../data/repositories/ClinicPolicyRepositoryImpl';
+import { GetAvailableSlotsUseCase } from '../domain/usecases/GetAvailableSlotsUseCase';
+import { BookAppointmentUseCase } from '../domain/usecases/BookAppointmentUseCase';
+import { CancelAppointmentUseCase } from '../domain/usecases/CancelAppointmentUseCase';
+import { ChangeAppointmentStatusUseCase } from '../domain/usecases/ChangeAppointmentStatusUseCase';
+import { UpdateAppointmentNotesUseCase } from '../domain/usecases/UpdateAppointmentNotesUseCase';
+import { UpdateOwnerProfileUseCase } from '../domain/usecases/UpdateOwnerProfileUseCase';
+import { SignInUseCase } from '../domain/usecases/SignInUseCase';
+import { RegisterUserUseCase } from '../domain/usecases/RegisterUserUseCase';
+import { UpdateDoctorScheduleUseCase } from '../domain/usecases/UpdateDoctorScheduleUseCase';
+import { ManageWaitlistUseCase } from '../domain/usecases/ManageWaitlistUseCase';
+import { ManageSlotHoldsUseCase } from '../domain/usecases/ManageSlotHoldsUseCase';
+import { ManagePendingCommandsUseCase } from '../domain/usecases/ManagePendingCommandsUseCase';
+import { PreviewCalendarImportUseCase } from '../domain/usecases/PreviewCalendarImportUseCase';
+import { ExportDoctorCalendarUseCase } from '../domain/usecases/ExportDoctorCalendarUseCase';
+import { ImportBusyCalendarUseCase } from '../domain/usecases/ImportBusyCalendarUseCase';
+import { ManageClinicPolicyUseCase } from '../domain/usecases/ManageClinicPolicyUseCase';
+import { ManageQuarantineUseCase } from '../domain/usecases/ManageQuarantineUseCase';
+
+/**
+ * Everything the app runs on, wired to one data source
+ */
+export interface AppContainer {
+  dataSource: DataSource;
+  migrationRunner: MigrationRunner | null; // Only stores with a schema history need one
+  syncEngine: SyncEngine | null; // Null when the app runs without a sync server
+
+  // Repositories
+  appointmentRepository: AppointmentRepositoryImpl;
+  petRepository: PetRepositoryImpl;
+  ownerRepository: OwnerRepositoryImpl;
+  userRepository: UserRepositoryImpl;
+  waitlistRepository: WaitlistRepositoryImpl;
+  notificationRepository: NotificationRepositoryImpl;
+  slotHoldRepository: SlotHoldRepositoryImpl;
+  quarantineRepository: QuarantineRepositoryImpl;
+  pendingCommandRepository: PendingCommandRepositoryImpl;
+  busyBlockRepository: BusyBlockRepositoryImpl;
+  clinicPolicyRepository: ClinicPolicyRepositoryImpl;
+
+  // Use cases
+  getAvailableSlotsUseCase: GetAvailableSlotsUseCase;
+  bookAppointmentUseCase: BookAppointmentUseCase;
+  cancelAppointmentUseCase: CancelAppointmentUseCase;
+  changeAppointmentStatusUseCase: ChangeAppointmentStatusUseCase;
+  updateAppointmentNotesUseCase: UpdateAppointmentNotesUseCase;
+  updateOwnerProfileUseCase: UpdateOwnerProfileUseCase;
+  signInUseCase: SignInUseCase;
+  registerUserUseCase: RegisterUserUseCase;
+  updateDoctorScheduleUseCase: UpdateDoctorScheduleUseCase;
+  manageWaitlistUseCase: ManageWaitlistUseCase;
+  manageSlotHoldsUseCase: ManageSlotHoldsUseCase;
+  managePendingCommandsUseCase: ManagePendingCommandsUseCase;
+  previewCalendarImportUseCase: PreviewCalendarImportUseCase;
+  exportDoctorCalendarUseCase: ExportDoctorCalendarUseCase;
+  importBusyCalendarUseCase: ImportBusyCalendarUseCase;
+  manageClinicPolicyUseCase: ManageClinicPolicyUseCase;
+  manageQuarantineUseCase: ManageQuarantineUseCase;
+}
+
+export interface ContainerOptions {
+  migrationRunner?: MigrationRunner | null; // Brings stored data up to date on start-up, if it needs that
+  syncTransport?: SyncTransport | null; // Syncs appointments and doctors with a clinic server
+  mergeStrategy?: MergeStrategy; // How conflicting edits combine; defaults to fieldLevel
+}
+
+/**
+ * Creates the repositories and use cases on top of a data source
+ * Tests can pass an InMemoryDataSource and exercise the use cases without
+ * AsyncStorage.
+ * @param storage - Where the data is stored
+ * @param options - Optional migration and sync setup
+ * @returns AppContainer - The wired-up instances
+ */
+export function createContainer(storage: DataSource, options: ContainerOptions = {}): AppContainer {
+  const { migrationRunner = null, syncTransport = null, mergeStrategy } = options;
+
+  // With a sync server the repositories write through the outbox
+  const dataSource = syncTransport ? new SyncingDataSource(storage) : storage;
+  const syncEngine = syncTransport ? new SyncEngine(storage, syncTransport, mergeStrategy) : null;
+
+  const quarantineRepository = new QuarantineRepositoryImpl(dataSource);
+  const appointmentRepository = new AppointmentRepositoryImpl(dataSource, quarantineRepository);
+  const petRepository = new PetRepositoryImpl(dataSource, quarantineRepository);
+  const ownerRepository = new OwnerRepositoryImpl(dataSource, quarantineRepository);
+  const userRepository = new UserRepositoryImpl(dataSource, quarantineRepository);
+  const waitlistRepository = new WaitlistRepositoryImpl(dataSource, quarantineRepository);
+  const notificationRepository = new NotificationRepositoryImpl(dataSource, quarantineRepository);
+  const slotHoldRepository = new SlotHoldRepositoryImpl(dataSource, quarantineRepository);
+  const pendingCommandRepository = new PendingCommandRepositoryImpl(dataSource);
+  const busyBlockRepository = new BusyBlockRepositoryImpl(dataSource, quarantineRepository);
+  const clinicPolicyRepository = new ClinicPolicyRepositoryImpl(dataSource);
+
+  const getAvailableSlotsUseCase = new GetAvailableSlotsUseCase(
+    appointmentRepository,
+    slotHoldRepository,
+    busyBlockRepository
+  );
+  const bookAppointmentUseCase = new BookAppointmentUseCase(
+    appointmentRepository,
+    getAvailableSlotsUseCase,
+    slotHoldRepository,
+    clinicPolicyRepository
+  );
+  const manageSlotHoldsUseCase = new ManageSlotHoldsUseCase(slotHoldRepository, getAvailableSlotsUseCase);
+  const manageWaitlistUseCase = new ManageWaitlistUseCase(
+    appointmentRepository,
+    waitlistRepository,
+    slotHoldRepository,
+    notificationRepository,
+    getAvailableSlotsUseCase,
+    bookAppointmentUseCase
+  );
+  const cancelAppointmentUseCase = new CancelAppointmentUseCase(
+    appointmentRepository,
+    manageWaitlistUseCase,
+    clinicPolicyRepository
+  );
+  const changeAppointmentStatusUseCase = new ChangeAppointmentStatusUseCase(
+    appointmentRepository,
+    cancelAppointmentUseCase
+  );
+  const updateAppointmentNotesUseCase = new UpdateAppointmentNotesUseCase(appointmentRepository);
+  const updateOwnerProfileUseCase = new UpdateOwnerProfileUseCase(ownerRepository);
+  const signInUseCase = new SignInUseCase(userRepository);
+  const registerUserUseCase = new RegisterUserUseCase(userRepository, ownerRepository, appointmentRepository);
+  const updateDoctorScheduleUseCase = new UpdateDoctorScheduleUseCase(
+    appointmentRepository,
+    cancelAppointmentUseCase
+  );
+  const managePendingCommandsUseCase = new ManagePendingCommandsUseCase(
+    pendingCommandRepository,
+    appointmentRepository,
+    bookAppointmentUseCase,
+    cancelAppointmentUseCase,
+    changeAppointmentStatusUseCase,
+    updateAppointmentNotesUseCase,
+    updateDoctorScheduleUseCase
+  );
+  const previewCalendarImportUseCase = new PreviewCalendarImportUseCase(
+    appointmentRepository,
+    getAvailableSlotsUseCase
+  );
+  const exportDoctorCalendarUseCase = new ExportDoctorCalendarUseCase(
+    appointmentRepository,
+    getAvailableSlotsUseCase
+  );
+  const importBusyCalendarUseCase = new ImportBusyCalendarUseCase(appointmentRepository, busyBlockRepository);
+  const manageClinicPolicyUseCase = new ManageClinicPolicyUseCase(clinicPolicyRepository, appointmentRepository);
+  const manageQuarantineUseCase = new ManageQuarantineUseCase(quarantineRepository);
+
+  return {
+    dataSource,
+    migrationRunner,
+    syncEngine,
+    appointmentRepository,
+    petRepository,
+    ownerRepository,
+    userRepository,
+    waitlistRepository,
+    notificationRepository,
+    slotHoldRepository,
+    quarantineRepository,
+    pendingCommandRepository,
+    busyBlockRepository,
+    clinicPolicyRepository,
+    getAvailableSlotsUseCase,
+    bookAppointmentUseCase,
+    cancelAppointmentUseCase,
+    changeAppointmentStatusUseCase,
+    updateAppointmentNotesUseCase,
+    updateOwnerProfileUseCase,
+    signInUseCase,
+    registerUserUseCase,
+    updateDoctorScheduleUseCase,
+    manageWaitlistUseCase,
+    manageSlotHoldsUseCase,
+    managePendingCommandsUseCase,
+    previewCalendarImportUseCase,
+    exportDoctorCalendarUseCase,
+    importBusyCalendarUseCase,
+    manageClinicPolicyUseCase,
+    manageQuarantineUseCase
+  };
+}
@@ -1,27 +1,69 @@
-export type AppointmentStatus = 'scheduled' | 'confirmed' | 'cancelled' | 'completed';
+import { UserRole } from './User';
+
+export type AppointmentStatus =
+  | 'requested'
+  | 'confirmed'
+  | 'checked_in'
+  | 'in_progress'
+  | 'completed'
+  | 'no_show'
+  | 'cancelled';
+
+/**
+ * What happened to an appointment
+ */
+export type AppointmentChange =
+  | { type: 'created' }
+  | { type: 'rescheduled'; fromStartISO: string; fromEndISO: string; toStartISO: string; toEndISO: string }
+  | { type: 'statusChanged'; from: AppointmentStatus; to: AppointmentStatus; reason?: string }
+  | { type: 'notesChanged'; from?: string; to?: string };
+
+export type AppointmentChangeType = AppointmentChange['type'];
+
+/**
+ * One entry in an appointment's history; entries are only ever appended
+ */
+export type AppointmentHistoryEntry = AppointmentChange & {
+  id: string;
+  changedAt: string; // ISO date
+  changedBy: string; // User ID
+  changedByRole?: UserRole; // Missing on entries carried over from the status history
+};
 
 export interface Appointment {
   id: string;
   doctorId: string;
   doctorName: string;
+  ownerId: string;
   ownerName: string;
+  petId: string;
   petName: string;
   disease?: string;
+  visitTypeId?: string;
+  visitTypeName?: string;
   startDateISO: string;
   endDateISO: string;
   status: AppointmentStatus;
+  history?: AppointmentHistoryEntry[]; // Oldest first
   location?: string;
   notes?: string;
+  cancellationReason?: string;
+  lateCancellation?: boolean; // Cancelled with less notice than the clinic asks for
   createdAt?: string;
   updatedAt?: string;
+  version?: number; // Bumped on every save; a stale copy cannot overwrite a newer one
 }
 
 export interface AppointmentCreate {
   doctorId: string;
   doctorName: string;
+  ownerId: string;
   ownerName: string;
+  petId: string;
   petName: string;
   disease?: string;
+  visitTypeId?: string;
+  visitTypeName?: string;
   startDateISO: string;
   endDateISO: string;
   location?: string;
@@ -0,0 +1,16 @@
+/**
+ * Time a doctor is busy outside the clinic, imported from another calendar
+ * Busy blocks take slots away like time off does. Re-importing a calendar
+ * replaces its blocks, matched by the events' UIDs.
+ */
+export interface BusyBlock {
+  id: string;
+  doctorId: string;
+  source: string; // Name of the calendar the block came from
+  uid: string; // UID of the source event; occurrences of a recurring event share it
+  summary?: string; // Only shown to the doctor and clinic admins
+  startISO: string;
+  endISO: string;
+  allDay: boolean;
+  importedAt: string; // ISO date
+}
@@ -0,0 +1,22 @@
+import { UserRole } from './User';
+
+// What happens when someone cancels with less notice than their rules ask for
+export type LateCancellationHandling = 'allow' | 'flag' | 'block';
+
+/**
+ * Limits on cancelling and moving appointments for one role
+ */
+export interface ChangeRules {
+  cancellationNoticeHours: number; // Cancelling closer to the start than this is a late cancellation
+  lateCancellation: LateCancellationHandling; // Flagged ones count toward the owner's no-show score
+  rescheduleNoticeHours: number; // Appointments starting sooner than this cannot be moved
+  maxReschedules: number | null; // How often one appointment may be moved in total; null for no limit
+}
+
+/**
+ * The clinic's cancellation and rescheduling policy
+ */
+export interface ClinicPolicy {
+  rules: Record<UserRole, ChangeRules>;
+  lateCancellationWeight: number; // How much a late cancellation counts toward the no-show score; a no-show counts 1
+}
@@ -1,22 +1,47 @@
+import { VisitType } from './VisitType';
+
 export interface Doctor {
   id: string;
   name: string;
   specialties: string[];
   weeklyAvailability: Availability[];
+  visitTypes?: VisitType[]; // Catalog of visits this doctor offers
+  bufferBeforeMinutes?: number; // Minimum free time before every appointment
+  bufferAfterMinutes?: number; // Minimum turnaround time after every appointment
+  availabilityExceptions?: AvailabilityException[]; // Date-specific changes to the weekly schedule
+  timeZone?: string; // IANA timezone the schedule is defined in, e.g. "America/New_York"; defaults to the device's
   rating: number;
   location: string;
+  version?: number; // Bumped on every save; a stale copy cannot overwrite a newer one
 }
 
 export interface Availability {
   id: string;
   weekday: number; // 0-6 (Sunday-Saturday)
-  startTime: string; // HH:MM format
-  endTime: string; // HH:MM format
-  rrule?: string; // RFC rrule string for recurring patterns
+  startTime: string; // HH:MM in the doctor's timezone
+  endTime: string; // HH:MM in the doctor's timezone
+  rrule?: string; // RFC rrule string for recurring patterns, optionally with a DTSTART anchor
+}
+
+export type AvailabilityExceptionType = 'block' | 'extra';
+
+/**
+ * A date-specific change to a doctor's weekly availability: time off
+ * ("block") or a one-off session outside the usual hours ("extra")
+ */
+export interface AvailabilityException {
+  id: string;
+  type: AvailabilityExceptionType;
+  startDate: string; // YYYY-MM-DD in the doctor's timezone, first day (inclusive)
+  endDate: string; // YYYY-MM-DD, last day (inclusive)
+  startTime?: string; // HH:MM in the doctor's timezone; omitted for all-day blocks
+  endTime?: string; // HH:MM in the doctor's timezone; omitted for all-day blocks
+  reason?: string; // e.g. "Vacation", "Saturday vaccination clinic"
 }
 
 export interface TimeSlot {
   startISO: string;
   endISO: string;
+  visitTypeId?: string;
   doctorId: string;
 }
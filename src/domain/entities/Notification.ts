@@ -0,0 +1,15 @@
+export type NotificationType = 'waitlist_offer' | 'waitlist_offer_expired';
+
+/**
+ * In-app notification shown to an owner
+ */
+export interface AppNotification {
+  id: string;
+  ownerId: string; // Recipient
+  type: NotificationType;
+  title: string;
+  message: string;
+  waitlistEntryId?: string;
+  read: boolean;
+  createdAt: string;
+}
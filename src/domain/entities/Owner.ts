@@ -0,0 +1,12 @@
+export type ContactChannel = 'phone' | 'sms' | 'email';
+
+export interface Owner {
+  id: string;
+  name: string;
+  phone?: string;
+  email?: string;
+  address?: string;
+  preferredContactChannel: ContactChannel;
+  createdAt?: string;
+  updatedAt?: string;
+}
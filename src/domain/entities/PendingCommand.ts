@@ -0,0 +1,52 @@
+import { AppointmentCreate, AppointmentStatus } from './Appointment';
+import { Doctor } from './Doctor';
+import { Actor } from './User';
+
+export type PendingCommandType =
+  | 'book'
+  | 'reschedule'
+  | 'cancel'
+  | 'changeStatus'
+  | 'updateNotes'
+  | 'updateSchedule';
+
+// Schedule settings a schedule update may change; fields left out are kept
+export type ScheduleFields = Partial<Pick<
+  Doctor,
+  'weeklyAvailability' | 'visitTypes' | 'bufferBeforeMinutes' | 'bufferAfterMinutes' | 'availabilityExceptions' | 'timeZone'
+>>;
+
+/**
+ * What the user asked for, as it will be replayed
+ */
+export type PendingCommandInput =
+  | { type: 'book'; appointment: AppointmentCreate; holdId?: string }
+  | { type: 'reschedule'; appointmentId: string; startISO: string; endISO: string }
+  | { type: 'cancel'; appointmentId: string; reason?: string }
+  | { type: 'changeStatus'; appointmentId: string; status: AppointmentStatus; reason?: string }
+  | { type: 'updateNotes'; appointmentId: string; notes: string }
+  | { type: 'updateSchedule'; doctorId: string; changes: ScheduleFields; cancelAffectedAppointments?: boolean };
+
+/**
+ * A booking, reschedule, cancellation, status change, notes edit or schedule
+ * update waiting to be applied
+ * Commands are replayed in the order they were made once the latest data has
+ * been pulled from the sync server.
+ */
+export type PendingCommand = PendingCommandInput & {
+  id: string; // Idempotency key; a booking's appointment gets this ID, so replaying it cannot book twice
+  actor: Actor; // Who made the change; replayed with their permissions
+  createdAt: string; // ISO date
+};
+
+/**
+ * A command that could not be applied as made, e.g. a booking whose slot was
+ * taken on another device while this one was offline
+ */
+export interface CommandConflict {
+  id: string;
+  command: PendingCommand;
+  error: string;
+  nextAvailableSlots?: Array<{ startISO: string; endISO: string }>; // Alternatives for bookings and reschedules
+  detectedAt: string; // ISO date
+}
@@ -0,0 +1,15 @@
+export type PetSex = 'male' | 'female' | 'unknown';
+
+export interface Pet {
+  id: string;
+  name: string;
+  species: string; // e.g. "dog", "cat"
+  breed?: string;
+  birthDateISO?: string;
+  weightKg?: number;
+  sex: PetSex;
+  microchipId?: string;
+  ownerId: string; // Reference to the owner the pet belongs to
+  createdAt?: string;
+  updatedAt?: string;
+}
@@ -0,0 +1,24 @@
+export type QuarantineSource =
+  | 'doctors'
+  | 'appointments'
+  | 'pets'
+  | 'owners'
+  | 'users'
+  | 'waitlist'
+  | 'notifications'
+  | 'slotHolds'
+  | 'busyBlocks';
+
+/**
+ * A stored record that could not be read or failed validation
+ * The record is kept as it was found so nothing is lost, and left out of
+ * everything the app reads until it is repaired or dismissed.
+ */
+export interface QuarantinedRecord {
+  id: string; // `${source}:${recordId}`; the same bad record is reported once
+  source: QuarantineSource;
+  recordId?: string; // ID of the bad record, when it has one
+  data: string; // The record as JSON, or the stored text if it could not be read
+  errors: string[];
+  quarantinedAt: string; // ISO date
+}
@@ -0,0 +1,20 @@
+export type SlotHoldPurpose = 'booking' | 'waitlist';
+
+/**
+ * A short-lived reservation of a slot
+ * Held slots are hidden from everyone except the holder until the hold is
+ * booked, released or expires.
+ */
+export interface SlotHold {
+  id: string;
+  doctorId: string;
+  visitTypeId: string;
+  startISO: string;
+  endISO: string;
+  userId?: string; // Account that is filling in the booking form
+  ownerId?: string; // Owner the slot is held for
+  purpose: SlotHoldPurpose;
+  waitlistEntryId?: string; // Set for slots held for a waitlist offer
+  expiresAt: string; // ISO date
+  createdAt: string;
+}
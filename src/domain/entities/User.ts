@@ -0,0 +1,28 @@
+export type UserRole = 'owner' | 'doctor' | 'clinic_admin';
+
+export type CredentialType = 'pin' | 'passphrase';
+
+export interface UserAccount {
+  id: string;
+  displayName: string;
+  role: UserRole;
+  ownerId?: string; // Linked owner profile (owner accounts)
+  doctorId?: string; // Linked doctor (doctor accounts)
+  credentialType: CredentialType;
+  credentialHash: string;
+  credentialSalt: string;
+  failedSignInAttempts?: number;
+  lockedUntil?: string; // ISO date; sign-in is refused until then
+  createdAt?: string;
+  updatedAt?: string;
+}
+
+/**
+ * The signed-in user as seen by use cases when checking authorization
+ */
+export interface Actor {
+  userId: string;
+  role: UserRole;
+  ownerId?: string;
+  doctorId?: string;
+}
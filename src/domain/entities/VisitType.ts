@@ -0,0 +1,20 @@
+export interface VisitType {
+  id: string;
+  name: string; // e.g. "Vaccination", "Surgery Consult"
+  durationMinutes: number;
+  bufferBeforeMinutes: number; // Preparation time kept free before the visit
+  bufferAfterMinutes: number; // Clean-up time kept free after the visit
+  requiredSpecialty?: string; // Only offered by doctors with this specialty
+}
+
+/**
+ * Visit type used for doctors without a catalog and for appointments
+ * booked before visit types existed
+ */
+export const STANDARD_VISIT_TYPE: VisitType = {
+  id: 'standard',
+  name: 'Standard Consultation',
+  durationMinutes: 30,
+  bufferBeforeMinutes: 0,
+  bufferAfterMinutes: 0,
+};
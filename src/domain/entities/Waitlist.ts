@@ -0,0 +1,45 @@
+export type WaitlistStatus = 'waiting' | 'offered' | 'booked' | 'expired' | 'cancelled';
+
+/**
+ * A freed slot held for a waitlisted owner until they confirm or the hold expires
+ */
+export interface WaitlistOffer {
+  holdId: string; // SlotHold that keeps the slot from other owners
+  startISO: string;
+  endISO: string;
+  expiresAt: string; // ISO date; the slot is released after this
+}
+
+export interface WaitlistEntry {
+  id: string;
+  doctorId: string;
+  doctorName: string;
+  ownerId: string;
+  ownerName: string;
+  petId: string;
+  petName: string;
+  disease?: string;
+  visitTypeId: string;
+  visitTypeName?: string;
+  fromDate: string; // YYYY-MM-DD, first acceptable day (doctor's timezone)
+  toDate: string; // YYYY-MM-DD, last acceptable day (doctor's timezone)
+  status: WaitlistStatus;
+  offer?: WaitlistOffer; // Set while status is 'offered'
+  appointmentId?: string; // Set once the offer has been booked
+  notes?: string;
+  createdAt: string; // Entries are served in the order they were created
+  updatedAt?: string;
+}
+
+export interface WaitlistEntryCreate {
+  doctorId: string;
+  ownerId: string;
+  ownerName: string;
+  petId: string;
+  petName: string;
+  disease?: string;
+  visitTypeId: string;
+  fromDate: string;
+  toDate: string;
+  notes?: string;
+}
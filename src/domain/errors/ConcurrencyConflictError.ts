@@ -0,0 +1,20 @@
+export type VersionedEntityType = 'Appointment' | 'Doctor';
+
+/**
+ * Thrown when a record is saved from a stale copy
+ * Someone else changed the record after it was read, so saving would
+ * overwrite their change. Reload the record and try again.
+ */
+export class ConcurrencyConflictError extends Error {
+  constructor(
+    public readonly entityType: VersionedEntityType,
+    public readonly entityId: string,
+    public readonly expectedVersion: number,
+    public readonly actualVersion: number
+  ) {
+    super(`This ${entityType.toLowerCase()} was changed by someone else. Please reload and try again.`);
+    this.name = 'ConcurrencyConflictError';
+    // Keep instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, ConcurrencyConflictError.prototype);
+  }
+}
@@ -0,0 +1,12 @@
+/**
+ * Thrown from a write precondition when the slot being booked is no longer free
+ * The message says why, e.g. "Slot already booked".
+ */
+export class SlotUnavailableError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SlotUnavailableError';
+    // Keep instanceof working when classes are compiled to ES5
+    Object.setPrototypeOf(this, SlotUnavailableError.prototype);
+  }
+}
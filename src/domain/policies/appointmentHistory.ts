@@ -0,0 +1,53 @@
+import { Appointment, AppointmentChange, AppointmentHistoryEntry } from '../entities/Appointment';
+import { Actor } from '../entities/User';
+import { generateUUID } from '../../shared/utils/uuid';
+
+/**
+ * The appointment history
+ * Every use case that changes an appointment appends what it did, who did it
+ * and when. Entries are never edited or removed, so copies of the history
+ * from two devices combine by entry ID.
+ */
+
+/**
+ * Appends a change to an appointment's history
+ * @param appointment - The appointment, with the change already applied
+ * @param change - What was changed
+ * @param actor - The signed-in user who made the change
+ * @returns Appointment - A copy with the entry appended and updatedAt set to its time
+ */
+export function withChange(appointment: Appointment, change: AppointmentChange, actor: Actor): Appointment {
+  const entry: AppointmentHistoryEntry = {
+    ...change,
+    id: generateUUID(),
+    changedAt: new Date().toISOString(),
+    changedBy: actor.userId,
+    changedByRole: actor.role
+  };
+
+  return {
+    ...appointment,
+    history: [...(appointment.history || []), entry],
+    updatedAt: entry.changedAt
+  };
+}
+
+/**
+ * Combines two copies of a history, keeping every entry once
+ * @param a - One copy
+ * @param b - The other copy
+ * @returns AppointmentHistoryEntry[] - Oldest first
+ */
+export function mergeHistories(
+  a: AppointmentHistoryEntry[] = [],
+  b: AppointmentHistoryEntry[] = []
+): AppointmentHistoryEntry[] {
+  const entries = new Map(a.map(entry => [entry.id, entry]));
+  b.forEach(entry => {
+    if (!entries.has(entry.id)) {
+      entries.set(entry.id, entry);
+    }
+  });
+
+  return Array.from(entries.values()).sort((x, y) => x.changedAt.localeCompare(y.changedAt));
+}
@@ -0,0 +1,92 @@
+import { Appointment, AppointmentStatus } from '../entities/Appointment';
+import { Actor } from '../entities/User';
+import { withChange } from './appointmentHistory';
+
+/**
+ * The appointment lifecycle
+ * requested → confirmed → checked_in → in_progress → completed, with no_show
+ * and cancelled as the other ways out. Completed, no-show and cancelled
+ * appointments are final.
+ */
+
+const TRANSITIONS: Record<AppointmentStatus, AppointmentStatus[]> = {
+  requested: ['confirmed', 'cancelled'],
+  confirmed: ['checked_in', 'no_show', 'cancelled'],
+  checked_in: ['in_progress'],
+  in_progress: ['completed'],
+  completed: [],
+  no_show: [],
+  cancelled: []
+};
+
+const STATUS_LABELS: Record<AppointmentStatus, string> = {
+  requested: 'Requested',
+  confirmed: 'Confirmed',
+  checked_in: 'Checked In',
+  in_progress: 'In Progress',
+  completed: 'Completed',
+  no_show: 'No-Show',
+  cancelled: 'Cancelled'
+};
+
+/**
+ * Gets the statuses an appointment can move to next
+ * @param status - The current status
+ * @returns AppointmentStatus[] - In lifecycle order; empty for final statuses
+ */
+export function getNextStatuses(status: AppointmentStatus): AppointmentStatus[] {
+  return TRANSITIONS[status] || [];
+}
+
+/**
+ * Checks whether an appointment may move from one status to another
+ * @param from - The current status
+ * @param to - The requested status
+ * @returns True if the lifecycle allows it
+ */
+export function canTransition(from: AppointmentStatus, to: AppointmentStatus): boolean {
+  return getNextStatuses(from).includes(to);
+}
+
+/**
+ * Whether nothing more can happen to an appointment in this status
+ */
+export function isFinalStatus(status: AppointmentStatus): boolean {
+  return getNextStatuses(status).length === 0;
+}
+
+/**
+ * Whether an appointment in this status has not started yet, so it can still be moved
+ */
+export function isUpcomingStatus(status: AppointmentStatus): boolean {
+  return status === 'requested' || status === 'confirmed';
+}
+
+/**
+ * Gets the display name of a status
+ */
+export function getStatusLabel(status: AppointmentStatus): string {
+  return STATUS_LABELS[status] || status;
+}
+
+/**
+ * Moves an appointment to a new status and records who did it
+ * Does not check the transition; callers use canTransition first.
+ * @param appointment - The appointment
+ * @param status - The new status
+ * @param actor - The signed-in user making the change
+ * @param reason - Optional reason, e.g. for a cancellation
+ * @returns Appointment - A copy with the status and history updated
+ */
+export function withStatus(
+  appointment: Appointment,
+  status: AppointmentStatus,
+  actor: Actor,
+  reason?: string
+): Appointment {
+  return withChange(
+    { ...appointment, status },
+    { type: 'statusChanged', from: appointment.status, to: status, ...(reason ? { reason } : {}) },
+    actor
+  );
+}
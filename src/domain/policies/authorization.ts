@@ -0,0 +1,152 @@
+import { Actor, UserRole } from '../entities/User';
+import { Appointment } from '../entities/Appointment';
+import { WaitlistEntry } from '../entities/Waitlist';
+
+/**
+ * Authorization rules shared by the use cases and the navigation
+ */
+
+/**
+ * Checks whether an actor may book appointments on behalf of an owner
+ * @param actor - The signed-in user
+ * @param ownerId - The owner the appointment is for
+ * @returns True if allowed
+ */
+export function canBookForOwner(actor: Actor, ownerId: string): boolean {
+  if (actor.role === 'clinic_admin') return true;
+  return actor.role === 'owner' && !!actor.ownerId && actor.ownerId === ownerId;
+}
+
+/**
+ * Checks whether an actor may create or edit an owner's profile
+ * @param actor - The signed-in user
+ * @param ownerId - The owner whose profile is saved
+ * @returns True if allowed
+ */
+export function canManageOwnerProfile(actor: Actor, ownerId: string): boolean {
+  if (actor.role === 'clinic_admin') return true;
+  return actor.role === 'owner' && !!actor.ownerId && actor.ownerId === ownerId;
+}
+
+/**
+ * Checks whether an actor may cancel or reschedule an appointment
+ * Owners manage their own appointments, doctors the appointments booked with them.
+ * @param actor - The signed-in user
+ * @param appointment - The appointment
+ * @returns True if allowed
+ */
+export function canManageAppointment(actor: Actor, appointment: Appointment): boolean {
+  switch (actor.role) {
+    case 'clinic_admin':
+      return true;
+    case 'owner':
+      return !!actor.ownerId && appointment.ownerId === actor.ownerId;
+    case 'doctor':
+      return !!actor.doctorId && appointment.doctorId === actor.doctorId;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether an actor may move an appointment through the visit, e.g.
+ * confirm it or check the patient in
+ * Only the clinic does this; owners can still cancel through canManageAppointment.
+ * @param actor - The signed-in user
+ * @param appointment - The appointment
+ * @returns True if allowed
+ */
+export function canChangeAppointmentStatus(actor: Actor, appointment: Appointment): boolean {
+  if (actor.role === 'clinic_admin') return true;
+  return actor.role === 'doctor' && !!actor.doctorId && appointment.doctorId === actor.doctorId;
+}
+
+/**
+ * Checks whether an actor may view, leave or answer the offer of a waitlist entry
+ * Owners manage their own entries, doctors the entries waiting for them.
+ * @param actor - The signed-in user
+ * @param entry - The waitlist entry
+ * @returns True if allowed
+ */
+export function canManageWaitlistEntry(actor: Actor, entry: WaitlistEntry): boolean {
+  switch (actor.role) {
+    case 'clinic_admin':
+      return true;
+    case 'owner':
+      return !!actor.ownerId && entry.ownerId === actor.ownerId;
+    case 'doctor':
+      return !!actor.doctorId && entry.doctorId === actor.doctorId;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Checks whether an actor may change a doctor's schedule
+ * @param actor - The signed-in user
+ * @param doctorId - The doctor whose schedule is changed
+ * @returns True if allowed
+ */
+export function canManageDoctorSchedule(actor: Actor, doctorId: string): boolean {
+  if (actor.role === 'clinic_admin') return true;
+  return actor.role === 'doctor' && !!actor.doctorId && actor.doctorId === doctorId;
+}
+
+/**
+ * Checks whether an actor may change the clinic's cancellation and rescheduling policy
+ * @param actor - The signed-in user
+ * @returns True if allowed
+ */
+export function canManageClinicPolicy(actor: Actor): boolean {
+  return actor.role === 'clinic_admin';
+}
+
+/**
+ * Checks whether an actor may see and dismiss records set aside as invalid
+ * @param actor - The signed-in user
+ * @returns True if allowed
+ */
+export function canManageQuarantine(actor: Actor): boolean {
+  return actor.role === 'clinic_admin';
+}
+
+/**
+ * Checks whether an actor may see an owner's no-show score
+ * The clinic's staff see every owner's; owners only their own.
+ * @param actor - The signed-in user
+ * @param ownerId - The owner whose score is shown
+ * @returns True if allowed
+ */
+export function canViewNoShowScore(actor: Actor, ownerId: string): boolean {
+  if (actor.role === 'clinic_admin' || actor.role === 'doctor') return true;
+  return !!actor.ownerId && actor.ownerId === ownerId;
+}
+
+/**
+ * Checks whether an actor may create an account with the given role
+ * Anyone may register as an owner. Doctor and admin accounts are created by a
+ * clinic admin, except for the very first admin on a fresh install.
+ * @param actor - The signed-in user, or null when registering from the sign-in screen
+ * @param role - The role of the new account
+ * @param hasClinicAdmin - Whether a clinic admin account already exists
+ * @returns True if allowed
+ */
+export function canCreateAccount(actor: Actor | null, role: UserRole, hasClinicAdmin: boolean): boolean {
+  if (role === 'owner') return true;
+  if (actor?.role === 'clinic_admin') return true;
+  return role === 'clinic_admin' && !hasClinicAdmin;
+}
+
+/**
+ * Whether a role can use the owner-facing tabs (find doctor, my appointments)
+ */
+export function canAccessOwnerPortal(role: UserRole): boolean {
+  return role === 'owner';
+}
+
+/**
+ * Whether a role can use the doctor portal
+ */
+export function canAccessDoctorPortal(role: UserRole): boolean {
+  return role === 'doctor' || role === 'clinic_admin';
+}
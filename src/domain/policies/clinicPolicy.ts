@@ -0,0 +1,136 @@
+import { Appointment } from '../entities/Appointment';
+import { ChangeRules, ClinicPolicy } from '../entities/ClinicPolicy';
+import { Actor } from '../entities/User';
+
+/**
+ * Cancellation and rescheduling rules the use cases apply on top of the
+ * lifecycle and authorization checks
+ */
+
+const NO_LIMITS: ChangeRules = {
+  cancellationNoticeHours: 0,
+  lateCancellation: 'allow',
+  rescheduleNoticeHours: 0,
+  maxReschedules: null
+};
+
+/**
+ * The policy the app runs with unless the clinic configures its own
+ * Owners are asked for a day's notice and may move an appointment twice;
+ * the clinic's own staff are not limited.
+ */
+export const DEFAULT_CLINIC_POLICY: ClinicPolicy = {
+  rules: {
+    owner: {
+      cancellationNoticeHours: 24,
+      lateCancellation: 'flag',
+      rescheduleNoticeHours: 24,
+      maxReschedules: 2
+    },
+    doctor: NO_LIMITS,
+    clinic_admin: NO_LIMITS
+  },
+  lateCancellationWeight: 0.5
+};
+
+export type CancellationDecision =
+  | { allowed: true; late: boolean } // Late cancellations count toward the owner's no-show score
+  | { allowed: false; error: string };
+
+const formatNotice = (hours: number): string => {
+  if (hours >= 24 && hours % 24 === 0) {
+    const days = hours / 24;
+    return `${days} ${days === 1 ? 'day' : 'days'}`;
+  }
+  return `${hours} ${hours === 1 ? 'hour' : 'hours'}`;
+};
+
+const getHoursUntilStart = (appointment: Appointment, now: Date): number =>
+  (new Date(appointment.startDateISO).getTime() - now.getTime()) / (60 * 60 * 1000);
+
+/**
+ * Checks a cancellation against the rules for the actor's role
+ * @param policy - The clinic's policy
+ * @param appointment - The appointment to cancel
+ * @param actor - The signed-in user cancelling it
+ * @param now - The time of the cancellation (default: now)
+ * @returns CancellationDecision - Whether it may go ahead and whether it counts as late
+ */
+export function evaluateCancellation(
+  policy: ClinicPolicy,
+  appointment: Appointment,
+  actor: Actor,
+  now: Date = new Date()
+): CancellationDecision {
+  const rules = policy.rules[actor.role] || NO_LIMITS;
+  const isLate = getHoursUntilStart(appointment, now) < rules.cancellationNoticeHours;
+
+  if (!isLate || rules.lateCancellation === 'allow') {
+    return { allowed: true, late: false };
+  }
+
+  if (rules.lateCancellation === 'block') {
+    return {
+      allowed: false,
+      error: `Appointments must be cancelled at least ${formatNotice(rules.cancellationNoticeHours)} before they start. Please call the clinic to cancel this one.`
+    };
+  }
+
+  return { allowed: true, late: true };
+}
+
+/**
+ * Checks a reschedule against the rules for the actor's role
+ * @param policy - The clinic's policy
+ * @param appointment - The appointment to move, as it is now
+ * @param actor - The signed-in user moving it
+ * @param now - The time of the change (default: now)
+ * @returns string | null - Why it cannot be moved, or null if it can
+ */
+export function checkReschedule(
+  policy: ClinicPolicy,
+  appointment: Appointment,
+  actor: Actor,
+  now: Date = new Date()
+): string | null {
+  const rules = policy.rules[actor.role] || NO_LIMITS;
+
+  if (getHoursUntilStart(appointment, now) < rules.rescheduleNoticeHours) {
+    return `Appointments can only be rescheduled up to ${formatNotice(rules.rescheduleNoticeHours)} before they start. Please call the clinic to move this one.`;
+  }
+
+  if (rules.maxReschedules !== null) {
+    const count = getRescheduleCount(appointment);
+    if (count >= rules.maxReschedules) {
+      return rules.maxReschedules === 0
+        ? 'Appointments cannot be rescheduled online. Please call the clinic to move this one.'
+        : `This appointment has already been rescheduled ${count} ${count === 1 ? 'time' : 'times'}, the most the clinic allows. Please call the clinic to move it again.`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Counts how often an appointment has been moved, by anyone
+ */
+export function getRescheduleCount(appointment: Appointment): number {
+  return (appointment.history || []).filter(entry => entry.type === 'rescheduled').length;
+}
+
+/**
+ * Scores how unreliable an owner has been: each no-show counts 1 and each
+ * flagged late cancellation the policy's weight
+ * @param appointments - The owner's appointments
+ * @param policy - The clinic's policy
+ * @returns number - The score; 0 for an owner who always turned up
+ */
+export function getNoShowScore(appointments: Appointment[], policy: ClinicPolicy): number {
+  return appointments.reduce((score, appointment) => {
+    if (appointment.status === 'no_show') return score + 1;
+    if (appointment.status === 'cancelled' && appointment.lateCancellation) {
+      return score + policy.lateCancellationWeight;
+    }
+    return score;
+  }, 0);
+}
@@ -1,27 +1,36 @@
 import { Appointment } from '../entities/Appointment';
 import { Doctor } from '../entities/Doctor';
 
+/**
+ * Check run inside a write's critical section, just before the record is saved
+ * Throw to abort the write; no other write can interleave with the check.
+ */
+export type WritePrecondition = () => Promise<void>;
+
 /**
  * Repository interface for appointment and doctor data operations
+ * Writes are serialized and versioned: saving a record whose `version` is older
+ * than the stored one throws a ConcurrencyConflictError. Writes resolve with the
+ * saved record, carrying its new version.
  */
 export interface IAppointmentRepository {
   // Doctor operations
   getDoctors(): Promise<Doctor[]>;
   getDoctorById(id: string): Promise<Doctor | null>;
-  createDoctor(doctor: Doctor): Promise<void>;
-  updateDoctor(doctor: Doctor): Promise<void>;
+  createDoctor(doctor: Doctor): Promise<Doctor>;
+  updateDoctor(doctor: Doctor): Promise<Doctor>;
   getDoctorsBySpecialty(specialty: string): Promise<Doctor[]>;
 
   // Appointment operations
   getAppointments(): Promise<Appointment[]>;
   getAppointmentById(id: string): Promise<Appointment | null>;
-  createAppointment(appointment: Appointment): Promise<void>;
-  updateAppointment(appointment: Appointment): Promise<void>;
+  createAppointment(appointment: Appointment, precondition?: WritePrecondition): Promise<Appointment>;
+  updateAppointment(appointment: Appointment, precondition?: WritePrecondition): Promise<Appointment>;
   deleteAppointment(id: string): Promise<void>;
   
   // Query operations
   getAppointmentsByDoctorId(doctorId: string): Promise<Appointment[]>;
-  getAppointmentsByOwner(ownerName: string): Promise<Appointment[]>;
+  getAppointmentsByOwner(ownerId: string): Promise<Appointment[]>;
   getAppointmentsByDoctorAndDateRange(
     doctorId: string,
     startDate: string,
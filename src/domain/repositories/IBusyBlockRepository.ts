@@ -0,0 +1,18 @@
+import { BusyBlock } from '../entities/BusyBlock';
+
+/**
+ * Repository interface for busy time imported from other calendars
+ */
+export interface IBusyBlockRepository {
+  // Query operations
+  getBusyBlocksByDoctor(doctorId: string): Promise<BusyBlock[]>;
+
+  // Import operations
+  /**
+   * Replaces a doctor's blocks from one calendar, and any block with one of
+   * the given UIDs, with the new blocks
+   * @returns The blocks that were removed
+   */
+  replaceBusyBlocks(doctorId: string, source: string, uids: string[], blocks: BusyBlock[]): Promise<BusyBlock[]>;
+  deleteBusyBlocksBySource(doctorId: string, source: string): Promise<BusyBlock[]>;
+}
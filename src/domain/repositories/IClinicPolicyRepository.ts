@@ -0,0 +1,10 @@
+import { ClinicPolicy } from '../entities/ClinicPolicy';
+
+/**
+ * Repository interface for the clinic's cancellation and rescheduling policy
+ */
+export interface IClinicPolicyRepository {
+  // Policy operations
+  getClinicPolicy(): Promise<ClinicPolicy>; // DEFAULT_CLINIC_POLICY until a clinic admin saves one
+  saveClinicPolicy(policy: ClinicPolicy): Promise<void>;
+}
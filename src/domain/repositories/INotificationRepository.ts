@@ -0,0 +1,11 @@
+import { AppNotification } from '../entities/Notification';
+
+/**
+ * Repository interface for in-app notifications
+ */
+export interface INotificationRepository {
+  // Notification operations
+  getNotificationsByOwner(ownerId: string): Promise<AppNotification[]>;
+  createNotification(notification: AppNotification): Promise<void>;
+  markNotificationsRead(ownerId: string): Promise<void>;
+}
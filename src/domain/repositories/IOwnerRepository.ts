@@ -0,0 +1,12 @@
+import { Owner } from '../entities/Owner';
+
+/**
+ * Repository interface for owner profiles
+ */
+export interface IOwnerRepository {
+  // Owner operations
+  getOwners(): Promise<Owner[]>;
+  getOwnerById(id: string): Promise<Owner | null>;
+  createOwner(owner: Owner): Promise<void>;
+  updateOwner(owner: Owner): Promise<void>;
+}
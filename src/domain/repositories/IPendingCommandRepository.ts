@@ -0,0 +1,18 @@
+import { CommandConflict, PendingCommand } from '../entities/PendingCommand';
+
+/**
+ * Repository interface for commands waiting to be replayed and the conflicts
+ * found while replaying them
+ */
+export interface IPendingCommandRepository {
+  // Pending command operations
+  getPendingCommands(): Promise<PendingCommand[]>; // Oldest first
+  addPendingCommand(command: PendingCommand): Promise<void>;
+  updatePendingCommand(command: PendingCommand): Promise<void>;
+  deletePendingCommand(id: string): Promise<void>;
+
+  // Conflict operations
+  getConflicts(): Promise<CommandConflict[]>;
+  addConflict(conflict: CommandConflict): Promise<void>;
+  deleteConflict(id: string): Promise<void>;
+}
@@ -0,0 +1,16 @@
+import { Pet } from '../entities/Pet';
+
+/**
+ * Repository interface for pet data operations
+ */
+export interface IPetRepository {
+  // Pet operations
+  getPets(): Promise<Pet[]>;
+  getPetById(id: string): Promise<Pet | null>;
+  createPet(pet: Pet): Promise<void>;
+  updatePet(pet: Pet): Promise<void>;
+  deletePet(id: string): Promise<void>;
+
+  // Query operations
+  getPetsByOwner(ownerId: string): Promise<Pet[]>;
+}
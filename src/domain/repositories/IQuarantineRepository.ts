@@ -0,0 +1,18 @@
+import { QuarantinedRecord, QuarantineSource } from '../entities/QuarantinedRecord';
+
+export interface InvalidRecord {
+  record: unknown;
+  errors: string[];
+  data?: string; // The stored text, when it could not be parsed into a record
+  recordId?: string; // When the record cannot name itself
+}
+
+/**
+ * Repository interface for records set aside because they failed validation
+ */
+export interface IQuarantineRepository {
+  // Quarantine operations
+  getQuarantinedRecords(): Promise<QuarantinedRecord[]>;
+  quarantineRecords(source: QuarantineSource, records: InvalidRecord[]): Promise<void>;
+  deleteQuarantinedRecord(id: string): Promise<void>;
+}
@@ -0,0 +1,19 @@
+import { SlotHold } from '../entities/SlotHold';
+import { WritePrecondition } from './IAppointmentRepository';
+
+/**
+ * Repository interface for temporary slot holds
+ * Writes are serialized with the appointment writes on the same data source.
+ */
+export interface ISlotHoldRepository {
+  // Hold operations
+  getHoldById(id: string): Promise<SlotHold | null>;
+  createHold(hold: SlotHold, precondition?: WritePrecondition): Promise<void>;
+  deleteHold(id: string): Promise<void>;
+
+  // Query operations
+  getActiveHoldsByDoctor(doctorId: string, now: Date): Promise<SlotHold[]>;
+
+  // Utility operations
+  deleteExpiredHolds(now: Date): Promise<SlotHold[]>;
+}
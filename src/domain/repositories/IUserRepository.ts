@@ -0,0 +1,16 @@
+import { UserAccount } from '../entities/User';
+
+/**
+ * Repository interface for user accounts and the signed-in session
+ */
+export interface IUserRepository {
+  // User operations
+  getUsers(): Promise<UserAccount[]>;
+  getUserById(id: string): Promise<UserAccount | null>;
+  createUser(user: UserAccount): Promise<void>;
+  updateUser(user: UserAccount): Promise<void>;
+
+  // Session operations
+  getSessionUserId(): Promise<string | null>;
+  setSessionUserId(userId: string | null): Promise<void>;
+}
@@ -0,0 +1,16 @@
+import { WaitlistEntry } from '../entities/Waitlist';
+
+/**
+ * Repository interface for waitlist entries
+ */
+export interface IWaitlistRepository {
+  // Waitlist operations
+  getWaitlistEntries(): Promise<WaitlistEntry[]>;
+  getWaitlistEntryById(id: string): Promise<WaitlistEntry | null>;
+  createWaitlistEntry(entry: WaitlistEntry): Promise<void>;
+  updateWaitlistEntry(entry: WaitlistEntry): Promise<void>;
+
+  // Query operations
+  getWaitlistEntriesByDoctor(doctorId: string): Promise<WaitlistEntry[]>;
+  getWaitlistEntriesByOwner(ownerId: string): Promise<WaitlistEntry[]>;
+}
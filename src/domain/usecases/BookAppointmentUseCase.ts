@@ -1,14 +1,22 @@
-// Use a simple UUID generator for React Native compatibility
-const generateUUID = () => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
-import { Appointment, AppointmentCreate } from '../entities/Appointment';
+import { Appointment, AppointmentCreate, AppointmentHistoryEntry } from '../entities/Appointment';
+import { Actor } from '../entities/User';
+import { VisitType } from '../entities/VisitType';
 import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
-import { GetAvailableSlotsUseCase } from './GetAvailableSlotsUseCase';
+import { ISlotHoldRepository } from '../repositories/ISlotHoldRepository';
+import { IClinicPolicyRepository } from '../repositories/IClinicPolicyRepository';
+import { canBookForOwner, canManageAppointment } from '../policies/authorization';
+import { getStatusLabel, isUpcomingStatus } from '../policies/appointmentLifecycle';
+import { withChange } from '../policies/appointmentHistory';
+import { DEFAULT_CLINIC_POLICY, checkReschedule } from '../policies/clinicPolicy';
+import { SlotUnavailableError } from '../errors/SlotUnavailableError';
+import { validateAppointment, validateAppointmentCreate } from '../validation/validators';
+import { findDoctorVisitType } from '../../shared/utils/visitTypes';
+import {
+  GetAvailableSlotsUseCase,
+  SLOT_UNAVAILABLE_MESSAGES,
+  SlotQueryOptions
+} from './GetAvailableSlotsUseCase';
+import { generateUUID } from '../../shared/utils/uuid';
 
 export interface BookingResult {
   success: boolean;
@@ -17,88 +25,130 @@ export interface BookingResult {
   nextAvailableSlots?: Array<{ startISO: string; endISO: string }>;
 }
 
+export interface BookingOptions {
+  holdId?: string; // Books the slot reserved by this hold (booking form or waitlist offer)
+  appointmentId?: string; // ID for the new appointment; booking the same request again with it returns the first booking
+}
+
 /**
  * Use case for booking appointments with conflict detection
+ * The appointment length must match the duration of its visit type, and
+ * reschedules are limited by the clinic's policy.
  */
 export class BookAppointmentUseCase {
   constructor(
     private appointmentRepository: IAppointmentRepository,
-    private getAvailableSlotsUseCase: GetAvailableSlotsUseCase
+    private getAvailableSlotsUseCase: GetAvailableSlotsUseCase,
+    private slotHoldRepository?: ISlotHoldRepository,
+    private clinicPolicyRepository?: IClinicPolicyRepository
   ) {}
 
   /**
    * Books an appointment after validating availability
    * @param appointmentData - The appointment data to create
+   * @param actor - The signed-in user making the booking
+   * @param options - Slot hold the booking claims and the ID to give the appointment, if any
    * @returns Promise<BookingResult> - Result of the booking attempt
    */
-  async execute(appointmentData: AppointmentCreate): Promise<BookingResult> {
+  async execute(
+    appointmentData: AppointmentCreate,
+    actor: Actor,
+    options: BookingOptions = {}
+  ): Promise<BookingResult> {
     try {
       // Validate input
-      if (!appointmentData.doctorId || !appointmentData.startDateISO || !appointmentData.endDateISO) {
+      const validationErrors = validateAppointmentCreate(appointmentData);
+      if (validationErrors.length > 0) {
         return {
           success: false,
-          error: 'Missing required appointment data'
+          error: `Invalid appointment data: ${validationErrors.join('; ')}`
         };
       }
 
-      // Validate that end time is after start time
-      const startTime = new Date(appointmentData.startDateISO);
-      const endTime = new Date(appointmentData.endDateISO);
-      
-      if (endTime <= startTime) {
+      // Check that the actor may book for this owner
+      if (!canBookForOwner(actor, appointmentData.ownerId)) {
         return {
           success: false,
-          error: 'End time must be after start time'
+          error: 'Not authorized to book appointments for this owner'
         };
       }
 
+      // A replayed booking that was already made is not booked twice
+      if (options.appointmentId) {
+        const existingAppointment = await this.appointmentRepository.getAppointmentById(options.appointmentId);
+        if (existingAppointment) {
+          return this.replayedBookingResult(existingAppointment, appointmentData, actor);
+        }
+      }
+
       // Validate that appointment is not in the past
-      if (startTime < new Date()) {
+      if (new Date(appointmentData.startDateISO) < new Date()) {
         return {
           success: false,
           error: 'Cannot book appointments in the past'
         };
       }
 
-      // Check if the requested slot is still available
-      const isSlotAvailable = await this.validateSlotAvailability(
+      // Validate the visit type and that the appointment lasts as long as it should
+      const visitTypeResult = await this.resolveVisitType(
         appointmentData.doctorId,
+        appointmentData.visitTypeId,
         appointmentData.startDateISO,
         appointmentData.endDateISO
       );
 
-      if (!isSlotAvailable) {
-        // Get next 3 available slots as alternatives
-        const nextSlots = await this.getAvailableSlotsUseCase.getNextAvailableSlots(
-          appointmentData.doctorId,
-          3
-        );
-
+      if ('error' in visitTypeResult) {
         return {
           success: false,
-          error: 'Slot already booked',
-          nextAvailableSlots: nextSlots.map(slot => ({
-            startISO: slot.startISO,
-            endISO: slot.endISO
-          }))
+          error: visitTypeResult.error
         };
       }
 
+      const { visitType } = visitTypeResult;
+
+      // A hold only frees its slot for the owner it was placed for; an expired or
+      // foreign hold is ignored and the slot is checked like any other
+      const holdId = options.holdId && await this.isClaimableHold(options.holdId, appointmentData, actor)
+        ? options.holdId
+        : undefined;
+
       // Create the appointment
-      const appointment: Appointment = {
-        id: generateUUID(),
+      const appointment: Appointment = withChange({
+        id: options.appointmentId || generateUUID(),
         ...appointmentData,
-        status: 'scheduled',
-        createdAt: new Date().toISOString(),
-        updatedAt: new Date().toISOString()
-      };
+        visitTypeId: visitType.id,
+        visitTypeName: visitType.name,
+        status: 'requested',
+        createdAt: new Date().toISOString()
+      }, { type: 'created' }, actor);
 
-      // Persist the appointment
-      await this.appointmentRepository.createAppointment(appointment);
+      // Persist the appointment, checking the slot is still available in the same
+      // critical section so a concurrent booking cannot take it in between
+      let savedAppointment: Appointment;
+      try {
+        savedAppointment = await this.appointmentRepository.createAppointment(appointment, () =>
+          this.assertSlotAvailable(appointmentData.doctorId, appointmentData.startDateISO, {
+            visitTypeId: visitType.id,
+            holdId
+          })
+        );
+      } catch (error) {
+        if (error instanceof SlotUnavailableError) {
+          return await this.slotUnavailableResult(appointmentData.doctorId, error.message, {
+            visitTypeId: visitType.id
+          });
+        }
+        throw error;
+      }
+
+      // The appointment now blocks the slot, so the hold is no longer needed
+      if (holdId && this.slotHoldRepository) {
+        await this.slotHoldRepository.deleteHold(holdId);
+      }
 
       return {
         success: true,
-        appointment
+        appointment: savedAppointment
       };
 
     } catch (error) {
@@ -111,53 +161,189 @@ export class BookAppointmentUseCase {
   }
 
   /**
-   * Validates if a specific time slot is still available
+   * Returns the appointment an earlier run of the same booking made
+   * The ID is chosen by the client, so the appointment is only returned to
+   * someone who may see it and only for the request that made it; a later
+   * reschedule is traced back through the history to the times first booked.
+   * @param existingAppointment - The appointment already saved with the requested ID
+   * @param appointmentData - The booking being replayed
+   * @param actor - The signed-in user making the booking
+   * @returns BookingResult - The earlier booking, or an error if the ID belongs to another one
+   */
+  private replayedBookingResult(
+    existingAppointment: Appointment,
+    appointmentData: AppointmentCreate,
+    actor: Actor
+  ): BookingResult {
+    const firstMove = (existingAppointment.history || []).find(
+      (entry): entry is Extract<AppointmentHistoryEntry, { type: 'rescheduled' }> => entry.type === 'rescheduled'
+    );
+    const bookedStartISO = firstMove ? firstMove.fromStartISO : existingAppointment.startDateISO;
+    const bookedEndISO = firstMove ? firstMove.fromEndISO : existingAppointment.endDateISO;
+    const isSameTime = (a: string, b: string) => new Date(a).getTime() === new Date(b).getTime();
+
+    const isSameBooking =
+      existingAppointment.doctorId === appointmentData.doctorId &&
+      existingAppointment.ownerId === appointmentData.ownerId &&
+      existingAppointment.petId === appointmentData.petId &&
+      (!appointmentData.visitTypeId || existingAppointment.visitTypeId === appointmentData.visitTypeId) &&
+      isSameTime(bookedStartISO, appointmentData.startDateISO) &&
+      isSameTime(bookedEndISO, appointmentData.endDateISO);
+
+    // Someone who may not see the appointment learns no more than for a mismatch
+    if (!isSameBooking || !canManageAppointment(actor, existingAppointment)) {
+      return {
+        success: false,
+        error: 'This appointment ID is already used by another booking'
+      };
+    }
+
+    return {
+      success: true,
+      appointment: existingAppointment
+    };
+  }
+
+  /**
+   * Looks up the visit type being booked and checks the requested duration against it
    * @param doctorId - The doctor's ID
+   * @param visitTypeId - The requested visit type, or undefined for the doctor's default
    * @param startISO - Start time in ISO format
    * @param endISO - End time in ISO format
-   * @returns Promise<boolean> - True if slot is available
+   * @returns The visit type, or an error message
    */
-  private async validateSlotAvailability(
+  private async resolveVisitType(
     doctorId: string,
+    visitTypeId: string | undefined,
     startISO: string,
     endISO: string
+  ): Promise<{ visitType: VisitType } | { error: string }> {
+    const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+    if (!doctor) {
+      return { error: 'Doctor not found' };
+    }
+
+    const visitType = findDoctorVisitType(doctor, visitTypeId);
+    if (!visitType) {
+      return { error: `This visit type is not offered by ${doctor.name}` };
+    }
+
+    const durationMinutes = (new Date(endISO).getTime() - new Date(startISO).getTime()) / (60 * 1000);
+    if (durationMinutes !== visitType.durationMinutes) {
+      return {
+        error: `${visitType.name} appointments must be ${visitType.durationMinutes} minutes long`
+      };
+    }
+
+    return { visitType };
+  }
+
+  /**
+   * Checks that a hold is still active and reserves this slot for this booking
+   * @param holdId - The hold ID
+   * @param appointmentData - The appointment being booked
+   * @param actor - The signed-in user making the booking
+   * @returns Promise<boolean> - True if the booking may use the held slot
+   */
+  private async isClaimableHold(
+    holdId: string,
+    appointmentData: AppointmentCreate,
+    actor: Actor
   ): Promise<boolean> {
+    if (!this.slotHoldRepository) return false;
+
+    const hold = await this.slotHoldRepository.getHoldById(holdId);
+    if (!hold || new Date(hold.expiresAt) <= new Date()) return false;
+
+    if (
+      hold.doctorId !== appointmentData.doctorId ||
+      new Date(hold.startISO).getTime() !== new Date(appointmentData.startDateISO).getTime()
+    ) {
+      return false;
+    }
+
+    // Booking holds belong to whoever selected the slot; waitlist holds to the owner offered it
+    return hold.userId ? hold.userId === actor.userId : hold.ownerId === appointmentData.ownerId;
+  }
+
+  /**
+   * Validates if a specific start time is still available for a visit type
+   * Rejects times that overlap another appointment, a slot hold or their buffer time.
+   * @param doctorId - The doctor's ID
+   * @param startISO - Start time in ISO format
+   * @param options - The visit type being booked, plus the appointment (when rescheduling)
+   * or slot hold (when booking a held slot) to leave out of the conflict check
+   * @returns Promise<string | null> - Why the slot cannot be booked, or null if it is available
+   */
+  private async validateSlotAvailability(
+    doctorId: string,
+    startISO: string,
+    options: SlotQueryOptions
+  ): Promise<string | null> {
     try {
-      // Get available slots for the specific date
-      const requestedDate = new Date(startISO);
-      const dayStart = new Date(requestedDate);
-      dayStart.setHours(0, 0, 0, 0);
-      
-      const dayEnd = new Date(requestedDate);
-      dayEnd.setHours(23, 59, 59, 999);
-
-      const availableSlots = await this.getAvailableSlotsUseCase.execute(
-        doctorId,
-        dayStart.toISOString(),
-        dayEnd.toISOString()
-      );
+      const check = await this.getAvailableSlotsUseCase.checkSlot(doctorId, startISO, options);
 
-      // Check if the exact requested slot exists in available slots
-      return availableSlots.some(slot => 
-        slot.startISO === startISO && slot.endISO === endISO
-      );
+      return check.available ? null : SLOT_UNAVAILABLE_MESSAGES[check.reason || 'booked'];
 
     } catch (error) {
       console.error('Error validating slot availability:', error);
-      return false;
+      return 'Slot already booked';
     }
   }
 
+  /**
+   * Throws a SlotUnavailableError if a start time can no longer be booked
+   * Used as a write precondition so the check and the save cannot be interleaved.
+   * @param doctorId - The doctor's ID
+   * @param startISO - Start time in ISO format
+   * @param options - As for validateSlotAvailability
+   */
+  private async assertSlotAvailable(
+    doctorId: string,
+    startISO: string,
+    options: SlotQueryOptions
+  ): Promise<void> {
+    const slotError = await this.validateSlotAvailability(doctorId, startISO, options);
+    if (slotError) {
+      throw new SlotUnavailableError(slotError);
+    }
+  }
+
+  /**
+   * Builds the failed result for an unavailable slot, with the next 3 available slots as alternatives
+   * @param doctorId - The doctor's ID
+   * @param error - Why the slot is unavailable
+   * @param options - The visit type being booked, plus the appointment being rescheduled
+   * @returns Promise<BookingResult> - The failed result
+   */
+  private async slotUnavailableResult(
+    doctorId: string,
+    error: string,
+    options: SlotQueryOptions
+  ): Promise<BookingResult> {
+    const nextSlots = await this.getAvailableSlotsUseCase.getNextAvailableSlots(doctorId, 3, options);
+
+    return {
+      success: false,
+      error,
+      nextAvailableSlots: nextSlots.map(slot => ({
+        startISO: slot.startISO,
+        endISO: slot.endISO
+      }))
+    };
+  }
+
   /**
    * Books multiple appointments (batch booking)
    * @param appointmentsData - Array of appointment data
+   * @param actor - The signed-in user making the bookings
    * @returns Promise<BookingResult[]> - Results for each booking attempt
    */
-  async executeMultiple(appointmentsData: AppointmentCreate[]): Promise<BookingResult[]> {
+  async executeMultiple(appointmentsData: AppointmentCreate[], actor: Actor): Promise<BookingResult[]> {
     const results: BookingResult[] = [];
 
     for (const appointmentData of appointmentsData) {
-      const result = await this.execute(appointmentData);
+      const result = await this.execute(appointmentData, actor);
       results.push(result);
     }
 
@@ -169,12 +355,14 @@ export class BookAppointmentUseCase {
    * @param appointmentId - The appointment ID to reschedule
    * @param newStartISO - New start time
    * @param newEndISO - New end time
+   * @param actor - The signed-in user requesting the change
    * @returns Promise<BookingResult> - Result of the reschedule attempt
    */
   async reschedule(
     appointmentId: string,
     newStartISO: string,
-    newEndISO: string
+    newEndISO: string,
+    actor: Actor
   ): Promise<BookingResult> {
     try {
       // Get the existing appointment
@@ -186,42 +374,104 @@ export class BookAppointmentUseCase {
         };
       }
 
-      // Check if new slot is available
-      const isSlotAvailable = await this.validateSlotAvailability(
+      // Check that the actor may manage this appointment
+      if (!canManageAppointment(actor, existingAppointment)) {
+        return {
+          success: false,
+          error: 'Not authorized to reschedule this appointment'
+        };
+      }
+
+      // Appointments that have started or ended stay where they were
+      if (!isUpcomingStatus(existingAppointment.status)) {
+        return {
+          success: false,
+          error: `${getStatusLabel(existingAppointment.status)} appointments cannot be rescheduled`
+        };
+      }
+
+      const isMoved = existingAppointment.startDateISO !== newStartISO || existingAppointment.endDateISO !== newEndISO;
+
+      // Check the notice and the number of moves against the clinic's rules for the actor's role
+      const clinicPolicy = this.clinicPolicyRepository
+        ? await this.clinicPolicyRepository.getClinicPolicy()
+        : DEFAULT_CLINIC_POLICY;
+      const policyError = isMoved ? checkReschedule(clinicPolicy, existingAppointment, actor) : null;
+      if (policyError) {
+        return {
+          success: false,
+          error: policyError
+        };
+      }
+
+      // The appointment keeps its visit type, so the new times must match its duration
+      const visitTypeResult = await this.resolveVisitType(
         existingAppointment.doctorId,
+        existingAppointment.visitTypeId,
         newStartISO,
         newEndISO
       );
 
-      if (!isSlotAvailable) {
-        const nextSlots = await this.getAvailableSlotsUseCase.getNextAvailableSlots(
-          existingAppointment.doctorId,
-          3
-        );
-
+      if ('error' in visitTypeResult) {
         return {
           success: false,
-          error: 'New slot already booked',
-          nextAvailableSlots: nextSlots.map(slot => ({
-            startISO: slot.startISO,
-            endISO: slot.endISO
-          }))
+          error: visitTypeResult.error
         };
       }
 
-      // Update the appointment
-      const updatedAppointment: Appointment = {
+      const { visitType } = visitTypeResult;
+      const slotOptions: SlotQueryOptions = {
+        visitTypeId: visitType.id,
+        ignoreAppointmentId: existingAppointment.id
+      };
+
+      // Update the appointment; moving it to the slot it is already in adds no history
+      const movedAppointment: Appointment = {
         ...existingAppointment,
         startDateISO: newStartISO,
         endDateISO: newEndISO,
+        visitTypeId: visitType.id,
+        visitTypeName: visitType.name,
         updatedAt: new Date().toISOString()
       };
+      const updatedAppointment = isMoved
+        ? withChange(movedAppointment, {
+          type: 'rescheduled',
+          fromStartISO: existingAppointment.startDateISO,
+          fromEndISO: existingAppointment.endDateISO,
+          toStartISO: newStartISO,
+          toEndISO: newEndISO
+        }, actor)
+        : movedAppointment;
+
+      const validationErrors = validateAppointment(updatedAppointment);
+      if (validationErrors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid appointment data: ${validationErrors.join('; ')}`
+        };
+      }
 
-      await this.appointmentRepository.updateAppointment(updatedAppointment);
+      // Check the new slot is available in the same critical section as the save
+      let savedAppointment: Appointment;
+      try {
+        savedAppointment = await this.appointmentRepository.updateAppointment(updatedAppointment, () =>
+          this.assertSlotAvailable(existingAppointment.doctorId, newStartISO, slotOptions)
+        );
+      } catch (error) {
+        if (error instanceof SlotUnavailableError) {
+          return await this.slotUnavailableResult(
+            existingAppointment.doctorId,
+            `New slot unavailable: ${error.message}`,
+            slotOptions
+          );
+        }
+        throw error;
+      }
 
       return {
         success: true,
-        appointment: updatedAppointment
+        appointment: savedAppointment
       };
 
     } catch (error) {
@@ -1,5 +1,17 @@
 import { Appointment } from '../entities/Appointment';
+import { Actor } from '../entities/User';
 import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IClinicPolicyRepository } from '../repositories/IClinicPolicyRepository';
+import { canManageAppointment, canManageDoctorSchedule } from '../policies/authorization';
+import { canTransition, getStatusLabel, withStatus } from '../policies/appointmentLifecycle';
+import { DEFAULT_CLINIC_POLICY, evaluateCancellation } from '../policies/clinicPolicy';
+import { ManageWaitlistUseCase } from './ManageWaitlistUseCase';
+import {
+  addDaysToDateString,
+  getDeviceTimeZone,
+  toZonedDateString,
+  zonedTimeToDate
+} from '../../shared/utils/timezone';
 
 export interface CancelResult {
   success: boolean;
@@ -9,17 +21,25 @@ export interface CancelResult {
 
 /**
  * Use case for cancelling appointments
+ * The clinic's policy decides how much notice each role must give, and
+ * whether a late cancellation is refused or flagged. Freed slots are offered
+ * to the doctor's waitlist.
  */
 export class CancelAppointmentUseCase {
-  constructor(private appointmentRepository: IAppointmentRepository) {}
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private manageWaitlistUseCase?: ManageWaitlistUseCase,
+    private clinicPolicyRepository?: IClinicPolicyRepository
+  ) {}
 
   /**
    * Cancels an appointment by ID
    * @param appointmentId - The appointment ID to cancel
+   * @param actor - The signed-in user requesting the cancellation
    * @param reason - Optional cancellation reason
    * @returns Promise<CancelResult> - Result of the cancellation
    */
-  async execute(appointmentId: string, reason?: string): Promise<CancelResult> {
+  async execute(appointmentId: string, actor: Actor, reason?: string): Promise<CancelResult> {
     try {
       // Get the existing appointment
       const existingAppointment = await this.appointmentRepository.getAppointmentById(appointmentId);
@@ -31,6 +51,14 @@ export class CancelAppointmentUseCase {
         };
       }
 
+      // Check that the actor may manage this appointment
+      if (!canManageAppointment(actor, existingAppointment)) {
+        return {
+          success: false,
+          error: 'Not authorized to cancel this appointment'
+        };
+      }
+
       // Check if appointment is already cancelled
       if (existingAppointment.status === 'cancelled') {
         return {
@@ -39,6 +67,14 @@ export class CancelAppointmentUseCase {
         };
       }
 
+      // Once the patient has arrived, the visit is finished rather than cancelled
+      if (!canTransition(existingAppointment.status, 'cancelled')) {
+        return {
+          success: false,
+          error: `${getStatusLabel(existingAppointment.status)} appointments cannot be cancelled`
+        };
+      }
+
       // Check if appointment is in the past
       const appointmentStart = new Date(existingAppointment.startDateISO);
       if (appointmentStart < new Date()) {
@@ -48,19 +84,36 @@ export class CancelAppointmentUseCase {
         };
       }
 
-      // Update appointment status to cancelled
-      const cancelledAppointment: Appointment = {
-        ...existingAppointment,
-        status: 'cancelled',
-        notes: reason ? `${existingAppointment.notes || ''}\nCancellation reason: ${reason}`.trim() : existingAppointment.notes,
-        updatedAt: new Date().toISOString()
-      };
+      // Check the notice given against the clinic's rules for the actor's role
+      const clinicPolicy = this.clinicPolicyRepository
+        ? await this.clinicPolicyRepository.getClinicPolicy()
+        : DEFAULT_CLINIC_POLICY;
+      const decision = evaluateCancellation(clinicPolicy, existingAppointment, actor);
+      if (!decision.allowed) {
+        return {
+          success: false,
+          error: decision.error
+        };
+      }
+
+      // Update appointment status to cancelled; late cancellations are flagged for the no-show score
+      const cancelledAppointment: Appointment = withStatus(
+        {
+          ...existingAppointment,
+          cancellationReason: reason || undefined,
+          lateCancellation: decision.late || undefined
+        },
+        'cancelled',
+        actor,
+        reason
+      );
 
-      await this.appointmentRepository.updateAppointment(cancelledAppointment);
+      const savedAppointment = await this.appointmentRepository.updateAppointment(cancelledAppointment);
+      await this.offerToWaitlist(savedAppointment);
 
       return {
         success: true,
-        appointment: cancelledAppointment
+        appointment: savedAppointment
       };
 
     } catch (error) {
@@ -72,17 +125,35 @@ export class CancelAppointmentUseCase {
     }
   }
 
+  /**
+   * Offers a cancelled appointment's slot to the waitlist
+   * The cancellation stands even if the offer fails.
+   * @param appointment - The cancelled appointment
+   */
+  private async offerToWaitlist(appointment: Appointment): Promise<void> {
+    if (!this.manageWaitlistUseCase) {
+      return;
+    }
+
+    try {
+      await this.manageWaitlistUseCase.offerFreedSlot(appointment);
+    } catch (error) {
+      console.error('Error offering freed slot to the waitlist:', error);
+    }
+  }
+
   /**
    * Cancels multiple appointments
    * @param appointmentIds - Array of appointment IDs to cancel
+   * @param actor - The signed-in user requesting the cancellation
    * @param reason - Optional cancellation reason
    * @returns Promise<CancelResult[]> - Results for each cancellation
    */
-  async executeMultiple(appointmentIds: string[], reason?: string): Promise<CancelResult[]> {
+  async executeMultiple(appointmentIds: string[], actor: Actor, reason?: string): Promise<CancelResult[]> {
     const results: CancelResult[] = [];
 
     for (const appointmentId of appointmentIds) {
-      const result = await this.execute(appointmentId, reason);
+      const result = await this.execute(appointmentId, actor, reason);
       results.push(result);
     }
 
@@ -92,22 +163,36 @@ export class CancelAppointmentUseCase {
   /**
    * Cancels all appointments for a doctor on a specific date
    * @param doctorId - The doctor's ID
-   * @param date - The date (ISO string)
+   * @param date - The date (YYYY-MM-DD, or an ISO string whose day is taken in the timezone)
+   * @param actor - The signed-in user requesting the cancellation
    * @param reason - Cancellation reason
+   * @param timeWindow - Optional HH:MM window; only appointments overlapping it are cancelled
+   * @param timeZone - IANA timezone the date and window are in (default: the device's)
    * @returns Promise<CancelResult[]> - Results for each cancellation
    */
   async cancelDoctorAppointmentsForDate(
     doctorId: string,
     date: string,
-    reason: string
+    actor: Actor,
+    reason: string,
+    timeWindow?: { startTime: string; endTime: string },
+    timeZone: string = getDeviceTimeZone()
   ): Promise<CancelResult[]> {
     try {
+      if (!canManageDoctorSchedule(actor, doctorId)) {
+        return [{
+          success: false,
+          error: "Not authorized to cancel this doctor's appointments"
+        }];
+      }
+
+
       // Get all appointments for the doctor on the specified date
-      const dayStart = new Date(date);
-      dayStart.setHours(0, 0, 0, 0);
-      
-      const dayEnd = new Date(date);
-      dayEnd.setHours(23, 59, 59, 999);
+      const day = /^\d{4}-\d{2}-\d{2}$/.test(date) ? date : toZonedDateString(new Date(date), timeZone);
+      const dayStart = zonedTimeToDate(day, timeWindow ? timeWindow.startTime : '00:00', timeZone);
+      const dayEnd = timeWindow
+        ? zonedTimeToDate(day, timeWindow.endTime, timeZone)
+        : new Date(zonedTimeToDate(addDaysToDateString(day, 1), '00:00', timeZone).getTime() - 1);
 
       const appointments = await this.appointmentRepository.getAppointmentsByDoctorAndDateRange(
         doctorId,
@@ -115,12 +200,15 @@ export class CancelAppointmentUseCase {
         dayEnd.toISOString()
       );
 
-      // Filter out already cancelled appointments
-      const activateAppointments = appointments.filter(apt => apt.status !== 'cancelled');
+      // Filter out appointments that can no longer be cancelled and ones that only touch the window's edges
+      const activateAppointments = appointments.filter(apt =>
+        canTransition(apt.status, 'cancelled') &&
+        (!timeWindow || (new Date(apt.startDateISO) < dayEnd && new Date(apt.endDateISO) > dayStart))
+      );
 
       // Cancel each appointment
       const appointmentIds = activateAppointments.map(apt => apt.id);
-      return await this.executeMultiple(appointmentIds, reason);
+      return await this.executeMultiple(appointmentIds, actor, reason);
 
     } catch (error) {
       console.error('Error cancelling doctor appointments for date:', error);
@@ -0,0 +1,91 @@
+import { Appointment, AppointmentStatus } from '../entities/Appointment';
+import { Actor } from '../entities/User';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { canChangeAppointmentStatus } from '../policies/authorization';
+import { canTransition, getStatusLabel, withStatus } from '../policies/appointmentLifecycle';
+import { CancelAppointmentUseCase } from './CancelAppointmentUseCase';
+
+export interface StatusChangeResult {
+  success: boolean;
+  appointment?: Appointment;
+  error?: string;
+}
+
+/**
+ * Use case for moving appointments through their lifecycle
+ * Illegal transitions are rejected, and every change is added to the
+ * appointment's history with who made it and when. Cancellations go
+ * through CancelAppointmentUseCase, so the freed slot reaches the waitlist.
+ */
+export class ChangeAppointmentStatusUseCase {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private cancelAppointmentUseCase: CancelAppointmentUseCase
+  ) {}
+
+  /**
+   * Moves an appointment to a new status
+   * @param appointmentId - The appointment ID
+   * @param status - The status to move it to
+   * @param actor - The signed-in user making the change
+   * @param reason - Optional reason, kept in the status history
+   * @returns Promise<StatusChangeResult> - The updated appointment
+   */
+  async execute(
+    appointmentId: string,
+    status: AppointmentStatus,
+    actor: Actor,
+    reason?: string
+  ): Promise<StatusChangeResult> {
+    try {
+      if (status === 'cancelled') {
+        return await this.cancelAppointmentUseCase.execute(appointmentId, actor, reason);
+      }
+
+      const existingAppointment = await this.appointmentRepository.getAppointmentById(appointmentId);
+      if (!existingAppointment) {
+        return {
+          success: false,
+          error: 'Appointment not found'
+        };
+      }
+
+      if (!canChangeAppointmentStatus(actor, existingAppointment)) {
+        return {
+          success: false,
+          error: "Not authorized to change this appointment's status"
+        };
+      }
+
+      if (!canTransition(existingAppointment.status, status)) {
+        return {
+          success: false,
+          error: `Cannot move an appointment from ${getStatusLabel(existingAppointment.status)} to ${getStatusLabel(status)}`
+        };
+      }
+
+      // Nobody can have missed an appointment that has not started
+      if (status === 'no_show' && new Date(existingAppointment.startDateISO) > new Date()) {
+        return {
+          success: false,
+          error: 'An appointment can only be marked as a no-show once it has started'
+        };
+      }
+
+      const savedAppointment = await this.appointmentRepository.updateAppointment(
+        withStatus(existingAppointment, status, actor, reason)
+      );
+
+      return {
+        success: true,
+        appointment: savedAppointment
+      };
+    } catch (error) {
+      console.error('Error changing appointment status:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+}
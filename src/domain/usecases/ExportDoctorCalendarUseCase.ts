@@ -0,0 +1,79 @@
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { GetAvailableSlotsUseCase } from './GetAvailableSlotsUseCase';
+import {
+  FreeBusyPeriod,
+  exportAvailabilityToIcs,
+  exportFreeBusyToIcs
+} from '../../shared/utils/icalHelpers';
+import { expandExceptionsToIntervals } from '../../shared/utils/rruleHelpers';
+import { getDoctorTimeZone } from '../../shared/utils/timezone';
+import { getDoctorVisitTypes } from '../../shared/utils/visitTypes';
+
+/**
+ * Use case for sharing a doctor's schedule with other calendars
+ * The availability feed carries the weekly rules themselves; free/busy
+ * covers a date range and reflects bookings as well.
+ */
+export class ExportDoctorCalendarUseCase {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private getAvailableSlotsUseCase: GetAvailableSlotsUseCase
+  ) {}
+
+  /**
+   * Exports a doctor's weekly availability and exceptions as recurring events
+   * @param doctorId - The doctor's ID
+   * @returns Promise<string> - iCal string
+   */
+  async exportAvailability(doctorId: string): Promise<string> {
+    const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+    if (!doctor) {
+      throw new Error(`Doctor with ID ${doctorId} not found`);
+    }
+
+    return exportAvailabilityToIcs(doctor);
+  }
+
+  /**
+   * Exports when a doctor is booked, free and off over a date range
+   * Free time is where the doctor's shortest visit can still be booked, as
+   * GetAvailableSlotsUseCase finds it, so held slots and buffers are not free.
+   * @param doctorId - The doctor's ID
+   * @param fromISO - Start of the range
+   * @param toISO - End of the range
+   * @returns Promise<string> - iCal string with one VFREEBUSY
+   */
+  async exportFreeBusy(doctorId: string, fromISO: string, toISO: string): Promise<string> {
+    const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+    if (!doctor) {
+      throw new Error(`Doctor with ID ${doctorId} not found`);
+    }
+
+    const [shortestVisit] = [...getDoctorVisitTypes(doctor)].sort((a, b) => a.durationMinutes - b.durationMinutes);
+    const slots = await this.getAvailableSlotsUseCase.execute(doctorId, fromISO, toISO, {
+      visitTypeId: shortestVisit.id
+    });
+
+    const appointments = await this.appointmentRepository.getAppointmentsByDoctorAndDateRange(doctorId, fromISO, toISO);
+    const busy: FreeBusyPeriod[] = appointments
+      .filter(appointment => appointment.status !== 'cancelled')
+      .map(appointment => ({ startISO: appointment.startDateISO, endISO: appointment.endDateISO }));
+
+    const unavailable: FreeBusyPeriod[] = expandExceptionsToIntervals(
+      doctor.availabilityExceptions || [],
+      'block',
+      new Date(fromISO),
+      new Date(toISO),
+      getDoctorTimeZone(doctor)
+    ).map(interval => ({ startISO: interval.start.toISOString(), endISO: interval.end.toISOString() }));
+
+    return exportFreeBusyToIcs({
+      doctor,
+      fromISO,
+      toISO,
+      busy,
+      unavailable,
+      free: slots.map(slot => ({ startISO: slot.startISO, endISO: slot.endISO }))
+    });
+  }
+}
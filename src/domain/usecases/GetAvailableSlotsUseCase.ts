@@ -1,32 +1,89 @@
 import { Appointment } from '../entities/Appointment';
 import { Doctor, TimeSlot } from '../entities/Doctor';
+import { VisitType } from '../entities/VisitType';
 import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { ISlotHoldRepository } from '../repositories/ISlotHoldRepository';
+import { IBusyBlockRepository } from '../repositories/IBusyBlockRepository';
 import { 
   expandAvailabilityToDates, 
-  generateSlotsForBlock, 
-  combineDateAndTime 
+  expandExceptionsToIntervals,
+  generateSlotsForBlock
 } from '../../shared/utils/rruleHelpers';
+import { getDoctorTimeZone, zonedTimeToDate } from '../../shared/utils/timezone';
+import {
+  BufferMinutes,
+  findDoctorVisitType,
+  getAppointmentBuffers,
+  getVisitBuffers
+} from '../../shared/utils/visitTypes';
+
+const DEFAULT_START_INTERVAL_MINUTES = 15;
+const DEFAULT_LOOK_AHEAD_DAYS = 30;
+const SEARCH_WINDOW_DAYS = 7;
+
+export interface SlotQueryOptions {
+  visitTypeId?: string; // Defaults to the doctor's first visit type
+  startIntervalMinutes?: number; // Minutes between candidate start times (default: 15)
+  ignoreAppointmentId?: string; // Treat this appointment as free, e.g. when rescheduling it
+  holdId?: string; // Treat the slot held by this hold as free, e.g. when booking it
+}
+
+export type SlotUnavailableReason = 'past' | 'outside_availability' | 'booked' | 'held' | 'buffer' | 'busy';
+
+export interface SlotCheckResult {
+  available: boolean;
+  reason?: SlotUnavailableReason;
+}
+
+// What to tell the user when a slot cannot be booked
+export const SLOT_UNAVAILABLE_MESSAGES: Record<SlotUnavailableReason, string> = {
+  past: 'Cannot book appointments in the past',
+  outside_availability: 'Doctor is not available at this time',
+  booked: 'Slot already booked',
+  held: 'Slot is being held for another owner',
+  buffer: 'Slot is too close to another appointment',
+  busy: 'Doctor is busy at this time'
+};
+
+interface TimeInterval {
+  start: Date;
+  end: Date;
+}
+
+interface BookedInterval {
+  start: number; // Appointment or held slot start (ms)
+  end: number; // Appointment or held slot end (ms)
+  paddedStart: number; // Start minus the visit's buffer before (ms)
+  paddedEnd: number; // End plus the visit's buffer after (ms)
+  isHold: boolean; // A slot held for someone else rather than an appointment
+}
 
 /**
  * Use case for getting available appointment slots for a doctor
- * Handles recurring availability patterns and existing bookings
+ * Handles recurring availability patterns, date-specific exceptions,
+ * visit type durations, existing bookings, slots held by other owners and
+ * busy time imported from the doctor's other calendars
  */
 export class GetAvailableSlotsUseCase {
-  constructor(private appointmentRepository: IAppointmentRepository) {}
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private slotHoldRepository?: ISlotHoldRepository,
+    private busyBlockRepository?: IBusyBlockRepository
+  ) {}
 
   /**
    * Gets available appointment slots for a doctor within a date range
    * @param doctorId - The doctor's ID
    * @param fromDate - Start date (ISO string)
    * @param toDate - End date (ISO string)
-   * @param slotDurationMinutes - Duration of each slot in minutes (default: 30)
+   * @param options - Visit type and start time spacing
    * @returns Promise<TimeSlot[]> - Array of available time slots
    */
   async execute(
     doctorId: string,
     fromDate: string,
     toDate: string,
-    slotDurationMinutes: number = 30
+    options: SlotQueryOptions = {}
   ): Promise<TimeSlot[]> {
     try {
       // Get doctor information
@@ -35,27 +92,41 @@ export class GetAvailableSlotsUseCase {
         throw new Error(`Doctor with ID ${doctorId} not found`);
       }
 
-      // Get existing appointments for the doctor in the date range
-      const existingAppointments = await this.appointmentRepository.getAppointmentsByDoctorAndDateRange(
-        doctorId,
-        fromDate,
-        toDate
-      );
+      const visitType = findDoctorVisitType(doctor, options.visitTypeId);
+      if (!visitType) {
+        throw new Error(`Visit type ${options.visitTypeId} is not offered by ${doctor.name}`);
+      }
 
       // Convert date strings to Date objects
       const startDate = new Date(fromDate);
       const endDate = new Date(toDate);
 
+      // Get existing appointments around the requested range
+      const bookedIntervals = await this.getBookedIntervals(doctor, startDate, endDate, options);
+      // Slots may start at the end of the range and run past it
+      const busyIntervals = await this.getBusyIntervals(
+        doctor,
+        startDate,
+        new Date(endDate.getTime() + visitType.durationMinutes * 60 * 1000)
+      );
+
       // Generate all possible slots from doctor's availability
       const allPossibleSlots = this.generateAllPossibleSlots(
         doctor,
         startDate,
         endDate,
-        slotDurationMinutes
+        visitType,
+        options.startIntervalMinutes || DEFAULT_START_INTERVAL_MINUTES
       );
 
-      // Filter out booked slots
-      const availableSlots = this.filterBookedSlots(allPossibleSlots, existingAppointments);
+      // Filter out booked slots and busy time
+      const availableSlots = this.filterBookedSlots(
+        allPossibleSlots,
+        bookedIntervals,
+        busyIntervals,
+        doctor,
+        visitType
+      );
 
       // Sort slots by start time
       return availableSlots.sort((a, b) => 
@@ -69,102 +140,373 @@ export class GetAvailableSlotsUseCase {
   }
 
   /**
-   * Generates all possible slots from doctor's weekly availability
+   * Generates all possible slots from doctor's weekly availability and extra sessions
+   * Slots overlapping blocked time (holidays, time off) are left out.
    * @param doctor - The doctor
    * @param startDate - Start date
    * @param endDate - End date
-   * @param slotDurationMinutes - Slot duration in minutes
+   * @param visitType - The visit type being booked
+   * @param startIntervalMinutes - Minutes between candidate start times
    * @returns Array of all possible time slots
    */
   private generateAllPossibleSlots(
     doctor: Doctor,
     startDate: Date,
     endDate: Date,
-    slotDurationMinutes: number
+    visitType: VisitType,
+    startIntervalMinutes: number
   ): TimeSlot[] {
-    const allSlots: TimeSlot[] = [];
+    const slotsByStart = new Map<string, TimeSlot>();
+    const blockedIntervals = this.getBlockedIntervals(doctor, startDate, endDate);
 
-    // Process each availability pattern
-    for (const availability of doctor.weeklyAvailability) {
-      // Expand availability to concrete dates using rrule
-      const availableDates = expandAvailabilityToDates(availability, startDate, endDate);
+    for (const block of this.getAvailabilityBlocks(doctor, startDate, endDate)) {
+      // Skip if the availability is in the past
+      if (block.end < new Date()) {
+        continue;
+      }
 
-      // For each available date, generate time slots
-      for (const date of availableDates) {
-        const startDateTime = combineDateAndTime(date, availability.startTime);
-        const endDateTime = combineDateAndTime(date, availability.endTime);
+      // Generate slots for this time block
+      const timeSlots = generateSlotsForBlock(
+        block.start,
+        block.end,
+        visitType.durationMinutes,
+        startIntervalMinutes
+      );
 
-        // Skip if the availability is in the past
-        if (endDateTime < new Date()) {
+      // Convert to TimeSlot format
+      for (const slot of timeSlots) {
+        // Skip slots that are in the past or outside the requested range
+        if (slot.start < new Date() || slot.start < startDate || slot.start > endDate) {
           continue;
         }
 
-        // Generate slots for this time block
-        const timeSlots = generateSlotsForBlock(startDateTime, endDateTime, slotDurationMinutes);
-
-        // Convert to TimeSlot format
-        for (const slot of timeSlots) {
-          // Skip slots that are in the past
-          if (slot.start < new Date()) {
-            continue;
-          }
-
-          allSlots.push({
-            startISO: slot.start.toISOString(),
-            endISO: slot.end.toISOString(),
-            doctorId: doctor.id
-          });
+        // Skip slots during time off
+        if (blockedIntervals.some(blocked => slot.start < blocked.end && slot.end > blocked.start)) {
+          continue;
         }
+
+        // Extra sessions may overlap the weekly schedule; keep one slot per start time
+        const startISO = slot.start.toISOString();
+        slotsByStart.set(startISO, {
+          startISO,
+          endISO: slot.end.toISOString(),
+          visitTypeId: visitType.id,
+          doctorId: doctor.id
+        });
       }
     }
 
-    return allSlots;
+    return Array.from(slotsByStart.values());
   }
 
   /**
-   * Filters out slots that are already booked
+   * Gets the concrete time blocks a doctor works within a date range:
+   * the weekly schedule (minus whole days off) plus extra sessions
+   * Times are taken in the doctor's timezone, so "09:00" stays 09:00 at the
+   * clinic on DST transition days and on devices in other zones.
+   * @param doctor - The doctor
+   * @param startDate - Start date
+   * @param endDate - End date
+   * @returns Availability blocks
+   */
+  private getAvailabilityBlocks(doctor: Doctor, startDate: Date, endDate: Date): TimeInterval[] {
+    const timeZone = getDoctorTimeZone(doctor);
+    const exceptions = doctor.availabilityExceptions || [];
+    const blocks: TimeInterval[] = [];
+
+    // Process each availability pattern
+    for (const availability of doctor.weeklyAvailability) {
+      // Expand availability to concrete dates using rrule
+      const availableDates = expandAvailabilityToDates(
+        availability,
+        startDate,
+        endDate,
+        timeZone,
+        exceptions
+      );
+
+      for (const date of availableDates) {
+        blocks.push({
+          start: zonedTimeToDate(date, availability.startTime, timeZone),
+          end: zonedTimeToDate(date, availability.endTime, timeZone)
+        });
+      }
+    }
+
+    return blocks.concat(
+      expandExceptionsToIntervals(exceptions, 'extra', startDate, endDate, timeZone)
+    );
+  }
+
+  /**
+   * Gets the time a doctor has blocked off within a date range
+   * @param doctor - The doctor
+   * @param startDate - Start date
+   * @param endDate - End date
+   * @returns Blocked intervals
+   */
+  private getBlockedIntervals(doctor: Doctor, startDate: Date, endDate: Date): TimeInterval[] {
+    return expandExceptionsToIntervals(
+      doctor.availabilityExceptions || [],
+      'block',
+      startDate,
+      endDate,
+      getDoctorTimeZone(doctor)
+    );
+  }
+
+  /**
+   * Filters out slots that are already booked or fall into busy time
+   * Both the candidate slot and each existing appointment are padded with
+   * their buffers before checking for overlap.
    * @param allSlots - All possible slots
-   * @param existingAppointments - Existing appointments
+   * @param bookedIntervals - Existing appointments with their buffers
+   * @param busyIntervals - Busy time from the doctor's other calendars
+   * @param doctor - The doctor
+   * @param visitType - The visit type being booked
    * @returns Available slots after filtering
    */
-  private filterBookedSlots(allSlots: TimeSlot[], existingAppointments: Appointment[]): TimeSlot[] {
-    return allSlots.filter(slot => {
-      const slotStart = new Date(slot.startISO);
-      const slotEnd = new Date(slot.endISO);
-
-      // Check if this slot conflicts with any existing appointment
-      const hasConflict = existingAppointments.some(appointment => {
-        // Skip cancelled appointments
-        if (appointment.status === 'cancelled') {
-          return false;
-        }
+  private filterBookedSlots(
+    allSlots: TimeSlot[],
+    bookedIntervals: BookedInterval[],
+    busyIntervals: TimeInterval[],
+    doctor: Doctor,
+    visitType: VisitType
+  ): TimeSlot[] {
+    return allSlots.filter(slot =>
+      !this.findConflict(slot.startISO, slot.endISO, bookedIntervals, busyIntervals, doctor, visitType)
+    );
+  }
 
-        const appointmentStart = new Date(appointment.startDateISO);
-        const appointmentEnd = new Date(appointment.endDateISO);
+  /**
+   * Checks a slot against existing appointments and busy time
+   * Busy time is not padded: buffers are for preparing the room, not the doctor.
+   * @param startISO - Slot start
+   * @param endISO - Slot end
+   * @param bookedIntervals - Existing appointments with their buffers
+   * @param busyIntervals - Busy time from the doctor's other calendars
+   * @param doctor - The doctor
+   * @param visitType - The visit type being booked
+   * @returns 'busy' if the slot overlaps busy time, 'booked' if it overlaps an
+   * appointment, 'held' if it overlaps a slot held for someone else, 'buffer'
+   * if it only overlaps the buffer time around either, or null if there is no conflict
+   */
+  private findConflict(
+    startISO: string,
+    endISO: string,
+    bookedIntervals: BookedInterval[],
+    busyIntervals: TimeInterval[],
+    doctor: Doctor,
+    visitType: VisitType
+  ): 'booked' | 'held' | 'buffer' | 'busy' | null {
+    const buffers = getVisitBuffers(doctor, visitType);
+    const start = new Date(startISO).getTime();
+    const end = new Date(endISO).getTime();
+    const paddedStart = start - buffers.bufferBeforeMinutes * 60 * 1000;
+    const paddedEnd = end + buffers.bufferAfterMinutes * 60 * 1000;
 
-        // Check for time overlap
-        return (
-          (slotStart >= appointmentStart && slotStart < appointmentEnd) ||
-          (slotEnd > appointmentStart && slotEnd <= appointmentEnd) ||
-          (slotStart <= appointmentStart && slotEnd >= appointmentEnd)
-        );
-      });
+    if (busyIntervals.some(busy => start < busy.end.getTime() && end > busy.start.getTime())) {
+      return 'busy';
+    }
 
-      return !hasConflict;
-    });
+    const overlapping = bookedIntervals.find(interval => start < interval.end && end > interval.start);
+    if (overlapping) {
+      return overlapping.isHold ? 'held' : 'booked';
+    }
+
+    if (bookedIntervals.some(interval => paddedStart < interval.paddedEnd && paddedEnd > interval.paddedStart)) {
+      return 'buffer';
+    }
+
+    return null;
+  }
+
+  /**
+   * Loads a doctor's active appointments and held slots around a time range
+   * together with their buffers
+   * The range is widened by the largest buffer so neighbouring appointments are seen.
+   * @param doctor - The doctor
+   * @param startDate - Range start
+   * @param endDate - Range end
+   * @param options - Appointment and hold to leave out
+   * @returns Booked intervals
+   */
+  private async getBookedIntervals(
+    doctor: Doctor,
+    startDate: Date,
+    endDate: Date,
+    options: SlotQueryOptions
+  ): Promise<BookedInterval[]> {
+    const maxBufferMs = this.getMaxBufferMinutes(doctor) * 2 * 60 * 1000;
+    const rangeStart = new Date(startDate.getTime() - maxBufferMs);
+    const rangeEnd = new Date(endDate.getTime() + maxBufferMs);
+    const existingAppointments = await this.appointmentRepository.getAppointmentsByDoctorAndDateRange(
+      doctor.id,
+      rangeStart.toISOString(),
+      rangeEnd.toISOString()
+    );
+
+    const appointmentIntervals = existingAppointments
+      // Skip cancelled appointments
+      .filter(appointment => appointment.status !== 'cancelled' && appointment.id !== options.ignoreAppointmentId)
+      .map(appointment => this.toBookedInterval(appointment, getAppointmentBuffers(doctor, appointment), false));
+
+    const heldIntervals = await this.getHeldIntervals(doctor, rangeStart, rangeEnd, options.holdId);
+
+    return appointmentIntervals.concat(heldIntervals);
+  }
+
+  /**
+   * Loads the slots currently held for other owners, either while they fill in
+   * the booking form or for a waitlist offer
+   * Expired holds are ignored even before they are swept.
+   * @param doctor - The doctor
+   * @param rangeStart - Range start
+   * @param rangeEnd - Range end
+   * @param ignoreHoldId - Hold to leave out (the caller's own)
+   * @returns Held intervals
+   */
+  private async getHeldIntervals(
+    doctor: Doctor,
+    rangeStart: Date,
+    rangeEnd: Date,
+    ignoreHoldId?: string
+  ): Promise<BookedInterval[]> {
+    if (!this.slotHoldRepository) {
+      return [];
+    }
+
+    const holds = await this.slotHoldRepository.getActiveHoldsByDoctor(doctor.id, new Date());
+
+    return holds
+      .filter(hold =>
+        hold.id !== ignoreHoldId &&
+        new Date(hold.startISO) < rangeEnd &&
+        new Date(hold.endISO) > rangeStart
+      )
+      .map(hold => this.toBookedInterval(
+        { startDateISO: hold.startISO, endDateISO: hold.endISO },
+        getVisitBuffers(doctor, findDoctorVisitType(doctor, hold.visitTypeId) || undefined),
+        true
+      ));
+  }
+
+  /**
+   * Loads the busy time imported from the doctor's other calendars within a range
+   * @param doctor - The doctor
+   * @param startDate - Range start
+   * @param endDate - Range end
+   * @returns Busy intervals
+   */
+  private async getBusyIntervals(doctor: Doctor, startDate: Date, endDate: Date): Promise<TimeInterval[]> {
+    if (!this.busyBlockRepository) {
+      return [];
+    }
+
+    const blocks = await this.busyBlockRepository.getBusyBlocksByDoctor(doctor.id);
+
+    return blocks
+      .map(block => ({ start: new Date(block.startISO), end: new Date(block.endISO) }))
+      .filter(interval => interval.start < endDate && interval.end > startDate);
+  }
+
+  private toBookedInterval(
+    visit: Pick<Appointment, 'startDateISO' | 'endDateISO'>,
+    buffers: BufferMinutes,
+    isHold: boolean
+  ): BookedInterval {
+    const start = new Date(visit.startDateISO).getTime();
+    const end = new Date(visit.endDateISO).getTime();
+
+    return {
+      start,
+      end,
+      paddedStart: start - buffers.bufferBeforeMinutes * 60 * 1000,
+      paddedEnd: end + buffers.bufferAfterMinutes * 60 * 1000,
+      isHold
+    };
+  }
+
+  /**
+   * Gets the largest buffer the doctor or any of their visit types uses
+   * @param doctor - The doctor
+   * @returns Buffer in minutes
+   */
+  private getMaxBufferMinutes(doctor: Doctor): number {
+    return (doctor.visitTypes || []).reduce(
+      (max, visitType) => Math.max(max, visitType.bufferBeforeMinutes, visitType.bufferAfterMinutes),
+      Math.max(doctor.bufferBeforeMinutes || 0, doctor.bufferAfterMinutes || 0)
+    );
+  }
+
+  /**
+   * Checks whether a visit can be booked at a specific start time
+   * Unlike execute, the start time does not have to lie on the slot grid.
+   * @param doctorId - The doctor's ID
+   * @param startISO - Requested start time
+   * @param options - Visit type and appointment to ignore
+   * @returns Promise<SlotCheckResult> - Whether the slot is available, and why not
+   */
+  async checkSlot(
+    doctorId: string,
+    startISO: string,
+    options: SlotQueryOptions = {}
+  ): Promise<SlotCheckResult> {
+    const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+    if (!doctor) {
+      throw new Error(`Doctor with ID ${doctorId} not found`);
+    }
+
+    const visitType = findDoctorVisitType(doctor, options.visitTypeId);
+    if (!visitType) {
+      throw new Error(`Visit type ${options.visitTypeId} is not offered by ${doctor.name}`);
+    }
+
+    const start = new Date(startISO);
+    const end = new Date(start.getTime() + visitType.durationMinutes * 60 * 1000);
+
+    if (start < new Date()) {
+      return { available: false, reason: 'past' };
+    }
+
+    // The visit itself has to fit inside one of the doctor's availability blocks that day
+    // (blocks are expanded for whole days in the doctor's timezone) and must not overlap time off
+    const fitsAvailability = this.getAvailabilityBlocks(doctor, start, end).some(block =>
+      block.start <= start && block.end >= end
+    );
+    const isBlocked = this.getBlockedIntervals(doctor, start, end).some(blocked =>
+      start < blocked.end && end > blocked.start
+    );
+
+    if (!fitsAvailability || isBlocked) {
+      return { available: false, reason: 'outside_availability' };
+    }
+
+    const bookedIntervals = await this.getBookedIntervals(doctor, start, end, options);
+    const busyIntervals = await this.getBusyIntervals(doctor, start, end);
+    const conflict = this.findConflict(
+      start.toISOString(),
+      end.toISOString(),
+      bookedIntervals,
+      busyIntervals,
+      doctor,
+      visitType
+    );
+
+    return conflict ? { available: false, reason: conflict } : { available: true };
   }
 
   /**
    * Gets the next N available slots for a doctor
    * @param doctorId - The doctor's ID
    * @param count - Number of slots to return
-   * @param slotDurationMinutes - Duration of each slot in minutes
+   * @param options - Visit type and start time spacing
    * @returns Promise<TimeSlot[]> - Next available slots
    */
   async getNextAvailableSlots(
     doctorId: string,
     count: number = 3,
-    slotDurationMinutes: number = 30
+    options: SlotQueryOptions = {}
   ): Promise<TimeSlot[]> {
     const now = new Date();
     const futureDate = new Date();
@@ -174,9 +516,51 @@ export class GetAvailableSlotsUseCase {
       doctorId,
       now.toISOString(),
       futureDate.toISOString(),
-      slotDurationMinutes
+      options
     );
 
     return allSlots.slice(0, count);
   }
-}
\ No newline at end of file
+
+  /**
+   * Finds the first bookable slot for a doctor, honouring recurrence rules,
+   * exceptions, buffers and existing bookings
+   * Searches a week at a time so nearby availability is found without
+   * generating every slot in the look-ahead period.
+   * @param doctorId - The doctor's ID
+   * @param options - Visit type and start time spacing
+   * @param lookAheadDays - How far ahead to search (default: 30 days)
+   * @returns Promise<TimeSlot | null> - The next available slot, or null if there is none
+   */
+  async getNextAvailableSlot(
+    doctorId: string,
+    options: SlotQueryOptions = {},
+    lookAheadDays: number = DEFAULT_LOOK_AHEAD_DAYS
+  ): Promise<TimeSlot | null> {
+    const now = new Date();
+    const searchEnd = new Date(now.getTime() + lookAheadDays * 24 * 60 * 60 * 1000);
+    let windowStart = now;
+
+    while (windowStart < searchEnd) {
+      const windowEnd = new Date(Math.min(
+        windowStart.getTime() + SEARCH_WINDOW_DAYS * 24 * 60 * 60 * 1000,
+        searchEnd.getTime()
+      ));
+
+      const slots = await this.execute(
+        doctorId,
+        windowStart.toISOString(),
+        windowEnd.toISOString(),
+        options
+      );
+
+      if (slots.length > 0) {
+        return slots[0];
+      }
+
+      windowStart = windowEnd;
+    }
+
+    return null;
+  }
+}
@@ -0,0 +1,212 @@
+import { Appointment } from '../entities/Appointment';
+import { BusyBlock } from '../entities/BusyBlock';
+import { Actor } from '../entities/User';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IBusyBlockRepository } from '../repositories/IBusyBlockRepository';
+import { canManageDoctorSchedule } from '../policies/authorization';
+import { isFinalStatus } from '../policies/appointmentLifecycle';
+import { importIcsToBusyPeriods } from '../../shared/utils/icalHelpers';
+import { getDoctorTimeZone } from '../../shared/utils/timezone';
+import { generateUUID } from '../../shared/utils/uuid';
+
+// How far ahead recurring events are expanded; import again to extend it
+export const BUSY_IMPORT_DAYS = 180;
+
+// Name for calendars that do not have one (X-WR-CALNAME)
+export const DEFAULT_BUSY_CALENDAR_NAME = 'Imported calendar';
+
+export interface BusyCalendarImportOptions {
+  source?: string; // Name to keep the calendar under; defaults to the calendar's own name
+  now?: Date; // Start of the imported range; defaults to the current time
+}
+
+export interface BusyCalendarImportResult {
+  success: boolean;
+  source?: string; // The name the calendar was saved under
+  blocks?: BusyBlock[]; // The calendar's busy time as saved
+  removedCount?: number; // Blocks from the previous import that were replaced or dropped
+  overlappingAppointments?: Appointment[]; // Upcoming bookings inside the imported busy time
+  warnings?: string[]; // Events that could not be read and were skipped
+  error?: string;
+}
+
+export interface BusyCalendarSummary {
+  source: string;
+  blockCount: number;
+  importedAt: string; // When the calendar was last imported
+  nextBlock?: BusyBlock; // The next busy time that has not ended
+}
+
+export interface BusyCalendarRemoveResult {
+  success: boolean;
+  removedCount?: number;
+  error?: string;
+}
+
+/**
+ * Use case for importing a doctor's other calendars as busy time
+ * GetAvailableSlotsUseCase leaves out slots that overlap the imported busy
+ * time. Importing a calendar again replaces what was imported from it, and
+ * any block with the UID of one of its events, so moved and cancelled events
+ * in the source calendar flow through.
+ */
+export class ImportBusyCalendarUseCase {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private busyBlockRepository: IBusyBlockRepository
+  ) {}
+
+  /**
+   * Imports the busy time in an iCal file for a doctor
+   * @param doctorId - The doctor's ID
+   * @param icalString - The iCal file contents
+   * @param actor - The signed-in user importing the calendar
+   * @param options - Name for the calendar and start of the range
+   * @returns Promise<BusyCalendarImportResult> - The saved blocks and the bookings they overlap
+   */
+  async execute(
+    doctorId: string,
+    icalString: string,
+    actor: Actor,
+    options: BusyCalendarImportOptions = {}
+  ): Promise<BusyCalendarImportResult> {
+    try {
+      if (!canManageDoctorSchedule(actor, doctorId)) {
+        return {
+          success: false,
+          error: "Not authorized to change this doctor's schedule"
+        };
+      }
+
+      const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+      if (!doctor) {
+        return {
+          success: false,
+          error: 'Doctor not found'
+        };
+      }
+
+      if (!/^\s*BEGIN:VCALENDAR/i.test(icalString)) {
+        return {
+          success: false,
+          error: 'This is not a calendar (.ics) file'
+        };
+      }
+
+      const now = options.now || new Date();
+      const until = new Date(now.getTime() + BUSY_IMPORT_DAYS * 24 * 60 * 60 * 1000);
+      const imported = importIcsToBusyPeriods(icalString, {
+        timeZone: getDoctorTimeZone(doctor),
+        fromISO: now.toISOString(),
+        toISO: until.toISOString()
+      });
+
+      // A file where nothing could be read would otherwise wipe the previous import
+      if (imported.uids.length === 0 && imported.errors.length > 0) {
+        return {
+          success: false,
+          error: imported.errors[0]
+        };
+      }
+
+      const source = options.source?.trim() || imported.calendarName || DEFAULT_BUSY_CALENDAR_NAME;
+      const importedAt = now.toISOString();
+      const blocks: BusyBlock[] = imported.periods.map(period => ({
+        id: generateUUID(),
+        doctorId,
+        source,
+        uid: period.uid,
+        summary: period.summary || undefined,
+        startISO: period.startISO,
+        endISO: period.endISO,
+        allDay: period.allDay,
+        importedAt
+      }));
+
+      const removed = await this.busyBlockRepository.replaceBusyBlocks(doctorId, source, imported.uids, blocks);
+
+      const appointments = await this.appointmentRepository.getAppointmentsByDoctorAndDateRange(
+        doctorId,
+        now.toISOString(),
+        until.toISOString()
+      );
+      const overlappingAppointments = appointments.filter(appointment =>
+        !isFinalStatus(appointment.status) &&
+        blocks.some(block =>
+          appointment.startDateISO < block.endISO && appointment.endDateISO > block.startISO
+        )
+      );
+
+      return {
+        success: true,
+        source,
+        blocks,
+        removedCount: removed.length,
+        overlappingAppointments,
+        warnings: imported.errors
+      };
+    } catch (error) {
+      console.error('Error importing busy calendar:', error);
+      return {
+        success: false,
+        error: 'Failed to import the calendar'
+      };
+    }
+  }
+
+  /**
+   * Lists the calendars imported for a doctor
+   * @param doctorId - The doctor's ID
+   * @param now - What counts as past (default: the current time)
+   * @returns Promise<BusyCalendarSummary[]> - One summary per calendar, by name
+   */
+  async getCalendars(doctorId: string, now: Date = new Date()): Promise<BusyCalendarSummary[]> {
+    const blocks = await this.busyBlockRepository.getBusyBlocksByDoctor(doctorId);
+    const summaries = new Map<string, BusyCalendarSummary>();
+
+    for (const block of [...blocks].sort((a, b) => a.startISO.localeCompare(b.startISO))) {
+      const summary = summaries.get(block.source) || { source: block.source, blockCount: 0, importedAt: block.importedAt };
+      summary.blockCount++;
+      if (block.importedAt > summary.importedAt) {
+        summary.importedAt = block.importedAt;
+      }
+      if (!summary.nextBlock && new Date(block.endISO) > now) {
+        summary.nextBlock = block;
+      }
+      summaries.set(block.source, summary);
+    }
+
+    return Array.from(summaries.values()).sort((a, b) => a.source.localeCompare(b.source));
+  }
+
+  /**
+   * Removes everything imported from one of a doctor's calendars
+   * @param doctorId - The doctor's ID
+   * @param source - The calendar's name
+   * @param actor - The signed-in user removing the calendar
+   * @returns Promise<BusyCalendarRemoveResult> - How many blocks were removed
+   */
+  async removeCalendar(doctorId: string, source: string, actor: Actor): Promise<BusyCalendarRemoveResult> {
+    try {
+      if (!canManageDoctorSchedule(actor, doctorId)) {
+        return {
+          success: false,
+          error: "Not authorized to change this doctor's schedule"
+        };
+      }
+
+      const removed = await this.busyBlockRepository.deleteBusyBlocksBySource(doctorId, source);
+
+      return {
+        success: true,
+        removedCount: removed.length
+      };
+    } catch (error) {
+      console.error('Error removing busy calendar:', error);
+      return {
+        success: false,
+        error: 'Failed to remove the calendar'
+      };
+    }
+  }
+}
@@ -0,0 +1,95 @@
+import { ClinicPolicy } from '../entities/ClinicPolicy';
+import { Actor } from '../entities/User';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IClinicPolicyRepository } from '../repositories/IClinicPolicyRepository';
+import { canManageClinicPolicy, canViewNoShowScore } from '../policies/authorization';
+import { getNoShowScore } from '../policies/clinicPolicy';
+import { validateClinicPolicy } from '../validation/validators';
+
+export interface ClinicPolicyResult {
+  success: boolean;
+  policy?: ClinicPolicy;
+  error?: string;
+}
+
+/**
+ * Use case for the clinic's cancellation and rescheduling policy
+ * The policy is stored with the clinic's data, so a change applies to every
+ * later cancellation and reschedule, and to how no-show scores are weighted.
+ */
+export class ManageClinicPolicyUseCase {
+  constructor(
+    private clinicPolicyRepository: IClinicPolicyRepository,
+    private appointmentRepository: IAppointmentRepository
+  ) {}
+
+  /**
+   * Loads the policy in force
+   * @returns Promise<ClinicPolicy> - The saved policy, or the default one
+   */
+  async getPolicy(): Promise<ClinicPolicy> {
+    return await this.clinicPolicyRepository.getClinicPolicy();
+  }
+
+  /**
+   * Replaces the clinic's policy
+   * @param policy - The new policy
+   * @param actor - The signed-in user making the change
+   * @returns Promise<ClinicPolicyResult> - The saved policy, or why it was not saved
+   */
+  async updatePolicy(policy: ClinicPolicy, actor: Actor): Promise<ClinicPolicyResult> {
+    try {
+      if (!canManageClinicPolicy(actor)) {
+        return {
+          success: false,
+          error: "Not authorized to change the clinic's policy"
+        };
+      }
+
+      const validationErrors = validateClinicPolicy(policy);
+      if (validationErrors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid clinic policy: ${validationErrors.join('; ')}`
+        };
+      }
+
+      await this.clinicPolicyRepository.saveClinicPolicy(policy);
+
+      return {
+        success: true,
+        policy
+      };
+
+    } catch (error) {
+      console.error('Error updating clinic policy:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Scores owners by their no-shows and flagged late cancellations
+   * Counted over all of each owner's stored appointments, with every doctor.
+   * @param ownerIds - The owners to score
+   * @param actor - The signed-in user viewing the scores
+   * @returns Promise<Record<string, number>> - Score by owner ID, for the owners the actor may see
+   */
+  async getNoShowScores(ownerIds: string[], actor: Actor): Promise<Record<string, number>> {
+    const policy = await this.clinicPolicyRepository.getClinicPolicy();
+    const scores: Record<string, number> = {};
+
+    for (const ownerId of new Set(ownerIds)) {
+      if (!canViewNoShowScore(actor, ownerId)) {
+        continue;
+      }
+
+      const appointments = await this.appointmentRepository.getAppointmentsByOwner(ownerId);
+      scores[ownerId] = getNoShowScore(appointments, policy);
+    }
+
+    return scores;
+  }
+}
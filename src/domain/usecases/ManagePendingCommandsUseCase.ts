@@ -0,0 +1,243 @@
+import {
+  CommandConflict,
+  PendingCommand,
+  PendingCommandInput
+} from '../entities/PendingCommand';
+import { Actor } from '../entities/User';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IPendingCommandRepository } from '../repositories/IPendingCommandRepository';
+import { BookAppointmentUseCase, BookingResult } from './BookAppointmentUseCase';
+import { CancelAppointmentUseCase, CancelResult } from './CancelAppointmentUseCase';
+import { ChangeAppointmentStatusUseCase, StatusChangeResult } from './ChangeAppointmentStatusUseCase';
+import { NotesUpdateResult, UpdateAppointmentNotesUseCase } from './UpdateAppointmentNotesUseCase';
+import { ScheduleUpdateResult, UpdateDoctorScheduleUseCase } from './UpdateDoctorScheduleUseCase';
+import { generateUUID } from '../../shared/utils/uuid';
+
+export type CommandResult =
+  | BookingResult
+  | CancelResult
+  | StatusChangeResult
+  | NotesUpdateResult
+  | ScheduleUpdateResult;
+
+export interface CommandOutcome {
+  command: PendingCommand;
+  result: CommandResult;
+  conflict?: CommandConflict; // Set when the command failed and was moved to the conflicts
+}
+
+/**
+ * Use case for bookings, reschedules, cancellations, status changes, notes
+ * edits and schedule updates made while a sync server is in use
+ * Commands are queued on the device and replayed in order once the latest data
+ * has been pulled, so a change made offline is checked against what other
+ * devices did in the meantime. Replaying a command twice has the same effect
+ * as replaying it once.
+ */
+export class ManagePendingCommandsUseCase {
+  private runningReplay: Promise<CommandOutcome[]> | null = null;
+
+  constructor(
+    private pendingCommandRepository: IPendingCommandRepository,
+    private appointmentRepository: IAppointmentRepository,
+    private bookAppointmentUseCase: BookAppointmentUseCase,
+    private cancelAppointmentUseCase: CancelAppointmentUseCase,
+    private changeAppointmentStatusUseCase: ChangeAppointmentStatusUseCase,
+    private updateAppointmentNotesUseCase: UpdateAppointmentNotesUseCase,
+    private updateDoctorScheduleUseCase: UpdateDoctorScheduleUseCase
+  ) {}
+
+  /**
+   * Queues a command to be replayed on the next sync
+   * @param input - The change to make
+   * @param actor - The signed-in user making it
+   * @returns Promise<PendingCommand> - The queued command
+   */
+  async enqueue(input: PendingCommandInput, actor: Actor): Promise<PendingCommand> {
+    const command: PendingCommand = {
+      ...input,
+      id: generateUUID(),
+      actor,
+      createdAt: new Date().toISOString()
+    };
+
+    await this.pendingCommandRepository.addPendingCommand(command);
+    return command;
+  }
+
+  /**
+   * Applies a command straight away through its use case
+   * Used for queued commands and, without a sync server, for every change.
+   * @param command - The command, or the change to make and the user making it
+   * @returns Promise<CommandResult> - The use case's result
+   */
+  async execute(command: PendingCommandInput & { id?: string; actor: Actor }): Promise<CommandResult> {
+    switch (command.type) {
+      case 'book':
+        return await this.bookAppointmentUseCase.execute(command.appointment, command.actor, {
+          holdId: command.holdId,
+          appointmentId: command.id
+        });
+      case 'reschedule':
+        // Moving an appointment to the slot it is already in succeeds, so a replay is harmless
+        return await this.bookAppointmentUseCase.reschedule(
+          command.appointmentId,
+          command.startISO,
+          command.endISO,
+          command.actor
+        );
+      case 'cancel': {
+        // A replay finds the appointment already cancelled; that is what was asked for
+        const appointment = await this.appointmentRepository.getAppointmentById(command.appointmentId);
+        if (command.id && appointment?.status === 'cancelled') {
+          return {
+            success: true,
+            appointment
+          };
+        }
+        return await this.cancelAppointmentUseCase.execute(command.appointmentId, command.actor, command.reason);
+      }
+      case 'changeStatus': {
+        // Likewise a replayed status change finds the appointment already moved
+        const appointment = await this.appointmentRepository.getAppointmentById(command.appointmentId);
+        if (command.id && appointment?.status === command.status) {
+          return {
+            success: true,
+            appointment
+          };
+        }
+        return await this.changeAppointmentStatusUseCase.execute(
+          command.appointmentId,
+          command.status,
+          command.actor,
+          command.reason
+        );
+      }
+      case 'updateNotes':
+        // Saving the notes the appointment already has changes nothing
+        return await this.updateAppointmentNotesUseCase.execute(command.appointmentId, command.notes, command.actor);
+      case 'updateSchedule':
+        return await this.updateDoctorScheduleUseCase.execute(
+          command.doctorId,
+          command.changes,
+          command.actor,
+          { cancelAffectedAppointments: command.cancelAffectedAppointments }
+        );
+    }
+  }
+
+  /**
+   * Replays every queued command, oldest first; calls made while a replay is
+   * running share its result
+   * A command that fails is moved to the conflicts for its user to resolve.
+   * @returns Promise<CommandOutcome[]> - What happened to each command
+   */
+  replay(): Promise<CommandOutcome[]> {
+    if (!this.runningReplay) {
+      this.runningReplay = this.replayQueue().finally(() => {
+        this.runningReplay = null;
+      });
+    }
+    return this.runningReplay;
+  }
+
+  private async replayQueue(): Promise<CommandOutcome[]> {
+    const commands = await this.pendingCommandRepository.getPendingCommands();
+    const outcomes: CommandOutcome[] = [];
+
+    for (const command of commands) {
+      const result = await this.execute(command);
+      let conflict: CommandConflict | undefined;
+
+      if (!result.success) {
+        conflict = {
+          id: generateUUID(),
+          command,
+          error: result.error || 'Unknown error occurred',
+          nextAvailableSlots: 'nextAvailableSlots' in result ? result.nextAvailableSlots : undefined,
+          detectedAt: new Date().toISOString()
+        };
+        await this.pendingCommandRepository.addConflict(conflict);
+      }
+
+      // Removed only once applied or set aside; if the app stops in between,
+      // the next replay finds the change already made
+      await this.pendingCommandRepository.deletePendingCommand(command.id);
+      outcomes.push({ command, result, conflict });
+    }
+
+    return outcomes;
+  }
+
+  /**
+   * Gets the queued commands a user made; clinic admins see everyone's
+   * @param actor - The signed-in user
+   * @returns Promise<PendingCommand[]> - Oldest first
+   */
+  async getPendingCommands(actor: Actor): Promise<PendingCommand[]> {
+    const commands = await this.pendingCommandRepository.getPendingCommands();
+    return commands.filter(command => this.canSee(actor, command));
+  }
+
+  /**
+   * Gets the conflicts from commands a user made; clinic admins see everyone's
+   * @param actor - The signed-in user
+   * @returns Promise<CommandConflict[]> - Oldest first
+   */
+  async getConflicts(actor: Actor): Promise<CommandConflict[]> {
+    const conflicts = await this.pendingCommandRepository.getConflicts();
+    return conflicts.filter(conflict => this.canSee(actor, conflict.command));
+  }
+
+  /**
+   * Resolves a conflict by dropping the change, or builds the change to retry at another slot.
+   * A retried conflict is kept until the caller drops it once the retry has gone through
+   * @param conflictId - The conflict ID
+   * @param actor - The signed-in user
+   * @param slot - For bookings and reschedules, the slot to try instead
+   * @returns Promise<PendingCommandInput | null> - The change to submit again, or null if dropped
+   */
+  async resolveConflict(
+    conflictId: string,
+    actor: Actor,
+    slot?: { startISO: string; endISO: string }
+  ): Promise<PendingCommandInput | null> {
+    const conflicts = await this.pendingCommandRepository.getConflicts();
+    const conflict = conflicts.find(existing => existing.id === conflictId);
+
+    if (!conflict) {
+      throw new Error('Conflict not found');
+    }
+
+    if (!this.canSee(actor, conflict.command)) {
+      throw new Error('Not authorized to resolve this conflict');
+    }
+
+    if (!slot) {
+      await this.pendingCommandRepository.deleteConflict(conflictId);
+      return null;
+    }
+
+    const { command } = conflict;
+    switch (command.type) {
+      case 'book':
+        return {
+          type: 'book',
+          appointment: { ...command.appointment, startDateISO: slot.startISO, endDateISO: slot.endISO }
+        };
+      case 'reschedule':
+        return {
+          type: 'reschedule',
+          appointmentId: command.appointmentId,
+          startISO: slot.startISO,
+          endISO: slot.endISO
+        };
+      default:
+        throw new Error('Only bookings and reschedules can be retried at another slot');
+    }
+  }
+
+  private canSee(actor: Actor, command: PendingCommand): boolean {
+    return actor.role === 'clinic_admin' || command.actor.userId === actor.userId;
+  }
+}
@@ -0,0 +1,58 @@
+import { QuarantinedRecord } from '../entities/QuarantinedRecord';
+import { Actor } from '../entities/User';
+import { IQuarantineRepository } from '../repositories/IQuarantineRepository';
+import { canManageQuarantine } from '../policies/authorization';
+
+export interface QuarantineResult {
+  success: boolean;
+  error?: string;
+}
+
+/**
+ * Use case for reviewing the records set aside because they could not be read
+ * or failed validation
+ */
+export class ManageQuarantineUseCase {
+  constructor(private quarantineRepository: IQuarantineRepository) {}
+
+  /**
+   * Lists the quarantined records
+   * @param actor - The signed-in user
+   * @returns Promise<QuarantinedRecord[]> - The records, or none for users who may not see them
+   */
+  async getRecords(actor: Actor): Promise<QuarantinedRecord[]> {
+    if (!canManageQuarantine(actor)) {
+      return [];
+    }
+
+    return await this.quarantineRepository.getQuarantinedRecords();
+  }
+
+  /**
+   * Deletes a quarantined record for good
+   * @param id - The quarantined record's ID
+   * @param actor - The signed-in user dismissing it
+   * @returns Promise<QuarantineResult> - Result of the dismissal
+   */
+  async dismissRecord(id: string, actor: Actor): Promise<QuarantineResult> {
+    try {
+      if (!canManageQuarantine(actor)) {
+        return {
+          success: false,
+          error: 'Not authorized to dismiss invalid records'
+        };
+      }
+
+      await this.quarantineRepository.deleteQuarantinedRecord(id);
+
+      return { success: true };
+
+    } catch (error) {
+      console.error('Error dismissing quarantined record:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+}
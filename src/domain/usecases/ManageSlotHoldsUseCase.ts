@@ -0,0 +1,151 @@
+import { TimeSlot } from '../entities/Doctor';
+import { SlotHold } from '../entities/SlotHold';
+import { Actor } from '../entities/User';
+import { ISlotHoldRepository } from '../repositories/ISlotHoldRepository';
+import { canBookForOwner } from '../policies/authorization';
+import { SlotUnavailableError } from '../errors/SlotUnavailableError';
+import { GetAvailableSlotsUseCase } from './GetAvailableSlotsUseCase';
+import { generateUUID } from '../../shared/utils/uuid';
+
+// How long a slot stays reserved while the owner fills in the booking form
+export const BOOKING_HOLD_MINUTES = 10;
+
+export interface HoldResult {
+  success: boolean;
+  hold?: SlotHold;
+  error?: string;
+}
+
+/**
+ * Use case for reserving a slot between selecting it and submitting the booking
+ * Held slots are hidden from other owners by GetAvailableSlotsUseCase and
+ * turned into appointments by BookAppointmentUseCase.
+ */
+export class ManageSlotHoldsUseCase {
+  constructor(
+    private slotHoldRepository: ISlotHoldRepository,
+    private getAvailableSlotsUseCase: GetAvailableSlotsUseCase
+  ) {}
+
+  /**
+   * Holds a slot for the signed-in user
+   * @param slot - The selected slot
+   * @param actor - The signed-in user who is about to book
+   * @param ownerId - The owner the booking is for (default: the actor's owner profile)
+   * @returns Promise<HoldResult> - The hold, or why the slot cannot be held
+   */
+  async holdSlot(slot: TimeSlot, actor: Actor, ownerId: string | undefined = actor.ownerId): Promise<HoldResult> {
+    try {
+      if (!(ownerId ? canBookForOwner(actor, ownerId) : actor.role === 'clinic_admin')) {
+        return {
+          success: false,
+          error: 'Not authorized to hold slots for this owner'
+        };
+      }
+
+      await this.sweepExpiredHolds();
+
+      const now = new Date();
+      const expiresAt = Math.min(
+        now.getTime() + BOOKING_HOLD_MINUTES * 60 * 1000,
+        new Date(slot.startISO).getTime()
+      );
+
+      const hold: SlotHold = {
+        id: generateUUID(),
+        doctorId: slot.doctorId,
+        visitTypeId: slot.visitTypeId || '',
+        startISO: slot.startISO,
+        endISO: slot.endISO,
+        userId: actor.userId,
+        ownerId,
+        purpose: 'booking',
+        expiresAt: new Date(expiresAt).toISOString(),
+        createdAt: now.toISOString()
+      };
+
+      // The slot is checked inside the hold's critical section so two holds or a
+      // booking cannot take it in between
+      try {
+        await this.slotHoldRepository.createHold(hold, async () => {
+          const check = await this.getAvailableSlotsUseCase.checkSlot(slot.doctorId, slot.startISO, {
+            visitTypeId: slot.visitTypeId
+          });
+
+          if (!check.available) {
+            throw new SlotUnavailableError(check.reason === 'held'
+              ? 'Someone else is booking this time right now'
+              : 'This time is no longer available');
+          }
+        });
+      } catch (error) {
+        if (error instanceof SlotUnavailableError) {
+          return {
+            success: false,
+            error: error.message
+          };
+        }
+        throw error;
+      }
+
+      return {
+        success: true,
+        hold
+      };
+
+    } catch (error) {
+      console.error('Error holding slot:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Releases a hold before it expires, e.g. when another slot is selected
+   * @param holdId - The hold ID
+   * @param actor - The signed-in user who placed the hold
+   * @returns Promise<HoldResult> - Result of the release
+   */
+  async releaseHold(holdId: string, actor: Actor): Promise<HoldResult> {
+    try {
+      const hold = await this.slotHoldRepository.getHoldById(holdId);
+      if (!hold) {
+        // Already booked, released or swept
+        return { success: true };
+      }
+
+      if (hold.userId !== actor.userId && actor.role !== 'clinic_admin') {
+        return {
+          success: false,
+          error: 'Not authorized to release this hold'
+        };
+      }
+
+      await this.slotHoldRepository.deleteHold(holdId);
+
+      return {
+        success: true,
+        hold
+      };
+
+    } catch (error) {
+      console.error('Error releasing slot hold:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Deletes holds that have expired
+   * Expired holds no longer hide slots; sweeping only keeps storage small.
+   * @returns Promise<number> - Number of holds removed
+   */
+  async sweepExpiredHolds(): Promise<number> {
+    const expiredHolds = await this.slotHoldRepository.deleteExpiredHolds(new Date());
+    return expiredHolds.length;
+  }
+}
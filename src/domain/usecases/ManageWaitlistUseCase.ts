@@ -0,0 +1,529 @@
+import { Appointment } from '../entities/Appointment';
+import { Doctor } from '../entities/Doctor';
+import { SlotHold } from '../entities/SlotHold';
+import { Actor } from '../entities/User';
+import { WaitlistEntry, WaitlistEntryCreate, WaitlistOffer } from '../entities/Waitlist';
+import { AppNotification } from '../entities/Notification';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { IWaitlistRepository } from '../repositories/IWaitlistRepository';
+import { ISlotHoldRepository } from '../repositories/ISlotHoldRepository';
+import { INotificationRepository } from '../repositories/INotificationRepository';
+import { canBookForOwner, canManageWaitlistEntry } from '../policies/authorization';
+import { SlotUnavailableError } from '../errors/SlotUnavailableError';
+import { BookAppointmentUseCase } from './BookAppointmentUseCase';
+import { GetAvailableSlotsUseCase } from './GetAvailableSlotsUseCase';
+import { formatDateTime, formatTime } from '../../shared/utils/date';
+import { getDoctorTimeZone, toZonedDateString } from '../../shared/utils/timezone';
+import { findDoctorVisitType } from '../../shared/utils/visitTypes';
+import { generateUUID } from '../../shared/utils/uuid';
+
+// How long a freed slot is held for the owner it was offered to
+export const WAITLIST_OFFER_HOLD_MINUTES = 60;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export interface WaitlistResult {
+  success: boolean;
+  entry?: WaitlistEntry;
+  appointment?: Appointment;
+  error?: string;
+}
+
+/**
+ * Use case for the waitlist of fully booked doctors
+ * When an appointment is cancelled, the freed slot is held for the first
+ * waiting owner whose dates and visit type fit, and they are notified to confirm.
+ * Holds that are not confirmed in time expire and pass to the next in line.
+ */
+export class ManageWaitlistUseCase {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private waitlistRepository: IWaitlistRepository,
+    private slotHoldRepository: ISlotHoldRepository,
+    private notificationRepository: INotificationRepository,
+    private getAvailableSlotsUseCase: GetAvailableSlotsUseCase,
+    private bookAppointmentUseCase: BookAppointmentUseCase
+  ) {}
+
+  /**
+   * Adds an owner's pet to a doctor's waitlist
+   * @param request - Doctor, pet, visit type and acceptable date range
+   * @param actor - The signed-in user joining the waitlist
+   * @returns Promise<WaitlistResult> - The new entry, or why it could not be created
+   */
+  async join(request: WaitlistEntryCreate, actor: Actor): Promise<WaitlistResult> {
+    try {
+      if (!canBookForOwner(actor, request.ownerId)) {
+        return {
+          success: false,
+          error: 'Not authorized to join the waitlist for this owner'
+        };
+      }
+
+      if (!DATE_PATTERN.test(request.fromDate) || !DATE_PATTERN.test(request.toDate)) {
+        return {
+          success: false,
+          error: 'Dates must be in YYYY-MM-DD format'
+        };
+      }
+
+      if (request.toDate < request.fromDate) {
+        return {
+          success: false,
+          error: 'The last acceptable date must not be before the first'
+        };
+      }
+
+      const doctor = await this.appointmentRepository.getDoctorById(request.doctorId);
+      if (!doctor) {
+        return {
+          success: false,
+          error: 'Doctor not found'
+        };
+      }
+
+      if (request.toDate < toZonedDateString(new Date(), getDoctorTimeZone(doctor))) {
+        return {
+          success: false,
+          error: 'The date range is in the past'
+        };
+      }
+
+      const visitType = findDoctorVisitType(doctor, request.visitTypeId);
+      if (!visitType) {
+        return {
+          success: false,
+          error: `This visit type is not offered by ${doctor.name}`
+        };
+      }
+
+      // One active entry per pet and doctor
+      const existingEntries = await this.waitlistRepository.getWaitlistEntriesByOwner(request.ownerId);
+      const isAlreadyWaiting = existingEntries.some(entry =>
+        entry.doctorId === doctor.id &&
+        entry.petId === request.petId &&
+        (entry.status === 'waiting' || entry.status === 'offered')
+      );
+
+      if (isAlreadyWaiting) {
+        return {
+          success: false,
+          error: `${request.petName} is already on the waitlist for ${doctor.name}`
+        };
+      }
+
+      const entry: WaitlistEntry = {
+        id: generateUUID(),
+        ...request,
+        doctorName: doctor.name,
+        visitTypeId: visitType.id,
+        visitTypeName: visitType.name,
+        status: 'waiting',
+        createdAt: new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.waitlistRepository.createWaitlistEntry(entry);
+
+      return {
+        success: true,
+        entry
+      };
+
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Removes an entry from the waitlist
+   * A slot held for the entry is passed on to the next owner in line.
+   * @param entryId - The waitlist entry ID
+   * @param actor - The signed-in user leaving the waitlist
+   * @returns Promise<WaitlistResult> - Result of the removal
+   */
+  async leave(entryId: string, actor: Actor): Promise<WaitlistResult> {
+    try {
+      const entryResult = await this.getManageableEntry(entryId, actor);
+      if ('error' in entryResult) {
+        return {
+          success: false,
+          error: entryResult.error
+        };
+      }
+
+      const { entry } = entryResult;
+      if (entry.status !== 'waiting' && entry.status !== 'offered') {
+        return {
+          success: false,
+          error: 'This waitlist entry is no longer active'
+        };
+      }
+
+      const cancelledEntry: WaitlistEntry = {
+        ...entry,
+        status: 'cancelled',
+        offer: undefined,
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.waitlistRepository.updateWaitlistEntry(cancelledEntry);
+
+      if (entry.status === 'offered' && entry.offer) {
+        await this.slotHoldRepository.deleteHold(entry.offer.holdId);
+        await this.offerSlot(entry.doctorId, entry.offer.startISO, [entry.id]);
+      }
+
+      return {
+        success: true,
+        entry: cancelledEntry
+      };
+
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Books the slot held for a waitlist entry
+   * @param entryId - The waitlist entry ID
+   * @param actor - The signed-in user confirming the offer
+   * @returns Promise<WaitlistResult> - The booked appointment, or why it could not be booked
+   */
+  async acceptOffer(entryId: string, actor: Actor): Promise<WaitlistResult> {
+    try {
+      await this.expireOffers();
+
+      const entryResult = await this.getManageableEntry(entryId, actor);
+      if ('error' in entryResult) {
+        return {
+          success: false,
+          error: entryResult.error
+        };
+      }
+
+      const { entry } = entryResult;
+      if (entry.status === 'expired') {
+        return {
+          success: false,
+          error: 'This offer has expired'
+        };
+      }
+
+      if (entry.status !== 'offered' || !entry.offer) {
+        return {
+          success: false,
+          error: 'There is no open offer for this waitlist entry'
+        };
+      }
+
+      const doctor = await this.appointmentRepository.getDoctorById(entry.doctorId);
+      if (!doctor) {
+        return {
+          success: false,
+          error: 'Doctor not found'
+        };
+      }
+
+      const bookingResult = await this.bookAppointmentUseCase.execute(
+        {
+          doctorId: entry.doctorId,
+          doctorName: entry.doctorName,
+          ownerId: entry.ownerId,
+          ownerName: entry.ownerName,
+          petId: entry.petId,
+          petName: entry.petName,
+          disease: entry.disease,
+          visitTypeId: entry.visitTypeId,
+          startDateISO: entry.offer.startISO,
+          endDateISO: entry.offer.endISO,
+          location: doctor.location,
+          notes: entry.notes
+        },
+        actor,
+        { holdId: entry.offer.holdId }
+      );
+
+      if (!bookingResult.success || !bookingResult.appointment) {
+        return {
+          success: false,
+          error: bookingResult.error
+        };
+      }
+
+      const bookedEntry: WaitlistEntry = {
+        ...entry,
+        status: 'booked',
+        appointmentId: bookingResult.appointment.id,
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.waitlistRepository.updateWaitlistEntry(bookedEntry);
+
+      return {
+        success: true,
+        entry: bookedEntry,
+        appointment: bookingResult.appointment
+      };
+
+    } catch (error) {
+      console.error('Error accepting waitlist offer:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Turns down the slot held for a waitlist entry
+   * The entry keeps waiting for other times; the slot goes to the next in line.
+   * @param entryId - The waitlist entry ID
+   * @param actor - The signed-in user declining the offer
+   * @returns Promise<WaitlistResult> - Result of declining
+   */
+  async declineOffer(entryId: string, actor: Actor): Promise<WaitlistResult> {
+    try {
+      const entryResult = await this.getManageableEntry(entryId, actor);
+      if ('error' in entryResult) {
+        return {
+          success: false,
+          error: entryResult.error
+        };
+      }
+
+      const { entry } = entryResult;
+      if (entry.status !== 'offered' || !entry.offer) {
+        return {
+          success: false,
+          error: 'There is no open offer for this waitlist entry'
+        };
+      }
+
+      const waitingEntry: WaitlistEntry = {
+        ...entry,
+        status: 'waiting',
+        offer: undefined,
+        updatedAt: new Date().toISOString()
+      };
+
+      await this.waitlistRepository.updateWaitlistEntry(waitingEntry);
+      await this.slotHoldRepository.deleteHold(entry.offer.holdId);
+      await this.offerSlot(entry.doctorId, entry.offer.startISO, [entry.id]);
+
+      return {
+        success: true,
+        entry: waitingEntry
+      };
+
+    } catch (error) {
+      console.error('Error declining waitlist offer:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Offers the slot freed by a cancelled appointment to the waitlist
+   * @param appointment - The cancelled appointment
+   * @returns Promise<WaitlistEntry | null> - The entry the slot is now held for, if any
+   */
+  async offerFreedSlot(appointment: Appointment): Promise<WaitlistEntry | null> {
+    await this.expireOffers();
+    return await this.offerSlot(appointment.doctorId, appointment.startDateISO);
+  }
+
+  /**
+   * Expires holds that were not confirmed in time and passes their slots on
+   * @returns Promise<number> - Number of holds that expired
+   */
+  async expireOffers(): Promise<number> {
+    const now = new Date();
+    const entries = await this.waitlistRepository.getWaitlistEntries();
+    const expiredEntries = entries.filter(entry =>
+      entry.status === 'offered' && entry.offer && new Date(entry.offer.expiresAt) <= now
+    );
+
+    for (const entry of expiredEntries) {
+      const offer = entry.offer!;
+
+      await this.waitlistRepository.updateWaitlistEntry({
+        ...entry,
+        status: 'expired',
+        updatedAt: now.toISOString()
+      });
+
+      await this.slotHoldRepository.deleteHold(offer.holdId);
+      await this.notify(entry, 'waitlist_offer_expired', 'Waitlist offer expired',
+        `The ${formatDateTime(offer.startISO)} opening with ${entry.doctorName} was not confirmed in time. ` +
+        'Join the waitlist again if you still need a visit.'
+      );
+
+      await this.offerSlot(entry.doctorId, offer.startISO, [entry.id]);
+    }
+
+    return expiredEntries.length;
+  }
+
+  /**
+   * Holds a freed start time for the first waiting entry it suits
+   * Entries are served in the order they joined; an entry matches when the
+   * slot falls within its dates and its visit type fits at that time.
+   * @param doctorId - The doctor's ID
+   * @param startISO - Start of the freed time
+   * @param excludeEntryIds - Entries that must not get this slot again
+   * @returns The entry the slot is now held for, or null if none matched
+   */
+  private async offerSlot(
+    doctorId: string,
+    startISO: string,
+    excludeEntryIds: string[] = []
+  ): Promise<WaitlistEntry | null> {
+    const now = new Date();
+    const start = new Date(startISO);
+    if (start <= now) {
+      return null;
+    }
+
+    const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+    if (!doctor) {
+      return null;
+    }
+
+    const day = toZonedDateString(start, getDoctorTimeZone(doctor));
+    const waitingEntries = (await this.waitlistRepository.getWaitlistEntriesByDoctor(doctorId))
+      .filter(entry =>
+        entry.status === 'waiting' &&
+        !excludeEntryIds.includes(entry.id) &&
+        entry.fromDate <= day &&
+        entry.toDate >= day
+      )
+      .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+    for (const entry of waitingEntries) {
+      const offer = await this.createOffer(doctor, entry, start, now);
+      if (!offer) {
+        continue;
+      }
+
+      const offeredEntry: WaitlistEntry = {
+        ...entry,
+        status: 'offered',
+        offer,
+        updatedAt: now.toISOString()
+      };
+
+      await this.waitlistRepository.updateWaitlistEntry(offeredEntry);
+      await this.notify(entry, 'waitlist_offer', 'A slot opened up',
+        `${doctor.name} can see ${entry.petName} on ${formatDateTime(offer.startISO)}. ` +
+        `It is held for you until ${formatTime(offer.expiresAt)}; confirm it on the Waitlist tab.`
+      );
+
+      return offeredEntry;
+    }
+
+    return null;
+  }
+
+  /**
+   * Holds the start time for an entry if its visit type can be booked then
+   * The hold never outlasts the start of the visit.
+   */
+  private async createOffer(
+    doctor: Doctor,
+    entry: WaitlistEntry,
+    start: Date,
+    now: Date
+  ): Promise<WaitlistOffer | null> {
+    const visitType = findDoctorVisitType(doctor, entry.visitTypeId);
+    if (!visitType) {
+      return null;
+    }
+
+    const expiresAt = Math.min(
+      now.getTime() + WAITLIST_OFFER_HOLD_MINUTES * 60 * 1000,
+      start.getTime()
+    );
+
+    const hold: SlotHold = {
+      id: generateUUID(),
+      doctorId: doctor.id,
+      visitTypeId: visitType.id,
+      startISO: start.toISOString(),
+      endISO: new Date(start.getTime() + visitType.durationMinutes * 60 * 1000).toISOString(),
+      ownerId: entry.ownerId,
+      purpose: 'waitlist',
+      waitlistEntryId: entry.id,
+      expiresAt: new Date(expiresAt).toISOString(),
+      createdAt: now.toISOString()
+    };
+
+    try {
+      await this.slotHoldRepository.createHold(hold, async () => {
+        const check = await this.getAvailableSlotsUseCase.checkSlot(doctor.id, hold.startISO, {
+          visitTypeId: visitType.id
+        });
+
+        if (!check.available) {
+          throw new SlotUnavailableError('This time is no longer available');
+        }
+      });
+    } catch (error) {
+      if (error instanceof SlotUnavailableError) {
+        return null;
+      }
+      throw error;
+    }
+
+    return {
+      holdId: hold.id,
+      startISO: hold.startISO,
+      endISO: hold.endISO,
+      expiresAt: hold.expiresAt
+    };
+  }
+
+  private async getManageableEntry(
+    entryId: string,
+    actor: Actor
+  ): Promise<{ entry: WaitlistEntry } | { error: string }> {
+    const entry = await this.waitlistRepository.getWaitlistEntryById(entryId);
+    if (!entry) {
+      return { error: 'Waitlist entry not found' };
+    }
+
+    if (!canManageWaitlistEntry(actor, entry)) {
+      return { error: 'Not authorized to manage this waitlist entry' };
+    }
+
+    return { entry };
+  }
+
+  private async notify(
+    entry: WaitlistEntry,
+    type: AppNotification['type'],
+    title: string,
+    message: string
+  ): Promise<void> {
+    await this.notificationRepository.createNotification({
+      id: generateUUID(),
+      ownerId: entry.ownerId,
+      type,
+      title,
+      message,
+      waitlistEntryId: entry.id,
+      read: false,
+      createdAt: new Date().toISOString()
+    });
+  }
+}
@@ -0,0 +1,206 @@
+import { AppointmentCreate } from '../entities/Appointment';
+import { Doctor } from '../entities/Doctor';
+import { Owner } from '../entities/Owner';
+import { Pet } from '../entities/Pet';
+import { VisitType } from '../entities/VisitType';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { GetAvailableSlotsUseCase, SLOT_UNAVAILABLE_MESSAGES } from './GetAvailableSlotsUseCase';
+import { importIcsToAppointments } from '../../shared/utils/icalHelpers';
+import { getDeviceTimeZone, getDoctorTimeZone } from '../../shared/utils/timezone';
+import { getDoctorVisitTypes } from '../../shared/utils/visitTypes';
+
+export type CalendarImportStatus = 'ready' | 'conflict' | 'duplicate' | 'invalid';
+
+export interface CalendarImportItem {
+  id: string; // The event's appointment ID; our own exports keep theirs
+  summary: string; // The event's title in the calendar
+  startISO?: string;
+  endISO?: string;
+  allDay: boolean;
+  doctorName?: string; // The matched doctor, or the name the event gave
+  petName?: string; // The matched pet, or the name the event gave
+  status: CalendarImportStatus;
+  problems: string[]; // Why the event cannot be booked; empty when ready
+  appointment?: AppointmentCreate; // What will be booked; set when ready
+}
+
+export interface CalendarImportOptions {
+  defaultPetId?: string; // Pet for events that do not name one of the owner's pets
+}
+
+/**
+ * Use case for previewing the events of an iCal file as bookings for an owner
+ * Each event is matched to a doctor by name, a visit type by length and a pet
+ * by name, then checked against the doctor's availability and existing
+ * bookings. Nothing is saved; ready events are booked through
+ * BookAppointmentUseCase, which checks them again.
+ */
+export class PreviewCalendarImportUseCase {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private getAvailableSlotsUseCase: GetAvailableSlotsUseCase
+  ) {}
+
+  /**
+   * Reads every event in a calendar and works out whether it can be booked
+   * @param icalString - The iCal file contents
+   * @param owner - The owner the appointments are for
+   * @param pets - The owner's pets
+   * @param options - Pet for events that do not name one
+   * @returns Promise<CalendarImportItem[]> - One item per event, in file order
+   */
+  async execute(
+    icalString: string,
+    owner: Owner,
+    pets: Pet[],
+    options: CalendarImportOptions = {}
+  ): Promise<CalendarImportItem[]> {
+    const doctors = await this.appointmentRepository.getDoctors();
+    const ownerPets = pets.filter(pet => pet.ownerId === owner.id);
+    const ownerAppointments = await this.appointmentRepository.getAppointmentsByOwner(owner.id);
+
+    const findDoctor = (name?: string) =>
+      name ? doctors.find(doctor => normalizeDoctorName(doctor.name) === normalizeDoctorName(name)) : undefined;
+
+    // Floating times and all-day dates are in the doctor's timezone
+    const events = importIcsToAppointments(icalString, {
+      timeZoneFor: event => {
+        const doctor = findDoctor(event.doctorName);
+        return doctor ? getDoctorTimeZone(doctor) : getDeviceTimeZone();
+      }
+    });
+
+    const items: CalendarImportItem[] = [];
+
+    for (const event of events) {
+      const parsed = event.appointment;
+      const item: CalendarImportItem = {
+        id: parsed?.id || `event-${items.length}`,
+        summary: event.summary,
+        startISO: parsed?.startDateISO,
+        endISO: parsed?.endDateISO,
+        allDay: event.allDay,
+        doctorName: parsed?.doctorName,
+        petName: parsed?.petName,
+        status: 'invalid',
+        problems: [...event.errors]
+      };
+      items.push(item);
+
+      if (!parsed || !parsed.startDateISO || !parsed.endDateISO) continue;
+
+      const doctor = findDoctor(parsed.doctorName);
+      const pet = ownerPets.find(ownerPet => ownerPet.name.toLowerCase() === parsed.petName?.toLowerCase())
+        || ownerPets.find(ownerPet => ownerPet.id === options.defaultPetId);
+
+      if (parsed.status === 'cancelled') {
+        item.problems.push('The event is cancelled');
+      }
+      if (event.allDay) {
+        item.problems.push('All-day events have no appointment time');
+      } else if (new Date(parsed.startDateISO) < new Date()) {
+        item.problems.push('The event is in the past');
+      }
+      if (!doctor) {
+        item.problems.push(parsed.doctorName
+          ? `No doctor named "${parsed.doctorName}" works at the clinic`
+          : 'The event does not name a doctor');
+      }
+      if (!pet) {
+        item.problems.push(parsed.petName
+          ? `No pet named "${parsed.petName}"; choose a pet for this event`
+          : 'Choose a pet for this event');
+      }
+
+      const visitType = doctor && findVisitType(doctor, parsed.startDateISO, parsed.endDateISO, parsed.visitTypeName);
+      if (doctor && !visitType) {
+        const minutes = Math.round(
+          (new Date(parsed.endDateISO).getTime() - new Date(parsed.startDateISO).getTime()) / 60000
+        );
+        item.problems.push(`${doctor.name} has no ${minutes}-minute visit type`);
+      }
+
+      if (item.problems.length > 0 || !doctor || !pet || !visitType) continue;
+
+      item.doctorName = doctor.name;
+      item.petName = pet.name;
+
+      const startTime = new Date(parsed.startDateISO).getTime();
+      const isDuplicate = ownerAppointments.some(existing =>
+        existing.status !== 'cancelled' &&
+        (existing.id === parsed.id || (
+          existing.doctorId === doctor.id && new Date(existing.startDateISO).getTime() === startTime
+        ))
+      );
+      if (isDuplicate) {
+        item.status = 'duplicate';
+        item.problems.push('Already booked');
+        continue;
+      }
+
+      // Events in one file are checked against each other as well as the saved bookings
+      const endTime = new Date(parsed.endDateISO).getTime();
+      const overlapsEarlierEvent = items.some(other =>
+        other !== item &&
+        other.status === 'ready' &&
+        other.appointment?.doctorId === doctor.id &&
+        startTime < new Date(other.appointment.endDateISO).getTime() &&
+        endTime > new Date(other.appointment.startDateISO).getTime()
+      );
+      const check = await this.getAvailableSlotsUseCase.checkSlot(doctor.id, parsed.startDateISO, {
+        visitTypeId: visitType.id
+      });
+
+      if (overlapsEarlierEvent || !check.available) {
+        item.status = 'conflict';
+        item.problems.push(overlapsEarlierEvent
+          ? 'Overlaps another event in this calendar'
+          : SLOT_UNAVAILABLE_MESSAGES[check.reason || 'booked']);
+        continue;
+      }
+
+      item.status = 'ready';
+      item.appointment = {
+        doctorId: doctor.id,
+        doctorName: doctor.name,
+        ownerId: owner.id,
+        ownerName: owner.name,
+        petId: pet.id,
+        petName: pet.name,
+        disease: parsed.disease,
+        visitTypeId: visitType.id,
+        visitTypeName: visitType.name,
+        startDateISO: parsed.startDateISO,
+        endDateISO: parsed.endDateISO,
+        location: parsed.location || doctor.location,
+        notes: parsed.notes
+      };
+    }
+
+    return items;
+  }
+}
+
+/**
+ * Reduces a doctor's name to what identifies them: "Dr. Jane Test, DVM" and
+ * "jane test" are the same doctor
+ */
+function normalizeDoctorName(name: string): string {
+  return name
+    .split(',')[0]
+    .toLowerCase()
+    .replace(/^\s*dr\b\.?/, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim();
+}
+
+/**
+ * Finds the doctor's visit type for an event: the one it names if the length
+ * matches, otherwise the first one of that length
+ */
+function findVisitType(doctor: Doctor, startISO: string, endISO: string, name?: string): VisitType | undefined {
+  const minutes = (new Date(endISO).getTime() - new Date(startISO).getTime()) / 60000;
+  const visitTypes = getDoctorVisitTypes(doctor).filter(visitType => visitType.durationMinutes === minutes);
+
+  return visitTypes.find(visitType => visitType.name.toLowerCase() === name?.toLowerCase()) || visitTypes[0];
+}
@@ -0,0 +1,177 @@
+import { Actor, CredentialType, UserAccount, UserRole } from '../entities/User';
+import { Owner } from '../entities/Owner';
+import { IUserRepository } from '../repositories/IUserRepository';
+import { IOwnerRepository } from '../repositories/IOwnerRepository';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { canCreateAccount } from '../policies/authorization';
+import { generateSalt, hashCredential } from '../../shared/utils/hash';
+import { generateUUID } from '../../shared/utils/uuid';
+
+export interface RegisterUserRequest {
+  displayName: string;
+  role: UserRole;
+  credentialType: CredentialType;
+  secret: string;
+  ownerId?: string; // Existing owner profile to link; a new profile is created if omitted
+  doctorId?: string; // Required for doctor accounts
+  phone?: string;
+  email?: string;
+}
+
+export interface RegisterResult {
+  success: boolean;
+  user?: UserAccount;
+  error?: string;
+}
+
+/**
+ * Use case for creating local user accounts
+ */
+export class RegisterUserUseCase {
+  constructor(
+    private userRepository: IUserRepository,
+    private ownerRepository: IOwnerRepository,
+    private appointmentRepository: IAppointmentRepository
+  ) {}
+
+  /**
+   * Creates an account and links it to an owner profile or doctor
+   * @param request - The account details
+   * @param actor - The signed-in user creating the account, or null for self-registration
+   * @returns Promise<RegisterResult> - Result of the registration
+   */
+  async execute(request: RegisterUserRequest, actor: Actor | null): Promise<RegisterResult> {
+    try {
+      const displayName = request.displayName.trim();
+      if (!displayName) {
+        return {
+          success: false,
+          error: 'Name is required'
+        };
+      }
+
+      const credentialError = this.validateCredential(request.credentialType, request.secret);
+      if (credentialError) {
+        return {
+          success: false,
+          error: credentialError
+        };
+      }
+
+      const users = await this.userRepository.getUsers();
+      const hasClinicAdmin = users.some(user => user.role === 'clinic_admin');
+
+      if (!canCreateAccount(actor, request.role, hasClinicAdmin)) {
+        return {
+          success: false,
+          error: 'Not authorized to create this type of account'
+        };
+      }
+
+      const now = new Date().toISOString();
+      let ownerId: string | undefined;
+      let doctorId: string | undefined;
+
+      if (request.role === 'owner') {
+        ownerId = await this.resolveOwnerProfile(request, displayName, users, now);
+      }
+
+      if (request.role === 'doctor') {
+        if (!request.doctorId || !(await this.appointmentRepository.getDoctorById(request.doctorId))) {
+          return {
+            success: false,
+            error: 'Doctor not found'
+          };
+        }
+
+        if (users.some(user => user.doctorId === request.doctorId)) {
+          return {
+            success: false,
+            error: 'This doctor already has an account'
+          };
+        }
+
+        doctorId = request.doctorId;
+      }
+
+      const credentialSalt = generateSalt();
+      const user: UserAccount = {
+        id: generateUUID(),
+        displayName,
+        role: request.role,
+        ownerId,
+        doctorId,
+        credentialType: request.credentialType,
+        credentialHash: hashCredential(request.secret, credentialSalt),
+        credentialSalt,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      await this.userRepository.createUser(user);
+
+      return {
+        success: true,
+        user
+      };
+
+    } catch (error) {
+      console.error('Error registering user:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Checks a PIN or passphrase against the minimum requirements
+   * @param credentialType - PIN or passphrase
+   * @param secret - The value entered
+   * @returns An error message, or null if valid
+   */
+  validateCredential(credentialType: CredentialType, secret: string): string | null {
+    if (credentialType === 'pin') {
+      return /^\d{4,8}$/.test(secret) ? null : 'PIN must be 4 to 8 digits';
+    }
+
+    return secret.trim().length >= 8 ? null : 'Passphrase must be at least 8 characters';
+  }
+
+  /**
+   * Links an existing, unclaimed owner profile or creates a new one
+   * @returns The owner profile ID
+   */
+  private async resolveOwnerProfile(
+    request: RegisterUserRequest,
+    displayName: string,
+    users: UserAccount[],
+    now: string
+  ): Promise<string> {
+    if (request.ownerId) {
+      const owner = await this.ownerRepository.getOwnerById(request.ownerId);
+      if (!owner) {
+        throw new Error(`Owner with ID ${request.ownerId} not found`);
+      }
+
+      if (users.some(user => user.ownerId === owner.id)) {
+        throw new Error('This owner profile already has an account');
+      }
+
+      return owner.id;
+    }
+
+    const owner: Owner = {
+      id: generateUUID(),
+      name: displayName,
+      phone: request.phone?.trim() || undefined,
+      email: request.email?.trim() || undefined,
+      preferredContactChannel: request.phone?.trim() || !request.email?.trim() ? 'phone' : 'email',
+      createdAt: now,
+      updatedAt: now
+    };
+
+    await this.ownerRepository.createOwner(owner);
+    return owner.id;
+  }
+}
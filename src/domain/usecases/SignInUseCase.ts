@@ -0,0 +1,92 @@
+import { UserAccount } from '../entities/User';
+import { IUserRepository } from '../repositories/IUserRepository';
+import { verifyCredential } from '../../shared/utils/hash';
+
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MINUTES = 5;
+
+export interface SignInResult {
+  success: boolean;
+  user?: UserAccount;
+  error?: string;
+}
+
+/**
+ * Use case for signing in to a local account with a PIN or passphrase
+ */
+export class SignInUseCase {
+  constructor(private userRepository: IUserRepository) {}
+
+  /**
+   * Verifies the credential and starts a session for the user
+   * Repeated failures lock the account for a few minutes.
+   * @param userId - The account to sign in to
+   * @param secret - The PIN or passphrase entered
+   * @returns Promise<SignInResult> - Result of the sign-in attempt
+   */
+  async execute(userId: string, secret: string): Promise<SignInResult> {
+    try {
+      const user = await this.userRepository.getUserById(userId);
+
+      if (!user) {
+        return {
+          success: false,
+          error: 'Account not found'
+        };
+      }
+
+      if (user.lockedUntil && new Date(user.lockedUntil) > new Date()) {
+        return {
+          success: false,
+          error: 'Too many failed attempts. Please try again in a few minutes.'
+        };
+      }
+
+      if (!verifyCredential(secret, user.credentialSalt, user.credentialHash)) {
+        const failedSignInAttempts = (user.failedSignInAttempts || 0) + 1;
+        const isLocked = failedSignInAttempts >= MAX_FAILED_ATTEMPTS;
+
+        await this.userRepository.updateUser({
+          ...user,
+          failedSignInAttempts: isLocked ? 0 : failedSignInAttempts,
+          lockedUntil: isLocked
+            ? new Date(Date.now() + LOCKOUT_MINUTES * 60 * 1000).toISOString()
+            : user.lockedUntil
+        });
+
+        return {
+          success: false,
+          error: user.credentialType === 'pin' ? 'Incorrect PIN' : 'Incorrect passphrase'
+        };
+      }
+
+      const signedInUser: UserAccount = {
+        ...user,
+        failedSignInAttempts: 0,
+        lockedUntil: undefined
+      };
+
+      await this.userRepository.updateUser(signedInUser);
+      await this.userRepository.setSessionUserId(signedInUser.id);
+
+      return {
+        success: true,
+        user: signedInUser
+      };
+
+    } catch (error) {
+      console.error('Error signing in:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Ends the current session
+   */
+  async signOut(): Promise<void> {
+    await this.userRepository.setSessionUserId(null);
+  }
+}
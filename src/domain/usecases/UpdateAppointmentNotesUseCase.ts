@@ -0,0 +1,70 @@
+import { Appointment } from '../entities/Appointment';
+import { Actor } from '../entities/User';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { canManageAppointment } from '../policies/authorization';
+import { withChange } from '../policies/appointmentHistory';
+
+export interface NotesUpdateResult {
+  success: boolean;
+  appointment?: Appointment;
+  error?: string;
+}
+
+/**
+ * Use case for editing an appointment's notes
+ * The previous notes are kept in the appointment's history.
+ */
+export class UpdateAppointmentNotesUseCase {
+  constructor(private appointmentRepository: IAppointmentRepository) {}
+
+  /**
+   * Replaces an appointment's notes
+   * @param appointmentId - The appointment ID
+   * @param notes - The new notes; blank clears them
+   * @param actor - The signed-in user editing the notes
+   * @returns Promise<NotesUpdateResult> - The updated appointment
+   */
+  async execute(appointmentId: string, notes: string, actor: Actor): Promise<NotesUpdateResult> {
+    try {
+      const existingAppointment = await this.appointmentRepository.getAppointmentById(appointmentId);
+      if (!existingAppointment) {
+        return {
+          success: false,
+          error: 'Appointment not found'
+        };
+      }
+
+      if (!canManageAppointment(actor, existingAppointment)) {
+        return {
+          success: false,
+          error: 'Not authorized to edit this appointment'
+        };
+      }
+
+      const newNotes = notes.trim() || undefined;
+      if (newNotes === existingAppointment.notes) {
+        return {
+          success: true,
+          appointment: existingAppointment
+        };
+      }
+
+      const savedAppointment = await this.appointmentRepository.updateAppointment(withChange(
+        { ...existingAppointment, notes: newNotes },
+        { type: 'notesChanged', from: existingAppointment.notes, to: newNotes },
+        actor
+      ));
+
+      return {
+        success: true,
+        appointment: savedAppointment
+      };
+    } catch (error) {
+      console.error('Error updating appointment notes:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+}
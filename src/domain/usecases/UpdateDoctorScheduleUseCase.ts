@@ -0,0 +1,278 @@
+import { Doctor, Availability, AvailabilityException } from '../entities/Doctor';
+import { Appointment } from '../entities/Appointment';
+import { VisitType } from '../entities/VisitType';
+import { Actor } from '../entities/User';
+import { IAppointmentRepository } from '../repositories/IAppointmentRepository';
+import { canManageDoctorSchedule } from '../policies/authorization';
+import { isUpcomingStatus } from '../policies/appointmentLifecycle';
+import { CancelAppointmentUseCase } from './CancelAppointmentUseCase';
+import { validateAvailability } from '../validation/validators';
+import { expandExceptionsToIntervals } from '../../shared/utils/rruleHelpers';
+import { parseLocalDate } from '../../shared/utils/date';
+import {
+  addDaysToDateString,
+  getDoctorTimeZone,
+  isValidTimeZone,
+  zonedTimeToDate
+} from '../../shared/utils/timezone';
+
+export interface DoctorScheduleChanges {
+  weeklyAvailability?: Availability[];
+  visitTypes?: VisitType[];
+  bufferBeforeMinutes?: number;
+  bufferAfterMinutes?: number;
+  availabilityExceptions?: AvailabilityException[];
+  timeZone?: string;
+}
+
+export interface ScheduleUpdateOptions {
+  cancelAffectedAppointments?: boolean; // Cancel bookings that fall into newly blocked time
+}
+
+export interface ScheduleUpdateResult {
+  success: boolean;
+  doctor?: Doctor;
+  affectedAppointments?: Appointment[]; // Upcoming bookings inside newly blocked time
+  cancelledAppointments?: Appointment[];
+  error?: string;
+}
+
+/**
+ * Use case for updating a doctor's weekly availability, visit types, buffers,
+ * date-specific exceptions and timezone
+ */
+export class UpdateDoctorScheduleUseCase {
+  constructor(
+    private appointmentRepository: IAppointmentRepository,
+    private cancelAppointmentUseCase: CancelAppointmentUseCase
+  ) {}
+
+  /**
+   * Updates a doctor's schedule settings; fields left out of the changes are kept
+   * @param doctorId - The doctor's ID
+   * @param changes - The new availability blocks, visit types, buffers, exceptions and/or timezone
+   * @param actor - The signed-in user making the change
+   * @param options - Whether to cancel bookings that fall into newly blocked time
+   * @returns Promise<ScheduleUpdateResult> - Result of the update
+   */
+  async execute(
+    doctorId: string,
+    changes: DoctorScheduleChanges,
+    actor: Actor,
+    options: ScheduleUpdateOptions = {}
+  ): Promise<ScheduleUpdateResult> {
+    try {
+      if (!canManageDoctorSchedule(actor, doctorId)) {
+        return {
+          success: false,
+          error: "Not authorized to change this doctor's schedule"
+        };
+      }
+
+      const doctor = await this.appointmentRepository.getDoctorById(doctorId);
+      if (!doctor) {
+        return {
+          success: false,
+          error: 'Doctor not found'
+        };
+      }
+
+      const availabilityErrors = (changes.weeklyAvailability || []).flatMap(availability =>
+        validateAvailability(availability)
+      );
+
+      if (availabilityErrors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid availability: ${availabilityErrors.join('; ')}`
+        };
+      }
+
+      const invalidVisitType = (changes.visitTypes || []).find(visitType =>
+        !visitType.name.trim() || visitType.durationMinutes <= 0 ||
+        visitType.bufferBeforeMinutes < 0 || visitType.bufferAfterMinutes < 0
+      );
+
+      if (invalidVisitType) {
+        return {
+          success: false,
+          error: 'Visit types need a name, a positive duration and non-negative buffers'
+        };
+      }
+
+      if ((changes.bufferBeforeMinutes || 0) < 0 || (changes.bufferAfterMinutes || 0) < 0) {
+        return {
+          success: false,
+          error: 'Buffers cannot be negative'
+        };
+      }
+
+      const exceptionError = this.validateExceptions(changes.availabilityExceptions || []);
+      if (exceptionError) {
+        return {
+          success: false,
+          error: exceptionError
+        };
+      }
+
+      if (changes.timeZone !== undefined && !isValidTimeZone(changes.timeZone)) {
+        return {
+          success: false,
+          error: `Unknown timezone: ${changes.timeZone}`
+        };
+      }
+
+      const updatedDoctor: Doctor = {
+        ...doctor,
+        ...changes
+      };
+      const timeZone = getDoctorTimeZone(updatedDoctor);
+
+      const savedDoctor = await this.appointmentRepository.updateDoctor(updatedDoctor);
+
+      // Look for bookings that the newly added time off runs into
+      const previousExceptionIds = new Set((doctor.availabilityExceptions || []).map(e => e.id));
+      const newBlocks = (changes.availabilityExceptions || []).filter(exception =>
+        exception.type === 'block' && !previousExceptionIds.has(exception.id)
+      );
+
+      const affectedAppointments = await this.findAffectedAppointments(doctorId, newBlocks, timeZone);
+      let cancelledAppointments: Appointment[] = [];
+
+      if (options.cancelAffectedAppointments && affectedAppointments.length > 0) {
+        cancelledAppointments = await this.cancelAppointmentsInBlocks(doctorId, newBlocks, actor, timeZone);
+      }
+
+      return {
+        success: true,
+        doctor: savedDoctor,
+        affectedAppointments,
+        cancelledAppointments
+      };
+
+    } catch (error) {
+      console.error('Error updating doctor schedule:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+
+  /**
+   * Checks exceptions for valid dates and times
+   * @param exceptions - The exceptions to check
+   * @returns An error message, or null if all are valid
+   */
+  private validateExceptions(exceptions: AvailabilityException[]): string | null {
+    for (const exception of exceptions) {
+      const firstDay = parseLocalDate(exception.startDate);
+      const lastDay = parseLocalDate(exception.endDate);
+
+      if (isNaN(firstDay.getTime()) || isNaN(lastDay.getTime())) {
+        return 'Exception dates must be in YYYY-MM-DD format';
+      }
+
+      if (lastDay < firstDay) {
+        return 'Exception end date must not be before its start date';
+      }
+
+      const hasTimes = !!exception.startTime && !!exception.endTime;
+      if (exception.type === 'extra' && !hasTimes) {
+        return 'Extra hours need a start and end time';
+      }
+
+      if (hasTimes && exception.startTime! >= exception.endTime!) {
+        return 'Exception end time must be after its start time';
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Finds upcoming, active appointments that overlap blocked time
+   * @param doctorId - The doctor's ID
+   * @param blocks - Block exceptions
+   * @param timeZone - The doctor's timezone
+   * @returns Affected appointments
+   */
+  private async findAffectedAppointments(
+    doctorId: string,
+    blocks: AvailabilityException[],
+    timeZone: string
+  ): Promise<Appointment[]> {
+    const now = new Date();
+    const affected = new Map<string, Appointment>();
+
+    for (const block of blocks) {
+      const rangeEnd = zonedTimeToDate(addDaysToDateString(block.endDate, 1), '00:00', timeZone);
+
+      for (const interval of expandExceptionsToIntervals([block], 'block', now, rangeEnd, timeZone)) {
+        const appointments = await this.appointmentRepository.getAppointmentsByDoctorAndDateRange(
+          doctorId,
+          interval.start.toISOString(),
+          interval.end.toISOString()
+        );
+
+        for (const appointment of appointments) {
+          const start = new Date(appointment.startDateISO);
+          const end = new Date(appointment.endDateISO);
+          const isActive = isUpcomingStatus(appointment.status);
+
+          if (isActive && start >= now && start < interval.end && end > interval.start) {
+            affected.set(appointment.id, appointment);
+          }
+        }
+      }
+    }
+
+    return Array.from(affected.values());
+  }
+
+  /**
+   * Cancels the bookings that fall into blocked time, one day at a time
+   * @param doctorId - The doctor's ID
+   * @param blocks - Block exceptions
+   * @param actor - The signed-in user making the change
+   * @param timeZone - The doctor's timezone
+   * @returns The cancelled appointments
+   */
+  private async cancelAppointmentsInBlocks(
+    doctorId: string,
+    blocks: AvailabilityException[],
+    actor: Actor,
+    timeZone: string
+  ): Promise<Appointment[]> {
+    const now = new Date();
+    const cancelled: Appointment[] = [];
+
+    for (const block of blocks) {
+      const rangeEnd = zonedTimeToDate(addDaysToDateString(block.endDate, 1), '00:00', timeZone);
+
+      const reason = block.reason ? `Doctor unavailable: ${block.reason}` : 'Doctor unavailable';
+      const timeWindow = block.startTime && block.endTime
+        ? { startTime: block.startTime, endTime: block.endTime }
+        : undefined;
+
+      for (const interval of expandExceptionsToIntervals([block], 'block', now, rangeEnd, timeZone)) {
+        const results = await this.cancelAppointmentUseCase.cancelDoctorAppointmentsForDate(
+          doctorId,
+          interval.start.toISOString(),
+          actor,
+          reason,
+          timeWindow,
+          timeZone
+        );
+
+        for (const result of results) {
+          if (result.success && result.appointment) {
+            cancelled.push(result.appointment);
+          }
+        }
+      }
+    }
+
+    return cancelled;
+  }
+}
@@ -0,0 +1,69 @@
+import { Owner } from '../entities/Owner';
+import { Actor } from '../entities/User';
+import { IOwnerRepository } from '../repositories/IOwnerRepository';
+import { canManageOwnerProfile } from '../policies/authorization';
+import { validateOwner } from '../validation/validators';
+
+export interface OwnerProfileResult {
+  success: boolean;
+  owner?: Owner;
+  error?: string;
+}
+
+/**
+ * Use case for saving an owner's profile
+ */
+export class UpdateOwnerProfileUseCase {
+  constructor(private ownerRepository: IOwnerRepository) {}
+
+  /**
+   * Creates or updates an owner's profile
+   * Accounts linked to an owner that has no profile yet create it on first save.
+   * @param owner - The profile as edited
+   * @param actor - The signed-in user saving it
+   * @returns Promise<OwnerProfileResult> - The saved profile
+   */
+  async execute(owner: Owner, actor: Actor): Promise<OwnerProfileResult> {
+    try {
+      if (!canManageOwnerProfile(actor, owner.id)) {
+        return {
+          success: false,
+          error: 'Not authorized to edit this owner profile'
+        };
+      }
+
+      const errors = validateOwner(owner);
+      if (errors.length > 0) {
+        return {
+          success: false,
+          error: `Invalid owner profile: ${errors.join('; ')}`
+        };
+      }
+
+      const existingOwner = await this.ownerRepository.getOwnerById(owner.id);
+      const now = new Date().toISOString();
+      const savedOwner: Owner = {
+        ...owner,
+        createdAt: existingOwner?.createdAt || owner.createdAt || now,
+        updatedAt: now
+      };
+
+      if (existingOwner) {
+        await this.ownerRepository.updateOwner(savedOwner);
+      } else {
+        await this.ownerRepository.createOwner(savedOwner);
+      }
+
+      return {
+        success: true,
+        owner: savedOwner
+      };
+    } catch (error) {
+      console.error('Error saving owner profile:', error);
+      return {
+        success: false,
+        error: error instanceof Error ? error.message : 'Unknown error occurred'
+      };
+    }
+  }
+}
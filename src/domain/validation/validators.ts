@@ -0,0 +1,453 @@
+import { AppointmentChangeType, AppointmentStatus } from '../entities/Appointment';
+import { AvailabilityExceptionType } from '../entities/Doctor';
+import { LateCancellationHandling } from '../entities/ClinicPolicy';
+import { ContactChannel } from '../entities/Owner';
+import { UserRole } from '../entities/User';
+import { isValidRRule } from '../../shared/utils/rruleHelpers';
+import { isValidTimeZone } from '../../shared/utils/timezone';
+
+/**
+ * Schema validators for records read from storage, imported from files or
+ * passed into the use cases
+ * Each validator takes an unknown value and returns the problems found, one
+ * message per field; an empty list means the value is valid.
+ */
+
+export const APPOINTMENT_STATUSES: AppointmentStatus[] = [
+  'requested',
+  'confirmed',
+  'checked_in',
+  'in_progress',
+  'completed',
+  'no_show',
+  'cancelled'
+];
+
+const HISTORY_ENTRY_TYPES: AppointmentChangeType[] = ['created', 'rescheduled', 'statusChanged', 'notesChanged'];
+
+const USER_ROLES: UserRole[] = ['owner', 'doctor', 'clinic_admin'];
+
+const EXCEPTION_TYPES: AvailabilityExceptionType[] = ['block', 'extra'];
+
+const LATE_CANCELLATION_HANDLINGS: LateCancellationHandling[] = ['allow', 'flag', 'block'];
+
+const CONTACT_CHANNELS: ContactChannel[] = ['phone', 'sms', 'email'];
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const ISO_DATE_TIME_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}(:\d{2}(\.\d+)?)?(Z|[+-]\d{2}:\d{2})$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+
+type Fields = Record<string, unknown>;
+
+const isObject = (value: unknown): value is Fields =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNonEmptyString = (value: unknown): value is string =>
+  typeof value === 'string' && value.trim().length > 0;
+
+/**
+ * Checks for a 24-hour "HH:MM" time
+ */
+export function isValidTime(value: unknown): value is string {
+  return typeof value === 'string' && TIME_PATTERN.test(value);
+}
+
+/**
+ * Checks for an ISO 8601 date-time with a timezone, e.g. "2030-01-07T09:00:00.000Z"
+ */
+export function isValidISODateTime(value: unknown): value is string {
+  return typeof value === 'string' &&
+    ISO_DATE_TIME_PATTERN.test(value) &&
+    !isNaN(new Date(value).getTime());
+}
+
+/**
+ * Checks for a calendar date in "YYYY-MM-DD" format
+ */
+export function isValidDateString(value: unknown): value is string {
+  if (typeof value !== 'string' || !DATE_PATTERN.test(value)) {
+    return false;
+  }
+
+  // Reject dates that roll over, like 2030-02-30
+  const date = new Date(`${value}T00:00:00.000Z`);
+  return !isNaN(date.getTime()) && date.toISOString().startsWith(value);
+}
+
+function requireStrings(value: Fields, fields: string[], errors: string[], path: string): void {
+  fields.forEach(field => {
+    if (!isNonEmptyString(value[field])) {
+      errors.push(`${path}${field} is required`);
+    }
+  });
+}
+
+function optionalStrings(value: Fields, fields: string[], errors: string[], path: string): void {
+  fields.forEach(field => {
+    if (value[field] !== undefined && typeof value[field] !== 'string') {
+      errors.push(`${path}${field} must be text`);
+    }
+  });
+}
+
+function optionalNonNegativeNumbers(value: Fields, fields: string[], errors: string[], path: string): void {
+  fields.forEach(field => {
+    const fieldValue = value[field];
+    if (fieldValue !== undefined && (typeof fieldValue !== 'number' || !(fieldValue >= 0))) {
+      errors.push(`${path}${field} must be a number of at least 0`);
+    }
+  });
+}
+
+function checkTimeRange(start: unknown, end: unknown, errors: string[], path: string): void {
+  if (!isValidTime(start)) {
+    errors.push(`${path}startTime must be in HH:MM format`);
+  }
+  if (!isValidTime(end)) {
+    errors.push(`${path}endTime must be in HH:MM format`);
+  }
+  if (isValidTime(start) && isValidTime(end) && start >= end) {
+    errors.push(`${path}endTime must be after startTime`);
+  }
+}
+
+function checkList(
+  value: unknown,
+  validate: (item: Fields, path: string) => string[],
+  errors: string[],
+  path: string
+): void {
+  if (!Array.isArray(value)) {
+    errors.push(`${path} must be a list`);
+    return;
+  }
+
+  value.forEach((item, index) => {
+    if (isObject(item)) {
+      errors.push(...validate(item, `${path}[${index}].`));
+    } else {
+      errors.push(`${path}[${index}] must be an object`);
+    }
+  });
+}
+
+/**
+ * Validates a weekly availability block
+ * @param value - The value to check
+ * @param path - Prefix for the messages when the block is part of a larger record
+ * @returns string[] - The problems found
+ */
+export function validateAvailability(value: unknown, path = ''): string[] {
+  if (!isObject(value)) {
+    return ['availability must be an object'];
+  }
+
+  const errors: string[] = [];
+  requireStrings(value, ['id'], errors, path);
+
+  if (!Number.isInteger(value.weekday) || (value.weekday as number) < 0 || (value.weekday as number) > 6) {
+    errors.push(`${path}weekday must be a whole number from 0 (Sunday) to 6 (Saturday)`);
+  }
+
+  checkTimeRange(value.startTime, value.endTime, errors, path);
+
+  if (value.rrule !== undefined && (typeof value.rrule !== 'string' || !isValidRRule(value.rrule))) {
+    errors.push(`${path}rrule is not a valid recurrence rule`);
+  }
+
+  return errors;
+}
+
+function validateVisitType(value: Fields, path: string): string[] {
+  const errors: string[] = [];
+  requireStrings(value, ['id', 'name'], errors, path);
+  optionalStrings(value, ['requiredSpecialty'], errors, path);
+
+  if (typeof value.durationMinutes !== 'number' || !(value.durationMinutes > 0)) {
+    errors.push(`${path}durationMinutes must be a number above 0`);
+  }
+
+  optionalNonNegativeNumbers(value, ['bufferBeforeMinutes', 'bufferAfterMinutes'], errors, path);
+  return errors;
+}
+
+function validateHistoryEntry(value: Fields, path: string): string[] {
+  const errors: string[] = [];
+  requireStrings(value, ['id', 'changedBy'], errors, path);
+
+  if (!isValidISODateTime(value.changedAt)) {
+    errors.push(`${path}changedAt must be an ISO 8601 date and time`);
+  }
+  if (value.changedByRole !== undefined && !USER_ROLES.includes(value.changedByRole as UserRole)) {
+    errors.push(`${path}changedByRole must be one of ${USER_ROLES.join(', ')}`);
+  }
+
+  switch (value.type) {
+    case 'created':
+      break;
+    case 'rescheduled':
+      ['fromStartISO', 'fromEndISO', 'toStartISO', 'toEndISO'].forEach(field => {
+        if (!isValidISODateTime(value[field])) {
+          errors.push(`${path}${field} must be an ISO 8601 date and time`);
+        }
+      });
+      break;
+    case 'statusChanged':
+      ['from', 'to'].forEach(field => {
+        if (!APPOINTMENT_STATUSES.includes(value[field] as AppointmentStatus)) {
+          errors.push(`${path}${field} must be one of ${APPOINTMENT_STATUSES.join(', ')}`);
+        }
+      });
+      optionalStrings(value, ['reason'], errors, path);
+      break;
+    case 'notesChanged':
+      optionalStrings(value, ['from', 'to'], errors, path);
+      break;
+    default:
+      errors.push(`${path}type must be one of ${HISTORY_ENTRY_TYPES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+function validateAvailabilityException(value: Fields, path: string): string[] {
+  const errors: string[] = [];
+  requireStrings(value, ['id'], errors, path);
+  optionalStrings(value, ['reason'], errors, path);
+
+  if (!EXCEPTION_TYPES.includes(value.type as AvailabilityExceptionType)) {
+    errors.push(`${path}type must be one of ${EXCEPTION_TYPES.join(', ')}`);
+  }
+
+  if (!isValidDateString(value.startDate)) {
+    errors.push(`${path}startDate must be in YYYY-MM-DD format`);
+  }
+  if (!isValidDateString(value.endDate)) {
+    errors.push(`${path}endDate must be in YYYY-MM-DD format`);
+  }
+  if (isValidDateString(value.startDate) && isValidDateString(value.endDate) && value.startDate > value.endDate) {
+    errors.push(`${path}endDate must not be before startDate`);
+  }
+
+  // All-day blocks have no times; anything else needs both
+  if (value.startTime !== undefined || value.endTime !== undefined || value.type === 'extra') {
+    checkTimeRange(value.startTime, value.endTime, errors, path);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a doctor, including their availability, visit types and exceptions
+ * @param value - The value to check
+ * @returns string[] - The problems found
+ */
+export function validateDoctor(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['doctor must be an object'];
+  }
+
+  const errors: string[] = [];
+  requireStrings(value, ['id', 'name'], errors, '');
+  optionalStrings(value, ['location'], errors, '');
+
+  if (!Array.isArray(value.specialties) || !value.specialties.every(isNonEmptyString)) {
+    errors.push('specialties must be a list of names');
+  }
+
+  checkList(value.weeklyAvailability, validateAvailability, errors, 'weeklyAvailability');
+
+  if (value.visitTypes !== undefined) {
+    checkList(value.visitTypes, validateVisitType, errors, 'visitTypes');
+  }
+  if (value.availabilityExceptions !== undefined) {
+    checkList(value.availabilityExceptions, validateAvailabilityException, errors, 'availabilityExceptions');
+  }
+
+  optionalNonNegativeNumbers(value, ['bufferBeforeMinutes', 'bufferAfterMinutes', 'rating', 'version'], errors, '');
+
+  if (value.timeZone !== undefined && (typeof value.timeZone !== 'string' || !isValidTimeZone(value.timeZone))) {
+    errors.push('timeZone must be an IANA timezone, e.g. "America/New_York"');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates an owner profile, including a way to reach the owner on their
+ * preferred channel
+ * @param value - The value to check
+ * @returns string[] - The problems found
+ */
+export function validateOwner(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['owner must be an object'];
+  }
+
+  const errors: string[] = [];
+  requireStrings(value, ['id', 'name'], errors, '');
+  optionalStrings(value, ['phone', 'email', 'address'], errors, '');
+
+  if (!CONTACT_CHANNELS.includes(value.preferredContactChannel as ContactChannel)) {
+    errors.push(`preferredContactChannel must be one of ${CONTACT_CHANNELS.join(', ')}`);
+  } else if (value.preferredContactChannel === 'email' && !isNonEmptyString(value.email)) {
+    errors.push('email is required to be contacted by email');
+  } else if (value.preferredContactChannel !== 'email' && !isNonEmptyString(value.phone)) {
+    errors.push('phone is required to be contacted by phone or SMS');
+  }
+
+  if (isNonEmptyString(value.email) && !EMAIL_PATTERN.test(value.email.trim())) {
+    errors.push('email must be an email address');
+  }
+
+  return errors;
+}
+
+/**
+ * Validates the data needed to book an appointment
+ * @param value - The value to check
+ * @returns string[] - The problems found
+ */
+export function validateAppointmentCreate(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['appointment must be an object'];
+  }
+
+  const errors: string[] = [];
+  requireStrings(value, ['doctorId', 'doctorName', 'ownerId', 'ownerName', 'petId', 'petName'], errors, '');
+  checkAppointmentDetails(value, errors);
+  return errors;
+}
+
+/**
+ * Validates appointment data read from a calendar file
+ * Calendar events carry no doctor, owner or pet IDs, so only the times and
+ * the fields the event did include are checked.
+ * @param value - The value to check
+ * @returns string[] - The problems found
+ */
+export function validateImportedAppointment(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['appointment must be an object'];
+  }
+
+  const errors: string[] = [];
+  optionalStrings(value, ['id', 'doctorName', 'ownerName', 'petName'], errors, '');
+  checkAppointmentDetails(value, errors);
+
+  if (value.status !== undefined && !APPOINTMENT_STATUSES.includes(value.status as AppointmentStatus)) {
+    errors.push(`status must be one of ${APPOINTMENT_STATUSES.join(', ')}`);
+  }
+
+  return errors;
+}
+
+function checkAppointmentDetails(value: Fields, errors: string[]): void {
+  optionalStrings(value, ['disease', 'visitTypeId', 'visitTypeName', 'location', 'notes', 'cancellationReason'], errors, '');
+
+  if (!isValidISODateTime(value.startDateISO)) {
+    errors.push('startDateISO must be an ISO 8601 date and time');
+  }
+  if (!isValidISODateTime(value.endDateISO)) {
+    errors.push('endDateISO must be an ISO 8601 date and time');
+  }
+  if (
+    isValidISODateTime(value.startDateISO) &&
+    isValidISODateTime(value.endDateISO) &&
+    new Date(value.endDateISO) <= new Date(value.startDateISO)
+  ) {
+    errors.push('endDateISO must be after startDateISO');
+  }
+}
+
+/**
+ * Validates a stored appointment
+ * @param value - The value to check
+ * @returns string[] - The problems found
+ */
+export function validateAppointment(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['appointment must be an object'];
+  }
+
+  const errors = validateAppointmentCreate(value);
+  requireStrings(value, ['id'], errors, '');
+
+  if (!APPOINTMENT_STATUSES.includes(value.status as AppointmentStatus)) {
+    errors.push(`status must be one of ${APPOINTMENT_STATUSES.join(', ')}`);
+  }
+
+  if (value.history !== undefined) {
+    checkList(value.history, validateHistoryEntry, errors, 'history');
+  }
+
+  if (value.lateCancellation !== undefined && typeof value.lateCancellation !== 'boolean') {
+    errors.push('lateCancellation must be true or false');
+  }
+
+  ['createdAt', 'updatedAt'].forEach(field => {
+    if (value[field] !== undefined && !isValidISODateTime(value[field])) {
+      errors.push(`${field} must be an ISO 8601 date and time`);
+    }
+  });
+
+  optionalNonNegativeNumbers(value, ['version'], errors, '');
+  return errors;
+}
+
+function validateChangeRules(value: Fields, path: string): string[] {
+  const errors: string[] = [];
+
+  ['cancellationNoticeHours', 'rescheduleNoticeHours'].forEach(field => {
+    if (value[field] === undefined) {
+      errors.push(`${path}${field} is required`);
+    }
+  });
+  optionalNonNegativeNumbers(value, ['cancellationNoticeHours', 'rescheduleNoticeHours'], errors, path);
+
+  if (!LATE_CANCELLATION_HANDLINGS.includes(value.lateCancellation as LateCancellationHandling)) {
+    errors.push(`${path}lateCancellation must be one of ${LATE_CANCELLATION_HANDLINGS.join(', ')}`);
+  }
+
+  const { maxReschedules } = value;
+  if (maxReschedules !== null && !(typeof maxReschedules === 'number' && Number.isInteger(maxReschedules) && maxReschedules >= 0)) {
+    errors.push(`${path}maxReschedules must be a whole number of at least 0, or null for no limit`);
+  }
+
+  return errors;
+}
+
+/**
+ * Validates a clinic's cancellation and rescheduling policy
+ * @param value - The value to check
+ * @returns string[] - The problems found
+ */
+export function validateClinicPolicy(value: unknown): string[] {
+  if (!isObject(value)) {
+    return ['clinic policy must be an object'];
+  }
+
+  const errors: string[] = [];
+  const rules = value.rules;
+
+  if (!isObject(rules)) {
+    errors.push('rules must be an object');
+  } else {
+    USER_ROLES.forEach(role => {
+      const roleRules = rules[role];
+      if (isObject(roleRules)) {
+        errors.push(...validateChangeRules(roleRules, `rules.${role}.`));
+      } else {
+        errors.push(`rules.${role} must be an object`);
+      }
+    });
+  }
+
+  if (value.lateCancellationWeight === undefined) {
+    errors.push('lateCancellationWeight is required');
+  }
+  optionalNonNegativeNumbers(value, ['lateCancellationWeight'], errors, '');
+
+  return errors;
+}
@@ -9,11 +9,30 @@ import DoctorList from '../presentation/screens/Owner/DoctorList';
 import DoctorDetail from '../presentation/screens/Owner/DoctorDetail';
 import BookAppointment from '../presentation/screens/Owner/BookAppointment';
 import MyAppointments from '../presentation/screens/Owner/MyAppointments';
+import OwnerProfile from '../presentation/screens/Owner/OwnerProfile';
+import JoinWaitlist from '../presentation/screens/Owner/JoinWaitlist';
+import Waitlist from '../presentation/screens/Owner/Waitlist';
+import ImportAppointments from '../presentation/screens/Owner/ImportAppointments';
 
 // Doctor screens
 import DoctorScheduleSetup from '../presentation/screens/Doctor/DoctorScheduleSetup';
 import DoctorAppointments from '../presentation/screens/Doctor/DoctorAppointments';
+import DoctorWaitlist from '../presentation/screens/Doctor/DoctorWaitlist';
+import DoctorBusyCalendars from '../presentation/screens/Doctor/DoctorBusyCalendars';
 
+// Auth screens
+import SignIn from '../presentation/screens/Auth/SignIn';
+import Register from '../presentation/screens/Auth/Register';
+import Account from '../presentation/screens/Auth/Account';
+
+// Sync screens
+import PendingChanges from '../presentation/screens/Sync/PendingChanges';
+
+// Clinic screens
+import ClinicPolicySettings from '../presentation/screens/Clinic/ClinicPolicySettings';
+
+import { UserRole } from '../domain/entities/User';
+import { canAccessOwnerPortal, canAccessDoctorPortal } from '../domain/policies/authorization';
 import { useAppState } from '../presentation/hooks/useAppState';
 
 const Tab = createBottomTabNavigator();
@@ -38,6 +57,21 @@ function OwnerStack() {
         component={BookAppointment} 
         options={{ title: 'Book Appointment' }}
       />
+      <Stack.Screen 
+        name="JoinWaitlist" 
+        component={JoinWaitlist} 
+        options={{ title: 'Join Waitlist' }}
+      />
+      <Stack.Screen 
+        name="PendingChanges" 
+        component={PendingChanges} 
+        options={{ title: 'Offline Changes' }}
+      />
+      <Stack.Screen 
+        name="ImportAppointments" 
+        component={ImportAppointments} 
+        options={{ title: 'Import Appointments' }}
+      />
     </Stack.Navigator>
   );
 }
@@ -56,6 +90,62 @@ function DoctorStack() {
         component={DoctorScheduleSetup} 
         options={{ title: 'Schedule Setup' }}
       />
+      <Stack.Screen 
+        name="DoctorWaitlist" 
+        component={DoctorWaitlist} 
+        options={{ title: 'Waitlist' }}
+      />
+      <Stack.Screen 
+        name="DoctorBusyCalendars" 
+        component={DoctorBusyCalendars} 
+        options={{ title: 'Busy Calendars' }}
+      />
+    </Stack.Navigator>
+  );
+}
+
+// Auth Stack Navigator (signed out)
+function AuthStack() {
+  return (
+    <Stack.Navigator>
+      <Stack.Screen 
+        name="SignIn" 
+        component={SignIn} 
+        options={{ headerShown: false }}
+      />
+      <Stack.Screen 
+        name="Register" 
+        component={Register} 
+        options={{ title: 'Create Account' }}
+      />
+    </Stack.Navigator>
+  );
+}
+
+// Account Stack Navigator (doctors and clinic admins)
+function AccountStack() {
+  return (
+    <Stack.Navigator>
+      <Stack.Screen 
+        name="Account" 
+        component={Account} 
+        options={{ title: 'Account' }}
+      />
+      <Stack.Screen 
+        name="Register" 
+        component={Register} 
+        options={{ title: 'New Account' }}
+      />
+      <Stack.Screen 
+        name="PendingChanges" 
+        component={PendingChanges} 
+        options={{ title: 'Offline Changes' }}
+      />
+      <Stack.Screen 
+        name="ClinicPolicySettings" 
+        component={ClinicPolicySettings} 
+        options={{ title: 'Clinic Policy' }}
+      />
     </Stack.Navigator>
   );
 }
@@ -70,8 +160,11 @@ function LoadingScreen() {
   );
 }
 
-// Main Tab Navigator
-function MainTabs() {
+// Main Tab Navigator - only the tabs the signed-in role may use are mounted
+function MainTabs({ role }: { role: UserRole }) {
+  const { notifications } = useAppState();
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
   return (
     <Tab.Navigator
       screenOptions={{
@@ -80,43 +173,82 @@ function MainTabs() {
         headerShown: false,
       }}
     >
-      <Tab.Screen 
-        name="OwnerTab" 
-        component={OwnerStack}
-        options={{
-          title: 'Find Doctor',
-          tabBarIcon: ({ color, size }) => (
-            <Text style={{ color, fontSize: size }}>🔍</Text>
-          ),
-        }}
-      />
-      <Tab.Screen 
-        name="MyAppointments" 
-        component={MyAppointments}
-        options={{
-          title: 'My Appointments',
-          tabBarIcon: ({ color, size }) => (
-            <Text style={{ color, fontSize: size }}>📅</Text>
-          ),
-        }}
-      />
-      <Tab.Screen 
-        name="DoctorTab" 
-        component={DoctorStack}
-        options={{
-          title: 'Doctor Portal',
-          tabBarIcon: ({ color, size }) => (
-            <Text style={{ color, fontSize: size }}>👨‍⚕️</Text>
-          ),
-        }}
-      />
+      {canAccessOwnerPortal(role) && (
+        <>
+          <Tab.Screen 
+            name="OwnerTab" 
+            component={OwnerStack}
+            options={{
+              title: 'Find Doctor',
+              tabBarIcon: ({ color, size }) => (
+                <Text style={{ color, fontSize: size }}>🔍</Text>
+              ),
+            }}
+          />
+          <Tab.Screen 
+            name="MyAppointments" 
+            component={MyAppointments}
+            options={{
+              title: 'My Appointments',
+              tabBarIcon: ({ color, size }) => (
+                <Text style={{ color, fontSize: size }}>📅</Text>
+              ),
+            }}
+          />
+          <Tab.Screen 
+            name="Waitlist" 
+            component={Waitlist}
+            options={{
+              title: 'Waitlist',
+              tabBarBadge: unreadCount > 0 ? unreadCount : undefined,
+              tabBarIcon: ({ color, size }) => (
+                <Text style={{ color, fontSize: size }}>⏳</Text>
+              ),
+            }}
+          />
+          <Tab.Screen 
+            name="OwnerProfile" 
+            component={OwnerProfile}
+            options={{
+              title: 'Profile',
+              tabBarIcon: ({ color, size }) => (
+                <Text style={{ color, fontSize: size }}>👤</Text>
+              ),
+            }}
+          />
+        </>
+      )}
+      {canAccessDoctorPortal(role) && (
+        <>
+          <Tab.Screen 
+            name="DoctorTab" 
+            component={DoctorStack}
+            options={{
+              title: 'Doctor Portal',
+              tabBarIcon: ({ color, size }) => (
+                <Text style={{ color, fontSize: size }}>👨‍⚕️</Text>
+              ),
+            }}
+          />
+          <Tab.Screen 
+            name="AccountTab" 
+            component={AccountStack}
+            options={{
+              title: 'Account',
+              tabBarIcon: ({ color, size }) => (
+                <Text style={{ color, fontSize: size }}>👤</Text>
+              ),
+            }}
+          />
+        </>
+      )}
     </Tab.Navigator>
   );
 }
 
 // Main App Navigator
 export default function AppNavigator() {
-  const { initialize, isInitialized, isLoading } = useAppState();
+  const { initialize, isInitialized, isLoading, currentUser } = useAppState();
 
   useEffect(() => {
     initialize();
@@ -128,7 +260,7 @@ export default function AppNavigator() {
 
   return (
     <NavigationContainer>
-      <MainTabs />
+      {currentUser ? <MainTabs role={currentUser.role} /> : <AuthStack />}
     </NavigationContainer>
   );
 }
@@ -0,0 +1,129 @@
+import React from 'react';
+import { View, Text, StyleSheet } from 'react-native';
+import { AppointmentHistoryEntry } from '../../domain/entities/Appointment';
+import { UserRole } from '../../domain/entities/User';
+import { getStatusLabel } from '../../domain/policies/appointmentLifecycle';
+import { formatDateTime } from '../../shared/utils/date';
+
+interface AppointmentTimelineProps {
+  history: AppointmentHistoryEntry[];
+  currentUserId?: string; // Changes by this user are shown as "You"
+}
+
+const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Owner',
+  doctor: 'Doctor',
+  clinic_admin: 'Clinic',
+};
+
+const describeEntry = (entry: AppointmentHistoryEntry): { title: string; detail?: string } => {
+  switch (entry.type) {
+    case 'created':
+      return { title: 'Booked' };
+    case 'rescheduled':
+      return {
+        title: 'Rescheduled',
+        detail: `${formatDateTime(entry.fromStartISO)} → ${formatDateTime(entry.toStartISO)}`
+      };
+    case 'statusChanged':
+      return {
+        title: getStatusLabel(entry.to),
+        detail: entry.reason ? `Reason: ${entry.reason}` : undefined
+      };
+    case 'notesChanged':
+      return {
+        title: !entry.from ? 'Notes added' : entry.to ? 'Notes edited' : 'Notes removed',
+        detail: entry.to
+      };
+  }
+};
+
+export default function AppointmentTimeline({ history, currentUserId }: AppointmentTimelineProps) {
+  if (history.length === 0) {
+    return <Text style={styles.emptyText}>No changes recorded.</Text>;
+  }
+
+  const getAuthor = (entry: AppointmentHistoryEntry) => {
+    if (currentUserId && entry.changedBy === currentUserId) return 'You';
+    return entry.changedByRole ? ROLE_LABELS[entry.changedByRole] : 'Unknown';
+  };
+
+  return (
+    <View style={styles.timeline}>
+      {history.map((entry, index) => {
+        const { title, detail } = describeEntry(entry);
+        const isLast = index === history.length - 1;
+
+        return (
+          <View key={entry.id} style={styles.entry}>
+            <View style={styles.marker}>
+              <View style={styles.dot} />
+              {!isLast && <View style={styles.line} />}
+            </View>
+            <View style={styles.entryContent}>
+              <Text style={styles.entryTitle}>{title}</Text>
+              {detail && <Text style={styles.entryDetail}>{detail}</Text>}
+              <Text style={styles.entryMeta}>
+                {formatDateTime(entry.changedAt)} • {getAuthor(entry)}
+              </Text>
+            </View>
+          </View>
+        );
+      })}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  timeline: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 12,
+  },
+  entry: {
+    flexDirection: 'row',
+  },
+  marker: {
+    width: 16,
+    alignItems: 'center',
+    marginRight: 8,
+  },
+  dot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+    marginTop: 5,
+  },
+  line: {
+    flex: 1,
+    width: 2,
+    backgroundColor: '#C7C7CC',
+    marginTop: 2,
+  },
+  entryContent: {
+    flex: 1,
+    paddingBottom: 12,
+  },
+  entryTitle: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  entryDetail: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    marginTop: 2,
+  },
+  entryMeta: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  emptyText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+});
@@ -3,18 +3,30 @@ import { View, Text, ScrollView, TouchableOpacity, StyleSheet, ActivityIndicator
 import { TimeSlot as TimeSlotType } from '../../domain/entities/Doctor';
 import TimeSlot from './TimeSlot';
 import { formatDate, addDays, isSameDay, getRelativeDateString } from '../../shared/utils/date';
+import { getDeviceTimeZone, getTimeZoneAbbreviation, isSameOffset } from '../../shared/utils/timezone';
 
 interface CalendarViewProps {
   doctorId: string;
   onSlotSelect: (slot: TimeSlotType) => void;
   selectedSlot?: TimeSlotType;
-  getAvailableSlots: (doctorId: string, fromDate: string, toDate: string) => Promise<TimeSlotType[]>;
+  visitTypeId?: string;
+  clinicTimeZone?: string; // The doctor's timezone, labelled when it differs from the device's
+  refreshKey?: number; // Change to reload the slots, e.g. after a slot was taken
+  getAvailableSlots: (
+    doctorId: string,
+    fromDate: string,
+    toDate: string,
+    visitTypeId?: string
+  ) => Promise<TimeSlotType[]>;
 }
 
 export default function CalendarView({ 
   doctorId, 
   onSlotSelect, 
   selectedSlot,
+  visitTypeId,
+  clinicTimeZone,
+  refreshKey,
   getAvailableSlots 
 }: CalendarViewProps) {
   const [selectedDate, setSelectedDate] = useState(new Date());
@@ -31,10 +43,10 @@ export default function CalendarView({
     setDates(nextDates);
   }, []);
 
-  // Load slots when date or doctor changes
+  // Load slots when date, doctor or visit type changes
   useEffect(() => {
     loadSlotsForDate(selectedDate);
-  }, [selectedDate, doctorId]);
+  }, [selectedDate, doctorId, visitTypeId, refreshKey]);
 
   const loadSlotsForDate = async (date: Date) => {
     setIsLoading(true);
@@ -48,7 +60,8 @@ export default function CalendarView({
       const slots = await getAvailableSlots(
         doctorId,
         startOfDay.toISOString(),
-        endOfDay.toISOString()
+        endOfDay.toISOString(),
+        visitTypeId
       );
 
       setAvailableSlots(slots);
@@ -130,11 +143,20 @@ export default function CalendarView({
       );
     }
 
+    const showsClinicTime = !!clinicTimeZone &&
+      !isSameOffset(selectedDate, clinicTimeZone, getDeviceTimeZone());
+
     return (
       <View style={styles.slotsContainer}>
         <Text style={styles.slotsHeader}>
           Available times for {formatDate(selectedDate)}
         </Text>
+        {showsClinicTime && (
+          <Text style={styles.timeZoneNote}>
+            Times are shown in your timezone ({getTimeZoneAbbreviation(selectedDate, getDeviceTimeZone())}),
+            with the clinic's local time ({getTimeZoneAbbreviation(selectedDate, clinicTimeZone)}) below
+          </Text>
+        )}
         <View style={styles.slotsGrid}>
           {availableSlots.map((slot, index) => (
             <TimeSlot
@@ -142,6 +164,7 @@ export default function CalendarView({
               slot={slot}
               onPress={() => onSlotSelect(slot)}
               isSelected={selectedSlot?.startISO === slot.startISO}
+              clinicTimeZone={clinicTimeZone}
             />
           ))}
         </View>
@@ -259,6 +282,12 @@ const styles = StyleSheet.create({
     color: '#1C1C1E',
     marginBottom: 16,
   },
+  timeZoneNote: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: -8,
+    marginBottom: 16,
+  },
   slotsGrid: {
     flexDirection: 'row',
     flexWrap: 'wrap',
@@ -1,15 +1,23 @@
 import React from 'react';
 import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
-import { Doctor } from '../../domain/entities/Doctor';
-import { formatTime } from '../../shared/utils/date';
+import { Doctor, TimeSlot } from '../../domain/entities/Doctor';
+import { formatTime, getRelativeDateString } from '../../shared/utils/date';
 
 interface DoctorCardProps {
   doctor: Doctor;
   onPress: () => void;
   hasAvailability?: boolean;
+  nextAvailableSlot?: TimeSlot; // First bookable slot, from GetAvailableSlotsUseCase
+  isCheckingAvailability?: boolean;
 }
 
-export default function DoctorCard({ doctor, onPress, hasAvailability = true }: DoctorCardProps) {
+export default function DoctorCard({
+  doctor,
+  onPress,
+  hasAvailability = true,
+  nextAvailableSlot,
+  isCheckingAvailability = false
+}: DoctorCardProps) {
   const renderSpecialties = () => {
     return doctor.specialties.map((specialty, index) => (
       <View key={index} style={styles.specialtyTag}>
@@ -23,12 +31,15 @@ export default function DoctorCard({ doctor, onPress, hasAvailability = true }:
       return <Text style={styles.noAvailability}>No availability set</Text>;
     }
 
-    const nextAvailability = doctor.weeklyAvailability[0];
-    const weekdays = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+    if (!nextAvailableSlot) {
+      return isCheckingAvailability
+        ? <Text style={styles.noAvailability}>Checking availability...</Text>
+        : null;
+    }
     
     return (
       <Text style={styles.availabilityText}>
-        Next: {weekdays[nextAvailability.weekday]} {nextAvailability.startTime}-{nextAvailability.endTime}
+        Next: {getRelativeDateString(nextAvailableSlot.startISO)} at {formatTime(nextAvailableSlot.startISO)}
       </Text>
     );
   };
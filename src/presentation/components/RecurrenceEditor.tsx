@@ -0,0 +1,260 @@
+import React, { useState } from 'react';
+import { View, Text, TextInput, TouchableOpacity, ScrollView, StyleSheet } from 'react-native';
+import { RecurrenceFrequency, RecurrenceOptions } from '../../shared/utils/rruleHelpers';
+import { getShortWeekdayName } from '../../shared/utils/date';
+
+type RecurrenceEnd = 'never' | 'date' | 'count';
+
+interface RecurrenceEditorProps {
+  value: RecurrenceOptions;
+  onChange: (value: RecurrenceOptions) => void;
+}
+
+const FREQUENCIES: { value: RecurrenceFrequency; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+const INTERVALS = [1, 2, 3, 4, 6, 8];
+
+const MONTHLY_POSITIONS = [
+  { value: 1, label: 'First' },
+  { value: 2, label: 'Second' },
+  { value: 3, label: 'Third' },
+  { value: 4, label: 'Fourth' },
+  { value: -1, label: 'Last' },
+];
+
+const ENDS: { value: RecurrenceEnd; label: string }[] = [
+  { value: 'never', label: 'Never' },
+  { value: 'date', label: 'On Date' },
+  { value: 'count', label: 'After' },
+];
+
+const WEEKDAYS = [0, 1, 2, 3, 4, 5, 6];
+
+export default function RecurrenceEditor({ value, onChange }: RecurrenceEditorProps) {
+  const [end, setEnd] = useState<RecurrenceEnd>(
+    value.endDate !== undefined ? 'date' : value.count !== undefined ? 'count' : 'never'
+  );
+  const [countText, setCountText] = useState(value.count !== undefined ? String(value.count) : '');
+
+  const update = (changes: Partial<RecurrenceOptions>) => {
+    onChange({ ...value, ...changes });
+  };
+
+  const handleFrequencyChange = (frequency: RecurrenceFrequency) => {
+    update({
+      frequency,
+      weekdays: value.weekdays.slice(0, frequency === 'monthly' ? 1 : undefined),
+      monthlyPosition: frequency === 'monthly' ? value.monthlyPosition ?? 1 : undefined
+    });
+  };
+
+  const handleWeekdayPress = (weekday: number) => {
+    if (value.frequency === 'monthly') {
+      update({ weekdays: [weekday] });
+      return;
+    }
+
+    const weekdays = value.weekdays.includes(weekday)
+      ? value.weekdays.filter(day => day !== weekday)
+      : [...value.weekdays, weekday].sort((a, b) => a - b);
+    update({ weekdays });
+  };
+
+  const handleEndChange = (nextEnd: RecurrenceEnd) => {
+    setEnd(nextEnd);
+    update({
+      endDate: nextEnd === 'date' ? value.endDate ?? value.startDate ?? '' : undefined,
+      count: nextEnd === 'count' && countText ? Number(countText) : undefined
+    });
+  };
+
+  const handleCountChange = (text: string) => {
+    setCountText(text);
+    update({ count: text ? Number(text) : undefined });
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => {
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.chip, isSelected && styles.selectedChip]}
+        onPress={onPress}
+      >
+        <Text style={[styles.chipText, isSelected && styles.selectedChipText]}>
+          {label}
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const unit = value.frequency === 'monthly' ? 'month' : 'week';
+
+  return (
+    <View style={styles.container}>
+      <View style={styles.row}>
+        <Text style={styles.label}>Repeats</Text>
+        <View style={styles.chipRow}>
+          {FREQUENCIES.map(option =>
+            renderChip(option.value, option.label, value.frequency === option.value, () =>
+              handleFrequencyChange(option.value)
+            )
+          )}
+        </View>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Every</Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {INTERVALS.map(interval =>
+            renderChip(
+              String(interval),
+              interval === 1 ? `1 ${unit}` : `${interval} ${unit}s`,
+              value.interval === interval,
+              () => update({ interval })
+            )
+          )}
+        </ScrollView>
+      </View>
+
+      {value.frequency === 'monthly' && (
+        <View style={styles.row}>
+          <Text style={styles.label}>On The</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {MONTHLY_POSITIONS.map(position =>
+              renderChip(
+                String(position.value),
+                position.label,
+                value.monthlyPosition === position.value,
+                () => update({ monthlyPosition: position.value })
+              )
+            )}
+          </ScrollView>
+        </View>
+      )}
+
+      <View style={styles.row}>
+        <Text style={styles.label}>
+          {value.frequency === 'monthly' ? 'Day of Week' : 'Days of Week'}
+        </Text>
+        <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+          {WEEKDAYS.map(weekday =>
+            renderChip(
+              String(weekday),
+              getShortWeekdayName(weekday),
+              value.weekdays.includes(weekday),
+              () => handleWeekdayPress(weekday)
+            )
+          )}
+        </ScrollView>
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Starts (YYYY-MM-DD)</Text>
+        <TextInput
+          style={styles.textInput}
+          value={value.startDate || ''}
+          onChangeText={(text) => update({ startDate: text || undefined })}
+          placeholder="2025-01-06"
+          autoCapitalize="none"
+        />
+      </View>
+
+      <View style={styles.row}>
+        <Text style={styles.label}>Ends</Text>
+        <View style={styles.chipRow}>
+          {ENDS.map(option =>
+            renderChip(option.value, option.label, end === option.value, () =>
+              handleEndChange(option.value)
+            )
+          )}
+        </View>
+
+        {end === 'date' && (
+          <TextInput
+            style={styles.textInput}
+            value={value.endDate || ''}
+            onChangeText={(text) => update({ endDate: text })}
+            placeholder="2025-06-30"
+            autoCapitalize="none"
+          />
+        )}
+
+        {end === 'count' && (
+          <View style={styles.countRow}>
+            <TextInput
+              style={[styles.textInput, styles.countInput]}
+              value={countText}
+              onChangeText={handleCountChange}
+              placeholder="10"
+              keyboardType="number-pad"
+            />
+            <Text style={styles.countLabel}>occurrences</Text>
+          </View>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    marginTop: 4,
+  },
+  row: {
+    marginBottom: 12,
+  },
+  label: {
+    fontSize: 14,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 16,
+    paddingHorizontal: 12,
+    paddingVertical: 6,
+    marginRight: 8,
+    marginBottom: 4,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1C1C1E',
+    marginTop: 4,
+  },
+  countRow: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  countInput: {
+    width: 80,
+  },
+  countLabel: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginLeft: 8,
+    marginTop: 4,
+  },
+});
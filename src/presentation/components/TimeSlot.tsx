@@ -2,17 +2,28 @@ import React from 'react';
 import { TouchableOpacity, Text, StyleSheet } from 'react-native';
 import { TimeSlot as TimeSlotType } from '../../domain/entities/Doctor';
 import { formatTime } from '../../shared/utils/date';
+import { formatTimeInZone, isSameOffset, getDeviceTimeZone } from '../../shared/utils/timezone';
 
 interface TimeSlotProps {
   slot: TimeSlotType;
   onPress: () => void;
   isSelected?: boolean;
   isDisabled?: boolean;
+  clinicTimeZone?: string; // Shown alongside the device time when it differs
 }
 
-export default function TimeSlot({ slot, onPress, isSelected = false, isDisabled = false }: TimeSlotProps) {
+export default function TimeSlot({
+  slot,
+  onPress,
+  isSelected = false,
+  isDisabled = false,
+  clinicTimeZone
+}: TimeSlotProps) {
   const startTime = formatTime(slot.startISO);
   const endTime = formatTime(slot.endISO);
+  const clinicTime = clinicTimeZone && !isSameOffset(slot.startISO, clinicTimeZone, getDeviceTimeZone())
+    ? formatTimeInZone(slot.startISO, clinicTimeZone)
+    : null;
 
   return (
     <TouchableOpacity
@@ -38,6 +49,15 @@ export default function TimeSlot({ slot, onPress, isSelected = false, isDisabled
       ]}>
         {endTime}
       </Text>
+      {clinicTime && (
+        <Text style={[
+          styles.durationText,
+          isSelected && styles.selectedDurationText,
+          isDisabled && styles.disabledDurationText,
+        ]}>
+          {clinicTime}
+        </Text>
+      )}
     </TouchableOpacity>
   );
 }
@@ -0,0 +1,205 @@
+import React from 'react';
+import { View, Text, TouchableOpacity, StyleSheet } from 'react-native';
+import { WaitlistEntry, WaitlistStatus } from '../../domain/entities/Waitlist';
+import { formatDate, formatDateTime, formatTime, parseLocalDate } from '../../shared/utils/date';
+
+interface WaitlistEntryCardProps {
+  entry: WaitlistEntry;
+  showOwner?: boolean; // Doctor portal: show who is waiting
+  onAccept?: () => void;
+  onDecline?: () => void;
+  onRemove?: () => void;
+}
+
+const STATUS_COLORS: Record<WaitlistStatus, string> = {
+  waiting: '#007AFF',
+  offered: '#34C759',
+  booked: '#8E8E93',
+  expired: '#FF3B30',
+  cancelled: '#8E8E93',
+};
+
+const STATUS_LABELS: Record<WaitlistStatus, string> = {
+  waiting: 'Waiting',
+  offered: 'Slot Held',
+  booked: 'Booked',
+  expired: 'Offer Expired',
+  cancelled: 'Removed',
+};
+
+export default function WaitlistEntryCard({
+  entry,
+  showOwner = false,
+  onAccept,
+  onDecline,
+  onRemove
+}: WaitlistEntryCardProps) {
+  const isActive = entry.status === 'waiting' || entry.status === 'offered';
+  const dateRange = entry.fromDate === entry.toDate
+    ? formatDate(parseLocalDate(entry.fromDate))
+    : `${formatDate(parseLocalDate(entry.fromDate))} – ${formatDate(parseLocalDate(entry.toDate))}`;
+
+  const renderOffer = () => {
+    if (entry.status !== 'offered' || !entry.offer) return null;
+
+    return (
+      <View style={styles.offerContainer}>
+        <Text style={styles.offerTitle}>{formatDateTime(entry.offer.startISO)}</Text>
+        <Text style={styles.offerText}>Held until {formatTime(entry.offer.expiresAt)}</Text>
+
+        {(onAccept || onDecline) && (
+          <View style={styles.offerActions}>
+            {onDecline && (
+              <TouchableOpacity style={styles.declineButton} onPress={onDecline}>
+                <Text style={styles.declineButtonText}>Decline</Text>
+              </TouchableOpacity>
+            )}
+            {onAccept && (
+              <TouchableOpacity style={styles.acceptButton} onPress={onAccept}>
+                <Text style={styles.acceptButtonText}>Book This Time</Text>
+              </TouchableOpacity>
+            )}
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  return (
+    <View style={[styles.card, !isActive && styles.inactiveCard]}>
+      <View style={styles.header}>
+        <View style={styles.info}>
+          <Text style={styles.title}>
+            {showOwner ? `${entry.petName} (${entry.ownerName})` : entry.doctorName}
+          </Text>
+          <Text style={styles.subtitle}>
+            {showOwner ? entry.doctorName : entry.petName} • {entry.visitTypeName || 'Visit'}
+          </Text>
+        </View>
+        <View style={[styles.statusBadge, { backgroundColor: STATUS_COLORS[entry.status] }]}>
+          <Text style={styles.statusText}>{STATUS_LABELS[entry.status]}</Text>
+        </View>
+      </View>
+
+      <Text style={styles.detailText}>Dates: {dateRange}</Text>
+      {entry.disease && <Text style={styles.detailText}>Reason: {entry.disease}</Text>}
+
+      {renderOffer()}
+
+      {isActive && onRemove && (
+        <TouchableOpacity style={styles.removeButton} onPress={onRemove}>
+          <Text style={styles.removeButtonText}>
+            {showOwner ? 'Remove from Waitlist' : 'Leave Waitlist'}
+          </Text>
+        </TouchableOpacity>
+      )}
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  card: {
+    backgroundColor: '#FFFFFF',
+    borderRadius: 12,
+    padding: 16,
+    marginHorizontal: 16,
+    marginVertical: 8,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  inactiveCard: {
+    opacity: 0.6,
+  },
+  header: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'flex-start',
+    marginBottom: 8,
+  },
+  info: {
+    flex: 1,
+    marginRight: 8,
+  },
+  title: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  statusBadge: {
+    borderRadius: 12,
+    paddingHorizontal: 8,
+    paddingVertical: 4,
+  },
+  statusText: {
+    color: '#FFFFFF',
+    fontSize: 12,
+    fontWeight: '600',
+  },
+  detailText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    marginTop: 4,
+  },
+  offerContainer: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    padding: 12,
+    marginTop: 12,
+  },
+  offerTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  offerText: {
+    fontSize: 14,
+    color: '#FF9500',
+    marginTop: 2,
+  },
+  offerActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    marginTop: 12,
+  },
+  declineButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  declineButtonText: {
+    color: '#8E8E93',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  acceptButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+  },
+  acceptButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  removeButton: {
+    alignSelf: 'flex-start',
+    marginTop: 12,
+  },
+  removeButtonText: {
+    color: '#FF3B30',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+});
@@ -1,58 +1,226 @@
 import { create } from 'zustand';
 import { Doctor } from '../../domain/entities/Doctor';
-import { Appointment } from '../../domain/entities/Appointment';
-import { LocalStorageDataSource } from '../../data/datasources/LocalStorageDataSource';
+import { Appointment, AppointmentCreate, AppointmentStatus } from '../../domain/entities/Appointment';
+import { Pet } from '../../domain/entities/Pet';
+import { Owner } from '../../domain/entities/Owner';
+import { Actor, UserAccount } from '../../domain/entities/User';
+import { WaitlistEntry } from '../../domain/entities/Waitlist';
+import { AppNotification } from '../../domain/entities/Notification';
+import { QuarantinedRecord } from '../../domain/entities/QuarantinedRecord';
+import { ClinicPolicy } from '../../domain/entities/ClinicPolicy';
+import {
+  CommandConflict,
+  PendingCommand,
+  PendingCommandInput,
+  ScheduleFields
+} from '../../domain/entities/PendingCommand';
 import { AppointmentRepositoryImpl } from '../../data/repositories/AppointmentRepositoryImpl';
+import { PetRepositoryImpl } from '../../data/repositories/PetRepositoryImpl';
+import { OwnerRepositoryImpl } from '../../data/repositories/OwnerRepositoryImpl';
+import { UserRepositoryImpl } from '../../data/repositories/UserRepositoryImpl';
+import { NotificationRepositoryImpl } from '../../data/repositories/NotificationRepositoryImpl';
 import { GetAvailableSlotsUseCase } from '../../domain/usecases/GetAvailableSlotsUseCase';
-import { BookAppointmentUseCase } from '../../domain/usecases/BookAppointmentUseCase';
-import { CancelAppointmentUseCase } from '../../domain/usecases/CancelAppointmentUseCase';
+import { BookAppointmentUseCase, BookingResult } from '../../domain/usecases/BookAppointmentUseCase';
+import { CancelAppointmentUseCase, CancelResult } from '../../domain/usecases/CancelAppointmentUseCase';
+import { StatusChangeResult } from '../../domain/usecases/ChangeAppointmentStatusUseCase';
+import { NotesUpdateResult } from '../../domain/usecases/UpdateAppointmentNotesUseCase';
+import { OwnerProfileResult } from '../../domain/usecases/UpdateOwnerProfileUseCase';
+import { SignInUseCase, SignInResult } from '../../domain/usecases/SignInUseCase';
+import {
+  RegisterUserUseCase,
+  RegisterUserRequest,
+  RegisterResult
+} from '../../domain/usecases/RegisterUserUseCase';
+import {
+  UpdateDoctorScheduleUseCase,
+  ScheduleUpdateResult
+} from '../../domain/usecases/UpdateDoctorScheduleUseCase';
+import { ManageWaitlistUseCase } from '../../domain/usecases/ManageWaitlistUseCase';
+import { ManageSlotHoldsUseCase } from '../../domain/usecases/ManageSlotHoldsUseCase';
+import { CommandOutcome, CommandResult } from '../../domain/usecases/ManagePendingCommandsUseCase';
+import { CalendarImportItem } from '../../domain/usecases/PreviewCalendarImportUseCase';
+import {
+  BusyCalendarImportResult,
+  BusyCalendarRemoveResult,
+  BusyCalendarSummary
+} from '../../domain/usecases/ImportBusyCalendarUseCase';
+import { ClinicPolicyResult } from '../../domain/usecases/ManageClinicPolicyUseCase';
+import { QuarantineResult } from '../../domain/usecases/ManageQuarantineUseCase';
+import { DEFAULT_CLINIC_POLICY } from '../../domain/policies/clinicPolicy';
+import { SyncStatus } from '../../data/sync/SyncEngine';
+import { getAppContainer } from '../../di/appContainer';
+
+/**
+ * What became of a booking, cancellation or schedule change
+ * Pending: saved on the device and sent on the next sync that reaches the server.
+ */
+export type CommandSubmission<R extends CommandResult = CommandResult> =
+  | { pending: true }
+  | { pending: false; result: R };
 
 interface AppState {
   // Data
   doctors: Doctor[];
   appointments: Appointment[];
+  pets: Pet[];
+  owners: Owner[];
+  users: UserAccount[];
+  waitlist: WaitlistEntry[]; // Entries the signed-in user may see
+  notifications: AppNotification[]; // Notifications for the signed-in owner, newest first
+  quarantinedRecords: QuarantinedRecord[]; // Invalid records set aside; loaded for clinic admins
+  pendingCommands: PendingCommand[]; // The signed-in user's changes waiting for the sync server
+  commandConflicts: CommandConflict[]; // The signed-in user's changes that could not be applied as made
+  clinicPolicy: ClinicPolicy; // Cancellation and rescheduling rules, as saved by a clinic admin
+  
+  // Session
+  currentUser: UserAccount | null;
+  currentOwner: Owner | null; // Owner profile of the signed-in owner account
+  actor: Actor | null;
   
   // Loading states
   isLoading: boolean;
   isInitialized: boolean;
+  syncStatus: SyncStatus | null; // Null when the app runs without a sync server
   
   // Use cases
   getAvailableSlotsUseCase: GetAvailableSlotsUseCase | null;
   bookAppointmentUseCase: BookAppointmentUseCase | null;
   cancelAppointmentUseCase: CancelAppointmentUseCase | null;
+  signInUseCase: SignInUseCase | null;
+  registerUserUseCase: RegisterUserUseCase | null;
+  updateDoctorScheduleUseCase: UpdateDoctorScheduleUseCase | null;
+  manageWaitlistUseCase: ManageWaitlistUseCase | null;
+  manageSlotHoldsUseCase: ManageSlotHoldsUseCase | null;
   
-  // Repository
+  // Repositories
   repository: AppointmentRepositoryImpl | null;
+  petRepository: PetRepositoryImpl | null;
+  ownerRepository: OwnerRepositoryImpl | null;
+  userRepository: UserRepositoryImpl | null;
+  notificationRepository: NotificationRepositoryImpl | null;
   
   // Actions
   initialize: () => Promise<void>;
   loadDoctors: () => Promise<void>;
   loadAppointments: () => Promise<void>;
+  loadPets: () => Promise<void>;
+  loadOwners: () => Promise<void>;
+  loadUsers: () => Promise<void>;
+  loadSession: () => Promise<void>;
+  loadWaitlist: () => Promise<void>;
+  loadNotifications: () => Promise<void>;
+  markNotificationsRead: () => Promise<void>;
+  loadQuarantine: () => Promise<void>;
+  loadClinicPolicy: () => Promise<void>;
+  updateClinicPolicy: (policy: ClinicPolicy) => Promise<ClinicPolicyResult>;
+  getNoShowScores: (ownerIds: string[]) => Promise<Record<string, number>>;
+  syncWithServer: () => Promise<CommandOutcome[]>;
+  loadPendingCommands: () => Promise<void>;
+  submitCommand: (input: PendingCommandInput) => Promise<CommandSubmission>;
+  bookAppointment: (appointment: AppointmentCreate, holdId?: string) => Promise<CommandSubmission<BookingResult>>;
+  cancelAppointment: (appointmentId: string, reason?: string) => Promise<CommandSubmission<CancelResult>>;
+  changeAppointmentStatus: (
+    appointmentId: string,
+    status: AppointmentStatus,
+    reason?: string
+  ) => Promise<CommandSubmission<StatusChangeResult>>;
+  updateAppointmentNotes: (appointmentId: string, notes: string) => Promise<CommandSubmission<NotesUpdateResult>>;
+  updateDoctorSchedule: (
+    doctorId: string,
+    changes: ScheduleFields,
+    cancelAffectedAppointments: boolean
+  ) => Promise<CommandSubmission<ScheduleUpdateResult>>;
+  resolveConflict: (
+    conflictId: string,
+    slot?: { startISO: string; endISO: string }
+  ) => Promise<CommandSubmission | null>;
+  previewCalendarImport: (icalString: string, defaultPetId?: string) => Promise<CalendarImportItem[]>;
+  importAppointments: (items: CalendarImportItem[]) => Promise<Array<CommandSubmission<BookingResult>>>;
+  exportDoctorAvailability: (doctorId: string) => Promise<string>;
+  exportDoctorFreeBusy: (doctorId: string, fromISO: string, toISO: string) => Promise<string>;
+  getBusyCalendars: (doctorId: string) => Promise<BusyCalendarSummary[]>;
+  importBusyCalendar: (doctorId: string, icalString: string, source?: string) => Promise<BusyCalendarImportResult>;
+  removeBusyCalendar: (doctorId: string, source: string) => Promise<BusyCalendarRemoveResult>;
+  dismissQuarantinedRecord: (id: string) => Promise<QuarantineResult>;
+  signIn: (userId: string, secret: string) => Promise<SignInResult>;
+  signOut: () => Promise<void>;
+  register: (request: RegisterUserRequest) => Promise<RegisterResult>;
+  saveOwnerProfile: (owner: Owner) => Promise<OwnerProfileResult>;
   refreshData: () => Promise<void>;
   setLoading: (loading: boolean) => void;
 }
 
-// Create the data source and repository instances
-const dataSource = new LocalStorageDataSource();
-const repository = new AppointmentRepositoryImpl(dataSource);
+// Repositories and use cases come from the container, so the data source can be swapped
+const {
+  migrationRunner,
+  syncEngine,
+  appointmentRepository: repository,
+  petRepository,
+  ownerRepository,
+  userRepository,
+  waitlistRepository,
+  notificationRepository,
+  getAvailableSlotsUseCase,
+  bookAppointmentUseCase,
+  cancelAppointmentUseCase,
+  signInUseCase,
+  registerUserUseCase,
+  updateDoctorScheduleUseCase,
+  updateOwnerProfileUseCase,
+  manageWaitlistUseCase,
+  manageSlotHoldsUseCase,
+  managePendingCommandsUseCase,
+  previewCalendarImportUseCase,
+  exportDoctorCalendarUseCase,
+  importBusyCalendarUseCase,
+  manageClinicPolicyUseCase,
+  manageQuarantineUseCase
+} = getAppContainer();
 
-// Create use case instances
-const getAvailableSlotsUseCase = new GetAvailableSlotsUseCase(repository);
-const bookAppointmentUseCase = new BookAppointmentUseCase(repository, getAvailableSlotsUseCase);
-const cancelAppointmentUseCase = new CancelAppointmentUseCase(repository);
+/**
+ * Builds the authorization actor for a signed-in user
+ */
+const toActor = (user: UserAccount): Actor => ({
+  userId: user.id,
+  role: user.role,
+  ownerId: user.ownerId,
+  doctorId: user.doctorId
+});
 
 export const useAppState = create<AppState>((set, get) => ({
   // Initial state
   doctors: [],
   appointments: [],
+  pets: [],
+  owners: [],
+  users: [],
+  waitlist: [],
+  notifications: [],
+  quarantinedRecords: [],
+  pendingCommands: [],
+  commandConflicts: [],
+  clinicPolicy: DEFAULT_CLINIC_POLICY,
+  currentUser: null,
+  currentOwner: null,
+  actor: null,
   isLoading: false,
   isInitialized: false,
+  syncStatus: null,
   
   // Use cases
   getAvailableSlotsUseCase,
   bookAppointmentUseCase,
   cancelAppointmentUseCase,
+  signInUseCase,
+  registerUserUseCase,
+  updateDoctorScheduleUseCase,
+  manageWaitlistUseCase,
+  manageSlotHoldsUseCase,
   repository,
+  petRepository,
+  ownerRepository,
+  userRepository,
+  notificationRepository,
   
   // Actions
   initialize: async () => {
@@ -62,12 +230,31 @@ export const useAppState = create<AppState>((set, get) => ({
     set({ isLoading: true });
     
     try {
+      // Bring data saved by older versions of the app up to the current schema
+      await migrationRunner?.run();
+      
+      // Sync before seeding, so a device joining a clinic takes its data instead of the samples
+      await state.syncWithServer();
+      
       // Seed initial data if needed
       await repository.seedInitialData();
       
+      // Release waitlist and booking holds that expired while the app was closed
+      await manageWaitlistUseCase.expireOffers();
+      await manageSlotHoldsUseCase.sweepExpiredHolds();
+      
       // Load initial data
       await state.loadDoctors();
       await state.loadAppointments();
+      await state.loadPets();
+      await state.loadOwners();
+      await state.loadUsers();
+      await state.loadSession();
+      await state.loadWaitlist();
+      await state.loadNotifications();
+      await state.loadQuarantine();
+      await state.loadPendingCommands();
+      await state.loadClinicPolicy();
       
       set({ isInitialized: true });
     } catch (error) {
@@ -95,15 +282,393 @@ export const useAppState = create<AppState>((set, get) => ({
     }
   },
   
+  loadPets: async () => {
+    try {
+      const pets = await petRepository.getPets();
+      set({ pets });
+    } catch (error) {
+      console.error('Error loading pets:', error);
+    }
+  },
+  
+  loadOwners: async () => {
+    try {
+      const owners = await ownerRepository.getOwners();
+      set({ owners });
+    } catch (error) {
+      console.error('Error loading owners:', error);
+    }
+  },
+  
+  loadUsers: async () => {
+    try {
+      const users = await userRepository.getUsers();
+      set({ users });
+    } catch (error) {
+      console.error('Error loading users:', error);
+    }
+  },
+  
+  loadSession: async () => {
+    try {
+      const userId = await userRepository.getSessionUserId();
+      const currentUser = userId ? await userRepository.getUserById(userId) : null;
+      const currentOwner = currentUser?.ownerId
+        ? await ownerRepository.getOwnerById(currentUser.ownerId)
+        : null;
+      set({
+        currentUser,
+        currentOwner,
+        actor: currentUser ? toActor(currentUser) : null
+      });
+    } catch (error) {
+      console.error('Error loading session:', error);
+    }
+  },
+  
+  loadWaitlist: async () => {
+    try {
+      const { actor } = get();
+      let waitlist: WaitlistEntry[] = [];
+      
+      if (actor?.role === 'clinic_admin') {
+        waitlist = await waitlistRepository.getWaitlistEntries();
+      } else if (actor?.role === 'doctor' && actor.doctorId) {
+        waitlist = await waitlistRepository.getWaitlistEntriesByDoctor(actor.doctorId);
+      } else if (actor?.ownerId) {
+        waitlist = await waitlistRepository.getWaitlistEntriesByOwner(actor.ownerId);
+      }
+      
+      set({ waitlist });
+    } catch (error) {
+      console.error('Error loading waitlist:', error);
+    }
+  },
+  
+  loadNotifications: async () => {
+    try {
+      const { currentOwner } = get();
+      const notifications = currentOwner
+        ? await notificationRepository.getNotificationsByOwner(currentOwner.id)
+        : [];
+      set({ notifications });
+    } catch (error) {
+      console.error('Error loading notifications:', error);
+    }
+  },
+  
+  markNotificationsRead: async () => {
+    const { currentOwner } = get();
+    if (!currentOwner) return;
+    
+    await notificationRepository.markNotificationsRead(currentOwner.id);
+    await get().loadNotifications();
+  },
+  
+  loadQuarantine: async () => {
+    try {
+      const { actor } = get();
+      const quarantinedRecords = actor ? await manageQuarantineUseCase.getRecords(actor) : [];
+      set({ quarantinedRecords });
+    } catch (error) {
+      console.error('Error loading quarantined records:', error);
+    }
+  },
+  
+  loadClinicPolicy: async () => {
+    try {
+      const clinicPolicy = await manageClinicPolicyUseCase.getPolicy();
+      set({ clinicPolicy });
+    } catch (error) {
+      console.error('Error loading clinic policy:', error);
+    }
+  },
+  
+  updateClinicPolicy: async (policy: ClinicPolicy) => {
+    const { actor } = get();
+    if (!actor) {
+      return { success: false, error: "Sign in to change the clinic's policy" };
+    }
+    
+    const result = await manageClinicPolicyUseCase.updatePolicy(policy, actor);
+    if (result.success && result.policy) {
+      set({ clinicPolicy: result.policy });
+    }
+    
+    return result;
+  },
+  
+  getNoShowScores: async (ownerIds: string[]) => {
+    const { actor } = get();
+    return actor ? await manageClinicPolicyUseCase.getNoShowScores(ownerIds, actor) : {};
+  },
+  
+  syncWithServer: async () => {
+    if (!syncEngine) return [];
+    
+    set({ syncStatus: { ...(get().syncStatus || await syncEngine.getStatus()), phase: 'syncing' } });
+    let syncStatus = await syncEngine.sync();
+    let outcomes: CommandOutcome[] = [];
+    
+    // Queued changes are only replayed against data just pulled from the server,
+    // then what they wrote is pushed
+    if (syncStatus.phase === 'idle') {
+      outcomes = await managePendingCommandsUseCase.replay();
+      if (outcomes.length > 0) {
+        syncStatus = await syncEngine.sync();
+      }
+    }
+    
+    set({ syncStatus });
+    await get().loadPendingCommands();
+    return outcomes;
+  },
+  
+  loadPendingCommands: async () => {
+    try {
+      const { actor } = get();
+      if (!actor) {
+        set({ pendingCommands: [], commandConflicts: [] });
+        return;
+      }
+      
+      const [pendingCommands, commandConflicts] = await Promise.all([
+        managePendingCommandsUseCase.getPendingCommands(actor),
+        managePendingCommandsUseCase.getConflicts(actor)
+      ]);
+      set({ pendingCommands, commandConflicts });
+    } catch (error) {
+      console.error('Error loading pending commands:', error);
+    }
+  },
+  
+  submitCommand: async (input: PendingCommandInput) => {
+    const { actor } = get();
+    if (!actor) {
+      throw new Error('Sign in to make changes');
+    }
+    
+    if (!syncEngine) {
+      return { pending: false, result: await managePendingCommandsUseCase.execute({ ...input, actor }) };
+    }
+    
+    // With a sync server every change is queued, so one made offline is replayed later
+    const command = await managePendingCommandsUseCase.enqueue(input, actor);
+    const outcomes = await get().syncWithServer();
+    const outcome = outcomes.find(replayed => replayed.command.id === command.id);
+    
+    if (!outcome) {
+      return { pending: true };
+    }
+    
+    // The user sees the failure right away, so it is not kept as a conflict
+    if (outcome.conflict) {
+      await managePendingCommandsUseCase.resolveConflict(outcome.conflict.id, actor);
+      await get().loadPendingCommands();
+    }
+    return { pending: false, result: outcome.result };
+  },
+  
+  bookAppointment: async (appointment: AppointmentCreate, holdId?: string) => {
+    return await get().submitCommand({ type: 'book', appointment, holdId }) as CommandSubmission<BookingResult>;
+  },
+  
+  cancelAppointment: async (appointmentId: string, reason?: string) => {
+    return await get().submitCommand({ type: 'cancel', appointmentId, reason }) as CommandSubmission<CancelResult>;
+  },
+  
+  changeAppointmentStatus: async (appointmentId: string, status: AppointmentStatus, reason?: string) => {
+    return await get().submitCommand({
+      type: 'changeStatus',
+      appointmentId,
+      status,
+      reason
+    }) as CommandSubmission<StatusChangeResult>;
+  },
+  
+  updateAppointmentNotes: async (appointmentId: string, notes: string) => {
+    return await get().submitCommand({ type: 'updateNotes', appointmentId, notes }) as CommandSubmission<NotesUpdateResult>;
+  },
+  
+  updateDoctorSchedule: async (doctorId: string, changes: ScheduleFields, cancelAffectedAppointments: boolean) => {
+    return await get().submitCommand({
+      type: 'updateSchedule',
+      doctorId,
+      changes,
+      cancelAffectedAppointments
+    }) as CommandSubmission<ScheduleUpdateResult>;
+  },
+  
+  resolveConflict: async (conflictId: string, slot?: { startISO: string; endISO: string }) => {
+    const { actor } = get();
+    if (!actor) {
+      throw new Error('Sign in to resolve conflicts');
+    }
+    
+    const retry = await managePendingCommandsUseCase.resolveConflict(conflictId, actor, slot);
+    if (!retry) {
+      await get().loadPendingCommands();
+      return null;
+    }
+    
+    // The conflict, with its alternatives, stays until the retry is made or queued
+    const submission = await get().submitCommand(retry);
+    if (submission.pending || submission.result.success) {
+      await managePendingCommandsUseCase.resolveConflict(conflictId, actor);
+    }
+    await get().loadPendingCommands();
+    return submission;
+  },
+  
+  previewCalendarImport: async (icalString: string, defaultPetId?: string) => {
+    const { currentOwner, pets } = get();
+    if (!currentOwner) {
+      throw new Error('Only pet owners can import appointments');
+    }
+    
+    return await previewCalendarImportUseCase.execute(icalString, currentOwner, pets, { defaultPetId });
+  },
+  
+  importAppointments: async (items: CalendarImportItem[]) => {
+    const submissions: Array<CommandSubmission<BookingResult>> = [];
+    
+    // One at a time, so each booking sees the ones before it
+    for (const item of items) {
+      if (item.status === 'ready' && item.appointment) {
+        submissions.push(await get().bookAppointment(item.appointment));
+      }
+    }
+    
+    return submissions;
+  },
+  
+  exportDoctorAvailability: async (doctorId: string) => {
+    return await exportDoctorCalendarUseCase.exportAvailability(doctorId);
+  },
+  
+  exportDoctorFreeBusy: async (doctorId: string, fromISO: string, toISO: string) => {
+    return await exportDoctorCalendarUseCase.exportFreeBusy(doctorId, fromISO, toISO);
+  },
+  
+  getBusyCalendars: async (doctorId: string) => {
+    return await importBusyCalendarUseCase.getCalendars(doctorId);
+  },
+  
+  importBusyCalendar: async (doctorId: string, icalString: string, source?: string) => {
+    const { actor } = get();
+    if (!actor) {
+      return { success: false, error: 'Sign in to import a calendar' };
+    }
+    
+    return await importBusyCalendarUseCase.execute(doctorId, icalString, actor, { source });
+  },
+  
+  removeBusyCalendar: async (doctorId: string, source: string) => {
+    const { actor } = get();
+    if (!actor) {
+      return { success: false, error: 'Sign in to remove a calendar' };
+    }
+    
+    return await importBusyCalendarUseCase.removeCalendar(doctorId, source, actor);
+  },
+  
+  dismissQuarantinedRecord: async (id: string) => {
+    const { actor } = get();
+    if (!actor) {
+      return { success: false, error: 'Sign in to dismiss invalid records' };
+    }
+    
+    const result = await manageQuarantineUseCase.dismissRecord(id, actor);
+    if (result.success) {
+      await get().loadQuarantine();
+    }
+    
+    return result;
+  },
+  
+  signIn: async (userId: string, secret: string) => {
+    const result = await signInUseCase.execute(userId, secret);
+    if (result.success) {
+      await get().loadSession();
+      await Promise.all([
+        get().loadWaitlist(),
+        get().loadNotifications(),
+        get().loadQuarantine(),
+        get().loadPendingCommands()
+      ]);
+    }
+    
+    return result;
+  },
+  
+  signOut: async () => {
+    await signInUseCase.signOut();
+    set({
+      currentUser: null,
+      currentOwner: null,
+      actor: null,
+      waitlist: [],
+      notifications: [],
+      quarantinedRecords: [],
+      pendingCommands: [],
+      commandConflicts: []
+    });
+  },
+  
+  register: async (request: RegisterUserRequest) => {
+    const { actor } = get();
+    const result = await registerUserUseCase.execute(request, actor);
+    
+    if (result.success && result.user) {
+      // Self-registration signs the new user in; accounts created by an admin do not
+      if (!actor) {
+        await userRepository.setSessionUserId(result.user.id);
+        await get().loadSession();
+      }
+      await Promise.all([get().loadUsers(), get().loadOwners()]);
+    }
+    
+    return result;
+  },
+  
+  saveOwnerProfile: async (owner: Owner) => {
+    const { actor } = get();
+    if (!actor) {
+      return { success: false, error: 'Sign in to save a profile' };
+    }
+    
+    const result = await updateOwnerProfileUseCase.execute(owner, actor);
+    if (result.success && result.owner) {
+      if (get().currentOwner?.id === owner.id) {
+        set({ currentOwner: result.owner });
+      }
+      await get().loadOwners();
+    }
+    
+    return result;
+  },
+  
   refreshData: async () => {
     const state = get();
     set({ isLoading: true });
     
     try {
+      await state.syncWithServer();
+      await manageWaitlistUseCase.expireOffers();
+      await manageSlotHoldsUseCase.sweepExpiredHolds();
       await Promise.all([
         state.loadDoctors(),
-        state.loadAppointments()
+        state.loadAppointments(),
+        state.loadPets(),
+        state.loadOwners(),
+        state.loadUsers(),
+        state.loadWaitlist(),
+        state.loadNotifications(),
+        state.loadClinicPolicy()
       ]);
+      
+      // Reads quarantine invalid records, so load the report once they are done
+      await state.loadQuarantine();
     } catch (error) {
       console.error('Error refreshing data:', error);
     } finally {
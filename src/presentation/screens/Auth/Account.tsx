@@ -0,0 +1,322 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { useAppState } from '../../hooks/useAppState';
+import { ROLE_LABELS } from './roleLabels';
+import { SyncPhase } from '../../../data/sync/SyncEngine';
+
+const SYNC_PHASE_LABELS: Record<SyncPhase, string> = {
+  idle: 'Up to date',
+  syncing: 'Syncing…',
+  offline: 'Offline – changes will sync when the server is reachable',
+  error: 'Sync failed'
+};
+
+export default function Account() {
+  const navigation = useNavigation();
+  const {
+    currentUser,
+    users,
+    doctors,
+    clinicPolicy,
+    quarantinedRecords,
+    dismissQuarantinedRecord,
+    syncStatus,
+    pendingCommands,
+    commandConflicts,
+    refreshData,
+    signOut
+  } = useAppState();
+
+  const linkedDoctor = currentUser?.doctorId
+    ? doctors.find(doctor => doctor.id === currentUser.doctorId)
+    : undefined;
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      Alert.alert('Error', 'Failed to sign out. Please try again.');
+    }
+  };
+
+  const renderAccounts = () => {
+    if (currentUser?.role !== 'clinic_admin') return null;
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Accounts</Text>
+          <TouchableOpacity onPress={() => navigation.navigate('Register' as never)}>
+            <Text style={styles.linkText}>+ New Account</Text>
+          </TouchableOpacity>
+        </View>
+        {users.map(user => (
+          <View key={user.id} style={styles.accountRow}>
+            <Text style={styles.accountName}>{user.displayName}</Text>
+            <Text style={styles.accountRole}>{ROLE_LABELS[user.role]}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderClinicPolicy = () => {
+    if (currentUser?.role !== 'clinic_admin') return null;
+
+    const ownerRules = clinicPolicy.rules.owner;
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Clinic Policy</Text>
+          <TouchableOpacity onPress={() => navigation.navigate('ClinicPolicySettings' as never)}>
+            <Text style={styles.linkText}>Edit</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.accountRole}>
+          Owners: {ownerRules.cancellationNoticeHours}h notice to cancel ({ownerRules.lateCancellation} late ones),{' '}
+          {ownerRules.rescheduleNoticeHours}h to reschedule,{' '}
+          {ownerRules.maxReschedules === null ? 'no reschedule limit' : `at most ${ownerRules.maxReschedules} reschedules`}
+        </Text>
+      </View>
+    );
+  };
+
+  const handleDismiss = (recordId: string) => {
+    Alert.alert(
+      'Dismiss Record',
+      'The invalid record will be deleted for good. Dismiss it?',
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Dismiss',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              const result = await dismissQuarantinedRecord(recordId);
+              if (!result.success) {
+                Alert.alert('Cannot Dismiss Record', result.error || 'Failed to dismiss the record.');
+              }
+            } catch (error) {
+              console.error('Error dismissing quarantined record:', error);
+              Alert.alert('Error', 'Failed to dismiss the record. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderQuarantine = () => {
+    if (currentUser?.role !== 'clinic_admin' || quarantinedRecords.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Invalid Records</Text>
+        </View>
+        <Text style={styles.sectionHint}>
+          These records failed validation and are hidden from the app until they are fixed or dismissed.
+        </Text>
+        {quarantinedRecords.map(record => (
+          <View key={record.id} style={styles.accountRow}>
+            <View style={styles.quarantineHeader}>
+              <Text style={styles.accountName}>
+                {record.source} • {record.recordId || 'No ID'}
+              </Text>
+              <TouchableOpacity onPress={() => handleDismiss(record.id)}>
+                <Text style={styles.dismissText}>Dismiss</Text>
+              </TouchableOpacity>
+            </View>
+            {record.errors.map(error => (
+              <Text key={error} style={styles.quarantineError}>{error}</Text>
+            ))}
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderSync = () => {
+    if (!syncStatus) return null;
+
+    const lastSynced = syncStatus.lastSyncedAt
+      ? new Date(syncStatus.lastSyncedAt).toLocaleString()
+      : 'Never';
+
+    return (
+      <View style={styles.section}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Sync</Text>
+          <TouchableOpacity onPress={refreshData} disabled={syncStatus.phase === 'syncing'}>
+            <Text style={styles.linkText}>Sync Now</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={syncStatus.phase === 'error' ? styles.quarantineError : styles.accountName}>
+          {SYNC_PHASE_LABELS[syncStatus.phase]}
+        </Text>
+        {syncStatus.error && syncStatus.phase === 'error' && (
+          <Text style={styles.accountRole}>{syncStatus.error}</Text>
+        )}
+        <Text style={styles.accountRole}>
+          {syncStatus.pendingChanges} pending change{syncStatus.pendingChanges === 1 ? '' : 's'} • Last synced: {lastSynced}
+        </Text>
+        <TouchableOpacity
+          style={styles.offlineChangesRow}
+          onPress={() => navigation.navigate('PendingChanges' as never)}
+        >
+          <Text style={commandConflicts.length > 0 ? styles.quarantineError : styles.linkText}>
+            Offline Changes ({pendingCommands.length} waiting, {commandConflicts.length} to resolve)
+          </Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  if (!currentUser) return null;
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>{currentUser.displayName}</Text>
+          <Text style={styles.subtitle}>
+            {ROLE_LABELS[currentUser.role]}
+            {linkedDoctor ? ` • ${linkedDoctor.specialties.join(', ')}` : ''}
+          </Text>
+        </View>
+
+        {renderSync()}
+        {renderAccounts()}
+        {renderClinicPolicy()}
+        {renderQuarantine()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.signOutButton} onPress={handleSignOut}>
+          <Text style={styles.signOutButtonText}>Sign Out</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 16,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  accountRow: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  accountRole: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  quarantineHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  quarantineError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  offlineChangesRow: {
+    marginTop: 12,
+  },
+  dismissText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  signOutButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  signOutButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
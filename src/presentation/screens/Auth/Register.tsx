@@ -0,0 +1,423 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { CredentialType, UserRole } from '../../../domain/entities/User';
+import { canCreateAccount } from '../../../domain/policies/authorization';
+import { useAppState } from '../../hooks/useAppState';
+import { ROLE_LABELS } from './roleLabels';
+
+const ROLES: UserRole[] = ['owner', 'doctor', 'clinic_admin'];
+
+export default function Register() {
+  const navigation = useNavigation();
+  const { users, owners, doctors, actor, register, registerUserUseCase } = useAppState();
+
+  const hasClinicAdmin = users.some(user => user.role === 'clinic_admin');
+  const availableRoles = ROLES.filter(role => canCreateAccount(actor, role, hasClinicAdmin));
+
+  // Profiles and doctors that are not yet linked to an account
+  const unclaimedOwners = owners.filter(owner => !users.some(user => user.ownerId === owner.id));
+  const unclaimedDoctors = doctors.filter(doctor => !users.some(user => user.doctorId === doctor.id));
+
+  const [role, setRole] = useState<UserRole>(availableRoles[0] || 'owner');
+  const [displayName, setDisplayName] = useState('');
+  const [existingOwnerId, setExistingOwnerId] = useState<string>('');
+  const [doctorId, setDoctorId] = useState<string>('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [credentialType, setCredentialType] = useState<CredentialType>('pin');
+  const [secret, setSecret] = useState('');
+  const [confirmSecret, setConfirmSecret] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  useEffect(() => {
+    if (!availableRoles.includes(role) && availableRoles.length > 0) {
+      setRole(availableRoles[0]);
+    }
+  }, [availableRoles, role]);
+
+  const handleSelectExistingOwner = (ownerId: string) => {
+    if (existingOwnerId === ownerId) {
+      setExistingOwnerId('');
+      return;
+    }
+
+    const owner = owners.find(o => o.id === ownerId);
+    setExistingOwnerId(ownerId);
+    setDisplayName(owner?.name || displayName);
+  };
+
+  const handleSelectDoctor = (id: string) => {
+    const doctor = doctors.find(d => d.id === id);
+    setDoctorId(id);
+    setDisplayName(doctor?.name || displayName);
+  };
+
+  const validateForm = (): boolean => {
+    if (!displayName.trim()) {
+      Alert.alert('Missing Information', 'Please enter a name for the account.');
+      return false;
+    }
+
+    if (role === 'doctor' && !doctorId) {
+      Alert.alert('Missing Information', 'Please select the doctor this account belongs to.');
+      return false;
+    }
+
+    if (role === 'owner' && !existingOwnerId && !phone.trim() && !email.trim()) {
+      Alert.alert('Missing Information', 'Please enter a phone number or email address.');
+      return false;
+    }
+
+    const credentialError = registerUserUseCase?.validateCredential(credentialType, secret);
+    if (credentialError) {
+      Alert.alert('Invalid Credential', credentialError);
+      return false;
+    }
+
+    if (secret !== confirmSecret) {
+      Alert.alert(
+        'Mismatch',
+        credentialType === 'pin' ? 'The PINs do not match.' : 'The passphrases do not match.'
+      );
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleRegister = async () => {
+    if (!validateForm()) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const result = await register({
+        displayName,
+        role,
+        credentialType,
+        secret,
+        ownerId: role === 'owner' && existingOwnerId ? existingOwnerId : undefined,
+        doctorId: role === 'doctor' ? doctorId : undefined,
+        phone,
+        email
+      });
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to create account.');
+        return;
+      }
+
+      // Self-registration signs in and swaps the navigator; admins stay signed in as themselves
+      if (actor) {
+        Alert.alert(
+          'Account Created',
+          `${result.user?.displayName} can now sign in.`,
+          [{ text: 'OK', onPress: () => navigation.goBack() }]
+        );
+      }
+    } catch (error) {
+      console.error('Error creating account:', error);
+      Alert.alert('Error', 'Failed to create account. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderChips = <T extends string>(
+    options: { value: T; label: string }[],
+    selected: T,
+    onSelect: (value: T) => void
+  ) => {
+    return (
+      <View style={styles.chipRow}>
+        {options.map(option => (
+          <TouchableOpacity
+            key={option.value}
+            style={[styles.chip, selected === option.value && styles.selectedChip]}
+            onPress={() => onSelect(option.value)}
+          >
+            <Text style={[styles.chipText, selected === option.value && styles.selectedChipText]}>
+              {option.label}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderOwnerFields = () => {
+    return (
+      <>
+        {unclaimedOwners.length > 0 && (
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Existing Profile</Text>
+            <Text style={styles.helpText}>
+              Select your profile if you have booked before, or leave empty to create a new one.
+            </Text>
+            {renderChips(
+              unclaimedOwners.map(owner => ({ value: owner.id, label: owner.name })),
+              existingOwnerId,
+              handleSelectExistingOwner
+            )}
+          </View>
+        )}
+
+        {!existingOwnerId && (
+          <>
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Phone</Text>
+              <TextInput
+                style={styles.textInput}
+                value={phone}
+                onChangeText={setPhone}
+                placeholder="Enter your phone number"
+                keyboardType="phone-pad"
+              />
+            </View>
+
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Email</Text>
+              <TextInput
+                style={styles.textInput}
+                value={email}
+                onChangeText={setEmail}
+                placeholder="Enter your email address"
+                keyboardType="email-address"
+                autoCapitalize="none"
+              />
+            </View>
+          </>
+        )}
+      </>
+    );
+  };
+
+  const renderDoctorFields = () => {
+    return (
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Doctor *</Text>
+        {unclaimedDoctors.length === 0 ? (
+          <Text style={styles.helpText}>Every doctor already has an account.</Text>
+        ) : (
+          renderChips(
+            unclaimedDoctors.map(doctor => ({ value: doctor.id, label: doctor.name })),
+            doctorId,
+            handleSelectDoctor
+          )
+        )}
+      </View>
+    );
+  };
+
+  const renderCredentialFields = () => {
+    const isPin = credentialType === 'pin';
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Security</Text>
+
+        <View style={styles.inputGroup}>
+          {renderChips<CredentialType>(
+            [
+              { value: 'pin', label: 'PIN' },
+              { value: 'passphrase', label: 'Passphrase' },
+            ],
+            credentialType,
+            value => {
+              setCredentialType(value);
+              setSecret('');
+              setConfirmSecret('');
+            }
+          )}
+          <Text style={styles.helpText}>
+            {isPin ? '4 to 8 digits' : 'At least 8 characters'}
+          </Text>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>{isPin ? 'PIN *' : 'Passphrase *'}</Text>
+          <TextInput
+            style={styles.textInput}
+            value={secret}
+            onChangeText={setSecret}
+            keyboardType={isPin ? 'number-pad' : 'default'}
+            autoCapitalize="none"
+            secureTextEntry
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>{isPin ? 'Confirm PIN *' : 'Confirm Passphrase *'}</Text>
+          <TextInput
+            style={styles.textInput}
+            value={confirmSecret}
+            onChangeText={setConfirmSecret}
+            keyboardType={isPin ? 'number-pad' : 'default'}
+            autoCapitalize="none"
+            secureTextEntry
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Account</Text>
+
+          {availableRoles.length > 1 && (
+            <View style={styles.inputGroup}>
+              <Text style={styles.inputLabel}>Role</Text>
+              {renderChips(
+                availableRoles.map(value => ({ value, label: ROLE_LABELS[value] })),
+                role,
+                setRole
+              )}
+            </View>
+          )}
+
+          {role === 'doctor' && renderDoctorFields()}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Name *</Text>
+            <TextInput
+              style={styles.textInput}
+              value={displayName}
+              onChangeText={setDisplayName}
+              placeholder="Enter your full name"
+              autoCapitalize="words"
+            />
+          </View>
+
+          {role === 'owner' && renderOwnerFields()}
+        </View>
+
+        {renderCredentialFields()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.registerButton, isSaving && styles.buttonDisabled]}
+          onPress={handleRegister}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.registerButtonText}>Create Account</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  registerButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  registerButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -0,0 +1,279 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import { UserAccount } from '../../../domain/entities/User';
+import { useAppState } from '../../hooks/useAppState';
+import { ROLE_LABELS } from './roleLabels';
+
+export default function SignIn() {
+  const navigation = useNavigation();
+  const { users, signIn } = useAppState();
+
+  const [selectedUserId, setSelectedUserId] = useState<string>('');
+  const [secret, setSecret] = useState('');
+  const [isSigningIn, setIsSigningIn] = useState(false);
+
+  const selectedUser = users.find(user => user.id === selectedUserId);
+
+  const handleSelectUser = (user: UserAccount) => {
+    setSelectedUserId(user.id);
+    setSecret('');
+  };
+
+  const handleSignIn = async () => {
+    if (!selectedUser) {
+      Alert.alert('Missing Information', 'Please select your account.');
+      return;
+    }
+
+    if (!secret) {
+      Alert.alert(
+        'Missing Information',
+        selectedUser.credentialType === 'pin' ? 'Please enter your PIN.' : 'Please enter your passphrase.'
+      );
+      return;
+    }
+
+    setIsSigningIn(true);
+
+    try {
+      const result = await signIn(selectedUser.id, secret);
+
+      if (!result.success) {
+        setSecret('');
+        Alert.alert('Sign In Failed', result.error || 'Failed to sign in.');
+      }
+    } catch (error) {
+      console.error('Error signing in:', error);
+      Alert.alert('Error', 'Failed to sign in. Please try again.');
+    } finally {
+      setIsSigningIn(false);
+    }
+  };
+
+  const renderAccounts = () => {
+    if (users.length === 0) {
+      return (
+        <View style={styles.emptyState}>
+          <Text style={styles.emptyStateTitle}>No Accounts Yet</Text>
+          <Text style={styles.emptyStateText}>
+            Create an account to get started.
+          </Text>
+        </View>
+      );
+    }
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Choose Your Account</Text>
+        {users.map(user => (
+          <TouchableOpacity
+            key={user.id}
+            style={[
+              styles.accountRow,
+              selectedUserId === user.id && styles.selectedAccountRow,
+            ]}
+            onPress={() => handleSelectUser(user)}
+          >
+            <Text style={styles.accountName}>{user.displayName}</Text>
+            <Text style={styles.accountRole}>{ROLE_LABELS[user.role]}</Text>
+          </TouchableOpacity>
+        ))}
+      </View>
+    );
+  };
+
+  const renderCredentialInput = () => {
+    if (!selectedUser) return null;
+
+    const isPin = selectedUser.credentialType === 'pin';
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.inputLabel}>{isPin ? 'PIN' : 'Passphrase'}</Text>
+        <TextInput
+          style={styles.textInput}
+          value={secret}
+          onChangeText={setSecret}
+          placeholder={isPin ? 'Enter your PIN' : 'Enter your passphrase'}
+          keyboardType={isPin ? 'number-pad' : 'default'}
+          autoCapitalize="none"
+          secureTextEntry
+          returnKeyType="done"
+          onSubmitEditing={handleSignIn}
+        />
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>PetSlot</Text>
+          <Text style={styles.subtitle}>Sign in to continue</Text>
+        </View>
+
+        {renderAccounts()}
+        {renderCredentialInput()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.signInButton, (!selectedUser || isSigningIn) && styles.buttonDisabled]}
+          onPress={handleSignIn}
+          disabled={!selectedUser || isSigningIn}
+        >
+          {isSigningIn ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.signInButtonText}>Sign In</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.registerButton}
+          onPress={() => navigation.navigate('Register' as never)}
+          disabled={isSigningIn}
+        >
+          <Text style={styles.registerButtonText}>Create an Account</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 16,
+  },
+  accountRow: {
+    paddingVertical: 12,
+    paddingHorizontal: 12,
+    borderRadius: 8,
+    marginBottom: 4,
+  },
+  selectedAccountRow: {
+    backgroundColor: '#E5F1FF',
+  },
+  accountName: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#007AFF',
+  },
+  accountRole: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 20,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 16,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  signInButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  signInButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+  registerButton: {
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  registerButtonText: {
+    color: '#007AFF',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
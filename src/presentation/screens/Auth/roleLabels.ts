@@ -0,0 +1,7 @@
+import { UserRole } from '../../../domain/entities/User';
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  owner: 'Pet Owner',
+  doctor: 'Doctor',
+  clinic_admin: 'Clinic Admin',
+};
@@ -0,0 +1,341 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { ChangeRules, ClinicPolicy, LateCancellationHandling } from '../../../domain/entities/ClinicPolicy';
+import { UserRole } from '../../../domain/entities/User';
+import { DEFAULT_CLINIC_POLICY } from '../../../domain/policies/clinicPolicy';
+import { useAppState } from '../../hooks/useAppState';
+import { ROLE_LABELS } from '../Auth/roleLabels';
+
+const ROLES: UserRole[] = ['owner', 'doctor', 'clinic_admin'];
+
+const LATE_CANCELLATION_OPTIONS: { value: LateCancellationHandling; label: string }[] = [
+  { value: 'allow', label: 'Allow' },
+  { value: 'flag', label: 'Flag' },
+  { value: 'block', label: 'Block' },
+];
+
+// The form keeps numbers as typed; an empty reschedule limit means no limit
+interface RulesDraft {
+  cancellationNoticeHours: string;
+  lateCancellation: LateCancellationHandling;
+  rescheduleNoticeHours: string;
+  maxReschedules: string;
+}
+
+const toDraft = (rules: ChangeRules): RulesDraft => ({
+  cancellationNoticeHours: String(rules.cancellationNoticeHours),
+  lateCancellation: rules.lateCancellation,
+  rescheduleNoticeHours: String(rules.rescheduleNoticeHours),
+  maxReschedules: rules.maxReschedules === null ? '' : String(rules.maxReschedules)
+});
+
+const toDrafts = (policy: ClinicPolicy): Record<UserRole, RulesDraft> => ({
+  owner: toDraft(policy.rules.owner),
+  doctor: toDraft(policy.rules.doctor),
+  clinic_admin: toDraft(policy.rules.clinic_admin)
+});
+
+const toNumber = (value: string): number => (value.trim() ? Number(value) : NaN);
+
+export default function ClinicPolicySettings() {
+  const { clinicPolicy, updateClinicPolicy } = useAppState();
+
+  const [drafts, setDrafts] = useState(() => toDrafts(clinicPolicy));
+  const [lateCancellationWeight, setLateCancellationWeight] = useState(String(clinicPolicy.lateCancellationWeight));
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Show the saved policy once the store has loaded or saved it
+  useEffect(() => {
+    setDrafts(toDrafts(clinicPolicy));
+    setLateCancellationWeight(String(clinicPolicy.lateCancellationWeight));
+  }, [clinicPolicy]);
+
+  const updateDraft = (role: UserRole, changes: Partial<RulesDraft>) => {
+    setDrafts(current => ({ ...current, [role]: { ...current[role], ...changes } }));
+  };
+
+  const handleSave = async () => {
+    const toRules = (draft: RulesDraft): ChangeRules => ({
+      cancellationNoticeHours: toNumber(draft.cancellationNoticeHours),
+      lateCancellation: draft.lateCancellation,
+      rescheduleNoticeHours: toNumber(draft.rescheduleNoticeHours),
+      maxReschedules: draft.maxReschedules.trim() ? Number(draft.maxReschedules) : null
+    });
+
+    const policy: ClinicPolicy = {
+      rules: {
+        owner: toRules(drafts.owner),
+        doctor: toRules(drafts.doctor),
+        clinic_admin: toRules(drafts.clinic_admin)
+      },
+      lateCancellationWeight: toNumber(lateCancellationWeight)
+    };
+
+    setIsSaving(true);
+
+    try {
+      const result = await updateClinicPolicy(policy);
+      if (result.success) {
+        Alert.alert('Policy Saved', 'The new rules apply to cancellations and reschedules from now on.');
+      } else {
+        Alert.alert('Cannot Save Policy', result.error || 'Failed to save the policy.');
+      }
+    } catch (error) {
+      console.error('Error saving clinic policy:', error);
+      Alert.alert('Error', 'Failed to save the policy. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderRules = (role: UserRole) => {
+    const draft = drafts[role];
+
+    return (
+      <View key={role} style={styles.section}>
+        <Text style={styles.sectionTitle}>{ROLE_LABELS[role]}</Text>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Cancellation Notice (hours)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={draft.cancellationNoticeHours}
+            onChangeText={value => updateDraft(role, { cancellationNoticeHours: value })}
+            keyboardType="numeric"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Late Cancellations</Text>
+          <View style={styles.chipRow}>
+            {LATE_CANCELLATION_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option.value}
+                style={[
+                  styles.chip,
+                  draft.lateCancellation === option.value && styles.selectedChip,
+                ]}
+                onPress={() => updateDraft(role, { lateCancellation: option.value })}
+              >
+                <Text style={[
+                  styles.chipText,
+                  draft.lateCancellation === option.value && styles.selectedChipText,
+                ]}>
+                  {option.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Reschedule Notice (hours)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={draft.rescheduleNoticeHours}
+            onChangeText={value => updateDraft(role, { rescheduleNoticeHours: value })}
+            keyboardType="numeric"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Reschedules per Appointment</Text>
+          <TextInput
+            style={styles.textInput}
+            value={draft.maxReschedules}
+            onChangeText={value => updateDraft(role, { maxReschedules: value })}
+            placeholder="No limit"
+            keyboardType="number-pad"
+          />
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Clinic Policy</Text>
+          <Text style={styles.subtitle}>
+            How much notice each role must give to cancel or move an appointment
+          </Text>
+        </View>
+
+        {ROLES.map(renderRules)}
+
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>No-Show Score</Text>
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Weight of a Flagged Late Cancellation</Text>
+            <TextInput
+              style={styles.textInput}
+              value={lateCancellationWeight}
+              onChangeText={setLateCancellationWeight}
+              keyboardType="decimal-pad"
+            />
+            <Text style={styles.hint}>A no-show counts 1.</Text>
+          </View>
+          <TouchableOpacity
+            onPress={() => {
+              setDrafts(toDrafts(DEFAULT_CLINIC_POLICY));
+              setLateCancellationWeight(String(DEFAULT_CLINIC_POLICY.lateCancellationWeight));
+            }}
+          >
+            <Text style={styles.linkText}>Restore Defaults</Text>
+          </TouchableOpacity>
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          onPress={handleSave}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <View style={styles.savingIndicator}>
+              <ActivityIndicator size="small" color="#FFFFFF" />
+              <Text style={styles.saveButtonText}>Saving...</Text>
+            </View>
+          ) : (
+            <Text style={styles.saveButtonText}>Save Policy</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  hint: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  linkText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  savingIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+});
@@ -7,21 +7,59 @@ import {
   StyleSheet, 
   Alert,
   ActivityIndicator,
-  TextInput
+  TextInput,
+  Share
 } from 'react-native';
 import { useNavigation } from '@react-navigation/native';
-import { Appointment } from '../../../domain/entities/Appointment';
+import { Appointment, AppointmentStatus } from '../../../domain/entities/Appointment';
+import { canTransition, getNextStatuses, getStatusLabel } from '../../../domain/policies/appointmentLifecycle';
 import { Doctor } from '../../../domain/entities/Doctor';
 import { useAppState } from '../../hooks/useAppState';
+import AppointmentTimeline from '../../components/AppointmentTimeline';
 import { formatDateTime, formatDate, isToday, isTomorrow, isPastDate } from '../../../shared/utils/date';
 
+// How far ahead a free/busy export reaches
+const FREE_BUSY_DAYS = 30;
+
+// Buttons that move an appointment on; cancelling has its own button
+const STATUS_ACTIONS: Partial<Record<AppointmentStatus, string>> = {
+  confirmed: 'Confirm',
+  checked_in: 'Check In',
+  in_progress: 'Start Visit',
+  completed: 'Complete',
+  no_show: 'No-Show'
+};
+
 export default function DoctorAppointments() {
   const navigation = useNavigation();
-  const { appointments, doctors, cancelAppointmentUseCase, refreshData, isLoading } = useAppState();
+  const {
+    appointments,
+    doctors: allDoctors,
+    waitlist,
+    actor,
+    clinicPolicy,
+    getNoShowScores,
+    cancelAppointmentUseCase,
+    changeAppointmentStatus,
+    updateAppointmentNotes,
+    exportDoctorAvailability,
+    exportDoctorFreeBusy,
+    refreshData,
+    isLoading
+  } = useAppState();
+  
+  // Doctors only see their own appointments; clinic admins see every doctor
+  const doctors = actor?.role === 'doctor'
+    ? allDoctors.filter(doctor => doctor.id === actor.doctorId)
+    : allDoctors;
   
   const [selectedDoctorId, setSelectedDoctorId] = useState<string>('');
   const [dateFilter, setDateFilter] = useState('');
   const [filteredAppointments, setFilteredAppointments] = useState<Appointment[]>([]);
+  const [historyAppointmentId, setHistoryAppointmentId] = useState<string | null>(null);
+  const [notesAppointmentId, setNotesAppointmentId] = useState<string | null>(null);
+  const [notesDraft, setNotesDraft] = useState('');
+  const [noShowScores, setNoShowScores] = useState<Record<string, number>>({});
 
   useEffect(() => {
     if (doctors.length > 0 && !selectedDoctorId) {
@@ -33,9 +71,23 @@ export default function DoctorAppointments() {
     filterAppointments();
   }, [appointments, selectedDoctorId, dateFilter]);
 
+  // Scores count the owners' appointments with every doctor, so they come from the repository
+  useEffect(() => {
+    let isCurrent = true;
+    getNoShowScores(filteredAppointments.map(appointment => appointment.ownerId))
+      .then(scores => {
+        if (isCurrent) setNoShowScores(scores);
+      })
+      .catch(error => console.error('Error loading no-show scores:', error));
+
+    return () => {
+      isCurrent = false;
+    };
+  }, [filteredAppointments, clinicPolicy, getNoShowScores]);
+
   const filterAppointments = () => {
     let filtered = appointments.filter(appointment => 
-      selectedDoctorId ? appointment.doctorId === selectedDoctorId : true
+      selectedDoctorId ? appointment.doctorId === selectedDoctorId : actor?.role === 'clinic_admin'
     );
 
     // Filter by date if specified
@@ -73,13 +125,14 @@ export default function DoctorAppointments() {
   };
 
   const cancelAppointment = async (appointmentId: string) => {
-    if (!cancelAppointmentUseCase) {
+    if (!cancelAppointmentUseCase || !actor) {
       Alert.alert('Error', 'Cancel service is not available.');
       return;
     }
 
     try {
-      const result = await cancelAppointmentUseCase.execute(appointmentId, 'Cancelled by doctor');
+      const reason = actor.role === 'clinic_admin' ? 'Cancelled by clinic' : 'Cancelled by doctor';
+      const result = await cancelAppointmentUseCase.execute(appointmentId, actor, reason);
       
       if (result.success) {
         await refreshData();
@@ -93,20 +146,87 @@ export default function DoctorAppointments() {
     }
   };
 
+  const handleStatusChange = (appointment: Appointment, status: AppointmentStatus) => {
+    if (status !== 'no_show') {
+      changeStatus(appointment.id, status);
+      return;
+    }
+
+    Alert.alert(
+      'Mark as No-Show',
+      `${appointment.petName} (${appointment.ownerName}) did not come to the appointment on ${formatDateTime(appointment.startDateISO)}?`,
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Yes, No-Show',
+          style: 'destructive',
+          onPress: () => changeStatus(appointment.id, status)
+        }
+      ]
+    );
+  };
+
+  const changeStatus = async (appointmentId: string, status: AppointmentStatus) => {
+    try {
+      const submission = await changeAppointmentStatus(appointmentId, status);
+
+      if (submission.pending) {
+        Alert.alert('Saved Offline', 'The change will be sent when the clinic can be reached.');
+        return;
+      }
+
+      const { result } = submission;
+      if (result.success) {
+        await refreshData();
+      } else {
+        Alert.alert('Error', result.error || 'Failed to update the appointment.');
+      }
+    } catch (error) {
+      console.error('Error changing appointment status:', error);
+      Alert.alert('Error', 'Failed to update the appointment. Please try again.');
+    }
+  };
+
+  const startEditingNotes = (appointment: Appointment) => {
+    setNotesAppointmentId(appointment.id);
+    setNotesDraft(appointment.notes || '');
+  };
+
+  const saveNotes = async (appointmentId: string) => {
+    try {
+      const submission = await updateAppointmentNotes(appointmentId, notesDraft);
+      setNotesAppointmentId(null);
+
+      if (submission.pending) {
+        Alert.alert('Saved Offline', 'The notes will be sent when the clinic can be reached.');
+        return;
+      }
+
+      const { result } = submission;
+      if (result.success) {
+        await refreshData();
+      } else {
+        Alert.alert('Error', result.error || 'Failed to save the notes.');
+      }
+    } catch (error) {
+      console.error('Error saving appointment notes:', error);
+      Alert.alert('Error', 'Failed to save the notes. Please try again.');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'scheduled': return '#007AFF';
+      case 'requested': return '#007AFF';
       case 'confirmed': return '#34C759';
+      case 'checked_in': return '#5856D6';
+      case 'in_progress': return '#FF9500';
       case 'cancelled': return '#FF3B30';
+      case 'no_show': return '#FF3B30';
       case 'completed': return '#8E8E93';
       default: return '#8E8E93';
     }
   };
 
-  const getStatusText = (status: string) => {
-    return status.charAt(0).toUpperCase() + status.slice(1);
-  };
-
   const getDateLabel = (dateISO: string) => {
     if (isToday(dateISO)) return 'Today';
     if (isTomorrow(dateISO)) return 'Tomorrow';
@@ -148,7 +268,14 @@ export default function DoctorAppointments() {
 
   const renderAppointmentCard = ({ item }: { item: Appointment }) => {
     const isPast = isPastDate(item.startDateISO);
-    const canCancel = !isPast && item.status !== 'cancelled' && item.status !== 'completed';
+    const canCancel = !isPast && canTransition(item.status, 'cancelled');
+    const showHistory = historyAppointmentId === item.id;
+    const isEditingNotes = notesAppointmentId === item.id;
+    const noShowScore = noShowScores[item.ownerId] || 0;
+    // A no-show can only be recorded once the appointment has started
+    const nextStatuses = getNextStatuses(item.status).filter(status =>
+      STATUS_ACTIONS[status] && (status !== 'no_show' || isPast)
+    );
 
     return (
       <View style={[styles.appointmentCard, isPast && styles.pastAppointmentCard]}>
@@ -156,9 +283,12 @@ export default function DoctorAppointments() {
           <View style={styles.appointmentInfo}>
             <Text style={styles.petName}>{item.petName}</Text>
             <Text style={styles.ownerName}>Owner: {item.ownerName}</Text>
+            {noShowScore > 0 && (
+              <Text style={styles.noShowScore}>No-show score: {noShowScore}</Text>
+            )}
           </View>
           <View style={[styles.statusBadge, { backgroundColor: getStatusColor(item.status) }]}>
-            <Text style={styles.statusText}>{getStatusText(item.status)}</Text>
+            <Text style={styles.statusText}>{getStatusLabel(item.status)}</Text>
           </View>
         </View>
 
@@ -170,6 +300,13 @@ export default function DoctorAppointments() {
             </Text>
           </View>
           
+          {item.visitTypeName && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Visit:</Text>
+              <Text style={styles.detailValue}>{item.visitTypeName}</Text>
+            </View>
+          )}
+          
           {item.disease && (
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Reason:</Text>
@@ -177,30 +314,93 @@ export default function DoctorAppointments() {
             </View>
           )}
           
-          {item.notes && (
+          {item.notes && !isEditingNotes && (
             <View style={styles.detailRow}>
               <Text style={styles.detailLabel}>Notes:</Text>
               <Text style={styles.detailValue}>{item.notes}</Text>
             </View>
           )}
+
+          {item.cancellationReason && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Cancelled:</Text>
+              <Text style={styles.detailValue}>{item.cancellationReason}</Text>
+            </View>
+          )}
+
+          {item.lateCancellation && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Late:</Text>
+              <Text style={styles.detailValue}>Cancelled with less notice than the clinic asks for</Text>
+            </View>
+          )}
         </View>
 
-        {canCancel && (
-          <View style={styles.appointmentActions}>
+        {isEditingNotes && (
+          <View style={styles.notesEditor}>
+            <TextInput
+              style={styles.notesInput}
+              value={notesDraft}
+              onChangeText={setNotesDraft}
+              placeholder="Notes about this visit"
+              multiline
+            />
+            <View style={styles.notesEditorActions}>
+              <TouchableOpacity style={styles.notesCancelButton} onPress={() => setNotesAppointmentId(null)}>
+                <Text style={styles.notesCancelButtonText}>Cancel</Text>
+              </TouchableOpacity>
+              <TouchableOpacity style={styles.actionButton} onPress={() => saveNotes(item.id)}>
+                <Text style={styles.actionButtonText}>Save Notes</Text>
+              </TouchableOpacity>
+            </View>
+          </View>
+        )}
+
+        {showHistory && (
+          <AppointmentTimeline history={item.history || []} currentUserId={actor?.userId} />
+        )}
+
+        <View style={styles.appointmentActions}>
+          <TouchableOpacity
+            style={styles.outlineButton}
+            onPress={() => setHistoryAppointmentId(showHistory ? null : item.id)}
+          >
+            <Text style={styles.outlineButtonText}>{showHistory ? 'Hide History' : 'History'}</Text>
+          </TouchableOpacity>
+          {!isEditingNotes && (
+            <TouchableOpacity style={styles.outlineButton} onPress={() => startEditingNotes(item)}>
+              <Text style={styles.outlineButtonText}>{item.notes ? 'Edit Notes' : 'Add Notes'}</Text>
+            </TouchableOpacity>
+          )}
+          {nextStatuses.map(status => (
+            <TouchableOpacity
+              key={status}
+              style={status === 'no_show' ? styles.secondaryActionButton : styles.actionButton}
+              onPress={() => handleStatusChange(item, status)}
+            >
+              <Text style={status === 'no_show' ? styles.secondaryActionButtonText : styles.actionButtonText}>
+                {STATUS_ACTIONS[status]}
+              </Text>
+            </TouchableOpacity>
+          ))}
+          {canCancel && (
             <TouchableOpacity 
               style={styles.cancelButton}
               onPress={() => handleCancelAppointment(item)}
             >
               <Text style={styles.cancelButtonText}>Cancel Appointment</Text>
             </TouchableOpacity>
-          </View>
-        )}
+          )}
+        </View>
       </View>
     );
   };
 
   const renderHeader = () => {
     const selectedDoctor = doctors.find(d => d.id === selectedDoctorId);
+    const waitingCount = waitlist.filter(entry =>
+      entry.doctorId === selectedDoctorId && (entry.status === 'waiting' || entry.status === 'offered')
+    ).length;
     
     return (
       <View style={styles.header}>
@@ -223,17 +423,68 @@ export default function DoctorAppointments() {
             {filteredAppointments.length} appointment{filteredAppointments.length !== 1 ? 's' : ''}
           </Text>
           
-          <TouchableOpacity 
-            style={styles.scheduleButton}
-            onPress={() => navigation.navigate('DoctorScheduleSetup' as never)}
-          >
-            <Text style={styles.scheduleButtonText}>Setup Schedule</Text>
-          </TouchableOpacity>
+          <View style={styles.headerButtons}>
+            <TouchableOpacity 
+              style={styles.waitlistButton}
+              onPress={() => navigation.navigate('DoctorWaitlist' as never)}
+            >
+              <Text style={styles.waitlistButtonText}>Waitlist ({waitingCount})</Text>
+            </TouchableOpacity>
+            
+            <TouchableOpacity 
+              style={styles.scheduleButton}
+              onPress={() => navigation.navigate('DoctorScheduleSetup' as never)}
+            >
+              <Text style={styles.scheduleButtonText}>Setup Schedule</Text>
+            </TouchableOpacity>
+            
+            {selectedDoctor && (
+              <TouchableOpacity 
+                style={styles.scheduleButton}
+                onPress={handleShareCalendar}
+              >
+                <Text style={styles.scheduleButtonText}>Share</Text>
+              </TouchableOpacity>
+            )}
+          </View>
         </View>
       </View>
     );
   };
 
+  const shareCalendar = async (doctor: Doctor, kind: 'availability' | 'freeBusy') => {
+    try {
+      const now = new Date();
+      const until = new Date(now.getTime() + FREE_BUSY_DAYS * 24 * 60 * 60 * 1000);
+      const icalString = kind === 'availability'
+        ? await exportDoctorAvailability(doctor.id)
+        : await exportDoctorFreeBusy(doctor.id, now.toISOString(), until.toISOString());
+
+      await Share.share({
+        message: icalString,
+        title: kind === 'availability' ? `${doctor.name} - Availability` : `${doctor.name} - Free/Busy`,
+      });
+    } catch (error) {
+      console.error('Error exporting calendar:', error);
+      Alert.alert('Error', 'Failed to export the calendar.');
+    }
+  };
+
+  const handleShareCalendar = () => {
+    const doctor = doctors.find(d => d.id === selectedDoctorId);
+    if (!doctor) return;
+
+    Alert.alert(
+      'Share Calendar',
+      `Export ${doctor.name}'s schedule for another calendar app.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        { text: 'Weekly Availability', onPress: () => shareCalendar(doctor, 'availability') },
+        { text: `Free/Busy (${FREE_BUSY_DAYS} Days)`, onPress: () => shareCalendar(doctor, 'freeBusy') }
+      ]
+    );
+  };
+
   const renderEmptyState = () => {
     return (
       <View style={styles.emptyState}>
@@ -350,6 +601,22 @@ const styles = StyleSheet.create({
     fontWeight: '600',
     color: '#1C1C1E',
   },
+  headerButtons: {
+    flexDirection: 'row',
+  },
+  waitlistButton: {
+    borderColor: '#007AFF',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  waitlistButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   scheduleButton: {
     backgroundColor: '#007AFF',
     borderRadius: 8,
@@ -401,6 +668,11 @@ const styles = StyleSheet.create({
     fontSize: 14,
     color: '#8E8E93',
   },
+  noShowScore: {
+    fontSize: 12,
+    color: '#FF9500',
+    marginTop: 2,
+  },
   statusBadge: {
     borderRadius: 12,
     paddingHorizontal: 8,
@@ -430,13 +702,86 @@ const styles = StyleSheet.create({
     flex: 1,
   },
   appointmentActions: {
-    alignItems: 'flex-end',
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    justifyContent: 'flex-end',
+  },
+  actionButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+    marginTop: 8,
+  },
+  actionButtonText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  outlineButton: {
+    borderColor: '#007AFF',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+    marginTop: 8,
+  },
+  outlineButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  notesEditor: {
+    marginBottom: 12,
+  },
+  notesInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    fontSize: 14,
+    color: '#1C1C1E',
+    minHeight: 80,
+    textAlignVertical: 'top',
+  },
+  notesEditorActions: {
+    flexDirection: 'row',
+    justifyContent: 'flex-end',
+    alignItems: 'center',
+  },
+  notesCancelButton: {
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginTop: 8,
+  },
+  notesCancelButtonText: {
+    color: '#8E8E93',
+    fontSize: 14,
+    fontWeight: '500',
+  },
+  secondaryActionButton: {
+    borderColor: '#FF9500',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginLeft: 8,
+    marginTop: 8,
+  },
+  secondaryActionButtonText: {
+    color: '#FF9500',
+    fontSize: 14,
+    fontWeight: '500',
   },
   cancelButton: {
     backgroundColor: '#FF3B30',
     borderRadius: 8,
     paddingHorizontal: 12,
     paddingVertical: 8,
+    marginLeft: 8,
+    marginTop: 8,
   },
   cancelButtonText: {
     color: '#FFFFFF',
@@ -0,0 +1,387 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import {
+  BUSY_IMPORT_DAYS,
+  BusyCalendarSummary
+} from '../../../domain/usecases/ImportBusyCalendarUseCase';
+import { useAppState } from '../../hooks/useAppState';
+import { formatDateTime, formatDate } from '../../../shared/utils/date';
+
+export default function DoctorBusyCalendars() {
+  const {
+    doctors: allDoctors,
+    actor,
+    getBusyCalendars,
+    importBusyCalendar,
+    removeBusyCalendar
+  } = useAppState();
+
+  // Doctors only manage their own calendars; clinic admins can switch between doctors
+  const doctors = actor?.role === 'doctor'
+    ? allDoctors.filter(doctor => doctor.id === actor.doctorId)
+    : allDoctors;
+
+  const [selectedDoctorId, setSelectedDoctorId] = useState<string | undefined>(doctors[0]?.id);
+  const [calendars, setCalendars] = useState<BusyCalendarSummary[]>([]);
+  const [calendarName, setCalendarName] = useState('');
+  const [icsText, setIcsText] = useState('');
+  const [isWorking, setIsWorking] = useState(false);
+
+  const loadCalendars = useCallback(async () => {
+    if (!selectedDoctorId) return;
+
+    try {
+      setCalendars(await getBusyCalendars(selectedDoctorId));
+    } catch (error) {
+      console.error('Error loading busy calendars:', error);
+    }
+  }, [selectedDoctorId, getBusyCalendars]);
+
+  useEffect(() => {
+    loadCalendars();
+  }, [loadCalendars]);
+
+  const handleImport = async () => {
+    if (!selectedDoctorId) return;
+    if (!icsText.trim()) {
+      Alert.alert('Nothing to Import', 'Paste the contents of a calendar (.ics) file first.');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const result = await importBusyCalendar(selectedDoctorId, icsText, calendarName);
+      if (!result.success) {
+        Alert.alert('Import Failed', result.error || 'Failed to import the calendar.');
+        return;
+      }
+
+      const blockCount = result.blocks?.length || 0;
+      const lines = [
+        `${blockCount} busy time${blockCount !== 1 ? 's' : ''} imported into "${result.source}".`
+      ];
+      if (result.removedCount) {
+        lines.push(`${result.removedCount} from the previous import replaced.`);
+      }
+      if (result.warnings && result.warnings.length > 0) {
+        lines.push(`${result.warnings.length} event${result.warnings.length !== 1 ? 's' : ''} could not be read.`);
+      }
+      if (result.overlappingAppointments && result.overlappingAppointments.length > 0) {
+        lines.push(
+          '',
+          'These appointments fall into the busy time and were kept:',
+          ...result.overlappingAppointments.map(appointment =>
+            `• ${formatDateTime(appointment.startDateISO)} - ${appointment.petName} (${appointment.ownerName})`
+          )
+        );
+      }
+
+      Alert.alert('Calendar Imported', lines.join('\n'));
+      setIcsText('');
+      setCalendarName('');
+      await loadCalendars();
+    } catch (error) {
+      console.error('Error importing busy calendar:', error);
+      Alert.alert('Error', 'Failed to import the calendar. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleRemove = (calendar: BusyCalendarSummary) => {
+    Alert.alert(
+      'Remove Calendar',
+      `Remove the busy times imported from "${calendar.source}"? Those times can be booked again.`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => removeCalendar(calendar.source)
+        }
+      ]
+    );
+  };
+
+  const removeCalendar = async (source: string) => {
+    if (!selectedDoctorId) return;
+
+    try {
+      const result = await removeBusyCalendar(selectedDoctorId, source);
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to remove the calendar.');
+      }
+      await loadCalendars();
+    } catch (error) {
+      console.error('Error removing busy calendar:', error);
+      Alert.alert('Error', 'Failed to remove the calendar. Please try again.');
+    }
+  };
+
+  const renderDoctorSelector = () => {
+    if (doctors.length <= 1) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Doctor</Text>
+        <View style={styles.chipRow}>
+          {doctors.map(doctor => (
+            <TouchableOpacity
+              key={doctor.id}
+              style={[styles.chip, selectedDoctorId === doctor.id && styles.selectedChip]}
+              onPress={() => setSelectedDoctorId(doctor.id)}
+            >
+              <Text style={[styles.chipText, selectedDoctorId === doctor.id && styles.selectedChipText]}>
+                {doctor.name}
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderCalendar = (calendar: BusyCalendarSummary) => {
+    const next = calendar.nextBlock;
+
+    return (
+      <View key={calendar.source} style={styles.row}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{calendar.source}</Text>
+          <TouchableOpacity onPress={() => handleRemove(calendar)}>
+            <Text style={styles.removeText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+        <Text style={styles.rowDetail}>
+          {calendar.blockCount} busy time{calendar.blockCount !== 1 ? 's' : ''} • imported {formatDate(calendar.importedAt)}
+        </Text>
+        {next && (
+          <Text style={styles.rowDetail}>
+            Next: {next.allDay ? formatDate(next.startISO) : formatDateTime(next.startISO)}
+            {next.summary ? ` - ${next.summary}` : ''}
+          </Text>
+        )}
+      </View>
+    );
+  };
+
+  const renderCalendars = () => {
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Imported Calendars</Text>
+        {calendars.length === 0 ? (
+          <Text style={styles.helpText}>
+            No calendars yet. Busy times from calendars you import are not offered to pet owners.
+          </Text>
+        ) : (
+          calendars.map(renderCalendar)
+        )}
+      </View>
+    );
+  };
+
+  const renderImportForm = () => {
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Import a Calendar</Text>
+        <Text style={styles.helpText}>
+          Paste the contents of a calendar (.ics) file. Events in the next {BUSY_IMPORT_DAYS} days are imported;
+          importing the same calendar again replaces them, so moved and cancelled events are picked up.
+        </Text>
+        <TextInput
+          style={[styles.textInput, styles.nameInput]}
+          value={calendarName}
+          onChangeText={setCalendarName}
+          placeholder="Calendar name (optional)"
+        />
+        <TextInput
+          style={[styles.textInput, styles.calendarInput]}
+          value={icsText}
+          onChangeText={setIcsText}
+          placeholder="BEGIN:VCALENDAR…"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+    );
+  };
+
+  if (!selectedDoctorId) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateTitle}>No Doctor</Text>
+        <Text style={styles.emptyStateText}>Busy calendars belong to a doctor profile.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {renderDoctorSelector()}
+        {renderCalendars()}
+        {renderImportForm()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+          onPress={handleImport}
+          disabled={isWorking}
+        >
+          <Text style={styles.primaryButtonText}>{isWorking ? 'Importing…' : 'Import Busy Times'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  nameInput: {
+    marginBottom: 12,
+  },
+  calendarInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  row: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginRight: 8,
+  },
+  removeText: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#FF3B30',
+  },
+  rowDetail: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#F2F2F7',
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
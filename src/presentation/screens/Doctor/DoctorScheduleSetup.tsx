@@ -7,35 +7,75 @@ import {
   StyleSheet, 
   Alert,
   ActivityIndicator,
-  Switch
+  Switch,
+  TextInput
 } from 'react-native';
-// Use a simple UUID generator for React Native compatibility
-const generateUUID = () => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
-};
-import { Doctor, Availability } from '../../../domain/entities/Doctor';
+import { useNavigation } from '@react-navigation/native';
+import {
+  Doctor,
+  Availability,
+  AvailabilityException,
+  AvailabilityExceptionType
+} from '../../../domain/entities/Doctor';
+import { VisitType } from '../../../domain/entities/VisitType';
 import { useAppState } from '../../hooks/useAppState';
+import RecurrenceEditor from '../../components/RecurrenceEditor';
 import { getWeekdayName, getShortWeekdayName } from '../../../shared/utils/date';
-import { createWeeklyRRule, createBiWeeklyRRule } from '../../../shared/utils/rruleHelpers';
+import {
+  RecurrenceOptions,
+  buildRRule,
+  parseRRule,
+  validateRecurrence
+} from '../../../shared/utils/rruleHelpers';
+import {
+  getDeviceTimeZone,
+  getTimeZoneAbbreviation,
+  isValidTimeZone,
+  toZonedDateString
+} from '../../../shared/utils/timezone';
+import { generateUUID } from '../../../shared/utils/uuid';
 
 interface AvailabilityForm {
   weekday: number;
   startTime: string;
   endTime: string;
   useRRule: boolean;
-  rruleType: 'weekly' | 'biweekly';
+  recurrence: RecurrenceOptions;
+  customRRule?: string; // Saved rule the editor cannot show; kept as-is until the pattern is edited
 }
 
+const createDefaultRecurrence = (weekday: number, startDate: string): RecurrenceOptions => ({
+  frequency: 'weekly',
+  interval: 1,
+  weekdays: [weekday],
+  startDate
+});
+
+const VISIT_DURATIONS = [15, 20, 30, 45, 60, 90, 120];
+const BUFFER_OPTIONS = [0, 5, 10, 15, 30];
+const EXCEPTION_TYPES: { value: AvailabilityExceptionType; label: string }[] = [
+  { value: 'block', label: 'Time Off' },
+  { value: 'extra', label: 'Extra Hours' },
+];
+
 export default function DoctorScheduleSetup() {
-  const { doctors, repository, refreshData, isLoading } = useAppState();
+  const navigation = useNavigation();
+  const { doctors: allDoctors, actor, updateDoctorSchedule, refreshData, isLoading } = useAppState();
+  
+  // Doctors edit their own schedule; clinic admins can edit any doctor's
+  const doctors = actor?.role === 'doctor'
+    ? allDoctors.filter(doctor => doctor.id === actor.doctorId)
+    : allDoctors;
   
   const [selectedDoctorId, setSelectedDoctorId] = useState<string>('');
   const [selectedDoctor, setSelectedDoctor] = useState<Doctor | null>(null);
   const [availabilityForms, setAvailabilityForms] = useState<AvailabilityForm[]>([]);
+  const [visitTypeForms, setVisitTypeForms] = useState<VisitType[]>([]);
+  const [bufferBeforeMinutes, setBufferBeforeMinutes] = useState(0);
+  const [bufferAfterMinutes, setBufferAfterMinutes] = useState(0);
+  const [exceptionForms, setExceptionForms] = useState<AvailabilityException[]>([]);
+  const [cancelAffected, setCancelAffected] = useState(false);
+  const [timeZone, setTimeZone] = useState(getDeviceTimeZone());
   const [isSaving, setIsSaving] = useState(false);
 
   const weekdays = [
@@ -67,15 +107,26 @@ export default function DoctorScheduleSetup() {
       
       if (doctor) {
         // Convert existing availability to forms
-        const forms = doctor.weeklyAvailability.map(availability => ({
-          weekday: availability.weekday,
-          startTime: availability.startTime,
-          endTime: availability.endTime,
-          useRRule: !!availability.rrule,
-          rruleType: availability.rrule?.includes('INTERVAL=2') ? 'biweekly' as const : 'weekly' as const
-        }));
+        const today = toZonedDateString(new Date(), doctor.timeZone || getDeviceTimeZone());
+        const forms = doctor.weeklyAvailability.map(availability => {
+          const recurrence = availability.rrule ? parseRRule(availability.rrule) : null;
+
+          return {
+            weekday: availability.weekday,
+            startTime: availability.startTime,
+            endTime: availability.endTime,
+            useRRule: !!availability.rrule,
+            recurrence: recurrence || createDefaultRecurrence(availability.weekday, today),
+            customRRule: availability.rrule && !recurrence ? availability.rrule : undefined
+          };
+        });
         
         setAvailabilityForms(forms);
+        setVisitTypeForms(doctor.visitTypes || []);
+        setBufferBeforeMinutes(doctor.bufferBeforeMinutes || 0);
+        setBufferAfterMinutes(doctor.bufferAfterMinutes || 0);
+        setExceptionForms(doctor.availabilityExceptions || []);
+        setTimeZone(doctor.timeZone || getDeviceTimeZone());
       }
     }
   }, [selectedDoctorId, doctors]);
@@ -86,7 +137,7 @@ export default function DoctorScheduleSetup() {
       startTime: '09:00',
       endTime: '17:00',
       useRRule: false,
-      rruleType: 'weekly'
+      recurrence: createDefaultRecurrence(1, toZonedDateString(new Date(), getDeviceTimeZone()))
     };
     
     setAvailabilityForms([...availabilityForms, newForm]);
@@ -104,7 +155,66 @@ export default function DoctorScheduleSetup() {
     setAvailabilityForms(updated);
   };
 
+  const addVisitType = () => {
+    const newVisitType: VisitType = {
+      id: generateUUID(),
+      name: '',
+      durationMinutes: 30,
+      bufferBeforeMinutes: 0,
+      bufferAfterMinutes: 0
+    };
+    
+    setVisitTypeForms([...visitTypeForms, newVisitType]);
+  };
+
+  const removeVisitType = (index: number) => {
+    setVisitTypeForms(visitTypeForms.filter((_, i) => i !== index));
+  };
+
+  const updateVisitType = (index: number, updates: Partial<VisitType>) => {
+    const updated = visitTypeForms.map((visitType, i) => 
+      i === index ? { ...visitType, ...updates } : visitType
+    );
+    setVisitTypeForms(updated);
+  };
+
+  const addException = () => {
+    const today = toZonedDateString(new Date(), isValidTimeZone(timeZone) ? timeZone : getDeviceTimeZone());
+    const newException: AvailabilityException = {
+      id: generateUUID(),
+      type: 'block',
+      startDate: today,
+      endDate: today
+    };
+
+    setExceptionForms([...exceptionForms, newException]);
+  };
+
+  const removeException = (index: number) => {
+    setExceptionForms(exceptionForms.filter((_, i) => i !== index));
+  };
+
+  const updateException = (index: number, updates: Partial<AvailabilityException>) => {
+    const updated = exceptionForms.map((exception, i) =>
+      i === index ? { ...exception, ...updates } : exception
+    );
+    setExceptionForms(updated);
+  };
+
+  // Days of week a form's availability can fall on, for overlap checks
+  const getFormWeekdays = (form: AvailabilityForm): number[] => {
+    return form.useRRule && !form.customRRule ? form.recurrence.weekdays : [form.weekday];
+  };
+
   const validateForms = (): boolean => {
+    for (let i = 0; i < visitTypeForms.length; i++) {
+      if (!visitTypeForms[i].name.trim()) {
+        Alert.alert('Missing Information', `Visit type ${i + 1}: Please enter a name.`);
+        return false;
+      }
+    }
+    
+
     for (let i = 0; i < availabilityForms.length; i++) {
       const form = availabilityForms[i];
       
@@ -113,11 +223,22 @@ export default function DoctorScheduleSetup() {
         Alert.alert('Invalid Time', `Slot ${i + 1}: End time must be after start time.`);
         return false;
       }
+
+      if (form.useRRule && !form.customRRule) {
+        const recurrenceError = validateRecurrence(form.recurrence);
+        if (recurrenceError) {
+          Alert.alert('Invalid Pattern', `Slot ${i + 1}: ${recurrenceError}.`);
+          return false;
+        }
+      }
       
       // Check for overlapping slots on the same day
       for (let j = i + 1; j < availabilityForms.length; j++) {
         const otherForm = availabilityForms[j];
-        if (form.weekday === otherForm.weekday) {
+        const sharedWeekday = getFormWeekdays(form).find(weekday =>
+          getFormWeekdays(otherForm).includes(weekday)
+        );
+        if (sharedWeekday !== undefined) {
           const startTime1 = form.startTime;
           const endTime1 = form.endTime;
           const startTime2 = otherForm.startTime;
@@ -127,7 +248,7 @@ export default function DoctorScheduleSetup() {
           if ((startTime1 < endTime2 && endTime1 > startTime2)) {
             Alert.alert(
               'Overlapping Times', 
-              `Slots ${i + 1} and ${j + 1} overlap on ${getWeekdayName(form.weekday)}.`
+              `Slots ${i + 1} and ${j + 1} overlap on ${getWeekdayName(sharedWeekday)}.`
             );
             return false;
           }
@@ -139,8 +260,8 @@ export default function DoctorScheduleSetup() {
   };
 
   const saveSchedule = async () => {
-    if (!selectedDoctor || !repository) {
-      Alert.alert('Error', 'Doctor or repository not available.');
+    if (!selectedDoctor || !actor) {
+      Alert.alert('Error', 'Doctor or schedule service not available.');
       return;
     }
 
@@ -153,22 +274,28 @@ export default function DoctorScheduleSetup() {
       return;
     }
 
+    const scheduleTimeZone = timeZone.trim();
+    if (!isValidTimeZone(scheduleTimeZone)) {
+      Alert.alert('Invalid Timezone', 'Please enter a timezone such as "America/New_York".');
+      return;
+    }
+
     setIsSaving(true);
 
     try {
       // Convert forms to availability objects
       const newAvailability: Availability[] = availabilityForms.map(form => {
         let rrule: string | undefined;
+        let weekday = form.weekday;
         
         if (form.useRRule) {
-          rrule = form.rruleType === 'biweekly' 
-            ? createBiWeeklyRRule(form.weekday)
-            : createWeeklyRRule(form.weekday);
+          rrule = form.customRRule || buildRRule(form.recurrence, scheduleTimeZone);
+          weekday = form.customRRule ? form.weekday : form.recurrence.weekdays[0];
         }
         
         return {
           id: generateUUID(),
-          weekday: form.weekday,
+          weekday,
           startTime: form.startTime,
           endTime: form.endTime,
           rrule
@@ -176,19 +303,51 @@ export default function DoctorScheduleSetup() {
       });
 
       // Update doctor with new availability
-      const updatedDoctor: Doctor = {
-        ...selectedDoctor,
-        weeklyAvailability: newAvailability
-      };
+      const submission = await updateDoctorSchedule(
+        selectedDoctor.id,
+        {
+          weeklyAvailability: newAvailability,
+          visitTypes: visitTypeForms.map(visitType => ({
+            ...visitType,
+            name: visitType.name.trim()
+          })),
+          bufferBeforeMinutes,
+          bufferAfterMinutes,
+          timeZone: scheduleTimeZone,
+          availabilityExceptions: exceptionForms.map(exception => ({
+            ...exception,
+            startDate: exception.startDate.trim(),
+            endDate: exception.endDate.trim(),
+            reason: exception.reason?.trim() || undefined
+          }))
+        },
+        cancelAffected
+      );
+
+      if (submission.pending) {
+        Alert.alert('Saved Offline', 'The new schedule will be sent when the clinic can be reached.');
+        return;
+      }
+
+      const { result } = submission;
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to save schedule.');
+        return;
+      }
 
-      await repository.updateDoctor(updatedDoctor);
       await refreshData();
 
-      Alert.alert(
-        'Schedule Updated',
-        'Your availability schedule has been successfully updated.',
-        [{ text: 'OK' }]
-      );
+      const affectedCount = result.affectedAppointments?.length || 0;
+      const cancelledCount = result.cancelledAppointments?.length || 0;
+      let message = 'Your availability schedule has been successfully updated.';
+
+      if (cancelledCount > 0) {
+        message += ` ${cancelledCount} appointment(s) in the new time off were cancelled.`;
+      } else if (affectedCount > 0) {
+        message += ` ${affectedCount} booked appointment(s) fall in the new time off and were kept.`;
+      }
+
+      Alert.alert('Schedule Updated', message, [{ text: 'OK' }]);
 
     } catch (error) {
       console.error('Error saving schedule:', error);
@@ -240,29 +399,34 @@ export default function DoctorScheduleSetup() {
           </TouchableOpacity>
         </View>
 
-        {/* Weekday Selector */}
-        <View style={styles.formSection}>
-          <Text style={styles.formLabel}>Day of Week</Text>
-          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
-            {weekdays.map((day) => (
-              <TouchableOpacity
-                key={day.value}
-                style={[
-                  styles.weekdayButton,
-                  form.weekday === day.value && styles.selectedWeekdayButton,
-                ]}
-                onPress={() => updateAvailabilityForm(index, { weekday: day.value })}
-              >
-                <Text style={[
-                  styles.weekdayButtonText,
-                  form.weekday === day.value && styles.selectedWeekdayButtonText,
-                ]}>
-                  {day.short}
-                </Text>
-              </TouchableOpacity>
-            ))}
-          </ScrollView>
-        </View>
+        {/* Weekday Selector (recurring patterns pick their own days) */}
+        {!(form.useRRule && !form.customRRule) && (
+          <View style={styles.formSection}>
+            <Text style={styles.formLabel}>Day of Week</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {weekdays.map((day) => (
+                <TouchableOpacity
+                  key={day.value}
+                  style={[
+                    styles.weekdayButton,
+                    form.weekday === day.value && styles.selectedWeekdayButton,
+                  ]}
+                  onPress={() => updateAvailabilityForm(index, {
+                    weekday: day.value,
+                    recurrence: { ...form.recurrence, weekdays: [day.value] }
+                  })}
+                >
+                  <Text style={[
+                    styles.weekdayButtonText,
+                    form.weekday === day.value && styles.selectedWeekdayButtonText,
+                  ]}>
+                    {day.short}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
 
         {/* Time Selectors */}
         <View style={styles.timeSection}>
@@ -325,39 +489,272 @@ export default function DoctorScheduleSetup() {
             />
           </View>
 
-          {form.useRRule && (
-            <View style={styles.rruleOptions}>
+          {form.useRRule && form.customRRule && (
+            <View>
+              <Text style={styles.hintText}>
+                This slot uses a custom rule that is kept as-is: {form.customRRule}
+              </Text>
               <TouchableOpacity
-                style={[
-                  styles.rruleButton,
-                  form.rruleType === 'weekly' && styles.selectedRruleButton,
-                ]}
-                onPress={() => updateAvailabilityForm(index, { rruleType: 'weekly' })}
+                style={styles.rruleButton}
+                onPress={() => updateAvailabilityForm(index, { customRRule: undefined })}
               >
-                <Text style={[
-                  styles.rruleButtonText,
-                  form.rruleType === 'weekly' && styles.selectedRruleButtonText,
-                ]}>
-                  Every Week
-                </Text>
+                <Text style={styles.rruleButtonText}>Replace Pattern</Text>
               </TouchableOpacity>
+            </View>
+          )}
+
+          {form.useRRule && !form.customRRule && (
+            <RecurrenceEditor
+              value={form.recurrence}
+              onChange={(recurrence) => updateAvailabilityForm(index, { recurrence })}
+            />
+          )}
+        </View>
+      </View>
+    );
+  };
+
+  const renderOptionRow = (
+    options: number[],
+    selected: number,
+    onSelect: (value: number) => void,
+    formatLabel: (value: number) => string
+  ) => {
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {options.map((value) => (
+          <TouchableOpacity
+            key={value}
+            style={[
+              styles.timeButton,
+              selected === value && styles.selectedTimeButton,
+            ]}
+            onPress={() => onSelect(value)}
+          >
+            <Text style={[
+              styles.timeButtonText,
+              selected === value && styles.selectedTimeButtonText,
+            ]}>
+              {formatLabel(value)}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+  };
+
+  const renderVisitTypeForm = (visitType: VisitType, index: number) => {
+    const specialties = selectedDoctor?.specialties || [];
+
+    return (
+      <View key={visitType.id} style={styles.availabilityForm}>
+        <View style={styles.formHeader}>
+          <Text style={styles.formTitle}>Visit Type {index + 1}</Text>
+          <TouchableOpacity 
+            style={styles.removeButton}
+            onPress={() => removeVisitType(index)}
+          >
+            <Text style={styles.removeButtonText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>Name</Text>
+          <TextInput
+            style={styles.textInput}
+            value={visitType.name}
+            onChangeText={(name) => updateVisitType(index, { name })}
+            placeholder="e.g. Vaccination"
+          />
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>Duration</Text>
+          {renderOptionRow(
+            VISIT_DURATIONS,
+            visitType.durationMinutes,
+            (durationMinutes) => updateVisitType(index, { durationMinutes }),
+            (value) => `${value} min`
+          )}
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>Buffer Before</Text>
+          {renderOptionRow(
+            BUFFER_OPTIONS,
+            visitType.bufferBeforeMinutes,
+            (value) => updateVisitType(index, { bufferBeforeMinutes: value }),
+            (value) => `${value} min`
+          )}
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>Buffer After</Text>
+          {renderOptionRow(
+            BUFFER_OPTIONS,
+            visitType.bufferAfterMinutes,
+            (value) => updateVisitType(index, { bufferAfterMinutes: value }),
+            (value) => `${value} min`
+          )}
+        </View>
+
+        {specialties.length > 0 && (
+          <View style={styles.formSection}>
+            <Text style={styles.formLabel}>Required Specialty</Text>
+            <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+              {[undefined, ...specialties].map((specialty) => (
+                <TouchableOpacity
+                  key={specialty || 'any'}
+                  style={[
+                    styles.timeButton,
+                    visitType.requiredSpecialty === specialty && styles.selectedTimeButton,
+                  ]}
+                  onPress={() => updateVisitType(index, { requiredSpecialty: specialty })}
+                >
+                  <Text style={[
+                    styles.timeButtonText,
+                    visitType.requiredSpecialty === specialty && styles.selectedTimeButtonText,
+                  ]}>
+                    {specialty || 'Any'}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </ScrollView>
+          </View>
+        )}
+      </View>
+    );
+  };
+
+  const renderTimeRow = (selected: string | undefined, onSelect: (time: string) => void) => {
+    return (
+      <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+        {timeSlots.map((time) => (
+          <TouchableOpacity
+            key={time}
+            style={[
+              styles.timeButton,
+              selected === time && styles.selectedTimeButton,
+            ]}
+            onPress={() => onSelect(time)}
+          >
+            <Text style={[
+              styles.timeButtonText,
+              selected === time && styles.selectedTimeButtonText,
+            ]}>
+              {time}
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
+  };
 
+  const renderExceptionForm = (exception: AvailabilityException, index: number) => {
+    const isAllDay = !exception.startTime && !exception.endTime;
+
+    return (
+      <View key={exception.id} style={styles.availabilityForm}>
+        <View style={styles.formHeader}>
+          <Text style={styles.formTitle}>Exception {index + 1}</Text>
+          <TouchableOpacity 
+            style={styles.removeButton}
+            onPress={() => removeException(index)}
+          >
+            <Text style={styles.removeButtonText}>Remove</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>Type</Text>
+          <ScrollView horizontal showsHorizontalScrollIndicator={false}>
+            {EXCEPTION_TYPES.map((option) => (
               <TouchableOpacity
+                key={option.value}
                 style={[
-                  styles.rruleButton,
-                  form.rruleType === 'biweekly' && styles.selectedRruleButton,
+                  styles.timeButton,
+                  exception.type === option.value && styles.selectedTimeButton,
                 ]}
-                onPress={() => updateAvailabilityForm(index, { rruleType: 'biweekly' })}
+                onPress={() => updateException(
+                  index,
+                  // Extra hours always need a time range
+                  option.value === 'extra' && isAllDay
+                    ? { type: option.value, startTime: '09:00', endTime: '12:00' }
+                    : { type: option.value }
+                )}
               >
                 <Text style={[
-                  styles.rruleButtonText,
-                  form.rruleType === 'biweekly' && styles.selectedRruleButtonText,
+                  styles.timeButtonText,
+                  exception.type === option.value && styles.selectedTimeButtonText,
                 ]}>
-                  Every 2 Weeks
+                  {option.label}
                 </Text>
               </TouchableOpacity>
+            ))}
+          </ScrollView>
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>From (YYYY-MM-DD)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={exception.startDate}
+            onChangeText={(value) => updateException(index, { startDate: value })}
+            placeholder="2025-12-24"
+            autoCapitalize="none"
+          />
+        </View>
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>To (YYYY-MM-DD)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={exception.endDate}
+            onChangeText={(value) => updateException(index, { endDate: value })}
+            placeholder="2025-12-26"
+            autoCapitalize="none"
+          />
+        </View>
+
+        {exception.type === 'block' && (
+          <View style={styles.rruleToggle}>
+            <Text style={styles.formLabel}>All Day</Text>
+            <Switch
+              value={isAllDay}
+              onValueChange={(value) => updateException(
+                index,
+                value
+                  ? { startTime: undefined, endTime: undefined }
+                  : { startTime: '09:00', endTime: '12:00' }
+              )}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        )}
+
+        {!isAllDay && (
+          <View style={styles.timeSection}>
+            <View style={styles.timeSelector}>
+              <Text style={styles.formLabel}>Start Time</Text>
+              {renderTimeRow(exception.startTime, (time) => updateException(index, { startTime: time }))}
             </View>
-          )}
+
+            <View style={styles.timeSelector}>
+              <Text style={styles.formLabel}>End Time</Text>
+              {renderTimeRow(exception.endTime, (time) => updateException(index, { endTime: time }))}
+            </View>
+          </View>
+        )}
+
+        <View style={styles.formSection}>
+          <Text style={styles.formLabel}>Reason</Text>
+          <TextInput
+            style={styles.textInput}
+            value={exception.reason || ''}
+            onChangeText={(value) => updateException(index, { reason: value })}
+            placeholder={exception.type === 'block' ? 'e.g. Vacation' : 'e.g. Saturday vaccination clinic'}
+          />
         </View>
       </View>
     );
@@ -384,6 +781,29 @@ export default function DoctorScheduleSetup() {
 
         {renderDoctorSelector()}
 
+        <View style={styles.availabilitySection}>
+          <Text style={styles.sectionTitle}>Timezone</Text>
+          <Text style={styles.hintText}>
+            All times on this screen are clinic times in this timezone
+            {isValidTimeZone(timeZone.trim())
+              ? ` (currently ${getTimeZoneAbbreviation(new Date(), timeZone.trim())})`
+              : ''}.
+          </Text>
+          <TextInput
+            style={styles.textInput}
+            value={timeZone}
+            onChangeText={setTimeZone}
+            placeholder="America/New_York"
+            autoCapitalize="none"
+            autoCorrect={false}
+          />
+          {timeZone.trim() !== getDeviceTimeZone() && (
+            <TouchableOpacity onPress={() => setTimeZone(getDeviceTimeZone())}>
+              <Text style={styles.linkText}>Use this device's timezone ({getDeviceTimeZone()})</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+
         <View style={styles.availabilitySection}>
           <Text style={styles.sectionTitle}>Availability Slots</Text>
           
@@ -398,6 +818,96 @@ export default function DoctorScheduleSetup() {
             <Text style={styles.addButtonText}>+ Add Availability Slot</Text>
           </TouchableOpacity>
         </View>
+
+        <View style={styles.availabilitySection}>
+          <Text style={styles.sectionTitle}>Turnaround Time</Text>
+          <Text style={styles.hintText}>
+            Kept free around every appointment. Visit types can ask for longer buffers.
+          </Text>
+          <View style={styles.availabilityForm}>
+            <View style={styles.formSection}>
+              <Text style={styles.formLabel}>Before Each Appointment</Text>
+              {renderOptionRow(
+                BUFFER_OPTIONS,
+                bufferBeforeMinutes,
+                setBufferBeforeMinutes,
+                (value) => `${value} min`
+              )}
+            </View>
+
+            <View style={styles.formSection}>
+              <Text style={styles.formLabel}>After Each Appointment</Text>
+              {renderOptionRow(
+                BUFFER_OPTIONS,
+                bufferAfterMinutes,
+                setBufferAfterMinutes,
+                (value) => `${value} min`
+              )}
+            </View>
+          </View>
+        </View>
+
+        <View style={styles.availabilitySection}>
+          <Text style={styles.sectionTitle}>Visit Types</Text>
+          {visitTypeForms.length === 0 && (
+            <Text style={styles.hintText}>
+              Without visit types, owners book 30 minute standard consultations.
+            </Text>
+          )}
+          
+          {visitTypeForms.map((visitType, index) => 
+            renderVisitTypeForm(visitType, index)
+          )}
+
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={addVisitType}
+          >
+            <Text style={styles.addButtonText}>+ Add Visit Type</Text>
+          </TouchableOpacity>
+        </View>
+
+        <View style={styles.availabilitySection}>
+          <Text style={styles.sectionTitle}>Exceptions</Text>
+          <Text style={styles.hintText}>
+            Block holidays or partial days off, or open extra hours on specific dates.
+          </Text>
+
+          {exceptionForms.map((exception, index) => 
+            renderExceptionForm(exception, index)
+          )}
+
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={addException}
+          >
+            <Text style={styles.addButtonText}>+ Add Exception</Text>
+          </TouchableOpacity>
+
+          <View style={styles.rruleToggle}>
+            <Text style={styles.formLabel}>Cancel bookings in new time off</Text>
+            <Switch
+              value={cancelAffected}
+              onValueChange={setCancelAffected}
+              trackColor={{ false: '#E5E5EA', true: '#007AFF' }}
+              thumbColor="#FFFFFF"
+            />
+          </View>
+        </View>
+
+        <View style={styles.availabilitySection}>
+          <Text style={styles.sectionTitle}>Busy Calendars</Text>
+          <Text style={styles.hintText}>
+            Import personal or hospital calendars so their busy times are not offered to pet owners.
+          </Text>
+
+          <TouchableOpacity 
+            style={styles.addButton}
+            onPress={() => navigation.navigate('DoctorBusyCalendars' as never)}
+          >
+            <Text style={styles.addButtonText}>Manage Busy Calendars</Text>
+          </TouchableOpacity>
+        </View>
       </ScrollView>
 
       <View style={styles.footer}>
@@ -579,6 +1089,25 @@ const styles = StyleSheet.create({
   selectedTimeButtonText: {
     color: '#FFFFFF',
   },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 10,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+    marginTop: 8,
+  },
+  hintText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
   rruleSection: {
     borderTopWidth: 1,
     borderTopColor: '#F2F2F7',
@@ -590,27 +1119,18 @@ const styles = StyleSheet.create({
     alignItems: 'center',
     marginBottom: 12,
   },
-  rruleOptions: {
-    flexDirection: 'row',
-  },
   rruleButton: {
     backgroundColor: '#F2F2F7',
     borderRadius: 8,
     paddingHorizontal: 16,
     paddingVertical: 8,
-    marginRight: 8,
-  },
-  selectedRruleButton: {
-    backgroundColor: '#34C759',
+    alignSelf: 'flex-start',
   },
   rruleButtonText: {
     fontSize: 14,
     color: '#1C1C1E',
     fontWeight: '500',
   },
-  selectedRruleButtonText: {
-    color: '#FFFFFF',
-  },
   addButton: {
     backgroundColor: '#007AFF',
     borderRadius: 12,
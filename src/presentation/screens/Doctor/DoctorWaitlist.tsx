@@ -0,0 +1,201 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import { WaitlistEntry } from '../../../domain/entities/Waitlist';
+import { useAppState } from '../../hooks/useAppState';
+import WaitlistEntryCard from '../../components/WaitlistEntryCard';
+
+export default function DoctorWaitlist() {
+  const { waitlist, doctors: allDoctors, actor, manageWaitlistUseCase, refreshData } = useAppState();
+
+  // Doctors only see their own waitlist; clinic admins can switch between doctors
+  const doctors = actor?.role === 'doctor'
+    ? allDoctors.filter(doctor => doctor.id === actor.doctorId)
+    : allDoctors;
+
+  const [selectedDoctorId, setSelectedDoctorId] = useState<string>('');
+  const [showInactive, setShowInactive] = useState(false);
+
+  // Active entries in the order they will be offered slots
+  const entries = waitlist
+    .filter(entry => !selectedDoctorId || entry.doctorId === selectedDoctorId)
+    .filter(entry => showInactive || entry.status === 'waiting' || entry.status === 'offered')
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const handleRemove = (entry: WaitlistEntry) => {
+    Alert.alert(
+      'Remove from Waitlist',
+      `Remove ${entry.petName} (${entry.ownerName}) from the waitlist?`,
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Remove',
+          style: 'destructive',
+          onPress: () => removeEntry(entry.id)
+        }
+      ]
+    );
+  };
+
+  const removeEntry = async (entryId: string) => {
+    if (!manageWaitlistUseCase || !actor) {
+      Alert.alert('Error', 'Waitlist service is not available.');
+      return;
+    }
+
+    try {
+      const result = await manageWaitlistUseCase.leave(entryId, actor);
+      await refreshData();
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to remove the waitlist entry.');
+      }
+    } catch (error) {
+      console.error('Error removing waitlist entry:', error);
+      Alert.alert('Error', 'Failed to remove the waitlist entry. Please try again.');
+    }
+  };
+
+  const renderChip = (key: string, label: string, isSelected: boolean, onPress: () => void) => {
+    return (
+      <TouchableOpacity
+        key={key}
+        style={[styles.chip, isSelected && styles.selectedChip]}
+        onPress={onPress}
+      >
+        <Text style={[styles.chipText, isSelected && styles.selectedChipText]}>{label}</Text>
+      </TouchableOpacity>
+    );
+  };
+
+  const renderHeader = () => {
+    const waitingCount = entries.filter(entry => entry.status === 'waiting').length;
+    const offeredCount = entries.filter(entry => entry.status === 'offered').length;
+
+    return (
+      <View style={styles.header}>
+        <Text style={styles.title}>Waitlist</Text>
+        <Text style={styles.subtitle}>
+          {waitingCount} waiting • {offeredCount} holding a freed slot
+        </Text>
+
+        {doctors.length > 1 && (
+          <View style={styles.chipRow}>
+            {renderChip('all', 'All Doctors', !selectedDoctorId, () => setSelectedDoctorId(''))}
+            {doctors.map(doctor =>
+              renderChip(doctor.id, doctor.name, selectedDoctorId === doctor.id, () =>
+                setSelectedDoctorId(doctor.id)
+              )
+            )}
+          </View>
+        )}
+
+        <View style={styles.chipRow}>
+          {renderChip('active', 'Active', !showInactive, () => setShowInactive(false))}
+          {renderChip('history', 'Include History', showInactive, () => setShowInactive(true))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateTitle}>Nobody Is Waiting</Text>
+        <Text style={styles.emptyStateText}>
+          Owners who join the waitlist appear here. Cancelled slots are offered to them in order.
+        </Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <WaitlistEntryCard entry={item} showOwner onRemove={() => handleRemove(item)} />
+        )}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  listContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    paddingHorizontal: 16,
+    paddingTop: 16,
+    paddingBottom: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 24,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 4,
+  },
+  subtitle: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+    marginBottom: 4,
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
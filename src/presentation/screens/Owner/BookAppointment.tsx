@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -12,60 +12,169 @@ import {
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { Doctor, TimeSlot } from '../../../domain/entities/Doctor';
 import { AppointmentCreate } from '../../../domain/entities/Appointment';
+import { SlotHold } from '../../../domain/entities/SlotHold';
+import { Pet, PetSex } from '../../../domain/entities/Pet';
 import { useAppState } from '../../hooks/useAppState';
 import { formatDateTime } from '../../../shared/utils/date';
+import {
+  formatTimeInZone,
+  getDeviceTimeZone,
+  getDoctorTimeZone,
+  isSameOffset,
+  toZonedDateString
+} from '../../../shared/utils/timezone';
+import { findDoctorVisitType } from '../../../shared/utils/visitTypes';
+import { generateUUID } from '../../../shared/utils/uuid';
 
 interface RouteParams {
   doctor: Doctor;
   selectedSlot: TimeSlot;
+  slotHold?: SlotHold; // Keeps the slot from other owners while this form is open
 }
 
+const SPECIES_OPTIONS = ['dog', 'cat', 'bird', 'rabbit', 'reptile', 'other'];
+const SEX_OPTIONS: PetSex[] = ['male', 'female', 'unknown'];
+
 export default function BookAppointment() {
   const navigation = useNavigation();
   const route = useRoute();
-  const { doctor, selectedSlot } = route.params as RouteParams;
-  const { bookAppointmentUseCase, refreshData } = useAppState();
+  const { doctor, selectedSlot, slotHold } = route.params as RouteParams;
+  const { bookAppointment, petRepository, pets, currentOwner, actor, refreshData } = useAppState();
+  const visitType = findDoctorVisitType(doctor, selectedSlot.visitTypeId);
+  const clinicTimeZone = getDoctorTimeZone(doctor);
   
-  const [ownerName, setOwnerName] = useState('');
+  const [selectedPetId, setSelectedPetId] = useState('');
+  const [isAddingPet, setIsAddingPet] = useState(false);
   const [petName, setPetName] = useState('');
+  const [species, setSpecies] = useState('dog');
+  const [breed, setBreed] = useState('');
+  const [sex, setSex] = useState<PetSex>('unknown');
+  const [birthDate, setBirthDate] = useState('');
+  const [weight, setWeight] = useState('');
+  const [microchipId, setMicrochipId] = useState('');
   const [disease, setDisease] = useState('');
   const [notes, setNotes] = useState('');
   const [isBooking, setIsBooking] = useState(false);
+  const [now, setNow] = useState(Date.now());
 
-  const handleBookAppointment = async () => {
-    // Validate required fields
-    if (!ownerName.trim()) {
-      Alert.alert('Missing Information', 'Please enter the owner name.');
-      return;
-    }
+  const holdSecondsLeft = slotHold
+    ? Math.max(0, Math.ceil((new Date(slotHold.expiresAt).getTime() - now) / 1000))
+    : 0;
+
+  // Tick the hold countdown once a second until it runs out
+  useEffect(() => {
+    if (!slotHold) return;
+
+    const timer = setInterval(() => {
+      setNow(Date.now());
+      if (Date.now() >= new Date(slotHold.expiresAt).getTime()) {
+        clearInterval(timer);
+      }
+    }, 1000);
+
+    return () => clearInterval(timer);
+  }, [slotHold]);
 
+  const ownerPets = currentOwner
+    ? pets.filter(pet => pet.ownerId === currentOwner.id)
+    : [];
+  const showPetForm = isAddingPet || ownerPets.length === 0;
+
+  const validateNewPet = (): boolean => {
     if (!petName.trim()) {
       Alert.alert('Missing Information', 'Please enter the pet name.');
+      return false;
+    }
+
+    if (birthDate.trim() && isNaN(new Date(birthDate.trim()).getTime())) {
+      Alert.alert('Invalid Birth Date', 'Please enter the birth date as YYYY-MM-DD.');
+      return false;
+    }
+
+    if (weight.trim() && !(Number(weight.trim()) > 0)) {
+      Alert.alert('Invalid Weight', 'Please enter the weight in kilograms.');
+      return false;
+    }
+
+    return true;
+  };
+
+  const saveNewPet = async (ownerId: string): Promise<Pet> => {
+    if (!petRepository) {
+      throw new Error('Pet service is not available');
+    }
+
+    const pet: Pet = {
+      id: generateUUID(),
+      name: petName.trim(),
+      species,
+      breed: breed.trim() || undefined,
+      birthDateISO: birthDate.trim() ? new Date(birthDate.trim()).toISOString() : undefined,
+      weightKg: weight.trim() ? Number(weight.trim()) : undefined,
+      sex,
+      microchipId: microchipId.trim() || undefined,
+      ownerId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    await petRepository.createPet(pet);
+    return pet;
+  };
+
+  const handleBookAppointment = async () => {
+    // Bookings always belong to the signed-in owner
+    if (!currentOwner || !actor) {
+      Alert.alert(
+        'Sign In Required',
+        'Please sign in with an owner account before booking.'
+      );
       return;
     }
 
-    if (!bookAppointmentUseCase) {
-      Alert.alert('Error', 'Booking service is not available.');
+    const selectedPet = ownerPets.find(pet => pet.id === selectedPetId);
+
+    if (showPetForm) {
+      if (!validateNewPet()) {
+        return;
+      }
+    } else if (!selectedPet) {
+      Alert.alert('Missing Information', 'Please select which pet the appointment is for.');
       return;
     }
 
     setIsBooking(true);
 
     try {
+      const pet = showPetForm ? await saveNewPet(currentOwner.id) : selectedPet!;
+
       const appointmentData: AppointmentCreate = {
         doctorId: doctor.id,
         doctorName: doctor.name,
-        ownerName: ownerName.trim(),
-        petName: petName.trim(),
+        ownerId: currentOwner.id,
+        ownerName: currentOwner.name,
+        petId: pet.id,
+        petName: pet.name,
         disease: disease.trim() || undefined,
+        visitTypeId: selectedSlot.visitTypeId,
         startDateISO: selectedSlot.startISO,
         endDateISO: selectedSlot.endISO,
         location: doctor.location,
         notes: notes.trim() || undefined,
       };
 
-      const result = await bookAppointmentUseCase.execute(appointmentData);
+      const submission = await bookAppointment(appointmentData, slotHold?.id);
+
+      if (submission.pending) {
+        Alert.alert(
+          'Saved Offline',
+          `Your booking with ${doctor.name} for ${formatDateTime(selectedSlot.startISO)} will be sent when the clinic can be reached. If the slot is taken by then, you can pick another under Offline Changes.`,
+          [{ text: 'OK', onPress: () => navigation.navigate('DoctorList' as never) }]
+        );
+        return;
+      }
 
+      const { result } = submission;
       if (result.success) {
         // Refresh data to update the UI
         await refreshData();
@@ -95,6 +204,15 @@ export default function BookAppointment() {
             `${result.error}\n\nNext available slots:\n${alternatives}`,
             [
               { text: 'OK' },
+              {
+                text: 'Join Waitlist',
+                onPress: () => navigation.navigate('JoinWaitlist' as never, {
+                  doctor,
+                  visitTypeId: selectedSlot.visitTypeId,
+                  date: toZonedDateString(new Date(selectedSlot.startISO), clinicTimeZone),
+                  petId: pet.id
+                } as never)
+              },
               {
                 text: 'Go Back',
                 onPress: () => navigation.goBack()
@@ -113,6 +231,31 @@ export default function BookAppointment() {
     }
   };
 
+  const renderHoldCountdown = () => {
+    if (!slotHold) return null;
+
+    if (holdSecondsLeft === 0) {
+      return (
+        <View style={[styles.holdBanner, styles.holdExpiredBanner]}>
+          <Text style={styles.holdExpiredText}>
+            Your hold on this time has expired. You can still book it if nobody else has.
+          </Text>
+        </View>
+      );
+    }
+
+    const minutes = Math.floor(holdSecondsLeft / 60);
+    const seconds = holdSecondsLeft % 60;
+
+    return (
+      <View style={styles.holdBanner}>
+        <Text style={styles.holdText}>
+          This time is held for you for {minutes}:{seconds.toString().padStart(2, '0')}
+        </Text>
+      </View>
+    );
+  };
+
   const renderAppointmentSummary = () => {
     return (
       <View style={styles.summaryContainer}>
@@ -133,42 +276,180 @@ export default function BookAppointment() {
           <Text style={styles.summaryValue}>{formatDateTime(selectedSlot.startISO)}</Text>
         </View>
         
+        {!isSameOffset(selectedSlot.startISO, clinicTimeZone, getDeviceTimeZone()) && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Clinic Time:</Text>
+            <Text style={styles.summaryValue}>{formatTimeInZone(selectedSlot.startISO, clinicTimeZone)}</Text>
+          </View>
+        )}
+        
+        {visitType && (
+          <View style={styles.summaryRow}>
+            <Text style={styles.summaryLabel}>Visit:</Text>
+            <Text style={styles.summaryValue}>{visitType.name}</Text>
+          </View>
+        )}
+        
         <View style={styles.summaryRow}>
           <Text style={styles.summaryLabel}>Duration:</Text>
-          <Text style={styles.summaryValue}>30 minutes</Text>
+          <Text style={styles.summaryValue}>
+            {visitType ? visitType.durationMinutes : 30} minutes
+          </Text>
         </View>
       </View>
     );
   };
 
-  const renderForm = () => {
+  const renderPetSelector = () => {
     return (
-      <View style={styles.formContainer}>
-        <Text style={styles.formTitle}>Pet & Owner Information</Text>
-        
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Pet *</Text>
+        <View style={styles.chipRow}>
+          {ownerPets.map(pet => (
+            <TouchableOpacity
+              key={pet.id}
+              style={[
+                styles.chip,
+                !isAddingPet && selectedPetId === pet.id && styles.selectedChip,
+              ]}
+              onPress={() => {
+                setSelectedPetId(pet.id);
+                setIsAddingPet(false);
+              }}
+            >
+              <Text style={[
+                styles.chipText,
+                !isAddingPet && selectedPetId === pet.id && styles.selectedChipText,
+              ]}>
+                {pet.name} ({pet.species})
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.chip, isAddingPet && styles.selectedChip]}
+            onPress={() => setIsAddingPet(true)}
+          >
+            <Text style={[styles.chipText, isAddingPet && styles.selectedChipText]}>
+              + New Pet
+            </Text>
+          </TouchableOpacity>
+        </View>
+      </View>
+    );
+  };
+
+  const renderPetForm = () => {
+    return (
+      <View>
         <View style={styles.inputGroup}>
-          <Text style={styles.inputLabel}>Owner Name *</Text>
+          <Text style={styles.inputLabel}>Pet Name *</Text>
           <TextInput
             style={styles.textInput}
-            value={ownerName}
-            onChangeText={setOwnerName}
-            placeholder="Enter owner's full name"
+            value={petName}
+            onChangeText={setPetName}
+            placeholder="Enter pet's name"
             autoCapitalize="words"
             returnKeyType="next"
           />
         </View>
-        
+
         <View style={styles.inputGroup}>
-          <Text style={styles.inputLabel}>Pet Name *</Text>
+          <Text style={styles.inputLabel}>Species *</Text>
+          <View style={styles.chipRow}>
+            {SPECIES_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, species === option && styles.selectedChip]}
+                onPress={() => setSpecies(option)}
+              >
+                <Text style={[styles.chipText, species === option && styles.selectedChipText]}>
+                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Sex</Text>
+          <View style={styles.chipRow}>
+            {SEX_OPTIONS.map(option => (
+              <TouchableOpacity
+                key={option}
+                style={[styles.chip, sex === option && styles.selectedChip]}
+                onPress={() => setSex(option)}
+              >
+                <Text style={[styles.chipText, sex === option && styles.selectedChipText]}>
+                  {option.charAt(0).toUpperCase() + option.slice(1)}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Breed</Text>
           <TextInput
             style={styles.textInput}
-            value={petName}
-            onChangeText={setPetName}
-            placeholder="Enter pet's name"
+            value={breed}
+            onChangeText={setBreed}
+            placeholder="e.g., Labrador Retriever"
             autoCapitalize="words"
             returnKeyType="next"
           />
         </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Birth Date</Text>
+          <TextInput
+            style={styles.textInput}
+            value={birthDate}
+            onChangeText={setBirthDate}
+            placeholder="YYYY-MM-DD"
+            returnKeyType="next"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Weight (kg)</Text>
+          <TextInput
+            style={styles.textInput}
+            value={weight}
+            onChangeText={setWeight}
+            placeholder="e.g., 12.5"
+            keyboardType="decimal-pad"
+            returnKeyType="next"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Microchip ID</Text>
+          <TextInput
+            style={styles.textInput}
+            value={microchipId}
+            onChangeText={setMicrochipId}
+            placeholder="15-digit microchip number"
+            returnKeyType="next"
+          />
+        </View>
+      </View>
+    );
+  };
+
+  const renderForm = () => {
+    return (
+      <View style={styles.formContainer}>
+        <Text style={styles.formTitle}>Pet & Owner Information</Text>
+        
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Owner</Text>
+          <Text style={styles.ownerText}>
+            {currentOwner ? currentOwner.name : 'Not signed in'}
+          </Text>
+        </View>
+        
+        {ownerPets.length > 0 && renderPetSelector()}
+        {showPetForm && renderPetForm()}
         
         <View style={styles.inputGroup}>
           <Text style={styles.inputLabel}>Condition/Reason for Visit</Text>
@@ -202,6 +483,7 @@ export default function BookAppointment() {
   return (
     <View style={styles.container}>
       <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {renderHoldCountdown()}
         {renderAppointmentSummary()}
         {renderForm()}
       </ScrollView>
@@ -242,6 +524,28 @@ const styles = StyleSheet.create({
   scrollView: {
     flex: 1,
   },
+  holdBanner: {
+    backgroundColor: '#E5F1FF',
+    marginHorizontal: 16,
+    marginTop: 16,
+    borderRadius: 12,
+    padding: 12,
+  },
+  holdExpiredBanner: {
+    backgroundColor: '#FFF4E5',
+  },
+  holdText: {
+    fontSize: 15,
+    color: '#007AFF',
+    fontWeight: '600',
+    textAlign: 'center',
+  },
+  holdExpiredText: {
+    fontSize: 15,
+    color: '#FF9500',
+    fontWeight: '500',
+    textAlign: 'center',
+  },
   summaryContainer: {
     backgroundColor: '#FFFFFF',
     margin: 16,
@@ -326,6 +630,33 @@ const styles = StyleSheet.create({
     height: 80,
     paddingTop: 12,
   },
+  ownerText: {
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
   footer: {
     backgroundColor: '#FFFFFF',
     padding: 16,
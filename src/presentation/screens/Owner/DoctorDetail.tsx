@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { 
   View, 
   Text, 
@@ -9,9 +9,20 @@ import {
 } from 'react-native';
 import { useNavigation, useRoute } from '@react-navigation/native';
 import { Doctor, TimeSlot } from '../../../domain/entities/Doctor';
+import { SlotHold } from '../../../domain/entities/SlotHold';
 import CalendarView from '../../components/CalendarView';
 import { useAppState } from '../../hooks/useAppState';
-import { formatTime, getWeekdayName } from '../../../shared/utils/date';
+import { formatTime, getRelativeDateString } from '../../../shared/utils/date';
+import { describeAvailability } from '../../../shared/utils/rruleHelpers';
+import {
+  getClinicTimeLabel,
+  getDeviceTimeZone,
+  getDoctorTimeZone,
+  getTimeZoneAbbreviation,
+  isSameOffset,
+  toZonedDateString
+} from '../../../shared/utils/timezone';
+import { getDoctorVisitTypes } from '../../../shared/utils/visitTypes';
 
 interface RouteParams {
   doctor: Doctor;
@@ -21,12 +32,103 @@ export default function DoctorDetail() {
   const navigation = useNavigation();
   const route = useRoute();
   const { doctor } = route.params as RouteParams;
-  const { getAvailableSlotsUseCase } = useAppState();
+  const { getAvailableSlotsUseCase, manageSlotHoldsUseCase, actor } = useAppState();
   
+  const visitTypes = getDoctorVisitTypes(doctor);
+  const clinicTimeZone = getDoctorTimeZone(doctor);
+  
+  const [selectedVisitTypeId, setSelectedVisitTypeId] = useState<string>(visitTypes[0].id);
   const [selectedSlot, setSelectedSlot] = useState<TimeSlot | null>(null);
+  const [nextAvailableSlot, setNextAvailableSlot] = useState<TimeSlot | null>(null);
+  const [isFindingNextSlot, setIsFindingNextSlot] = useState(true);
+  const [slotHold, setSlotHold] = useState<SlotHold | null>(null);
+  const [calendarRefreshKey, setCalendarRefreshKey] = useState(0);
+
+  // The hold is also read by the unmount cleanup and slot loading, which must see the latest one
+  const slotHoldRef = useRef<SlotHold | null>(null);
+
+  const updateSlotHold = (hold: SlotHold | null) => {
+    slotHoldRef.current = hold;
+    setSlotHold(hold);
+  };
+
+  const releaseSlotHold = () => {
+    const hold = slotHoldRef.current;
+    updateSlotHold(null);
+
+    if (hold && manageSlotHoldsUseCase && actor) {
+      manageSlotHoldsUseCase.releaseHold(hold.id, actor).catch(error => {
+        console.error('Error releasing slot hold:', error);
+      });
+    }
+  };
+
+  // Let the slot go when the owner leaves the doctor without booking it
+  useEffect(() => {
+    return () => {
+      const hold = slotHoldRef.current;
+      if (hold && manageSlotHoldsUseCase && actor) {
+        manageSlotHoldsUseCase.releaseHold(hold.id, actor).catch(error => {
+          console.error('Error releasing slot hold:', error);
+        });
+      }
+    };
+  }, [manageSlotHoldsUseCase, actor]);
+
+  // The first bookable slot depends on the visit type's duration and buffers
+  useEffect(() => {
+    let isCurrent = true;
+
+    const findNextSlot = async () => {
+      if (!getAvailableSlotsUseCase) return;
 
-  const handleSlotSelect = (slot: TimeSlot) => {
+      setIsFindingNextSlot(true);
+      try {
+        const slot = await getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id, {
+          visitTypeId: selectedVisitTypeId
+        });
+        if (isCurrent) {
+          setNextAvailableSlot(slot);
+        }
+      } catch (error) {
+        console.error('Error finding next available slot:', error);
+      } finally {
+        if (isCurrent) {
+          setIsFindingNextSlot(false);
+        }
+      }
+    };
+
+    findNextSlot();
+    return () => {
+      isCurrent = false;
+    };
+  }, [doctor.id, selectedVisitTypeId, getAvailableSlotsUseCase]);
+
+  const handleSlotSelect = async (slot: TimeSlot) => {
     setSelectedSlot(slot);
+    releaseSlotHold();
+
+    // Signed-out visitors can browse; they are asked to sign in before booking
+    if (!manageSlotHoldsUseCase || !actor) return;
+
+    // Keep the slot from other owners while the booking form is filled in
+    const result = await manageSlotHoldsUseCase.holdSlot(slot, actor);
+    if (result.success && result.hold) {
+      updateSlotHold(result.hold);
+      return;
+    }
+
+    setSelectedSlot(null);
+    setCalendarRefreshKey(key => key + 1);
+    Alert.alert('Time Unavailable', result.error || 'This time is no longer available.');
+  };
+
+  const handleVisitTypeSelect = (visitTypeId: string) => {
+    // Slots depend on the visit duration, so a previous selection no longer applies
+    setSelectedVisitTypeId(visitTypeId);
+    setSelectedSlot(null);
+    releaseSlotHold();
   };
 
   const handleBookAppointment = () => {
@@ -37,16 +139,69 @@ export default function DoctorDetail() {
 
     navigation.navigate('BookAppointment' as never, { 
       doctor, 
-      selectedSlot 
+      selectedSlot,
+      slotHold: slotHold || undefined
     } as never);
   };
 
-  const getAvailableSlots = async (doctorId: string, fromDate: string, toDate: string) => {
+  const handleJoinWaitlist = () => {
+    navigation.navigate('JoinWaitlist' as never, {
+      doctor,
+      visitTypeId: selectedVisitTypeId
+    } as never);
+  };
+
+  const getAvailableSlots = async (
+    doctorId: string,
+    fromDate: string,
+    toDate: string,
+    visitTypeId?: string
+  ) => {
     if (!getAvailableSlotsUseCase) {
       throw new Error('GetAvailableSlotsUseCase not available');
     }
     
-    return await getAvailableSlotsUseCase.execute(doctorId, fromDate, toDate);
+    // The owner's own hold must not hide the slot they selected
+    return await getAvailableSlotsUseCase.execute(doctorId, fromDate, toDate, {
+      visitTypeId,
+      holdId: slotHoldRef.current?.id
+    });
+  };
+
+  const renderVisitTypeSelector = () => {
+    if (visitTypes.length <= 1) return null;
+
+    return (
+      <ScrollView 
+        horizontal 
+        showsHorizontalScrollIndicator={false}
+        style={styles.visitTypeSelector}
+      >
+        {visitTypes.map(visitType => (
+          <TouchableOpacity
+            key={visitType.id}
+            style={[
+              styles.visitTypeButton,
+              selectedVisitTypeId === visitType.id && styles.selectedVisitTypeButton,
+            ]}
+            onPress={() => handleVisitTypeSelect(visitType.id)}
+          >
+            <Text style={[
+              styles.visitTypeName,
+              selectedVisitTypeId === visitType.id && styles.selectedVisitTypeText,
+            ]}>
+              {visitType.name}
+            </Text>
+            <Text style={[
+              styles.visitTypeDuration,
+              selectedVisitTypeId === visitType.id && styles.selectedVisitTypeText,
+            ]}>
+              {visitType.durationMinutes} min
+            </Text>
+          </TouchableOpacity>
+        ))}
+      </ScrollView>
+    );
   };
 
   const renderDoctorInfo = () => {
@@ -62,6 +217,11 @@ export default function DoctorDetail() {
               </Text>
               <Text style={styles.ratingText}>{doctor.rating.toFixed(1)} rating</Text>
             </View>
+            <Text style={nextAvailableSlot ? styles.nextAvailable : styles.noAvailability}>
+              {nextAvailableSlot
+                ? `Next available: ${getRelativeDateString(nextAvailableSlot.startISO)} at ${formatTime(nextAvailableSlot.startISO)}`
+                : isFindingNextSlot ? 'Finding next available time...' : 'No availability in the next 30 days'}
+            </Text>
           </View>
         </View>
 
@@ -78,20 +238,19 @@ export default function DoctorDetail() {
 
         <View style={styles.availabilitySection}>
           <Text style={styles.sectionTitle}>Regular Availability</Text>
+          {!isSameOffset(new Date(), clinicTimeZone, getDeviceTimeZone()) && (
+            <Text style={styles.timeZoneNote}>
+              Clinic hours, {getTimeZoneAbbreviation(new Date(), clinicTimeZone)} ({clinicTimeZone})
+            </Text>
+          )}
           {doctor.weeklyAvailability.length === 0 ? (
             <Text style={styles.noAvailability}>No regular availability set</Text>
           ) : (
             doctor.weeklyAvailability.map((availability, index) => (
               <View key={index} style={styles.availabilityItem}>
-                <Text style={styles.availabilityDay}>
-                  {getWeekdayName(availability.weekday)}
-                </Text>
                 <Text style={styles.availabilityTime}>
-                  {availability.startTime} - {availability.endTime}
+                  {describeAvailability(availability, toZonedDateString(new Date(), clinicTimeZone))}
                 </Text>
-                {availability.rrule && (
-                  <Text style={styles.rruleNote}>Recurring pattern</Text>
-                )}
               </View>
             ))
           )}
@@ -104,10 +263,14 @@ export default function DoctorDetail() {
     return (
       <View style={styles.bookingSection}>
         <Text style={styles.sectionTitle}>Select Appointment Time</Text>
+        {renderVisitTypeSelector()}
         <CalendarView
           doctorId={doctor.id}
           onSlotSelect={handleSlotSelect}
           selectedSlot={selectedSlot || undefined}
+          visitTypeId={selectedVisitTypeId}
+          clinicTimeZone={clinicTimeZone}
+          refreshKey={calendarRefreshKey}
           getAvailableSlots={getAvailableSlots}
         />
         
@@ -117,6 +280,11 @@ export default function DoctorDetail() {
             <Text style={styles.selectedSlotTime}>
               {formatTime(selectedSlot.startISO)} - {formatTime(selectedSlot.endISO)}
             </Text>
+            {getClinicTimeLabel(selectedSlot.startISO, clinicTimeZone) && (
+              <Text style={styles.timeZoneNote}>
+                {getClinicTimeLabel(selectedSlot.startISO, clinicTimeZone)}
+              </Text>
+            )}
             <TouchableOpacity 
               style={styles.bookButton}
               onPress={handleBookAppointment}
@@ -125,6 +293,12 @@ export default function DoctorDetail() {
             </TouchableOpacity>
           </View>
         )}
+        
+        {!selectedSlot && (
+          <TouchableOpacity style={styles.waitlistLink} onPress={handleJoinWaitlist}>
+            <Text style={styles.waitlistLinkText}>No time that suits you? Join the waitlist</Text>
+          </TouchableOpacity>
+        )}
       </View>
     );
   };
@@ -193,6 +367,12 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     fontWeight: '500',
   },
+  nextAvailable: {
+    fontSize: 14,
+    color: '#34C759',
+    fontWeight: '500',
+    marginTop: 8,
+  },
   sectionTitle: {
     fontSize: 18,
     fontWeight: '600',
@@ -220,6 +400,15 @@ const styles = StyleSheet.create({
     fontWeight: '500',
     textTransform: 'capitalize',
   },
+  waitlistLink: {
+    alignItems: 'center',
+    paddingVertical: 12,
+  },
+  waitlistLinkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
   availabilitySection: {
     marginBottom: 20,
   },
@@ -228,6 +417,11 @@ const styles = StyleSheet.create({
     color: '#8E8E93',
     fontStyle: 'italic',
   },
+  timeZoneNote: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 8,
+  },
   availabilityItem: {
     flexDirection: 'row',
     alignItems: 'center',
@@ -235,26 +429,43 @@ const styles = StyleSheet.create({
     borderBottomWidth: 1,
     borderBottomColor: '#F2F2F7',
   },
-  availabilityDay: {
-    fontSize: 16,
-    fontWeight: '600',
-    color: '#1C1C1E',
-    width: 100,
-  },
   availabilityTime: {
     fontSize: 16,
-    color: '#34C759',
+    color: '#1C1C1E',
     flex: 1,
   },
-  rruleNote: {
-    fontSize: 12,
-    color: '#007AFF',
-    fontStyle: 'italic',
-  },
   bookingSection: {
     flex: 1,
     padding: 16,
   },
+  visitTypeSelector: {
+    flexGrow: 0,
+    marginBottom: 12,
+  },
+  visitTypeButton: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 12,
+    paddingHorizontal: 14,
+    paddingVertical: 8,
+    marginRight: 8,
+    alignItems: 'center',
+  },
+  selectedVisitTypeButton: {
+    backgroundColor: '#007AFF',
+  },
+  visitTypeName: {
+    fontSize: 14,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  visitTypeDuration: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 2,
+  },
+  selectedVisitTypeText: {
+    color: '#FFFFFF',
+  },
   selectedSlotInfo: {
     backgroundColor: '#F2F2F7',
     borderRadius: 12,
@@ -22,6 +22,7 @@ export default function DoctorList() {
   const [searchQuery, setSearchQuery] = useState('');
   const [selectedSpecialty, setSelectedSpecialty] = useState<string>('');
   const [doctorsWithAvailability, setDoctorsWithAvailability] = useState<Set<string>>(new Set());
+  const [nextAvailableSlots, setNextAvailableSlots] = useState<{[doctorId: string]: TimeSlot}>({});
   const [isCheckingAvailability, setIsCheckingAvailability] = useState(false);
 
   const specialties = ['all', 'dental', 'surgery', 'emergency', 'dermatology', 'general'];
@@ -39,24 +40,18 @@ export default function DoctorList() {
     
     setIsCheckingAvailability(true);
     const availableDoctors = new Set<string>();
+    const nextSlots: {[doctorId: string]: TimeSlot} = {};
     
     // Check next 30 days for availability
-    const now = new Date();
-    const futureDate = new Date();
-    futureDate.setDate(now.getDate() + 30);
-
     try {
       await Promise.all(
         doctors.map(async (doctor) => {
           try {
-            const slots = await getAvailableSlotsUseCase.execute(
-              doctor.id,
-              now.toISOString(),
-              futureDate.toISOString()
-            );
+            const slot = await getAvailableSlotsUseCase.getNextAvailableSlot(doctor.id);
             
-            if (slots.length > 0) {
+            if (slot) {
               availableDoctors.add(doctor.id);
+              nextSlots[doctor.id] = slot;
             }
           } catch (error) {
             console.error(`Error checking availability for doctor ${doctor.id}:`, error);
@@ -65,6 +60,7 @@ export default function DoctorList() {
       );
       
       setDoctorsWithAvailability(availableDoctors);
+      setNextAvailableSlots(nextSlots);
     } catch (error) {
       console.error('Error checking doctor availability:', error);
     } finally {
@@ -196,6 +192,8 @@ export default function DoctorList() {
         doctor={item}
         onPress={() => handleDoctorPress(item)}
         hasAvailability={hasAvailability}
+        nextAvailableSlot={nextAvailableSlots[item.id]}
+        isCheckingAvailability={isCheckingAvailability}
       />
     );
   };
@@ -0,0 +1,367 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import { useNavigation } from '@react-navigation/native';
+import {
+  CalendarImportItem,
+  CalendarImportStatus
+} from '../../../domain/usecases/PreviewCalendarImportUseCase';
+import { useAppState } from '../../hooks/useAppState';
+import { formatDateTime, formatDate } from '../../../shared/utils/date';
+
+const STATUS_LABELS: Record<CalendarImportStatus, { label: string; color: string }> = {
+  ready: { label: 'Ready', color: '#34C759' },
+  conflict: { label: 'Conflict', color: '#FF3B30' },
+  duplicate: { label: 'Already Booked', color: '#8E8E93' },
+  invalid: { label: 'Cannot Import', color: '#FF9500' },
+};
+
+export default function ImportAppointments() {
+  const navigation = useNavigation();
+  const {
+    pets,
+    currentOwner,
+    previewCalendarImport,
+    importAppointments,
+    refreshData
+  } = useAppState();
+
+  const ownerPets = currentOwner ? pets.filter(pet => pet.ownerId === currentOwner.id) : [];
+
+  const [icsText, setIcsText] = useState('');
+  const [selectedPetId, setSelectedPetId] = useState<string | undefined>(ownerPets[0]?.id);
+  const [items, setItems] = useState<CalendarImportItem[] | null>(null);
+  const [isWorking, setIsWorking] = useState(false);
+
+  const readyCount = items ? items.filter(item => item.status === 'ready').length : 0;
+
+  const handlePreview = async () => {
+    if (!icsText.trim()) {
+      Alert.alert('Nothing to Import', 'Paste the contents of a calendar (.ics) file first.');
+      return;
+    }
+
+    setIsWorking(true);
+    try {
+      const preview = await previewCalendarImport(icsText, selectedPetId);
+      if (preview.length === 0) {
+        Alert.alert('No Events', 'The calendar has no events to import.');
+      }
+      setItems(preview);
+    } catch (error) {
+      console.error('Error previewing calendar import:', error);
+      Alert.alert('Error', error instanceof Error ? error.message : 'Failed to read the calendar.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!items || readyCount === 0) return;
+
+    setIsWorking(true);
+    try {
+      const submissions = await importAppointments(items);
+      const booked = submissions.filter(submission => !submission.pending && submission.result.success).length;
+      const pending = submissions.filter(submission => submission.pending).length;
+      const failed = submissions.length - booked - pending;
+
+      await refreshData();
+
+      const lines = [`${booked} appointment${booked !== 1 ? 's' : ''} booked.`];
+      if (pending > 0) {
+        lines.push(`${pending} will be booked when the clinic can be reached.`);
+      }
+      if (failed > 0) {
+        lines.push(`${failed} could not be booked; the slot was taken in the meantime.`);
+      }
+
+      Alert.alert('Import Finished', lines.join('\n'), [
+        { text: 'OK', onPress: () => navigation.goBack() }
+      ]);
+    } catch (error) {
+      console.error('Error importing appointments:', error);
+      Alert.alert('Error', 'Failed to import appointments. Please try again.');
+    } finally {
+      setIsWorking(false);
+    }
+  };
+
+  const renderCalendarInput = () => {
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Calendar</Text>
+        <Text style={styles.helpText}>
+          Paste the contents of a calendar (.ics) file. Every event in it is checked before anything is booked.
+        </Text>
+        <TextInput
+          style={[styles.textInput, styles.calendarInput]}
+          value={icsText}
+          onChangeText={text => {
+            setIcsText(text);
+            setItems(null);
+          }}
+          placeholder="BEGIN:VCALENDAR…"
+          multiline
+          autoCapitalize="none"
+          autoCorrect={false}
+        />
+      </View>
+    );
+  };
+
+  const renderPetSelector = () => {
+    if (ownerPets.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Pet</Text>
+        <Text style={styles.helpText}>Used for events that do not name one of your pets.</Text>
+        <View style={styles.chipRow}>
+          {ownerPets.map(pet => (
+            <TouchableOpacity
+              key={pet.id}
+              style={[styles.chip, selectedPetId === pet.id && styles.selectedChip]}
+              onPress={() => {
+                setSelectedPetId(pet.id);
+                setItems(null);
+              }}
+            >
+              <Text style={[styles.chipText, selectedPetId === pet.id && styles.selectedChipText]}>
+                {pet.name} ({pet.species})
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  const renderItem = (item: CalendarImportItem) => {
+    const status = STATUS_LABELS[item.status];
+    const when = item.startISO
+      ? item.allDay ? formatDate(item.startISO) : formatDateTime(item.startISO)
+      : 'No date';
+
+    return (
+      <View key={item.id} style={styles.row}>
+        <View style={styles.rowHeader}>
+          <Text style={styles.rowTitle} numberOfLines={1}>{item.summary || 'Untitled event'}</Text>
+          <Text style={[styles.statusLabel, { color: status.color }]}>{status.label}</Text>
+        </View>
+        <Text style={styles.rowDetail}>{when}</Text>
+        {(item.petName || item.doctorName) && (
+          <Text style={styles.rowDetail}>
+            {[item.petName, item.doctorName].filter(Boolean).join(' with ')}
+          </Text>
+        )}
+        {item.problems.map(problem => (
+          <Text key={problem} style={styles.problemText}>{problem}</Text>
+        ))}
+      </View>
+    );
+  };
+
+  const renderPreview = () => {
+    if (!items || items.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>
+          {items.length} event{items.length !== 1 ? 's' : ''} found
+        </Text>
+        {items.map(renderItem)}
+      </View>
+    );
+  };
+
+  if (!currentOwner) {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateTitle}>Not Signed In</Text>
+        <Text style={styles.emptyStateText}>Sign in as a pet owner to import appointments.</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {renderCalendarInput()}
+        {renderPetSelector()}
+        {renderPreview()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        {items && readyCount > 0 ? (
+          <TouchableOpacity
+            style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+            onPress={handleImport}
+            disabled={isWorking}
+          >
+            <Text style={styles.primaryButtonText}>
+              {isWorking ? 'Importing…' : `Import ${readyCount} Appointment${readyCount !== 1 ? 's' : ''}`}
+            </Text>
+          </TouchableOpacity>
+        ) : (
+          <TouchableOpacity
+            style={[styles.primaryButton, isWorking && styles.buttonDisabled]}
+            onPress={handlePreview}
+            disabled={isWorking}
+          >
+            <Text style={styles.primaryButtonText}>{isWorking ? 'Checking…' : 'Preview'}</Text>
+          </TouchableOpacity>
+        )}
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 12,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  calendarInput: {
+    minHeight: 120,
+    maxHeight: 240,
+    fontSize: 12,
+    textAlignVertical: 'top',
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  row: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  rowHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+  },
+  rowTitle: {
+    flex: 1,
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginRight: 8,
+  },
+  statusLabel: {
+    fontSize: 14,
+    fontWeight: '600',
+  },
+  rowDetail: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  problemText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  emptyState: {
+    flex: 1,
+    alignItems: 'center',
+    justifyContent: 'center',
+    padding: 32,
+    backgroundColor: '#F2F2F7',
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  primaryButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  primaryButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
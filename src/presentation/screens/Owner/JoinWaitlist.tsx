@@ -0,0 +1,373 @@
+import React, { useState } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { useNavigation, useRoute } from '@react-navigation/native';
+import { Doctor } from '../../../domain/entities/Doctor';
+import { Pet } from '../../../domain/entities/Pet';
+import { WAITLIST_OFFER_HOLD_MINUTES } from '../../../domain/usecases/ManageWaitlistUseCase';
+import { useAppState } from '../../hooks/useAppState';
+import { addDaysToDateString, getDoctorTimeZone, toZonedDateString } from '../../../shared/utils/timezone';
+import { getDoctorVisitTypes } from '../../../shared/utils/visitTypes';
+import { generateUUID } from '../../../shared/utils/uuid';
+
+interface RouteParams {
+  doctor: Doctor;
+  visitTypeId?: string;
+  date?: string; // YYYY-MM-DD in the doctor's timezone
+  petId?: string;
+}
+
+const SPECIES_OPTIONS = ['dog', 'cat', 'bird', 'rabbit', 'reptile', 'other'];
+const DEFAULT_RANGE_DAYS = 7;
+
+export default function JoinWaitlist() {
+  const navigation = useNavigation();
+  const route = useRoute();
+  const { doctor, visitTypeId, date, petId } = route.params as RouteParams;
+  const { manageWaitlistUseCase, petRepository, pets, currentOwner, actor, refreshData } = useAppState();
+  const visitTypes = getDoctorVisitTypes(doctor);
+  const today = toZonedDateString(new Date(), getDoctorTimeZone(doctor));
+  const firstDate = date && date > today ? date : today;
+
+  const ownerPets = currentOwner
+    ? pets.filter(pet => pet.ownerId === currentOwner.id)
+    : [];
+
+  const [selectedPetId, setSelectedPetId] = useState(petId || ownerPets[0]?.id || '');
+  const [isAddingPet, setIsAddingPet] = useState(ownerPets.length === 0);
+  const [petName, setPetName] = useState('');
+  const [species, setSpecies] = useState('dog');
+  const [selectedVisitTypeId, setSelectedVisitTypeId] = useState(visitTypeId || visitTypes[0].id);
+  const [fromDate, setFromDate] = useState(firstDate);
+  const [toDate, setToDate] = useState(addDaysToDateString(firstDate, DEFAULT_RANGE_DAYS - 1));
+  const [disease, setDisease] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+
+  const saveNewPet = async (ownerId: string): Promise<Pet> => {
+    if (!petRepository) {
+      throw new Error('Pet service is not available');
+    }
+
+    const pet: Pet = {
+      id: generateUUID(),
+      name: petName.trim(),
+      species,
+      sex: 'unknown',
+      ownerId,
+      createdAt: new Date().toISOString(),
+      updatedAt: new Date().toISOString()
+    };
+
+    await petRepository.createPet(pet);
+    return pet;
+  };
+
+  const handleJoin = async () => {
+    if (!currentOwner || !actor) {
+      Alert.alert('Sign In Required', 'Please sign in with an owner account to join the waitlist.');
+      return;
+    }
+
+    const selectedPet = ownerPets.find(pet => pet.id === selectedPetId);
+    if (isAddingPet ? !petName.trim() : !selectedPet) {
+      Alert.alert('Missing Information', 'Please select or enter the pet the visit is for.');
+      return;
+    }
+
+    if (!manageWaitlistUseCase) {
+      Alert.alert('Error', 'Waitlist service is not available.');
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const pet = isAddingPet ? await saveNewPet(currentOwner.id) : selectedPet!;
+
+      const result = await manageWaitlistUseCase.join({
+        doctorId: doctor.id,
+        ownerId: currentOwner.id,
+        ownerName: currentOwner.name,
+        petId: pet.id,
+        petName: pet.name,
+        disease: disease.trim() || undefined,
+        visitTypeId: selectedVisitTypeId,
+        fromDate: fromDate.trim(),
+        toDate: toDate.trim()
+      }, actor);
+
+      if (!result.success) {
+        Alert.alert('Could Not Join Waitlist', result.error || 'Unknown error occurred');
+        return;
+      }
+
+      await refreshData();
+
+      Alert.alert(
+        'Added to Waitlist',
+        `If a matching time opens up with ${doctor.name}, it will be held for you for ` +
+        `${WAITLIST_OFFER_HOLD_MINUTES} minutes. Check the Waitlist tab to confirm it.`,
+        [{ text: 'OK', onPress: () => navigation.goBack() }]
+      );
+    } catch (error) {
+      console.error('Error joining waitlist:', error);
+      Alert.alert('Error', 'Failed to join the waitlist. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const renderPetSelector = () => {
+    return (
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Pet *</Text>
+        <View style={styles.chipRow}>
+          {ownerPets.map(pet => (
+            <TouchableOpacity
+              key={pet.id}
+              style={[styles.chip, !isAddingPet && selectedPetId === pet.id && styles.selectedChip]}
+              onPress={() => {
+                setSelectedPetId(pet.id);
+                setIsAddingPet(false);
+              }}
+            >
+              <Text style={[
+                styles.chipText,
+                !isAddingPet && selectedPetId === pet.id && styles.selectedChipText,
+              ]}>
+                {pet.name} ({pet.species})
+              </Text>
+            </TouchableOpacity>
+          ))}
+          <TouchableOpacity
+            style={[styles.chip, isAddingPet && styles.selectedChip]}
+            onPress={() => setIsAddingPet(true)}
+          >
+            <Text style={[styles.chipText, isAddingPet && styles.selectedChipText]}>
+              + New Pet
+            </Text>
+          </TouchableOpacity>
+        </View>
+
+        {isAddingPet && (
+          <>
+            <TextInput
+              style={[styles.textInput, styles.petNameInput]}
+              value={petName}
+              onChangeText={setPetName}
+              placeholder="Enter pet's name"
+              autoCapitalize="words"
+            />
+            <View style={styles.chipRow}>
+              {SPECIES_OPTIONS.map(option => (
+                <TouchableOpacity
+                  key={option}
+                  style={[styles.chip, species === option && styles.selectedChip]}
+                  onPress={() => setSpecies(option)}
+                >
+                  <Text style={[styles.chipText, species === option && styles.selectedChipText]}>
+                    {option.charAt(0).toUpperCase() + option.slice(1)}
+                  </Text>
+                </TouchableOpacity>
+              ))}
+            </View>
+          </>
+        )}
+      </View>
+    );
+  };
+
+  const renderVisitTypeSelector = () => {
+    if (visitTypes.length <= 1) return null;
+
+    return (
+      <View style={styles.inputGroup}>
+        <Text style={styles.inputLabel}>Visit Type</Text>
+        <View style={styles.chipRow}>
+          {visitTypes.map(visitType => (
+            <TouchableOpacity
+              key={visitType.id}
+              style={[styles.chip, selectedVisitTypeId === visitType.id && styles.selectedChip]}
+              onPress={() => setSelectedVisitTypeId(visitType.id)}
+            >
+              <Text style={[styles.chipText, selectedVisitTypeId === visitType.id && styles.selectedChipText]}>
+                {visitType.name} ({visitType.durationMinutes} min)
+              </Text>
+            </TouchableOpacity>
+          ))}
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.section}>
+          <Text style={styles.sectionTitle}>Waitlist for {doctor.name}</Text>
+          <Text style={styles.helpText}>
+            When an appointment in your date range is cancelled, the first owner in line gets the
+            slot held for {WAITLIST_OFFER_HOLD_MINUTES} minutes and a notification to confirm it.
+          </Text>
+
+          {renderPetSelector()}
+          {renderVisitTypeSelector()}
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Earliest Date (YYYY-MM-DD) *</Text>
+            <TextInput
+              style={styles.textInput}
+              value={fromDate}
+              onChangeText={setFromDate}
+              placeholder={today}
+              autoCapitalize="none"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Latest Date (YYYY-MM-DD) *</Text>
+            <TextInput
+              style={styles.textInput}
+              value={toDate}
+              onChangeText={setToDate}
+              placeholder={addDaysToDateString(today, DEFAULT_RANGE_DAYS - 1)}
+              autoCapitalize="none"
+            />
+          </View>
+
+          <View style={styles.inputGroup}>
+            <Text style={styles.inputLabel}>Reason for Visit</Text>
+            <TextInput
+              style={styles.textInput}
+              value={disease}
+              onChangeText={setDisease}
+              placeholder="e.g., Annual checkup, vaccination"
+              autoCapitalize="sentences"
+            />
+          </View>
+        </View>
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.joinButton, isSaving && styles.buttonDisabled]}
+          onPress={handleJoin}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <ActivityIndicator size="small" color="#FFFFFF" />
+          ) : (
+            <Text style={styles.joinButtonText}>Join Waitlist</Text>
+          )}
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  helpText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+  },
+  petNameInput: {
+    marginTop: 8,
+    marginBottom: 8,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  joinButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  buttonDisabled: {
+    opacity: 0.6,
+  },
+  joinButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+  },
+});
@@ -7,35 +7,51 @@ import {
   StyleSheet, 
   Alert,
   ActivityIndicator,
-  TextInput,
   Share
 } from 'react-native';
+import { useNavigation } from '@react-navigation/native';
 import { Appointment } from '../../../domain/entities/Appointment';
+import { canTransition, getStatusLabel } from '../../../domain/policies/appointmentLifecycle';
+import { evaluateCancellation } from '../../../domain/policies/clinicPolicy';
 import { useAppState } from '../../hooks/useAppState';
+import AppointmentTimeline from '../../components/AppointmentTimeline';
 import { formatDateTime, formatDate, isToday, isTomorrow, isPastDate } from '../../../shared/utils/date';
 import { exportAppointmentToIcs } from '../../../shared/utils/icalHelpers';
+import {
+  formatTimeInZone,
+  getDeviceTimeZone,
+  getDoctorTimeZone,
+  isSameOffset
+} from '../../../shared/utils/timezone';
 
 export default function MyAppointments() {
-  const { appointments, cancelAppointmentUseCase, refreshData, isLoading } = useAppState();
-  const [ownerFilter, setOwnerFilter] = useState('');
+  const navigation = useNavigation();
+  const {
+    appointments,
+    doctors,
+    pets,
+    currentOwner,
+    actor,
+    clinicPolicy,
+    cancelAppointment: submitCancellation,
+    pendingCommands,
+    commandConflicts,
+    refreshData,
+    isLoading
+  } = useAppState();
   const [filteredAppointments, setFilteredAppointments] = useState<Appointment[]>([]);
   const [groupedAppointments, setGroupedAppointments] = useState<{[key: string]: Appointment[]}>({});
+  const [historyAppointmentId, setHistoryAppointmentId] = useState<string | null>(null);
 
   useEffect(() => {
     filterAndGroupAppointments();
-  }, [appointments, ownerFilter]);
+  }, [appointments, currentOwner]);
 
   const filterAndGroupAppointments = () => {
-    let filtered = [...appointments];
-
-    // Filter by owner name if specified
-    if (ownerFilter.trim()) {
-      const query = ownerFilter.toLowerCase();
-      filtered = filtered.filter(appointment =>
-        appointment.ownerName.toLowerCase().includes(query) ||
-        appointment.petName.toLowerCase().includes(query)
-      );
-    }
+    // Only the signed-in owner's bookings are shown
+    const filtered = currentOwner
+      ? appointments.filter(appointment => appointment.ownerId === currentOwner.id)
+      : [];
 
     // Sort by date (upcoming first)
     filtered.sort((a, b) => 
@@ -44,9 +60,9 @@ export default function MyAppointments() {
 
     setFilteredAppointments(filtered);
 
-    // Group by pet name
+    // Group by pet record
     const grouped = filtered.reduce((groups, appointment) => {
-      const key = `${appointment.ownerName} - ${appointment.petName}`;
+      const key = appointment.petId;
       if (!groups[key]) {
         groups[key] = [];
       }
@@ -58,9 +74,20 @@ export default function MyAppointments() {
   };
 
   const handleCancelAppointment = (appointment: Appointment) => {
+    // Explain the clinic's policy up front rather than after the attempt
+    const decision = actor ? evaluateCancellation(clinicPolicy, appointment, actor) : null;
+    if (decision && !decision.allowed) {
+      Alert.alert('Cannot Cancel', decision.error);
+      return;
+    }
+
+    const lateWarning = decision?.late
+      ? '\n\nThis is a late cancellation and will count toward your no-show score.'
+      : '';
+
     Alert.alert(
       'Cancel Appointment',
-      `Are you sure you want to cancel the appointment for ${appointment.petName} on ${formatDateTime(appointment.startDateISO)}?`,
+      `Are you sure you want to cancel the appointment for ${appointment.petName} on ${formatDateTime(appointment.startDateISO)}?${lateWarning}`,
       [
         { text: 'No', style: 'cancel' },
         {
@@ -73,14 +100,20 @@ export default function MyAppointments() {
   };
 
   const cancelAppointment = async (appointmentId: string) => {
-    if (!cancelAppointmentUseCase) {
+    if (!actor) {
       Alert.alert('Error', 'Cancel service is not available.');
       return;
     }
 
     try {
-      const result = await cancelAppointmentUseCase.execute(appointmentId, 'Cancelled by owner');
-      
+      const submission = await submitCancellation(appointmentId, 'Cancelled by owner');
+
+      if (submission.pending) {
+        Alert.alert('Saved Offline', 'The cancellation will be sent when the clinic can be reached.');
+        return;
+      }
+
+      const { result } = submission;
       if (result.success) {
         await refreshData();
         Alert.alert('Success', 'Appointment has been cancelled.');
@@ -95,7 +128,11 @@ export default function MyAppointments() {
 
   const handleExportAppointment = async (appointment: Appointment) => {
     try {
-      const icalString = exportAppointmentToIcs(appointment);
+      const doctor = doctors.find(d => d.id === appointment.doctorId);
+      const icalString = exportAppointmentToIcs(appointment, {
+        timeZone: doctor ? getDoctorTimeZone(doctor) : undefined,
+        attendeeEmail: currentOwner?.email
+      });
       
       await Share.share({
         message: icalString,
@@ -109,18 +146,17 @@ export default function MyAppointments() {
 
   const getStatusColor = (status: string) => {
     switch (status) {
-      case 'scheduled': return '#007AFF';
+      case 'requested': return '#007AFF';
       case 'confirmed': return '#34C759';
+      case 'checked_in': return '#5856D6';
+      case 'in_progress': return '#FF9500';
       case 'cancelled': return '#FF3B30';
+      case 'no_show': return '#FF3B30';
       case 'completed': return '#8E8E93';
       default: return '#8E8E93';
     }
   };
 
-  const getStatusText = (status: string) => {
-    return status.charAt(0).toUpperCase() + status.slice(1);
-  };
-
   const getDateLabel = (dateISO: string) => {
     if (isToday(dateISO)) return 'Today';
     if (isTomorrow(dateISO)) return 'Tomorrow';
@@ -129,7 +165,16 @@ export default function MyAppointments() {
 
   const renderAppointmentCard = (appointment: Appointment) => {
     const isPast = isPastDate(appointment.startDateISO);
-    const canCancel = !isPast && appointment.status !== 'cancelled' && appointment.status !== 'completed';
+    const canCancel = !isPast && canTransition(appointment.status, 'cancelled');
+    const showHistory = historyAppointmentId === appointment.id;
+
+    // Label the clinic's local time when this device is in a different timezone
+    const doctor = doctors.find(d => d.id === appointment.doctorId);
+    const doctorTimeZone = doctor ? getDoctorTimeZone(doctor) : undefined;
+    const clinicTimeZone = doctorTimeZone &&
+      !isSameOffset(appointment.startDateISO, doctorTimeZone, getDeviceTimeZone())
+      ? doctorTimeZone
+      : undefined;
 
     return (
       <View style={[styles.appointmentCard, isPast && styles.pastAppointmentCard]}>
@@ -139,7 +184,7 @@ export default function MyAppointments() {
             <Text style={styles.location}>{appointment.location}</Text>
           </View>
           <View style={[styles.statusBadge, { backgroundColor: getStatusColor(appointment.status) }]}>
-            <Text style={styles.statusText}>{getStatusText(appointment.status)}</Text>
+            <Text style={styles.statusText}>{getStatusLabel(appointment.status)}</Text>
           </View>
         </View>
 
@@ -150,6 +195,20 @@ export default function MyAppointments() {
               {getDateLabel(appointment.startDateISO)} at {formatDateTime(appointment.startDateISO).split(' at ')[1]}
             </Text>
           </View>
+
+          {clinicTimeZone && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Clinic:</Text>
+              <Text style={styles.detailValue}>{formatTimeInZone(appointment.startDateISO, clinicTimeZone)}</Text>
+            </View>
+          )}
+          
+          {appointment.visitTypeName && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Visit:</Text>
+              <Text style={styles.detailValue}>{appointment.visitTypeName}</Text>
+            </View>
+          )}
           
           {appointment.disease && (
             <View style={styles.detailRow}>
@@ -164,9 +223,34 @@ export default function MyAppointments() {
               <Text style={styles.detailValue}>{appointment.notes}</Text>
             </View>
           )}
+
+          {appointment.cancellationReason && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Cancelled:</Text>
+              <Text style={styles.detailValue}>{appointment.cancellationReason}</Text>
+            </View>
+          )}
+
+          {appointment.lateCancellation && (
+            <View style={styles.detailRow}>
+              <Text style={styles.detailLabel}>Late:</Text>
+              <Text style={styles.detailValue}>Cancelled with less notice than the clinic asks for</Text>
+            </View>
+          )}
         </View>
 
+        {showHistory && (
+          <AppointmentTimeline history={appointment.history || []} currentUserId={actor?.userId} />
+        )}
+
         <View style={styles.appointmentActions}>
+          <TouchableOpacity 
+            style={styles.historyButton}
+            onPress={() => setHistoryAppointmentId(showHistory ? null : appointment.id)}
+          >
+            <Text style={styles.historyButtonText}>{showHistory ? 'Hide History' : 'History'}</Text>
+          </TouchableOpacity>
+
           <TouchableOpacity 
             style={styles.exportButton}
             onPress={() => handleExportAppointment(appointment)}
@@ -187,12 +271,22 @@ export default function MyAppointments() {
     );
   };
 
+  const getPetGroupTitle = (petId: string, petAppointments: Appointment[]) => {
+    const pet = pets.find(p => p.id === petId);
+    if (!pet) {
+      return petAppointments[0].petName;
+    }
+    
+    const details = [pet.species, pet.breed].filter(Boolean).join(', ');
+    return `${pet.name}${details ? ` (${details})` : ''}`;
+  };
+
   const renderPetGroup = ({ item }: { item: [string, Appointment[]] }) => {
-    const [petKey, petAppointments] = item;
+    const [petId, petAppointments] = item;
     
     return (
       <View style={styles.petGroup}>
-        <Text style={styles.petGroupTitle}>{petKey}</Text>
+        <Text style={styles.petGroupTitle}>{getPetGroupTitle(petId, petAppointments)}</Text>
         {petAppointments.map((appointment, index) => (
           <View key={appointment.id}>
             {renderAppointmentCard(appointment)}
@@ -206,28 +300,54 @@ export default function MyAppointments() {
     return (
       <View style={styles.header}>
         <Text style={styles.title}>My Appointments</Text>
-        <TextInput
-          style={styles.searchInput}
-          placeholder="Search by owner or pet name..."
-          value={ownerFilter}
-          onChangeText={setOwnerFilter}
-          clearButtonMode="while-editing"
-        />
-        <Text style={styles.appointmentCount}>
-          {filteredAppointments.length} appointment{filteredAppointments.length !== 1 ? 's' : ''}
-        </Text>
+        {currentOwner && (
+          <Text style={styles.ownerName}>{currentOwner.name}</Text>
+        )}
+        <View style={styles.countRow}>
+          <Text style={styles.appointmentCount}>
+            {filteredAppointments.length} appointment{filteredAppointments.length !== 1 ? 's' : ''}
+          </Text>
+          {currentOwner && (
+            <TouchableOpacity
+              onPress={() => navigation.navigate('OwnerTab' as never, { screen: 'ImportAppointments' } as never)}
+            >
+              <Text style={styles.importText}>Import</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {renderOfflineChanges()}
       </View>
     );
   };
 
+  const renderOfflineChanges = () => {
+    if (pendingCommands.length === 0 && commandConflicts.length === 0) return null;
+
+    return (
+      <TouchableOpacity
+        style={[styles.offlineBanner, commandConflicts.length > 0 && styles.conflictBanner]}
+        onPress={() => navigation.navigate('OwnerTab' as never, { screen: 'PendingChanges' } as never)}
+      >
+        <Text style={styles.offlineBannerText}>
+          {commandConflicts.length > 0
+            ? `${commandConflicts.length} change${commandConflicts.length !== 1 ? 's' : ''} could not be made. Tap to resolve.`
+            : `${pendingCommands.length} change${pendingCommands.length !== 1 ? 's' : ''} waiting to be sent.`
+          }
+        </Text>
+      </TouchableOpacity>
+    );
+  };
+
   const renderEmptyState = () => {
     return (
       <View style={styles.emptyState}>
-        <Text style={styles.emptyStateTitle}>No Appointments Found</Text>
+        <Text style={styles.emptyStateTitle}>
+          {currentOwner ? 'No Appointments Found' : 'Not Signed In'}
+        </Text>
         <Text style={styles.emptyStateText}>
-          {ownerFilter.trim() 
-            ? 'No appointments match your search criteria.'
-            : 'You have no appointments scheduled.'
+          {currentOwner
+            ? 'You have no appointments scheduled.'
+            : 'Sign in or create a profile from the Profile tab to see your appointments.'
           }
         </Text>
       </View>
@@ -289,13 +409,16 @@ const styles = StyleSheet.create({
     color: '#1C1C1E',
     marginBottom: 16,
   },
-  searchInput: {
-    backgroundColor: '#F2F2F7',
-    borderRadius: 10,
-    paddingHorizontal: 16,
-    paddingVertical: 12,
+  ownerName: {
     fontSize: 16,
-    marginBottom: 12,
+    color: '#8E8E93',
+    marginTop: -8,
+    marginBottom: 4,
+  },
+  countRow: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
   },
   appointmentCount: {
     fontSize: 16,
@@ -303,6 +426,25 @@ const styles = StyleSheet.create({
     color: '#1C1C1E',
     paddingVertical: 8,
   },
+  importText: {
+    fontSize: 16,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  offlineBanner: {
+    backgroundColor: '#FF9500',
+    borderRadius: 8,
+    padding: 12,
+    marginBottom: 8,
+  },
+  conflictBanner: {
+    backgroundColor: '#FF3B30',
+  },
+  offlineBannerText: {
+    color: '#FFFFFF',
+    fontSize: 14,
+    fontWeight: '600',
+  },
   listContent: {
     paddingBottom: 20,
   },
@@ -386,6 +528,19 @@ const styles = StyleSheet.create({
     flexDirection: 'row',
     justifyContent: 'flex-end',
   },
+  historyButton: {
+    borderColor: '#007AFF',
+    borderWidth: 1,
+    borderRadius: 8,
+    paddingHorizontal: 12,
+    paddingVertical: 8,
+    marginRight: 8,
+  },
+  historyButtonText: {
+    color: '#007AFF',
+    fontSize: 14,
+    fontWeight: '500',
+  },
   exportButton: {
     backgroundColor: '#34C759',
     borderRadius: 8,
@@ -0,0 +1,356 @@
+import React, { useState, useEffect } from 'react';
+import {
+  View,
+  Text,
+  TextInput,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { ContactChannel, Owner } from '../../../domain/entities/Owner';
+import { useAppState } from '../../hooks/useAppState';
+
+const CONTACT_CHANNELS: { value: ContactChannel; label: string }[] = [
+  { value: 'phone', label: 'Phone' },
+  { value: 'sms', label: 'SMS' },
+  { value: 'email', label: 'Email' },
+];
+
+export default function OwnerProfile() {
+  const { currentUser, currentOwner, signOut, saveOwnerProfile } = useAppState();
+
+  const [name, setName] = useState('');
+  const [phone, setPhone] = useState('');
+  const [email, setEmail] = useState('');
+  const [address, setAddress] = useState('');
+  const [preferredContactChannel, setPreferredContactChannel] = useState<ContactChannel>('phone');
+  const [isSaving, setIsSaving] = useState(false);
+
+  // Populate the form from the signed-in owner's profile
+  useEffect(() => {
+    setName(currentOwner?.name || '');
+    setPhone(currentOwner?.phone || '');
+    setEmail(currentOwner?.email || '');
+    setAddress(currentOwner?.address || '');
+    setPreferredContactChannel(currentOwner?.preferredContactChannel || 'phone');
+  }, [currentOwner]);
+
+  const validateForm = (): boolean => {
+    if (!name.trim()) {
+      Alert.alert('Missing Information', 'Please enter your name.');
+      return false;
+    }
+
+    if (preferredContactChannel === 'email' && !email.trim()) {
+      Alert.alert('Missing Information', 'Please enter an email address to be contacted by email.');
+      return false;
+    }
+
+    if (preferredContactChannel !== 'email' && !phone.trim()) {
+      Alert.alert('Missing Information', 'Please enter a phone number to be contacted by phone or SMS.');
+      return false;
+    }
+
+    if (email.trim() && !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email.trim())) {
+      Alert.alert('Invalid Email', 'Please enter a valid email address.');
+      return false;
+    }
+
+    return true;
+  };
+
+  const handleSaveProfile = async () => {
+    if (!currentOwner || !validateForm()) {
+      return;
+    }
+
+    setIsSaving(true);
+
+    try {
+      const owner: Owner = {
+        id: currentOwner.id,
+        name: name.trim(),
+        phone: phone.trim() || undefined,
+        email: email.trim() || undefined,
+        address: address.trim() || undefined,
+        preferredContactChannel,
+        createdAt: currentOwner.createdAt || new Date().toISOString(),
+        updatedAt: new Date().toISOString()
+      };
+
+      const result = await saveOwnerProfile(owner);
+      if (result.success) {
+        Alert.alert('Profile Saved', 'Your profile has been saved.');
+      } else {
+        Alert.alert('Cannot Save Profile', result.error || 'Failed to save your profile.');
+      }
+    } catch (error) {
+      console.error('Error saving owner profile:', error);
+      Alert.alert('Error', 'Failed to save your profile. Please try again.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleSignOut = async () => {
+    try {
+      await signOut();
+    } catch (error) {
+      console.error('Error signing out:', error);
+      Alert.alert('Error', 'Failed to sign out. Please try again.');
+    }
+  };
+
+  const renderForm = () => {
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Your Profile</Text>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Full Name *</Text>
+          <TextInput
+            style={styles.textInput}
+            value={name}
+            onChangeText={setName}
+            placeholder="Enter your full name"
+            autoCapitalize="words"
+            returnKeyType="next"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Phone</Text>
+          <TextInput
+            style={styles.textInput}
+            value={phone}
+            onChangeText={setPhone}
+            placeholder="Enter your phone number"
+            keyboardType="phone-pad"
+            returnKeyType="next"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Email</Text>
+          <TextInput
+            style={styles.textInput}
+            value={email}
+            onChangeText={setEmail}
+            placeholder="Enter your email address"
+            keyboardType="email-address"
+            autoCapitalize="none"
+            returnKeyType="next"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Address</Text>
+          <TextInput
+            style={[styles.textInput, styles.textArea]}
+            value={address}
+            onChangeText={setAddress}
+            placeholder="Street, city, postal code"
+            multiline
+            numberOfLines={2}
+            textAlignVertical="top"
+          />
+        </View>
+
+        <View style={styles.inputGroup}>
+          <Text style={styles.inputLabel}>Preferred Contact</Text>
+          <View style={styles.chipRow}>
+            {CONTACT_CHANNELS.map(channel => (
+              <TouchableOpacity
+                key={channel.value}
+                style={[
+                  styles.chip,
+                  preferredContactChannel === channel.value && styles.selectedChip,
+                ]}
+                onPress={() => setPreferredContactChannel(channel.value)}
+              >
+                <Text style={[
+                  styles.chipText,
+                  preferredContactChannel === channel.value && styles.selectedChipText,
+                ]}>
+                  {channel.label}
+                </Text>
+              </TouchableOpacity>
+            ))}
+          </View>
+        </View>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        <View style={styles.header}>
+          <Text style={styles.title}>Profile</Text>
+          <Text style={styles.subtitle}>
+            Signed in as {currentUser?.displayName || currentOwner?.name}
+          </Text>
+        </View>
+
+        {renderForm()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity
+          style={[styles.saveButton, isSaving && styles.saveButtonDisabled]}
+          onPress={handleSaveProfile}
+          disabled={isSaving}
+        >
+          {isSaving ? (
+            <View style={styles.savingIndicator}>
+              <ActivityIndicator size="small" color="#FFFFFF" />
+              <Text style={styles.saveButtonText}>Saving...</Text>
+            </View>
+          ) : (
+            <Text style={styles.saveButtonText}>Save Profile</Text>
+          )}
+        </TouchableOpacity>
+
+        <TouchableOpacity
+          style={styles.signOutButton}
+          onPress={handleSignOut}
+          disabled={isSaving}
+        >
+          <Text style={styles.signOutButtonText}>Sign Out</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 16,
+  },
+  inputGroup: {
+    marginBottom: 16,
+  },
+  inputLabel: {
+    fontSize: 16,
+    fontWeight: '500',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  textInput: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingHorizontal: 16,
+    paddingVertical: 12,
+    fontSize: 16,
+    color: '#1C1C1E',
+    borderWidth: 1,
+    borderColor: 'transparent',
+  },
+  textArea: {
+    height: 64,
+    paddingTop: 12,
+  },
+  chipRow: {
+    flexDirection: 'row',
+    flexWrap: 'wrap',
+  },
+  chip: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 20,
+    paddingHorizontal: 16,
+    paddingVertical: 8,
+    marginRight: 8,
+    marginBottom: 8,
+  },
+  selectedChip: {
+    backgroundColor: '#007AFF',
+  },
+  chipText: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    fontWeight: '500',
+  },
+  selectedChipText: {
+    color: '#FFFFFF',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  saveButton: {
+    backgroundColor: '#34C759',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  saveButtonDisabled: {
+    opacity: 0.6,
+  },
+  savingIndicator: {
+    flexDirection: 'row',
+    alignItems: 'center',
+  },
+  saveButtonText: {
+    color: '#FFFFFF',
+    fontSize: 18,
+    fontWeight: '600',
+    marginLeft: 8,
+  },
+  signOutButton: {
+    backgroundColor: 'transparent',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+    marginTop: 8,
+  },
+  signOutButtonText: {
+    color: '#FF3B30',
+    fontSize: 16,
+    fontWeight: '500',
+  },
+});
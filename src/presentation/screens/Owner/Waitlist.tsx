@@ -0,0 +1,300 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  FlatList,
+  TouchableOpacity,
+  StyleSheet,
+  Alert,
+  ActivityIndicator
+} from 'react-native';
+import { WaitlistEntry } from '../../../domain/entities/Waitlist';
+import { useAppState } from '../../hooks/useAppState';
+import WaitlistEntryCard from '../../components/WaitlistEntryCard';
+import { formatDateTime } from '../../../shared/utils/date';
+
+export default function Waitlist() {
+  const {
+    waitlist,
+    notifications,
+    actor,
+    manageWaitlistUseCase,
+    markNotificationsRead,
+    refreshData,
+    isLoading
+  } = useAppState();
+
+  // Active entries first, then the most recently changed
+  const entries = [...waitlist].sort((a, b) => {
+    const aActive = a.status === 'waiting' || a.status === 'offered';
+    const bActive = b.status === 'waiting' || b.status === 'offered';
+    if (aActive !== bActive) return aActive ? -1 : 1;
+    return (b.updatedAt || b.createdAt).localeCompare(a.updatedAt || a.createdAt);
+  });
+  const unreadCount = notifications.filter(notification => !notification.read).length;
+
+  const handleAccept = async (entry: WaitlistEntry) => {
+    if (!manageWaitlistUseCase || !actor) {
+      Alert.alert('Error', 'Waitlist service is not available.');
+      return;
+    }
+
+    try {
+      const result = await manageWaitlistUseCase.acceptOffer(entry.id, actor);
+      await refreshData();
+
+      if (result.success && result.appointment) {
+        Alert.alert(
+          'Appointment Booked!',
+          `${entry.petName} is booked with ${entry.doctorName} for ${formatDateTime(result.appointment.startDateISO)}.`
+        );
+      } else {
+        Alert.alert('Booking Failed', result.error || 'Failed to book the offered time.');
+      }
+    } catch (error) {
+      console.error('Error accepting waitlist offer:', error);
+      Alert.alert('Error', 'Failed to book the offered time. Please try again.');
+    }
+  };
+
+  const handleDecline = async (entry: WaitlistEntry) => {
+    if (!manageWaitlistUseCase || !actor) {
+      Alert.alert('Error', 'Waitlist service is not available.');
+      return;
+    }
+
+    try {
+      const result = await manageWaitlistUseCase.declineOffer(entry.id, actor);
+      await refreshData();
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to decline the offer.');
+      }
+    } catch (error) {
+      console.error('Error declining waitlist offer:', error);
+      Alert.alert('Error', 'Failed to decline the offer. Please try again.');
+    }
+  };
+
+  const handleLeave = (entry: WaitlistEntry) => {
+    Alert.alert(
+      'Leave Waitlist',
+      `Stop waiting for a visit with ${entry.doctorName} for ${entry.petName}?`,
+      [
+        { text: 'No', style: 'cancel' },
+        {
+          text: 'Leave',
+          style: 'destructive',
+          onPress: () => leaveWaitlist(entry.id)
+        }
+      ]
+    );
+  };
+
+  const leaveWaitlist = async (entryId: string) => {
+    if (!manageWaitlistUseCase || !actor) {
+      Alert.alert('Error', 'Waitlist service is not available.');
+      return;
+    }
+
+    try {
+      const result = await manageWaitlistUseCase.leave(entryId, actor);
+      await refreshData();
+
+      if (!result.success) {
+        Alert.alert('Error', result.error || 'Failed to leave the waitlist.');
+      }
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      Alert.alert('Error', 'Failed to leave the waitlist. Please try again.');
+    }
+  };
+
+  const renderNotifications = () => {
+    if (notifications.length === 0) return null;
+
+    return (
+      <View style={styles.notificationsSection}>
+        <View style={styles.sectionHeader}>
+          <Text style={styles.sectionTitle}>Notifications</Text>
+          {unreadCount > 0 && (
+            <TouchableOpacity onPress={markNotificationsRead}>
+              <Text style={styles.linkText}>Mark All Read</Text>
+            </TouchableOpacity>
+          )}
+        </View>
+        {notifications.slice(0, 5).map(notification => (
+          <View key={notification.id} style={styles.notification}>
+            {!notification.read && <View style={styles.unreadDot} />}
+            <View style={styles.notificationContent}>
+              <Text style={styles.notificationTitle}>{notification.title}</Text>
+              <Text style={styles.notificationMessage}>{notification.message}</Text>
+              <Text style={styles.notificationDate}>{formatDateTime(notification.createdAt)}</Text>
+            </View>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderHeader = () => {
+    return (
+      <View>
+        <View style={styles.header}>
+          <Text style={styles.title}>Waitlist</Text>
+          <Text style={styles.subtitle}>
+            Join a doctor's waitlist from their page when no time suits you.
+          </Text>
+        </View>
+        {renderNotifications()}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateTitle}>Not on Any Waitlist</Text>
+        <Text style={styles.emptyStateText}>
+          When a doctor is fully booked, join their waitlist and we will hold the next opening for you.
+        </Text>
+      </View>
+    );
+  };
+
+  if (isLoading) {
+    return (
+      <View style={styles.loadingContainer}>
+        <ActivityIndicator size="large" color="#007AFF" />
+        <Text style={styles.loadingText}>Loading waitlist...</Text>
+      </View>
+    );
+  }
+
+  return (
+    <View style={styles.container}>
+      <FlatList
+        data={entries}
+        keyExtractor={(item) => item.id}
+        renderItem={({ item }) => (
+          <WaitlistEntryCard
+            entry={item}
+            onAccept={() => handleAccept(item)}
+            onDecline={() => handleDecline(item)}
+            onRemove={() => handleLeave(item)}
+          />
+        )}
+        ListHeaderComponent={renderHeader}
+        ListEmptyComponent={renderEmptyState}
+        contentContainerStyle={styles.listContent}
+        showsVerticalScrollIndicator={false}
+      />
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  loadingContainer: {
+    flex: 1,
+    justifyContent: 'center',
+    alignItems: 'center',
+  },
+  loadingText: {
+    marginTop: 16,
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  listContent: {
+    paddingBottom: 20,
+  },
+  header: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderBottomWidth: 1,
+    borderBottomColor: '#E5E5EA',
+  },
+  title: {
+    fontSize: 28,
+    fontWeight: 'bold',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  subtitle: {
+    fontSize: 16,
+    color: '#8E8E93',
+  },
+  notificationsSection: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 8,
+    borderRadius: 12,
+    padding: 16,
+  },
+  sectionHeader: {
+    flexDirection: 'row',
+    justifyContent: 'space-between',
+    alignItems: 'center',
+    marginBottom: 8,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  linkText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  notification: {
+    flexDirection: 'row',
+    paddingVertical: 8,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  unreadDot: {
+    width: 8,
+    height: 8,
+    borderRadius: 4,
+    backgroundColor: '#007AFF',
+    marginTop: 6,
+    marginRight: 8,
+  },
+  notificationContent: {
+    flex: 1,
+  },
+  notificationTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  notificationMessage: {
+    fontSize: 14,
+    color: '#1C1C1E',
+    marginTop: 2,
+  },
+  notificationDate: {
+    fontSize: 12,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+});
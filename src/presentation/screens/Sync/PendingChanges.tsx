@@ -0,0 +1,285 @@
+import React from 'react';
+import {
+  View,
+  Text,
+  TouchableOpacity,
+  ScrollView,
+  StyleSheet,
+  Alert
+} from 'react-native';
+import { CommandConflict, PendingCommand } from '../../../domain/entities/PendingCommand';
+import { getStatusLabel } from '../../../domain/policies/appointmentLifecycle';
+import { useAppState } from '../../hooks/useAppState';
+import { formatDateTime } from '../../../shared/utils/date';
+
+export default function PendingChanges() {
+  const {
+    appointments,
+    doctors,
+    pendingCommands,
+    commandConflicts,
+    resolveConflict,
+    refreshData,
+    isLoading
+  } = useAppState();
+
+  const describeCommand = (command: PendingCommand): string => {
+    switch (command.type) {
+      case 'book':
+        return `Book ${command.appointment.petName} with ${command.appointment.doctorName} on ${formatDateTime(command.appointment.startDateISO)}`;
+      case 'reschedule': {
+        const appointment = appointments.find(existing => existing.id === command.appointmentId);
+        return `Move ${appointment ? `${appointment.petName}'s appointment` : 'an appointment'} to ${formatDateTime(command.startISO)}`;
+      }
+      case 'cancel': {
+        const appointment = appointments.find(existing => existing.id === command.appointmentId);
+        return appointment
+          ? `Cancel ${appointment.petName}'s appointment on ${formatDateTime(appointment.startDateISO)}`
+          : 'Cancel an appointment';
+      }
+      case 'changeStatus': {
+        const appointment = appointments.find(existing => existing.id === command.appointmentId);
+        return `Mark ${appointment ? `${appointment.petName}'s appointment` : 'an appointment'} as ${getStatusLabel(command.status)}`;
+      }
+      case 'updateNotes': {
+        const appointment = appointments.find(existing => existing.id === command.appointmentId);
+        return `Update the notes on ${appointment ? `${appointment.petName}'s appointment` : 'an appointment'}`;
+      }
+      case 'updateSchedule': {
+        const doctor = doctors.find(existing => existing.id === command.doctorId);
+        return `Update ${doctor ? `${doctor.name}'s` : 'a'} schedule`;
+      }
+    }
+  };
+
+  const handleRetryAt = async (conflict: CommandConflict, slot: { startISO: string; endISO: string }) => {
+    try {
+      const submission = await resolveConflict(conflict.id, slot);
+
+      if (!submission || submission.pending) {
+        Alert.alert('Saved Offline', 'The change will be sent when the clinic can be reached.');
+      } else if (submission.result.success) {
+        await refreshData();
+        Alert.alert('Done', `The change was made for ${formatDateTime(slot.startISO)}.`);
+      } else {
+        Alert.alert('Slot No Longer Available', submission.result.error || 'Unknown error occurred');
+      }
+    } catch (error) {
+      console.error('Error resolving conflict:', error);
+      Alert.alert('Error', 'Failed to resolve the conflict. Please try again.');
+    }
+  };
+
+  const handleDiscard = (conflict: CommandConflict) => {
+    Alert.alert(
+      'Discard Change',
+      `"${describeCommand(conflict.command)}" will not be made. Discard it?`,
+      [
+        { text: 'Cancel', style: 'cancel' },
+        {
+          text: 'Discard',
+          style: 'destructive',
+          onPress: async () => {
+            try {
+              await resolveConflict(conflict.id);
+            } catch (error) {
+              console.error('Error discarding conflict:', error);
+              Alert.alert('Error', 'Failed to discard the change. Please try again.');
+            }
+          }
+        }
+      ]
+    );
+  };
+
+  const renderConflict = (conflict: CommandConflict) => {
+    const alternatives = conflict.nextAvailableSlots || [];
+
+    return (
+      <View key={conflict.id} style={styles.row}>
+        <Text style={styles.rowTitle}>{describeCommand(conflict.command)}</Text>
+        <Text style={styles.conflictError}>{conflict.error}</Text>
+        {alternatives.length > 0 && (
+          <>
+            <Text style={styles.rowDetail}>Available instead:</Text>
+            {alternatives.map(slot => (
+              <TouchableOpacity
+                key={slot.startISO}
+                style={styles.alternativeButton}
+                onPress={() => handleRetryAt(conflict, slot)}
+              >
+                <Text style={styles.alternativeButtonText}>{formatDateTime(slot.startISO)}</Text>
+              </TouchableOpacity>
+            ))}
+          </>
+        )}
+        <TouchableOpacity onPress={() => handleDiscard(conflict)}>
+          <Text style={styles.discardText}>Discard</Text>
+        </TouchableOpacity>
+      </View>
+    );
+  };
+
+  const renderConflicts = () => {
+    if (commandConflicts.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Needs Attention</Text>
+        <Text style={styles.sectionHint}>
+          These changes were made offline and could not be applied, usually because someone else got there first.
+        </Text>
+        {commandConflicts.map(renderConflict)}
+      </View>
+    );
+  };
+
+  const renderPending = () => {
+    if (pendingCommands.length === 0) return null;
+
+    return (
+      <View style={styles.section}>
+        <Text style={styles.sectionTitle}>Waiting to Sync</Text>
+        {pendingCommands.map(command => (
+          <View key={command.id} style={styles.row}>
+            <Text style={styles.rowTitle}>{describeCommand(command)}</Text>
+            <Text style={styles.rowDetail}>Made {formatDateTime(command.createdAt)}</Text>
+          </View>
+        ))}
+      </View>
+    );
+  };
+
+  const renderEmptyState = () => {
+    if (pendingCommands.length > 0 || commandConflicts.length > 0) return null;
+
+    return (
+      <View style={styles.emptyState}>
+        <Text style={styles.emptyStateTitle}>All Changes Sent</Text>
+        <Text style={styles.emptyStateText}>Nothing is waiting to be sent to the clinic.</Text>
+      </View>
+    );
+  };
+
+  return (
+    <View style={styles.container}>
+      <ScrollView style={styles.scrollView} showsVerticalScrollIndicator={false}>
+        {renderConflicts()}
+        {renderPending()}
+        {renderEmptyState()}
+      </ScrollView>
+
+      <View style={styles.footer}>
+        <TouchableOpacity style={styles.syncButton} onPress={refreshData} disabled={isLoading}>
+          <Text style={styles.syncButtonText}>{isLoading ? 'Syncing…' : 'Sync Now'}</Text>
+        </TouchableOpacity>
+      </View>
+    </View>
+  );
+}
+
+const styles = StyleSheet.create({
+  container: {
+    flex: 1,
+    backgroundColor: '#F2F2F7',
+  },
+  scrollView: {
+    flex: 1,
+  },
+  section: {
+    backgroundColor: '#FFFFFF',
+    margin: 16,
+    marginBottom: 0,
+    borderRadius: 12,
+    padding: 16,
+    shadowColor: '#000',
+    shadowOffset: {
+      width: 0,
+      height: 2,
+    },
+    shadowOpacity: 0.1,
+    shadowRadius: 4,
+    elevation: 3,
+  },
+  sectionTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  sectionHint: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginBottom: 4,
+  },
+  row: {
+    paddingVertical: 12,
+    borderBottomWidth: 1,
+    borderBottomColor: '#F2F2F7',
+  },
+  rowTitle: {
+    fontSize: 16,
+    fontWeight: '600',
+    color: '#1C1C1E',
+  },
+  rowDetail: {
+    fontSize: 14,
+    color: '#8E8E93',
+    marginTop: 4,
+  },
+  conflictError: {
+    fontSize: 14,
+    color: '#FF3B30',
+    marginTop: 4,
+  },
+  alternativeButton: {
+    backgroundColor: '#F2F2F7',
+    borderRadius: 8,
+    paddingVertical: 10,
+    paddingHorizontal: 12,
+    marginTop: 8,
+  },
+  alternativeButtonText: {
+    fontSize: 14,
+    color: '#007AFF',
+    fontWeight: '500',
+  },
+  discardText: {
+    fontSize: 14,
+    color: '#FF3B30',
+    fontWeight: '500',
+    marginTop: 12,
+  },
+  emptyState: {
+    alignItems: 'center',
+    padding: 32,
+  },
+  emptyStateTitle: {
+    fontSize: 18,
+    fontWeight: '600',
+    color: '#1C1C1E',
+    marginBottom: 8,
+  },
+  emptyStateText: {
+    fontSize: 14,
+    color: '#8E8E93',
+    textAlign: 'center',
+  },
+  footer: {
+    backgroundColor: '#FFFFFF',
+    padding: 16,
+    borderTopWidth: 1,
+    borderTopColor: '#E5E5EA',
+  },
+  syncButton: {
+    backgroundColor: '#007AFF',
+    borderRadius: 12,
+    paddingVertical: 16,
+    alignItems: 'center',
+  },
+  syncButtonText: {
+    color: '#FFFFFF',
+    fontSize: 16,
+    fontWeight: '600',
+  },
+});
@@ -1,11 +1,48 @@
+// Every key the app stores starts with this
+export const STORAGE_KEY_PREFIX = '@PetSlot:';
+
 /**
  * Storage keys for AsyncStorage
  */
 export const STORAGE_KEYS = {
   DOCTORS: '@PetSlot:doctors',
-  APPOINTMENTS: '@PetSlot:appointments',
+  LEGACY_APPOINTMENTS: '@PetSlot:appointments', // Old single-array layout; migrated to per-record keys
+  APPOINTMENT_PREFIX: '@PetSlot:appointment:', // + appointment ID: one appointment
+  APPOINTMENT_IDS: '@PetSlot:appointmentIds', // IDs of all appointments
+  APPOINTMENTS_BY_DOCTOR_PREFIX: '@PetSlot:appointmentsByDoctor:', // + doctor ID: appointment IDs
+  APPOINTMENTS_BY_DAY_PREFIX: '@PetSlot:appointmentsByDay:', // + YYYY-MM-DD (UTC): IDs of appointments touching that day
+  PETS: '@PetSlot:pets',
+  OWNERS: '@PetSlot:owners',
+  USERS: '@PetSlot:users',
+  WAITLIST: '@PetSlot:waitlist',
+  NOTIFICATIONS: '@PetSlot:notifications',
+  SLOT_HOLDS: '@PetSlot:slotHolds',
+  BUSY_BLOCKS: '@PetSlot:busyBlocks', // Busy time imported from doctors' other calendars
+  QUARANTINE: '@PetSlot:quarantine', // Records that failed validation, kept for review
+  SYNC_STATE: '@PetSlot:syncState', // Sync cursor and the outbox of unpushed changes
+  PENDING_COMMANDS: '@PetSlot:pendingCommands', // Bookings and other changes waiting to be replayed
+  COMMAND_CONFLICTS: '@PetSlot:commandConflicts', // Replayed changes that need the user to decide
+  CLINIC_POLICY: '@PetSlot:clinicPolicy', // Cancellation and rescheduling rules set by a clinic admin
+  SESSION: '@PetSlot:session',
   APP_INITIALIZED: '@PetSlot:initialized',
+  SCHEMA_VERSION: '@PetSlot:schemaVersion', // Last migration applied to the stored data
+  MIGRATION_BACKUP: '@PetSlot:migrationBackup', // Number of values in a complete migration backup
+  MIGRATION_BACKUP_PREFIX: '@PetSlot:backup:', // + key without the common prefix: its value before the migration in progress
   USER_PREFERENCES: '@PetSlot:preferences',
 } as const;
 
-export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
\ No newline at end of file
+export type StorageKey = typeof STORAGE_KEYS[keyof typeof STORAGE_KEYS];
+
+/**
+ * Key builders for the per-record appointment layout
+ */
+export const appointmentKey = (id: string) => `${STORAGE_KEYS.APPOINTMENT_PREFIX}${id}`;
+export const appointmentsByDoctorKey = (doctorId: string) =>
+  `${STORAGE_KEYS.APPOINTMENTS_BY_DOCTOR_PREFIX}${doctorId}`;
+export const appointmentsByDayKey = (day: string) => `${STORAGE_KEYS.APPOINTMENTS_BY_DAY_PREFIX}${day}`;
+
+/**
+ * Key a value is backed up under while a migration runs
+ */
+export const migrationBackupKey = (key: string) =>
+  `${STORAGE_KEYS.MIGRATION_BACKUP_PREFIX}${key.slice(STORAGE_KEY_PREFIX.length)}`;
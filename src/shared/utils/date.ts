@@ -237,4 +237,34 @@ export function formatDuration(minutes: number): string {
   }
   
   return `${hours} hr ${remainingMinutes} min`;
-}
\ No newline at end of file
+}
+/**
+ * Parses a YYYY-MM-DD date as local midnight
+ * (new Date('YYYY-MM-DD') would give midnight UTC instead)
+ * @param dateString - Date in YYYY-MM-DD format
+ * @returns Date at local midnight, or an invalid Date if the string is malformed
+ */
+export function parseLocalDate(dateString: string): Date {
+  const match = /^(\d{4})-(\d{2})-(\d{2})$/.exec(dateString.trim());
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const [, year, month, day] = match.map(Number);
+  const date = new Date(year, month - 1, day);
+
+  // Reject dates that rolled over, e.g. 2024-02-31
+  return date.getMonth() === month - 1 ? date : new Date(NaN);
+}
+
+/**
+ * Formats a date as YYYY-MM-DD in local time
+ * @param date - Date to format
+ * @returns Date string
+ */
+export function toLocalDateString(date: Date | string): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const month = String(dateObj.getMonth() + 1).padStart(2, '0');
+  const day = String(dateObj.getDate()).padStart(2, '0');
+  return `${dateObj.getFullYear()}-${month}-${day}`;
+}
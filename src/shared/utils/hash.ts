@@ -0,0 +1,147 @@
+/**
+ * Hashing helpers for locally stored credentials
+ */
+
+const ROUND_CONSTANTS = [
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+];
+
+const DEFAULT_HASH_ROUNDS = 2000;
+
+/**
+ * Encodes a string as UTF-8 bytes
+ */
+function toUtf8Bytes(text: string): number[] {
+  const encoded = unescape(encodeURIComponent(text));
+  const bytes: number[] = [];
+  for (let i = 0; i < encoded.length; i++) {
+    bytes.push(encoded.charCodeAt(i));
+  }
+  return bytes;
+}
+
+// SHA-256 is defined in terms of 32-bit bitwise operations
+/* eslint-disable no-bitwise */
+function rotateRight(value: number, bits: number): number {
+  return (value >>> bits) | (value << (32 - bits));
+}
+
+/**
+ * Computes the SHA-256 digest of a string
+ * @param message - Text to hash (UTF-8 encoded before hashing)
+ * @returns Lowercase hex digest
+ */
+export function sha256(message: string): string {
+  const bytes = toUtf8Bytes(message);
+  const bitLength = bytes.length * 8;
+
+  // Pad to a multiple of 64 bytes: 0x80, zeros, then the 64-bit message length
+  bytes.push(0x80);
+  while (bytes.length % 64 !== 56) {
+    bytes.push(0);
+  }
+  const highBits = Math.floor(bitLength / 0x100000000);
+  for (let shift = 24; shift >= 0; shift -= 8) {
+    bytes.push((highBits >>> shift) & 0xff);
+  }
+  for (let shift = 24; shift >= 0; shift -= 8) {
+    bytes.push((bitLength >>> shift) & 0xff);
+  }
+
+  const hash = [
+    0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a,
+    0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+  ];
+  const words = new Array<number>(64);
+
+  for (let offset = 0; offset < bytes.length; offset += 64) {
+    for (let i = 0; i < 16; i++) {
+      const j = offset + i * 4;
+      words[i] = (bytes[j] << 24) | (bytes[j + 1] << 16) | (bytes[j + 2] << 8) | bytes[j + 3];
+    }
+    for (let i = 16; i < 64; i++) {
+      const s0 = rotateRight(words[i - 15], 7) ^ rotateRight(words[i - 15], 18) ^ (words[i - 15] >>> 3);
+      const s1 = rotateRight(words[i - 2], 17) ^ rotateRight(words[i - 2], 19) ^ (words[i - 2] >>> 10);
+      words[i] = (words[i - 16] + s0 + words[i - 7] + s1) | 0;
+    }
+
+    let [a, b, c, d, e, f, g, h] = hash;
+
+    for (let i = 0; i < 64; i++) {
+      const s1 = rotateRight(e, 6) ^ rotateRight(e, 11) ^ rotateRight(e, 25);
+      const choice = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + choice + ROUND_CONSTANTS[i] + words[i]) | 0;
+      const s0 = rotateRight(a, 2) ^ rotateRight(a, 13) ^ rotateRight(a, 22);
+      const majority = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + majority) | 0;
+
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    hash[0] = (hash[0] + a) | 0;
+    hash[1] = (hash[1] + b) | 0;
+    hash[2] = (hash[2] + c) | 0;
+    hash[3] = (hash[3] + d) | 0;
+    hash[4] = (hash[4] + e) | 0;
+    hash[5] = (hash[5] + f) | 0;
+    hash[6] = (hash[6] + g) | 0;
+    hash[7] = (hash[7] + h) | 0;
+  }
+
+  return hash.map(value => (value >>> 0).toString(16).padStart(8, '0')).join('');
+}
+/* eslint-enable no-bitwise */
+
+/**
+ * Generates a random salt for credential hashing
+ * @returns 32-character hex string
+ */
+export function generateSalt(): string {
+  let salt = '';
+  for (let i = 0; i < 32; i++) {
+    salt += Math.floor(Math.random() * 16).toString(16);
+  }
+  return salt;
+}
+
+/**
+ * Derives a hash from a PIN or passphrase
+ * The digest is repeated so that guessing a short PIN from a copied storage
+ * file takes noticeably longer than a single hash per guess.
+ * @param secret - The PIN or passphrase
+ * @param salt - Per-user salt
+ * @param rounds - Number of hashing rounds
+ * @returns Hex digest
+ */
+export function hashCredential(secret: string, salt: string, rounds: number = DEFAULT_HASH_ROUNDS): string {
+  let digest = sha256(`${salt}:${secret}`);
+  for (let i = 1; i < rounds; i++) {
+    digest = sha256(`${salt}:${digest}`);
+  }
+  return digest;
+}
+
+/**
+ * Checks a PIN or passphrase against a stored hash
+ * @param secret - The PIN or passphrase entered by the user
+ * @param salt - The stored salt
+ * @param expectedHash - The stored hash
+ * @returns True if the secret matches
+ */
+export function verifyCredential(secret: string, salt: string, expectedHash: string): boolean {
+  return hashCredential(secret, salt) === expectedHash;
+}
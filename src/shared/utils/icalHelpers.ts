@@ -1,34 +1,96 @@
-import { Appointment } from '../../domain/entities/Appointment';
-// Use a simple UUID generator for React Native compatibility
-const generateUUID = () => {
-  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, function(c) {
-    const r = Math.random() * 16 | 0;
-    const v = c === 'x' ? r : (r & 0x3 | 0x8);
-    return v.toString(16);
-  });
+import { RRule } from 'rrule';
+import { Appointment, AppointmentStatus } from '../../domain/entities/Appointment';
+import { AvailabilityException, Doctor } from '../../domain/entities/Doctor';
+import { APPOINTMENT_STATUSES, validateImportedAppointment } from '../../domain/validation/validators';
+import {
+  RRULE_WEEKDAYS,
+  describeAvailability,
+  expandAvailabilityToDates,
+  getAvailabilityRecurrence
+} from './rruleHelpers';
+import {
+  addDaysToDateString,
+  getDoctorTimeZone,
+  getTimeZoneAbbreviation,
+  getTimeZoneOffsetMinutes,
+  getZonedDateParts,
+  isValidTimeZone,
+  toZonedDateString,
+  zonedTimeToDate
+} from './timezone';
+import { generateUUID } from './uuid';
+
+// RFC 5545 limits a content line to 75 octets, excluding the CRLF
+const MAX_LINE_OCTETS = 75;
+
+// The calendar address invitations come from; doctors have no email of their own
+export const ICS_ORGANIZER_EMAIL = 'appointments@petslot.app';
+
+// Reminders added to every event that is not cancelled, in minutes before the start
+export const DEFAULT_REMINDER_MINUTES = [60];
+
+// Our status, kept as an extension property because VEVENT only knows three
+const STATUS_PROPERTY = 'X-PETSLOT-STATUS';
+
+const VEVENT_STATUSES: Record<AppointmentStatus, string> = {
+  requested: 'TENTATIVE',
+  confirmed: 'CONFIRMED',
+  checked_in: 'CONFIRMED',
+  in_progress: 'CONFIRMED',
+  completed: 'CONFIRMED',
+  no_show: 'CONFIRMED',
+  cancelled: 'CANCELLED'
+};
+
+const APPOINTMENT_STATUSES_BY_VEVENT_STATUS: Record<string, AppointmentStatus> = {
+  TENTATIVE: 'requested',
+  CONFIRMED: 'confirmed',
+  CANCELLED: 'cancelled'
 };
 
+export interface IcsExportOptions {
+  timeZone?: string; // IANA timezone to write times in, with its VTIMEZONE; UTC when left out
+  reminderMinutes?: number[]; // Defaults to DEFAULT_REMINDER_MINUTES; [] for none
+  attendeeEmail?: string; // The owner's email, written as the ATTENDEE of a CANCEL
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
 /**
- * Converts a Date to iCal format (YYYYMMDDTHHMMSSZ)
+ * Converts a Date to iCal UTC format (YYYYMMDDTHHMMSSZ)
  */
 function formatDateForICal(date: Date): string {
   return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
 }
 
+/**
+ * Converts a Date to iCal local time in a timezone (YYYYMMDDTHHMMSS)
+ */
+function formatLocalDateForICal(date: Date, timeZone: string): string {
+  const parts = getZonedDateParts(date, timeZone);
+  const pad = (value: number) => String(value).padStart(2, '0');
+
+  return `${parts.year}${pad(parts.month)}${pad(parts.day)}T${pad(parts.hour)}${pad(parts.minute)}${pad(parts.second)}`;
+}
+
 /**
  * Parses iCal date format to Date object
+ * @param icalDate - YYYYMMDD, YYYYMMDDTHHMMSS or YYYYMMDDTHHMMSSZ
+ * @param timeZone - Timezone of a local time (TZID); UTC when left out
  */
-function parseICalDate(icalDate: string): Date {
-  // Handle both YYYYMMDDTHHMMSSZ and YYYYMMDDTHHMMSS formats
-  const cleanDate = icalDate.replace(/[TZ]/g, '');
-  const year = parseInt(cleanDate.substring(0, 4));
-  const month = parseInt(cleanDate.substring(4, 6)) - 1; // Month is 0-indexed
-  const day = parseInt(cleanDate.substring(6, 8));
-  const hour = parseInt(cleanDate.substring(8, 10)) || 0;
-  const minute = parseInt(cleanDate.substring(10, 12)) || 0;
-  const second = parseInt(cleanDate.substring(12, 14)) || 0;
-  
-  return new Date(Date.UTC(year, month, day, hour, minute, second));
+function parseICalDate(icalDate: string, timeZone?: string): Date {
+  const match = icalDate.match(/^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z)?)?$/);
+  if (!match) {
+    return new Date(NaN);
+  }
+
+  const [, year, month, day, hour = '00', minute = '00', second = '00', utc] = match;
+
+  if (timeZone && !utc) {
+    const local = zonedTimeToDate(`${year}-${month}-${day}`, `${hour}:${minute}`, timeZone);
+    return new Date(local.getTime() + Number(second) * 1000);
+  }
+
+  return new Date(Date.UTC(Number(year), Number(month) - 1, Number(day), Number(hour), Number(minute), Number(second)));
 }
 
 /**
@@ -39,57 +101,253 @@ function escapeICalText(text: string): string {
     .replace(/\\/g, '\\\\')
     .replace(/;/g, '\\;')
     .replace(/,/g, '\\,')
-    .replace(/\n/g, '\\n')
-    .replace(/\r/g, '');
+    .replace(/\r\n?/g, '\n')
+    .replace(/\n/g, '\\n');
 }
 
 /**
  * Unescapes iCal text
  */
 function unescapeICalText(text: string): string {
-  return text
-    .replace(/\\n/g, '\n')
-    .replace(/\\,/g, ',')
-    .replace(/\\;/g, ';')
-    .replace(/\\\\/g, '\\');
+  return text.replace(/\\([\\;,nN])/g, (_, escaped: string) =>
+    escaped === 'n' || escaped === 'N' ? '\n' : escaped
+  );
 }
 
 /**
- * Exports an appointment to iCal format (.ics)
- * @param appointment - The appointment to export
- * @returns iCal string
+ * Formats a property parameter value, quoting it when it holds a separator
+ * Parameter values cannot contain double quotes or line breaks, so those are dropped.
+ */
+function formatParameterValue(value: string): string {
+  const safe = value.replace(/["\r\n]/g, '');
+  return /[:;,]/.test(safe) ? `"${safe}"` : safe;
+}
+
+/**
+ * Builds an unfolded content line: NAME;PARAM=value:value
+ */
+function contentLine(name: string, value: string, parameters: Record<string, string> = {}): string {
+  const parameterText = Object.entries(parameters)
+    .map(([key, parameterValue]) => `;${key}=${formatParameterValue(parameterValue)}`)
+    .join('');
+
+  return `${name}${parameterText}:${value}`;
+}
+
+/**
+ * Gets the number of octets a character takes in UTF-8
+ */
+function utf8Length(character: string): number {
+  const codePoint = character.codePointAt(0) || 0;
+  if (codePoint < 0x80) return 1;
+  if (codePoint < 0x800) return 2;
+  if (codePoint < 0x10000) return 3;
+  return 4;
+}
+
+/**
+ * Folds a content line into lines of at most 75 octets
+ * Continuation lines start with a space; a multi-byte character is never split.
+ * @param line - The unfolded content line
+ * @returns The folded line, joined with CRLF
+ */
+export function foldLine(line: string): string {
+  const lines: string[] = [];
+  let current = '';
+  let currentOctets = 0;
+
+  for (const character of line) {
+    const octets = utf8Length(character);
+    if (currentOctets + octets > MAX_LINE_OCTETS) {
+      lines.push(current);
+      current = ' ';
+      currentOctets = 1;
+    }
+    current += character;
+    currentOctets += octets;
+  }
+  lines.push(current);
+
+  return lines.join('\r\n');
+}
+
+/**
+ * Joins content lines into an iCal document: folded, CRLF-terminated
+ */
+function serializeLines(lines: string[]): string {
+  return lines.map(line => `${foldLine(line)}\r\n`).join('');
+}
+
+/**
+ * Formats a UTC offset in minutes as ±HHMM
+ */
+function formatUtcOffset(offsetMinutes: number): string {
+  const sign = offsetMinutes < 0 ? '-' : '+';
+  const absolute = Math.abs(offsetMinutes);
+  return `${sign}${String(Math.floor(absolute / 60)).padStart(2, '0')}${String(absolute % 60).padStart(2, '0')}`;
+}
+
+/**
+ * Finds the instants a timezone's UTC offset changes between two dates
+ * Offsets are sampled daily, then each change is narrowed down to the minute.
+ */
+function findOffsetTransitions(timeZone: string, from: Date, to: Date): Date[] {
+  const DAY = 24 * 60 * 60 * 1000;
+  const MINUTE = 60 * 1000;
+  const transitions: Date[] = [];
+
+  let previous = from.getTime();
+  let previousOffset = getTimeZoneOffsetMinutes(from, timeZone);
+
+  for (let time = previous + DAY; time < to.getTime() + DAY; time += DAY) {
+    const offset = getTimeZoneOffsetMinutes(new Date(time), timeZone);
+
+    if (offset !== previousOffset) {
+      let low = previous;
+      let high = time;
+      while (high - low > MINUTE) {
+        const middle = low + Math.floor((high - low) / 2 / MINUTE) * MINUTE;
+        if (getTimeZoneOffsetMinutes(new Date(middle), timeZone) === previousOffset) {
+          low = middle;
+        } else {
+          high = middle;
+        }
+      }
+      transitions.push(new Date(high));
+    }
+
+    previous = time;
+    previousOffset = offset;
+  }
+
+  return transitions;
+}
+
+/**
+ * Gets a timezone's standard offset in a year: the smaller of its offsets;
+ * anything larger is daylight saving time
+ */
+function getStandardOffset(timeZone: string, year: number): number {
+  return Math.min(
+    getTimeZoneOffsetMinutes(new Date(Date.UTC(year, 0, 1)), timeZone),
+    getTimeZoneOffsetMinutes(new Date(Date.UTC(year, 6, 1)), timeZone)
+  );
+}
+
+/**
+ * Builds one STANDARD or DAYLIGHT observance of a VTIMEZONE
+ * @param onset - The instant the observance starts
+ * @param rrule - How the onset repeats, for open-ended timezones
+ */
+function buildObservanceLines(
+  timeZone: string,
+  onset: Date,
+  offsetFrom: number,
+  offsetTo: number,
+  standardOffset: number,
+  rrule?: string
+): string[] {
+  const type = offsetTo > standardOffset ? 'DAYLIGHT' : 'STANDARD';
+  // DTSTART is the onset in the local time in effect before it
+  const localOnset = new Date(onset.getTime() + offsetFrom * 60000);
+
+  return [
+    `BEGIN:${type}`,
+    `DTSTART:${formatDateForICal(localOnset).replace('Z', '')}`,
+    ...(rrule ? [`RRULE:${rrule}`] : []),
+    `TZOFFSETFROM:${formatUtcOffset(offsetFrom)}`,
+    `TZOFFSETTO:${formatUtcOffset(offsetTo)}`,
+    `TZNAME:${escapeICalText(getTimeZoneAbbreviation(onset, timeZone))}`,
+    `END:${type}`
+  ];
+}
+
+/**
+ * Builds the VTIMEZONE block covering the given instants
+ * Observances are read from the platform's timezone data rather than written
+ * as recurrence rules, so the block is exact for the dates it covers.
+ */
+function buildTimeZoneLines(timeZone: string, instants: Date[]): string[] {
+  const times = instants.map(instant => instant.getTime());
+  const from = new Date(Math.min(...times));
+  const to = new Date(Math.max(...times));
+  const standardOffset = getStandardOffset(timeZone, from.getUTCFullYear());
+
+  const initialOffset = getTimeZoneOffsetMinutes(from, timeZone);
+  const lines = [
+    'BEGIN:VTIMEZONE',
+    `TZID:${timeZone}`,
+    ...buildObservanceLines(timeZone, from, initialOffset, initialOffset, standardOffset)
+  ];
+
+  let offsetFrom = initialOffset;
+  for (const transition of findOffsetTransitions(timeZone, from, to)) {
+    const offsetTo = getTimeZoneOffsetMinutes(transition, timeZone);
+    lines.push(...buildObservanceLines(timeZone, transition, offsetFrom, offsetTo, standardOffset));
+    offsetFrom = offsetTo;
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Builds a VTIMEZONE whose observances repeat every year, for recurring events
+ * with no end
+ * Each transition in the given year becomes a yearly rule on the same weekday
+ * of the month ("second Sunday of March", "last Sunday of October").
+ */
+function buildRecurringTimeZoneLines(timeZone: string, year: number): string[] {
+  const from = new Date(Date.UTC(year, 0, 1));
+  const to = new Date(Date.UTC(year, 11, 31));
+  const standardOffset = getStandardOffset(timeZone, year);
+  const transitions = findOffsetTransitions(timeZone, from, to);
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`];
+
+  if (transitions.length === 0) {
+    const offset = getTimeZoneOffsetMinutes(from, timeZone);
+    lines.push(...buildObservanceLines(timeZone, from, offset, offset, standardOffset));
+  }
+
+  for (const transition of transitions) {
+    const offsetFrom = getTimeZoneOffsetMinutes(new Date(transition.getTime() - 60000), timeZone);
+    const offsetTo = getTimeZoneOffsetMinutes(transition, timeZone);
+    const localOnset = new Date(transition.getTime() + offsetFrom * 60000);
+
+    const day = localOnset.getUTCDate();
+    const daysInMonth = new Date(Date.UTC(year, localOnset.getUTCMonth() + 1, 0)).getUTCDate();
+    const position = day + 7 > daysInMonth ? -1 : Math.ceil(day / 7);
+    const rrule = `FREQ=YEARLY;BYMONTH=${localOnset.getUTCMonth() + 1};BYDAY=${position}${RRULE_WEEKDAYS[localOnset.getUTCDay()]}`;
+
+    lines.push(...buildObservanceLines(timeZone, transition, offsetFrom, offsetTo, standardOffset, rrule));
+  }
+
+  lines.push('END:VTIMEZONE');
+  return lines;
+}
+
+/**
+ * Starts a VCALENDAR; the caller adds the components and END:VCALENDAR
  */
-export function exportAppointmentToIcs(appointment: Appointment): string {
-  const startDate = new Date(appointment.startDateISO);
-  const endDate = new Date(appointment.endDateISO);
-  const now = new Date();
-  
-  const icalLines = [
+function buildCalendarHeader(method: 'PUBLISH' | 'CANCEL', name?: string): string[] {
+  const lines = [
     'BEGIN:VCALENDAR',
     'VERSION:2.0',
     'PRODID:-//PetSlot//Pet Appointment App//EN',
     'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH',
-    'BEGIN:VEVENT',
-    `UID:${appointment.id}@petslot.app`,
-    `DTSTAMP:${formatDateForICal(now)}`,
-    `DTSTART:${formatDateForICal(startDate)}`,
-    `DTEND:${formatDateForICal(endDate)}`,
-    `SUMMARY:${escapeICalText(`Pet Appointment - ${appointment.petName}`)}`,
-    `DESCRIPTION:${escapeICalText(createAppointmentDescription(appointment))}`,
-    `LOCATION:${escapeICalText(appointment.location || '')}`,
-    `STATUS:${appointment.status.toUpperCase()}`,
-    `ORGANIZER:CN=${escapeICalText(appointment.doctorName)}`,
-    `ATTENDEE:CN=${escapeICalText(appointment.ownerName)}`,
-    'END:VEVENT',
-    'END:VCALENDAR'
+    `METHOD:${method}`
   ];
-  
-  return icalLines.join('\r\n');
+
+  if (name) {
+    lines.push(`X-WR-CALNAME:${escapeICalText(name)}`);
+  }
+
+  return lines;
 }
 
 /**
  * Creates a detailed description for the appointment
+ * Notes come last, as they may run over several lines.
  */
 function createAppointmentDescription(appointment: Appointment): string {
   const parts = [
@@ -97,147 +355,976 @@ function createAppointmentDescription(appointment: Appointment): string {
     `Owner: ${appointment.ownerName}`,
     `Doctor: ${appointment.doctorName}`
   ];
-  
+
+  if (appointment.visitTypeName) {
+    parts.push(`Visit: ${appointment.visitTypeName}`);
+  }
+
   if (appointment.disease) {
     parts.push(`Condition: ${appointment.disease}`);
   }
-  
+
+  parts.push(`Status: ${appointment.status}`);
+
+  if (appointment.cancellationReason) {
+    parts.push(`Cancellation reason: ${appointment.cancellationReason}`);
+  }
+
   if (appointment.notes) {
     parts.push(`Notes: ${appointment.notes}`);
   }
-  
-  parts.push(`Status: ${appointment.status}`);
-  
-  return parts.join('\\n');
+
+  return parts.join('\n');
 }
 
 /**
- * Imports an iCal string and converts it to appointment data
- * @param icalString - The iCal string to parse
- * @returns Partial appointment data (without IDs)
+ * Counts the changes calendars should treat as a new revision of the event
+ * Moves and status changes (including cancelling) count; notes edits and
+ * other saves leave SEQUENCE alone, as RFC 5545 asks.
+ */
+function getSequence(appointment: Appointment): number {
+  return (appointment.history || []).filter(entry =>
+    entry.type === 'rescheduled' || entry.type === 'statusChanged'
+  ).length;
+}
+
+/**
+ * Builds the VEVENT for one appointment
+ * RFC 5546 leaves ATTENDEE out of PUBLISH and requires it in CANCEL, so it is
+ * written only for CANCEL.
+ */
+function buildEventLines(appointment: Appointment, options: IcsExportOptions, method: string, now: Date): string[] {
+  const formatTime = (iso: string): [string, Record<string, string>] =>
+    options.timeZone
+      ? [formatLocalDateForICal(new Date(iso), options.timeZone), { TZID: options.timeZone }]
+      : [formatDateForICal(new Date(iso)), {}];
+
+  const [start, startParameters] = formatTime(appointment.startDateISO);
+  const [end, endParameters] = formatTime(appointment.endDateISO);
+
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:${appointment.id}@petslot.app`,
+    `DTSTAMP:${formatDateForICal(now)}`,
+    contentLine('DTSTART', start, startParameters),
+    contentLine('DTEND', end, endParameters),
+    `SEQUENCE:${getSequence(appointment)}`
+  ];
+
+  if (appointment.createdAt) {
+    lines.push(`CREATED:${formatDateForICal(new Date(appointment.createdAt))}`);
+  }
+
+  if (appointment.updatedAt) {
+    lines.push(`LAST-MODIFIED:${formatDateForICal(new Date(appointment.updatedAt))}`);
+  }
+
+  lines.push(
+    `SUMMARY:${escapeICalText(`Pet Appointment - ${appointment.petName}`)}`,
+    `DESCRIPTION:${escapeICalText(createAppointmentDescription(appointment))}`
+  );
+
+  if (appointment.location) {
+    lines.push(`LOCATION:${escapeICalText(appointment.location)}`);
+  }
+
+  lines.push(
+    `STATUS:${VEVENT_STATUSES[appointment.status]}`,
+    `${STATUS_PROPERTY}:${appointment.status}`,
+    contentLine('ORGANIZER', `mailto:${ICS_ORGANIZER_EMAIL}`, { CN: appointment.doctorName })
+  );
+
+  if (method === 'CANCEL' && options.attendeeEmail) {
+    lines.push(contentLine('ATTENDEE', `mailto:${options.attendeeEmail}`, {
+      CN: appointment.ownerName,
+      ROLE: 'REQ-PARTICIPANT'
+    }));
+  }
+
+  if (appointment.status !== 'cancelled') {
+    for (const minutes of options.reminderMinutes ?? DEFAULT_REMINDER_MINUTES) {
+      lines.push(
+        'BEGIN:VALARM',
+        'ACTION:DISPLAY',
+        `TRIGGER:-PT${minutes}M`,
+        `DESCRIPTION:${escapeICalText(`${appointment.petName}'s appointment with ${appointment.doctorName}`)}`,
+        'END:VALARM'
+      );
+    }
+  }
+
+  lines.push('END:VEVENT');
+  return lines;
+}
+
+/**
+ * Exports an appointment to iCal format (.ics)
+ * A cancelled appointment is exported with METHOD:CANCEL when the owner's
+ * email is known, so calendars that imported it before remove it.
+ * @param appointment - The appointment to export
+ * @param options - Timezone, reminders and the owner's email
+ * @returns iCal string
  */
-export function importIcsToAppointment(icalString: string): Partial<Appointment> {
-  const lines = icalString.split(/\r?\n/);
+export function exportAppointmentToIcs(appointment: Appointment, options: IcsExportOptions = {}): string {
+  return exportMultipleAppointmentsToIcs([appointment], options);
+}
+
+/**
+ * Exports multiple appointments to a single iCal file
+ * The file uses METHOD:CANCEL when every appointment in it is cancelled and
+ * there is an attendee to address it to, and METHOD:PUBLISH otherwise; its
+ * cancelled events still carry STATUS:CANCELLED.
+ * @param appointments - Array of appointments to export
+ * @param options - Timezone, reminders and the owner's email
+ * @returns iCal string with multiple events
+ */
+export function exportMultipleAppointmentsToIcs(appointments: Appointment[], options: IcsExportOptions = {}): string {
+  const now = options.now || new Date();
+  const allCancelled = appointments.length > 0 && appointments.every(appointment => appointment.status === 'cancelled');
+  const method = allCancelled && options.attendeeEmail ? 'CANCEL' : 'PUBLISH';
+
+  const lines = buildCalendarHeader(method);
+
+  if (options.timeZone && appointments.length > 0) {
+    const instants = appointments.flatMap(appointment => [
+      new Date(appointment.startDateISO),
+      new Date(appointment.endDateISO)
+    ]);
+    lines.push(...buildTimeZoneLines(options.timeZone, instants));
+  }
+
+  for (const appointment of appointments) {
+    lines.push(...buildEventLines(appointment, options, method, now));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return serializeLines(lines);
+}
+
+/**
+ * Builds a local date-time property in a timezone, e.g. DTSTART;TZID=...:20300101T090000
+ */
+function zonedDateTimeLine(name: string, date: string, time: string, timeZone: string): string {
+  return contentLine(name, `${date.replace(/-/g, '')}T${time.replace(':', '')}00`, { TZID: timeZone });
+}
+
+/**
+ * Builds the VEVENT for a date-specific exception: extra hours, or time off
+ */
+function buildExceptionEventLines(doctor: Doctor, exception: AvailabilityException, timeZone: string, now: Date): string[] {
+  const isBlock = exception.type === 'block';
+  const title = `${doctor.name} ${isBlock ? 'unavailable' : 'available'}`;
+  const lines = [
+    'BEGIN:VEVENT',
+    `UID:exception-${exception.id}@petslot.app`,
+    `DTSTAMP:${formatDateForICal(now)}`
+  ];
+
+  if (exception.startTime && exception.endTime) {
+    // The same hours on every day of the range
+    const days = Math.round(
+      (new Date(exception.endDate).getTime() - new Date(exception.startDate).getTime()) / (24 * 60 * 60 * 1000)
+    ) + 1;
+    lines.push(
+      zonedDateTimeLine('DTSTART', exception.startDate, exception.startTime, timeZone),
+      zonedDateTimeLine('DTEND', exception.startDate, exception.endTime, timeZone)
+    );
+    if (days > 1) {
+      lines.push(`RRULE:FREQ=DAILY;COUNT=${days}`);
+    }
+  } else {
+    lines.push(
+      contentLine('DTSTART', exception.startDate.replace(/-/g, ''), { VALUE: 'DATE' }),
+      contentLine('DTEND', addDaysToDateString(exception.endDate, 1).replace(/-/g, ''), { VALUE: 'DATE' })
+    );
+  }
+
+  lines.push(`SUMMARY:${escapeICalText(exception.reason ? `${title}: ${exception.reason}` : title)}`);
+  if (doctor.location) {
+    lines.push(`LOCATION:${escapeICalText(doctor.location)}`);
+  }
+  lines.push(`TRANSP:${isBlock ? 'OPAQUE' : 'TRANSPARENT'}`, 'END:VEVENT');
+
+  return lines;
+}
+
+export interface AvailabilityExportOptions {
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
+/**
+ * Exports a doctor's schedule as a calendar clinic staff can subscribe to
+ * Each weekly availability block becomes a recurring event with its stored
+ * RRULE, in the doctor's timezone; days off remove the occurrences they cover
+ * (EXDATE) and appear as events of their own, as do extra hours. Availability
+ * is marked free (TRANSP:TRANSPARENT) so it does not block the staff's own time.
+ * @param doctor - The doctor
+ * @param options - DTSTAMP
+ * @returns iCal string
+ */
+export function exportAvailabilityToIcs(doctor: Doctor, options: AvailabilityExportOptions = {}): string {
+  const now = options.now || new Date();
+  const timeZone = getDoctorTimeZone(doctor);
+  const exceptions = doctor.availabilityExceptions || [];
+  const daysOff = exceptions.filter(exception => exception.type === 'block' && (!exception.startTime || !exception.endTime));
+
+  const lines = [
+    ...buildCalendarHeader('PUBLISH', `${doctor.name} availability`),
+    ...buildRecurringTimeZoneLines(timeZone, now.getUTCFullYear())
+  ];
+
+  for (const availability of doctor.weeklyAvailability) {
+    const recurrence = getAvailabilityRecurrence(availability);
+    if (!recurrence) continue;
+
+    const skippedDates = daysOff.flatMap(exception => expandAvailabilityToDates(
+      availability,
+      zonedTimeToDate(exception.startDate, '00:00', timeZone),
+      zonedTimeToDate(exception.endDate, '00:00', timeZone),
+      timeZone
+    ));
+
+    lines.push(
+      'BEGIN:VEVENT',
+      `UID:availability-${availability.id}@petslot.app`,
+      `DTSTAMP:${formatDateForICal(now)}`,
+      zonedDateTimeLine('DTSTART', recurrence.firstDate, availability.startTime, timeZone),
+      zonedDateTimeLine('DTEND', recurrence.firstDate, availability.endTime, timeZone),
+      `RRULE:${recurrence.rule}`
+    );
+
+    if (skippedDates.length > 0) {
+      const startTime = `${availability.startTime.replace(':', '')}00`;
+      lines.push(contentLine(
+        'EXDATE',
+        [...new Set(skippedDates)].sort().map(date => `${date.replace(/-/g, '')}T${startTime}`).join(','),
+        { TZID: timeZone }
+      ));
+    }
+
+    lines.push(
+      `SUMMARY:${escapeICalText(`${doctor.name} available`)}`,
+      `DESCRIPTION:${escapeICalText(describeAvailability(availability))}`
+    );
+    if (doctor.location) {
+      lines.push(`LOCATION:${escapeICalText(doctor.location)}`);
+    }
+    lines.push(
+      contentLine('ORGANIZER', `mailto:${ICS_ORGANIZER_EMAIL}`, { CN: doctor.name }),
+      'TRANSP:TRANSPARENT',
+      'END:VEVENT'
+    );
+  }
+
+  for (const exception of exceptions) {
+    // Extra hours need times; an extra without them has nothing to show
+    if (exception.type === 'extra' && (!exception.startTime || !exception.endTime)) continue;
+    lines.push(...buildExceptionEventLines(doctor, exception, timeZone, now));
+  }
+
+  lines.push('END:VCALENDAR');
+
+  return serializeLines(lines);
+}
+
+export interface FreeBusyPeriod {
+  startISO: string;
+  endISO: string;
+}
+
+export interface FreeBusyExport {
+  doctor: Doctor;
+  fromISO: string; // Start of the range covered
+  toISO: string; // End of the range covered
+  busy: FreeBusyPeriod[]; // Booked appointments
+  free: FreeBusyPeriod[]; // Time that can still be booked
+  unavailable?: FreeBusyPeriod[]; // Time off
+  now?: Date; // DTSTAMP; defaults to the current time
+}
+
+/**
+ * Formats periods as FREEBUSY values, clipped to the range, sorted, and with
+ * overlapping periods merged
+ */
+function formatFreeBusyPeriods(periods: FreeBusyPeriod[], from: Date, to: Date): string {
+  const merged: { start: number; end: number }[] = [];
+  const clipped = periods
+    .map(period => ({
+      start: Math.max(new Date(period.startISO).getTime(), from.getTime()),
+      end: Math.min(new Date(period.endISO).getTime(), to.getTime())
+    }))
+    .filter(period => period.end > period.start)
+    .sort((a, b) => a.start - b.start);
+
+  for (const period of clipped) {
+    const last = merged[merged.length - 1];
+    if (last && period.start <= last.end) {
+      last.end = Math.max(last.end, period.end);
+    } else {
+      merged.push({ ...period });
+    }
+  }
+
+  return merged
+    .map(period => `${formatDateForICal(new Date(period.start))}/${formatDateForICal(new Date(period.end))}`)
+    .join(',');
+}
+
+/**
+ * Exports when a doctor is free and busy over a date range (VFREEBUSY)
+ * Only times are shared: busy periods say nothing about the appointments.
+ * @param freeBusy - The doctor, the range and its periods
+ * @returns iCal string
+ */
+export function exportFreeBusyToIcs(freeBusy: FreeBusyExport): string {
+  const now = freeBusy.now || new Date();
+  const from = new Date(freeBusy.fromISO);
+  const to = new Date(freeBusy.toISO);
+
+  const lines = [
+    ...buildCalendarHeader('PUBLISH'),
+    'BEGIN:VFREEBUSY',
+    `UID:freebusy-${freeBusy.doctor.id}-${formatDateForICal(from)}@petslot.app`,
+    `DTSTAMP:${formatDateForICal(now)}`,
+    `DTSTART:${formatDateForICal(from)}`,
+    `DTEND:${formatDateForICal(to)}`,
+    contentLine('ORGANIZER', `mailto:${ICS_ORGANIZER_EMAIL}`, { CN: freeBusy.doctor.name })
+  ];
+
+  const periodTypes: Array<[string, FreeBusyPeriod[]]> = [
+    ['BUSY', freeBusy.busy],
+    ['BUSY-UNAVAILABLE', freeBusy.unavailable || []],
+    ['FREE', freeBusy.free]
+  ];
+  for (const [type, periods] of periodTypes) {
+    const value = formatFreeBusyPeriods(periods, from, to);
+    if (value) {
+      lines.push(contentLine('FREEBUSY', value, { FBTYPE: type }));
+    }
+  }
+
+  lines.push('END:VFREEBUSY', 'END:VCALENDAR');
+
+  return serializeLines(lines);
+}
+
+interface ParsedContentLine {
+  name: string;
+  parameters: Record<string, string>;
+  value: string;
+}
+
+/**
+ * Splits an unfolded content line into its name, parameters and value
+ * Separators inside quoted parameter values are ignored.
+ */
+function parseContentLine(line: string): ParsedContentLine | null {
+  let inQuotes = false;
+  let valueStart = -1;
+  const segments: string[] = [];
+  let segment = '';
+
+  for (let index = 0; index < line.length; index++) {
+    const character = line[index];
+    if (character === '"') {
+      inQuotes = !inQuotes;
+    } else if (!inQuotes && character === ';') {
+      segments.push(segment);
+      segment = '';
+      continue;
+    } else if (!inQuotes && character === ':') {
+      valueStart = index + 1;
+      break;
+    }
+    segment += character;
+  }
+
+  if (valueStart === -1) return null;
+  segments.push(segment);
+
+  const [name, ...parameterSegments] = segments;
+  const parameters: Record<string, string> = {};
+  for (const parameter of parameterSegments) {
+    const equalsIndex = parameter.indexOf('=');
+    if (equalsIndex === -1) continue;
+    parameters[parameter.substring(0, equalsIndex).toUpperCase()] =
+      parameter.substring(equalsIndex + 1).replace(/^"(.*)"$/, '$1');
+  }
+
+  return {
+    name: name.toUpperCase(),
+    parameters,
+    value: line.substring(valueStart)
+  };
+}
+
+/**
+ * Undoes line folding: a line break followed by a space or tab continues the line
+ */
+function unfoldLines(icalString: string): string[] {
+  return icalString.replace(/\r?\n[ \t]/g, '').split(/\r?\n/);
+}
+
+export interface IcsImportResult {
+  appointment: Partial<Appointment> | null; // Null when the event failed validation
+  errors: string[];
+}
+
+export interface IcsEventImport extends IcsImportResult {
+  summary: string; // The event's title, to show events from other calendars
+  allDay: boolean; // The event has dates rather than times (VALUE=DATE)
+}
+
+export interface IcsImportOptions {
+  // Timezone of floating times and all-day dates, given the event's other details (e.g. its doctor); UTC when undefined
+  timeZoneFor?: (event: Partial<Appointment>) => string | undefined;
+}
+
+/**
+ * Splits a calendar into the content lines of each VEVENT
+ * Components inside an event, such as VALARM, are kept with it.
+ */
+function splitEvents(icalString: string): ParsedContentLine[][] {
+  const events: ParsedContentLine[][] = [];
+  let current: ParsedContentLine[] | null = null;
+  let nestedDepth = 0;
+
+  for (const line of unfoldLines(icalString)) {
+    const property = parseContentLine(line.trim());
+    if (!property) continue;
+
+    if (!current) {
+      if (property.name === 'BEGIN' && property.value.toUpperCase() === 'VEVENT') {
+        current = [];
+        nestedDepth = 0;
+      }
+      continue;
+    }
+
+    if (property.name === 'END' && nestedDepth === 0) {
+      events.push(current);
+      current = null;
+      continue;
+    }
+
+    if (property.name === 'BEGIN') nestedDepth++;
+    if (property.name === 'END') nestedDepth--;
+    current.push(property);
+  }
+
+  // A truncated file still reports what it has
+  if (current) {
+    events.push(current);
+  }
+
+  return events;
+}
+
+/**
+ * Parses an iCal duration (e.g. PT30M, P1DT2H) to milliseconds
+ */
+function parseICalDuration(value: string): number | null {
+  const match = value.trim().match(/^([+-])?P(?:(\d+)W)?(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+)S)?)?$/);
+  if (!match) return null;
+
+  const [, sign, weeks, days, hours, minutes, seconds] = match;
+  const totalSeconds =
+    Number(weeks || 0) * 7 * 86400 +
+    Number(days || 0) * 86400 +
+    Number(hours || 0) * 3600 +
+    Number(minutes || 0) * 60 +
+    Number(seconds || 0);
+
+  return (sign === '-' ? -1 : 1) * totalSeconds * 1000;
+}
+
+/**
+ * Reads a DTSTART, DTEND or similar property in its TZID, or the fallback
+ * timezone for floating times and dates
+ * Problems are added to the errors and give null.
+ */
+function readDateProperty(
+  property: ParsedContentLine,
+  fallbackTimeZone: string | undefined,
+  errors: string[]
+): Date | null {
+  const timeZone = property.parameters.TZID || fallbackTimeZone;
+  if (timeZone && !isValidTimeZone(timeZone)) {
+    errors.push(`${property.name} timezone "${timeZone}" is not recognised`);
+    return null;
+  }
+
+  const date = parseICalDate(property.value.trim(), timeZone);
+  if (isNaN(date.getTime())) {
+    errors.push(`${property.name} "${property.value}" is not a valid date`);
+    return null;
+  }
+  return date;
+}
+
+/**
+ * Converts one VEVENT to appointment data
+ */
+function importEvent(properties: ParsedContentLine[], options: IcsImportOptions): IcsEventImport {
   const appointment: Partial<Appointment> = {};
-  
-  let inEvent = false;
-  
-  for (const line of lines) {
-    const trimmedLine = line.trim();
-    
-    if (trimmedLine === 'BEGIN:VEVENT') {
-      inEvent = true;
+  const errors: string[] = [];
+
+  let summary = '';
+  let eventStatus: AppointmentStatus | undefined;
+  let petSlotStatus: AppointmentStatus | undefined;
+  let startProperty: ParsedContentLine | undefined;
+  let endProperty: ParsedContentLine | undefined;
+  let durationProperty: ParsedContentLine | undefined;
+  let nestedDepth = 0; // Inside a VALARM or other component within the event
+
+  for (const property of properties) {
+    if (property.name === 'BEGIN') {
+      nestedDepth++;
       continue;
     }
-    
-    if (trimmedLine === 'END:VEVENT') {
-      inEvent = false;
-      break;
+    if (property.name === 'END') {
+      nestedDepth--;
+      continue;
     }
-    
-    if (!inEvent) continue;
-    
-    const colonIndex = trimmedLine.indexOf(':');
-    if (colonIndex === -1) continue;
-    
-    const property = trimmedLine.substring(0, colonIndex);
-    const value = trimmedLine.substring(colonIndex + 1);
-    
-    switch (property) {
+    if (nestedDepth > 0) continue;
+
+    const { value } = property;
+
+    switch (property.name) {
       case 'UID':
         // Extract appointment ID if it's from our app
         if (value.includes('@petslot.app')) {
           appointment.id = value.split('@')[0];
         }
         break;
-        
+
       case 'DTSTART':
-        appointment.startDateISO = parseICalDate(value).toISOString();
+        startProperty = property;
         break;
-        
+
       case 'DTEND':
-        appointment.endDateISO = parseICalDate(value).toISOString();
+        endProperty = property;
         break;
-        
-      case 'SUMMARY':
-        const summary = unescapeICalText(value);
+
+      case 'DURATION':
+        durationProperty = property;
+        break;
+
+      case 'SUMMARY': {
+        summary = unescapeICalText(value);
         // Try to extract pet name from summary
         const petMatch = summary.match(/Pet Appointment - (.+)/);
         if (petMatch) {
           appointment.petName = petMatch[1];
         }
         break;
-        
+      }
+
       case 'DESCRIPTION':
         parseDescription(unescapeICalText(value), appointment);
         break;
-        
+
       case 'LOCATION':
         appointment.location = unescapeICalText(value);
         break;
-        
+
       case 'STATUS':
-        const status = value.toLowerCase();
-        if (['scheduled', 'confirmed', 'cancelled', 'completed'].includes(status)) {
-          appointment.status = status as any;
+        eventStatus = APPOINTMENT_STATUSES_BY_VEVENT_STATUS[value.toUpperCase()];
+        break;
+
+      case STATUS_PROPERTY: {
+        const status = value.toLowerCase() as AppointmentStatus;
+        if (APPOINTMENT_STATUSES.includes(status)) {
+          petSlotStatus = status;
         }
         break;
-        
+      }
+
       case 'ORGANIZER':
-        // Extract doctor name from organizer
-        const doctorMatch = value.match(/CN=([^;]+)/);
-        if (doctorMatch) {
-          appointment.doctorName = unescapeICalText(doctorMatch[1]);
+        if (property.parameters.CN) {
+          appointment.doctorName = property.parameters.CN;
         }
         break;
-        
+
       case 'ATTENDEE':
-        // Extract owner name from attendee
-        const ownerMatch = value.match(/CN=([^;]+)/);
-        if (ownerMatch) {
-          appointment.ownerName = unescapeICalText(ownerMatch[1]);
+        if (property.parameters.CN) {
+          appointment.ownerName = property.parameters.CN;
         }
         break;
     }
   }
-  
+
+  // Our own status is exact; STATUS cannot tell a completed visit from a confirmed one
+  const status = petSlotStatus || eventStatus;
+  if (status) {
+    appointment.status = status;
+  }
+
+  // Dates are read last: floating times depend on the doctor the event names
+  const fallbackTimeZone = options.timeZoneFor?.(appointment);
+  const allDay = startProperty?.parameters.VALUE === 'DATE' || /^\d{8}$/.test(startProperty?.value.trim() || '');
+
+  const parseDate = (property: ParsedContentLine) => readDateProperty(property, fallbackTimeZone, errors);
+
+  const start = startProperty ? parseDate(startProperty) : null;
+  if (start) {
+    appointment.startDateISO = start.toISOString();
+
+    if (endProperty) {
+      const end = parseDate(endProperty);
+      if (end) {
+        appointment.endDateISO = end.toISOString();
+      }
+    } else if (durationProperty) {
+      const duration = parseICalDuration(durationProperty.value);
+      if (duration === null) {
+        errors.push(`DURATION "${durationProperty.value}" is not a valid duration`);
+      } else {
+        appointment.endDateISO = new Date(start.getTime() + duration).toISOString();
+      }
+    } else if (allDay) {
+      // An all-day event without an end lasts the one day
+      appointment.endDateISO = new Date(start.getTime() + 24 * 60 * 60 * 1000).toISOString();
+    }
+  }
+
   // Generate new ID if not present
   if (!appointment.id) {
     appointment.id = generateUUID();
   }
-  
-  return appointment;
+
+  // Unparseable dates would also be reported as missing; the parse errors say more
+  if (errors.length === 0) {
+    errors.push(...validateImportedAppointment(appointment));
+  }
+
+  return {
+    appointment: errors.length > 0 ? null : appointment,
+    errors,
+    summary,
+    allDay
+  };
 }
 
 /**
- * Parses the description field to extract appointment details
+ * Imports every event in an iCal string as appointment data
+ * Each event is validated on its own, so one malformed event does not stop
+ * the others from being read.
+ * @param icalString - The iCal string to parse
+ * @param options - Timezone for floating times and all-day dates
+ * @returns IcsEventImport[] - One result per VEVENT, in file order
  */
-function parseDescription(description: string, appointment: Partial<Appointment>): void {
-  const lines = description.split('\\n');
-  
-  for (const line of lines) {
-    const colonIndex = line.indexOf(':');
-    if (colonIndex === -1) continue;
-    
-    const key = line.substring(0, colonIndex).trim();
-    const value = line.substring(colonIndex + 1).trim();
-    
-    switch (key.toLowerCase()) {
-      case 'pet':
-        appointment.petName = value;
+export function importIcsToAppointments(icalString: string, options: IcsImportOptions = {}): IcsEventImport[] {
+  return splitEvents(icalString).map(properties => importEvent(properties, options));
+}
+
+/**
+ * Imports an iCal string and converts it to appointment data
+ * The event is validated instead of trusted, so a malformed file is reported
+ * through the errors rather than throwing or producing unusable dates.
+ * Only the first event is read; see importIcsToAppointments for whole calendars.
+ * @param icalString - The iCal string to parse
+ * @returns IcsImportResult - Partial appointment data (without owner, pet or doctor IDs) or the problems found
+ */
+export function importIcsToAppointment(icalString: string): IcsImportResult {
+  const [event] = importIcsToAppointments(icalString);
+  if (!event) {
+    return { appointment: null, errors: ['The calendar has no events'] };
+  }
+
+  return { appointment: event.appointment, errors: event.errors };
+}
+
+// Most occurrences read from one recurring event, so a runaway rule cannot stall an import
+const MAX_BUSY_OCCURRENCES = 1000;
+
+export interface IcsBusyPeriod {
+  uid: string; // The source event's UID; occurrences of a recurring event share it
+  summary: string;
+  startISO: string;
+  endISO: string;
+  allDay: boolean;
+}
+
+export interface IcsBusyImport {
+  calendarName?: string; // X-WR-CALNAME, when the calendar has one
+  periods: IcsBusyPeriod[]; // Busy time overlapping the range, recurring events expanded
+  uids: string[]; // Every event in the calendar, including cancelled and free ones
+  errors: string[]; // Events that could not be read
+}
+
+export interface IcsBusyImportOptions {
+  timeZone: string; // Timezone of floating times and all-day dates
+  fromISO: string; // Start of the range recurring events are expanded over
+  toISO: string; // End of the range
+}
+
+interface BusyEvent {
+  uid: string;
+  summary: string;
+  start: Date;
+  end: Date;
+  allDay: boolean;
+  timeZone: string; // Timezone the event recurs in; UTC for UTC times
+  free: boolean; // Cancelled, or marked TRANSP:TRANSPARENT
+  rrule?: string;
+  excluded: number[]; // EXDATE instants (ms)
+  recurrenceId?: number; // Set on a changed occurrence of a recurring event (ms)
+}
+
+/**
+ * Reads what a busy import needs from one VEVENT
+ * @returns The event, or the problems found
+ */
+function readBusyEvent(properties: ParsedContentLine[], fallbackTimeZone: string): BusyEvent | string[] {
+  const errors: string[] = [];
+  const event: Partial<BusyEvent> & { excluded: number[] } = { summary: '', free: false, excluded: [] };
+  let startProperty: ParsedContentLine | undefined;
+  let endProperty: ParsedContentLine | undefined;
+  let durationProperty: ParsedContentLine | undefined;
+  let nestedDepth = 0;
+
+  for (const property of properties) {
+    if (property.name === 'BEGIN' || property.name === 'END') {
+      nestedDepth += property.name === 'BEGIN' ? 1 : -1;
+      continue;
+    }
+    if (nestedDepth > 0) continue;
+
+    const value = property.value.trim();
+    switch (property.name) {
+      case 'UID':
+        event.uid = value;
+        break;
+      case 'SUMMARY':
+        event.summary = unescapeICalText(value);
+        break;
+      case 'DTSTART':
+        startProperty = property;
+        break;
+      case 'DTEND':
+        endProperty = property;
+        break;
+      case 'DURATION':
+        durationProperty = property;
         break;
-      case 'owner':
-        appointment.ownerName = value;
+      case 'STATUS':
+        event.free = event.free || value.toUpperCase() === 'CANCELLED';
         break;
-      case 'doctor':
-        appointment.doctorName = value;
+      case 'TRANSP':
+        event.free = event.free || value.toUpperCase() === 'TRANSPARENT';
         break;
-      case 'condition':
-        appointment.disease = value;
+      case 'RRULE':
+        event.rrule = value;
         break;
-      case 'notes':
-        appointment.notes = value;
+      case 'EXDATE':
+        for (const date of value.split(',')) {
+          const excluded = readDateProperty({ ...property, value: date }, fallbackTimeZone, errors);
+          if (excluded) event.excluded.push(excluded.getTime());
+        }
         break;
+      case 'RECURRENCE-ID': {
+        const recurrenceId = readDateProperty(property, fallbackTimeZone, errors);
+        if (recurrenceId) event.recurrenceId = recurrenceId.getTime();
+        break;
+      }
+    }
+  }
+
+  if (!startProperty) {
+    return ['The event has no start'];
+  }
+
+  const start = readDateProperty(startProperty, fallbackTimeZone, errors);
+  event.allDay = startProperty.parameters.VALUE === 'DATE' || /^\d{8}$/.test(startProperty.value.trim());
+  event.timeZone = /Z$/i.test(startProperty.value.trim())
+    ? 'UTC'
+    : startProperty.parameters.TZID || fallbackTimeZone;
+
+  let end: Date | null = null;
+  if (start && endProperty) {
+    end = readDateProperty(endProperty, fallbackTimeZone, errors);
+  } else if (start && durationProperty) {
+    const duration = parseICalDuration(durationProperty.value);
+    if (duration === null) {
+      errors.push(`DURATION "${durationProperty.value}" is not a valid duration`);
+    } else {
+      end = new Date(start.getTime() + duration);
+    }
+  } else if (start) {
+    // Without an end, an all-day event lasts the day and a timed one takes no time
+    end = event.allDay ? new Date(start.getTime() + 24 * 60 * 60 * 1000) : start;
+  }
+
+  if (errors.length > 0 || !start || !end) {
+    return errors;
+  }
+  if (end < start) {
+    return ['The event ends before it starts'];
+  }
+
+  return {
+    ...event,
+    uid: event.uid || generateUUID(),
+    start,
+    end
+  } as BusyEvent;
+}
+
+/**
+ * Expands a recurring event into the starts of its occurrences within a range
+ * rrule runs on floating times (local wall-clock time stored as UTC) in the
+ * event's timezone, so a 09:00 meeting stays at 09:00 across DST changes.
+ */
+function expandBusyOccurrences(event: BusyEvent, from: Date, to: Date): Date[] {
+  const toFloating = (date: Date): Date => {
+    const parts = getZonedDateParts(date, event.timeZone);
+    return new Date(Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute, parts.second));
+  };
+  const fromFloating = (date: Date): Date => zonedTimeToDate(
+    date.toISOString().slice(0, 10),
+    date.toISOString().slice(11, 16),
+    event.timeZone
+  );
+
+  const duration = event.end.getTime() - event.start.getTime();
+  const rule = new RRule({
+    ...RRule.parseString(event.rrule!),
+    dtstart: toFloating(event.start),
+    tzid: null
+  });
+
+  // Occurrences that start before the range can still run into it
+  return rule
+    .between(toFloating(new Date(from.getTime() - duration)), toFloating(to), true, (_, count) =>
+      count < MAX_BUSY_OCCURRENCES
+    )
+    .map(fromFloating);
+}
+
+/**
+ * Reads the busy time in a calendar from another app, e.g. a doctor's
+ * personal calendar
+ * Recurring events are expanded over the range, leaving out EXDATEs and the
+ * occurrences changed by their own VEVENT (RECURRENCE-ID). Cancelled events
+ * and events marked free (TRANSP:TRANSPARENT) take no time.
+ * @param icalString - The iCal file contents
+ * @param options - Timezone for floating times and the range to read
+ * @returns IcsBusyImport - The busy periods, every UID, and the events that could not be read
+ */
+export function importIcsToBusyPeriods(icalString: string, options: IcsBusyImportOptions): IcsBusyImport {
+  const from = new Date(options.fromISO);
+  const to = new Date(options.toISO);
+  const result: IcsBusyImport = { periods: [], uids: [], errors: [] };
+
+  const calendarName = unfoldLines(icalString)
+    .map(line => parseContentLine(line.trim()))
+    .find(property => property?.name === 'X-WR-CALNAME');
+  if (calendarName && calendarName.value.trim()) {
+    result.calendarName = unescapeICalText(calendarName.value.trim());
+  }
+
+  const events: BusyEvent[] = [];
+  splitEvents(icalString).forEach((properties, index) => {
+    const event = readBusyEvent(properties, options.timeZone);
+    if (Array.isArray(event)) {
+      result.errors.push(`Event ${index + 1}: ${event.join('; ')}`);
+    } else {
+      events.push(event);
+    }
+  });
+
+  // Changed occurrences replace the ones the rule would give
+  const changedOccurrences = new Map<string, Set<number>>();
+  for (const event of events) {
+    if (event.recurrenceId !== undefined) {
+      const changed = changedOccurrences.get(event.uid) || new Set<number>();
+      changed.add(event.recurrenceId);
+      changedOccurrences.set(event.uid, changed);
+    }
+  }
+
+  for (const event of events) {
+    if (!result.uids.includes(event.uid)) {
+      result.uids.push(event.uid);
+    }
+    if (event.free) continue;
+
+    let starts = [event.start];
+    if (event.rrule && event.recurrenceId === undefined) {
+      try {
+        const changed = changedOccurrences.get(event.uid);
+        starts = expandBusyOccurrences(event, from, to).filter(start =>
+          !event.excluded.includes(start.getTime()) && !changed?.has(start.getTime())
+        );
+      } catch (error) {
+        result.errors.push(`${event.summary || event.uid}: RRULE "${event.rrule}" is not valid`);
+        continue;
+      }
+    }
+
+    const days = Math.round((event.end.getTime() - event.start.getTime()) / (24 * 60 * 60 * 1000));
+    for (const start of starts) {
+      // All-day events end at midnight in their timezone, whatever DST does in between
+      const end = event.allDay
+        ? zonedTimeToDate(addDaysToDateString(toZonedDateString(start, event.timeZone), days), '00:00', event.timeZone)
+        : new Date(start.getTime() + event.end.getTime() - event.start.getTime());
+
+      if (end > from && start < to && end > start) {
+        result.periods.push({
+          uid: event.uid,
+          summary: event.summary,
+          startISO: start.toISOString(),
+          endISO: end.toISOString(),
+          allDay: event.allDay
+        });
+      }
+    }
+  }
+
+  result.periods.sort((a, b) => a.startISO.localeCompare(b.startISO));
+  return result;
+}
+
+type DescriptionField =
+  | 'petName'
+  | 'ownerName'
+  | 'doctorName'
+  | 'visitTypeName'
+  | 'disease'
+  | 'cancellationReason'
+  | 'notes';
+
+/**
+ * Parses the description field to extract appointment details
+ * Lines that do not start with a known label continue the field before them.
+ */
+function parseDescription(description: string, appointment: Partial<Appointment>): void {
+  // Status is read from STATUS and X-PETSLOT-STATUS instead
+  const fields = new Map<string, DescriptionField | null>([
+    ['pet', 'petName'],
+    ['owner', 'ownerName'],
+    ['doctor', 'doctorName'],
+    ['visit', 'visitTypeName'],
+    ['condition', 'disease'],
+    ['cancellation reason', 'cancellationReason'],
+    ['notes', 'notes'],
+    ['status', null]
+  ]);
+  let currentField: DescriptionField | null = null;
+
+  for (const line of description.split('\n')) {
+    const colonIndex = line.indexOf(':');
+    const key = colonIndex === -1 ? '' : line.substring(0, colonIndex).trim().toLowerCase();
+
+    if (fields.has(key)) {
+      currentField = fields.get(key) || null;
+      if (currentField) {
+        appointment[currentField] = line.substring(colonIndex + 1).trim();
+      }
+    } else if (currentField) {
+      appointment[currentField] = `${appointment[currentField]}\n${line}`;
     }
   }
 }
@@ -249,48 +1336,7 @@ function parseDescription(description: string, appointment: Partial<Appointment>
  */
 export function isValidICalString(icalString: string): boolean {
   const requiredLines = ['BEGIN:VCALENDAR', 'BEGIN:VEVENT', 'END:VEVENT', 'END:VCALENDAR'];
-  
-  return requiredLines.every(line => icalString.includes(line));
-}
+  const lines = unfoldLines(icalString).map(line => line.trim());
 
-/**
- * Exports multiple appointments to a single iCal file
- * @param appointments - Array of appointments to export
- * @returns iCal string with multiple events
- */
-export function exportMultipleAppointmentsToIcs(appointments: Appointment[]): string {
-  const now = new Date();
-  
-  const icalLines = [
-    'BEGIN:VCALENDAR',
-    'VERSION:2.0',
-    'PRODID:-//PetSlot//Pet Appointment App//EN',
-    'CALSCALE:GREGORIAN',
-    'METHOD:PUBLISH'
-  ];
-  
-  // Add each appointment as an event
-  for (const appointment of appointments) {
-    const startDate = new Date(appointment.startDateISO);
-    const endDate = new Date(appointment.endDateISO);
-    
-    icalLines.push(
-      'BEGIN:VEVENT',
-      `UID:${appointment.id}@petslot.app`,
-      `DTSTAMP:${formatDateForICal(now)}`,
-      `DTSTART:${formatDateForICal(startDate)}`,
-      `DTEND:${formatDateForICal(endDate)}`,
-      `SUMMARY:${escapeICalText(`Pet Appointment - ${appointment.petName}`)}`,
-      `DESCRIPTION:${escapeICalText(createAppointmentDescription(appointment))}`,
-      `LOCATION:${escapeICalText(appointment.location || '')}`,
-      `STATUS:${appointment.status.toUpperCase()}`,
-      `ORGANIZER:CN=${escapeICalText(appointment.doctorName)}`,
-      `ATTENDEE:CN=${escapeICalText(appointment.ownerName)}`,
-      'END:VEVENT'
-    );
-  }
-  
-  icalLines.push('END:VCALENDAR');
-  
-  return icalLines.join('\r\n');
-}
\ No newline at end of file
+  return requiredLines.every(line => lines.includes(line));
+}
@@ -1,33 +1,101 @@
-import { RRule } from 'rrule';
-import { Availability } from '../../domain/entities/Doctor';
+import { Frequency, RRule, Weekday } from 'rrule';
+import {
+  Availability,
+  AvailabilityException,
+  AvailabilityExceptionType
+} from '../../domain/entities/Doctor';
+import { formatDate, getWeekdayName, parseLocalDate } from './date';
+import {
+  addDaysToDateString,
+  getDeviceTimeZone,
+  getWeekdayOfDateString,
+  toZonedDateString,
+  zonedTimeToDate
+} from './timezone';
+
+export const RRULE_WEEKDAYS = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
+
+// Rules saved without DTSTART are anchored here so INTERVAL>1 keeps the same weeks
+const DEFAULT_RRULE_ANCHOR = '2024-01-01';
+
+export type RecurrenceFrequency = 'weekly' | 'monthly';
+
+/**
+ * Editable form of the recurrence rules the schedule editor supports
+ * Weekly rules repeat on one or more weekdays every N weeks; monthly rules
+ * repeat on the Nth (or last) weekday of every N months.
+ */
+export interface RecurrenceOptions {
+  frequency: RecurrenceFrequency;
+  interval: number; // Every N weeks or months
+  weekdays: number[]; // Days of week (0-6, Sunday-Saturday); monthly rules use the first
+  monthlyPosition?: number; // 1-4 for first to fourth, -1 for last; monthly rules only
+  startDate?: string; // YYYY-MM-DD the rule counts from (DTSTART)
+  endDate?: string; // YYYY-MM-DD of the last possible occurrence (UNTIL)
+  count?: number; // Number of occurrences (COUNT); not combined with endDate
+}
 
 /**
- * Expands availability with rrule patterns into concrete dates
+ * Expands availability with rrule patterns into the calendar dates it applies on
+ * Recurrences are evaluated on the doctor's calendar, so a date is the same
+ * day of the week wherever the device is.
  * @param availability - The availability configuration
- * @param fromDate - Start date for expansion
- * @param toDate - End date for expansion
- * @returns Array of dates when the availability applies
+ * @param fromDate - Start of the range
+ * @param toDate - End of the range
+ * @param timeZone - IANA timezone the availability is defined in (default: the device's)
+ * @param exceptions - Optional exceptions; dates blocked for the whole day are left out
+ * @returns Dates in YYYY-MM-DD format when the availability applies
  */
 export function expandAvailabilityToDates(
   availability: Availability,
   fromDate: Date,
-  toDate: Date
-): Date[] {
-  const dates: Date[] = [];
+  toDate: Date,
+  timeZone: string = getDeviceTimeZone(),
+  exceptions: AvailabilityException[] = []
+): string[] {
+  const dates = expandRecurrenceToDates(
+    availability,
+    toZonedDateString(fromDate, timeZone),
+    toZonedDateString(toDate, timeZone)
+  );
+
+  const blockedDays = exceptions.filter(exception =>
+    exception.type === 'block' && (!exception.startTime || !exception.endTime)
+  );
+  if (blockedDays.length === 0) {
+    return dates;
+  }
+
+  return dates.filter(day =>
+    !blockedDays.some(exception => exception.startDate <= day && day <= exception.endDate)
+  );
+}
+
+/**
+ * Expands a weekly availability block into the dates it recurs on
+ * rrule is evaluated on "floating" dates (UTC midnight standing in for the
+ * calendar day) so the device timezone never shifts an occurrence.
+ */
+function expandRecurrenceToDates(
+  availability: Availability,
+  firstDay: string,
+  lastDay: string
+): string[] {
+  const dates: string[] = [];
   
   // If no rrule, generate weekly occurrences for the specified weekday
   if (!availability.rrule) {
-    const current = new Date(fromDate);
+    let current = firstDay;
     
     // Find the first occurrence of the weekday
-    while (current.getDay() !== availability.weekday && current <= toDate) {
-      current.setDate(current.getDate() + 1);
+    while (getWeekdayOfDateString(current) !== availability.weekday && current <= lastDay) {
+      current = addDaysToDateString(current, 1);
     }
     
     // Generate weekly occurrences
-    while (current <= toDate) {
-      dates.push(new Date(current));
-      current.setDate(current.getDate() + 7);
+    while (current <= lastDay) {
+      dates.push(current);
+      current = addDaysToDateString(current, 7);
     }
     
     return dates;
@@ -35,33 +103,113 @@ export function expandAvailabilityToDates(
   
   try {
     // Parse the rrule and generate occurrences
-    const rule = RRule.fromString(availability.rrule);
-    const occurrences = rule.between(fromDate, toDate, true);
+    const options = RRule.parseString(availability.rrule);
+    const { endDate } = getRuleDates(availability.rrule);
+    const rule = new RRule({
+      ...options,
+      dtstart: options.dtstart || toFloatingDate(DEFAULT_RRULE_ANCHOR),
+      until: options.until && endDate ? endOfFloatingDay(endDate) : options.until,
+      tzid: null
+    });
+    const occurrences = rule.between(toFloatingDate(firstDay), endOfFloatingDay(lastDay), true);
     
     // Return all occurrences (rrule already handles weekday filtering)
-    return occurrences;
+    return occurrences.map(occurrence => occurrence.toISOString().slice(0, 10));
   } catch (error) {
     console.error('Error parsing rrule:', error);
     // Fallback to weekly pattern
-    return expandAvailabilityToDates(
+    return expandRecurrenceToDates(
       { ...availability, rrule: undefined },
-      fromDate,
-      toDate
+      firstDay,
+      lastDay
     );
   }
 }
 
+/**
+ * Splits an availability's recurrence into what an iCal VEVENT carries
+ * Availability without a valid rule recurs weekly on its weekday, as it does
+ * when slots are generated.
+ * @param availability - The availability block
+ * @returns The first date it applies on (YYYY-MM-DD) and the RRULE value, or
+ *          null if the rule never applies
+ */
+export function getAvailabilityRecurrence(
+  availability: Availability
+): { firstDate: string; rule: string } | null {
+  const hasRule = !!availability.rrule && isValidRRule(availability.rrule);
+  const rule = hasRule
+    ? availability.rrule!.split(/\r?\n/).find(line => !line.startsWith('DTSTART'))!.replace(/^RRULE:/, '')
+    : `FREQ=WEEKLY;INTERVAL=1;BYDAY=${RRULE_WEEKDAYS[availability.weekday]}`;
+
+  const anchor = (hasRule && getRuleDates(availability.rrule!).startDate) || DEFAULT_RRULE_ANCHOR;
+
+  // Far enough ahead for rules repeating every few months
+  const [firstDate] = expandRecurrenceToDates(
+    hasRule ? availability : { ...availability, rrule: undefined },
+    anchor,
+    addDaysToDateString(anchor, 366)
+  );
+
+  return firstDate ? { firstDate, rule } : null;
+}
+
+/**
+ * Represents a calendar day as UTC midnight, the way rrule expects floating dates
+ */
+function toFloatingDate(dateString: string): Date {
+  return new Date(`${dateString}T00:00:00.000Z`);
+}
+
+/**
+ * The last moment of a calendar day on the floating timeline
+ */
+function endOfFloatingDay(dateString: string): Date {
+  return new Date(toFloatingDate(addDaysToDateString(dateString, 1)).getTime() - 1);
+}
+
+/**
+ * Reads the calendar days a rule starts and ends on from its DTSTART and UNTIL
+ * DTSTART is wall-clock time in its TZID, so its date is taken as written.
+ * UNTIL is a UTC instant; with a TZID it is read as the day it falls on in
+ * that timezone. Rules written before UNTIL followed the TZID end at
+ * T235959Z on the day itself, so that form is also taken as written.
+ */
+function getRuleDates(rrule: string): { startDate?: string; endDate?: string } {
+  const dtstart = rrule.match(/DTSTART[^:]*:(\d{4})(\d{2})(\d{2})/);
+  const tzid = rrule.match(/DTSTART;TZID=([^:;]+)/);
+  const until = rrule.match(/UNTIL=(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})(Z?))?/);
+
+  let endDate: string | undefined;
+  if (until) {
+    const [, year, month, day, hours, minutes, seconds, utc] = until;
+    endDate = `${year}-${month}-${day}`;
+
+    if (tzid && utc && `${hours}${minutes}${seconds}` !== '235959') {
+      const instant = new Date(Date.UTC(+year, +month - 1, +day, +hours, +minutes, +seconds));
+      endDate = toZonedDateString(instant, tzid[1]);
+    }
+  }
+
+  return {
+    startDate: dtstart ? `${dtstart[1]}-${dtstart[2]}-${dtstart[3]}` : undefined,
+    endDate
+  };
+}
+
 /**
  * Generates time slots for a given date and time block
  * @param startDatetime - Start datetime
  * @param endDatetime - End datetime
  * @param slotDurationMinutes - Duration of each slot in minutes
+ * @param stepMinutes - Minutes between consecutive slot start times (default: the slot duration)
  * @returns Array of time slots with start and end times
  */
 export function generateSlotsForBlock(
   startDatetime: Date,
   endDatetime: Date,
-  slotDurationMinutes: number = 30
+  slotDurationMinutes: number = 30,
+  stepMinutes: number = slotDurationMinutes
 ): { start: Date; end: Date }[] {
   const slots: { start: Date; end: Date }[] = [];
   const current = new Date(startDatetime);
@@ -77,41 +225,431 @@ export function generateSlotsForBlock(
       });
     }
     
-    current.setTime(current.getTime() + slotDurationMinutes * 60 * 1000);
+    current.setTime(current.getTime() + stepMinutes * 60 * 1000);
   }
   
   return slots;
 }
 
+/**
+ * Expands availability exceptions of one type into concrete time intervals
+ * Multi-day exceptions produce one interval per day; all-day exceptions cover
+ * the day from midnight to midnight in the doctor's timezone.
+ * @param exceptions - The doctor's exceptions
+ * @param type - Which exceptions to expand ('block' or 'extra')
+ * @param fromDate - Start of the range
+ * @param toDate - End of the range
+ * @param timeZone - IANA timezone the exceptions are defined in (default: the device's)
+ * @returns Intervals overlapping the range, in order of the exceptions
+ */
+export function expandExceptionsToIntervals(
+  exceptions: AvailabilityException[],
+  type: AvailabilityExceptionType,
+  fromDate: Date,
+  toDate: Date,
+  timeZone: string = getDeviceTimeZone()
+): { start: Date; end: Date }[] {
+  const intervals: { start: Date; end: Date }[] = [];
+  const lastDayInRange = toZonedDateString(toDate, timeZone);
+
+  for (const exception of exceptions) {
+    if (exception.type !== type) {
+      continue;
+    }
+
+    if (isNaN(parseLocalDate(exception.startDate).getTime()) ||
+        isNaN(parseLocalDate(exception.endDate).getTime())) {
+      continue;
+    }
+
+    let day = exception.startDate;
+    while (day <= exception.endDate && day <= lastDayInRange) {
+      let start: Date;
+      let end: Date;
+
+      if (exception.startTime && exception.endTime) {
+        start = zonedTimeToDate(day, exception.startTime, timeZone);
+        end = zonedTimeToDate(day, exception.endTime, timeZone);
+      } else {
+        start = zonedTimeToDate(day, '00:00', timeZone);
+        end = zonedTimeToDate(addDaysToDateString(day, 1), '00:00', timeZone);
+      }
+
+      if (end > fromDate && start < toDate) {
+        intervals.push({ start, end });
+      }
+
+      day = addDaysToDateString(day, 1);
+    }
+  }
+
+  return intervals;
+}
+
 /**
  * Combines date and time string to create a Date object
- * @param date - The date
+ * @param date - The date; its calendar day is taken in the given timezone
  * @param timeString - Time in HH:MM format
+ * @param timeZone - IANA timezone the time is in (default: the device's)
  * @returns Combined Date object
  */
-export function combineDateAndTime(date: Date, timeString: string): Date {
-  const [hours, minutes] = timeString.split(':').map(Number);
-  const combined = new Date(date);
-  combined.setHours(hours, minutes, 0, 0);
-  return combined;
+export function combineDateAndTime(
+  date: Date,
+  timeString: string,
+  timeZone: string = getDeviceTimeZone()
+): Date {
+  return zonedTimeToDate(toZonedDateString(date, timeZone), timeString, timeZone);
 }
 
 /**
  * Creates an rrule string for weekly recurrence
  * @param weekday - Day of week (0-6)
  * @param interval - Interval between occurrences (default: 1 for weekly)
+ * @param anchorDate - Optional YYYY-MM-DD the recurrence counts from (DTSTART)
+ * @param timeZone - Optional IANA timezone recorded as the DTSTART's TZID
  * @returns RRule string
  */
-export function createWeeklyRRule(weekday: number, interval: number = 1): string {
-  const weekdays = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA'];
-  return `FREQ=WEEKLY;INTERVAL=${interval};BYDAY=${weekdays[weekday]}`;
+export function createWeeklyRRule(
+  weekday: number,
+  interval: number = 1,
+  anchorDate?: string,
+  timeZone?: string
+): string {
+  return buildRRule({ frequency: 'weekly', interval, weekdays: [weekday], startDate: anchorDate }, timeZone);
 }
 
 /**
  * Creates an rrule string for bi-weekly recurrence
  * @param weekday - Day of week (0-6)
+ * @param anchorDate - Optional YYYY-MM-DD the recurrence counts from (DTSTART)
+ * @param timeZone - Optional IANA timezone recorded as the DTSTART's TZID
  * @returns RRule string
  */
-export function createBiWeeklyRRule(weekday: number): string {
-  return createWeeklyRRule(weekday, 2);
-}
\ No newline at end of file
+export function createBiWeeklyRRule(weekday: number, anchorDate?: string, timeZone?: string): string {
+  return createWeeklyRRule(weekday, 2, anchorDate, timeZone);
+}
+
+/**
+ * Checks whether an rrule string can be evaluated
+ * @param rrule - RRule string, optionally with a DTSTART line
+ * @returns True if the rule parses and has a frequency
+ */
+export function isValidRRule(rrule: string): boolean {
+  try {
+    const options = RRule.parseString(rrule);
+    return options.freq !== undefined && options.freq !== null;
+  } catch (error) {
+    return false;
+  }
+}
+
+/**
+ * Creates an rrule string for a monthly recurrence on the Nth weekday, e.g. "first Monday"
+ * @param weekday - Day of week (0-6)
+ * @param position - 1-4 for first to fourth, -1 for last
+ * @param interval - Months between occurrences (default: 1)
+ * @param anchorDate - Optional YYYY-MM-DD the recurrence counts from (DTSTART)
+ * @param timeZone - Optional IANA timezone recorded as the DTSTART's TZID
+ * @returns RRule string
+ */
+export function createMonthlyByWeekdayRRule(
+  weekday: number,
+  position: number,
+  interval: number = 1,
+  anchorDate?: string,
+  timeZone?: string
+): string {
+  return buildRRule(
+    { frequency: 'monthly', interval, weekdays: [weekday], monthlyPosition: position, startDate: anchorDate },
+    timeZone
+  );
+}
+
+/**
+ * Checks recurrence options before building a rule from them
+ * @param options - The recurrence options
+ * @returns An error message, or null if the options are valid
+ */
+export function validateRecurrence(options: RecurrenceOptions): string | null {
+  if (!Number.isInteger(options.interval) || options.interval < 1) {
+    return 'Repeat interval must be a whole number of at least 1';
+  }
+
+  if (options.weekdays.length === 0) {
+    return 'Choose at least one day of the week';
+  }
+
+  if (options.frequency === 'monthly' &&
+      ![1, 2, 3, 4, -1].includes(options.monthlyPosition ?? 0)) {
+    return 'Choose which week of the month to repeat on';
+  }
+
+  for (const date of [options.startDate, options.endDate]) {
+    if (date !== undefined && isNaN(parseLocalDate(date).getTime())) {
+      return 'Recurrence dates must be in YYYY-MM-DD format';
+    }
+  }
+
+  if (options.startDate && options.endDate && options.endDate < options.startDate) {
+    return 'Recurrence must not end before it starts';
+  }
+
+  if (options.count !== undefined && (!Number.isInteger(options.count) || options.count < 1)) {
+    return 'Number of occurrences must be a whole number of at least 1';
+  }
+
+  if (options.count !== undefined && options.endDate) {
+    return 'A recurrence ends either on a date or after a number of occurrences, not both';
+  }
+
+  // Without one the occurrences would be counted from DEFAULT_RRULE_ANCHOR
+  if (options.count !== undefined && !options.startDate) {
+    return 'Choose a start date for a recurrence that ends after a number of occurrences';
+  }
+
+  return null;
+}
+
+/**
+ * Builds an rrule string from recurrence options
+ * The end date is kept as the last clinic calendar day: UNTIL is written as
+ * the end of that day in the DTSTART's TZID, or in UTC for floating rules.
+ * @param options - The recurrence options
+ * @param timeZone - Optional IANA timezone recorded as the DTSTART's TZID
+ * @returns RRule string, with a DTSTART line if the options have a start date
+ */
+export function buildRRule(options: RecurrenceOptions, timeZone?: string): string {
+  const parts = [`FREQ=${options.frequency === 'monthly' ? 'MONTHLY' : 'WEEKLY'}`, `INTERVAL=${options.interval}`];
+
+  if (options.frequency === 'monthly') {
+    const position = options.monthlyPosition ?? 1;
+    parts.push(`BYDAY=${position > 0 ? `+${position}` : position}${RRULE_WEEKDAYS[options.weekdays[0]]}`);
+  } else {
+    const weekdays = [...new Set(options.weekdays)].sort((a, b) => a - b);
+    parts.push(`BYDAY=${weekdays.map(weekday => RRULE_WEEKDAYS[weekday]).join(',')}`);
+  }
+
+  if (options.endDate && options.startDate && timeZone) {
+    const endOfDay = new Date(zonedTimeToDate(addDaysToDateString(options.endDate, 1), '00:00', timeZone).getTime() - 1000);
+    parts.push(`UNTIL=${endOfDay.toISOString().replace(/[-:]/g, '').slice(0, 15)}Z`);
+  } else if (options.endDate) {
+    parts.push(`UNTIL=${options.endDate.replace(/-/g, '')}T235959Z`);
+  } else if (options.count) {
+    parts.push(`COUNT=${options.count}`);
+  }
+
+  const rule = parts.join(';');
+  if (!options.startDate) {
+    return rule;
+  }
+
+  const tzid = timeZone ? `;TZID=${timeZone}` : '';
+  return `DTSTART${tzid}:${options.startDate.replace(/-/g, '')}T000000\nRRULE:${rule}`;
+}
+
+/**
+ * Parses an rrule string back into recurrence options for editing
+ * @param rrule - RRule string, optionally with a DTSTART line
+ * @returns The options, or null if the rule uses features the editor cannot show
+ *          (other frequencies, BYMONTHDAY, several monthly weekdays, ...)
+ */
+export function parseRRule(rrule: string): RecurrenceOptions | null {
+  let options: ReturnType<typeof RRule.parseString>;
+  try {
+    options = RRule.parseString(rrule);
+  } catch (error) {
+    return null;
+  }
+
+  const supportedKeys = ['freq', 'interval', 'byweekday', 'bysetpos', 'dtstart', 'tzid', 'until', 'count', 'wkst'];
+  if (Object.keys(options).some(key => !supportedKeys.includes(key))) {
+    return null;
+  }
+
+  const byweekday = toWeekdayList(options.byweekday);
+  if (byweekday.length === 0) {
+    return null;
+  }
+
+  const { startDate, endDate } = getRuleDates(rrule);
+  const recurrence: RecurrenceOptions = {
+    frequency: 'weekly',
+    interval: options.interval || 1,
+    weekdays: [],
+    startDate: options.dtstart ? startDate : undefined,
+    endDate: options.until ? endDate : undefined,
+    count: options.count ?? undefined
+  };
+
+  if (options.freq === Frequency.WEEKLY) {
+    if (options.bysetpos !== undefined || byweekday.some(weekday => weekday.n)) {
+      return null;
+    }
+
+    recurrence.weekdays = byweekday
+      .map(weekday => toSundayFirstWeekday(weekday.weekday))
+      .sort((a, b) => a - b);
+    return recurrence;
+  }
+
+  if (options.freq === Frequency.MONTHLY && byweekday.length === 1) {
+    const [day] = byweekday;
+    const setPositions = options.bysetpos === undefined || options.bysetpos === null
+      ? []
+      : ([] as number[]).concat(options.bysetpos);
+
+    // "+1MO" and "BYDAY=MO;BYSETPOS=1" both mean the first Monday
+    const position = setPositions.length === 0 ? day.n : (!day.n && setPositions.length === 1 ? setPositions[0] : undefined);
+    if (!position || ![1, 2, 3, 4, -1].includes(position)) {
+      return null;
+    }
+
+    recurrence.frequency = 'monthly';
+    recurrence.weekdays = [toSundayFirstWeekday(day.weekday)];
+    recurrence.monthlyPosition = position;
+    return recurrence;
+  }
+
+  return null;
+}
+
+/**
+ * Normalizes rrule's BYDAY values (numbers, Weekday objects or strings) into weekday/position pairs
+ */
+function toWeekdayList(
+  byweekday: ReturnType<typeof RRule.parseString>['byweekday']
+): { weekday: number; n?: number }[] {
+  if (byweekday === undefined || byweekday === null) {
+    return [];
+  }
+
+  const list = Array.isArray(byweekday) ? byweekday : [byweekday];
+  return list.map(day => {
+    if (typeof day === 'number') {
+      return { weekday: day };
+    }
+
+    const weekday = typeof day === 'string' ? Weekday.fromStr(day) : day;
+    return { weekday: weekday.weekday, n: weekday.n || undefined };
+  });
+}
+
+/**
+ * Converts rrule's Monday-first weekday (0 = MO) to the Sunday-first index used elsewhere
+ */
+function toSundayFirstWeekday(weekday: number): number {
+  return (weekday + 1) % 7;
+}
+
+const POSITION_NAMES: Record<number, string> = {
+  1: 'First',
+  2: 'Second',
+  3: 'Third',
+  4: 'Fourth',
+  [-1]: 'Last',
+};
+
+/**
+ * Describes recurrence options in plain English
+ * @param options - The recurrence options
+ * @param today - Today's date (YYYY-MM-DD); start dates up to today are left out
+ * @returns e.g. "Every other Thursday, until Dec 31" or "First Monday of every month"
+ */
+export function describeRecurrence(options: RecurrenceOptions, today?: string): string {
+  const { pattern, limits } = describeRecurrenceParts(options, today);
+  return [pattern, ...limits].join(', ');
+}
+
+/**
+ * Describes a weekly availability block, including its recurrence and hours
+ * @param availability - The availability configuration
+ * @param today - Today's date (YYYY-MM-DD); start dates up to today are left out
+ * @returns e.g. "Every other Thursday, 08:00–16:00, until Dec 31"
+ */
+export function describeAvailability(availability: Availability, today?: string): string {
+  const hours = `${availability.startTime}\u2013${availability.endTime}`;
+
+  if (!availability.rrule) {
+    return `Every ${getWeekdayName(availability.weekday)}, ${hours}`;
+  }
+
+  const recurrence = parseRRule(availability.rrule);
+  if (!recurrence) {
+    return `${describeCustomRRule(availability.rrule)}, ${hours}`;
+  }
+
+  // Keep the hours next to the days: "Every Monday, 09:00–12:00, until Dec 31"
+  const { pattern, limits } = describeRecurrenceParts(recurrence, today);
+  return [pattern, hours, ...limits].join(', ');
+}
+
+/**
+ * Splits a recurrence description into the repeating pattern and its start/end limits
+ */
+function describeRecurrenceParts(
+  options: RecurrenceOptions,
+  today?: string
+): { pattern: string; limits: string[] } {
+  const dayNames = options.weekdays.map(weekday => getWeekdayName(weekday));
+  const limits: string[] = [];
+  let pattern: string;
+
+  if (options.frequency === 'monthly') {
+    const position = POSITION_NAMES[options.monthlyPosition ?? 1];
+    const months = options.interval === 1
+      ? 'every month'
+      : options.interval === 2 ? 'every other month' : `every ${options.interval} months`;
+    pattern = `${position} ${dayNames[0]} of ${months}`;
+  } else if (options.interval === 1) {
+    pattern = `Every ${joinWithAnd(dayNames)}`;
+  } else if (options.interval === 2) {
+    pattern = `Every other ${joinWithAnd(dayNames)}`;
+  } else {
+    pattern = `Every ${options.interval} weeks on ${joinWithAnd(dayNames)}`;
+  }
+
+  if (options.startDate && (!today || options.startDate > today)) {
+    limits.push(`from ${formatRecurrenceDate(options.startDate, today)}`);
+  }
+
+  if (options.endDate) {
+    limits.push(`until ${formatRecurrenceDate(options.endDate, today)}`);
+  } else if (options.count) {
+    limits.push(`${options.count} time${options.count === 1 ? '' : 's'}`);
+  }
+
+  return { pattern, limits };
+}
+
+/**
+ * Falls back to rrule's own English text for rules the editor cannot represent
+ */
+function describeCustomRRule(rrule: string): string {
+  try {
+    const text = RRule.fromString(rrule).toText();
+    return text.charAt(0).toUpperCase() + text.slice(1);
+  } catch (error) {
+    return 'Custom recurring pattern';
+  }
+}
+
+/**
+ * Formats a YYYY-MM-DD date as "Dec 31", adding the year when it is not the current one
+ */
+function formatRecurrenceDate(dateString: string, today?: string): string {
+  const date = parseLocalDate(dateString);
+  const sameYear = !!today && today.slice(0, 4) === dateString.slice(0, 4);
+
+  return formatDate(date, { year: sameYear ? undefined : 'numeric' });
+}
+
+/**
+ * Joins names as "Monday", "Monday and Friday" or "Monday, Wednesday and Friday"
+ */
+function joinWithAnd(names: string[]): string {
+  if (names.length <= 1) {
+    return names.join('');
+  }
+
+  return `${names.slice(0, -1).join(', ')} and ${names[names.length - 1]}`;
+}
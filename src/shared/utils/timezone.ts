@@ -0,0 +1,246 @@
+import { Doctor } from '../../domain/entities/Doctor';
+
+/**
+ * Wall-clock fields of an instant as seen in a timezone
+ */
+export interface ZonedDateParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  hour: number; // 0-23
+  minute: number;
+  second: number;
+}
+
+const formatterCache = new Map<string, Intl.DateTimeFormat>();
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat {
+  let formatter = formatterCache.get(timeZone);
+
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit'
+    });
+    formatterCache.set(timeZone, formatter);
+  }
+
+  return formatter;
+}
+
+/**
+ * Gets the IANA timezone the device is set to
+ * @returns Timezone name, e.g. "Europe/Berlin" (falls back to "UTC")
+ */
+export function getDeviceTimeZone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
+
+/**
+ * Checks whether a string is a timezone name the platform understands
+ * @param timeZone - IANA timezone name
+ * @returns True if the timezone can be used for conversions
+ */
+export function isValidTimeZone(timeZone: string): boolean {
+  if (!timeZone) {
+    return false;
+  }
+
+  try {
+    return !!new Intl.DateTimeFormat('en-US', { timeZone }).resolvedOptions().timeZone;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Gets the timezone a doctor's schedule is defined in
+ * Doctors without a timezone fall back to the device's timezone.
+ * @param doctor - The doctor
+ * @returns IANA timezone name
+ */
+export function getDoctorTimeZone(doctor: Pick<Doctor, 'timeZone'>): string {
+  return doctor.timeZone && isValidTimeZone(doctor.timeZone)
+    ? doctor.timeZone
+    : getDeviceTimeZone();
+}
+
+/**
+ * Gets the wall-clock date and time of an instant in a timezone
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Date and time fields in that timezone
+ */
+export function getZonedDateParts(date: Date, timeZone: string): ZonedDateParts {
+  const parts: Record<string, number> = {};
+
+  for (const part of getPartsFormatter(timeZone).formatToParts(date)) {
+    if (part.type !== 'literal') {
+      parts[part.type] = Number(part.value);
+    }
+  }
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  };
+}
+
+/**
+ * Gets the UTC offset of a timezone at a given instant
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Offset in minutes, e.g. -300 for New York in winter
+ */
+export function getTimeZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const parts = getZonedDateParts(date, timeZone);
+  const wallClockAsUTC = Date.UTC(
+    parts.year,
+    parts.month - 1,
+    parts.day,
+    parts.hour,
+    parts.minute,
+    parts.second
+  );
+  const instant = Math.floor(date.getTime() / 1000) * 1000;
+
+  return Math.round((wallClockAsUTC - instant) / 60000);
+}
+
+/**
+ * Converts a wall-clock date and time in a timezone to an instant
+ * On DST transition days, a time skipped by the clocks springing forward
+ * moves forward by the gap (02:30 becomes 03:30), and a time that occurs
+ * twice when the clocks fall back resolves to its first occurrence.
+ * @param dateString - Date in YYYY-MM-DD format
+ * @param timeString - Time in HH:MM format
+ * @param timeZone - IANA timezone name
+ * @returns The instant
+ */
+export function zonedTimeToDate(dateString: string, timeString: string, timeZone: string): Date {
+  const [year, month, day] = dateString.split('-').map(Number);
+  const [hours, minutes] = timeString.split(':').map(Number);
+  const wallClockAsUTC = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Two passes: the offset at the first guess may be on the other side of a transition
+  const firstOffset = getTimeZoneOffsetMinutes(new Date(wallClockAsUTC), timeZone);
+  const firstGuess = wallClockAsUTC - firstOffset * 60000;
+  const secondOffset = getTimeZoneOffsetMinutes(new Date(firstGuess), timeZone);
+
+  if (secondOffset === firstOffset) {
+    return new Date(firstGuess);
+  }
+
+  const secondGuess = wallClockAsUTC - secondOffset * 60000;
+  if (getTimeZoneOffsetMinutes(new Date(secondGuess), timeZone) === secondOffset) {
+    return new Date(secondGuess);
+  }
+
+  // The wall-clock time does not exist (spring forward gap)
+  return new Date(firstGuess);
+}
+
+/**
+ * Formats the calendar date of an instant in a timezone
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Date in YYYY-MM-DD format
+ */
+export function toZonedDateString(date: Date, timeZone: string): string {
+  const { year, month, day } = getZonedDateParts(date, timeZone);
+  return `${year}-${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`;
+}
+
+/**
+ * Adds calendar days to a YYYY-MM-DD date, independent of any timezone
+ * @param dateString - Date in YYYY-MM-DD format
+ * @param days - Number of days to add (may be negative)
+ * @returns Date in YYYY-MM-DD format
+ */
+export function addDaysToDateString(dateString: string, days: number): string {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day + days)).toISOString().slice(0, 10);
+}
+
+/**
+ * Gets the day of week of a YYYY-MM-DD date
+ * @param dateString - Date in YYYY-MM-DD format
+ * @returns Day of week (0-6, Sunday-Saturday)
+ */
+export function getWeekdayOfDateString(dateString: string): number {
+  const [year, month, day] = dateString.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, day)).getUTCDay();
+}
+
+/**
+ * Gets the short name of a timezone at an instant, e.g. "EST" or "GMT+2"
+ * @param date - The instant (the name can change with DST)
+ * @param timeZone - IANA timezone name
+ * @returns Short timezone name
+ */
+export function getTimeZoneAbbreviation(date: Date | string, timeZone: string): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const name = new Intl.DateTimeFormat('en-US', { timeZone, timeZoneName: 'short' })
+    .formatToParts(dateObj)
+    .find(part => part.type === 'timeZoneName');
+
+  return name?.value || timeZone;
+}
+
+/**
+ * Formats a time as seen in a timezone, labelled with the zone
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @returns Formatted time, e.g. "9:00 AM EST"
+ */
+export function formatTimeInZone(date: Date | string, timeZone: string): string {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  const time = dateObj.toLocaleTimeString('en-US', {
+    timeZone,
+    hour: 'numeric',
+    minute: '2-digit',
+    hour12: true
+  });
+
+  return `${time} ${getTimeZoneAbbreviation(dateObj, timeZone)}`;
+}
+
+/**
+ * Checks whether two timezones show the same wall-clock time at an instant
+ * @param date - The instant
+ * @param timeZone - IANA timezone name
+ * @param otherTimeZone - IANA timezone name
+ * @returns True if both zones currently share the same offset
+ */
+export function isSameOffset(date: Date | string, timeZone: string, otherTimeZone: string): boolean {
+  const dateObj = typeof date === 'string' ? new Date(date) : date;
+  return getTimeZoneOffsetMinutes(dateObj, timeZone) === getTimeZoneOffsetMinutes(dateObj, otherTimeZone);
+}
+
+/**
+ * Labels a time with the clinic's wall-clock time when the device is in another zone
+ * @param date - The instant
+ * @param clinicTimeZone - The doctor's IANA timezone
+ * @returns e.g. "9:00 AM EST clinic time", or null when the device shows the same time
+ */
+export function getClinicTimeLabel(date: Date | string, clinicTimeZone: string): string | null {
+  if (isSameOffset(date, clinicTimeZone, getDeviceTimeZone())) {
+    return null;
+  }
+
+  return `${formatTimeInZone(date, clinicTimeZone)} clinic time`;
+}
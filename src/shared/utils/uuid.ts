@@ -0,0 +1,13 @@
+/**
+ * Generates a random version 4 UUID
+ * React Native has no crypto.getRandomValues without a polyfill, so this uses
+ * Math.random; the IDs are unique enough for records, not for secrets.
+ * @returns string - e.g. '3b241101-e2bb-4255-8caf-4136c566a962'
+ */
+export function generateUUID(): string {
+  return 'xxxxxxxx-xxxx-4xxx-yxxx-xxxxxxxxxxxx'.replace(/[xy]/g, c => {
+    const r = Math.floor(Math.random() * 16);
+    const v = c === 'x' ? r : (r % 4) + 8;
+    return v.toString(16);
+  });
+}
@@ -0,0 +1,67 @@
+import { Doctor } from '../../domain/entities/Doctor';
+import { Appointment } from '../../domain/entities/Appointment';
+import { VisitType, STANDARD_VISIT_TYPE } from '../../domain/entities/VisitType';
+
+/**
+ * Gets the visit types a doctor offers
+ * Visit types that require a specialty the doctor does not have are left out.
+ * @param doctor - The doctor
+ * @returns The doctor's visit types, or the standard consultation if none are configured
+ */
+export function getDoctorVisitTypes(doctor: Doctor): VisitType[] {
+  const visitTypes = (doctor.visitTypes || []).filter(visitType =>
+    !visitType.requiredSpecialty || doctor.specialties.includes(visitType.requiredSpecialty)
+  );
+
+  return visitTypes.length > 0 ? visitTypes : [STANDARD_VISIT_TYPE];
+}
+
+/**
+ * Finds a visit type offered by a doctor
+ * @param doctor - The doctor
+ * @param visitTypeId - The visit type ID, or undefined for the doctor's default visit type
+ * @returns The visit type, or null if the doctor does not offer it
+ */
+export function findDoctorVisitType(doctor: Doctor, visitTypeId?: string): VisitType | null {
+  const visitTypes = getDoctorVisitTypes(doctor);
+
+  if (!visitTypeId) {
+    return visitTypes[0];
+  }
+
+  return visitTypes.find(visitType => visitType.id === visitTypeId) || null;
+}
+
+export interface BufferMinutes {
+  bufferBeforeMinutes: number;
+  bufferAfterMinutes: number;
+}
+
+/**
+ * Gets the buffers kept around a visit
+ * The doctor's buffers apply to every visit; a visit type can ask for longer ones.
+ * @param doctor - The doctor
+ * @param visitType - The visit type, if known
+ * @returns Buffer before and after in minutes
+ */
+export function getVisitBuffers(doctor: Doctor, visitType?: VisitType): BufferMinutes {
+  return {
+    bufferBeforeMinutes: Math.max(doctor.bufferBeforeMinutes || 0, visitType?.bufferBeforeMinutes || 0),
+    bufferAfterMinutes: Math.max(doctor.bufferAfterMinutes || 0, visitType?.bufferAfterMinutes || 0),
+  };
+}
+
+/**
+ * Gets the buffers kept around an existing appointment
+ * Appointments without a (still existing) visit type only get the doctor's buffers.
+ * @param doctor - The doctor the appointment is with
+ * @param appointment - The appointment
+ * @returns Buffer before and after in minutes
+ */
+export function getAppointmentBuffers(doctor: Doctor, appointment: Appointment): BufferMinutes {
+  const visitType = appointment.visitTypeId
+    ? (doctor.visitTypes || []).find(v => v.id === appointment.visitTypeId)
+    : undefined;
+
+  return getVisitBuffers(doctor, visitType);
+}